@@ -0,0 +1,24 @@
+import { build } from 'esbuild';
+import { spawnSync } from 'child_process';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Bundler la CLI de simulation pour Node puis l'exécuter avec les arguments reçus
+const outfile = join(__dirname, 'simulate.bundle.js');
+
+build({
+  entryPoints: ['./src/simulation/cli.ts'],
+  bundle: true,
+  outfile,
+  format: 'esm',
+  target: 'node18',
+  platform: 'node',
+  logLevel: 'warning',
+}).then(() => {
+  const result = spawnSync(process.execPath, [outfile, ...process.argv.slice(2)], { stdio: 'inherit' });
+  process.exit(result.status ?? 1);
+}).catch(() => process.exit(1));
@@ -1,87 +1,95 @@
 import { MainGame } from './MainGame';
 import { HexMapRenderer } from '../view/HexMapRenderer';
-import { CityPanelView } from '../view/CityPanelView';
-import { BuildingProductionController } from '../controller/BuildingProductionController';
-import { AutomationController } from '../controller/AutomationController';
 import { GameCoordinator } from '../controller/GameCoordinator';
+import { IslandEventResult } from '../controller/IslandEventController';
+import { AchievementId } from '../model/achievements/types';
+import { SimulationEngine } from './SimulationEngine';
+
+/**
+ * Boucle de jeu du navigateur : la simulation avance à pas fixe sur un minuteur (SimulationEngine),
+ * le rendu suit requestAnimationFrame.
+ * Les vues s'abonnent au GameEventBus pour les changements d'état ; la boucle ne rafraîchit que
+ * l'affichage dépendant du temps.
+ */
 
 export class GameLoop {
+  /** Intervalle (secondes de jeu) entre deux rafraîchissements de l'affichage dépendant du temps : comptes à rebours, barres de progression */
+  static readonly TIMED_REFRESH_INTERVAL_SECONDS = 1;
+
   private lastAnimationFrame: number | null = null;
-  private gameStartTime: number | null = null;
+  private simulationTimer: ReturnType<typeof setInterval> | null = null;
+  /** Horodatage réel (performance.now) du dernier pas de simulation */
+  private lastSimulationTimestamp: number | null = null;
+  private readonly engine: SimulationEngine;
+  private lastRefreshTime = -Infinity;
 
   constructor(
     private game: MainGame,
     private renderer: HexMapRenderer,
-    private cityPanelView: CityPanelView,
     private coordinator: GameCoordinator,
-    private updateResourcesDisplay: () => void,
-  ) {}
+    private updateTimedDisplays: () => void,
+    private onIslandEvent?: (result: IslandEventResult) => void,
+    private onAchievementsUnlocked?: (achievements: AchievementId[]) => void,
+  ) {
+    this.engine = new SimulationEngine(game, coordinator);
+  }
 
-  private processAutomaticBuildingProduction(): void {
-    const currentIslandMap = this.game.getIslandMap();
-    if (!currentIslandMap) {
-      return;
+  /**
+   * Fait avancer la simulation du temps réel écoulé depuis le pas précédent.
+   * Appelé par un minuteur (et non par requestAnimationFrame) pour continuer dans un onglet en arrière-plan.
+   */
+  private simulate = (): void => {
+    const now = performance.now();
+    const deltaSeconds = this.lastSimulationTimestamp === null ? 0 : (now - this.lastSimulationTimestamp) / 1000;
+    this.lastSimulationTimestamp = now;
+
+    const result = this.engine.advance(deltaSeconds);
+    for (const production of result.production) {
+      this.renderer.triggerHarvestEffect(production.hexCoord, true);
+      this.renderer.triggerResourceHarvestAnimation(production.hexCoord, production.resourceType, production.cityVertex);
     }
-
-    const civId = this.game.getPlayerCivilizationId();
-    const playerResources = this.game.getPlayerResources();
-    const gameClock = this.game.getGameClock();
-
-    const productionResults = BuildingProductionController.processAutomaticProduction(
-      civId,
-      currentIslandMap,
-      playerResources,
-      gameClock
-    );
-
-    if (productionResults.length > 0) {
-      for (const result of productionResults) {
-        if (result.buildingType === result.buildingType) {
-          // reuse existing renderer triggers from main; Market handled via renderer in main previously
-          this.renderer.triggerHarvestEffect(result.hexCoord, true);
-          this.renderer.triggerResourceHarvestAnimation(result.hexCoord, result.resourceType, result.cityVertex);
-        }
-      }
-      this.cityPanelView.scheduleRefresh();
-      // Mettre à jour l'affichage des ressources (inventaire)
-      try {
-        this.updateResourcesDisplay();
-      } catch (e) {
-        // silent
+    for (const excavation of result.excavations) {
+      this.renderer.triggerHarvestEffect(excavation.hexCoord, true);
+      if (excavation.resourceType !== null) {
+        this.renderer.triggerResourceHarvestAnimation(excavation.hexCoord, excavation.resourceType, excavation.cityVertex);
       }
     }
-  }
-
-  private loop = (timestamp: number): void => {
-    if (this.gameStartTime === null) {
-      this.gameStartTime = timestamp;
-      const savedTime = this.game.getGameClock().getCurrentTime();
-      if (savedTime > 0) {
-        this.gameStartTime = timestamp - savedTime * 1000;
-      }
+    if (this.onIslandEvent) {
+      result.islandEvents.forEach(event => this.onIslandEvent!(event));
     }
+    if (result.achievements.length > 0 && this.onAchievementsUnlocked) {
+      this.onAchievementsUnlocked(result.achievements);
+    }
+  };
 
-    const timeSeconds = (timestamp - (this.gameStartTime as number)) / 1000;
-
-    this.game.updateGameTime(timeSeconds);
+  /**
+   * Rafraîchit l'affichage dépendant du temps une fois par TIMED_REFRESH_INTERVAL_SECONDS.
+   */
+  private refreshTimedDisplays(timeSeconds: number): void {
+    if (Math.abs(timeSeconds - this.lastRefreshTime) < GameLoop.TIMED_REFRESH_INTERVAL_SECONDS) {
+      return;
+    }
+    this.lastRefreshTime = timeSeconds;
 
-    this.processAutomaticBuildingProduction();
+    try {
+      this.updateTimedDisplays();
+    } catch (e) {
+      // silent
+    }
+  }
 
-      const currentIslandMap = this.game.getIslandMap();
+  private loop = (): void => {
+    const timeSeconds = this.game.getGameClock().getCurrentTime();
+    const currentIslandMap = this.game.getIslandMap();
     if (currentIslandMap) {
       const civId = this.game.getPlayerCivilizationId();
-      const playerResources = this.game.getPlayerResources();
-      const civilization = this.game.getIslandState().getCivilization(civId);
-      AutomationController.processAllAutomations(civId, civilization, currentIslandMap, playerResources, this.coordinator);
+      this.renderer.setGameModifiers(this.game.getGameModifiers());
+      this.renderer.setConstructionSites(
+        this.game.getIslandState().getConstructionQueue().getSites(),
+        timeSeconds
+      );
 
-      // Mettre à jour l'UI dépendante des ressources
-      try {
-        this.updateResourcesDisplay();
-      } catch (e) {
-        // silent
-      }
-
-      this.cityPanelView.scheduleRefresh();
+      this.refreshTimedDisplays(timeSeconds);
       // Respect renderer prestige mode to avoid overwriting prestige view
       if ((this.renderer as any).isPrestigeMode) {
         const civState = this.game.getController().getCivilizationState();
@@ -102,6 +110,10 @@ export class GameLoop {
     if (this.lastAnimationFrame !== null) {
       return; // already running
     }
+    this.lastRefreshTime = -Infinity;
+    this.lastSimulationTimestamp = null;
+    this.engine.reset();
+    this.simulationTimer = setInterval(this.simulate, 1000 / SimulationEngine.TICKS_PER_SECOND);
     this.lastAnimationFrame = requestAnimationFrame(this.loop);
   }
 
@@ -110,14 +122,21 @@ export class GameLoop {
       cancelAnimationFrame(this.lastAnimationFrame);
       this.lastAnimationFrame = null;
     }
-    this.gameStartTime = null;
+    if (this.simulationTimer !== null) {
+      clearInterval(this.simulationTimer);
+      this.simulationTimer = null;
+    }
+    this.lastSimulationTimestamp = null;
   }
 
   /**
-   * Reset the internal reference time so the next frame recalculates it.
+   * Reset the internal reference time so the next simulation step does not catch up
+   * the real time spent loading or generating a map.
    */
   resetStartTime(): void {
-    this.gameStartTime = null;
+    this.lastSimulationTimestamp = null;
+    this.engine.reset();
+    this.lastRefreshTime = -Infinity;
   }
 }
 
@@ -1,7 +1,11 @@
 import { MapGenerator, MapGeneratorConfig } from '../controller/MapGenerator';
 import { MainGameController } from '../controller/MainGameController';
+import { DivineController } from '../controller/DivineController';
+import { RivalController } from '../controller/RivalController';
+import { IslandEventController } from '../controller/IslandEventController';
+import { AchievementController } from '../controller/AchievementController';
 import { IslandMap } from '../model/map/IslandMap';
-import { HexType } from '../model/map/HexType';
+import { MapSettings, getPresetDistribution } from '../model/map/MapSettings';
 import { IslandState } from '../model/game/IslandState';
 import { PlayerResources } from '../model/game/PlayerResources';
 import { GameClock } from '../model/game/GameClock';
@@ -9,6 +13,9 @@ import { CivilizationId } from '../model/map/CivilizationId';
 import { CivilizationState } from '../model/game/CivilizationState';
 import { GodState } from '../model/game/GodState';
 import { PlayerSave } from '../model/game/PlayerSave';
+import { RivalSettings } from '../model/game/RivalCivilization';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { Achievements } from '../model/achievements/Achievements';
 import { localize, setLocale } from '../i18n';
 import en from '../i18n/en';
 import fr from '../i18n/fr';
@@ -45,51 +52,65 @@ export class MainGame {
    */
   /**
    * Démarre une nouvelle partie : détruit le IslandState et en crée un nouveau dans le PlayerSave.
-   * Ne touche pas aux GodPoints.
+   * Ne touche pas aux GodPoints, aux pouvoirs divins ni aux succès, qui sont appliqués à la nouvelle partie.
+   * @param rivalSettings - Rivaux contrôlés par l'ordinateur (par défaut: ceux de la partie précédente)
+   * @param mapSettings - Préréglage et forme de l'île (par défaut: ceux de la partie précédente)
    */
-  newGame(seed?: number): void {
+  newGame(seed?: number, rivalSettings?: RivalSettings, mapSettings?: MapSettings): void {
     const actualSeed = seed ?? Date.now();
-    // Conserver le prestige déjà gagné avant de recréer l'état
-    const previousPrestige = this.playerSave
-      .getGodState()
-      .getCivilizationState()
-      .getPrestigePointsTotal();
+    // Conserver le prestige déjà gagné (points et carte Prestige) avant de recréer l'état
+    const previousCivilizationState = this.playerSave.getGodState().getCivilizationState();
+    const rivals = rivalSettings ?? RivalController.getRivalSettings(previousCivilizationState.getIslandState());
+    const map = mapSettings ?? previousCivilizationState.getIslandState().getMapSettings();
+    const previousPrestige = previousCivilizationState.getPrestigePointsTotal();
+    const previousPrestigeMap = previousCivilizationState.getPrestigeMap();
 
     // On recrée le CivilizationState et IslandState
     const civId = CivilizationId.create('player1');
     const civilizationState = CivilizationState.createNew(civId);
     const state = civilizationState.getIslandState();
 
-    const resourceDistribution = new Map<HexType, number>([
-      [HexType.Wood, 5],
-      [HexType.Brick, 5],
-      [HexType.Wheat, 5],
-      [HexType.Sheep, 5],
-      [HexType.Ore, 5],
-      [HexType.Desert, 1],
-    ]);
+    const resourceDistribution = getPresetDistribution(map.preset);
 
-    const civilizations = [state.getPlayerCivilizationId()];
+    const rivalIds = RivalController.createRivalIds(rivals);
+    const civilizations = [state.getPlayerCivilizationId(), ...rivalIds];
     const config: MapGeneratorConfig = {
       resourceDistribution,
       civilizations,
       seed: actualSeed,
+      shape: map.shape,
     };
 
     const islandMap = this.mapGenerator.generate(config);
     state.setIslandMap(islandMap);
     state.setCivilizations(civilizations);
     state.setSeed(actualSeed);
+    state.setMapSettings(map);
+    RivalController.addRivals(state, rivalIds, rivals.difficulty, actualSeed);
+    IslandEventController.seedEvents(state, actualSeed);
     state.getPlayerResources().clear();
     state.getGameClock().reset();
 
     // Réinjecter les points de prestige accumulés sur la nouvelle partie
     civilizationState.setPrestigePointsTotal(previousPrestige);
+    if (previousPrestigeMap) {
+      civilizationState.setPrestigeMap(previousPrestigeMap);
+    }
 
-    // On conserve les GodPoints existants
-    const godPoints = this.playerSave.getGodState().getGodPoints();
-    const godState = new GodState(godPoints, civilizationState);
-    this.playerSave = new PlayerSave(godState);
+    // On conserve les GodPoints et les pouvoirs divins existants
+    const previousGodState = this.playerSave.getGodState();
+    const divinePowers = previousGodState.getDivinePowers();
+    DivineController.applyDivinePowers(divinePowers, civilizationState);
+    const godState = new GodState(
+      previousGodState.getGodPoints(),
+      civilizationState,
+      divinePowers,
+      previousGodState.getAscensionCount()
+    );
+    // Les succès survivent aux prestiges et aux ascensions
+    const achievements = this.playerSave.getAchievements();
+    AchievementController.applyBonuses(achievements, civilizationState);
+    this.playerSave = new PlayerSave(godState, this.playerSave.getLanguage(), null, achievements);
     this.controller = new MainGameController(godState);
   }
 
@@ -97,6 +118,7 @@ export class MainGame {
    * Sauvegarde la partie en une chaîne (sérialisation de PlayerSave).
    */
   saveGame(): string {
+    this.playerSave.setLastSavedAt(Date.now());
     return JSON.stringify(this.playerSave.serialize());
   }
 
@@ -108,6 +130,7 @@ export class MainGame {
       const data = JSON.parse(serialized);
       const loadedSave = PlayerSave.deserialize(data);
       const godState = loadedSave.getGodState();
+      AchievementController.applyBonuses(loadedSave.getAchievements(), godState.getCivilizationState());
       this.playerSave = loadedSave;
       this.controller = new MainGameController(godState);
       // Réappliquer la langue sauvegardée si présente
@@ -161,6 +184,10 @@ export class MainGame {
     return this.controller.getSeed();
   }
 
+  getGameModifiers(): GameModifiers {
+    return this.controller.getGameModifiers();
+  }
+
   /**
    * Retourne la langue courante stockée dans le PlayerSave.
    */
@@ -174,10 +201,24 @@ export class MainGame {
    */
   setLanguage(lang: string): void {
     const godState = this.playerSave.getGodState();
-    this.playerSave = new PlayerSave(godState, lang);
+    this.playerSave = new PlayerSave(godState, lang, this.playerSave.getLastSavedAt(), this.playerSave.getAchievements());
     this.controller = new MainGameController(godState);
   }
 
+  /**
+   * Retourne les succès débloqués, stockés dans le PlayerSave.
+   */
+  getAchievements(): Achievements {
+    return this.playerSave.getAchievements();
+  }
+
+  /**
+   * Retourne l'horodatage réel (ms) de la dernière sauvegarde, ou null si inconnu.
+   */
+  getLastSavedAt(): number | null {
+    return this.playerSave.getLastSavedAt();
+  }
+
   updateGameTime(timeSeconds: number): void {
     this.controller.updateGameTime(timeSeconds);
   }
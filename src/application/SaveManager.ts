@@ -1,24 +1,170 @@
 import { MainGame } from './MainGame';
+import { GodState } from '../model/game/GodState';
+import { PlayerSave } from '../model/game/PlayerSave';
+import { APP_VERSION } from '../config/version';
 import { localize } from '../i18n';
 
+/**
+ * Métadonnées d'un slot de sauvegarde, affichées dans le sélecteur de slots.
+ */
+export interface SaveSlotMetadata {
+  /** Identifiant unique du slot (clé de stockage) */
+  id: string;
+  /** Nom choisi par le joueur */
+  name: string;
+  /** Seed de la carte en cours, null si inconnue */
+  seed: number | null;
+  /** Temps de jeu de la partie en cours (en secondes) */
+  playTimeSeconds: number;
+  /** Points de civilisation */
+  civilizationPoints: number;
+  /** Prestige cumulé */
+  prestigePointsTotal: number;
+  /** Horodatage réel de la dernière sauvegarde (ms), null si le slot est vide */
+  lastSavedAt: number | null;
+  /** Version de l'application ayant écrit la sauvegarde */
+  appVersion: string;
+}
+
+/**
+ * Index des slots stocké dans localStorage.
+ */
+interface SaveSlotIndex {
+  activeSlotId: string;
+  slots: SaveSlotMetadata[];
+}
+
+/**
+ * Calcule les métadonnées d'un slot à partir d'un état divin.
+ * @param id - Identifiant du slot
+ * @param name - Nom du slot
+ * @param godState - L'état divin sauvegardé
+ * @param lastSavedAt - Horodatage réel de la sauvegarde (ms)
+ */
+export function createSaveSlotMetadata(
+  id: string,
+  name: string,
+  godState: GodState,
+  lastSavedAt: number | null
+): SaveSlotMetadata {
+  const civState = godState.getCivilizationState();
+  const islandState = civState.getIslandState();
+  return {
+    id,
+    name,
+    seed: islandState.getSeed(),
+    playTimeSeconds: islandState.getGameClock().getCurrentTime(),
+    civilizationPoints: civState.getCivilizationPoints(),
+    prestigePointsTotal: civState.getPrestigePointsTotal(),
+    lastSavedAt,
+    appVersion: APP_VERSION,
+  };
+}
+
+/**
+ * Gère la persistance de la partie dans localStorage.
+ *
+ * Plusieurs parties peuvent coexister dans des slots nommés. L'autosave écrit dans
+ * le slot actif ; l'index des slots conserve les métadonnées de chaque partie pour
+ * les afficher sans avoir à charger les sauvegardes.
+ */
 export class SaveManager {
+  /** Ancienne clé unique, migrée dans le premier slot au premier chargement. */
   private readonly AUTOSAVE_KEY = 'colons-of-idlestan-autosave';
+  private readonly SLOT_INDEX_KEY = 'colons-of-idlestan-slots';
+  private readonly SLOT_KEY_PREFIX = 'colons-of-idlestan-slot-';
+  private readonly DEFAULT_SLOT_ID = 'slot-1';
   private autosaveIntervalId: number | null = null;
 
-  constructor(private game: MainGame) {}
+  constructor(private game: MainGame, private storage: Storage = localStorage) {}
+
+  /**
+   * Retourne les métadonnées de tous les slots, dans l'ordre de création.
+   */
+  listSlots(): SaveSlotMetadata[] {
+    return this.readIndex().slots;
+  }
+
+  /**
+   * Retourne l'identifiant du slot actif (celui où écrit l'autosave).
+   */
+  getActiveSlotId(): string {
+    return this.readIndex().activeSlotId;
+  }
+
+  /**
+   * Vérifie si un slot existe dans l'index.
+   * @param slotId - L'identifiant du slot
+   */
+  hasSlot(slotId: string): boolean {
+    return this.readIndex().slots.some(s => s.id === slotId);
+  }
+
+  /**
+   * Crée un slot vide et le rend actif. L'appelant démarre ensuite une nouvelle partie
+   * puis la sauvegarde (saveToLocal).
+   * @param name - Nom du slot (un nom par défaut est utilisé s'il est vide)
+   * @returns Les métadonnées du slot créé
+   */
+  createSlot(name: string): SaveSlotMetadata {
+    const index = this.readIndex();
+    let n = index.slots.length + 1;
+    while (index.slots.some(s => s.id === `slot-${n}`)) {
+      n++;
+    }
+    const slot = this.createEmptySlot(`slot-${n}`, name.trim() || localize('saveSlots.defaultName', { n: String(n) }));
+    index.slots.push(slot);
+    index.activeSlotId = slot.id;
+    this.writeIndex(index);
+    return slot;
+  }
+
+  /**
+   * Sauvegarde la partie en cours puis charge un autre slot.
+   * @param slotId - Le slot à activer
+   * @returns true si le slot contenait une partie valide et qu'elle a été chargée
+   */
+  switchSlot(slotId: string): boolean {
+    const index = this.readIndex();
+    if (!index.slots.some(s => s.id === slotId)) {
+      return false;
+    }
+    this.saveToLocal();
+    index.activeSlotId = slotId;
+    this.writeIndex(index);
+    return this.loadFromLocal();
+  }
+
+  /**
+   * Supprime un slot et sa sauvegarde. Le slot actif ne peut pas être supprimé.
+   * @returns true si le slot a été supprimé
+   */
+  deleteSlot(slotId: string): boolean {
+    const index = this.readIndex();
+    if (slotId === index.activeSlotId || !index.slots.some(s => s.id === slotId)) {
+      return false;
+    }
+    index.slots = index.slots.filter(s => s.id !== slotId);
+    this.writeIndex(index);
+    this.storage.removeItem(this.getSlotKey(slotId));
+    return true;
+  }
 
   saveToLocal(): void {
     try {
       const serialized = this.game.saveGame();
-      localStorage.setItem(this.AUTOSAVE_KEY, serialized);
+      const index = this.readIndex();
+      this.storage.setItem(this.getSlotKey(index.activeSlotId), serialized);
+      this.updateSlotMetadata(index, index.activeSlotId, this.game.getController().getGodState(), Date.now());
     } catch (error) {
       console.error(localize('error.autoSaveFailed'), error);
     }
   }
 
   loadFromLocal(): boolean {
+    const slotKey = this.getSlotKey(this.getActiveSlotId());
     try {
-      const saved = localStorage.getItem(this.AUTOSAVE_KEY);
+      const saved = this.storage.getItem(slotKey);
       if (!saved) {
         console.log(localize('save.noneFound'));
         return false;
@@ -33,26 +179,35 @@ export class SaveManager {
 
       console.warn(localize('save.corrupted.warn'));
       this.offerInvalidSaveDownload(saved, 'locale');
-      localStorage.removeItem(this.AUTOSAVE_KEY);
+      this.storage.removeItem(slotKey);
     } catch (error) {
       console.error(localize('error.autoLoadFailed'), error);
-      const saved = localStorage.getItem(this.AUTOSAVE_KEY);
+      const saved = this.storage.getItem(slotKey);
       if (saved) {
         this.offerInvalidSaveDownload(saved, 'locale');
       }
-      localStorage.removeItem(this.AUTOSAVE_KEY);
+      this.storage.removeItem(slotKey);
     }
     return false;
   }
 
-  exportSave(): void {
+  /**
+   * Exporte la sauvegarde d'un slot dans un fichier JSON.
+   * @param slotId - Le slot à exporter (par défaut le slot actif, sauvegardé au préalable)
+   */
+  exportSave(slotId: string = this.getActiveSlotId()): void {
     try {
-      const serialized = this.game.saveGame();
+      const serialized = slotId === this.getActiveSlotId()
+        ? this.game.saveGame()
+        : this.storage.getItem(this.getSlotKey(slotId));
+      if (!serialized) {
+        throw new Error(localize('saveSlots.error.empty'));
+      }
       const blob = new Blob([serialized], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `colons-of-idlestan-save-${Date.now()}.json`;
+      a.download = `colons-of-idlestan-save-${slotId}-${Date.now()}.json`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -63,13 +218,21 @@ export class SaveManager {
     }
   }
 
-  async importFromFile(file: File): Promise<{ success: boolean; content?: string }> {
+  /**
+   * Importe une sauvegarde depuis un fichier dans un slot.
+   * Dans le slot actif, la partie importée remplace la partie en cours.
+   * @param file - Le fichier JSON à importer
+   * @param slotId - Le slot cible (par défaut le slot actif)
+   */
+  async importFromFile(file: File, slotId: string = this.getActiveSlotId()): Promise<{ success: boolean; content?: string }> {
     return new Promise((resolve) => {
       const reader = new FileReader();
       reader.onload = (event) => {
         try {
           const content = event.target?.result as string;
-          const loaded = this.game.loadGame(content);
+          const loaded = slotId === this.getActiveSlotId()
+            ? this.game.loadGame(content)
+            : this.importIntoSlot(content, slotId);
           if (!loaded) {
             this.offerInvalidSaveDownload(content, 'importée');
             resolve({ success: false, content });
@@ -77,7 +240,9 @@ export class SaveManager {
           }
 
           // Sauvegarder immédiatement après l'import
-          this.saveToLocal();
+          if (slotId === this.getActiveSlotId()) {
+            this.saveToLocal();
+          }
           resolve({ success: true, content });
         } catch (error) {
           console.error(localize('error.importFailed'), error);
@@ -93,6 +258,27 @@ export class SaveManager {
     });
   }
 
+  /**
+   * Écrit une sauvegarde dans un slot inactif après l'avoir validée, sans toucher à la partie en cours.
+   * @returns true si la sauvegarde est valide et a été écrite
+   */
+  importIntoSlot(serialized: string, slotId: string): boolean {
+    const index = this.readIndex();
+    if (!index.slots.some(s => s.id === slotId)) {
+      return false;
+    }
+    let playerSave: PlayerSave;
+    try {
+      playerSave = PlayerSave.deserialize(JSON.parse(serialized));
+    } catch (error) {
+      console.error(localize('error.loadSaveFailed'), error);
+      return false;
+    }
+    this.storage.setItem(this.getSlotKey(slotId), serialized);
+    this.updateSlotMetadata(index, slotId, playerSave.getGodState(), playerSave.getLastSavedAt());
+    return true;
+  }
+
   offerInvalidSaveDownload(serialized: string, context: string): void {
     try {
       const shouldDownload = window.confirm(localize('confirm.saveCorrupted', { context }));
@@ -124,6 +310,104 @@ export class SaveManager {
       this.autosaveIntervalId = null;
     }
   }
+
+  private createEmptySlot(id: string, name: string): SaveSlotMetadata {
+    return {
+      id,
+      name,
+      seed: null,
+      playTimeSeconds: 0,
+      civilizationPoints: 0,
+      prestigePointsTotal: 0,
+      lastSavedAt: null,
+      appVersion: APP_VERSION,
+    };
+  }
+
+  private getSlotKey(slotId: string): string {
+    return `${this.SLOT_KEY_PREFIX}${slotId}`;
+  }
+
+  private updateSlotMetadata(index: SaveSlotIndex, slotId: string, godState: GodState, savedAt: number | null): void {
+    const position = index.slots.findIndex(s => s.id === slotId);
+    if (position === -1) {
+      return;
+    }
+    index.slots[position] = createSaveSlotMetadata(slotId, index.slots[position].name, godState, savedAt);
+    this.writeIndex(index);
+  }
+
+  /**
+   * Lit l'index des slots. S'il est illisible, il est reconstruit à partir des sauvegardes des slots.
+   * S'il n'existe pas encore, il est créé avec un premier slot qui reprend l'ancienne sauvegarde
+   * unique (AUTOSAVE_KEY) si elle existe.
+   */
+  private readIndex(): SaveSlotIndex {
+    const raw = this.storage.getItem(this.SLOT_INDEX_KEY);
+    if (raw) {
+      try {
+        const index = JSON.parse(raw) as SaveSlotIndex;
+        if (index && Array.isArray(index.slots) && index.slots.some(s => s.id === index.activeSlotId)) {
+          return index;
+        }
+      } catch (e) {
+        // Index illisible : reconstruit ci-dessous
+      }
+    }
+
+    const slots = this.scanSlots();
+    if (slots.length > 0) {
+      const rebuilt: SaveSlotIndex = { activeSlotId: slots[0].id, slots };
+      this.writeIndex(rebuilt);
+      return rebuilt;
+    }
+
+    const index: SaveSlotIndex = {
+      activeSlotId: this.DEFAULT_SLOT_ID,
+      slots: [this.createEmptySlot(this.DEFAULT_SLOT_ID, localize('saveSlots.defaultName', { n: '1' }))],
+    };
+    this.writeIndex(index);
+
+    const legacy = this.storage.getItem(this.AUTOSAVE_KEY);
+    if (legacy && !this.storage.getItem(this.getSlotKey(this.DEFAULT_SLOT_ID))) {
+      // Une sauvegarde illisible est tout de même conservée : loadFromLocal proposera son téléchargement
+      if (!this.importIntoSlot(legacy, this.DEFAULT_SLOT_ID)) {
+        this.storage.setItem(this.getSlotKey(this.DEFAULT_SLOT_ID), legacy);
+      }
+      this.storage.removeItem(this.AUTOSAVE_KEY);
+    }
+    return this.readIndex();
+  }
+
+  /**
+   * Retrouve les slots dont la sauvegarde est présente dans le stockage, dans l'ordre de création.
+   * Les noms n'étant conservés que dans l'index, chaque slot reçoit un nom par défaut.
+   * Une sauvegarde illisible garde un slot (loadFromLocal proposera son téléchargement).
+   */
+  private scanSlots(): SaveSlotMetadata[] {
+    const slotIds: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key && key.startsWith(this.SLOT_KEY_PREFIX)) {
+        slotIds.push(key.slice(this.SLOT_KEY_PREFIX.length));
+      }
+    }
+    slotIds.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    return slotIds.map((slotId, i) => {
+      const name = localize('saveSlots.defaultName', { n: String(i + 1) });
+      try {
+        const playerSave = PlayerSave.deserialize(JSON.parse(this.storage.getItem(this.getSlotKey(slotId))!));
+        return createSaveSlotMetadata(slotId, name, playerSave.getGodState(), playerSave.getLastSavedAt());
+      } catch (e) {
+        return this.createEmptySlot(slotId, name);
+      }
+    });
+  }
+
+  private writeIndex(index: SaveSlotIndex): void {
+    this.storage.setItem(this.SLOT_INDEX_KEY, JSON.stringify(index));
+  }
 }
 
 export default SaveManager;
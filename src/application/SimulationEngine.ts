@@ -0,0 +1,174 @@
+import { MainGame } from './MainGame';
+import { GameCoordinator } from '../controller/GameCoordinator';
+import { BuildingProductionController, BuildingProductionResult } from '../controller/BuildingProductionController';
+import { AutomationController } from '../controller/AutomationController';
+import { StatisticsController } from '../controller/StatisticsController';
+import { IslandEventResult } from '../controller/IslandEventController';
+import { ExcavationResult } from '../controller/ExcavationController';
+import { ConstructionSite } from '../model/game/ConstructionQueue';
+import { AchievementId } from '../model/achievements/types';
+
+/**
+ * Résultat cumulé des ticks exécutés par un appel au moteur.
+ */
+export interface SimulationStepResult {
+  /** Nombre de ticks exécutés */
+  ticks: number;
+  /** Productions des bâtiments (pour les animations de récolte) */
+  production: BuildingProductionResult[];
+  /** Chantiers achevés */
+  completedConstructions: ConstructionSite[];
+  /** Trouvailles des chantiers de fouilles (pour les animations) */
+  excavations: ExcavationResult[];
+  /** Événements de l'île déclenchés */
+  islandEvents: IslandEventResult[];
+  /** Succès débloqués */
+  achievements: AchievementId[];
+}
+
+/**
+ * Options du moteur de simulation.
+ */
+export interface SimulationEngineOptions {
+  /**
+   * Durée d'un tick (en secondes de jeu, multiple de 0.1). Par défaut: TICK_SECONDS.
+   * Les productions rattrapent tous leurs cycles écoulés : un tick plus long accélère la simulation
+   * hors ligne, les rivaux et les automatisations agissant au plus une fois par tick.
+   */
+  tickSeconds?: number;
+  /**
+   * Nombre maximal de ticks rattrapés par appel, ou null pour tout rattraper (progression hors ligne,
+   * simulation sans interface). Par défaut: MAX_CATCH_UP_TICKS.
+   */
+  maxCatchUpTicks?: number | null;
+}
+
+/**
+ * Moteur de simulation à pas fixe.
+ *
+ * La simulation (production, chantiers, rivaux, recherche, foi, fouilles, événements, statistiques, succès
+ * et automatisations) avance par ticks de TICK_SECONDS secondes de jeu, indépendamment de la
+ * fréquence d'affichage : le temps réel écoulé est accumulé et converti en ticks entiers.
+ * Pour une même seed et les mêmes actions, le résultat est donc identique quel que soit l'écran,
+ * et le moteur s'utilise sans interface : boucle de jeu, progression hors ligne, simulation d'équilibrage et tests.
+ */
+export class SimulationEngine {
+  static readonly TICKS_PER_SECOND = 10;
+  static readonly TICK_SECONDS = 1 / SimulationEngine.TICKS_PER_SECOND;
+  /**
+   * Nombre maximal de ticks rattrapés par appel (60 s de jeu).
+   * Au-delà (mise en veille de l'ordinateur), le temps en trop est abandonné :
+   * la progression hors ligne ne s'applique qu'au chargement d'une sauvegarde.
+   */
+  static readonly MAX_CATCH_UP_TICKS = 600;
+
+  /** Temps réel accumulé non encore converti en ticks (en secondes) */
+  private accumulator = 0;
+
+  /** Durée d'un tick (en secondes de jeu) */
+  private readonly tickSeconds: number;
+
+  /** Nombre maximal de ticks rattrapés par appel (null : aucun plafond) */
+  private readonly maxCatchUpTicks: number | null;
+
+  constructor(
+    private game: MainGame,
+    private coordinator: GameCoordinator,
+    options: SimulationEngineOptions = {},
+  ) {
+    this.tickSeconds = options.tickSeconds ?? SimulationEngine.TICK_SECONDS;
+    this.maxCatchUpTicks = options.maxCatchUpTicks === undefined ? SimulationEngine.MAX_CATCH_UP_TICKS : options.maxCatchUpTicks;
+  }
+
+  /**
+   * Accumule le temps réel écoulé et exécute les ticks correspondants.
+   * @param deltaSeconds - Le temps réel écoulé depuis l'appel précédent (en secondes)
+   * @returns Le résultat cumulé des ticks exécutés
+   */
+  advance(deltaSeconds: number): SimulationStepResult {
+    if (deltaSeconds > 0) {
+      this.accumulator += deltaSeconds;
+    }
+    // Marge d'arrondi : 0.3 s doivent donner 3 ticks malgré la représentation binaire
+    let ticks = Math.floor(this.accumulator / this.tickSeconds + 1e-9);
+    if (this.maxCatchUpTicks !== null && ticks > this.maxCatchUpTicks) {
+      ticks = this.maxCatchUpTicks;
+      this.accumulator = 0;
+    } else {
+      this.accumulator = Math.max(0, this.accumulator - ticks * this.tickSeconds);
+    }
+    return this.runTicks(ticks);
+  }
+
+  /**
+   * Exécute un nombre donné de ticks, sans tenir compte du temps réel.
+   * @param count - Le nombre de ticks
+   * @returns Le résultat cumulé des ticks exécutés
+   */
+  runTicks(count: number): SimulationStepResult {
+    const result: SimulationStepResult = {
+      ticks: 0,
+      production: [],
+      completedConstructions: [],
+      excavations: [],
+      islandEvents: [],
+      achievements: [],
+    };
+    for (let i = 0; i < count; i++) {
+      this.tick(result);
+    }
+    return result;
+  }
+
+  /**
+   * Abandonne le temps accumulé (nouvelle partie, chargement) : le prochain appel ne rattrape rien.
+   */
+  reset(): void {
+    this.accumulator = 0;
+  }
+
+  /**
+   * Avance le temps de jeu d'un tick et fait agir chaque système, toujours dans le même ordre.
+   */
+  private tick(result: SimulationStepResult): void {
+    const clock = this.game.getGameClock();
+    // Le temps est aligné sur la grille des ticks pour ne pas cumuler d'erreurs d'arrondi
+    const nextTime = Math.round((clock.getCurrentTime() + this.tickSeconds) * SimulationEngine.TICKS_PER_SECOND) / SimulationEngine.TICKS_PER_SECOND;
+    this.game.updateGameTime(nextTime);
+    result.ticks++;
+
+    const map = this.game.getIslandMap();
+    const civId = this.game.getPlayerCivilizationId();
+    const modifiers = this.game.getGameModifiers();
+    if (map) {
+      const production = BuildingProductionController.processAutomaticProduction(
+        civId,
+        map,
+        this.game.getPlayerResources(),
+        clock,
+        modifiers
+      );
+      if (production.length > 0) {
+        StatisticsController.recordProduction(this.game.getIslandState(), production);
+        result.production.push(...production);
+      }
+    }
+
+    result.completedConstructions.push(...this.coordinator.processConstructions());
+    this.coordinator.processRivals();
+    this.coordinator.processResearch();
+    this.coordinator.processFaith();
+    result.excavations.push(...this.coordinator.processExcavations());
+    const islandEvent = this.coordinator.processEvents();
+    if (islandEvent) {
+      result.islandEvents.push(islandEvent);
+    }
+    this.coordinator.processStatistics();
+    result.achievements.push(...this.coordinator.processAchievements());
+
+    if (map) {
+      const civilization = this.game.getIslandState().getCivilization(civId);
+      AutomationController.processAllAutomations(civId, civilization, map, this.game.getPlayerResources(), this.coordinator, modifiers);
+    }
+  }
+}
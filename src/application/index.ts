@@ -3,3 +3,4 @@
  */
 
 export { MainGame } from './MainGame';
+export { SimulationEngine, type SimulationStepResult } from './SimulationEngine';
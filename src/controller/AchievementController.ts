@@ -0,0 +1,96 @@
+import { GodState } from '../model/game/GodState';
+import { CivilizationState } from '../model/game/CivilizationState';
+import { Achievements } from '../model/achievements/Achievements';
+import {
+  AchievementBonuses,
+  AchievementCondition,
+  AchievementConditionType,
+  AchievementId,
+  ACHIEVEMENT_DEFINITIONS,
+  NO_ACHIEVEMENT_BONUSES,
+} from '../model/achievements/types';
+
+/**
+ * Contrôleur des succès : évalue les conditions de déblocage et applique les bonus permanents.
+ *
+ * Les conditions sont lues sur l'IslandMap, la Civilization du joueur et le CivilizationState.
+ * Les succès sont stockés dans le PlayerSave : ils survivent aux prestiges et aux ascensions.
+ */
+export class AchievementController {
+  /**
+   * Débloque les succès dont la condition est remplie et met à jour les bonus de la civilisation.
+   * @param achievements - Les succès du joueur
+   * @param godState - L'état divin (contient la civilisation en cours)
+   * @returns Les succès débloqués par cet appel, dans l'ordre des définitions
+   */
+  static checkAchievements(achievements: Achievements, godState: GodState): AchievementId[] {
+    const civState = godState.getCivilizationState();
+    const unlocked: AchievementId[] = [];
+    for (const id of Object.values(AchievementId)) {
+      if (!achievements.isUnlocked(id) && this.isConditionMet(ACHIEVEMENT_DEFINITIONS[id].condition, civState)) {
+        achievements.unlock(id);
+        unlocked.push(id);
+      }
+    }
+    if (unlocked.length > 0) {
+      this.applyBonuses(achievements, civState);
+    }
+    return unlocked;
+  }
+
+  /**
+   * Vérifie si une condition de déblocage est remplie.
+   * @param condition - La condition
+   * @param civState - La civilisation en cours
+   */
+  static isConditionMet(condition: AchievementCondition, civState: CivilizationState): boolean {
+    const islandState = civState.getIslandState();
+    const map = islandState.getIslandMap();
+    const civId = islandState.getPlayerCivilizationId();
+    const cities = map ? map.getCitiesByCivilization(civId) : [];
+
+    switch (condition.type) {
+      case AchievementConditionType.CityLevel:
+        return cities.some(city => city.level >= condition.level);
+      case AchievementConditionType.BuildingLevel:
+        return cities.some(city => (city.getBuildingLevel(condition.buildingType) ?? 0) >= condition.level);
+      case AchievementConditionType.CityCount:
+        return cities.length >= condition.count;
+      case AchievementConditionType.AllAutomations: {
+        const civilization = islandState.getCivilization(civId);
+        return civilization.isAutoRoadConstructionEnabled()
+          && civilization.isAutoOutpostConstructionEnabled()
+          && civilization.isAutoCityUpgradeEnabled()
+          && civilization.isAutoProductionBuildingConstructionEnabled();
+      }
+      case AchievementConditionType.Prestige:
+        return civState.getPrestigePointsTotal() > 0;
+    }
+  }
+
+  /**
+   * Cumule les bonus des succès débloqués.
+   * @param achievements - Les succès du joueur
+   */
+  static getBonuses(achievements: Achievements): AchievementBonuses {
+    const bonuses: AchievementBonuses = { ...NO_ACHIEVEMENT_BONUSES };
+    for (const id of achievements.getUnlocked()) {
+      const bonus = ACHIEVEMENT_DEFINITIONS[id].bonus;
+      if (bonus) {
+        bonuses[bonus.type] += bonus.value;
+      }
+    }
+    return bonuses;
+  }
+
+  /**
+   * Applique les bonus des succès à la civilisation du joueur.
+   * À appeler à chaque nouvelle partie et au chargement, les bonus n'étant pas sérialisés avec la civilisation.
+   * @param achievements - Les succès du joueur
+   * @param civState - La civilisation en cours
+   */
+  static applyBonuses(achievements: Achievements, civState: CivilizationState): void {
+    const islandState = civState.getIslandState();
+    islandState.getCivilization(islandState.getPlayerCivilizationId()).setAchievementBonuses(this.getBonuses(achievements));
+  }
+}
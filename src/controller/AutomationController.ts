@@ -7,11 +7,12 @@ import { BuildingType } from '../model/city/BuildingType';
 import { Edge } from '../model/hex/Edge';
 import { Vertex } from '../model/hex/Vertex';
 import { SecondaryHexDirection } from '../model/hex/SecondaryHexDirection';
-import { RoadController } from './RoadController';
 import { OutpostController } from './OutpostController';
 import { BuildingController } from './BuildingController';
 import { GameCoordinator } from './GameCoordinator';
 import { getResourceProductionBuildings } from '../model/city/BuildingType';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { GameEventBus, GameEventType, AutomationActionKind } from './GameEventBus';
 
 /**
  * Contrôleur pour gérer les automatisations de construction débloquées par la Guilde des batisseurs.
@@ -20,6 +21,9 @@ import { getResourceProductionBuildings } from '../model/city/BuildingType';
  * - Routes (niveau 1)
  * - Outposts et améliorations de villes (niveau 2)
  * - Bâtiments de production (niveau 3)
+ *
+ * Toutes les constructions passent par le GameCoordinator en mode automatisé : elles deviennent
+ * des chantiers avec durée, comme celles du joueur, mais ne sont pas annulables.
  */
 export class AutomationController {
   /**
@@ -30,13 +34,16 @@ export class AutomationController {
    * @param civilization - L'objet civilisation contenant les flags d'automatisation
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
+   * @param coordinator - Le coordinateur pour les constructions de bâtiments
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    */
   static processAllAutomations(
     civId: CivilizationId,
     civilization: Civilization,
     map: IslandMap,
     resources: PlayerResources,
-    coordinator: GameCoordinator
+    coordinator: GameCoordinator,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): void {
     // Obtenir toutes les villes de la civilisation
     const cities = map.getCitiesByCivilization(civId);
@@ -47,38 +54,38 @@ export class AutomationController {
 
       // Niveau 1 : Construction automatique de routes
       if (civilization.isAutoRoadConstructionEnabled()) {
-        this.processAutomaticRoadConstruction(civId, map, resources, cityVertex);
+        this.processAutomaticRoadConstruction(civId, map, cityVertex, coordinator);
       }
 
       // Niveau 2 : Construction automatique d'outposts et amélioration automatique de villes
       if (civilization.isAutoOutpostConstructionEnabled()) {
-        this.processAutomaticOutpostConstruction(civId, map, resources);
+        this.processAutomaticOutpostConstruction(civId, map, coordinator);
       }
       if (civilization.isAutoCityUpgradeEnabled()) {
-        this.processAutomaticCityUpgrade(civId, map, resources, city, coordinator);
+        this.processAutomaticCityUpgrade(civId, map, resources, city, coordinator, modifiers);
       }
 
       // Niveau 3 : Construction automatique de bâtiments de production
       if (civilization.isAutoProductionBuildingConstructionEnabled()) {
-        this.processAutomaticProductionBuildingConstruction(civId, map, resources, city, cityVertex, coordinator);
+        this.processAutomaticProductionBuildingConstruction(civId, map, resources, city, cityVertex, coordinator, modifiers);
       }
     }
   }
 
   /**
    * Traite la construction automatique de routes.
-   * Trouve les routes constructibles à partir de toutes les routes existantes et les construit automatiquement.
+   * Trouve les routes constructibles à partir de toutes les routes existantes et les met automatiquement en chantier.
    * 
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
-   * @param resources - Les ressources du joueur
-   * @param cityVertex - Paramètre non utilisé (garder pour compatibilité)
+   * @param cityVertex - Le sommet de la ville dont l'automatisation agit (reporté dans AutomationAction)
+   * @param coordinator - Le coordinateur qui met les routes en chantier
    */
   private static processAutomaticRoadConstruction(
     civId: CivilizationId,
     map: IslandMap,
-    resources: PlayerResources,
-    cityVertex: Vertex
+    cityVertex: Vertex,
+    coordinator: GameCoordinator
   ): void {
     // Obtenir toutes les routes de la civilisation
     const roads = map.getRoadsForCivilization(civId);
@@ -97,7 +104,11 @@ export class AutomationController {
             continue;
           }
 
-          RoadController.buildRoad(edge, civId, map, resources);
+          // Route déjà en chantier (celle-ci ou une autre) ou ressources insuffisantes : essayer la suivante
+          if (!coordinator.buildRoad(edge, true).success) {
+            continue;
+          }
+          GameEventBus.emit(GameEventType.AutomationAction, { civId, kind: AutomationActionKind.Road, vertex: cityVertex });
           return;
         } catch (error) {
           continue;
@@ -173,10 +184,13 @@ export class AutomationController {
               continue; // Route trop loin
             }
 
-            // Construire la route (le contrôleur vérifie les ressources)
-            RoadController.buildRoad(edge, civId, map, resources);
+            // Mettre la route en chantier (refusé si une route est déjà en chantier ou ressources insuffisantes)
+            if (!coordinator.buildRoad(edge, true).success) {
+              continue;
+            }
+            GameEventBus.emit(GameEventType.AutomationAction, { civId, kind: AutomationActionKind.Road, vertex: cityVertex });
             
-            // Construire une seule route par cycle pour éviter de tout construire d'un coup
+            // Une seule route en chantier à la fois pour éviter de tout construire d'un coup
             return;
           } catch (error) {
             // Ignorer les erreurs (ressources insuffisantes, etc.)
@@ -189,16 +203,16 @@ export class AutomationController {
 
   /**
    * Traite la construction automatique d'outposts.
-   * Trouve les vertices constructibles pour outposts et les construit automatiquement.
+   * Trouve les vertices constructibles pour outposts et les met automatiquement en chantier.
    * 
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
-   * @param resources - Les ressources du joueur
+   * @param coordinator - Le coordinateur qui met les avant-postes en chantier
    */
   private static processAutomaticOutpostConstruction(
     civId: CivilizationId,
     map: IslandMap,
-    resources: PlayerResources
+    coordinator: GameCoordinator
   ): void {
     // Obtenir toutes les routes de la civilisation
     const roads = map.getRoadsForCivilization(civId);
@@ -246,10 +260,13 @@ export class AutomationController {
           continue;
         }
 
-        // Construire l'outpost (le contrôleur vérifie les ressources)
-        OutpostController.buildOutpost(vertex, civId, map, resources);
+        // Mettre l'outpost en chantier (refusé si un outpost est déjà en chantier ou ressources insuffisantes)
+        if (!coordinator.buildOutpost(vertex, true).success) {
+          continue;
+        }
+        GameEventBus.emit(GameEventType.AutomationAction, { civId, kind: AutomationActionKind.Outpost, vertex });
         
-        // Construire un seul outpost par cycle pour éviter de tout construire d'un coup
+        // Un seul outpost en chantier à la fois pour éviter de tout construire d'un coup
         return;
       } catch (error) {
         // Ignorer les erreurs (ressources insuffisantes, etc.)
@@ -266,22 +283,26 @@ export class AutomationController {
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
    * @param city - La ville à améliorer
+   * @param modifiers - Les modificateurs de jeu
    */
   private static processAutomaticCityUpgrade(
     civId: CivilizationId,
     map: IslandMap,
     resources: PlayerResources,
     city: City,
-    coordinator: GameCoordinator
+    coordinator: GameCoordinator,
+    modifiers: GameModifiers
   ): void {
     // Première étape: créer un TownHall s'il n'existe pas
     let townHall = city.getBuilding(BuildingType.TownHall);
     if (!townHall) {
       try {
         // Vérifier si on peut construire un TownHall et si on a les ressources
-        if (BuildingController.canBuild(BuildingType.TownHall, city, map, city.vertex, resources)) {
+        if (BuildingController.canBuild(BuildingType.TownHall, city, map, city.vertex, resources, modifiers)) {
           // Construire le TownHall via le coordinator (gère persistance et initialisation)
-          coordinator.buildBuilding(BuildingType.TownHall, city, city.vertex);
+          if (coordinator.buildBuilding(BuildingType.TownHall, city, city.vertex, true).success) {
+            GameEventBus.emit(GameEventType.AutomationAction, { civId, kind: AutomationActionKind.CityUpgrade, vertex: city.vertex });
+          }
           return; // Attendre le prochain cycle pour améliorer
         }
       } catch (error) {
@@ -293,12 +314,14 @@ export class AutomationController {
     // Deuxième étape: améliorer le TownHall existant
     try {
       // Vérifier si on peut améliorer et si on a les ressources
-      if (!BuildingController.canUpgrade(BuildingType.TownHall, city, map, resources)) {
+      if (!BuildingController.canUpgrade(BuildingType.TownHall, city, map, resources, modifiers)) {
         return;
       }
 
       // Améliorer la ville via le coordinator (gère persistance)
-      coordinator.upgradeBuilding(BuildingType.TownHall, city);
+      if (coordinator.upgradeBuilding(BuildingType.TownHall, city, true).success) {
+        GameEventBus.emit(GameEventType.AutomationAction, { civId, kind: AutomationActionKind.CityUpgrade, vertex: city.vertex });
+      }
     } catch (error) {
       // Ignorer les erreurs (ressources insuffisantes, etc.)
     }
@@ -314,6 +337,7 @@ export class AutomationController {
    * @param resources - Les ressources du joueur
    * @param city - La ville où construire
    * @param cityVertex - Le sommet de la ville
+   * @param modifiers - Les modificateurs de jeu
    */
   private static processAutomaticProductionBuildingConstruction(
     civId: CivilizationId,
@@ -321,7 +345,8 @@ export class AutomationController {
     resources: PlayerResources,
     city: City,
     cityVertex: Vertex,
-    coordinator: GameCoordinator
+    coordinator: GameCoordinator,
+    modifiers: GameModifiers
   ): void {
     // Obtenir tous les types de bâtiments de production
     const productionBuildings = getResourceProductionBuildings();
@@ -334,12 +359,16 @@ export class AutomationController {
 
       try {
         // Vérifier si on peut améliorer et si on a les ressources
-        if (!BuildingController.canUpgrade(buildingType, city, map, resources)) {
+        if (!BuildingController.canUpgrade(buildingType, city, map, resources, modifiers)) {
           continue;
         }
 
         // Améliorer le bâtiment via le coordinator (gère persistance)
-        coordinator.upgradeBuilding(buildingType, city);
+        // Un bâtiment déjà en chantier est refusé : passer au suivant
+        if (!coordinator.upgradeBuilding(buildingType, city, true).success) {
+          continue;
+        }
+        GameEventBus.emit(GameEventType.AutomationAction, { civId, kind: AutomationActionKind.Building, vertex: cityVertex });
         
         // Améliorer un seul bâtiment par cycle pour éviter de tout améliorer d'un coup
         return;
@@ -358,12 +387,15 @@ export class AutomationController {
 
       try {
         // Vérifier si on peut construire et si on a les ressources
-        if (!BuildingController.canBuild(buildingType, city, map, cityVertex, resources)) {
+        if (!BuildingController.canBuild(buildingType, city, map, cityVertex, resources, modifiers)) {
           continue;
         }
 
         // Construire le bâtiment via le coordinator (gère persistance et initialisation)
-        coordinator.buildBuilding(buildingType, city, cityVertex);
+        if (!coordinator.buildBuilding(buildingType, city, cityVertex, true).success) {
+          continue;
+        }
+        GameEventBus.emit(GameEventType.AutomationAction, { civId, kind: AutomationActionKind.Building, vertex: cityVertex });
         
         // Construire un seul bâtiment par cycle pour éviter de tout construire d'un coup
         return;
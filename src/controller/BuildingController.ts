@@ -6,6 +6,8 @@ import { Vertex } from '../model/hex/Vertex';
 import { PlayerResources } from '../model/game/PlayerResources';
 import { ResourceType } from '../model/map/ResourceType';
 import { HexType } from '../model/map/HexType';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { GameEventBus, GameEventType } from './GameEventBus';
 import { localize } from '../i18n';
 
 /**
@@ -35,13 +37,15 @@ export class BuildingController {
    * @param city - La ville
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns true si l'amélioration est possible
    */
   static canUpgrade(
     buildingType: BuildingType,
     city: City,
     map: IslandMap,
-    resources: PlayerResources
+    resources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): boolean {
     const building = city.getBuilding(buildingType);
     if (!building) {
@@ -64,7 +68,7 @@ export class BuildingController {
       }
     }
     
-    const cost = building.getUpgradeCost();
+    const cost = modifiers.applyToCost(building.getUpgradeCost());
     return resources.canAfford(cost);
   }
 
@@ -74,13 +78,15 @@ export class BuildingController {
    * @param city - La ville
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @throws Error si l'amélioration est impossible ou si les ressources sont insuffisantes
    */
   static upgradeBuilding(
     buildingType: BuildingType,
     city: City,
     map: IslandMap,
-    resources: PlayerResources
+    resources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): void {
     const building = city.getBuilding(buildingType);
     if (!building) {
@@ -103,13 +109,28 @@ export class BuildingController {
       }
     }
 
-    const cost = building.getUpgradeCost();
+    const cost = modifiers.applyToCost(building.getUpgradeCost());
     if (!resources.canAfford(cost)) {
       throw new Error(localize('building.error.insufficientResources', { cost: this.formatCost(cost) }));
     }
 
     resources.payCost(cost);
     city.upgradeBuilding(buildingType);
+    GameEventBus.emit(GameEventType.ResourceChanged, { civId: city.owner, resources });
+    this.emitBuildingBuilt(city, buildingType);
+  }
+
+  /**
+   * Émet BuildingBuilt pour un bâtiment construit ou amélioré, et CityUpgraded pour l'hôtel de ville.
+   * @param city - La ville
+   * @param buildingType - Le bâtiment construit ou amélioré
+   */
+  static emitBuildingBuilt(city: City, buildingType: BuildingType): void {
+    const level = city.getBuildingLevel(buildingType) ?? 1;
+    GameEventBus.emit(GameEventType.BuildingBuilt, { civId: city.owner, vertex: city.vertex, buildingType, level });
+    if (buildingType === BuildingType.TownHall) {
+      GameEventBus.emit(GameEventType.CityUpgraded, { civId: city.owner, vertex: city.vertex, level: city.level });
+    }
   }
 
   /**
@@ -122,6 +143,7 @@ export class BuildingController {
    * @param map - La carte de jeu (requis pour vérifier les hex adjacents)
    * @param vertex - Le sommet de la ville (requis pour vérifier les hex adjacents)
    * @param resources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns true si le bâtiment peut être construit
    */
   static canBuild(
@@ -129,15 +151,16 @@ export class BuildingController {
     city: City,
     map: IslandMap,
     vertex: Vertex,
-    resources: PlayerResources
+    resources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): boolean {
-    // Vérifier que la ville peut construire ce type de bâtiment
-    if (!city.canBuildBuildingType(buildingType)) {
+    // Vérifier que la ville peut construire ce type de bâtiment (emplacements de recherche compris)
+    if (!city.canBuildBuildingType(buildingType, modifiers.getExtraBuildingSlots())) {
       return false;
     }
 
     // Vérifier que le joueur a assez de ressources
-    const cost = getBuildingCost(buildingType);
+    const cost = modifiers.applyToCost(getBuildingCost(buildingType));
     if (!resources.canAfford(cost)) {
       return false;
     }
@@ -190,6 +213,7 @@ export class BuildingController {
    * @param map - La carte de jeu
    * @param vertex - Le sommet de la ville
    * @param resources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @throws Error si la construction n'est pas possible ou si les ressources sont insuffisantes
    */
   static buildBuilding(
@@ -197,17 +221,18 @@ export class BuildingController {
     city: City,
     map: IslandMap,
     vertex: Vertex,
-    resources: PlayerResources
+    resources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): void {
     // Vérifier que le bâtiment peut être construit (inclut toutes les vérifications)
-    if (!this.canBuild(buildingType, city, map, vertex, resources)) {
+    if (!this.canBuild(buildingType, city, map, vertex, resources, modifiers)) {
       // Construire un message d'erreur détaillé
       let errorMessage = `Le bâtiment ${buildingType} ne peut pas être construit dans cette ville. `;
 
-      if (!city.canBuildBuildingType(buildingType)) {
+      if (!city.canBuildBuildingType(buildingType, modifiers.getExtraBuildingSlots())) {
         errorMessage += `La ville n'a peut-être pas le niveau requis ou a déjà atteint sa limite de bâtiments.`;
       } else {
-        const buildingCost = getBuildingCost(buildingType);
+        const buildingCost = modifiers.applyToCost(getBuildingCost(buildingType));
         if (!resources.canAfford(buildingCost)) {
           errorMessage += `Coût requis: ${this.formatCost(buildingCost)}.`;
         } else {
@@ -222,11 +247,13 @@ export class BuildingController {
     }
 
     // Retirer les ressources
-    const buildingCost = getBuildingCost(buildingType);
+    const buildingCost = modifiers.applyToCost(getBuildingCost(buildingType));
     resources.payCost(buildingCost);
 
     // Ajouter le bâtiment à la ville
-    city.addBuilding(buildingType);
+    city.addBuilding(buildingType, modifiers.getExtraBuildingSlots());
+    GameEventBus.emit(GameEventType.ResourceChanged, { civId: city.owner, resources });
+    this.emitBuildingBuilt(city, buildingType);
   }
 
   /**
@@ -236,13 +263,15 @@ export class BuildingController {
    * @param map - La carte de jeu (requis pour vérifier les hex adjacents)
    * @param vertex - Le sommet de la ville (requis pour vérifier les hex adjacents)
    * @param resources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns Un tableau des bâtiments constructibles avec leur statut
    */
   static getBuildableBuildingsWithStatus(
     city: City,
     map: IslandMap,
     vertex: Vertex,
-    resources: PlayerResources
+    resources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): BuildableBuildingStatus[] {
     // Obtenir tous les types de bâtiments (pas seulement ceux dans getBuildableBuildings)
     // pour inclure ceux qui sont bloqués par la limite
@@ -258,7 +287,7 @@ export class BuildingController {
 
       // Vérifier si le bâtiment peut être construit du point de vue de la ville (niveau suffisant)
       // Note: Cette vérification n'inclut pas la limite, qui sera vérifiée séparément
-      const cityCanBuildType = city.canBuildBuildingType(buildingType);
+      const cityCanBuildType = city.canBuildBuildingType(buildingType, modifiers.getExtraBuildingSlots());
       
       // Vérifier si le bâtiment a un hex requis et si la ville en a un adjacent
       const requiredHexType = getRequiredHexType(buildingType);
@@ -276,12 +305,12 @@ export class BuildingController {
         continue;
       }
 
-      const cost = getBuildingCost(buildingType);
-      const canBuild = this.canBuild(buildingType, city, map, vertex, resources);
+      const cost = modifiers.applyToCost(getBuildingCost(buildingType));
+      const canBuild = this.canBuild(buildingType, city, map, vertex, resources, modifiers);
       
       // Déterminer si le blocage est uniquement dû à la limite de bâtiments
       // Pour cela, vérifier si toutes les autres conditions sont remplies
-      const cityCanBuildAny = city.canBuildBuilding();
+      const cityCanBuildAny = city.canBuildBuilding(modifiers.getExtraBuildingSlots());
       const hasResources = resources.canAfford(cost);
       const hasHex = requiredHexType === null || this.hasAdjacentHexOfType(vertex, requiredHexType, map);
       
@@ -329,6 +358,7 @@ export class BuildingController {
       case BuildingType.Mill:
       case BuildingType.Sheepfold:
       case BuildingType.Mine:
+      case BuildingType.Excavation:
         return city.level >= CityLevel.Colony;
       default:
         return false;
@@ -340,7 +370,7 @@ export class BuildingController {
    * @param cost - Le coût à formater
    * @returns Une chaîne formatée (ex: "3 Bois, 2 Brique")
    */
-  private static formatCost(cost: Map<ResourceType, number>): string {
+  static formatCost(cost: Map<ResourceType, number>): string {
     const parts: string[] = [];
     for (const [resource, amount] of cost.entries()) {
       const key = `resource.${String(resource).toLowerCase()}`;
@@ -3,14 +3,18 @@ import { CivilizationId } from '../model/map/CivilizationId';
 import { PlayerResources } from '../model/game/PlayerResources';
 import { GameClock } from '../model/game/GameClock';
 import { City } from '../model/city/City';
+import { Building } from '../model/city/Building';
 import { BuildingType, getRequiredHexType } from '../model/city/BuildingType';
 import { HexType } from '../model/map/HexType';
 import { HexCoord } from '../model/hex/HexCoord';
 import { Vertex } from '../model/hex/Vertex';
 import { ResourceHarvest } from '../model/game/ResourceHarvest';
-import { ResourceType } from '../model/map/ResourceType';
+import { ResourceType, BASIC_RESOURCES } from '../model/map/ResourceType';
 import { calculateInventoryCapacity } from '../model/game/InventoryCapacity';
-import { TradeController } from './TradeController';
+import { TradeController, AutoTradeResult } from './TradeController';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { GameEventBus, GameEventType } from './GameEventBus';
+import { SeededRNG } from './util/SeededRNG';
 
 /**
  * Résultat d'une production automatique d'un bâtiment.
@@ -24,6 +28,10 @@ export interface BuildingProductionResult {
   hexCoord: HexCoord;
   /** Le type de ressource récoltée */
   resourceType: ResourceType;
+  /** Quantité réellement ajoutée à l'inventaire */
+  amount: number;
+  /** Commerce automatique déclenché par la production (capacité maximale atteinte) */
+  autoTrade?: AutoTradeResult | null;
 }
 
 /**
@@ -31,6 +39,8 @@ export interface BuildingProductionResult {
  * 
  * Les bâtiments de ressources produisent automatiquement des ressources
  * en récoltant les hexagones adjacents du bon type lorsque l'intervalle de production est écoulé.
+ * Chaque production rapporte le rendement de l'hexagone récolté et puise dans sa réserve de richesse.
+ * La Forge transforme du minerai et du bois en outils, et accélère la Mine de sa ville.
  * Utilise GameClock pour gérer le temps de manière indépendante de la vitesse d'exécution.
  */
 export class BuildingProductionController {
@@ -49,14 +59,57 @@ export class BuildingProductionController {
    */
   private static readonly MARKET_LEVEL_2_PRODUCTION_INTERVAL_SECONDS = 10.0;
 
+  /**
+   * Intervalle de base entre deux fabrications d'outils par la Forge (en secondes).
+   */
+  private static readonly FORGE_PRODUCTION_INTERVAL_SECONDS = 10.0;
+
+  /**
+   * Réduction de l'intervalle de production de la Mine par niveau de Forge dans la même ville (0.1 = -10%).
+   */
+  private static readonly FORGE_MINE_SPEEDUP_PER_LEVEL = 0.1;
+
+  /**
+   * Ressources consommées par la Forge pour fabriquer un outil.
+   */
+  static readonly FORGE_RECIPE: Map<ResourceType, number> = new Map([
+    [ResourceType.Ore, 2],
+    [ResourceType.Wood, 1],
+  ]);
+
   /**
    * Calcule l'intervalle de production pour un bâtiment en fonction de son niveau.
-   * Formule: intervalle_base * 0.8^(niveau-1)
+   * Formule: intervalle_base * 0.8^(niveau-1), puis accéléré par les modificateurs de jeu
    * @param buildingLevel - Le niveau du bâtiment (1 = niveau de base)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns L'intervalle de production en secondes
    */
-  static getProductionInterval(buildingLevel: number): number {
-    return this.BASE_PRODUCTION_INTERVAL_SECONDS * Math.pow(this.LEVEL_TIME_REDUCTION_FACTOR, buildingLevel - 1);
+  static getProductionInterval(buildingLevel: number, modifiers: GameModifiers = GameModifiers.NONE): number {
+    const interval = this.BASE_PRODUCTION_INTERVAL_SECONDS * Math.pow(this.LEVEL_TIME_REDUCTION_FACTOR, buildingLevel - 1);
+    return modifiers.applyToProductionInterval(interval);
+  }
+
+  /**
+   * Calcule l'intervalle de fabrication d'outils de la Forge en fonction de son niveau.
+   * Même réduction par niveau que les bâtiments de production.
+   * @param forgeLevel - Le niveau de la Forge
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @returns L'intervalle de fabrication en secondes
+   */
+  static getForgeProductionInterval(forgeLevel: number, modifiers: GameModifiers = GameModifiers.NONE): number {
+    const interval = this.FORGE_PRODUCTION_INTERVAL_SECONDS * Math.pow(this.LEVEL_TIME_REDUCTION_FACTOR, forgeLevel - 1);
+    return modifiers.applyToProductionInterval(interval);
+  }
+
+  /**
+   * Retourne le multiplicateur de l'intervalle de production de la Mine d'une ville.
+   * Chaque niveau de Forge dans la ville réduit l'intervalle de 10%.
+   * @param city - La ville
+   * @returns Le multiplicateur (1 sans Forge)
+   */
+  static getMineIntervalMultiplier(city: City): number {
+    const forge = city.getBuilding(BuildingType.Forge);
+    return forge ? 1 - forge.level * this.FORGE_MINE_SPEEDUP_PER_LEVEL : 1;
   }
 
   /**
@@ -68,13 +121,15 @@ export class BuildingProductionController {
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
    * @param gameClock - L'horloge de jeu pour gérer le temps
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns Liste des productions effectuées (pour notifier la vue)
    */
   static processAutomaticProduction(
     civId: CivilizationId,
     map: IslandMap,
     resources: PlayerResources,
-    gameClock: GameClock
+    gameClock: GameClock,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): BuildingProductionResult[] {
     const results: BuildingProductionResult[] = [];
     
@@ -83,21 +138,27 @@ export class BuildingProductionController {
     
     // Pour chaque ville
     for (const city of cities) {
-      const cityResults = this.processCityProduction(city, civId, map, resources, gameClock);
+      const cityResults = this.processCityProduction(city, civId, map, resources, gameClock, modifiers);
       results.push(...cityResults);
     }
-    
+
+    if (results.length > 0) {
+      GameEventBus.emit(GameEventType.ResourceChanged, { civId, resources });
+    }
     return results;
   }
 
   /**
    * Traite la production automatique pour une ville donnée.
+   * Chaque bâtiment rattrape tous les cycles écoulés depuis sa dernière production : la simulation
+   * hors ligne peut ainsi avancer par pas plus longs que l'intervalle de production.
    * 
    * @param city - La ville à traiter
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
    * @param gameClock - L'horloge de jeu pour gérer le temps
+   * @param modifiers - Les modificateurs de jeu
    * @returns Liste des productions effectuées pour cette ville
    */
   private static processCityProduction(
@@ -105,18 +166,17 @@ export class BuildingProductionController {
     civId: CivilizationId,
     map: IslandMap,
     resources: PlayerResources,
-    gameClock: GameClock
+    gameClock: GameClock,
+    modifiers: GameModifiers
   ): BuildingProductionResult[] {
     const results: BuildingProductionResult[] = [];
+    const currentTime = gameClock.getCurrentTime();
     
     // Obtenir les bâtiments de production de ressources construits dans cette ville
     const productionBuildings = city.getProductionBuildings();
     
     for (const building of productionBuildings) {
       const buildingType = building.type;
-      
-      // Vérifier si le temps de production est écoulé
-      const currentTime = gameClock.getCurrentTime();
       const lastProductionTime = building.getProductionTimeSeconds();
       
       // Si le bâtiment n'a jamais produit, initialiser son temps de production au temps actuel
@@ -125,46 +185,18 @@ export class BuildingProductionController {
         continue; // Ne pas produire immédiatement à la construction
       }
       
-      // Calculer le temps écoulé depuis la dernière production
-      const timeElapsed = currentTime - lastProductionTime;
-      
       // Gestion spéciale pour le marché niveau 2 : production de ressource aléatoire
       if (buildingType === BuildingType.Market && building.level === 2) {
-        const productionInterval = this.MARKET_LEVEL_2_PRODUCTION_INTERVAL_SECONDS;
-        
-        if (timeElapsed >= productionInterval) {
-          // Générer une ressource aléatoire
-          const randomResource = this.getRandomResource();
-          
-          // Calculer la capacité d'inventaire maximale
-          const maxCapacity = calculateInventoryCapacity(map, civId);
-          
-          // Ajouter la ressource avec limitation de capacité
-          const actualGain = resources.addResourceCapped(randomResource, 1, maxCapacity);
-          
-          // Ajouter le résultat pour notifier la vue seulement si la ressource a été ajoutée
-          if (actualGain > 0) {
-            // Pour le marché, on utilise le premier hexagone adjacent à la ville pour l'animation
-            const cityHexes = city.vertex.getHexes();
-            const hexCoord = cityHexes.length > 0 ? cityHexes[0] : new HexCoord(0, 0);
-            
-            results.push({
-              cityVertex: city.vertex,
-              buildingType,
-              hexCoord,
-              resourceType: randomResource,
-            });
-            
-            // Si la capacité maximale a été atteinte, notifier TradeController pour l'auto-trade
-            if (resources.getResource(randomResource) >= maxCapacity) {
-              TradeController.handleAutoTrade(randomResource, civId, map, resources);
-            }
+        const productionInterval = modifiers.applyToProductionInterval(this.MARKET_LEVEL_2_PRODUCTION_INTERVAL_SECONDS);
+        let productionTime = lastProductionTime;
+        while (currentTime - productionTime >= productionInterval) {
+          productionTime += productionInterval;
+          const result = this.produceMarketResource(city, building, civId, map, resources, modifiers);
+          if (result) {
+            results.push(result);
           }
-          
-          // Mettre à jour le timer de production
-          const newProductionTime = lastProductionTime + productionInterval;
-          building.updateProductionTimeSeconds(newProductionTime);
         }
+        building.updateProductionTimeSeconds(productionTime);
         continue; // Passer au bâtiment suivant
       }
       
@@ -175,65 +207,183 @@ export class BuildingProductionController {
         continue; // Ne devrait pas arriver pour les bâtiments de ressources normaux
       }
       
-      // Calculer l'intervalle de production basé sur le niveau du bâtiment
-      const productionInterval = this.getProductionInterval(building.level);
+      // Calculer l'intervalle de production basé sur le niveau du bâtiment (Mine accélérée par la Forge)
+      let productionInterval = this.getProductionInterval(building.level, modifiers);
+      if (buildingType === BuildingType.Mine) {
+        productionInterval *= this.getMineIntervalMultiplier(city);
+      }
       
-      // Vérifier si l'intervalle de production est écoulé
-      if (timeElapsed < productionInterval) {
-        // Pas encore le temps de produire
+      // IMPORTANT: Le timer avance d'un intervalle par cycle écoulé, même si aucun hex n'a été récolté
+      // (pour éviter de réessayer à chaque frame). On part de lastProductionTime pour "rattraper"
+      // les cycles manqués si le jeu a ramé entre deux frames ou pendant l'absence du joueur.
+      let productionTime = lastProductionTime;
+      while (currentTime - productionTime >= productionInterval) {
+        productionTime += productionInterval;
+        results.push(...this.harvestAdjacentHexes(city, buildingType, requiredHexType, civId, map, resources, modifiers, productionTime));
+      }
+      building.updateProductionTimeSeconds(productionTime);
+    }
+
+    const forge = city.getBuilding(BuildingType.Forge);
+    if (forge) {
+      results.push(...this.processForgeProduction(city, forge, civId, map, resources, gameClock, modifiers));
+    }
+    
+    return results;
+  }
+
+  /**
+   * Produit une ressource de base aléatoire pour un cycle du marché niveau 2.
+   * @returns La production effectuée, ou null si la capacité d'inventaire est atteinte
+   */
+  private static produceMarketResource(
+    city: City,
+    market: Building,
+    civId: CivilizationId,
+    map: IslandMap,
+    resources: PlayerResources,
+    modifiers: GameModifiers
+  ): BuildingProductionResult | null {
+    // Générer une ressource aléatoire
+    const randomResource = this.getRandomResource(city, market);
+    
+    // Calculer la capacité d'inventaire maximale
+    const maxCapacity = calculateInventoryCapacity(map, civId, modifiers);
+    
+    // Ajouter la ressource avec limitation de capacité
+    const actualGain = resources.addResourceCapped(randomResource, 1, maxCapacity);
+    
+    // Notifier la vue seulement si la ressource a été ajoutée
+    if (actualGain <= 0) {
+      return null;
+    }
+    // Pour le marché, on utilise le premier hexagone adjacent à la ville pour l'animation
+    const cityHexes = city.vertex.getHexes();
+    const hexCoord = cityHexes.length > 0 ? cityHexes[0] : new HexCoord(0, 0);
+    
+    const result: BuildingProductionResult = {
+      cityVertex: city.vertex,
+      buildingType: BuildingType.Market,
+      hexCoord,
+      resourceType: randomResource,
+      amount: actualGain,
+    };
+    
+    // Si la capacité maximale a été atteinte, notifier TradeController pour l'auto-trade
+    if (resources.getResource(randomResource) >= maxCapacity) {
+      result.autoTrade = TradeController.handleAutoTrade(randomResource, civId, map, resources, modifiers);
+    }
+    return result;
+  }
+
+  /**
+   * Récolte, pour un cycle de production, les hexagones adjacents à la ville du type requis par le bâtiment.
+   * @returns Les productions effectuées
+   */
+  private static harvestAdjacentHexes(
+    city: City,
+    buildingType: BuildingType,
+    requiredHexType: HexType,
+    civId: CivilizationId,
+    map: IslandMap,
+    resources: PlayerResources,
+    modifiers: GameModifiers,
+    productionTime: number
+  ): BuildingProductionResult[] {
+    const results: BuildingProductionResult[] = [];
+    
+    // Trouver les hexagones adjacents du bon type
+    const adjacentHexes = this.getAdjacentHexesOfType(city.vertex, requiredHexType, map);
+    
+    // Pour chaque hex adjacent, vérifier s'il peut être récolté automatiquement
+    for (const hexCoord of adjacentHexes) {
+      // Vérifier que la récolte est possible (visible, etc.)
+      if (!ResourceHarvest.canHarvest(hexCoord, map, civId)) {
         continue;
       }
       
-      // Trouver les hexagones adjacents du bon type
-      const adjacentHexes = this.getAdjacentHexesOfType(city.vertex, requiredHexType, map);
+      // Vérifier que l'hex a bien le type requis (double vérification)
+      const hexType = map.getHexType(hexCoord);
+      if (hexType !== requiredHexType) {
+        continue;
+      }
       
-      // Pour chaque hex adjacent, vérifier s'il peut être récolté automatiquement
-      for (const hexCoord of adjacentHexes) {
-        // Vérifier que la récolte est possible (visible, etc.)
-        if (!ResourceHarvest.canHarvest(hexCoord, map, civId)) {
-          continue;
-        }
+      // Effectuer la récolte directement (sans passer par ResourceHarvestController pour éviter le cooldown)
+      // Passer le vertex de la ville pour permettre à plusieurs villes de récolter le même hex
+      try {
+        const harvestResult = ResourceHarvest.harvest(hexCoord, map, civId, resources, city.vertex, undefined, modifiers, productionTime);
         
-        // Vérifier que l'hex a bien le type requis (double vérification)
-        const hexType = map.getHexType(hexCoord);
-        if (hexType !== requiredHexType) {
-          continue;
-        }
-        
-        // Effectuer la récolte directement (sans passer par ResourceHarvestController pour éviter le cooldown)
-        // Passer le vertex de la ville pour permettre à plusieurs villes de récolter le même hex
-        try {
-          const harvestResult = ResourceHarvest.harvest(hexCoord, map, civId, resources, city.vertex);
+        // Convertir le type d'hex en type de ressource
+        const resourceType = ResourceHarvest.hexTypeToResourceType(hexType);
+        if (resourceType) {
+          const result: BuildingProductionResult = {
+            cityVertex: city.vertex,
+            buildingType,
+            hexCoord,
+            resourceType,
+            amount: harvestResult.gain,
+          };
+          results.push(result);
           
-          // Convertir le type d'hex en type de ressource
-          const resourceType = ResourceHarvest.hexTypeToResourceType(hexType);
-          if (resourceType) {
-            results.push({
-              cityVertex: city.vertex,
-              buildingType,
-              hexCoord,
-              resourceType,
-            });
-            
-            // Si la capacité maximale a été atteinte et qu'une ressource a été récoltée, notifier TradeController
-            if (harvestResult.capacityReached && harvestResult.resourceType !== null) {
-              TradeController.handleAutoTrade(harvestResult.resourceType, civId, map, resources);
-            }
+          // Si la capacité maximale a été atteinte et qu'une ressource a été récoltée, notifier TradeController
+          if (harvestResult.capacityReached && harvestResult.resourceType !== null) {
+            result.autoTrade = TradeController.handleAutoTrade(harvestResult.resourceType, civId, map, resources, modifiers);
           }
-        } catch (error) {
-          // Si la récolte échoue (par exemple hex non visible), continuer avec le suivant
-          continue;
         }
+      } catch (error) {
+        // Si la récolte échoue (par exemple hex non visible), continuer avec le suivant
+        continue;
       }
+    }
+    return results;
+  }
 
-      // IMPORTANT: Toujours mettre à jour le timer de production une fois l'intervalle écoulé,
-      // même si aucun hex n'a été récolté (pour éviter de réessayer à chaque frame).
-      // On utilise lastProductionTime + productionInterval pour permettre de "rattraper"
-      // plusieurs cycles si le jeu a ramé entre deux frames.
-      const newProductionTime = lastProductionTime + productionInterval;
-      building.updateProductionTimeSeconds(newProductionTime);
+  /**
+   * Fabrique un outil par cycle écoulé de la Forge lorsque la recette est abordable.
+   * Le timer avance même sans fabrication (ressources insuffisantes ou capacité atteinte).
+   * @returns Les productions effectuées
+   */
+  private static processForgeProduction(
+    city: City,
+    forge: Building,
+    civId: CivilizationId,
+    map: IslandMap,
+    resources: PlayerResources,
+    gameClock: GameClock,
+    modifiers: GameModifiers
+  ): BuildingProductionResult[] {
+    const currentTime = gameClock.getCurrentTime();
+    const lastProductionTime = forge.getProductionTimeSeconds();
+    if (lastProductionTime === undefined) {
+      forge.setProductionTimeSeconds(currentTime);
+      return [];
     }
-    
+
+    const productionInterval = this.getForgeProductionInterval(forge.level, modifiers);
+    const results: BuildingProductionResult[] = [];
+    let productionTime = lastProductionTime;
+    while (currentTime - productionTime >= productionInterval) {
+      productionTime += productionInterval;
+      const maxCapacity = calculateInventoryCapacity(map, civId, modifiers);
+      if (!resources.canAfford(this.FORGE_RECIPE) || resources.getResource(ResourceType.Tools) >= maxCapacity) {
+        continue;
+      }
+      for (const [resourceType, amount] of this.FORGE_RECIPE) {
+        resources.removeResource(resourceType, amount);
+      }
+      const amount = resources.addResourceCapped(ResourceType.Tools, 1, maxCapacity);
+
+      // Comme pour le marché, l'animation part du premier hexagone adjacent à la ville
+      const cityHexes = city.vertex.getHexes();
+      results.push({
+        cityVertex: city.vertex,
+        buildingType: BuildingType.Forge,
+        hexCoord: cityHexes.length > 0 ? cityHexes[0] : new HexCoord(0, 0),
+        resourceType: ResourceType.Tools,
+        amount,
+      });
+    }
+    forge.updateProductionTimeSeconds(productionTime);
     return results;
   }
 
@@ -323,12 +473,18 @@ export class BuildingProductionController {
   }
 
   /**
-   * Génère une ressource aléatoire parmi toutes les ressources disponibles.
+   * Génère une ressource de base aléatoire (le marché ne produit pas d'outils).
+   * L'état du générateur est conservé (et sauvegardé) avec le marché, seedé au premier tirage par la ville :
+   * une même partie simulée donne les mêmes ressources.
+   * @param city - La ville du marché
+   * @param market - Le marché, qui porte l'état du générateur
    * @returns Un type de ressource aléatoire
    */
-  private static getRandomResource(): ResourceType {
-    const allResources = Object.values(ResourceType);
-    const randomIndex = Math.floor(Math.random() * allResources.length);
-    return allResources[randomIndex];
+  private static getRandomResource(city: City, market: Building): ResourceType {
+    const hex = city.vertex.getHexes()[0];
+    const rng = new SeededRNG(market.getRngState() ?? (hex ? hex.q * 7919 + hex.r * 104729 : 0));
+    const resource = BASIC_RESOURCES[rng.nextInt(0, BASIC_RESOURCES.length)];
+    market.setRngState(rng.getState());
+    return resource;
   }
 }
@@ -0,0 +1,217 @@
+import { IslandState } from '../model/game/IslandState';
+import { ResourceHarvest } from '../model/game/ResourceHarvest';
+import { ConstructionKind } from '../model/game/ConstructionQueue';
+import { IslandMap } from '../model/map/IslandMap';
+import { CivilizationId } from '../model/map/CivilizationId';
+import { HexCoord } from '../model/hex/HexCoord';
+import { Vertex } from '../model/hex/Vertex';
+import { City } from '../model/city/City';
+import { BuildingType } from '../model/city/BuildingType';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { BuildingController } from './BuildingController';
+import { ConstructionController } from './ConstructionController';
+import { ResourceHarvestController } from './ResourceHarvestController';
+import { TradeController } from './TradeController';
+import { PrestigeController } from './PrestigeController';
+import { UndoController } from './UndoController';
+import { localize } from '../i18n';
+
+/**
+ * Commandes du joueur accessibles au clavier et depuis la palette de commandes.
+ */
+export enum CommandId {
+  NextCity = 'NextCity',
+  PreviousCity = 'PreviousCity',
+  HarvestAll = 'HarvestAll',
+  OpenTrade = 'OpenTrade',
+  OpenAutomation = 'OpenAutomation',
+  OpenPrestige = 'OpenPrestige',
+  Undo = 'Undo',
+  Redo = 'Redo',
+  Build = 'Build',
+}
+
+/**
+ * Statut d'une commande dans l'état de jeu actuel.
+ */
+export interface CommandStatus {
+  /** La commande */
+  id: CommandId;
+  /** Le bâtiment à construire (commande Build uniquement) */
+  buildingType?: BuildingType;
+  /** La raison localisée pour laquelle la commande est indisponible (null si elle peut être lancée) */
+  disabledReason: string | null;
+}
+
+/**
+ * Contrôleur des commandes du joueur (raccourcis clavier et palette de commandes).
+ *
+ * Ne fait qu'évaluer l'état de jeu : l'exécution des commandes reste à la charge
+ * de GameCoordinator et des vues.
+ */
+export class CommandController {
+  /**
+   * Liste les commandes disponibles et la raison du blocage de celles qui ne le sont pas.
+   * Les commandes de construction sont proposées pour chaque bâtiment de la ville sélectionnée
+   * listé par BuildingController.getBuildableBuildingsWithStatus.
+   * @param islandState - L'état de l'île
+   * @param selectedVertex - Le sommet sélectionné sur la carte (null si aucun)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   */
+  static getCommands(
+    islandState: IslandState,
+    selectedVertex: Vertex | null,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): CommandStatus[] {
+    const map = islandState.getIslandMap();
+    if (!map) {
+      return [];
+    }
+    const civId = islandState.getPlayerCivilizationId();
+    const city = this.getPlayerCity(map, civId, selectedVertex);
+    const noCity = localize('city.noneSelected');
+
+    const cityCount = map.getCitiesByCivilization(civId).length;
+    const cycleReason = cityCount > (city ? 1 : 0) ? null : localize('command.reason.noOtherCity');
+
+    let harvestReason: string | null = noCity;
+    if (city) {
+      const currentTime = islandState.getGameClock().getCurrentTime();
+      harvestReason = this.getReadyHarvestHexes(city.vertex, map, civId, currentTime, modifiers).length > 0
+        ? null
+        : localize('command.reason.nothingToHarvest');
+    }
+
+    let automationReason: string | null = noCity;
+    if (city) {
+      automationReason = city.hasBuilding(BuildingType.BuildersGuild) ? null : localize('automation.error.noBuildersGuild');
+    }
+
+    const commands: CommandStatus[] = [
+      { id: CommandId.NextCity, disabledReason: cycleReason },
+      { id: CommandId.PreviousCity, disabledReason: cycleReason },
+      { id: CommandId.HarvestAll, disabledReason: harvestReason },
+      {
+        id: CommandId.OpenTrade,
+        disabledReason: TradeController.canTrade(civId, map, modifiers) ? null : localize('trade.error.unavailable'),
+      },
+      { id: CommandId.OpenAutomation, disabledReason: automationReason },
+      {
+        id: CommandId.OpenPrestige,
+        disabledReason: PrestigeController.canActivatePrestige(civId, map, modifiers)
+          ? null
+          : PrestigeController.getPrestigeRestrictionReason(civId, map, modifiers) ?? localize('prestige.restrictionsNotMet'),
+      },
+      { id: CommandId.Undo, disabledReason: UndoController.getUndoBlocker(islandState, modifiers) },
+      {
+        id: CommandId.Redo,
+        disabledReason: UndoController.canRedo(islandState) ? null : localize('undo.blocked.nothingToRedo'),
+      },
+    ];
+
+    if (city) {
+      commands.push(...this.getBuildCommands(city, islandState, modifiers));
+    }
+    return commands;
+  }
+
+  /**
+   * Commandes de construction d'une ville, avec la raison reprise de BuildingController
+   * (limite de bâtiments ou ressources insuffisantes) ou de la file de chantiers.
+   * @param city - La ville où construire
+   * @param islandState - L'état de l'île
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   */
+  static getBuildCommands(
+    city: City,
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): CommandStatus[] {
+    const map = islandState.getIslandMap();
+    if (!map) {
+      return [];
+    }
+    const queue = islandState.getConstructionQueue();
+    const statuses = BuildingController.getBuildableBuildingsWithStatus(
+      city,
+      map,
+      city.vertex,
+      islandState.getPlayerResources(),
+      modifiers
+    );
+
+    return statuses.map(status => {
+      let disabledReason: string | null = null;
+      if (queue.hasBuildingSite(city.vertex, status.buildingType, ConstructionKind.Building)) {
+        disabledReason = localize('construction.error.alreadyInProgress');
+      } else if (status.blockedByBuildingLimit) {
+        disabledReason = localize('building.error.limitReached');
+      } else if (!status.canBuild) {
+        disabledReason = localize('building.error.insufficientResources', { cost: BuildingController.formatCost(status.cost) });
+      } else if (!ConstructionController.canStartBuilding(status.buildingType, city, islandState, modifiers)) {
+        // Limite atteinte en comptant les chantiers en cours
+        disabledReason = localize('building.error.limitReached');
+      }
+      return { id: CommandId.Build, buildingType: status.buildingType, disabledReason };
+    });
+  }
+
+  /**
+   * Retourne la ville suivante (ou précédente) du joueur, dans l'ordre de fondation.
+   * Sans ville sélectionnée, retourne la première (ou la dernière) ville.
+   * @param map - La carte de jeu
+   * @param civId - La civilisation du joueur
+   * @param current - Le sommet actuellement sélectionné (null si aucun)
+   * @param step - 1 pour la ville suivante, -1 pour la précédente
+   * @returns Le sommet de la ville, ou null si le joueur n'a aucune ville
+   */
+  static getNextCityVertex(
+    map: IslandMap,
+    civId: CivilizationId,
+    current: Vertex | null,
+    step: 1 | -1 = 1
+  ): Vertex | null {
+    const cities = map.getCitiesByCivilization(civId);
+    if (cities.length === 0) {
+      return null;
+    }
+    const index = current ? cities.findIndex(city => city.vertex.equals(current)) : -1;
+    if (index === -1) {
+      return step === 1 ? cities[0].vertex : cities[cities.length - 1].vertex;
+    }
+    return cities[(index + step + cities.length) % cities.length].vertex;
+  }
+
+  /**
+   * Retourne les hexagones adjacents à une ville qui peuvent être récoltés immédiatement
+   * (récoltables par la civilisation et hors délai de récolte).
+   * @param vertex - Le sommet de la ville
+   * @param map - La carte de jeu
+   * @param civId - La civilisation du joueur
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   * @param modifiers - Les modificateurs de jeu (optionnel, délai de récolte)
+   */
+  static getReadyHarvestHexes(
+    vertex: Vertex,
+    map: IslandMap,
+    civId: CivilizationId,
+    currentTime: number,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): HexCoord[] {
+    return vertex.getHexes().filter(hex =>
+      ResourceHarvest.canHarvest(hex, map, civId)
+      && ResourceHarvestController.getRemainingCooldown(hex, map, currentTime, modifiers) === 0
+    );
+  }
+
+  /**
+   * Retourne la ville du joueur située sur le sommet sélectionné.
+   */
+  private static getPlayerCity(map: IslandMap, civId: CivilizationId, vertex: Vertex | null): City | null {
+    if (!vertex || !map.hasCity(vertex)) {
+      return null;
+    }
+    const city = map.getCity(vertex);
+    return city && city.owner.equals(civId) ? city : null;
+  }
+}
@@ -0,0 +1,456 @@
+import { Edge } from '../model/hex/Edge';
+import { Vertex } from '../model/hex/Vertex';
+import { IslandState } from '../model/game/IslandState';
+import { ConstructionKind, ConstructionSite } from '../model/game/ConstructionQueue';
+import { RoadConstruction } from '../model/game/RoadConstruction';
+import { Civilization } from '../model/map/Civilization';
+import { CivilizationId } from '../model/map/CivilizationId';
+import { IslandMap } from '../model/map/IslandMap';
+import { ResourceType } from '../model/map/ResourceType';
+import { BuildingType, getBuildingCost, getResourceProductionBuildings } from '../model/city/BuildingType';
+import { City } from '../model/city/City';
+import { CityLevel } from '../model/city/CityLevel';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { OutpostController } from './OutpostController';
+import { BuildingController } from './BuildingController';
+import { GameEventBus, GameEventType } from './GameEventBus';
+import { localize } from '../i18n';
+
+/**
+ * Contrôleur des chantiers : constructions avec durée.
+ *
+ * Démarrer un chantier vérifie les mêmes conditions que les constructions instantanées
+ * (RoadController, OutpostController, BuildingController), paie le coût et ajoute le chantier
+ * à la file de la civilisation (joueur, automatisations et rivaux). La construction est placée
+ * sur la carte quand le GameClock atteint sa fin (processConstructions). Si elle n'est plus
+ * possible à ce moment-là (ex: emplacement pris entre-temps), le coût est remboursé.
+ *
+ * Les durées sont réduites par Civilization.getConstructionTimeMultiplier().
+ */
+export class ConstructionController {
+  /** Durée d'une route par pas de distance à la ville la plus proche (en secondes). */
+  static readonly ROAD_SECONDS_PER_DISTANCE = 5;
+
+  /** Durée de construction d'un avant-poste (en secondes). */
+  static readonly OUTPOST_SECONDS = 30;
+
+  /** Durée de construction d'un nouveau bâtiment (en secondes). */
+  static readonly BUILDING_SECONDS = 20;
+
+  /** Durée d'amélioration d'un bâtiment par niveau visé (en secondes). */
+  static readonly UPGRADE_SECONDS_PER_LEVEL = 20;
+
+  /**
+   * Durée de construction d'une route.
+   * @param distance - La distance de la route à la ville la plus proche
+   * @param civilization - La civilisation (amélioration de temps de construction)
+   */
+  static getRoadDuration(distance: number, civilization: Civilization): number {
+    return this.ROAD_SECONDS_PER_DISTANCE * (distance + 1) * civilization.getConstructionTimeMultiplier();
+  }
+
+  /**
+   * Durée de construction d'un avant-poste.
+   * @param civilization - La civilisation (amélioration de temps de construction)
+   */
+  static getOutpostDuration(civilization: Civilization): number {
+    return this.OUTPOST_SECONDS * civilization.getConstructionTimeMultiplier();
+  }
+
+  /**
+   * Durée de construction d'un nouveau bâtiment.
+   * @param civilization - La civilisation (amélioration de temps de construction)
+   */
+  static getBuildingDuration(civilization: Civilization): number {
+    return this.BUILDING_SECONDS * civilization.getConstructionTimeMultiplier();
+  }
+
+  /**
+   * Durée d'amélioration d'un bâtiment.
+   * @param targetLevel - Le niveau visé par l'amélioration
+   * @param civilization - La civilisation (amélioration de temps de construction)
+   */
+  static getUpgradeDuration(targetLevel: number, civilization: Civilization): number {
+    return this.UPGRADE_SECONDS_PER_LEVEL * targetLevel * civilization.getConstructionTimeMultiplier();
+  }
+
+  /**
+   * Vérifie si une route peut être mise en chantier (constructible, pas déjà en chantier, coût payable).
+   * @param civId - La civilisation qui construit (le joueur par défaut)
+   */
+  static canStartRoad(
+    edge: Edge,
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE,
+    civId: CivilizationId = islandState.getPlayerCivilizationId()
+  ): boolean {
+    const { map, queue, resources } = this.getContext(islandState, civId);
+    const distance = this.getRoadDistance(edge, map, civId);
+    return !queue.hasRoadSite(edge)
+      && distance !== undefined
+      && resources.canAfford(RoadConstruction.getCost(distance, modifiers));
+  }
+
+  /**
+   * Démarre la construction d'une route.
+   * @param edge - L'arête où construire la route
+   * @param islandState - L'état de l'île (carte, ressources, horloge, chantiers)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @param instant - Chantier sans durée, achevé au prochain processConstructions (bénédiction SwiftConstruction)
+   * @param civId - La civilisation qui construit (le joueur par défaut)
+   * @returns Le chantier créé
+   * @throws Error si la route ne peut pas être construite ou si les ressources sont insuffisantes
+   */
+  static startRoad(
+    edge: Edge,
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE,
+    instant: boolean = false,
+    civId: CivilizationId = islandState.getPlayerCivilizationId()
+  ): ConstructionSite {
+    const { map, queue } = this.getContext(islandState, civId);
+    if (queue.hasRoadSite(edge)) {
+      throw new Error(localize('construction.error.alreadyInProgress'));
+    }
+    const distance = this.getRoadDistance(edge, map, civId);
+    if (distance === undefined) {
+      throw new Error(localize('construction.error.roadNotBuildable'));
+    }
+
+    const cost = RoadConstruction.getCost(distance, modifiers);
+    const duration = instant ? 0 : this.getRoadDuration(distance, islandState.getCivilization(civId));
+    return this.enqueue(islandState, civId, ConstructionKind.Road, cost, duration, { edge });
+  }
+
+  /**
+   * Vérifie si un avant-poste peut être mis en chantier (constructible, pas déjà en chantier, coût payable).
+   * @param civId - La civilisation qui construit (le joueur par défaut)
+   */
+  static canStartOutpost(
+    vertex: Vertex,
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE,
+    civId: CivilizationId = islandState.getPlayerCivilizationId()
+  ): boolean {
+    const { map, queue, resources } = this.getContext(islandState, civId);
+    return !queue.hasOutpostSite(vertex)
+      && OutpostController.canBuildOutpost(vertex, civId, map)
+      && !this.isNextToOutpostSite(vertex, islandState, civId)
+      && resources.canAfford(this.getOutpostCost(islandState, modifiers, civId));
+  }
+
+  /**
+   * Coût du prochain avant-poste : les avant-postes en chantier comptent comme des villes,
+   * pour que plusieurs chantiers démarrés ensemble ne paient pas tous le même prix.
+   * @param civId - La civilisation qui construit (le joueur par défaut)
+   */
+  static getOutpostCost(
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE,
+    civId: CivilizationId = islandState.getPlayerCivilizationId()
+  ): Map<ResourceType, number> {
+    const { map, queue } = this.getContext(islandState, civId);
+    const cityCount = map.getCitiesByCivilization(civId).length + queue.countOutpostSites();
+    return OutpostController.getBuildableOutpostCost(cityCount, modifiers);
+  }
+
+  /**
+   * Démarre la construction d'un avant-poste.
+   * @param vertex - Le sommet où construire l'avant-poste
+   * @param islandState - L'état de l'île (carte, ressources, horloge, chantiers)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @param instant - Chantier sans durée, achevé au prochain processConstructions (bénédiction SwiftConstruction)
+   * @param civId - La civilisation qui construit (le joueur par défaut)
+   * @returns Le chantier créé
+   * @throws Error si l'avant-poste ne peut pas être construit ou si les ressources sont insuffisantes
+   */
+  static startOutpost(
+    vertex: Vertex,
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE,
+    instant: boolean = false,
+    civId: CivilizationId = islandState.getPlayerCivilizationId()
+  ): ConstructionSite {
+    const { map, queue } = this.getContext(islandState, civId);
+    if (queue.hasOutpostSite(vertex)) {
+      throw new Error(localize('construction.error.alreadyInProgress'));
+    }
+    if (!OutpostController.canBuildOutpost(vertex, civId, map)) {
+      throw new Error(localize('construction.error.outpostNotBuildable'));
+    }
+    if (this.isNextToOutpostSite(vertex, islandState, civId)) {
+      throw new Error(localize('construction.error.outpostTooClose'));
+    }
+
+    const cost = this.getOutpostCost(islandState, modifiers, civId);
+    const duration = instant ? 0 : this.getOutpostDuration(islandState.getCivilization(civId));
+    return this.enqueue(islandState, civId, ConstructionKind.Outpost, cost, duration, { vertex });
+  }
+
+  /**
+   * Vérifie si un nouveau bâtiment peut être mis en chantier dans une ville.
+   * En plus de BuildingController.canBuild, tient compte des chantiers déjà en cours
+   * (même bâtiment, ou limite de bâtiments atteinte avec les chantiers).
+   * Le chantier est celui de la civilisation propriétaire de la ville.
+   */
+  static canStartBuilding(
+    buildingType: BuildingType,
+    city: City,
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): boolean {
+    const { map, queue, resources } = this.getContext(islandState, city.owner);
+    if (queue.hasBuildingSite(city.vertex, buildingType, ConstructionKind.Building)) {
+      return false;
+    }
+    if (city.getBuildingCount() + queue.countBuildingSites(city.vertex) >= city.getMaxBuildings(modifiers.getExtraBuildingSlots())) {
+      return false;
+    }
+    return BuildingController.canBuild(buildingType, city, map, city.vertex, resources, modifiers);
+  }
+
+  /**
+   * Démarre la construction d'un bâtiment.
+   * @param buildingType - Le type de bâtiment
+   * @param city - La ville où construire
+   * @param islandState - L'état de l'île (carte, ressources, horloge, chantiers)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @param instant - Chantier sans durée, achevé au prochain processConstructions (bénédiction SwiftConstruction)
+   * @returns Le chantier créé
+   * @throws Error si le bâtiment ne peut pas être mis en chantier
+   */
+  static startBuilding(
+    buildingType: BuildingType,
+    city: City,
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE,
+    instant: boolean = false
+  ): ConstructionSite {
+    if (!this.canStartBuilding(buildingType, city, islandState, modifiers)) {
+      throw new Error(localize('construction.error.buildingNotBuildable', { building: String(buildingType) }));
+    }
+
+    const cost = modifiers.applyToCost(getBuildingCost(buildingType));
+    const duration = instant ? 0 : this.getBuildingDuration(islandState.getCivilization(city.owner));
+    return this.enqueue(islandState, city.owner, ConstructionKind.Building, cost, duration, { vertex: city.vertex, buildingType });
+  }
+
+  /**
+   * Vérifie si un bâtiment peut être mis en chantier d'amélioration.
+   * En plus de BuildingController.canUpgrade, refuse si une amélioration est déjà en cours.
+   */
+  static canStartUpgrade(
+    buildingType: BuildingType,
+    city: City,
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): boolean {
+    const { map, queue, resources } = this.getContext(islandState, city.owner);
+    if (queue.hasBuildingSite(city.vertex, buildingType, ConstructionKind.BuildingUpgrade)) {
+      return false;
+    }
+    return BuildingController.canUpgrade(buildingType, city, map, resources, modifiers);
+  }
+
+  /**
+   * Démarre l'amélioration d'un bâtiment.
+   * @param buildingType - Le type de bâtiment
+   * @param city - La ville
+   * @param islandState - L'état de l'île (carte, ressources, horloge, chantiers)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @param instant - Chantier sans durée, achevé au prochain processConstructions (bénédiction SwiftConstruction)
+   * @returns Le chantier créé
+   * @throws Error si l'amélioration ne peut pas être mise en chantier
+   */
+  static startUpgrade(
+    buildingType: BuildingType,
+    city: City,
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE,
+    instant: boolean = false
+  ): ConstructionSite {
+    if (!this.canStartUpgrade(buildingType, city, islandState, modifiers)) {
+      throw new Error(localize('construction.error.upgradeNotPossible', { building: String(buildingType) }));
+    }
+
+    const building = city.getBuilding(buildingType)!;
+    const cost = modifiers.applyToCost(building.getUpgradeCost());
+    const duration = instant ? 0 : this.getUpgradeDuration(building.level + 1, islandState.getCivilization(city.owner));
+    return this.enqueue(islandState, city.owner, ConstructionKind.BuildingUpgrade, cost, duration, { vertex: city.vertex, buildingType });
+  }
+
+  /**
+   * Achève les chantiers dont le temps de fin est atteint, ceux du joueur puis ceux des rivaux.
+   * Les constructions devenues impossibles sont annulées et remboursées.
+   * @param islandState - L'état de l'île
+   * @param modifiers - Les modificateurs de jeu du joueur (optionnel, pour les emplacements de bâtiment de la recherche)
+   * @returns Les chantiers du joueur achevés et placés sur la carte
+   */
+  static processConstructions(
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): ConstructionSite[] {
+    if (!islandState.getIslandMap()) {
+      return [];
+    }
+    const completed = this.processQueue(islandState, islandState.getPlayerCivilizationId(), modifiers);
+    for (const rival of islandState.getRivals()) {
+      this.processQueue(islandState, rival.id, GameModifiers.NONE);
+    }
+    return completed;
+  }
+
+  /**
+   * Achève les chantiers terminés d'une civilisation.
+   * @returns Les chantiers achevés et placés sur la carte
+   */
+  private static processQueue(
+    islandState: IslandState,
+    civId: CivilizationId,
+    modifiers: GameModifiers
+  ): ConstructionSite[] {
+    const { queue, resources } = this.getContext(islandState, civId);
+    const completed: ConstructionSite[] = [];
+    for (const site of queue.takeCompleted(islandState.getGameClock().getCurrentTime())) {
+      try {
+        this.complete(site, islandState, civId, modifiers);
+        completed.push(site);
+      } catch (e) {
+        // L'emplacement n'est plus valide : rembourser le coût payé
+        for (const [resourceType, amount] of site.cost.entries()) {
+          resources.addResource(resourceType, amount);
+        }
+        GameEventBus.emit(GameEventType.ResourceChanged, { civId, resources });
+      }
+    }
+    return completed;
+  }
+
+  /**
+   * Place la construction d'un chantier terminé sur la carte.
+   * @throws Error si la construction n'est plus possible
+   */
+  private static complete(
+    site: ConstructionSite,
+    islandState: IslandState,
+    civId: CivilizationId,
+    modifiers: GameModifiers
+  ): void {
+    const { map } = this.getContext(islandState, civId);
+    switch (site.kind) {
+      case ConstructionKind.Road: {
+        if (!RoadConstruction.canBuildRoad(site.edge!, civId, map)) {
+          throw new Error(localize('construction.error.roadNotBuildable'));
+        }
+        map.addRoad(site.edge!, civId);
+        GameEventBus.emit(GameEventType.RoadBuilt, { civId, edge: site.edge! });
+        return;
+      }
+      case ConstructionKind.Outpost: {
+        if (!OutpostController.canBuildOutpost(site.vertex!, civId, map)) {
+          throw new Error(localize('construction.error.outpostNotBuildable'));
+        }
+        map.addCity(site.vertex!, civId, CityLevel.Outpost);
+        GameEventBus.emit(GameEventType.OutpostBuilt, { civId, vertex: site.vertex! });
+        return;
+      }
+      case ConstructionKind.Building: {
+        const city = this.getCity(site, islandState);
+        city.addBuilding(site.buildingType!, modifiers.getExtraBuildingSlots());
+        // Les bâtiments de ressources commencent leur cycle de production à la fin du chantier
+        if (getResourceProductionBuildings().includes(site.buildingType!)) {
+          city.getBuilding(site.buildingType!)?.setProductionTimeSeconds(site.endTime);
+        }
+        BuildingController.emitBuildingBuilt(city, site.buildingType!);
+        return;
+      }
+      case ConstructionKind.BuildingUpgrade: {
+        const city = this.getCity(site, islandState);
+        // Une seule Capitale par civilisation, même si deux améliorations se terminent ensemble
+        if (site.buildingType === BuildingType.TownHall && city.level + 1 === CityLevel.Capital) {
+          const hasCapital = map.getCitiesByCivilization(city.owner).some(c => c.level === CityLevel.Capital);
+          if (hasCapital) {
+            throw new Error(localize('building.error.capitalExists'));
+          }
+        }
+        city.upgradeBuilding(site.buildingType!);
+        BuildingController.emitBuildingBuilt(city, site.buildingType!);
+        return;
+      }
+    }
+  }
+
+  private static getCity(site: ConstructionSite, islandState: IslandState): City {
+    const city = islandState.getIslandMap()?.getCity(site.vertex!);
+    if (!city) {
+      throw new Error(localize('construction.error.cityNotFound'));
+    }
+    return city;
+  }
+
+  /**
+   * Distance d'une route constructible à la ville la plus proche, ou undefined si elle n'est pas constructible.
+   */
+  private static getRoadDistance(edge: Edge, map: IslandMap, civId: CivilizationId): number | undefined {
+    return RoadConstruction.canBuildRoad(edge, civId, map)
+      ? map.calculateBuildableRoadDistance(edge, civId)
+      : undefined;
+  }
+
+  /**
+   * Vérifie si le sommet est relié par une seule route de la civilisation à un avant-poste en chantier :
+   * une fois cet avant-poste achevé, le sommet serait à distance 1 d'une ville.
+   */
+  private static isNextToOutpostSite(vertex: Vertex, islandState: IslandState, civId: CivilizationId): boolean {
+    const { map, queue } = this.getContext(islandState, civId);
+    const civRoads = map.getEdgesForVertex(vertex).filter(edge => map.getRoadOwner(edge)?.equals(civId));
+    return queue.getSites().some(site =>
+      site.kind === ConstructionKind.Outpost
+      && map.getEdgesForVertex(site.vertex!).some(edge => civRoads.some(road => road.equals(edge)))
+    );
+  }
+
+  /**
+   * Paie le coût et ajoute le chantier à la file de la civilisation.
+   */
+  private static enqueue(
+    islandState: IslandState,
+    civId: CivilizationId,
+    kind: ConstructionKind,
+    cost: Map<ResourceType, number>,
+    duration: number,
+    target: { edge?: Edge; vertex?: Vertex; buildingType?: BuildingType }
+  ): ConstructionSite {
+    const { queue, resources } = this.getContext(islandState, civId);
+    if (!resources.canAfford(cost)) {
+      throw new Error(localize('construction.error.insufficientResources'));
+    }
+    resources.payCost(cost);
+    GameEventBus.emit(GameEventType.ResourceChanged, { civId, resources });
+
+    const startTime = islandState.getGameClock().getCurrentTime();
+    const site = new ConstructionSite(
+      kind,
+      startTime,
+      startTime + duration,
+      cost,
+      target.edge,
+      target.vertex,
+      target.buildingType
+    );
+    queue.add(site);
+    return site;
+  }
+
+  private static getContext(islandState: IslandState, civId: CivilizationId) {
+    const map = islandState.getIslandMap();
+    if (!map) {
+      throw new Error(localize('error.mapUnavailable'));
+    }
+    return {
+      map,
+      queue: islandState.getConstructionQueue(civId),
+      resources: islandState.getResources(civId),
+    };
+  }
+}
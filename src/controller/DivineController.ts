@@ -0,0 +1,213 @@
+import { GodState } from '../model/game/GodState';
+import { CivilizationState } from '../model/game/CivilizationState';
+import { DivinePowers } from '../model/god/DivinePowers';
+import { DivinePowerType } from '../model/god/types';
+import { BuildingType } from '../model/city/BuildingType';
+import { CityLevel } from '../model/city/CityLevel';
+import { BASIC_RESOURCES } from '../model/map/ResourceType';
+import { calculateInventoryCapacity } from '../model/game/InventoryCapacity';
+import { localize } from '../i18n';
+
+/**
+ * Résultat d'une ascension.
+ */
+export interface AscensionResult {
+  success: boolean;
+  message: string;
+  godPointsGained?: number;
+}
+
+/**
+ * Contrôleur de la couche divine : ascension et pouvoirs divins.
+ *
+ * Une civilisation arrivée à son apogée (prestige cumulé suffisant) peut s'élever :
+ * le prestige est converti en points divins et la civilisation est réinitialisée
+ * (points et carte Prestige compris). Les points divins achètent des pouvoirs
+ * persistants appliqués au début de chaque nouvelle partie.
+ */
+export class DivineController {
+  /** Prestige cumulé requis pour l'ascension. */
+  static readonly ASCENSION_PRESTIGE_THRESHOLD = 100;
+
+  /** Prestige cumulé nécessaire par point divin. */
+  static readonly PRESTIGE_PER_GOD_POINT = 50;
+
+  /** Ressources de départ ajoutées par niveau de StartingResources. */
+  static readonly STARTING_RESOURCES_PER_LEVEL = 10;
+
+  /**
+   * Niveau maximal d'un pouvoir divin.
+   * @param type - Le type de pouvoir
+   */
+  static getMaxLevel(type: DivinePowerType): number {
+    switch (type) {
+      case DivinePowerType.StartingResources:
+        return 5;
+      case DivinePowerType.StartingCityLevel:
+        // Colonie puis Ville
+        return 2;
+      case DivinePowerType.AutomationUnlock:
+        // Routes, puis outposts et villes, puis bâtiments de production
+        return 3;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Coût en points divins du prochain niveau d'un pouvoir.
+   * @param type - Le type de pouvoir
+   * @param currentLevel - Le niveau actuel du pouvoir
+   */
+  static getPowerCost(type: DivinePowerType, currentLevel: number): number {
+    switch (type) {
+      case DivinePowerType.StartingResources:
+        return currentLevel + 1;
+      case DivinePowerType.StartingCityLevel:
+        return 3 * (currentLevel + 1);
+      case DivinePowerType.AutomationUnlock:
+        return 2 * (currentLevel + 1);
+      default:
+        return Infinity;
+    }
+  }
+
+  /**
+   * Vérifie si un pouvoir divin peut être acheté.
+   * @param godState - L'état divin
+   * @param type - Le type de pouvoir
+   */
+  static canPurchasePower(godState: GodState, type: DivinePowerType): boolean {
+    const level = godState.getDivinePowers().getLevel(type);
+    if (level >= this.getMaxLevel(type)) {
+      return false;
+    }
+    return godState.getGodPoints() >= this.getPowerCost(type, level);
+  }
+
+  /**
+   * Achète le niveau suivant d'un pouvoir divin.
+   * @param godState - L'état divin
+   * @param type - Le type de pouvoir
+   * @returns true si l'achat a réussi
+   */
+  static purchasePower(godState: GodState, type: DivinePowerType): boolean {
+    if (!this.canPurchasePower(godState, type)) {
+      return false;
+    }
+    const powers = godState.getDivinePowers();
+    const cost = this.getPowerCost(type, powers.getLevel(type));
+    godState.setGodPoints(godState.getGodPoints() - cost);
+    powers.incrementLevel(type);
+    return true;
+  }
+
+  /**
+   * Vérifie si la civilisation a atteint son apogée et peut s'élever.
+   * @param civState - L'état de la civilisation
+   */
+  static canAscend(civState: CivilizationState): boolean {
+    return civState.getPrestigePointsTotal() >= this.ASCENSION_PRESTIGE_THRESHOLD;
+  }
+
+  /**
+   * Calcule les points divins obtenus par une ascension, sans l'effectuer.
+   * @param civState - L'état de la civilisation
+   */
+  static calculateAscensionGain(civState: CivilizationState): AscensionResult {
+    const prestige = civState.getPrestigePointsTotal();
+    if (!this.canAscend(civState)) {
+      return {
+        success: false,
+        message: localize('divine.reason.notEnoughPrestige', {
+          needed: String(this.ASCENSION_PRESTIGE_THRESHOLD - prestige),
+          current: String(prestige),
+        }),
+      };
+    }
+
+    const godPoints = Math.floor(prestige / this.PRESTIGE_PER_GOD_POINT);
+    return {
+      success: true,
+      message: localize('divine.ascended', { points: String(godPoints) }),
+      godPointsGained: godPoints,
+    };
+  }
+
+  /**
+   * Effectue l'ascension : ajoute les points divins, puis réinitialise le prestige,
+   * la carte Prestige et l'IslandState de la civilisation.
+   * L'appelant doit ensuite démarrer une nouvelle partie (MainGame.newGame).
+   * @param godState - L'état divin contenant la civilisation courante
+   */
+  static ascend(godState: GodState): AscensionResult {
+    const civState = godState.getCivilizationState();
+    const result = this.calculateAscensionGain(civState);
+    if (!result.success || result.godPointsGained === undefined) {
+      return result;
+    }
+
+    godState.addGodPoints(result.godPointsGained);
+    godState.incrementAscensionCount();
+
+    // Réinitialisation quasi-totale : seuls les acquis divins sont conservés
+    civState.setPrestigePointsTotal(0);
+    civState.setCivilizationPoints(0);
+    civState.setPrestigeMap(undefined);
+    civState.getIslandState().setIslandMap(null);
+
+    return result;
+  }
+
+  /**
+   * Applique les pouvoirs divins à une civilisation fraîchement créée (carte déjà générée).
+   * @param powers - Les pouvoirs divins acquis
+   * @param civState - La nouvelle civilisation
+   */
+  static applyDivinePowers(powers: DivinePowers, civState: CivilizationState): void {
+    const islandState = civState.getIslandState();
+    const map = islandState.getIslandMap();
+    if (!map) {
+      return;
+    }
+    const civId = islandState.getPlayerCivilizationId();
+
+    // Niveau de la ville initiale (le TownHall porte le niveau de la ville)
+    const cityLevel = Math.min(powers.getLevel(DivinePowerType.StartingCityLevel), CityLevel.Town);
+    if (cityLevel > CityLevel.Outpost) {
+      for (const city of map.getCitiesByCivilization(civId)) {
+        if (city.hasBuilding(BuildingType.TownHall)) {
+          city.setBuildingLevel(BuildingType.TownHall, Math.max(city.level, cityLevel));
+        } else {
+          city.addBuildingWithLevel(BuildingType.TownHall, cityLevel);
+        }
+      }
+    }
+
+    // Ressources de base de départ (les outils ne viennent que de la Forge), dans la limite de la capacité d'inventaire
+    const resourceAmount = powers.getLevel(DivinePowerType.StartingResources) * this.STARTING_RESOURCES_PER_LEVEL;
+    if (resourceAmount > 0) {
+      const capacity = calculateInventoryCapacity(map, civId);
+      const resources = islandState.getPlayerResources();
+      for (const resourceType of BASIC_RESOURCES) {
+        resources.addResourceCapped(resourceType, resourceAmount, capacity);
+      }
+    }
+
+    // Automatisations actives dès le départ
+    const automationLevel = powers.getLevel(DivinePowerType.AutomationUnlock);
+    const civilization = islandState.getCivilization(civId);
+    if (automationLevel >= 1) {
+      civilization.setAutoRoadConstruction(true);
+    }
+    if (automationLevel >= 2) {
+      civilization.setAutoOutpostConstruction(true);
+      civilization.setAutoCityUpgrade(true);
+    }
+    if (automationLevel >= 3) {
+      civilization.setAutoProductionBuildingConstruction(true);
+    }
+
+    civState.updateCivilizationPoints();
+  }
+}
@@ -0,0 +1,221 @@
+import { IslandState } from '../model/game/IslandState';
+import { IslandMap } from '../model/map/IslandMap';
+import { CivilizationId } from '../model/map/CivilizationId';
+import { City } from '../model/city/City';
+import { Building } from '../model/city/Building';
+import { BuildingType } from '../model/city/BuildingType';
+import { HexType } from '../model/map/HexType';
+import { HexCoord } from '../model/hex/HexCoord';
+import { Vertex } from '../model/hex/Vertex';
+import { ResourceType, BASIC_RESOURCES } from '../model/map/ResourceType';
+import { PlayerResources } from '../model/game/PlayerResources';
+import { calculateInventoryCapacity } from '../model/game/InventoryCapacity';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { GameEventBus, GameEventType } from './GameEventBus';
+import { SeededRNG } from './util/SeededRNG';
+
+/**
+ * Nature d'une trouvaille exhumée par un chantier de fouilles.
+ */
+export enum ExcavationFind {
+  /** Une réserve d'une ressource de base */
+  Resources = 'Resources',
+  /** Des outils */
+  Tools = 'Tools',
+  /** Une relique : 1 point de civilisation jusqu'au prochain prestige (nombre limité par chantier) */
+  Relic = 'Relic',
+}
+
+/**
+ * Résultat d'une fouille.
+ */
+export interface ExcavationResult {
+  /** La ville du chantier de fouilles */
+  cityVertex: Vertex;
+  /** Le désert fouillé (pour l'animation) */
+  hexCoord: HexCoord;
+  /** La nature de la trouvaille */
+  find: ExcavationFind;
+  /** La ressource exhumée, ou null pour une relique */
+  resourceType: ResourceType | null;
+  /** Quantité réellement ajoutée à l'inventaire (1 pour une relique) */
+  amount: number;
+}
+
+/**
+ * Contrôleur des chantiers de fouilles.
+ *
+ * Un chantier de fouilles se construit à côté d'un désert et y exhume une trouvaille à chaque cycle :
+ * le plus souvent des ressources de base, parfois des outils, plus rarement une relique.
+ * Les reliques sont conservées par le bâtiment et comptent dans les points de civilisation
+ * (donc dans le gain du prochain prestige), puis disparaissent avec l'île. Un chantier ne peut en
+ * exhumer que MAX_RELICS_PER_LEVEL par niveau : au-delà, les reliques tirées deviennent des ressources.
+ * Le tirage est seedé par le désert et le temps de jeu : une même partie simulée donne les mêmes trouvailles.
+ */
+export class ExcavationController {
+  /** Intervalle de base entre deux fouilles (en secondes). */
+  static readonly EXCAVATION_INTERVAL_SECONDS = 60.0;
+
+  /** Facteur de réduction de l'intervalle par niveau (0.8 = -20% par niveau). */
+  private static readonly LEVEL_TIME_REDUCTION_FACTOR = 0.8;
+
+  /** Ressources exhumées par niveau du chantier. */
+  static readonly RESOURCES_PER_LEVEL = 5;
+
+  /** Outils exhumés par niveau du chantier. */
+  static readonly TOOLS_PER_LEVEL = 1;
+
+  /** Reliques exhumables par niveau du chantier. */
+  static readonly MAX_RELICS_PER_LEVEL = 2;
+
+  /** Probabilité de chaque trouvaille (somme = 1). */
+  private static readonly FIND_CHANCES: ReadonlyArray<[ExcavationFind, number]> = [
+    [ExcavationFind.Resources, 0.6],
+    [ExcavationFind.Tools, 0.25],
+    [ExcavationFind.Relic, 0.15],
+  ];
+
+  /**
+   * Calcule l'intervalle entre deux fouilles d'un chantier.
+   * @param excavationLevel - Le niveau du chantier de fouilles
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @returns L'intervalle en secondes
+   */
+  static getExcavationInterval(excavationLevel: number, modifiers: GameModifiers = GameModifiers.NONE): number {
+    const interval = this.EXCAVATION_INTERVAL_SECONDS * Math.pow(this.LEVEL_TIME_REDUCTION_FACTOR, excavationLevel - 1);
+    return modifiers.applyToProductionInterval(interval);
+  }
+
+  /**
+   * Nombre maximal de reliques conservées par un chantier de fouilles.
+   * @param excavationLevel - Le niveau du chantier de fouilles
+   */
+  static getMaxRelics(excavationLevel: number): number {
+    return this.MAX_RELICS_PER_LEVEL * excavationLevel;
+  }
+
+  /**
+   * Fait fouiller les chantiers du joueur dont l'intervalle est écoulé.
+   * Comme pour les bâtiments de production, un chantier ne fouille pas à sa construction
+   * et rattrape tous les cycles écoulés depuis sa dernière fouille.
+   * @param islandState - L'état de l'île (carte, horloge et ressources)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @returns Les trouvailles exhumées
+   */
+  static processExcavations(
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): ExcavationResult[] {
+    const map = islandState.getIslandMap();
+    if (!map) {
+      return [];
+    }
+    const civId = islandState.getPlayerCivilizationId();
+    const resources = islandState.getPlayerResources();
+    const currentTime = islandState.getGameClock().getCurrentTime();
+
+    const results: ExcavationResult[] = [];
+    for (const city of map.getCitiesByCivilization(civId)) {
+      const excavation = city.getBuilding(BuildingType.Excavation);
+      const desertHex = this.getDesertHex(city, map);
+      if (!excavation || !desertHex) {
+        continue;
+      }
+      const lastProductionTime = excavation.getProductionTimeSeconds();
+      if (lastProductionTime === undefined) {
+        excavation.setProductionTimeSeconds(currentTime);
+        continue;
+      }
+      const interval = this.getExcavationInterval(excavation.level, modifiers);
+      let excavationTime = lastProductionTime;
+      while (currentTime - excavationTime >= interval) {
+        excavationTime += interval;
+        const result = this.excavate(city, excavation, desertHex, civId, map, resources, modifiers, excavationTime);
+        if (result) {
+          results.push(result);
+        }
+      }
+      excavation.updateProductionTimeSeconds(excavationTime);
+    }
+
+    if (results.some(result => result.resourceType !== null)) {
+      GameEventBus.emit(GameEventType.ResourceChanged, { civId, resources });
+    }
+    return results;
+  }
+
+  /**
+   * Exhume une trouvaille pour un cycle du chantier de fouilles.
+   * Le tirage est seedé par le désert fouillé et le temps du cycle : une même partie donne les mêmes trouvailles.
+   * @returns La trouvaille, ou null si l'inventaire est plein
+   */
+  private static excavate(
+    city: City,
+    excavation: Building,
+    desertHex: HexCoord,
+    civId: CivilizationId,
+    map: IslandMap,
+    resources: PlayerResources,
+    modifiers: GameModifiers,
+    excavationTime: number
+  ): ExcavationResult | null {
+    const rng = new SeededRNG(Math.round(excavationTime * 1000) + desertHex.q * 7919 + desertHex.r * 104729);
+    // Le premier tirage d'un LCG varie peu avec la seed : l'écarter
+    rng.next();
+    let find = this.drawFind(rng.next());
+    if (find === ExcavationFind.Relic && excavation.getRelicCount() >= this.getMaxRelics(excavation.level)) {
+      find = ExcavationFind.Resources;
+    }
+
+    if (find === ExcavationFind.Relic) {
+      excavation.setRelicCount(excavation.getRelicCount() + 1);
+      return { cityVertex: city.vertex, hexCoord: desertHex, find, resourceType: null, amount: 1 };
+    }
+
+    const resourceType = find === ExcavationFind.Tools
+      ? ResourceType.Tools
+      : BASIC_RESOURCES[rng.nextInt(0, BASIC_RESOURCES.length)];
+    const quantity = (find === ExcavationFind.Tools ? this.TOOLS_PER_LEVEL : this.RESOURCES_PER_LEVEL) * excavation.level;
+    const amount = resources.addResourceCapped(resourceType, quantity, calculateInventoryCapacity(map, civId, modifiers));
+    return amount > 0 ? { cityVertex: city.vertex, hexCoord: desertHex, find, resourceType, amount } : null;
+  }
+
+  /**
+   * Vérifie si un hexagone est fouillé par un chantier de fouilles du joueur.
+   * @param hexCoord - L'hexagone à vérifier
+   * @param civId - L'identifiant de la civilisation
+   * @param map - La carte de jeu
+   * @returns true si l'hexagone est un désert adjacent à une ville du joueur dotée d'un chantier de fouilles
+   */
+  static isHexExcavated(hexCoord: HexCoord, civId: CivilizationId, map: IslandMap): boolean {
+    if (map.getHexType(hexCoord) !== HexType.Desert) {
+      return false;
+    }
+    return map.getGrid().getVertices(hexCoord).some(vertex => {
+      const city = map.getCity(vertex);
+      return city !== undefined && city.owner.equals(civId) && city.hasBuilding(BuildingType.Excavation);
+    });
+  }
+
+  /**
+   * Retourne le premier désert adjacent à une ville, ou null.
+   */
+  private static getDesertHex(city: City, map: IslandMap): HexCoord | null {
+    return city.vertex.getHexes().find(hexCoord => map.getHexType(hexCoord) === HexType.Desert) ?? null;
+  }
+
+  /**
+   * Choisit une trouvaille selon FIND_CHANCES.
+   * @param roll - Un tirage dans [0, 1)
+   */
+  private static drawFind(roll: number): ExcavationFind {
+    let cumulative = 0;
+    for (const [find, chance] of this.FIND_CHANCES) {
+      cumulative += chance;
+      if (roll < cumulative) {
+        return find;
+      }
+    }
+    return ExcavationFind.Resources;
+  }
+}
@@ -0,0 +1,155 @@
+import { IslandState } from '../model/game/IslandState';
+import { ResourceHarvest } from '../model/game/ResourceHarvest';
+import { BuildingType } from '../model/city/BuildingType';
+import { HexType } from '../model/map/HexType';
+import { BlessingType, BLESSING_DEFINITIONS } from '../model/faith/types';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { City } from '../model/city/City';
+import { IslandMap } from '../model/map/IslandMap';
+import { CivilizationId } from '../model/map/CivilizationId';
+import { HexCoord } from '../model/hex/HexCoord';
+
+/**
+ * Contrôleur de la foi : production de foi par les temples et achat des bénédictions.
+ *
+ * Chaque Temple produit autant de foi que son niveau à chaque cycle, plus OASIS_FAITH_BONUS
+ * si sa ville borde un désert (oasis). Les bénédictions actives
+ * sont converties en effets de jeu par CivilizationState.getGameModifiers(), sauf
+ * SwiftConstruction qui est consommée par GameCoordinator lors d'une construction automatique.
+ */
+export class FaithController {
+  /** Intervalle entre deux productions de foi d'un Temple (en secondes). */
+  static readonly TEMPLE_FAITH_INTERVAL_SECONDS = 10.0;
+
+  /** Foi supplémentaire produite à chaque cycle par un Temple d'oasis (ville au bord d'un désert). */
+  static readonly OASIS_FAITH_BONUS = 1;
+
+  /**
+   * Foi produite par un Temple à chaque cycle.
+   * @param templeLevel - Le niveau du Temple
+   * @param oasis - Le Temple est dans une ville au bord d'un désert (optionnel)
+   */
+  static getFaithPerCycle(templeLevel: number, oasis: boolean = false): number {
+    return templeLevel + (oasis ? this.OASIS_FAITH_BONUS : 0);
+  }
+
+  /**
+   * Vérifie si une ville borde un désert : son Temple est alors un Temple d'oasis.
+   * @param city - La ville
+   * @param map - La carte de jeu
+   */
+  static isOasisCity(city: City, map: IslandMap): boolean {
+    return city.vertex.getHexes().some(hexCoord => map.getHexType(hexCoord) === HexType.Desert);
+  }
+
+  /**
+   * Vérifie si un hexagone est le désert d'un Temple d'oasis du joueur.
+   * @param hexCoord - L'hexagone à vérifier
+   * @param civId - L'identifiant de la civilisation
+   * @param map - La carte de jeu
+   * @returns true si l'hexagone est un désert adjacent à une ville du joueur dotée d'un Temple
+   */
+  static isOasisHex(hexCoord: HexCoord, civId: CivilizationId, map: IslandMap): boolean {
+    if (map.getHexType(hexCoord) !== HexType.Desert) {
+      return false;
+    }
+    return map.getGrid().getVertices(hexCoord).some(vertex => {
+      const city = map.getCity(vertex);
+      return city !== undefined && city.owner.equals(civId) && city.hasBuilding(BuildingType.Temple);
+    });
+  }
+
+  /**
+   * Calcule l'intervalle de production de foi d'un Temple.
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @returns L'intervalle en secondes
+   */
+  static getFaithInterval(modifiers: GameModifiers = GameModifiers.NONE): number {
+    return modifiers.applyToProductionInterval(this.TEMPLE_FAITH_INTERVAL_SECONDS);
+  }
+
+  /**
+   * Fait produire de la foi aux temples du joueur dont l'intervalle est écoulé et retire
+   * les bénédictions expirées. Comme pour les bibliothèques, un temple ne produit pas
+   * à sa construction et rattrape tous les cycles écoulés depuis sa dernière production.
+   * @param islandState - L'état de l'île (carte, horloge et foi)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @returns La foi produite
+   */
+  static processFaithProduction(
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): number {
+    const map = islandState.getIslandMap();
+    if (!map) {
+      return 0;
+    }
+    const currentTime = islandState.getGameClock().getCurrentTime();
+    const faith = islandState.getFaith();
+    faith.removeExpired(currentTime);
+
+    const interval = this.getFaithInterval(modifiers);
+    let produced = 0;
+    for (const city of map.getCitiesByCivilization(islandState.getPlayerCivilizationId())) {
+      const temple = city.getBuilding(BuildingType.Temple);
+      if (!temple) {
+        continue;
+      }
+      const lastProductionTime = temple.getProductionTimeSeconds();
+      if (lastProductionTime === undefined) {
+        temple.setProductionTimeSeconds(currentTime);
+        continue;
+      }
+      const cycles = Math.floor((currentTime - lastProductionTime) / interval);
+      if (cycles > 0) {
+        temple.updateProductionTimeSeconds(lastProductionTime + cycles * interval);
+        produced += cycles * this.getFaithPerCycle(temple.level, this.isOasisCity(city, map));
+      }
+    }
+
+    if (produced > 0) {
+      faith.addFaith(produced);
+    }
+    return produced;
+  }
+
+  /**
+   * Vérifie si une bénédiction peut être achetée : non active, foi suffisante et,
+   * pour BountifulHarvest, un type d'hexagone récoltable en cible.
+   * @param islandState - L'état de l'île
+   * @param type - Le type de bénédiction
+   * @param hexType - Le type d'hexagone ciblé (BountifulHarvest uniquement)
+   */
+  static canActivateBlessing(islandState: IslandState, type: BlessingType, hexType?: HexType): boolean {
+    const faith = islandState.getFaith();
+    if (faith.isActive(type, islandState.getGameClock().getCurrentTime())) {
+      return false;
+    }
+    if (type === BlessingType.BountifulHarvest
+      && (hexType === undefined || ResourceHarvest.hexTypeToResourceType(hexType) === null)) {
+      return false;
+    }
+    return faith.getFaith() >= BLESSING_DEFINITIONS[type].cost;
+  }
+
+  /**
+   * Achète une bénédiction en dépensant sa foi. Sa durée court à partir du temps de jeu actuel.
+   * @param islandState - L'état de l'île
+   * @param type - Le type de bénédiction
+   * @param hexType - Le type d'hexagone ciblé (BountifulHarvest uniquement)
+   * @returns true si la bénédiction a été activée
+   */
+  static activateBlessing(islandState: IslandState, type: BlessingType, hexType?: HexType): boolean {
+    if (!this.canActivateBlessing(islandState, type, hexType)) {
+      return false;
+    }
+    const faith = islandState.getFaith();
+    faith.spendFaith(BLESSING_DEFINITIONS[type].cost);
+    faith.activate(
+      type,
+      islandState.getGameClock().getCurrentTime(),
+      type === BlessingType.BountifulHarvest ? hexType : undefined
+    );
+    return true;
+  }
+}
@@ -4,12 +4,24 @@ import { Vertex } from '../model/hex/Vertex';
 import { Edge } from '../model/hex/Edge';
 import { HexCoord } from '../model/hex/HexCoord';
 import { ResourceType } from '../model/map/ResourceType';
-import { BuildingType, getResourceProductionBuildings } from '../model/city/BuildingType';
-import { OutpostController } from './OutpostController';
-import { RoadController } from './RoadController';
+import { BuildingType } from '../model/city/BuildingType';
+import { ConstructionKind, ConstructionSite } from '../model/game/ConstructionQueue';
 import { ResourceHarvestController } from './ResourceHarvestController';
 import { TradeController } from './TradeController';
-import { BuildingController } from './BuildingController';
+import { ConstructionController } from './ConstructionController';
+import { RivalController } from './RivalController';
+import { ResearchController } from './ResearchController';
+import { FaithController } from './FaithController';
+import { ExcavationController, ExcavationResult } from './ExcavationController';
+import { IslandEventController, IslandEventResult } from './IslandEventController';
+import { UndoController } from './UndoController';
+import { CommandController } from './CommandController';
+import { StatisticsController } from './StatisticsController';
+import { AchievementController } from './AchievementController';
+import { AchievementId } from '../model/achievements/types';
+import { PlayerAction, PlayerActionKind } from '../model/game/ActionHistory';
+import { BlessingType } from '../model/faith/types';
+import { HexType } from '../model/map/HexType';
 import { SaveManager } from '../application/SaveManager';
 import { localize } from '../i18n';
 
@@ -24,17 +36,36 @@ export class GameCoordinator {
     const islandMap = this.game.getIslandMap();
     const civId = this.game.getPlayerCivilizationId();
     const playerResources = this.game.getPlayerResources();
-    return { islandMap, civId, playerResources };
+    const modifiers = this.game.getGameModifiers();
+    return { islandMap, civId, playerResources, modifiers };
   }
 
-  buildOutpost(vertex: Vertex): { success: boolean } {
-    const { islandMap, civId, playerResources } = this.getContext();
+  /**
+   * Met un avant-poste en chantier.
+   * @param automated - Avant-poste lancé par une automatisation (non annulable, bénédiction SwiftConstruction)
+   */
+  buildOutpost(vertex: Vertex, automated: boolean = false): { success: boolean } {
+    const { islandMap, civId, modifiers } = this.getContext();
     if (!islandMap || civId == null) {
       return { success: false };
     }
+    const islandState = this.game.getIslandState();
+    // Refus silencieux pour les automatisations (appelées à chaque frame) : un seul avant-poste en chantier à la fois
+    if (automated && (islandState.getConstructionQueue().hasSiteOfKind(ConstructionKind.Outpost)
+      || !ConstructionController.canStartOutpost(vertex, islandState, modifiers))) {
+      return { success: false };
+    }
     try {
-      OutpostController.buildOutpost(vertex, civId, islandMap, playerResources);
-      this.saveManager?.saveToLocal();
+      const instant = automated && this.isSwiftConstructionActive();
+      const site = ConstructionController.startOutpost(vertex, islandState, modifiers, instant);
+      if (instant) {
+        islandState.getFaith().consume(BlessingType.SwiftConstruction);
+      }
+      // Les chantiers automatisés sont sauvegardés par la sauvegarde automatique périodique
+      if (!automated) {
+        islandState.getActionHistory().record(UndoController.createConstructionAction(PlayerActionKind.Outpost, site, islandState));
+        this.saveManager?.saveToLocal();
+      }
       return { success: true };
     } catch (error) {
       console.error(localize('error.operationFailed', { op: 'buildOutpost' }), error);
@@ -42,14 +73,31 @@ export class GameCoordinator {
     }
   }
 
-  buildRoad(edge: Edge): { success: boolean } {
-    const { islandMap, civId, playerResources } = this.getContext();
+  /**
+   * Met une route en chantier.
+   * @param automated - Route lancée par une automatisation (non annulable, bénédiction SwiftConstruction)
+   */
+  buildRoad(edge: Edge, automated: boolean = false): { success: boolean } {
+    const { islandMap, civId, modifiers } = this.getContext();
     if (!islandMap || civId == null) {
       return { success: false };
     }
+    const islandState = this.game.getIslandState();
+    // Refus silencieux pour les automatisations (appelées à chaque frame) : une seule route en chantier à la fois
+    if (automated && (islandState.getConstructionQueue().hasSiteOfKind(ConstructionKind.Road)
+      || !ConstructionController.canStartRoad(edge, islandState, modifiers))) {
+      return { success: false };
+    }
     try {
-      RoadController.buildRoad(edge, civId, islandMap, playerResources);
-      this.saveManager?.saveToLocal();
+      const instant = automated && this.isSwiftConstructionActive();
+      const site = ConstructionController.startRoad(edge, islandState, modifiers, instant);
+      if (instant) {
+        islandState.getFaith().consume(BlessingType.SwiftConstruction);
+      }
+      if (!automated) {
+        islandState.getActionHistory().record(UndoController.createConstructionAction(PlayerActionKind.Road, site, islandState));
+        this.saveManager?.saveToLocal();
+      }
       return { success: true };
     } catch (error) {
       console.error(localize('error.operationFailed', { op: 'buildRoad' }), error);
@@ -58,15 +106,17 @@ export class GameCoordinator {
   }
 
   harvestHex(hexCoord: HexCoord): { success: boolean; cityVertex?: Vertex } {
-    const { islandMap, civId, playerResources } = this.getContext();
+    const { islandMap, civId, playerResources, modifiers } = this.getContext();
     if (!islandMap || civId == null) {
       return { success: false };
     }
     try {
       const civ = this.game.getIslandState().getCivilization(civId);
       const resourceMultiplier = civ.getResourceGainMultiplier();
-      const result = ResourceHarvestController.harvest(hexCoord, civId, islandMap, playerResources, { resourceMultiplier });
+      const gameClock = this.game.getGameClock();
+      const result = ResourceHarvestController.harvest(hexCoord, civId, islandMap, playerResources, { gameClock, resourceMultiplier, modifiers });
       if (result.success) {
+        StatisticsController.recordHarvest(this.game.getIslandState(), result);
         this.saveManager?.saveToLocal();
       }
       return { success: result.success, cityVertex: result.cityVertex! };
@@ -76,13 +126,47 @@ export class GameCoordinator {
     }
   }
 
+  /**
+   * Récolte tous les hexagones prêts autour d'une ville, avec une seule sauvegarde.
+   * @returns Les hexagones récoltés et la ville qui a permis chaque récolte
+   */
+  harvestAround(vertex: Vertex): { success: boolean; harvested: { hexCoord: HexCoord; cityVertex: Vertex }[] } {
+    const { islandMap, civId, playerResources, modifiers } = this.getContext();
+    if (!islandMap || civId == null) {
+      return { success: false, harvested: [] };
+    }
+    const harvested: { hexCoord: HexCoord; cityVertex: Vertex }[] = [];
+    try {
+      const islandState = this.game.getIslandState();
+      const resourceMultiplier = islandState.getCivilization(civId).getResourceGainMultiplier();
+      const gameClock = islandState.getGameClock();
+      for (const hexCoord of CommandController.getReadyHarvestHexes(vertex, islandMap, civId, gameClock.getCurrentTime(), modifiers)) {
+        const result = ResourceHarvestController.harvest(hexCoord, civId, islandMap, playerResources, { gameClock, resourceMultiplier, modifiers });
+        StatisticsController.recordHarvest(islandState, result);
+        if (result.success && result.cityVertex) {
+          harvested.push({ hexCoord, cityVertex: result.cityVertex });
+        }
+      }
+      if (harvested.length > 0) {
+        this.saveManager?.saveToLocal();
+      }
+      return { success: harvested.length > 0, harvested };
+    } catch (error) {
+      console.error(localize('error.operationFailed', { op: 'harvestAround' }), error);
+      return { success: harvested.length > 0, harvested };
+    }
+  }
+
   performBatchTrade(offered: Map<ResourceType, number>, requested: Map<ResourceType, number>): { success: boolean } {
-    const { islandMap, civId, playerResources } = this.getContext();
+    const { islandMap, civId, playerResources, modifiers } = this.getContext();
     if (!islandMap || civId == null) {
       return { success: false };
     }
     try {
-      TradeController.performBatchTrade(offered, requested, civId, islandMap, playerResources);
+      const before = playerResources.getAllResources();
+      TradeController.performBatchTrade(offered, requested, civId, islandMap, playerResources, modifiers);
+      const islandState = this.game.getIslandState();
+      islandState.getActionHistory().record(UndoController.createTradeAction(offered, requested, before, islandState));
       this.saveManager?.saveToLocal();
       return { success: true };
     } catch (error) {
@@ -91,20 +175,32 @@ export class GameCoordinator {
     }
   }
 
-  buildBuilding(buildingType: BuildingType, city: any, vertex: Vertex): { success: boolean } {
-    const { islandMap, civId, playerResources } = this.getContext();
+  /**
+   * Met un bâtiment en chantier.
+   * @param automated - Construction lancée par une automatisation (bénédiction SwiftConstruction)
+   */
+  buildBuilding(buildingType: BuildingType, city: any, vertex: Vertex, automated: boolean = false): { success: boolean } {
+    const { islandMap, modifiers } = this.getContext();
     if (!islandMap) {
       return { success: false };
     }
+    const islandState = this.game.getIslandState();
+    // Chantier déjà en cours ou limite atteinte : refus silencieux (appelé à chaque frame par les automatisations)
+    if (!ConstructionController.canStartBuilding(buildingType, city, islandState, modifiers)) {
+      return { success: false };
+    }
     try {
-      BuildingController.buildBuilding(buildingType, city, islandMap, vertex, playerResources);
-      // If resource building, initialize production time
-      const resourceBuildings = getResourceProductionBuildings();
-      if (resourceBuildings.includes(buildingType)) {
-        const currentTime = this.game.getGameClock().getCurrentTime();
-        city.getBuilding(buildingType)?.setProductionTimeSeconds(currentTime);
+      // Le temps de production des bâtiments de ressources est initialisé à la fin du chantier
+      const instant = automated && this.isSwiftConstructionActive();
+      const site = ConstructionController.startBuilding(buildingType, city, islandState, modifiers, instant);
+      if (instant) {
+        islandState.getFaith().consume(BlessingType.SwiftConstruction);
+      }
+      // Seules les actions du joueur sont annulables et sauvegardées aussitôt, pas celles des automatisations
+      if (!automated) {
+        islandState.getActionHistory().record(UndoController.createConstructionAction(PlayerActionKind.Building, site, islandState));
+        this.saveManager?.saveToLocal();
       }
-      this.saveManager?.saveToLocal();
       return { success: true };
     } catch (error) {
       console.error(localize('error.operationFailed', { op: 'buildBuilding' }), error);
@@ -112,20 +208,220 @@ export class GameCoordinator {
     }
   }
 
-  upgradeBuilding(buildingType: BuildingType, city: any): { success: boolean } {
-    const { islandMap, civId, playerResources } = this.getContext();
+  /**
+   * Met un bâtiment en chantier d'amélioration.
+   * @param automated - Amélioration lancée par une automatisation (bénédiction SwiftConstruction)
+   */
+  upgradeBuilding(buildingType: BuildingType, city: any, automated: boolean = false): { success: boolean } {
+    const { islandMap, modifiers } = this.getContext();
     if (!islandMap) {
       return { success: false };
     }
+    const islandState = this.game.getIslandState();
+    // Amélioration déjà en cours : refus silencieux (appelé à chaque frame par les automatisations)
+    if (!ConstructionController.canStartUpgrade(buildingType, city, islandState, modifiers)) {
+      return { success: false };
+    }
     try {
-      BuildingController.upgradeBuilding(buildingType, city, islandMap, playerResources);
-      this.saveManager?.saveToLocal();
+      const instant = automated && this.isSwiftConstructionActive();
+      const site = ConstructionController.startUpgrade(buildingType, city, islandState, modifiers, instant);
+      if (instant) {
+        islandState.getFaith().consume(BlessingType.SwiftConstruction);
+      }
+      if (!automated) {
+        islandState.getActionHistory().record(UndoController.createConstructionAction(PlayerActionKind.BuildingUpgrade, site, islandState));
+        this.saveManager?.saveToLocal();
+      }
       return { success: true };
     } catch (error) {
       console.error(localize('error.operationFailed', { op: 'upgradeBuilding' }), error);
       return { success: false };
     }
   }
+
+  /**
+   * Achève les chantiers terminés (temps de jeu atteint) et les place sur la carte.
+   * @returns Les chantiers achevés
+   */
+  processConstructions(): ConstructionSite[] {
+    if (!this.game.getIslandMap()) {
+      return [];
+    }
+    const islandState = this.game.getIslandState();
+    const completed = ConstructionController.processConstructions(islandState, this.game.getGameModifiers());
+    StatisticsController.recordCompletedConstructions(islandState, completed);
+    if (completed.length > 0) {
+      this.saveManager?.saveToLocal();
+    }
+    return completed;
+  }
+
+  /**
+   * Fait agir les civilisations rivales dont le délai d'action est écoulé.
+   */
+  processRivals(): void {
+    if (!this.game.getIslandMap()) {
+      return;
+    }
+    RivalController.processRivals(this.game.getIslandState());
+  }
+
+  /**
+   * Fait produire de la connaissance aux bibliothèques du joueur.
+   * @returns La connaissance produite
+   */
+  processResearch(): number {
+    if (!this.game.getIslandMap()) {
+      return 0;
+    }
+    return ResearchController.processKnowledgeProduction(this.game.getController().getCivilizationState());
+  }
+
+  /**
+   * Fait produire de la foi aux temples du joueur et retire les bénédictions expirées.
+   * @returns La foi produite
+   */
+  processFaith(): number {
+    if (!this.game.getIslandMap()) {
+      return 0;
+    }
+    return FaithController.processFaithProduction(this.game.getIslandState(), this.game.getGameModifiers());
+  }
+
+  /**
+   * Fait fouiller les chantiers de fouilles du joueur.
+   * @returns Les trouvailles exhumées
+   */
+  processExcavations(): ExcavationResult[] {
+    if (!this.game.getIslandMap()) {
+      return [];
+    }
+    return ExcavationController.processExcavations(this.game.getIslandState(), this.game.getGameModifiers());
+  }
+
+  /**
+   * Fait avancer les événements aléatoires de l'île (expiration et tirage).
+   * @returns L'événement déclenché, ou null
+   */
+  processEvents(): IslandEventResult | null {
+    if (!this.game.getIslandMap()) {
+      return null;
+    }
+    const result = IslandEventController.processEvents(this.game.getIslandState());
+    if (result) {
+      this.saveManager?.saveToLocal();
+    }
+    return result;
+  }
+
+  /**
+   * Échantillonne les statistiques de l'île (historique des revenus et niveaux de ville atteints).
+   * @returns true si un échantillon a été ajouté à l'historique
+   */
+  processStatistics(): boolean {
+    if (!this.game.getIslandMap()) {
+      return false;
+    }
+    return StatisticsController.processStatistics(this.game.getIslandState());
+  }
+
+  /**
+   * Débloque les succès dont la condition est remplie.
+   * @returns Les succès débloqués
+   */
+  processAchievements(): AchievementId[] {
+    if (!this.game.getIslandMap()) {
+      return [];
+    }
+    const unlocked = AchievementController.checkAchievements(this.game.getAchievements(), this.game.getController().getGodState());
+    if (unlocked.length > 0) {
+      this.saveManager?.saveToLocal();
+    }
+    return unlocked;
+  }
+
+  /**
+   * Accepte l'offre du marchand itinérant présent sur l'île.
+   */
+  acceptTraderOffer(): { success: boolean } {
+    if (!this.game.getIslandMap()) {
+      return { success: false };
+    }
+    const islandState = this.game.getIslandState();
+    if (!IslandEventController.acceptTraderOffer(islandState, this.game.getGameModifiers())) {
+      return { success: false };
+    }
+    this.saveManager?.saveToLocal();
+    return { success: true };
+  }
+
+  /**
+   * Achète une bénédiction avec la foi des temples.
+   * @param hexType - Le type d'hexagone ciblé (BountifulHarvest uniquement)
+   */
+  activateBlessing(type: BlessingType, hexType?: HexType): { success: boolean } {
+    if (!this.game.getIslandMap()) {
+      return { success: false };
+    }
+    if (!FaithController.activateBlessing(this.game.getIslandState(), type, hexType)) {
+      return { success: false };
+    }
+    this.saveManager?.saveToLocal();
+    return { success: true };
+  }
+
+  /**
+   * Annule la dernière action du joueur (chantier ou échange) et rembourse son coût.
+   * @returns L'action annulée en cas de succès
+   */
+  undo(): { success: boolean; action?: PlayerAction } {
+    if (!this.game.getIslandMap()) {
+      return { success: false };
+    }
+    try {
+      const action = UndoController.undo(this.game.getIslandState(), this.game.getGameModifiers());
+      // Une construction retirée de la carte ne compte plus dans les points de civilisation
+      this.game.getController().getCivilizationState().updateCivilizationPoints();
+      this.saveManager?.saveToLocal();
+      return { success: true, action };
+    } catch (error) {
+      console.error(localize('error.operationFailed', { op: 'undo' }), error);
+      return { success: false };
+    }
+  }
+
+  /**
+   * Rétablit la dernière action annulée.
+   * @returns L'action rejouée en cas de succès
+   */
+  redo(): { success: boolean; action?: PlayerAction } {
+    if (!this.game.getIslandMap()) {
+      return { success: false };
+    }
+    try {
+      const action = UndoController.redo(this.game.getIslandState(), this.game.getGameModifiers());
+      this.saveManager?.saveToLocal();
+      return { success: true, action };
+    } catch (error) {
+      console.error(localize('error.operationFailed', { op: 'redo' }), error);
+      return { success: false };
+    }
+  }
+
+  /**
+   * Indique pourquoi la dernière action ne peut pas être annulée (null si elle peut l'être).
+   */
+  getUndoBlocker(): string | null {
+    if (!this.game.getIslandMap()) {
+      return localize('error.mapUnavailable');
+    }
+    return UndoController.getUndoBlocker(this.game.getIslandState(), this.game.getGameModifiers());
+  }
+
+  private isSwiftConstructionActive(): boolean {
+    const islandState = this.game.getIslandState();
+    return islandState.getFaith().isActive(BlessingType.SwiftConstruction, islandState.getGameClock().getCurrentTime());
+  }
 }
 
 export default GameCoordinator;
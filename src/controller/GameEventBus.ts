@@ -0,0 +1,132 @@
+import { CivilizationId } from '../model/map/CivilizationId';
+import { ResourceType } from '../model/map/ResourceType';
+import { PlayerResources } from '../model/game/PlayerResources';
+import { Edge } from '../model/hex/Edge';
+import { Vertex } from '../model/hex/Vertex';
+import { BuildingType } from '../model/city/BuildingType';
+import { CityLevel } from '../model/city/CityLevel';
+import { ConstructionSite } from '../model/game/ConstructionQueue';
+import { localize } from '../i18n';
+
+/**
+ * Événements du domaine émis par les contrôleurs lorsque l'état de jeu change.
+ */
+export enum GameEventType {
+  /** Les ressources d'une civilisation ont changé */
+  ResourceChanged = 'ResourceChanged',
+  /** Une route a été posée sur la carte */
+  RoadBuilt = 'RoadBuilt',
+  /** Un avant-poste a été fondé */
+  OutpostBuilt = 'OutpostBuilt',
+  /** Une ville a changé de niveau (amélioration de l'hôtel de ville) */
+  CityUpgraded = 'CityUpgraded',
+  /** Un bâtiment a été construit ou amélioré */
+  BuildingBuilt = 'BuildingBuilt',
+  /** Un échange a été effectué (commerce, marchand itinérant ou commerce automatique) */
+  TradePerformed = 'TradePerformed',
+  /** Une automatisation a agi */
+  AutomationAction = 'AutomationAction',
+  /** Le prestige a été activé */
+  PrestigeActivated = 'PrestigeActivated',
+  /** Une construction du joueur a été annulée (chantier retiré ou construction retirée de la carte) */
+  ConstructionUndone = 'ConstructionUndone',
+}
+
+/**
+ * Action effectuée par une automatisation.
+ */
+export enum AutomationActionKind {
+  Road = 'Road',
+  Outpost = 'Outpost',
+  CityUpgrade = 'CityUpgrade',
+  Building = 'Building',
+}
+
+/**
+ * Données transmises avec chaque événement.
+ * Les contrôleurs étant partagés avec les rivaux, les événements portent la civilisation concernée.
+ */
+export interface GameEventPayloads {
+  [GameEventType.ResourceChanged]: { civId: CivilizationId; resources: PlayerResources };
+  [GameEventType.RoadBuilt]: { civId: CivilizationId; edge: Edge };
+  [GameEventType.OutpostBuilt]: { civId: CivilizationId; vertex: Vertex };
+  [GameEventType.CityUpgraded]: { civId: CivilizationId; vertex: Vertex; level: CityLevel };
+  [GameEventType.BuildingBuilt]: { civId: CivilizationId; vertex: Vertex; buildingType: BuildingType; level: number };
+  [GameEventType.TradePerformed]: {
+    civId: CivilizationId;
+    given: Map<ResourceType, number>;
+    received: Map<ResourceType, number>;
+    /** Commerce automatique d'un port (sans action du joueur) */
+    automatic: boolean;
+  };
+  [GameEventType.AutomationAction]: { civId: CivilizationId; kind: AutomationActionKind; vertex: Vertex };
+  [GameEventType.PrestigeActivated]: { civilizationPointsGained: number };
+  /** completed : la construction était achevée et a été retirée de la carte */
+  [GameEventType.ConstructionUndone]: { civId: CivilizationId; site: ConstructionSite; completed: boolean };
+}
+
+export type GameEventHandler<T extends GameEventType> = (payload: GameEventPayloads[T]) => void;
+
+/**
+ * Bus d'événements du domaine, typé par GameEventType.
+ *
+ * Les contrôleurs émettent après avoir modifié l'état ; les vues, les statistiques et les succès
+ * s'abonnent au lieu d'interroger l'état à chaque image. Comme les contrôleurs, le bus est statique.
+ * Les abonnés sont appelés de façon synchrone : ils doivent rester légers (marquer une vue à rafraîchir
+ * plutôt que la reconstruire) et ne font jamais échouer l'action qui a émis l'événement.
+ */
+export class GameEventBus {
+  private static handlers: Map<GameEventType, Set<GameEventHandler<any>>> = new Map();
+
+  /**
+   * Abonne un gestionnaire à un type d'événement.
+   * @param type - Le type d'événement
+   * @param handler - Le gestionnaire appelé à chaque émission
+   * @returns Une fonction qui désabonne le gestionnaire
+   */
+  static on<T extends GameEventType>(type: T, handler: GameEventHandler<T>): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    handlers.add(handler);
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * Désabonne un gestionnaire.
+   * @param type - Le type d'événement
+   * @param handler - Le gestionnaire à retirer
+   */
+  static off<T extends GameEventType>(type: T, handler: GameEventHandler<T>): void {
+    this.handlers.get(type)?.delete(handler);
+  }
+
+  /**
+   * Émet un événement vers tous les abonnés de son type.
+   * @param type - Le type d'événement
+   * @param payload - Les données de l'événement
+   */
+  static emit<T extends GameEventType>(type: T, payload: GameEventPayloads[T]): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) {
+      return;
+    }
+    // Copie : un gestionnaire peut se désabonner pendant l'émission
+    for (const handler of [...handlers]) {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(localize('error.eventHandlerFailed', { event: type }), error);
+      }
+    }
+  }
+
+  /**
+   * Retire tous les abonnements (nouvelle session de jeu ou tests).
+   */
+  static clear(): void {
+    this.handlers.clear();
+  }
+}
@@ -0,0 +1,259 @@
+import { IslandState } from '../model/game/IslandState';
+import { IslandMap } from '../model/map/IslandMap';
+import { CivilizationId } from '../model/map/CivilizationId';
+import { ResourceHarvest } from '../model/game/ResourceHarvest';
+import { calculateInventoryCapacity } from '../model/game/InventoryCapacity';
+import { BuildingType } from '../model/city/BuildingType';
+import { HexType } from '../model/map/HexType';
+import { ResourceType, BASIC_RESOURCES } from '../model/map/ResourceType';
+import { IslandEventType, ISLAND_EVENT_DEFINITIONS } from '../model/events/types';
+import { IslandEventState, ActiveIslandEvent, TraderOffer } from '../model/events/IslandEventState';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { SeededRNG } from './util/SeededRNG';
+import { GameEventBus, GameEventType } from './GameEventBus';
+
+/**
+ * Résultat d'un événement déclenché, pour la notification du joueur.
+ */
+export interface IslandEventResult {
+  type: IslandEventType;
+  /** L'événement actif créé (null pour un événement instantané) */
+  event: ActiveIslandEvent | null;
+  /** Ressource visée par un raid de bandits et quantité volée (0 si repoussé) */
+  raid: { resource: ResourceType; stolen: number } | null;
+}
+
+/**
+ * Contrôleur des événements aléatoires de l'île du joueur.
+ *
+ * Un tirage a lieu à intervalle aléatoire sur le GameClock. Les choix utilisent le générateur
+ * seedé de l'île, sauvegardé avec les événements actifs, pour rester déterministes d'une
+ * session à l'autre. Les effets des événements actifs (récoltes, ports bloqués) sont convertis
+ * par CivilizationState.getGameModifiers() ; le raid est résolu immédiatement.
+ */
+export class IslandEventController {
+  /** Délai minimal entre deux événements (en secondes). */
+  static readonly MIN_EVENT_INTERVAL_SECONDS = 240;
+  /** Délai maximal entre deux événements (en secondes). */
+  static readonly MAX_EVENT_INTERVAL_SECONDS = 480;
+  /** Stock de chaque ressource protégé des raids par niveau d'entrepôt. */
+  static readonly WAREHOUSE_RAID_PROTECTION_PER_LEVEL = 100;
+  /** Part du stock non protégé volée par un raid. */
+  static readonly RAID_SHARE = 0.25;
+  /** Quantité reçue lors d'un échange avec le marchand itinérant. */
+  static readonly TRADER_RECEIVE_AMOUNT = 5;
+
+  /**
+   * Initialise le générateur des événements d'une nouvelle île, à partir de la seed de la carte.
+   * @param islandState - L'état de l'île
+   * @param seed - La seed de la carte
+   */
+  static seedEvents(islandState: IslandState, seed: number): void {
+    islandState.getEvents().setRngState(IslandEventState.initialRngState(seed));
+  }
+
+  /**
+   * Retire les événements expirés et déclenche un événement si le délai est écoulé.
+   * Le premier appel ne fait que planifier le premier tirage. Au plus un événement par appel.
+   * @param islandState - L'état de l'île (carte, horloge, ressources et événements)
+   * @returns L'événement déclenché, ou null
+   */
+  static processEvents(islandState: IslandState): IslandEventResult | null {
+    const map = islandState.getIslandMap();
+    if (!map) {
+      return null;
+    }
+    const now = islandState.getGameClock().getCurrentTime();
+    const events = islandState.getEvents();
+    events.removeExpired(now);
+
+    const nextEventTime = events.getNextEventTime();
+    if (nextEventTime !== null && now < nextEventTime) {
+      return null;
+    }
+
+    const rng = new SeededRNG(events.getRngState());
+    const result = nextEventTime === null ? null : this.fireEvent(islandState, map, rng, now);
+    events.setNextEventTime(now + rng.nextInt(this.MIN_EVENT_INTERVAL_SECONDS, this.MAX_EVENT_INTERVAL_SECONDS + 1));
+    events.setRngState(rng.getState());
+    return result;
+  }
+
+  /**
+   * Stock de chaque ressource protégé des raids : somme des niveaux des entrepôts du joueur.
+   * @param map - La carte de jeu
+   * @param civId - L'identifiant de la civilisation
+   */
+  static getRaidProtection(map: IslandMap, civId: CivilizationId): number {
+    let levels = 0;
+    for (const city of map.getCitiesByCivilization(civId)) {
+      levels += city.getBuilding(BuildingType.Warehouse)?.level ?? 0;
+    }
+    return levels * this.WAREHOUSE_RAID_PROTECTION_PER_LEVEL;
+  }
+
+  /**
+   * Vérifie si l'offre du marchand itinérant peut être acceptée (marchand présent, ressources suffisantes).
+   * @param islandState - L'état de l'île
+   */
+  static canAcceptTraderOffer(islandState: IslandState): boolean {
+    const offer = this.getTraderOffer(islandState);
+    return offer !== null && islandState.getPlayerResources().hasEnough(offer.give, offer.giveAmount);
+  }
+
+  /**
+   * Accepte l'offre du marchand itinérant, qui repart ensuite.
+   * La ressource reçue est limitée par la capacité d'inventaire.
+   * @param islandState - L'état de l'île
+   * @param modifiers - Les modificateurs de jeu (optionnel, pour les bénédictions actives)
+   * @returns true si l'échange a été effectué
+   */
+  static acceptTraderOffer(
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): boolean {
+    const map = islandState.getIslandMap();
+    const offer = this.getTraderOffer(islandState);
+    if (!map || !offer || !this.canAcceptTraderOffer(islandState)) {
+      return false;
+    }
+    const civId = islandState.getPlayerCivilizationId();
+    const resources = islandState.getPlayerResources();
+    resources.removeResource(offer.give, offer.giveAmount);
+    const received = resources.addResourceCapped(
+      offer.receive,
+      offer.receiveAmount,
+      calculateInventoryCapacity(map, civId, modifiers)
+    );
+    islandState.getEvents().end(IslandEventType.WanderingTrader);
+    GameEventBus.emit(GameEventType.TradePerformed, {
+      civId,
+      given: new Map([[offer.give, offer.giveAmount]]),
+      received: new Map([[offer.receive, received]]),
+      automatic: false,
+    });
+    GameEventBus.emit(GameEventType.ResourceChanged, { civId, resources });
+    return true;
+  }
+
+  /**
+   * Retourne l'offre du marchand itinérant présent, ou null.
+   */
+  private static getTraderOffer(islandState: IslandState): TraderOffer | null {
+    const now = islandState.getGameClock().getCurrentTime();
+    return islandState.getEvents().getActive(IslandEventType.WanderingTrader, now)?.offer ?? null;
+  }
+
+  /**
+   * Tire un événement parmi ceux qui sont possibles (non actifs et ayant une cible), puis le résout.
+   */
+  private static fireEvent(islandState: IslandState, map: IslandMap, rng: SeededRNG, now: number): IslandEventResult | null {
+    const civId = islandState.getPlayerCivilizationId();
+    const events = islandState.getEvents();
+    const harvestHexTypes = this.getHarvestableHexTypes(map, civId);
+    const seaportCities = map.getCitiesByCivilization(civId).filter(city => city.hasBuilding(BuildingType.Seaport));
+
+    const candidates = Object.values(IslandEventType).filter(type => {
+      if (events.getActive(type, now)) {
+        return false;
+      }
+      switch (type) {
+        case IslandEventType.AbundantHarvest:
+          return harvestHexTypes.length > 0;
+        case IslandEventType.Storm:
+          return seaportCities.length > 0;
+        default:
+          return true;
+      }
+    });
+    const type = this.pickWeighted(candidates, rng);
+    if (type === undefined) {
+      return null;
+    }
+
+    const endTime = now + ISLAND_EVENT_DEFINITIONS[type].durationSeconds;
+    switch (type) {
+      case IslandEventType.AbundantHarvest:
+        return this.startEvent(islandState, { type, endTime, hexType: rng.pick(harvestHexTypes)! });
+      case IslandEventType.Storm:
+        return this.startEvent(islandState, { type, endTime, seaport: rng.pick(seaportCities)!.vertex.hashCode() });
+      case IslandEventType.WanderingTrader:
+        return this.startEvent(islandState, { type, endTime, offer: this.createTraderOffer(rng) });
+      case IslandEventType.BanditRaid:
+        return { type, event: null, raid: this.resolveRaid(islandState, map, rng) };
+    }
+  }
+
+  private static startEvent(islandState: IslandState, event: ActiveIslandEvent): IslandEventResult {
+    islandState.getEvents().start(event);
+    return { type: event.type, event, raid: null };
+  }
+
+  /**
+   * Tire un type d'événement selon les poids des définitions.
+   */
+  private static pickWeighted(types: IslandEventType[], rng: SeededRNG): IslandEventType | undefined {
+    const totalWeight = types.reduce((sum, type) => sum + ISLAND_EVENT_DEFINITIONS[type].weight, 0);
+    if (totalWeight <= 0) {
+      return undefined;
+    }
+    let roll = rng.next() * totalWeight;
+    for (const type of types) {
+      roll -= ISLAND_EVENT_DEFINITIONS[type].weight;
+      if (roll < 0) {
+        return type;
+      }
+    }
+    return types[types.length - 1];
+  }
+
+  /**
+   * Types d'hexagone récoltables adjacents aux villes du joueur, dans l'ordre de HexType.
+   */
+  private static getHarvestableHexTypes(map: IslandMap, civId: CivilizationId): HexType[] {
+    const found = new Set<HexType>();
+    for (const city of map.getCitiesByCivilization(civId)) {
+      for (const hexCoord of city.vertex.getHexes()) {
+        const hexType = map.getHexType(hexCoord);
+        if (hexType !== undefined && ResourceHarvest.hexTypeToResourceType(hexType) !== null) {
+          found.add(hexType);
+        }
+      }
+    }
+    return Object.values(HexType).filter(hexType => found.has(hexType));
+  }
+
+  /**
+   * Propose une ressource de base contre une autre, à 1:1 ou 2:1.
+   */
+  private static createTraderOffer(rng: SeededRNG): TraderOffer {
+    const receive = rng.pick([...BASIC_RESOURCES])!;
+    const give = rng.pick(BASIC_RESOURCES.filter(resource => resource !== receive))!;
+    const rate = rng.nextInt(1, 3);
+    return {
+      give,
+      giveAmount: rate * this.TRADER_RECEIVE_AMOUNT,
+      receive,
+      receiveAmount: this.TRADER_RECEIVE_AMOUNT,
+    };
+  }
+
+  /**
+   * Vole une part du stock non protégé d'une ressource de base tirée au sort.
+   */
+  private static resolveRaid(
+    islandState: IslandState,
+    map: IslandMap,
+    rng: SeededRNG
+  ): { resource: ResourceType; stolen: number } {
+    const resource = rng.pick([...BASIC_RESOURCES])!;
+    const resources = islandState.getPlayerResources();
+    const exposed = resources.getResource(resource) - this.getRaidProtection(map, islandState.getPlayerCivilizationId());
+    const stolen = Math.max(0, Math.floor(exposed * this.RAID_SHARE));
+    if (stolen > 0) {
+      resources.removeResource(resource, stolen);
+      GameEventBus.emit(GameEventType.ResourceChanged, { civId: islandState.getPlayerCivilizationId(), resources });
+    }
+    return { resource, stolen };
+  }
+}
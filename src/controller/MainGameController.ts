@@ -4,6 +4,7 @@ import { PlayerResources } from '../model/game/PlayerResources';
 import { CivilizationId } from '../model/map/CivilizationId';
 import { GameClock } from '../model/game/GameClock';
 import { GodState } from '../model/game/GodState';
+import { GameModifiers } from '../model/game/GameModifiers';
 
 /**
  * Contrôleur de la partie : expose l'état du jeu et les mises à jour (temps).
@@ -55,6 +56,10 @@ export class MainGameController {
     return this.getIslandState().getSeed();
   }
 
+  getGameModifiers(): GameModifiers {
+    return this.getCivilizationState().getGameModifiers();
+  }
+
   updateGameTime(timeSeconds: number): void {
     this.getIslandState().getGameClock().updateTime(timeSeconds);
   }
@@ -6,6 +6,7 @@ import { Vertex } from '../model/hex/Vertex';
 import { IslandMap } from '../model/map/IslandMap';
 import { HexType } from '../model/map/HexType';
 import { CivilizationId } from '../model/map/CivilizationId';
+import { IslandShape } from '../model/map/MapSettings';
 import { SeededRNG } from './util/SeededRNG';
 import { localize } from '../i18n';
 
@@ -19,6 +20,20 @@ export interface MapGeneratorConfig {
   civilizations: CivilizationId[];
   /** Seed pour la génération déterministe */
   seed: number;
+  /** Forme de l'île (par défaut : Blob) */
+  shape?: IslandShape;
+}
+
+/**
+ * Règles de placement propres à une forme d'île.
+ */
+interface PlacementRules {
+  /** Coût d'un placement : seuls les candidats de coût minimal sont retenus */
+  cost?: (coord: HexCoord) => number;
+  /** Coordonnées interdites (lac, abords d'une autre île) */
+  isBlocked?: (coord: HexCoord) => boolean;
+  /** Coordonnées non terrestres comptant comme voisines pour la règle d'adjacence (rives du lac) */
+  isAnchor?: (coord: HexCoord) => boolean;
 }
 
 /**
@@ -28,6 +43,30 @@ export interface MapGeneratorConfig {
  * pour créer des IslandMap avec une structure et des ressources prédéterminées.
  */
 export class MapGenerator {
+  /** Nombre minimal d'hexagones terrestres par forme, pour garantir un vertex bois-argile-eau de départ. */
+  private static readonly MIN_LAND_HEXES: Readonly<Record<IslandShape, number>> = {
+    [IslandShape.Blob]: 1,
+    [IslandShape.Round]: 1,
+    [IslandShape.Elongated]: 1,
+    [IslandShape.Archipelago]: 6,
+    [IslandShape.Lake]: 6,
+  };
+
+  /** Taille à partir de laquelle l'archipel compte trois îles au lieu de deux. */
+  private static readonly ARCHIPELAGO_THREE_ISLANDS_MIN_HEXES = 18;
+
+  /** Taille à partir de laquelle le lac central s'étend sur 3 hexagones au lieu d'un. */
+  private static readonly LARGE_LAKE_MIN_HEXES = 30;
+
+  /** Pondération de l'axe nord-sud pour l'île étirée. */
+  private static readonly ELONGATION_FACTOR = 4;
+
+  /**
+   * Jetons de rendement, répétés autant que nécessaire puis mélangés (comme les jetons numérotés de Catane) :
+   * la moitié des hexagones au rendement standard, un tiers à 2, un sixième à 3.
+   */
+  private static readonly YIELD_TOKENS: readonly number[] = [1, 2, 1, 3, 1, 2];
+
   /**
    * Génère une nouvelle IslandMap selon la configuration fournie.
    * 
@@ -62,11 +101,19 @@ export class MapGenerator {
     // Assigner Water à tous les hexagones d'eau
     this.assignWaterResources(islandMap, terrestrialHexes);
 
+    // Tirer les rendements en dernier : la disposition de l'île reste identique pour une même seed
+    this.assignYields(islandMap, terrestrialHexes, rng, woodCoord, brickCoord);
+
     // Ajouter la ville initiale sur le vertex bois-argile-eau pour la première civilisation
     if (config.civilizations.length > 0) {
       this.addInitialCity(islandMap, woodCoord, brickCoord, config.civilizations[0]);
     }
 
+    // Les civilisations suivantes (rivales) démarrent le plus loin possible des villes existantes
+    for (const civId of config.civilizations.slice(1)) {
+      this.addRivalInitialCity(islandMap, civId);
+    }
+
     return islandMap;
   }
 
@@ -92,6 +139,18 @@ export class MapGenerator {
       throw new Error(localize('mapGenerator.error.atLeastOneHex'));
     }
 
+    // Chaque forme doit disposer d'assez de terre pour offrir un vertex bois-argile-eau
+    const shape = config.shape ?? IslandShape.Blob;
+    if (!Object.values(IslandShape).includes(shape)) {
+      throw new Error(localize('mapGenerator.error.unknownShape', { shape: String(shape) }));
+    }
+    if (totalHexes < MapGenerator.MIN_LAND_HEXES[shape]) {
+      throw new Error(localize('mapGenerator.error.shapeTooSmall', {
+        shape,
+        min: String(MapGenerator.MIN_LAND_HEXES[shape]),
+      }));
+    }
+
     // Vérifier que le seed est valide (n'importe quel nombre est valide)
     if (typeof config.seed !== 'number' || !isFinite(config.seed)) {
       throw new Error(localize('mapGenerator.error.seedMustBeFinite'));
@@ -99,52 +158,157 @@ export class MapGenerator {
   }
 
   /**
-   * Génère uniquement les hexagones terrestres selon les règles de placement.
+   * Génère uniquement les hexagones terrestres selon les règles de placement et la forme demandée.
    * - Les 2 premiers hexagones sont placés adjacents
    * - Chaque hexagone suivant doit être adjacent à au moins 2 hexagones déjà placés
    * - Après génération, trouve un vertex au bord (2 hexagones + 1 emplacement eau) pour Bois et Argile
    */
   private generateTerrestrialHexes(config: MapGeneratorConfig, rng: SeededRNG): { hexes: Hex[], woodCoord: HexCoord, brickCoord: HexCoord } {
     const totalHexes = this.calculateTotalHexes(config.resourceDistribution);
-    const placedCoords = new Set<string>();
+    const shape = config.shape ?? IslandShape.Blob;
+    const placedCoords = shape === IslandShape.Archipelago
+      ? this.growArchipelago(totalHexes, rng)
+      : this.growIsland(totalHexes, shape, rng);
+
     const hexes: Hex[] = [];
+    for (const coordHash of placedCoords) {
+      const [q, r] = coordHash.split(',').map(Number);
+      hexes.push(new Hex(new HexCoord(q, r)));
+    }
 
-    // Étape 1: Placer les 2 premiers hexagones adjacents
-    const firstCoord = new HexCoord(0, 0);
-    const secondCoord = firstCoord.neighbor(HexDirection.SW);
+    // Trouver un vertex au bord pour placer Bois et Argile
+    // Un vertex au bord = 2 hexagones terrestres adjacents qui ont un voisin commun
+    // qui n'est pas encore dans les hexagones terrestres (sera l'eau)
+    const borderVertex = this.findBorderVertex(placedCoords, rng);
+    if (!borderVertex) {
+      throw new Error(localize('mapGenerator.error.cannotFindBorderVertex'));
+    }
+
+    const { woodCoord, brickCoord } = borderVertex;
+
+    return { hexes, woodCoord, brickCoord };
+  }
+
+  /**
+   * Fait croître une île d'un seul tenant autour de l'origine.
+   * La forme oriente le choix parmi les placements valides (coût minimal), sans changer la règle d'adjacence.
+   */
+  private growIsland(totalHexes: number, shape: IslandShape, rng: SeededRNG): Set<string> {
+    const origin = new HexCoord(0, 0);
+    const placedCoords = new Set<string>();
+    let rules: PlacementRules = {};
+    let firstCoord = origin;
+    let secondCoord = origin.neighbor(HexDirection.SW);
+
+    if (shape === IslandShape.Lake) {
+      // Le lac occupe l'origine (trois hexagones sur les grandes îles, tous bordés de terre) ;
+      // il compte comme un voisin pour que la terre se referme en anneau autour de lui
+      const lake = totalHexes >= MapGenerator.LARGE_LAKE_MIN_HEXES
+        ? [origin, origin.neighbor(HexDirection.E), origin.neighbor(HexDirection.NE)]
+        : [origin];
+      const isLake = (coord: HexCoord) => lake.some(l => l.equals(coord));
+      rules = {
+        isBlocked: isLake,
+        isAnchor: isLake,
+        cost: (coord) => Math.min(...lake.map(l => coord.distanceTo(l))),
+      };
+      // Deux hexagones adjacents entre eux et au lac
+      firstCoord = origin.neighbor(HexDirection.W);
+    } else if (shape === IslandShape.Round) {
+      const start = [firstCoord, secondCoord];
+      rules = { cost: (coord) => coord.distanceTo(start[0]) + coord.distanceTo(start[1]) };
+    } else if (shape === IslandShape.Elongated) {
+      // Distance pondérée au centre des 2 premiers hexagones : l'axe nord-sud coûte plus cher
+      rules = {
+        cost: (coord) => Math.abs(coord.r + 0.5) * MapGenerator.ELONGATION_FACTOR + Math.abs(coord.q + coord.r / 2),
+      };
+    }
 
-    hexes.push(new Hex(firstCoord));
-    hexes.push(new Hex(secondCoord));
+    // Étape 1: Placer les 2 premiers hexagones adjacents
     placedCoords.add(firstCoord.hashCode());
     placedCoords.add(secondCoord.hashCode());
 
     // Étape 2: Placer les hexagones restants
-    while (hexes.length < totalHexes) {
-      const candidateCoord = this.findValidPlacement(placedCoords, rng);
+    this.growLand(placedCoords, placedCoords, totalHexes, rng, rules);
+    return placedCoords;
+  }
 
-      if (!candidateCoord) {
-        // Si aucun placement valide n'est trouvé, cela peut arriver si la distribution
-        // demande plus d'hexagones que possible avec les règles données
+  /**
+   * Fait croître plusieurs îles séparées par au moins un hexagone d'eau.
+   * La première île, autour de l'origine, reçoit les hexagones restants de la répartition.
+   */
+  private growArchipelago(totalHexes: number, rng: SeededRNG): Set<string> {
+    const islandCount = totalHexes >= MapGenerator.ARCHIPELAGO_THREE_ISLANDS_MIN_HEXES ? 3 : 2;
+    const islandSize = Math.floor(totalHexes / islandCount);
+    const landCoords = new Set<string>();
+
+    for (let island = 0; island < islandCount; island++) {
+      const targetSize = island === 0 ? totalHexes - islandSize * (islandCount - 1) : islandSize;
+      const islandCoords = new Set<string>();
+      // Une île ne peut pas toucher les autres : ses hexagones restent à distance 2 de toute autre terre
+      const touchesOtherIsland = (coord: HexCoord) => [coord, ...coord.neighbors()]
+        .some(c => landCoords.has(c.hashCode()) && !islandCoords.has(c.hashCode()));
+
+      let firstCoord: HexCoord | undefined = new HexCoord(0, 0);
+      if (island > 0) {
+        // Les voisins des voisins de la terre existante, hors terre et hors rivage
+        const seeds = new Map<string, HexCoord>();
+        for (const coordHash of landCoords) {
+          const [q, r] = coordHash.split(',').map(Number);
+          for (const neighbor of new HexCoord(q, r).neighbors()) {
+            for (const candidate of neighbor.neighbors()) {
+              if (!touchesOtherIsland(candidate) && candidate.neighbors().some(n => !touchesOtherIsland(n))) {
+                seeds.set(candidate.hashCode(), candidate);
+              }
+            }
+          }
+        }
+        firstCoord = rng.pick([...seeds.values()]);
+      }
+      const secondCoord = firstCoord?.neighbors().find(n => !touchesOtherIsland(n));
+      if (!firstCoord || !secondCoord) {
         throw new Error(
-          localize('mapGenerator.error.cannotPlaceAllHexes', { placed: String(hexes.length), total: String(totalHexes) })
+          localize('mapGenerator.error.cannotPlaceAllHexes', { placed: String(landCoords.size), total: String(totalHexes) })
         );
       }
 
-      hexes.push(new Hex(candidateCoord));
-      placedCoords.add(candidateCoord.hashCode());
+      for (const coord of [firstCoord, secondCoord]) {
+        islandCoords.add(coord.hashCode());
+        landCoords.add(coord.hashCode());
+      }
+      this.growLand(islandCoords, landCoords, targetSize, rng, { isBlocked: touchesOtherIsland });
     }
+    return landCoords;
+  }
 
-    // Étape 3: Trouver un vertex au bord pour placer Bois et Argile
-    // Un vertex au bord = 2 hexagones terrestres adjacents qui ont un voisin commun
-    // qui n'est pas encore dans les hexagones terrestres (sera l'eau)
-    const borderVertex = this.findBorderVertex(placedCoords, rng);
-    if (!borderVertex) {
-      throw new Error(localize('mapGenerator.error.cannotFindBorderVertex'));
-    }
+  /**
+   * Ajoute des hexagones à une île jusqu'à la taille demandée.
+   * @param islandCoords - Les hexagones de l'île en croissance (modifié)
+   * @param landCoords - Tous les hexagones terrestres de la carte (modifié, peut être islandCoords)
+   * @param targetSize - La taille visée pour l'île
+   * @throws Error si aucun placement valide n'est trouvé
+   */
+  private growLand(
+    islandCoords: Set<string>,
+    landCoords: Set<string>,
+    targetSize: number,
+    rng: SeededRNG,
+    rules: PlacementRules
+  ): void {
+    while (islandCoords.size < targetSize) {
+      const candidateCoord = this.findValidPlacement(islandCoords, rng, rules);
 
-    const { woodCoord, brickCoord } = borderVertex;
+      if (!candidateCoord) {
+        // Si aucun placement valide n'est trouvé, cela peut arriver si la distribution
+        // demande plus d'hexagones que possible avec les règles données
+        throw new Error(
+          localize('mapGenerator.error.cannotPlaceAllHexes', { placed: String(islandCoords.size), total: String(targetSize) })
+        );
+      }
 
-    return { hexes, woodCoord, brickCoord };
+      islandCoords.add(candidateCoord.hashCode());
+      landCoords.add(candidateCoord.hashCode());
+    }
   }
 
   /**
@@ -199,9 +363,11 @@ export class MapGenerator {
 
   /**
    * Trouve une coordonnée valide pour le prochain hexagone.
-   * Un placement est valide si le nouvel hexagone est adjacent à au moins 2 hexagones déjà placés.
+   * Un placement est valide si le nouvel hexagone est adjacent à au moins 2 hexagones déjà placés
+   * (ou ancres) et n'est pas interdit par la forme. Parmi les placements valides, seuls ceux
+   * de coût minimal sont retenus lorsque la forme définit un coût.
    */
-  private findValidPlacement(placedCoords: Set<string>, rng: SeededRNG): HexCoord | null {
+  private findValidPlacement(placedCoords: Set<string>, rng: SeededRNG, rules: PlacementRules = {}): HexCoord | null {
     // Collecter tous les candidats (voisins des hexagones placés)
     const candidateMap = new Map<string, HexCoord>();
 
@@ -214,8 +380,8 @@ export class MapGenerator {
         const neighbor = coord.neighbor(direction);
         const neighborHash = neighbor.hashCode();
 
-        // Si ce voisin n'est pas déjà placé, l'ajouter aux candidats
-        if (!placedCoords.has(neighborHash)) {
+        // Si ce voisin n'est pas déjà placé ni interdit, l'ajouter aux candidats
+        if (!placedCoords.has(neighborHash) && !rules.isBlocked?.(neighbor)) {
           candidateMap.set(neighborHash, neighbor);
         }
       }
@@ -228,7 +394,7 @@ export class MapGenerator {
       let adjacentCount = 0;
       for (const dir of ALL_HEX_DIRECTIONS) {
         const neighbor = candidate.neighbor(dir);
-        if (placedCoords.has(neighbor.hashCode())) {
+        if (placedCoords.has(neighbor.hashCode()) || rules.isAnchor?.(neighbor)) {
           adjacentCount++;
         }
       }
@@ -239,6 +405,13 @@ export class MapGenerator {
       }
     }
 
+    // Ne garder que les candidats de coût minimal (forme de l'île)
+    if (rules.cost && validCandidates.length > 0) {
+      const costs = validCandidates.map(candidate => rules.cost!(candidate));
+      const minCost = Math.min(...costs);
+      return rng.pick(validCandidates.filter((_, i) => costs[i] === minCost)) || null;
+    }
+
     // Choisir un candidat aléatoire
     return rng.pick(validCandidates) || null;
   }
@@ -358,6 +531,30 @@ export class MapGenerator {
     }
   }
 
+  /**
+   * Assigne un rendement à chaque hexagone de ressource, à partir d'une pile de jetons mélangée.
+   * Les hexagones Bois et Argile de la ville de départ gardent le rendement standard :
+   * le début de partie reste le même quelle que soit la seed.
+   */
+  private assignYields(
+    islandMap: IslandMap,
+    terrestrialHexes: Hex[],
+    rng: SeededRNG,
+    woodCoord: HexCoord,
+    brickCoord: HexCoord
+  ): void {
+    const resourceHexes = terrestrialHexes.filter(hex => {
+      const hexType = islandMap.getHexType(hex.coord);
+      return hexType !== HexType.Desert && hexType !== HexType.Water
+        && !hex.coord.equals(woodCoord) && !hex.coord.equals(brickCoord);
+    });
+
+    const tokens = resourceHexes.map((_, i) => MapGenerator.YIELD_TOKENS[i % MapGenerator.YIELD_TOKENS.length]);
+    rng.shuffle(tokens);
+
+    resourceHexes.forEach((hex, i) => islandMap.setHexYield(hex.coord, tokens[i]));
+  }
+
   /**
    * Assignë Water à tous les hexagones d'eau de la carte.
    */
@@ -463,4 +660,49 @@ export class MapGenerator {
     // Si on arrive ici, la ville n'a pas pu être créée
     console.error(localize('mapGenerator.error.initialCityFailed', { woodQ: String(woodCoord.q), woodR: String(woodCoord.r), brickQ: String(brickCoord.q), brickR: String(brickCoord.r) }));
   }
+
+  /**
+   * Ajoute la ville initiale d'une civilisation rivale.
+   * Choisit le sommet terrestre (3 hexagones hors eau, dont au moins 2 récoltables et un bois,
+   * nécessaire au premier marché) le plus éloigné des villes existantes, sans partager d'hexagone avec elles.
+   * Le choix ne consomme pas le générateur aléatoire : la carte du joueur reste identique
+   * pour une même seed, avec ou sans rivaux.
+   */
+  private addRivalInitialCity(islandMap: IslandMap, civId: CivilizationId): void {
+    const allVertices = islandMap.getGrid().getAllVertices();
+    const existingCityHexes = allVertices
+      .filter(vertex => islandMap.hasCity(vertex))
+      .flatMap(vertex => vertex.getHexes());
+
+    let bestVertex: Vertex | null = null;
+    let bestDistance = 0;
+    for (const vertex of allVertices) {
+      const hexes = vertex.getHexes();
+      const hexTypes = hexes.map(h => islandMap.getHexType(h));
+      if (hexTypes.some(type => type === undefined || type === HexType.Water)) {
+        continue;
+      }
+      if (hexTypes.filter(type => type !== HexType.Desert).length < 2 || !hexTypes.includes(HexType.Wood)) {
+        continue;
+      }
+
+      // Distance (en hexagones) à la ville existante la plus proche
+      let distance = Infinity;
+      for (const hex of hexes) {
+        for (const cityHex of existingCityHexes) {
+          distance = Math.min(distance, hex.distanceTo(cityHex));
+        }
+      }
+      if (distance > bestDistance) {
+        bestVertex = vertex;
+        bestDistance = distance;
+      }
+    }
+
+    if (!bestVertex) {
+      console.warn(localize('mapGenerator.error.rivalCityFailed', { civ: civId.toString() }));
+      return;
+    }
+    islandMap.addCity(bestVertex, civId);
+  }
 }
@@ -0,0 +1,172 @@
+import { MainGame } from '../application/MainGame';
+import { SimulationEngine } from '../application/SimulationEngine';
+import { IslandMap } from '../model/map/IslandMap';
+import { CivilizationId } from '../model/map/CivilizationId';
+import { ResourceType } from '../model/map/ResourceType';
+import { GameCoordinator } from './GameCoordinator';
+
+/**
+ * Options de la simulation hors-ligne.
+ */
+export interface OfflineProgressOptions {
+  /** Durée maximale simulée (en secondes). Par défaut: DEFAULT_MAX_OFFLINE_SECONDS. */
+  maxOfflineSeconds?: number;
+  /** Pas de simulation (en secondes, multiple de 0.1). Par défaut: DEFAULT_STEP_SECONDS. */
+  stepSeconds?: number;
+}
+
+/**
+ * Résumé de la progression effectuée pendant l'absence du joueur.
+ */
+export interface OfflineProgressSummary {
+  /** Temps réel écoulé depuis la dernière sauvegarde (en secondes) */
+  elapsedSeconds: number;
+  /** Temps effectivement simulé, après plafonnement (en secondes) */
+  simulatedSeconds: number;
+  /** Variation nette de chaque ressource (seules les variations non nulles sont présentes) */
+  resourcesGained: Map<ResourceType, number>;
+  /** Nombre de routes construites par les automatisations */
+  roadsBuilt: number;
+  /** Nombre d'outposts construits par les automatisations */
+  outpostsBuilt: number;
+  /** Nombre de bâtiments construits par les automatisations */
+  buildingsBuilt: number;
+  /** Nombre de niveaux de bâtiments gagnés par les automatisations */
+  buildingLevelsGained: number;
+}
+
+/**
+ * Instantané des constructions d'une civilisation, utilisé pour calculer le résumé.
+ */
+interface ConstructionSnapshot {
+  roads: number;
+  cities: number;
+  buildings: number;
+  buildingLevels: number;
+}
+
+/**
+ * Contrôleur pour rattraper la progression du jeu pendant l'absence du joueur.
+ *
+ * Au chargement d'une sauvegarde, le temps réel écoulé depuis la dernière sauvegarde
+ * est simulé par le SimulationEngine de la boucle de jeu, sans plafond de rattrapage et avec des ticks
+ * plus longs : les productions rattrapent tous leurs cycles écoulés à chaque tick, seuls les rivaux
+ * et les automatisations de la Guilde des batisseurs agissent moins souvent (au plus une fois par tick).
+ * Les plafonds d'inventaire sont respectés car la simulation est celle de la boucle de jeu.
+ */
+export class OfflineProgressController {
+  /**
+   * Durée maximale simulée par défaut (8 heures).
+   */
+  static readonly DEFAULT_MAX_OFFLINE_SECONDS = 8 * 60 * 60;
+
+  /**
+   * Durée d'absence minimale (en secondes) pour afficher un résumé au joueur.
+   */
+  static readonly MIN_SUMMARY_SECONDS = 60;
+
+  /**
+   * Pas de simulation par défaut (en secondes) : 8 heures d'absence donnent 14 400 ticks.
+   * Égal au délai d'action des rivaux les plus rapides, qui agissent donc au même rythme qu'en jeu.
+   */
+  static readonly DEFAULT_STEP_SECONDS = 2;
+
+  /**
+   * Calcule le temps réel écoulé (en secondes) depuis la dernière sauvegarde.
+   * @param lastSavedAt - Horodatage réel de la dernière sauvegarde (ms), ou null si inconnu
+   * @param now - Horodatage réel courant (ms)
+   * @returns Le temps écoulé en secondes (0 si inconnu ou si l'horloge système a reculé)
+   */
+  static computeElapsedSeconds(lastSavedAt: number | null, now: number): number {
+    if (lastSavedAt === null || !Number.isFinite(lastSavedAt)) {
+      return 0;
+    }
+    return Math.max(0, (now - lastSavedAt) / 1000);
+  }
+
+  /**
+   * Simule la progression du jeu pendant le temps écoulé.
+   * Avance le GameClock de la durée simulée, arrondie au pas inférieur.
+   *
+   * @param game - La partie chargée
+   * @param coordinator - Le coordinateur utilisé par les automatisations et pour achever les chantiers
+   * @param elapsedSeconds - Le temps réel écoulé (en secondes)
+   * @param options - Options de simulation (durée maximale, pas de simulation)
+   * @returns Le résumé de la progression effectuée
+   */
+  static simulate(
+    game: MainGame,
+    coordinator: GameCoordinator,
+    elapsedSeconds: number,
+    options: OfflineProgressOptions = {}
+  ): OfflineProgressSummary {
+    const map = game.getIslandMap();
+    const maxOfflineSeconds = options.maxOfflineSeconds ?? this.DEFAULT_MAX_OFFLINE_SECONDS;
+    const stepSeconds = options.stepSeconds ?? this.DEFAULT_STEP_SECONDS;
+    const civId = game.getPlayerCivilizationId();
+    const resources = game.getPlayerResources();
+
+    const resourcesBefore = resources.getAllResources();
+    const constructionsBefore = this.takeSnapshot(civId, map);
+
+    const engine = new SimulationEngine(game, coordinator, { tickSeconds: stepSeconds, maxCatchUpTicks: null });
+    // Le reste inférieur à un pas n'est pas simulé
+    const ticks = engine.advance(Math.max(0, Math.min(elapsedSeconds, maxOfflineSeconds))).ticks;
+    const simulatedSeconds = ticks * stepSeconds;
+
+    const resourcesGained = new Map<ResourceType, number>();
+    for (const [resourceType, amount] of resources.getAllResources()) {
+      const delta = amount - (resourcesBefore.get(resourceType) ?? 0);
+      if (delta !== 0) {
+        resourcesGained.set(resourceType, delta);
+      }
+    }
+
+    const constructionsAfter = this.takeSnapshot(civId, game.getIslandMap());
+    const buildingsBuilt = constructionsAfter.buildings - constructionsBefore.buildings;
+
+    return {
+      elapsedSeconds,
+      simulatedSeconds,
+      resourcesGained,
+      roadsBuilt: constructionsAfter.roads - constructionsBefore.roads,
+      outpostsBuilt: constructionsAfter.cities - constructionsBefore.cities,
+      buildingsBuilt,
+      // Un bâtiment neuf arrive au niveau 1 : on ne compte que les améliorations
+      buildingLevelsGained: constructionsAfter.buildingLevels - constructionsBefore.buildingLevels - buildingsBuilt,
+    };
+  }
+
+  /**
+   * Indique si le résumé mérite d'être affiché au joueur.
+   * @param summary - Le résumé de la progression hors-ligne
+   * @returns true si l'absence est assez longue pour afficher le résumé
+   */
+  static shouldShowSummary(summary: OfflineProgressSummary): boolean {
+    return summary.simulatedSeconds >= this.MIN_SUMMARY_SECONDS;
+  }
+
+  /**
+   * Compte les routes, villes, bâtiments et niveaux de bâtiments d'une civilisation (tout à 0 sans carte).
+   */
+  private static takeSnapshot(civId: CivilizationId, map: IslandMap | null): ConstructionSnapshot {
+    if (!map) {
+      return { roads: 0, cities: 0, buildings: 0, buildingLevels: 0 };
+    }
+    const cities = map.getCitiesByCivilization(civId);
+    let buildings = 0;
+    let buildingLevels = 0;
+    for (const city of cities) {
+      for (const buildingType of city.getBuildings()) {
+        buildings++;
+        buildingLevels += city.getBuildingLevel(buildingType) ?? 0;
+      }
+    }
+    return {
+      roads: map.getRoadsForCivilization(civId).length,
+      cities: cities.length,
+      buildings,
+      buildingLevels,
+    };
+  }
+}
@@ -4,6 +4,8 @@ import { CivilizationId } from '../model/map/CivilizationId';
 import { ResourceType } from '../model/map/ResourceType';
 import { PlayerResources } from '../model/game/PlayerResources';
 import { CityLevel } from '../model/city/CityLevel';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { GameEventBus, GameEventType } from './GameEventBus';
 
 /**
  * Contrôleur pour gérer la construction d'avant-postes.
@@ -75,26 +77,28 @@ export class OutpostController {
   /**
    * Calcule le coût de construction d'un avant-poste en fonction du nombre de villes.
    * @param cityCount - Le nombre de villes existantes sur la carte
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns Le coût sous forme de Map
    */
-  static getBuildableOutpostCost(cityCount: number): Map<ResourceType, number> {
+  static getBuildableOutpostCost(cityCount: number, modifiers: GameModifiers = GameModifiers.NONE): Map<ResourceType, number> {
     const cost = new Map<ResourceType, number>();
     
     for (const [resourceType, baseAmount] of this.BASE_COST.entries()) {
       cost.set(resourceType, baseAmount * cityCount);
     }
     
-    return cost;
+    return modifiers.applyToCost(cost);
   }
 
   /**
    * Vérifie si le joueur a assez de ressources pour construire un avant-poste.
    * @param resources - Les ressources du joueur
    * @param cityCount - Le nombre de villes existantes sur la carte
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns true si le joueur a assez de ressources
    */
-  static canAfford(resources: PlayerResources, cityCount: number): boolean {
-    const cost = this.getBuildableOutpostCost(cityCount);
+  static canAfford(resources: PlayerResources, cityCount: number, modifiers: GameModifiers = GameModifiers.NONE): boolean {
+    const cost = this.getBuildableOutpostCost(cityCount, modifiers);
     return resources.canAfford(cost);
   }
 
@@ -104,13 +108,15 @@ export class OutpostController {
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @throws Error si la construction n'est pas possible ou si les ressources sont insuffisantes
    */
   static buildOutpost(
     vertex: Vertex,
     civId: CivilizationId,
     map: IslandMap,
-    resources: PlayerResources
+    resources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): void {
     // Vérifier que la construction est possible
     if (!this.canBuildOutpost(vertex, civId, map)) {
@@ -120,12 +126,12 @@ export class OutpostController {
       );
     }
 
-    // Calculer le coût en fonction du nombre de villes
-    const cityCount = map.getCityCount();
-    const cost = this.getBuildableOutpostCost(cityCount);
+    // Calculer le coût en fonction du nombre de villes de la civilisation (les rivaux ne comptent pas)
+    const cityCount = map.getCitiesByCivilization(civId).length;
+    const cost = this.getBuildableOutpostCost(cityCount, modifiers);
 
     // Vérifier que le joueur a assez de ressources
-    if (!this.canAfford(resources, cityCount)) {
+    if (!this.canAfford(resources, cityCount, modifiers)) {
       const woodCost = cost.get(ResourceType.Wood) || 0;
       const brickCost = cost.get(ResourceType.Brick) || 0;
       const wheatCost = cost.get(ResourceType.Wheat) || 0;
@@ -141,5 +147,7 @@ export class OutpostController {
 
     // Construire la ville de niveau Outpost
     map.addCity(vertex, civId, CityLevel.Outpost);
+    GameEventBus.emit(GameEventType.ResourceChanged, { civId, resources });
+    GameEventBus.emit(GameEventType.OutpostBuilt, { civId, vertex });
   }
 }
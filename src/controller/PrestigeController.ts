@@ -4,6 +4,8 @@ import { CivilizationState } from '../model/game/CivilizationState';
 import { CivilizationId } from '../model/map/CivilizationId';
 import { CityLevel } from '../model/city/CityLevel';
 import { calculateCivilizationPoints } from '../model/game/CivilizationPoints';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { GameEventBus, GameEventType } from './GameEventBus';
 import { localize } from '../i18n';
 
 /**
@@ -33,9 +35,10 @@ export class PrestigeController {
    * 
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns true si l'action peut être activée
    */
-  static canActivatePrestige(civId: CivilizationId, map: IslandMap): boolean {
+  static canActivatePrestige(civId: CivilizationId, map: IslandMap, modifiers: GameModifiers = GameModifiers.NONE): boolean {
     // Vérifier qu'une capitale existe
     const cities = map.getCitiesByCivilization(civId);
     const hasCapital = cities.some(city => city.level === CityLevel.Capital);
@@ -45,7 +48,7 @@ export class PrestigeController {
     }
 
     // Vérifier qu'il y a au moins 20 points de civilisation
-    const civilizationPoints = calculateCivilizationPoints(map, civId);
+    const civilizationPoints = calculateCivilizationPoints(map, civId, modifiers);
     return civilizationPoints >= 20;
   }
 
@@ -54,9 +57,10 @@ export class PrestigeController {
    * 
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns Un message d'explication ou undefined si l'action peut être activée
    */
-  static getPrestigeRestrictionReason(civId: CivilizationId, map: IslandMap): string | undefined {
+  static getPrestigeRestrictionReason(civId: CivilizationId, map: IslandMap, modifiers: GameModifiers = GameModifiers.NONE): string | undefined {
     const cities = map.getCitiesByCivilization(civId);
     const hasCapital = cities.some(city => city.level === CityLevel.Capital);
     
@@ -64,7 +68,7 @@ export class PrestigeController {
       return localize('prestige.reason.noCapital');
     }
 
-    const civilizationPoints = calculateCivilizationPoints(map, civId);
+    const civilizationPoints = calculateCivilizationPoints(map, civId, modifiers);
     if (civilizationPoints < 20) {
       return localize('prestige.reason.notEnough', { needed: String(20 - civilizationPoints), current: String(civilizationPoints) });
     }
@@ -91,8 +95,9 @@ export class PrestigeController {
     }
 
     // Vérifier les conditions
-    if (!this.canActivatePrestige(civId, map)) {
-      const reason = this.getPrestigeRestrictionReason(civId, map);
+    const modifiers = civState.getGameModifiers();
+    if (!this.canActivatePrestige(civId, map, modifiers)) {
+      const reason = this.getPrestigeRestrictionReason(civId, map, modifiers);
       return {
         success: false,
         message: reason || localize('prestige.restrictionsNotMet')
@@ -104,7 +109,7 @@ export class PrestigeController {
     const multiplier = civ.getCivPointGainMultiplier();
 
     // Points de prestige = points de civilisation * multiplicateur
-    const basePoints = calculateCivilizationPoints(map, civId);
+    const basePoints = calculateCivilizationPoints(map, civId, modifiers);
     const prestigePoints = Math.floor(basePoints * multiplier);
 
     return {
@@ -136,6 +141,7 @@ export class PrestigeController {
     const islandState = civState.getIslandState();
     islandState.setIslandMap(null);
 
+    GameEventBus.emit(GameEventType.PrestigeActivated, { civilizationPointsGained: result.civilizationPointsGained });
     return result;
   }
 }
@@ -40,7 +40,7 @@ export class PrestigeMapGenerator {
     // Set hex types for visuals (not required by PrestigeMap but useful)
     // Use HexGrid edges to set visual types elsewhere if needed
 
-    const roads = new Set<string>();
+    const roads = new Map<string, Edge>();
 
     const prestigeMap = new PrestigeMap(grid, bonuses, cities, roads);
     civState.setPrestigeMap(prestigeMap);
@@ -72,7 +72,7 @@ export class PrestigeMapGenerator {
     if (!prestigeMap.grid.hasHex(h1) && !prestigeMap.grid.hasHex(h2)) {
       throw new Error('Edge hexes do not exist in prestige grid');
     }
-    prestigeMap.roads.add(edge.hashCode());
+    prestigeMap.addRoad(edge);
     civState.setCivilizationPoints(civState.getCivilizationPoints() - cost);
   }
 
@@ -109,19 +109,6 @@ export class PrestigeMapGenerator {
 
   /** Agrège les bonus pour une ville: bonus propre + (niveau * bonus des hexagones adjacents). */
   static computeCityBonuses(prestigeMap: PrestigeMap, city: PrestigeCity): Map<PrestigeBonusType, number> {
-    const totals = new Map<PrestigeBonusType, number>();
-    // city own bonus
-    if (city.bonus) {
-      totals.set(city.bonus.type, (totals.get(city.bonus.type) ?? 0) + city.bonus.value);
-    }
-    // surrounding hexes
-    const hexes = city.vertex.getHexes();
-    for (const hexCoord of hexes) {
-      const b = prestigeMap.bonuses.get(hexCoord.hashCode());
-      if (!b) continue;
-      const prev = totals.get(b.type) ?? 0;
-      totals.set(b.type, prev + b.value * city.level);
-    }
-    return totals;
+    return prestigeMap.getCityBonuses(city);
   }
 }
@@ -0,0 +1,111 @@
+import { CivilizationState } from '../model/game/CivilizationState';
+import { ResearchState } from '../model/research/ResearchState';
+import { ResearchTree } from '../model/research/ResearchTree';
+import { BuildingType } from '../model/city/BuildingType';
+import { GameModifiers } from '../model/game/GameModifiers';
+
+/**
+ * Contrôleur de la recherche : production de connaissance par les bibliothèques
+ * et déblocage des nœuds de l'arbre de recherche.
+ *
+ * Chaque Bibliothèque produit 1 connaissance par cycle ; les nœuds débloqués sont
+ * convertis en effets de jeu par CivilizationState.getGameModifiers().
+ */
+export class ResearchController {
+  /** Intervalle de base entre deux productions de connaissance d'une Bibliothèque (en secondes). */
+  static readonly LIBRARY_KNOWLEDGE_INTERVAL_SECONDS = 10.0;
+
+  /** Facteur de réduction de l'intervalle par niveau de Bibliothèque (0.8 = -20% par niveau). */
+  private static readonly LEVEL_TIME_REDUCTION_FACTOR = 0.8;
+
+  /** Connaissance produite par une Bibliothèque à chaque cycle. */
+  private static readonly KNOWLEDGE_PER_CYCLE = 1;
+
+  /**
+   * Calcule l'intervalle de production de connaissance d'une Bibliothèque.
+   * @param libraryLevel - Le niveau de la Bibliothèque
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @returns L'intervalle en secondes
+   */
+  static getKnowledgeInterval(libraryLevel: number, modifiers: GameModifiers = GameModifiers.NONE): number {
+    const interval = this.LIBRARY_KNOWLEDGE_INTERVAL_SECONDS * Math.pow(this.LEVEL_TIME_REDUCTION_FACTOR, libraryLevel - 1);
+    return modifiers.applyToProductionInterval(interval);
+  }
+
+  /**
+   * Fait produire de la connaissance aux bibliothèques du joueur dont l'intervalle est écoulé.
+   * Comme pour les bâtiments de production, une bibliothèque ne produit pas à sa construction
+   * et rattrape tous les cycles écoulés depuis sa dernière production.
+   * @param civState - L'état de la civilisation (carte, horloge et recherche)
+   * @returns La connaissance produite
+   */
+  static processKnowledgeProduction(civState: CivilizationState): number {
+    const map = civState.getIslandState().getIslandMap();
+    if (!map) {
+      return 0;
+    }
+    const currentTime = civState.getGameClock().getCurrentTime();
+    const modifiers = civState.getGameModifiers();
+
+    let produced = 0;
+    for (const city of map.getCitiesByCivilization(civState.getPlayerCivilizationId())) {
+      const library = city.getBuilding(BuildingType.Library);
+      if (!library) {
+        continue;
+      }
+      const lastProductionTime = library.getProductionTimeSeconds();
+      if (lastProductionTime === undefined) {
+        library.setProductionTimeSeconds(currentTime);
+        continue;
+      }
+      const interval = this.getKnowledgeInterval(library.level, modifiers);
+      const cycles = Math.floor((currentTime - lastProductionTime) / interval);
+      if (cycles > 0) {
+        library.updateProductionTimeSeconds(lastProductionTime + cycles * interval);
+        produced += cycles * this.KNOWLEDGE_PER_CYCLE;
+      }
+    }
+
+    if (produced > 0) {
+      civState.getResearch().addKnowledge(produced);
+    }
+    return produced;
+  }
+
+  /**
+   * Vérifie si les prérequis d'un nœud sont débloqués.
+   * @param research - L'état de la recherche
+   * @param nodeId - L'identifiant du nœud
+   */
+  static hasPrerequisites(research: ResearchState, nodeId: string): boolean {
+    return ResearchTree.get(nodeId).requires.every(requiredId => research.isUnlocked(requiredId));
+  }
+
+  /**
+   * Vérifie si un nœud peut être débloqué : non débloqué, prérequis débloqués et connaissance suffisante.
+   * @param research - L'état de la recherche
+   * @param nodeId - L'identifiant du nœud
+   */
+  static canUnlock(research: ResearchState, nodeId: string): boolean {
+    if (!ResearchTree.has(nodeId) || research.isUnlocked(nodeId)) {
+      return false;
+    }
+    return this.hasPrerequisites(research, nodeId)
+      && research.getKnowledge() >= ResearchTree.get(nodeId).cost;
+  }
+
+  /**
+   * Débloque un nœud en dépensant sa connaissance.
+   * @param research - L'état de la recherche
+   * @param nodeId - L'identifiant du nœud
+   * @returns true si le déblocage a réussi
+   */
+  static unlock(research: ResearchState, nodeId: string): boolean {
+    if (!this.canUnlock(research, nodeId)) {
+      return false;
+    }
+    research.spendKnowledge(ResearchTree.get(nodeId).cost);
+    research.unlock(nodeId);
+    return true;
+  }
+}
@@ -5,8 +5,10 @@ import { CivilizationId } from '../model/map/CivilizationId';
 import { PlayerResources } from '../model/game/PlayerResources';
 import { ResourceHarvest } from '../model/game/ResourceHarvest';
 import { GameClock } from '../model/game/GameClock';
-import { TradeController } from './TradeController';
+import { TradeController, AutoTradeResult } from './TradeController';
 import { ResourceType } from '../model/map/ResourceType';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { GameEventBus, GameEventType } from './GameEventBus';
 
 /**
  * Résultat d'une tentative de récolte.
@@ -18,34 +20,79 @@ export interface HarvestResult {
   remainingTimeMs: number;
   /** Ville qui a permis la récolte (null si la récolte a échoué) */
   cityVertex: Vertex | null;
+  /** Ressource récoltée (null si la récolte a échoué) */
+  resourceType: ResourceType | null;
+  /** Quantité réellement ajoutée à l'inventaire */
+  gain: number;
+  /** Commerce automatique déclenché par la récolte (capacité maximale atteinte) */
+  autoTrade?: AutoTradeResult | null;
 }
 
+/**
+ * Hexagone visé par une récolte manuelle, transmis aux modificateurs de délai.
+ */
+export interface HarvestTarget {
+  hexCoord: HexCoord;
+  map: IslandMap;
+}
+
+/**
+ * Modificateur du délai entre deux récoltes manuelles : reçoit le délai courant et retourne le délai modifié.
+ * La cible est absente quand le délai est demandé sans hexagone précis.
+ */
+export type HarvestCooldownModifier = (
+  intervalSeconds: number,
+  modifiers: GameModifiers,
+  target?: HarvestTarget
+) => number;
+
 /**
  * Contrôleur pour gérer la récolte de ressources avec limitation de taux.
  * 
  * Cette classe orchestre la logique de récolte en coordonnant
  * les vérifications métier (ResourceHarvest) avec la limitation
  * de taux (rate limiting) pour éviter les clics trop rapides.
+ * La dernière récolte de chaque hexagone est stockée dans l'IslandMap, en temps de jeu :
+ * elle est sauvegardée avec la carte et repart de zéro à chaque nouvelle partie.
  */
 export class ResourceHarvestController {
-  private static hexCooldowns: Map<string, number> = new Map(); // Map<hexCoord.hashCode(), lastHarvestTime en secondes>
   private static readonly MIN_HARVEST_INTERVAL_S = 2;
 
+  /**
+   * Modificateurs du délai de récolte, appliqués dans l'ordre.
+   * Une amélioration qui change le délai (recherche, bâtiment, bénédiction...) ajoute sa règle ici.
+   */
+  static readonly HARVEST_COOLDOWN_MODIFIERS: readonly HarvestCooldownModifier[] = [
+    // Recherches agricoles
+    (intervalSeconds, modifiers) => modifiers.applyToHarvestInterval(intervalSeconds),
+  ];
+
   /**
    * Intervalle actuel entre deux récoltes manuelles (en secondes).
    *
    * Centralisé ici pour que l'UI (renderer) et les tests puissent
-   * le récupérer dynamiquement (ex: futur upgrade qui réduit ce délai).
+   * le récupérer dynamiquement (réduit par les recherches agricoles).
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @param target - L'hexagone récolté (optionnel, pour les modificateurs propres à un hexagone)
    */
-  static getHarvestIntervalSeconds(): number {
-    return ResourceHarvestController.MIN_HARVEST_INTERVAL_S;
+  static getHarvestIntervalSeconds(
+    modifiers: GameModifiers = GameModifiers.NONE,
+    target?: HarvestTarget
+  ): number {
+    const interval = ResourceHarvestController.HARVEST_COOLDOWN_MODIFIERS.reduce(
+      (seconds, modifier) => modifier(seconds, modifiers, target),
+      ResourceHarvestController.MIN_HARVEST_INTERVAL_S
+    );
+    return Math.max(0, interval);
   }
 
   /**
    * Intervalle actuel entre deux récoltes manuelles (en millisecondes).
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @param target - L'hexagone récolté (optionnel)
    */
-  static getHarvestIntervalMs(): number {
-    return ResourceHarvestController.getHarvestIntervalSeconds() * 1000;
+  static getHarvestIntervalMs(modifiers: GameModifiers = GameModifiers.NONE, target?: HarvestTarget): number {
+    return ResourceHarvestController.getHarvestIntervalSeconds(modifiers, target) * 1000;
   }
 
   /**
@@ -54,9 +101,10 @@ export class ResourceHarvestController {
    *
    * @param hexCoord - La coordonnée de l'hexagone à récolter
    * @param civId - L'identifiant de la civilisation
-   * @param map - La carte de jeu
+   * @param map - La carte de jeu (contient la dernière récolte de chaque hexagone)
    * @param resources - Les ressources du joueur
-   * @param options - Optionnel : { gameClock } pour piloter le temps (tests). Sans options, utilise Date.now()/1000.
+   * @param options - { gameClock } donne le temps de jeu de la récolte.
+   *                  { modifiers } réduit le délai entre deux récoltes (recherche) et applique les bénédictions.
    * @returns Un objet indiquant le succès de la récolte et le temps restant
    */
   static harvest(
@@ -64,15 +112,14 @@ export class ResourceHarvestController {
     civId: CivilizationId,
     map: IslandMap,
     resources: PlayerResources,
-    options?: { gameClock?: GameClock; resourceMultiplier?: number }
+    options: { gameClock: GameClock; resourceMultiplier?: number; modifiers?: GameModifiers }
   ): HarvestResult {
-    const hexKey = hexCoord.hashCode();
-    const lastHarvestTime = ResourceHarvestController.hexCooldowns.get(hexKey);
-    const now = options?.gameClock ? options.gameClock.getCurrentTime() : Date.now() / 1000;
+    const lastHarvestTime = map.getLastHarvestTime(hexCoord);
+    const now = options.gameClock.getCurrentTime();
     const timeSinceLastHarvest = now - (lastHarvestTime ?? 0);
 
     // Si première récolte sur cet hex (lastHarvestTime === undefined), pas de blocage. Sinon vérifier le cooldown.
-    const harvestIntervalSeconds = ResourceHarvestController.getHarvestIntervalSeconds();
+    const harvestIntervalSeconds = ResourceHarvestController.getHarvestIntervalSeconds(options.modifiers, { hexCoord, map });
     if (lastHarvestTime !== undefined && timeSinceLastHarvest < harvestIntervalSeconds) {
       const remainingTimeMs =
         Math.max(0, harvestIntervalSeconds - timeSinceLastHarvest) * 1000;
@@ -80,6 +127,8 @@ export class ResourceHarvestController {
         success: false,
         remainingTimeMs,
         cityVertex: null,
+        resourceType: null,
+        gain: 0,
       };
     }
 
@@ -89,6 +138,8 @@ export class ResourceHarvestController {
         success: false,
         remainingTimeMs: 0, // Pas de limitation si la récolte n'est pas possible pour d'autres raisons
         cityVertex: null,
+        resourceType: null,
+        gain: 0,
       };
     }
 
@@ -99,44 +150,50 @@ export class ResourceHarvestController {
       civId,
       resources,
       undefined,
-      options?.resourceMultiplier
+      options?.resourceMultiplier,
+      options?.modifiers,
+      now
     );
 
     // Si la capacité maximale a été atteinte et qu'une ressource a été récoltée, notifier TradeController
+    let autoTrade: AutoTradeResult | null = null;
     if (harvestResult.capacityReached && harvestResult.resourceType !== null) {
-      TradeController.handleAutoTrade(harvestResult.resourceType, civId, map, resources);
+      autoTrade = TradeController.handleAutoTrade(harvestResult.resourceType, civId, map, resources, options?.modifiers);
     }
 
-    // Mettre à jour le timestamp de la dernière récolte pour cet hex (en secondes)
-    ResourceHarvestController.hexCooldowns.set(hexKey, now);
+    // Mettre à jour le temps de la dernière récolte pour cet hex (en secondes de jeu)
+    map.setLastHarvestTime(hexCoord, now);
+    GameEventBus.emit(GameEventType.ResourceChanged, { civId, resources });
 
     return {
       success: true,
-      remainingTimeMs: ResourceHarvestController.getHarvestIntervalMs(),
+      remainingTimeMs: harvestIntervalSeconds * 1000,
       cityVertex: harvestResult.cityVertex,
+      resourceType: harvestResult.resourceType,
+      gain: harvestResult.gain,
+      autoTrade,
     };
   }
 
   /**
    * Retourne le temps restant avant qu'un hexagone puisse être récolté à nouveau.
    * @param hexCoord - La coordonnée de l'hexagone
-   * @param options - Optionnel : { gameClock } pour piloter le temps (tests). Sans options, utilise Date.now()/1000.
+   * @param map - La carte de jeu
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   * @param modifiers - Les modificateurs de jeu (optionnel, délai réduit par la recherche)
    * @returns Le temps restant en millisecondes (0 si prêt à récolter)
    */
-  static getRemainingCooldown(hexCoord: HexCoord, options?: { gameClock?: GameClock }): number {
-    const hexKey = hexCoord.hashCode();
-    const last = ResourceHarvestController.hexCooldowns.get(hexKey);
+  static getRemainingCooldown(
+    hexCoord: HexCoord,
+    map: IslandMap,
+    currentTime: number,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): number {
+    const last = map.getLastHarvestTime(hexCoord);
     if (last === undefined) {
       return 0;
     }
-    const now = options?.gameClock ? options.gameClock.getCurrentTime() : Date.now() / 1000;
-    return Math.max(0, ResourceHarvestController.getHarvestIntervalSeconds() - (now - last)) * 1000;
-  }
-
-  /**
-   * Réinitialise tous les cooldowns. Utile pour les tests.
-   */
-  static resetCooldowns(): void {
-    ResourceHarvestController.hexCooldowns.clear();
+    const interval = ResourceHarvestController.getHarvestIntervalSeconds(modifiers, { hexCoord, map });
+    return Math.max(0, interval - (currentTime - last)) * 1000;
   }
 }
@@ -0,0 +1,272 @@
+import { IslandState } from '../model/game/IslandState';
+import { IslandMap } from '../model/map/IslandMap';
+import { CivilizationId } from '../model/map/CivilizationId';
+import { ResourceType, BASIC_RESOURCES } from '../model/map/ResourceType';
+import { PlayerResources } from '../model/game/PlayerResources';
+import { ResourceHarvest } from '../model/game/ResourceHarvest';
+import { RoadConstruction } from '../model/game/RoadConstruction';
+import { calculateInventoryCapacity } from '../model/game/InventoryCapacity';
+import { RivalCivilization, RivalDifficulty, RivalSettings } from '../model/game/RivalCivilization';
+import { BuildingType, getBuildingCost } from '../model/city/BuildingType';
+import { City } from '../model/city/City';
+import { CityLevel } from '../model/city/CityLevel';
+import { ConstructionKind, ConstructionQueue } from '../model/game/ConstructionQueue';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { ConstructionController } from './ConstructionController';
+import { TradeController } from './TradeController';
+import { SeededRNG } from './util/SeededRNG';
+
+/**
+ * Paramètres de comportement d'un rival selon sa difficulté.
+ */
+interface RivalDifficultySettings {
+  /** Intervalle entre deux actions (en secondes de jeu) */
+  actionIntervalSeconds: number;
+  /** Probabilité de passer son tour à chaque action */
+  idleChance: number;
+  /** Multiplicateur appliqué aux récoltes */
+  resourceMultiplier: number;
+}
+
+/**
+ * Action envisagée par un rival : coût et exécution.
+ */
+interface RivalAction {
+  cost: Map<ResourceType, number>;
+  execute: () => void;
+}
+
+/**
+ * Contrôleur des civilisations rivales contrôlées par l'ordinateur.
+ *
+ * Chaque rival agit à intervalle régulier (selon sa difficulté) : il récolte les hexagones
+ * autour de ses villes puis tente, dans l'ordre, de construire un marché, un avant-poste,
+ * d'améliorer son hôtel de ville ou de construire une route. Les constructions sont
+ * des chantiers avec durée, dans la file du rival, soumis aux mêmes règles que ceux du joueur
+ * (ConstructionController).
+ * Les choix aléatoires utilisent le générateur seedé du rival, sauvegardé avec lui.
+ */
+export class RivalController {
+  /** Nombre de rivaux par défaut lorsqu'une difficulté est choisie. */
+  static readonly DEFAULT_RIVAL_COUNT = 2;
+
+  private static readonly DIFFICULTY_SETTINGS: Record<RivalDifficulty, RivalDifficultySettings> = {
+    [RivalDifficulty.Easy]: { actionIntervalSeconds: 8, idleChance: 0.5, resourceMultiplier: 1 },
+    [RivalDifficulty.Normal]: { actionIntervalSeconds: 4, idleChance: 0.2, resourceMultiplier: 1 },
+    [RivalDifficulty.Hard]: { actionIntervalSeconds: 2, idleChance: 0, resourceMultiplier: 1.5 },
+  };
+
+  /**
+   * Crée les identifiants des civilisations rivales d'une nouvelle partie.
+   * @param settings - Les paramètres des rivaux
+   * @returns Les identifiants (rival1, rival2, ...)
+   */
+  static createRivalIds(settings: RivalSettings): CivilizationId[] {
+    const ids: CivilizationId[] = [];
+    for (let i = 1; i <= settings.count; i++) {
+      ids.push(CivilizationId.create(`rival${i}`));
+    }
+    return ids;
+  }
+
+  /**
+   * Enregistre les rivaux dans l'état de l'île.
+   * Chaque rival reçoit une seed dérivée de la seed de la carte, pour des parties reproductibles.
+   * @param islandState - L'état de l'île (la carte doit déjà contenir les villes initiales)
+   * @param rivalIds - Les identifiants des rivaux
+   * @param difficulty - La difficulté des rivaux
+   * @param seed - La seed de la carte
+   */
+  static addRivals(
+    islandState: IslandState,
+    rivalIds: CivilizationId[],
+    difficulty: RivalDifficulty,
+    seed: number
+  ): void {
+    rivalIds.forEach((civId, index) => {
+      const rivalSeed = (seed + (index + 1) * 0x9e3779b9) >>> 0;
+      islandState.addRival(new RivalCivilization(civId, difficulty, rivalSeed));
+    });
+  }
+
+  /**
+   * Retourne les paramètres des rivaux d'une partie (utilisés pour la partie suivante).
+   * @param islandState - L'état de l'île
+   * @returns Le nombre et la difficulté des rivaux (count = 0 si aucun)
+   */
+  static getRivalSettings(islandState: IslandState): RivalSettings {
+    return islandState.getRivalSettings();
+  }
+
+  /**
+   * Fait agir les rivaux dont le délai d'action est écoulé.
+   * @param islandState - L'état de l'île (carte, horloge, rivaux)
+   */
+  static processRivals(islandState: IslandState): void {
+    const map = islandState.getIslandMap();
+    if (!map) {
+      return;
+    }
+    const now = islandState.getGameClock().getCurrentTime();
+
+    for (const rival of islandState.getRivals()) {
+      if (now < rival.getNextActionTime()) {
+        continue;
+      }
+      const settings = this.DIFFICULTY_SETTINGS[rival.difficulty];
+      rival.setNextActionTime(now + settings.actionIntervalSeconds);
+
+      const rng = new SeededRNG(rival.getRngState());
+      if (rng.next() >= settings.idleChance) {
+        this.harvest(rival, map, settings.resourceMultiplier, now);
+        this.act(rival, islandState, map, rng);
+      }
+      rival.setRngState(rng.getState());
+    }
+  }
+
+  /**
+   * Récolte une fois chaque hexagone adjacent aux villes du rival.
+   */
+  private static harvest(rival: RivalCivilization, map: IslandMap, resourceMultiplier: number, now: number): void {
+    const harvested = new Set<string>();
+    for (const city of map.getCitiesByCivilization(rival.id)) {
+      for (const hexCoord of city.vertex.getHexes()) {
+        if (harvested.has(hexCoord.hashCode()) || !ResourceHarvest.canHarvest(hexCoord, map, rival.id)) {
+          continue;
+        }
+        harvested.add(hexCoord.hashCode());
+        ResourceHarvest.harvest(hexCoord, map, rival.id, rival.getResources(), city.vertex, resourceMultiplier, undefined, now);
+      }
+    }
+  }
+
+  /**
+   * Exécute la première action abordable par ordre de priorité.
+   * Si la première action possible est trop chère, le rival commerce vers son coût et économise.
+   */
+  private static act(rival: RivalCivilization, islandState: IslandState, map: IslandMap, rng: SeededRNG): void {
+    const resources = rival.getResources();
+    const capacity = calculateInventoryCapacity(map, rival.id);
+
+    for (const action of this.listActions(rival, islandState, map, rng)) {
+      // Une action dont le coût dépasse la capacité d'inventaire est hors de portée
+      if ([...action.cost.values()].some(amount => amount > capacity)) {
+        continue;
+      }
+      if (!resources.canAfford(action.cost)) {
+        this.tradeTowards(action.cost, rival.id, map, resources);
+      }
+      if (resources.canAfford(action.cost)) {
+        try {
+          action.execute();
+        } catch (e) {
+          // Action refusée par les règles (ex: capitale déjà présente) : réessayer au prochain tour
+        }
+      }
+      return;
+    }
+  }
+
+  private static listActions(rival: RivalCivilization, islandState: IslandState, map: IslandMap, rng: SeededRNG): RivalAction[] {
+    const civId = rival.id;
+    const queue = rival.getConstructionQueue();
+    const cities = map.getCitiesByCivilization(civId);
+    const actions: RivalAction[] = [];
+
+    // Marché : donne accès au commerce pour obtenir les ressources absentes autour des villes
+    const marketCity = cities.find(city => city.canBuildBuildingType(BuildingType.Market));
+    const marketInProgress = cities.some(city => queue.hasBuildingSite(city.vertex, BuildingType.Market, ConstructionKind.Building));
+    if (!TradeController.canTrade(civId, map) && marketCity && !marketInProgress) {
+      actions.push({
+        cost: getBuildingCost(BuildingType.Market),
+        execute: () => ConstructionController.startBuilding(BuildingType.Market, marketCity, islandState),
+      });
+    }
+
+    const outpostVertex = rng.pick(map.getBuildableOutpostVertices(civId).filter(vertex => !queue.hasOutpostSite(vertex)));
+    if (outpostVertex) {
+      actions.push({
+        cost: ConstructionController.getOutpostCost(islandState, GameModifiers.NONE, civId),
+        execute: () => ConstructionController.startOutpost(outpostVertex, islandState, GameModifiers.NONE, false, civId),
+      });
+    }
+
+    const townHallAction = this.townHallAction(cities, islandState, queue);
+    if (townHallAction) {
+      actions.push(townHallAction);
+    }
+
+    // Les routes ne servent qu'à atteindre de nouveaux emplacements d'avant-poste
+    if (!outpostVertex) {
+      const edge = rng.pick(map.getBuildableRoadsForCivilization(civId).filter(candidate => !queue.hasRoadSite(candidate)));
+      const distance = edge ? map.calculateBuildableRoadDistance(edge, civId) : undefined;
+      if (edge && distance !== undefined) {
+        actions.push({
+          cost: RoadConstruction.getCost(distance),
+          execute: () => ConstructionController.startRoad(edge, islandState, GameModifiers.NONE, false, civId),
+        });
+      }
+    }
+    return actions;
+  }
+
+  /**
+   * Construction ou amélioration de l'hôtel de ville (augmente la capacité d'inventaire).
+   * Les villes dont l'hôtel de ville est déjà en chantier sont ignorées.
+   */
+  private static townHallAction(cities: City[], islandState: IslandState, queue: ConstructionQueue): RivalAction | null {
+    for (const city of cities) {
+      if (queue.hasBuildingSite(city.vertex, BuildingType.TownHall, ConstructionKind.Building)
+        || queue.hasBuildingSite(city.vertex, BuildingType.TownHall, ConstructionKind.BuildingUpgrade)) {
+        continue;
+      }
+      if (!city.hasBuilding(BuildingType.TownHall)) {
+        if (city.canBuildBuildingType(BuildingType.TownHall)) {
+          return {
+            cost: getBuildingCost(BuildingType.TownHall),
+            execute: () => ConstructionController.startBuilding(BuildingType.TownHall, city, islandState),
+          };
+        }
+        continue;
+      }
+      const townHall = city.getBuilding(BuildingType.TownHall)!;
+      // Une seule Capitale par civilisation
+      const hasCapital = cities.some(c => c.level === CityLevel.Capital);
+      if (townHall.canUpgrade() && !(city.level + 1 === CityLevel.Capital && hasCapital)) {
+        return {
+          cost: townHall.getUpgradeCost(),
+          execute: () => ConstructionController.startUpgrade(BuildingType.TownHall, city, islandState),
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Commerce vers un coût en puisant dans les ressources excédentaires.
+   */
+  private static tradeTowards(
+    cost: Map<ResourceType, number>,
+    civId: CivilizationId,
+    map: IslandMap,
+    resources: PlayerResources
+  ): void {
+    if (!TradeController.canTrade(civId, map)) {
+      return;
+    }
+    for (const [targetResource, amount] of cost) {
+      while (resources.getResource(targetResource) < amount) {
+        const source = BASIC_RESOURCES.find(r =>
+          r !== targetResource
+          && resources.getResource(r) - TradeController.getTradeRateForResource(civId, map, r) >= (cost.get(r) ?? 0)
+          && TradeController.canPerformTrade(r, targetResource, civId, map, resources)
+        );
+        if (!source) {
+          break;
+        }
+        TradeController.performTrade(source, targetResource, civId, map, resources);
+      }
+    }
+  }
+}
@@ -4,6 +4,8 @@ import { CivilizationId } from '../model/map/CivilizationId';
 import { ResourceType } from '../model/map/ResourceType';
 import { PlayerResources } from '../model/game/PlayerResources';
 import { RoadConstruction } from '../model/game/RoadConstruction';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { GameEventBus, GameEventType } from './GameEventBus';
 
 /**
  * Contrôleur pour gérer la construction de routes avec consommation de ressources.
@@ -20,13 +22,15 @@ export class RoadController {
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @throws Error si la construction n'est pas possible ou si les ressources sont insuffisantes
    */
   static buildRoad(
     edge: Edge,
     civId: CivilizationId,
     map: IslandMap,
-    resources: PlayerResources
+    resources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): void {
     // Vérifier que la construction est possible
     if (!RoadConstruction.canBuildRoad(edge, civId, map)) {
@@ -45,8 +49,8 @@ export class RoadController {
     }
 
     // Vérifier que le joueur a assez de ressources (avec le coût multiplié par distance + 1)
-    if (!RoadConstruction.canAfford(resources, distance)) {
-      const cost = RoadConstruction.getCost(distance);
+    if (!RoadConstruction.canAfford(resources, distance, modifiers)) {
+      const cost = RoadConstruction.getCost(distance, modifiers);
       const brickCost = cost.get(ResourceType.Brick) || 0;
       const woodCost = cost.get(ResourceType.Wood) || 0;
       throw new Error(
@@ -56,10 +60,12 @@ export class RoadController {
     }
 
     // Retirer les ressources (coût multiplié par distance + 1)
-    const cost = RoadConstruction.getCost(distance);
+    const cost = RoadConstruction.getCost(distance, modifiers);
     resources.payCost(cost);
 
     // Ajouter la route sur la carte
     map.addRoad(edge, civId);
+    GameEventBus.emit(GameEventType.ResourceChanged, { civId, resources });
+    GameEventBus.emit(GameEventType.RoadBuilt, { civId, edge });
   }
 }
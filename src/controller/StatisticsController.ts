@@ -0,0 +1,226 @@
+import { IslandState } from '../model/game/IslandState';
+import { ConstructionSite } from '../model/game/ConstructionQueue';
+import { ResourceType } from '../model/map/ResourceType';
+import { BuildingType } from '../model/city/BuildingType';
+import { CityLevel } from '../model/city/CityLevel';
+import { IslandStatistics } from '../model/statistics/IslandStatistics';
+import { IncomeSource, IncomeTable, StatisticCounter } from '../model/statistics/types';
+import { HarvestResult } from './ResourceHarvestController';
+import { BuildingProductionResult } from './BuildingProductionController';
+import { AutoTradeResult } from './TradeController';
+import { GameEventBus, GameEventType } from './GameEventBus';
+
+/**
+ * Totaux lus sur la carte (constructions des automatisations comprises).
+ */
+export interface MapTotals {
+  roads: number;
+  cities: number;
+  buildings: number;
+}
+
+/**
+ * Contrôleur des statistiques : enregistre les revenus du joueur par origine,
+ * échantillonne l'historique et calcule les revenus par minute.
+ *
+ * Les revenus sont les ressources réellement ajoutées à l'inventaire (après plafond).
+ * La progression hors ligne n'est pas enregistrée, pour ne pas fausser les revenus par minute.
+ */
+export class StatisticsController {
+  /** Durée d'un échantillon de l'historique (en secondes de jeu). */
+  static readonly SAMPLE_INTERVAL_SECONDS = 30;
+
+  /** Fenêtre glissante utilisée pour les revenus par minute (en secondes de jeu). */
+  static readonly RATE_WINDOW_SECONDS = 300;
+
+  /**
+   * Enregistre une récolte manuelle réussie et le commerce automatique qu'elle a déclenché.
+   * @param islandState - L'état de l'île
+   * @param result - Le résultat de ResourceHarvestController.harvest
+   */
+  static recordHarvest(islandState: IslandState, result: HarvestResult): void {
+    if (!result.success) {
+      return;
+    }
+    const statistics = islandState.getStatistics();
+    statistics.increment(StatisticCounter.ManualHarvests);
+    if (result.resourceType !== null) {
+      statistics.addIncome(IncomeSource.ManualHarvest, result.resourceType, result.gain);
+    }
+    this.recordAutoTrade(statistics, result.autoTrade);
+  }
+
+  /**
+   * Enregistre les productions automatiques des bâtiments (le marché niveau 2 à part).
+   * @param islandState - L'état de l'île
+   * @param results - Les résultats de BuildingProductionController.processAutomaticProduction
+   */
+  static recordProduction(islandState: IslandState, results: readonly BuildingProductionResult[]): void {
+    const statistics = islandState.getStatistics();
+    for (const result of results) {
+      const source = result.buildingType === BuildingType.Market ? IncomeSource.Market : IncomeSource.Building;
+      statistics.addIncome(source, result.resourceType, result.amount);
+      this.recordAutoTrade(statistics, result.autoTrade);
+    }
+  }
+
+  /**
+   * Enregistre un échange manuel (panneau de commerce ou marchand itinérant).
+   * @param islandState - L'état de l'île
+   */
+  static recordTrade(islandState: IslandState): void {
+    islandState.getStatistics().increment(StatisticCounter.TradesMade);
+  }
+
+  /**
+   * Abonne les statistiques aux événements du domaine : chaque échange manuel du joueur est compté,
+   * et une construction achevée puis annulée n'est plus comptée.
+   * Les échanges automatiques sont comptés avec la production (recordProduction).
+   * @param getIslandState - Fournit l'état de l'île courant (il change à chaque nouvelle partie)
+   * @returns Une fonction qui désabonne les statistiques
+   */
+  static subscribe(getIslandState: () => IslandState): () => void {
+    const unsubscribers = [
+      GameEventBus.on(GameEventType.TradePerformed, ({ civId, automatic }) => {
+        const islandState = getIslandState();
+        if (!automatic && civId.equals(islandState.getPlayerCivilizationId())) {
+          this.recordTrade(islandState);
+        }
+      }),
+      GameEventBus.on(GameEventType.ConstructionUndone, ({ civId, completed }) => {
+        const islandState = getIslandState();
+        if (completed && civId.equals(islandState.getPlayerCivilizationId())) {
+          islandState.getStatistics().increment(StatisticCounter.ConstructionsCompleted, -1);
+        }
+      }),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Enregistre les chantiers achevés.
+   * @param islandState - L'état de l'île
+   * @param sites - Les chantiers retournés par ConstructionController.processConstructions
+   */
+  static recordCompletedConstructions(islandState: IslandState, sites: readonly ConstructionSite[]): void {
+    if (sites.length > 0) {
+      islandState.getStatistics().increment(StatisticCounter.ConstructionsCompleted, sites.length);
+    }
+  }
+
+  /**
+   * Enregistre les niveaux de ville atteints et termine l'échantillon en cours si sa durée est écoulée.
+   * Après une longue absence (progression hors ligne), le nouvel échantillon repart du temps actuel
+   * au lieu de remplir l'historique d'échantillons vides.
+   * @param islandState - L'état de l'île
+   * @returns true si un échantillon a été ajouté à l'historique
+   */
+  static processStatistics(islandState: IslandState): boolean {
+    const map = islandState.getIslandMap();
+    if (!map) {
+      return false;
+    }
+    const statistics = islandState.getStatistics();
+    const currentTime = islandState.getGameClock().getCurrentTime();
+
+    const cities = map.getCitiesByCivilization(islandState.getPlayerCivilizationId());
+    const maxLevel = Math.max(CityLevel.Outpost, ...cities.map(city => city.level));
+    for (let level = CityLevel.Outpost; level <= maxLevel; level++) {
+      statistics.recordCityLevel(level, currentTime);
+    }
+
+    const sampleStart = statistics.getSampleStart();
+    if (sampleStart === null) {
+      statistics.startSampling(currentTime);
+      return false;
+    }
+    if (currentTime - sampleStart < this.SAMPLE_INTERVAL_SECONDS) {
+      return false;
+    }
+    const endTime = sampleStart + this.SAMPLE_INTERVAL_SECONDS;
+    const nextStart = currentTime - endTime >= this.SAMPLE_INTERVAL_SECONDS ? currentTime : endTime;
+    statistics.closeSample(endTime, islandState.getPlayerResources().getAllResources(), nextStart);
+    return true;
+  }
+
+  /**
+   * Calcule les revenus par minute de chaque ressource, par origine, sur la fenêtre glissante.
+   * La fenêtre s'étend au début du plus ancien échantillon qu'elle recoupe.
+   * @param statistics - Les statistiques de l'île
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   * @param windowSeconds - La durée de la fenêtre (en secondes)
+   * @returns Les revenus par minute, indexés par ressource puis par origine
+   */
+  static getIncomePerMinute(
+    statistics: IslandStatistics,
+    currentTime: number,
+    windowSeconds: number = this.RATE_WINDOW_SECONDS
+  ): Map<ResourceType, Map<IncomeSource, number>> {
+    const windowStart = currentTime - windowSeconds;
+    let start = statistics.getSampleStart() ?? currentTime;
+    const tables: IncomeTable[] = [statistics.getCurrentIncome()];
+    for (const sample of statistics.getSamples()) {
+      if (sample.endTime > windowStart) {
+        tables.push(sample.income);
+        start = Math.min(start, sample.startTime);
+      }
+    }
+    return this.toPerMinute(tables, currentTime - start);
+  }
+
+  /**
+   * Calcule les revenus par minute d'un échantillon de l'historique.
+   * @param income - Les revenus de l'échantillon
+   * @param durationSeconds - La durée de l'échantillon (en secondes)
+   */
+  static getSampleIncomePerMinute(income: IncomeTable, durationSeconds: number): Map<ResourceType, Map<IncomeSource, number>> {
+    return this.toPerMinute([income], durationSeconds);
+  }
+
+  /**
+   * Compte les routes, villes et bâtiments du joueur sur la carte.
+   * @param islandState - L'état de l'île
+   */
+  static getMapTotals(islandState: IslandState): MapTotals {
+    const map = islandState.getIslandMap();
+    if (!map) {
+      return { roads: 0, cities: 0, buildings: 0 };
+    }
+    const civId = islandState.getPlayerCivilizationId();
+    const cities = map.getCitiesByCivilization(civId);
+    return {
+      roads: map.getRoadsForCivilization(civId).length,
+      cities: cities.length,
+      buildings: cities.reduce((total, city) => total + city.getBuildingCount(), 0),
+    };
+  }
+
+  private static recordAutoTrade(statistics: IslandStatistics, autoTrade: AutoTradeResult | null | undefined): void {
+    if (!autoTrade) {
+      return;
+    }
+    statistics.increment(StatisticCounter.AutoTrades);
+    statistics.addIncome(IncomeSource.AutoTrade, autoTrade.received, autoTrade.receivedAmount);
+  }
+
+  /**
+   * Additionne des tables de revenus et les ramène à une minute.
+   */
+  private static toPerMinute(tables: readonly IncomeTable[], durationSeconds: number): Map<ResourceType, Map<IncomeSource, number>> {
+    const rates = new Map<ResourceType, Map<IncomeSource, number>>();
+    if (durationSeconds <= 0) {
+      return rates;
+    }
+    const minutes = durationSeconds / 60;
+    for (const table of tables) {
+      for (const source of Object.values(IncomeSource)) {
+        for (const [resourceType, amount] of Object.entries(table[source] ?? {})) {
+          const bySource = rates.get(resourceType as ResourceType) ?? new Map<IncomeSource, number>();
+          bySource.set(source, (bySource.get(source) ?? 0) + (amount ?? 0) / minutes);
+          rates.set(resourceType as ResourceType, bySource);
+        }
+      }
+    }
+    return rates;
+  }
+}
@@ -5,13 +5,30 @@ import { ResourceType } from '../model/map/ResourceType';
 import { BuildingType } from '../model/city/BuildingType';
 import { calculateInventoryCapacity } from '../model/game/InventoryCapacity';
 import { City } from '../model/city/City';
+import { Building } from '../model/city/Building';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { GameEventBus, GameEventType } from './GameEventBus';
 import { localize } from '../i18n';
 
+/**
+ * Échange effectué par le commerce automatique d'un port.
+ */
+export interface AutoTradeResult {
+  /** La ressource échangée (celle qui a atteint la capacité maximale) */
+  given: ResourceType;
+  /** La ressource reçue */
+  received: ResourceType;
+  /** La quantité réellement reçue (limitée par la capacité) */
+  receivedAmount: number;
+}
+
 /**
  * Contrôleur pour gérer le commerce.
  *
  * Une civilisation peut échanger des ressources contre 1 de son choix si elle possède
  * au moins un port maritime (Seaport, 3:1) ou un marché (Market, 4:1) dans une de ses villes.
+ * Les recherches commerciales améliorent ces taux (GameModifiers.applyToTradeRate).
+ * Un port bloqué par une tempête (GameModifiers.isSeaportBlocked) est ignoré tant que l'événement dure.
  */
 export class TradeController {
   private static readonly TRADE_RATE_SEAPORT = 3;
@@ -28,12 +45,17 @@ export class TradeController {
    *
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
-   * @returns true si la civilisation a au moins un port maritime ou un marché
+   * @param modifiers - Les modificateurs de jeu (optionnel, pour les ports bloqués)
+   * @returns true si la civilisation a au moins un port maritime ouvert ou un marché
    */
-  static canTrade(civId: CivilizationId, map: IslandMap): boolean {
+  static canTrade(
+    civId: CivilizationId,
+    map: IslandMap,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): boolean {
     const cities = map.getCitiesByCivilization(civId);
     for (const city of cities) {
-      if (city.hasBuilding(BuildingType.Seaport) || city.hasBuilding(BuildingType.Market)) {
+      if (this.getOpenSeaport(city, modifiers) || city.hasBuilding(BuildingType.Market)) {
         return true;
       }
     }
@@ -49,6 +71,7 @@ export class TradeController {
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel, pour les recherches commerciales)
    * @returns true si l'échange est possible
    */
   static canPerformTrade(
@@ -56,10 +79,11 @@ export class TradeController {
     toResource: ResourceType,
     civId: CivilizationId,
     map: IslandMap,
-    resources: PlayerResources
+    resources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): boolean {
     // Vérifier l'accès au commerce
-    if (!this.canTrade(civId, map)) {
+    if (!this.canTrade(civId, map, modifiers)) {
       return false;
     }
 
@@ -69,13 +93,13 @@ export class TradeController {
     }
 
     // Vérifier que le joueur a assez de ressources à échanger
-    const tradeRate = this.getTradeRateForResource(civId, map, fromResource);
+    const tradeRate = this.getTradeRateForResource(civId, map, fromResource, modifiers);
     if (!resources.hasEnough(fromResource, tradeRate)) {
       return false;
     }
 
     // Vérifier que la ressource cible n'est pas déjà à capacité maximale
-    const maxCapacity = calculateInventoryCapacity(map, civId);
+    const maxCapacity = calculateInventoryCapacity(map, civId, modifiers);
     const currentToResource = resources.getResource(toResource);
     if (currentToResource >= maxCapacity) {
       return false;
@@ -92,6 +116,7 @@ export class TradeController {
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel, pour les recherches commerciales)
    * @throws Error si l'échange n'est pas possible
    */
   static performTrade(
@@ -99,11 +124,12 @@ export class TradeController {
     toResource: ResourceType,
     civId: CivilizationId,
     map: IslandMap,
-    resources: PlayerResources
+    resources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): void {
     // Vérifier que l'échange est possible
-    if (!this.canPerformTrade(fromResource, toResource, civId, map, resources)) {
-      if (!this.canTrade(civId, map)) {
+    if (!this.canPerformTrade(fromResource, toResource, civId, map, resources, modifiers)) {
+      if (!this.canTrade(civId, map, modifiers)) {
         throw new Error(localize('trade.error.unavailable'));
       }
 
@@ -111,7 +137,7 @@ export class TradeController {
         throw new Error(localize('trade.error.sameResource'));
       }
 
-      const tradeRate = this.getTradeRateForResource(civId, map, fromResource);
+      const tradeRate = this.getTradeRateForResource(civId, map, fromResource, modifiers);
       if (!resources.hasEnough(fromResource, tradeRate)) {
         throw new Error(
           localize('playerResources.notEnough', {
@@ -123,7 +149,7 @@ export class TradeController {
       }
 
       // Vérifier que la ressource cible n'est pas déjà à capacité maximale
-      const maxCapacity = calculateInventoryCapacity(map, civId);
+      const maxCapacity = calculateInventoryCapacity(map, civId, modifiers);
       const currentToResource = resources.getResource(toResource);
       if (currentToResource >= maxCapacity) {
         throw new Error(
@@ -137,11 +163,11 @@ export class TradeController {
     }
 
     // Retirer les ressources échangées
-    const tradeRate = this.getTradeRateForResource(civId, map, fromResource);
+    const tradeRate = this.getTradeRateForResource(civId, map, fromResource, modifiers);
     resources.removeResource(fromResource, tradeRate);
 
     // Calculer la capacité d'inventaire maximale
-    const maxCapacity = calculateInventoryCapacity(map, civId);
+    const maxCapacity = calculateInventoryCapacity(map, civId, modifiers);
     
     // Ajouter la ressource reçue avec limitation de capacité
     resources.addResourceCapped(toResource, this.TRADE_RECEIVED, maxCapacity);
@@ -162,15 +188,20 @@ export class TradeController {
   }
 
   /**
-   * Retourne la ressource spécialisée d'une civilisation (si un port niveau 2 est spécialisé).
+   * Retourne la ressource spécialisée d'une civilisation (si un port niveau 2 ouvert est spécialisé).
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
+   * @param modifiers - Les modificateurs de jeu (optionnel, pour les ports bloqués)
    * @returns La ressource spécialisée, ou null si aucune spécialisation
    */
-  static getSpecializedResource(civId: CivilizationId, map: IslandMap): ResourceType | null {
+  static getSpecializedResource(
+    civId: CivilizationId,
+    map: IslandMap,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): ResourceType | null {
     const cities = map.getCitiesByCivilization(civId);
     for (const city of cities) {
-      const seaport = city.getBuilding(BuildingType.Seaport);
+      const seaport = this.getOpenSeaport(city, modifiers);
       // Le port peut être niveau 2 ou 3 avec spécialisation
       if (seaport && seaport.level >= 2) {
         const specialization = seaport.getSpecialization();
@@ -217,20 +248,26 @@ export class TradeController {
   }
 
   /**
-   * Retourne le taux d'échange pour une civilisation : 3 si elle a un port (Seaport), 4 si marché (Market) uniquement.
+   * Retourne le taux d'échange pour une civilisation : 3 si elle a un port (Seaport), 4 si marché (Market) uniquement,
+   * puis amélioré par les recherches commerciales.
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
-   * @returns Le nombre de ressources à donner pour recevoir 1 (3 ou 4)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @returns Le nombre de ressources à donner pour recevoir 1 (3 ou 4 sans recherche)
    */
-  static getTradeRateForCivilization(civId: CivilizationId, map: IslandMap): number {
+  static getTradeRateForCivilization(
+    civId: CivilizationId,
+    map: IslandMap,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): number {
     const cities = map.getCitiesByCivilization(civId);
     for (const city of cities) {
-      if (city.hasBuilding(BuildingType.Seaport)) return this.TRADE_RATE_SEAPORT;
+      if (this.getOpenSeaport(city, modifiers)) return modifiers.applyToTradeRate(this.TRADE_RATE_SEAPORT);
     }
     for (const city of cities) {
-      if (city.hasBuilding(BuildingType.Market)) return this.TRADE_RATE_MARKET;
+      if (city.hasBuilding(BuildingType.Market)) return modifiers.applyToTradeRate(this.TRADE_RATE_MARKET);
     }
-    return this.TRADE_RATE_MARKET; // canTrade déjà vérifié en amont
+    return modifiers.applyToTradeRate(this.TRADE_RATE_MARKET); // canTrade déjà vérifié en amont
   }
 
   /**
@@ -238,14 +275,20 @@ export class TradeController {
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
    * @param resource - La ressource à échanger
-   * @returns Le nombre de ressources à donner pour recevoir 1 (2, 3 ou 4)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @returns Le nombre de ressources à donner pour recevoir 1 (2, 3 ou 4 sans recherche)
    */
-  static getTradeRateForResource(civId: CivilizationId, map: IslandMap, resource: ResourceType): number {
-    const specializedResource = this.getSpecializedResource(civId, map);
+  static getTradeRateForResource(
+    civId: CivilizationId,
+    map: IslandMap,
+    resource: ResourceType,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): number {
+    const specializedResource = this.getSpecializedResource(civId, map, modifiers);
     if (specializedResource === resource) {
-      return this.TRADE_RATE_SEAPORT_SPECIALIZED;
+      return modifiers.applyToTradeRate(this.TRADE_RATE_SEAPORT_SPECIALIZED);
     }
-    return this.getTradeRateForCivilization(civId, map);
+    return this.getTradeRateForCivilization(civId, map, modifiers);
   }
 
   /**
@@ -258,6 +301,7 @@ export class TradeController {
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
    * @param playerResources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel, pour les recherches commerciales)
    * @throws Error si les quantités ne sont pas valides ou si l'échange n'est pas possible
    */
   static performBatchTrade(
@@ -265,17 +309,18 @@ export class TradeController {
     requestedResources: Map<ResourceType, number>,
     civId: CivilizationId,
     map: IslandMap,
-    playerResources: PlayerResources
+    playerResources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
   ): void {
     // Vérifier l'accès au commerce
-    if (!this.canTrade(civId, map)) {
+    if (!this.canTrade(civId, map, modifiers)) {
       throw new Error(localize('trade.error.unavailable'));
     }
 
     // Valider que toutes les quantités offertes sont des multiples du taux d'échange approprié
     for (const [resourceType, quantity] of offeredResources.entries()) {
       if (quantity > 0) {
-        const tradeRate = this.getTradeRateForResource(civId, map, resourceType);
+        const tradeRate = this.getTradeRateForResource(civId, map, resourceType, modifiers);
         if (quantity % tradeRate !== 0) {
           throw new Error(
             localize('trade.error.mustBeMultipleOffered', { resource: String(resourceType), rate: String(tradeRate), quantity: String(quantity) })
@@ -333,7 +378,7 @@ export class TradeController {
         if (fromResource === toResource) continue; // Ne pas échanger contre la même ressource
 
         // Calculer combien d'échanges on peut faire avec cette ressource offerte
-        const resourceTradeRate = this.getTradeRateForResource(civId, map, fromResource);
+        const resourceTradeRate = this.getTradeRateForResource(civId, map, fromResource, modifiers);
         const availableOffers = offeredQty / resourceTradeRate;
         const neededExchanges = remainingToReceive / this.TRADE_RECEIVED;
         const exchangesToDo = Math.min(availableOffers, neededExchanges);
@@ -365,11 +410,19 @@ export class TradeController {
     // Cela permet plus de flexibilité dans la composition de l'échange
 
     // Effectuer tous les échanges validés
+    const given = new Map<ResourceType, number>();
+    const received = new Map<ResourceType, number>();
     for (const trade of tradesToPerform) {
       for (let i = 0; i < trade.count; i++) {
-        this.performTrade(trade.from, trade.to, civId, map, playerResources);
+        const rate = this.getTradeRateForResource(civId, map, trade.from, modifiers);
+        const before = playerResources.getResource(trade.to);
+        this.performTrade(trade.from, trade.to, civId, map, playerResources, modifiers);
+        given.set(trade.from, (given.get(trade.from) ?? 0) + rate);
+        received.set(trade.to, (received.get(trade.to) ?? 0) + playerResources.getResource(trade.to) - before);
       }
     }
+    GameEventBus.emit(GameEventType.TradePerformed, { civId, given, received, automatic: false });
+    GameEventBus.emit(GameEventType.ResourceChanged, { civId, resources: playerResources });
   }
 
   /**
@@ -381,16 +434,19 @@ export class TradeController {
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel, pour les recherches commerciales)
+   * @returns L'échange effectué, ou null si aucun commerce automatique n'a eu lieu
    */
   static handleAutoTrade(
     harvestedResource: ResourceType,
     civId: CivilizationId,
     map: IslandMap,
-    resources: PlayerResources
-  ): void {
+    resources: PlayerResources,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): AutoTradeResult | null {
     // Vérifier que le commerce est possible
-    if (!this.canTrade(civId, map)) {
-      return;
+    if (!this.canTrade(civId, map, modifiers)) {
+      return null;
     }
 
     // Trouver un port niveau 3 avec auto-trade activé
@@ -398,7 +454,7 @@ export class TradeController {
     let hasAutoTradePort = false;
     
     for (const city of cities) {
-      const seaport = city.getBuilding(BuildingType.Seaport);
+      const seaport = this.getOpenSeaport(city, modifiers);
       if (seaport && seaport.level === 3 && seaport.isAutoTradeEnabled()) {
         const specialization = seaport.getSpecialization();
         // Le commerce automatique fonctionne seulement si la ressource récoltée correspond à la spécialisation
@@ -410,7 +466,7 @@ export class TradeController {
     }
 
     if (!hasAutoTradePort) {
-      return; // Aucun port avec auto-trade activé pour cette ressource
+      return null; // Aucun port avec auto-trade activé pour cette ressource
     }
 
     // Trouver la ressource avec la quantité la plus faible (en excluant la ressource récoltée)
@@ -432,21 +488,46 @@ export class TradeController {
 
     // Si aucune ressource cible trouvée, ne pas faire de commerce
     if (targetResource === null) {
-      return;
+      return null;
     }
 
     // Vérifier qu'on peut effectuer le commerce
-    if (!this.canPerformTrade(harvestedResource, targetResource, civId, map, resources)) {
-      return;
+    if (!this.canPerformTrade(harvestedResource, targetResource, civId, map, resources, modifiers)) {
+      return null;
     }
 
     // Effectuer le commerce automatique
     try {
-      this.performTrade(harvestedResource, targetResource, civId, map, resources);
+      const rate = this.getTradeRateForResource(civId, map, harvestedResource, modifiers);
+      const before = resources.getResource(targetResource);
+      this.performTrade(harvestedResource, targetResource, civId, map, resources, modifiers);
+      const receivedAmount = resources.getResource(targetResource) - before;
+      GameEventBus.emit(GameEventType.TradePerformed, {
+        civId,
+        given: new Map([[harvestedResource, rate]]),
+        received: new Map([[targetResource, receivedAmount]]),
+        automatic: true,
+      });
+      return {
+        given: harvestedResource,
+        received: targetResource,
+        receivedAmount,
+      };
     } catch (error) {
       // Ignorer les erreurs silencieusement pour le commerce automatique
       // (pour éviter de perturber le gameplay)
       console.debug('Commerce automatique échoué:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Retourne le port maritime d'une ville s'il n'est pas bloqué par une tempête.
+   */
+  private static getOpenSeaport(city: City, modifiers: GameModifiers): Building | undefined {
+    if (modifiers.isSeaportBlocked(city.vertex)) {
+      return undefined;
     }
+    return city.getBuilding(BuildingType.Seaport);
   }
 }
@@ -0,0 +1,383 @@
+import { IslandState } from '../model/game/IslandState';
+import { PlayerAction, PlayerActionKind } from '../model/game/ActionHistory';
+import { ConstructionKind, ConstructionSite } from '../model/game/ConstructionQueue';
+import { PlayerResources } from '../model/game/PlayerResources';
+import { IslandMap } from '../model/map/IslandMap';
+import { Edge } from '../model/hex/Edge';
+import { Vertex } from '../model/hex/Vertex';
+import { ResourceType } from '../model/map/ResourceType';
+import { City } from '../model/city/City';
+import { BuildingType } from '../model/city/BuildingType';
+import { CityLevel } from '../model/city/CityLevel';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { ConstructionController } from './ConstructionController';
+import { TradeController } from './TradeController';
+import { GameEventBus, GameEventType } from './GameEventBus';
+import { localize } from '../i18n';
+
+/**
+ * Contrôleur de l'annulation des actions du joueur (constructions et échanges).
+ *
+ * Seule la dernière action de l'historique peut être annulée, pendant un court délai de jeu,
+ * et seulement si rien n'en dépend. Un chantier en cours est retiré de la file ; une construction
+ * déjà achevée est retirée de la carte. Dans les deux cas, le coût payé est remboursé.
+ * Une action annulée peut être rétablie : elle est rejouée au prix et au temps de jeu actuels.
+ */
+export class UndoController {
+  /** Délai pendant lequel une action peut être annulée (en secondes de jeu). */
+  static readonly UNDO_GRACE_SECONDS = 30;
+
+  /**
+   * Indique pourquoi la dernière action ne peut pas être annulée.
+   * @param islandState - L'état de l'île (carte, ressources, chantiers et historique)
+   * @param modifiers - Les modificateurs de jeu (optionnel, emplacements de bâtiment)
+   * @returns La raison localisée, ou null si l'annulation est possible
+   */
+  static getUndoBlocker(
+    islandState: IslandState,
+    modifiers: GameModifiers = GameModifiers.NONE
+  ): string | null {
+    const action = islandState.getActionHistory().peekUndo();
+    if (!action) {
+      return localize('undo.blocked.nothing');
+    }
+    const map = islandState.getIslandMap();
+    if (!map) {
+      return localize('error.mapUnavailable');
+    }
+    if (islandState.getGameClock().getCurrentTime() - action.time > this.UNDO_GRACE_SECONDS) {
+      return localize('undo.blocked.expired', { seconds: String(this.UNDO_GRACE_SECONDS) });
+    }
+
+    if (action.kind === PlayerActionKind.Trade) {
+      const resources = islandState.getPlayerResources();
+      for (const [resourceType, amount] of action.delta!.entries()) {
+        if (amount > 0 && !resources.hasEnough(resourceType, amount)) {
+          return localize('undo.blocked.resourcesSpent');
+        }
+      }
+      return null;
+    }
+
+    const site = action.site!;
+    // Chantier encore en cours : rien ne peut en dépendre
+    if (islandState.getConstructionQueue().getSites().includes(site)) {
+      return null;
+    }
+    return this.getCompletedBlocker(action, site, islandState, map, modifiers);
+  }
+
+  /**
+   * Vérifie si la dernière action peut être annulée.
+   */
+  static canUndo(islandState: IslandState, modifiers: GameModifiers = GameModifiers.NONE): boolean {
+    return this.getUndoBlocker(islandState, modifiers) === null;
+  }
+
+  /**
+   * Annule la dernière action : retire le chantier ou la construction et rembourse son coût,
+   * ou inverse l'échange.
+   * @param islandState - L'état de l'île
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @returns L'action annulée
+   * @throws Error si l'action ne peut pas être annulée
+   */
+  static undo(islandState: IslandState, modifiers: GameModifiers = GameModifiers.NONE): PlayerAction {
+    const blocker = this.getUndoBlocker(islandState, modifiers);
+    if (blocker !== null) {
+      throw new Error(blocker);
+    }
+    const history = islandState.getActionHistory();
+    const action = history.peekUndo()!;
+    const resources = islandState.getPlayerResources();
+
+    if (action.kind === PlayerActionKind.Trade) {
+      for (const [resourceType, amount] of action.delta!.entries()) {
+        if (amount > 0) {
+          resources.removeResource(resourceType, amount);
+        } else if (amount < 0) {
+          resources.addResource(resourceType, -amount);
+        }
+      }
+    } else {
+      const site = action.site!;
+      const civId = islandState.getPlayerCivilizationId();
+      const completed = !islandState.getConstructionQueue().remove(site);
+      if (completed) {
+        this.removeCompleted(site, islandState.getIslandMap()!);
+      }
+      for (const [resourceType, amount] of site.cost.entries()) {
+        resources.addResource(resourceType, amount);
+      }
+      GameEventBus.emit(GameEventType.ConstructionUndone, { civId, site, completed });
+      // Retirer ou rétrograder l'Hôtel de ville fait redescendre la ville d'un niveau
+      if (completed && site.buildingType === BuildingType.TownHall) {
+        const city = this.getCity(site, islandState.getIslandMap()!);
+        GameEventBus.emit(GameEventType.CityUpgraded, { civId, vertex: city.vertex, level: city.level });
+      }
+    }
+
+    history.markUndone();
+    GameEventBus.emit(GameEventType.ResourceChanged, { civId: islandState.getPlayerCivilizationId(), resources });
+    return action;
+  }
+
+  /**
+   * Vérifie si une action annulée peut être rétablie.
+   */
+  static canRedo(islandState: IslandState): boolean {
+    return islandState.getActionHistory().peekRedo() !== undefined;
+  }
+
+  /**
+   * Rétablit la dernière action annulée, en la rejouant (coût et durée actuels).
+   * @param islandState - L'état de l'île
+   * @param modifiers - Les modificateurs de jeu (optionnel)
+   * @returns L'action rejouée
+   * @throws Error si l'action n'est plus possible (emplacement pris, ressources insuffisantes...)
+   */
+  static redo(islandState: IslandState, modifiers: GameModifiers = GameModifiers.NONE): PlayerAction {
+    const history = islandState.getActionHistory();
+    const action = history.peekRedo();
+    if (!action) {
+      throw new Error(localize('undo.blocked.nothingToRedo'));
+    }
+    const map = islandState.getIslandMap();
+    if (!map) {
+      throw new Error(localize('error.mapUnavailable'));
+    }
+
+    let redone: PlayerAction;
+    switch (action.kind) {
+      case PlayerActionKind.Road:
+        redone = this.createConstructionAction(
+          action.kind, ConstructionController.startRoad(action.site!.edge!, islandState, modifiers), islandState
+        );
+        break;
+      case PlayerActionKind.Outpost:
+        redone = this.createConstructionAction(
+          action.kind, ConstructionController.startOutpost(action.site!.vertex!, islandState, modifiers), islandState
+        );
+        break;
+      case PlayerActionKind.Building:
+        redone = this.createConstructionAction(
+          action.kind,
+          ConstructionController.startBuilding(action.site!.buildingType!, this.getCity(action.site!, map), islandState, modifiers),
+          islandState
+        );
+        break;
+      case PlayerActionKind.BuildingUpgrade:
+        redone = this.createConstructionAction(
+          action.kind,
+          ConstructionController.startUpgrade(action.site!.buildingType!, this.getCity(action.site!, map), islandState, modifiers),
+          islandState
+        );
+        break;
+      case PlayerActionKind.Trade: {
+        const resources = islandState.getPlayerResources();
+        const before = resources.getAllResources();
+        TradeController.performBatchTrade(
+          action.offered!, action.requested!, islandState.getPlayerCivilizationId(), map, resources, modifiers
+        );
+        redone = this.createTradeAction(action.offered!, action.requested!, before, islandState);
+        break;
+      }
+    }
+
+    history.markRedone(redone);
+    return redone;
+  }
+
+  /**
+   * Crée l'action d'historique d'un chantier qui vient d'être démarré.
+   * @param kind - Le type d'action
+   * @param site - Le chantier créé
+   * @param islandState - L'état de l'île (horloge, et ville pour le niveau visé d'une amélioration)
+   */
+  static createConstructionAction(kind: PlayerActionKind, site: ConstructionSite, islandState: IslandState): PlayerAction {
+    const action: PlayerAction = { kind, time: islandState.getGameClock().getCurrentTime(), site };
+    if (site.kind === ConstructionKind.BuildingUpgrade) {
+      const building = islandState.getIslandMap()?.getCity(site.vertex!)?.getBuilding(site.buildingType!);
+      action.targetLevel = (building?.level ?? 0) + 1;
+    }
+    return action;
+  }
+
+  /**
+   * Crée l'action d'historique d'un échange qui vient d'être effectué.
+   * @param offered - Les ressources offertes
+   * @param requested - Les ressources demandées
+   * @param before - Les ressources du joueur avant l'échange
+   * @param islandState - L'état de l'île (ressources après l'échange et horloge)
+   */
+  static createTradeAction(
+    offered: Map<ResourceType, number>,
+    requested: Map<ResourceType, number>,
+    before: Map<ResourceType, number>,
+    islandState: IslandState
+  ): PlayerAction {
+    return {
+      kind: PlayerActionKind.Trade,
+      time: islandState.getGameClock().getCurrentTime(),
+      offered: new Map(offered),
+      requested: new Map(requested),
+      delta: this.getResourceDelta(before, islandState.getPlayerResources()),
+    };
+  }
+
+  /**
+   * Raison pour laquelle une construction achevée ne peut pas être retirée de la carte.
+   * Les vérifications de dépendance sont faites sur la carte, en ignorant la construction retirée.
+   */
+  private static getCompletedBlocker(
+    action: PlayerAction,
+    site: ConstructionSite,
+    islandState: IslandState,
+    map: IslandMap,
+    modifiers: GameModifiers
+  ): string | null {
+    const civId = islandState.getPlayerCivilizationId();
+    const queue = islandState.getConstructionQueue();
+
+    switch (site.kind) {
+      case ConstructionKind.Road: {
+        if (!map.getRoadOwner(site.edge!)?.equals(civId)) {
+          return localize('undo.blocked.constructionGone');
+        }
+        const removed = { edge: site.edge! };
+        // Un avant-poste atteint par cette route ne toucherait plus aucune route
+        // (la première ville de la civilisation n'a pas besoin de route)
+        const firstCity = map.getCitiesByCivilization(civId)[0];
+        const strandedCity = map.getVerticesForEdge(site.edge!).some(vertex =>
+          map.getCityOwner(vertex)?.equals(civId)
+          && !(firstCity && vertex.equals(firstCity.vertex))
+          && !this.touchesCivRoad(vertex, map, islandState, removed)
+        );
+        if (strandedCity || !this.isRoadNetworkConnectedWithout(map, islandState, removed)) {
+          return localize('undo.blocked.roadInUse');
+        }
+        return null;
+      }
+      case ConstructionKind.Outpost: {
+        const city = map.getCity(site.vertex!);
+        if (!city || !city.owner.equals(civId)) {
+          return localize('undo.blocked.constructionGone');
+        }
+        if (city.getBuildingCount() > 0 || queue.getSites().some(s => s.vertex?.equals(site.vertex!))) {
+          return localize('undo.blocked.outpostInUse');
+        }
+        if (!this.isRoadNetworkConnectedWithout(map, islandState, { vertex: site.vertex! })) {
+          return localize('undo.blocked.outpostInUse');
+        }
+        return null;
+      }
+      case ConstructionKind.Building:
+      case ConstructionKind.BuildingUpgrade: {
+        const city = map.getCity(site.vertex!);
+        const building = city?.getBuilding(site.buildingType!);
+        const expectedLevel = site.kind === ConstructionKind.Building ? 1 : action.targetLevel;
+        if (!city || !building || building.level !== expectedLevel) {
+          return localize('undo.blocked.constructionGone');
+        }
+        if (queue.hasBuildingSite(city.vertex, site.buildingType!, ConstructionKind.BuildingUpgrade)) {
+          return localize('undo.blocked.buildingInUse');
+        }
+        // Retirer ou rétrograder l'Hôtel de ville baisse le niveau de la ville et son nombre d'emplacements
+        if (site.buildingType === BuildingType.TownHall) {
+          const removed = site.kind === ConstructionKind.Building ? 1 : 0;
+          const level = (building.level - 1) as CityLevel;
+          const used = city.getBuildingCount() - removed + queue.countBuildingSites(city.vertex);
+          if (used > City.getMaxBuildingsForLevel(level, modifiers.getExtraBuildingSlots())) {
+            return localize('undo.blocked.cityLevelInUse');
+          }
+        }
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Vérifie que, sans la route ou la ville retirée, toutes les routes de la civilisation restent reliées
+   * à une ville et que les chantiers de route et d'avant-poste restent constructibles.
+   * Retirer une construction ne fait qu'allonger les distances : la distance minimale d'un avant-poste
+   * aux villes reste respectée.
+   */
+  private static isRoadNetworkConnectedWithout(
+    map: IslandMap,
+    islandState: IslandState,
+    removed: { edge?: Edge; vertex?: Vertex }
+  ): boolean {
+    const civId = islandState.getPlayerCivilizationId();
+    if (!map.isRoadNetworkConnectedWithout(civId, removed)) {
+      return false;
+    }
+    return islandState.getConstructionQueue().getSites().every(s => {
+      if (s.kind === ConstructionKind.Road) {
+        return map.getVerticesForEdge(s.edge!).some(vertex =>
+          (!(removed.vertex && vertex.equals(removed.vertex)) && map.getCityOwner(vertex)?.equals(civId))
+          || this.touchesCivRoad(vertex, map, islandState, removed)
+        );
+      }
+      if (s.kind === ConstructionKind.Outpost) {
+        return this.touchesCivRoad(s.vertex!, map, islandState, removed);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Vérifie si un sommet touche une route de la civilisation du joueur, hors route retirée.
+   */
+  private static touchesCivRoad(
+    vertex: Vertex,
+    map: IslandMap,
+    islandState: IslandState,
+    removed: { edge?: Edge }
+  ): boolean {
+    const civId = islandState.getPlayerCivilizationId();
+    return map.getEdgesForVertex(vertex).some(edge =>
+      !(removed.edge && edge.equals(removed.edge)) && map.getRoadOwner(edge)?.equals(civId)
+    );
+  }
+
+  /**
+   * Retire de la carte la construction d'un chantier achevé.
+   */
+  private static removeCompleted(site: ConstructionSite, map: IslandMap): void {
+    switch (site.kind) {
+      case ConstructionKind.Road:
+        map.removeRoad(site.edge!);
+        return;
+      case ConstructionKind.Outpost:
+        map.removeCity(site.vertex!);
+        return;
+      case ConstructionKind.Building:
+        this.getCity(site, map).removeBuilding(site.buildingType!);
+        return;
+      case ConstructionKind.BuildingUpgrade: {
+        const city = this.getCity(site, map);
+        city.setBuildingLevel(site.buildingType!, city.getBuildingLevel(site.buildingType!)! - 1);
+        return;
+      }
+    }
+  }
+
+  private static getCity(site: ConstructionSite, map: IslandMap): City {
+    const city = map.getCity(site.vertex!);
+    if (!city) {
+      throw new Error(localize('construction.error.cityNotFound'));
+    }
+    return city;
+  }
+
+  private static getResourceDelta(before: Map<ResourceType, number>, after: PlayerResources): Map<ResourceType, number> {
+    const delta = new Map<ResourceType, number>();
+    for (const [resourceType, amount] of after.getAllResources().entries()) {
+      const change = amount - (before.get(resourceType) ?? 0);
+      if (change !== 0) {
+        delta.set(resourceType, change);
+      }
+    }
+    return delta;
+  }
+}
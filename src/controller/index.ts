@@ -9,7 +9,20 @@ export { MapGenerator, type MapGeneratorConfig } from './MapGenerator';
 export { RoadController } from './RoadController';
 export { ResourceHarvestController } from './ResourceHarvestController';
 export { BuildingController, type BuildableBuildingStatus } from './BuildingController';
-export { TradeController } from './TradeController';
+export { TradeController, type AutoTradeResult } from './TradeController';
 export { BuildingProductionController, type BuildingProductionResult } from './BuildingProductionController';
 export { OutpostController } from './OutpostController';
 export { PrestigeController, type PrestigeActionResult } from './PrestigeController';
+export { DivineController, type AscensionResult } from './DivineController';
+export { OfflineProgressController, type OfflineProgressSummary, type OfflineProgressOptions } from './OfflineProgressController';
+export { ConstructionController } from './ConstructionController';
+export { RivalController } from './RivalController';
+export { ResearchController } from './ResearchController';
+export { FaithController } from './FaithController';
+export { ExcavationController, ExcavationFind, type ExcavationResult } from './ExcavationController';
+export { IslandEventController, type IslandEventResult } from './IslandEventController';
+export { UndoController } from './UndoController';
+export { CommandController, CommandId, type CommandStatus } from './CommandController';
+export { StatisticsController, type MapTotals } from './StatisticsController';
+export { AchievementController } from './AchievementController';
+export { GameEventBus, GameEventType, AutomationActionKind, type GameEventPayloads, type GameEventHandler } from './GameEventBus';
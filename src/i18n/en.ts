@@ -49,6 +49,7 @@ const en: Record<string, string> = {
   "resource.wheat": "Wheat",
   "resource.sheep": "Sheep",
   "resource.ore": "Ore",
+  "resource.tools": "Tools",
   "trade.title.offered": "You give",
   "trade.title.requested": "You receive",
   "port.specialization.blocked": "This resource is already specialized by another port of your civilization",
@@ -60,11 +61,14 @@ const en: Record<string, string> = {
   "error.specializationFailed": "Specialization failed:",
   "error.specializationFailedDetail": "Specialization failed: {detail}",
   "island.hexNotExist": "Hex at coordinate {coord} does not exist in the grid.",
+  "island.invalidHexYield": "Invalid yield for hex {coord}: {value}.",
   "island.civNotRegistered": "Civilization {civ} is not registered.",
   "island.cityExists": "A city already exists on vertex {vertex}.",
   "island.vertexInvalid": "Vertex {vertex} is not valid in the grid.",
   "island.routeExists": "A route already exists on edge {edge}.",
   "island.edgeInvalid": "Edge {edge} is not valid in the grid.",
+  "island.cityNotFound": "No city on vertex {vertex}.",
+  "island.routeNotFound": "No road on edge {edge}.",
   "edge.distanceNotOne": "Hexes must be adjacent to form an edge. Distance: {distance}",
   "edge.hexNotConnected": "The provided hex is not connected to this edge.",
   "edge.verticesNotShared": "Hexes do not share exactly two vertices.",
@@ -98,6 +102,7 @@ const en: Record<string, string> = {
   "building.forge": "Forge",
   "building.library": "Library",
   "building.temple": "Temple",
+  "building.excavation": "Excavation site",
   "building.buildersGuild": "Builders' Guild",
   "building.desc.townHall": "Allows upgrading the city level and unlocks additional capabilities.",
   "building.desc.market": "Enables trading resources and unlocks marketplace actions.",
@@ -107,10 +112,11 @@ const en: Record<string, string> = {
   "building.desc.sheepfold": "Improves Sheep production for this city.",
   "building.desc.mine": "Improves Ore production for this city.",
   "building.desc.seaport": "Enables maritime trade and port actions (specialization, prestige).",
-  "building.desc.warehouse": "Increases civilization-wide resource storage capacity.",
-  "building.desc.forge": "Improves ore processing and unlocks forge-related upgrades.",
-  "building.desc.library": "Increases knowledge production and unlocks research improvements.",
-  "building.desc.temple": "Grants civilization points to your civilization.",
+  "building.desc.warehouse": "Increases civilization-wide resource storage capacity and protects part of the stock from bandit raids.",
+  "building.desc.forge": "Turns ore and wood into tools and speeds up the city's mine. Tools are required for high-tier upgrades.",
+  "building.desc.library": "Produces knowledge over time, spent in the research tree. Each level speeds up production.",
+  "building.desc.temple": "Grants civilization points and produces faith, spent on temporary blessings. Each level produces more faith. A temple at the edge of the desert (oasis) produces more.",
+  "building.desc.excavation": "Digs an adjacent desert and regularly unearths finds: resources, tools or relics (civilization points until the next prestige). Each level digs faster and finds more.",
   "building.desc.buildersGuild": "Unlocks automation options to build and upgrade automatically.",
   "building.upgrade.tooltip": "Upgrade the building. Cost: {cost}",
   "buildingAction.trade": "Trade",
@@ -127,6 +133,8 @@ const en: Record<string, string> = {
   "inventory.civilizationPoints": "Civilization Points",
   "city.levelFallback": "Level {level}",
   "label.auto": "auto",
+  "label.excavation": "dig",
+  "label.oasis": "oasis",
   "label.levelShort": "Lvl.",
   "automation.name.road": "Auto roads",
   "automation.name.outpost": "Auto outposts",
@@ -160,6 +168,7 @@ const en: Record<string, string> = {
   "building.error.maxLevel": "The building {building} is already at max level ({level}).",
   "building.error.capitalExists": "A Capital already exists. Only one Capital is allowed per civilization.",
   "building.error.insufficientResources": "Insufficient resources. Cost required: {cost}.",
+  "building.error.limitReached": "Building limit reached for this city level.",
   "mapGenerator.error.atLeastOneCiv": "At least one civilization is required.",
   "mapGenerator.error.negativeResourceDistribution": "Resource distribution cannot contain negative values.",
   "mapGenerator.error.atLeastOneHex": "At least one hex is required (resource distribution empty).",
@@ -171,7 +180,253 @@ const en: Record<string, string> = {
   "error.mapOrCivUnavailable": "Game map or civilization not available",
   "error.buildingConstructionFailed": "Building construction failed:",
   "mapGenerator.error.initialCityFailed": "Failed to create initial city on vertex Wood({woodQ},{woodR})-Clay({brickQ},{brickR})-Water",
+  "mapGenerator.error.rivalCityFailed": "No location available for the initial city of civilization {civ}.",
   "error.loadSaveFailed": "Failed to load save:",
+  "offline.title": "While you were away",
+  "offline.duration": "You were away for {duration}.",
+  "offline.capped": "Offline progress is limited to {duration}.",
+  "offline.durationSeconds": "{seconds} s",
+  "offline.durationMinutes": "{minutes} min",
+  "offline.durationHours": "{hours} h {minutes} min",
+  "offline.resourcesTitle": "Resources",
+  "offline.constructionsTitle": "Constructions",
+  "offline.noResources": "No change in resources.",
+  "offline.noConstructions": "Nothing was built.",
+  "offline.roadsBuilt": "Roads built: {count}",
+  "offline.outpostsBuilt": "Outposts built: {count}",
+  "offline.buildingsBuilt": "Buildings built: {count}",
+  "offline.buildingLevelsGained": "Building upgrades: {count}",
+  "offline.close": "Continue",
+  "divine.title": "Divine",
+  "divine.panelTitle": "Divine layer",
+  "divine.godPoints": "God points: {points}",
+  "divine.ascensions": "Ascensions: {count}",
+  "divine.ascendTitle": "Ascension",
+  "divine.ascendDescription": "A civilization at its apex can ascend: its prestige is converted into god points, then everything is reset except your divine powers.",
+  "divine.ascendGain": "God points to gain: +{points}",
+  "divine.ascendBtn": "Ascend",
+  "divine.ascendConfirm": "Do you confirm the ascension? You will gain {points} god points, but prestige and the Prestige map will be lost.",
+  "divine.ascended": "Ascension complete! {points} god points gained.",
+  "divine.reason.notEnoughPrestige": "{needed} more prestige points required (currently: {current}).",
+  "divine.powersTitle": "Divine powers",
+  "divine.powerLevel": "Level {level}/{max}",
+  "divine.powerCost": "{cost} god pts",
+  "divine.powerMaxed": "Maxed",
+  "divine.buy": "Buy",
+  "divine.close": "Close",
+  "divine.power.StartingResources.label": "Offerings",
+  "divine.power.StartingResources.description": "Each level adds {amount} of every resource at the start of the game.",
+  "divine.power.StartingCityLevel.label": "Blessed foundation",
+  "divine.power.StartingCityLevel.description": "The starting city begins one level higher per level (up to Town).",
+  "divine.power.AutomationUnlock.label": "Divine builders",
+  "divine.power.AutomationUnlock.description": "Enables automations from the start: roads, then outposts and cities, then production buildings.",
+  "construction.error.alreadyInProgress": "A construction is already in progress at this location.",
+  "construction.error.roadNotBuildable": "The road cannot be built on this edge.",
+  "construction.error.outpostNotBuildable": "The outpost cannot be built on this vertex.",
+  "construction.error.outpostTooClose": "An outpost is already under construction too close to this vertex.",
+  "construction.error.buildingNotBuildable": "Building {building} cannot be started in this city.",
+  "construction.error.upgradeNotPossible": "Building {building} cannot be upgraded right now.",
+  "construction.error.insufficientResources": "Not enough resources to start this construction.",
+  "construction.error.cityNotFound": "The construction's city could not be found.",
+  "menu.saveSlots": "Save slots",
+  "saveSlots.title": "Save slots",
+  "saveSlots.defaultName": "Game {n}",
+  "saveSlots.active": "current",
+  "saveSlots.empty": "Empty slot",
+  "saveSlots.details": "Seed {seed} · Play time {playTime} · {civPoints} civilization points · Prestige {prestige} · Saved {savedAt} · v{version}",
+  "saveSlots.playTime": "{hours} h {minutes} min",
+  "saveSlots.load": "Load",
+  "saveSlots.export": "Export",
+  "saveSlots.import": "Import",
+  "saveSlots.delete": "Delete",
+  "saveSlots.new": "New slot",
+  "saveSlots.close": "Close",
+  "saveSlots.prompt.name": "Name of the new slot:",
+  "saveSlots.confirm.delete": "Delete slot \"{name}\"? This cannot be undone.",
+  "saveSlots.error.empty": "This slot does not contain a save.",
+  "saveSlots.error.missing": "This slot no longer exists.",
+  "error.save.invalidField": "Invalid save data: {path} should be of type {expected}",
+  "error.save.newerSchema": "Save created by a newer version of the game (schema {version}, highest supported {max})",
+  "error.save.missingMigration": "No save migration from schema {version}",
+  "simulation.error.invalidOptions": "Invalid simulation options: duration, tick and sample interval must be positive, and the tick a multiple of 0.1 s.",
+  "simulation.error.loadFailed": "Unable to load the simulation starting save.",
+  "simulation.error.invalidArgument": "Invalid argument: {arg}",
+  "simulation.error.unknownStrategy": "Unknown strategy: {name} (available: {available})",
+  "simulation.summary": "Simulation {strategy} (seed {seed}, {hours} h) — capital: {capital}, prestige: {prestige}",
+  "menu.rivals": "Rivals (new map): {difficulty}",
+  "rivals.none": "none",
+  "rivals.Easy": "easy",
+  "rivals.Normal": "normal",
+  "rivals.Hard": "hard",
+  "error.buildings.invalidField": "Invalid building definitions: {path} should be {expected}",
+  "error.buildings.missing": "Invalid building definitions: no definition for {building}",
+  "error.buildings.unknown": "Invalid building definitions: unknown building type {building}",
+  "inventory.knowledge": "Knowledge",
+  "research.title": "Research",
+  "research.hint": "Spend the knowledge produced by your libraries.",
+  "research.panelTitle": "Research",
+  "research.description": "Your libraries produce knowledge. Spend it to unlock research; each research requires the previous ones to be unlocked.",
+  "research.close": "Close",
+  "research.knowledge": "{knowledge} knowledge",
+  "research.production": "Library production: {amount} / min",
+  "research.cost": "{cost} knowledge",
+  "research.unlocked": "Unlocked",
+  "research.unlock": "Research",
+  "research.requires": "Requires: {nodes}",
+  "research.error.notEnoughKnowledge": "Not enough knowledge: {current} available, {required} required",
+  "error.research.invalidField": "Invalid research tree: {path} should be {expected}",
+  "error.research.unknownNode": "Invalid research tree: unknown node {node}",
+  "research.paving.name": "Paving",
+  "research.paving.description": "Roads cost 20% less.",
+  "research.agronomy.name": "Agronomy",
+  "research.agronomy.description": "The delay between two manual harvests is reduced by 25%.",
+  "research.urbanPlanning.name": "Urban Planning",
+  "research.urbanPlanning.description": "Each city can build one more building.",
+  "research.accounting.name": "Accounting",
+  "research.accounting.description": "Trades require one less resource (minimum 2:1).",
+  "research.engineering.name": "Engineering",
+  "research.engineering.description": "Roads cost a further 20% less.",
+  "research.irrigation.name": "Irrigation",
+  "research.irrigation.description": "The delay between two manual harvests is reduced by a further 25%.",
+  "research.architecture.name": "Architecture",
+  "research.architecture.description": "Each city can build another extra building.",
+  "inventory.faith": "Faith",
+  "faith.title": "Temple",
+  "faith.hint": "Spend the faith produced by your temples on temporary blessings.",
+  "faith.panelTitle": "Temple",
+  "faith.description": "Your temples produce faith. Spend it on temporary blessings; a blessing cannot be renewed while it is active.",
+  "faith.close": "Close",
+  "faith.amount": "{faith} faith",
+  "faith.production": "Temple production: {amount} / min",
+  "faith.cost": "{cost} faith · {seconds} s",
+  "faith.active": "Active: {seconds} s left",
+  "faith.activate": "Invoke",
+  "faith.error.notEnoughFaith": "Not enough faith: {current} available, {required} required",
+  "blessing.BountifulHarvest.name": "Bountiful Harvest",
+  "blessing.BountifulHarvest.description": "Doubles harvests from the chosen hex type, both manual and from production buildings.",
+  "blessing.BoundlessStorage.name": "Boundless Granaries",
+  "blessing.BoundlessStorage.description": "Suspends inventory caps. Any surplus is kept when the blessing ends.",
+  "blessing.SwiftConstruction.name": "Inspired Builders",
+  "blessing.SwiftConstruction.description": "The next construction or upgrade started by an automation completes instantly.",
+  "islandEvent.AbundantHarvest.name": "Abundant harvest",
+  "islandEvent.AbundantHarvest.description": "Harvests of one hex type are doubled, both manual and from production buildings.",
+  "islandEvent.Storm.name": "Storm",
+  "islandEvent.Storm.description": "A storm blocks a seaport: it cannot be used for trade while the storm lasts.",
+  "islandEvent.WanderingTrader.name": "Wandering trader",
+  "islandEvent.WanderingTrader.description": "A trader offers a one-off exchange, with no seaport or market needed, until they leave.",
+  "islandEvent.BanditRaid.name": "Bandit raid",
+  "islandEvent.BanditRaid.description": "Bandits steal a share of one resource. Each warehouse level protects part of the stock.",
+  "islandEvent.trader.offer": "{giveAmount} {give} → {receiveAmount} {receive}",
+  "islandEvent.trader.accept": "Accept",
+  "islandEvent.toast.AbundantHarvest": "Abundant harvest! {resource} harvests are doubled for {seconds}s.",
+  "islandEvent.toast.Storm": "A storm blocks one of your seaports for {seconds}s.",
+  "islandEvent.toast.WanderingTrader": "A wandering trader offers {receiveAmount} {receive} for {giveAmount} {give} for {seconds}s.",
+  "islandEvent.toast.BanditRaid": "Bandits stole {amount} {resource}!",
+  "islandEvent.toast.BanditRaidRepelled": "Bandits were driven off: your warehouses protect your {resource} stock.",
+  "mapGenerator.error.unknownShape": "Unknown island shape: {shape}.",
+  "mapGenerator.error.shapeTooSmall": "The {shape} shape requires at least {min} land hexes.",
+  "newGame.title": "New map",
+  "newGame.description": "Choose the size, resources and shape of the next island.",
+  "newGame.presetLabel": "Preset",
+  "newGame.shapeLabel": "Island shape",
+  "newGame.start": "Generate",
+  "newGame.cancel": "Cancel",
+  "newGame.preset.Small": "Small island",
+  "newGame.preset.Medium": "Medium island",
+  "newGame.preset.Large": "Large island",
+  "newGame.preset.ResourceScarce": "Scarce resources",
+  "newGame.preset.OreRich": "Ore-rich",
+  "newGame.shape.Blob": "Irregular",
+  "newGame.shape.Round": "Round",
+  "newGame.shape.Elongated": "Elongated",
+  "newGame.shape.Archipelago": "Archipelago",
+  "newGame.shape.Lake": "Central lake",
+  "seedCode.error.invalidSeed": "Invalid seed for a share code: {seed}.",
+  "seedCode.error.invalidRivals": "Invalid rival count for a share code: {count}.",
+  "seedCode.error.invalidFormat": "Invalid share code.",
+  "seedCode.error.checksum": "Incorrect share code: check what you typed.",
+  "seedCode.error.distributionMismatch": "This code was created with different preset balancing and cannot be replayed.",
+  "newGame.currentCodeLabel": "This island's code",
+  "newGame.copyCode": "Copy",
+  "newGame.codeCopied": "Copied!",
+  "newGame.codeLabel": "Code to replay",
+  "newGame.codePlaceholder": "Optional",
+  "undo.blocked.nothing": "No action to undo.",
+  "undo.blocked.nothingToRedo": "No action to redo.",
+  "undo.blocked.expired": "An action can only be undone within {seconds} seconds.",
+  "undo.blocked.resourcesSpent": "The resources received in the trade have already been spent.",
+  "undo.blocked.constructionGone": "This construction no longer exists on the map.",
+  "undo.blocked.roadInUse": "A road or outpost has been built from this road.",
+  "undo.blocked.outpostInUse": "Roads or buildings depend on this outpost.",
+  "undo.blocked.buildingInUse": "An upgrade of this building is in progress.",
+  "undo.blocked.cityLevelInUse": "The city has too many buildings to go back to the previous level.",
+  "history.title": "Action history",
+  "history.undoTitle": "Undo the last action (Ctrl+Z)",
+  "history.redoTitle": "Redo the undone action (Ctrl+Y)",
+  "history.undo": "Undo",
+  "history.redo": "Redo",
+  "history.close": "Close",
+  "history.empty": "No recent actions.",
+  "history.undoAvailable": "The last action can still be undone for {seconds}s.",
+  "history.undoneTitle": "Undone action, can be redone",
+  "history.shortcuts": "Shortcuts: Ctrl+Z to undo, Ctrl+Y or Ctrl+Shift+Z to redo.",
+  "history.action.Road": "Road",
+  "history.action.Outpost": "Outpost",
+  "history.action.Building": "Build: {building}",
+  "history.action.BuildingUpgrade": "Upgrade: {building} level {level}",
+  "history.action.Trade": "Trade: {given} → {received}",
+  "command.title": "Commands",
+  "command.placeholder": "Search a command…",
+  "command.shortcuts": "Ctrl+K or /: palette · B: build · C / Shift+C: switch city · H: harvest all · T: trade · A: automation · P: prestige",
+  "command.noResult": "No matching command.",
+  "command.buildQuery": "Build",
+  "command.key.shift": "Shift",
+  "command.NextCity": "Next city",
+  "command.PreviousCity": "Previous city",
+  "command.HarvestAll": "Harvest around the city",
+  "command.OpenTrade": "Open trade",
+  "command.OpenAutomation": "Open automation",
+  "command.OpenPrestige": "Activate Prestige",
+  "command.Undo": "Undo the last action",
+  "command.Redo": "Redo the undone action",
+  "command.Build": "Build: {building}",
+  "command.reason.noOtherCity": "You do not own another city.",
+  "command.reason.nothingToHarvest": "No hex is ready to harvest around this city.",
+  "statistics.title": "Statistics",
+  "statistics.incomeTitle": "Income per minute (last 5 minutes)",
+  "statistics.historyTitle": "Income history",
+  "statistics.totalsTitle": "Totals",
+  "statistics.levelsTitle": "City levels reached",
+  "statistics.close": "Close",
+  "statistics.resource": "Resource",
+  "statistics.total": "Total",
+  "statistics.source.ManualHarvest": "Harvest",
+  "statistics.source.Building": "Buildings",
+  "statistics.source.Market": "Market",
+  "statistics.source.AutoTrade": "Auto-trade",
+  "statistics.noHistory": "The history fills up every {seconds} seconds of game time.",
+  "statistics.chartLabel": "{resource} ({stock})",
+  "statistics.total.roads": "Roads: {count}",
+  "statistics.total.cities": "Cities: {count}",
+  "statistics.total.buildings": "Buildings: {count}",
+  "statistics.counter.TradesMade": "Trades: {count}",
+  "statistics.counter.AutoTrades": "Automatic trades: {count}",
+  "statistics.counter.ManualHarvests": "Manual harvests: {count}",
+  "statistics.counter.ConstructionsCompleted": "Constructions completed: {count}",
+  "statistics.levelReached": "{level}: {time}",
+  "statistics.notReached": "not reached yet",
+  "achievement.toast": "Achievement unlocked: {name} — {description}",
+  "achievement.FirstCapital.name": "Capital",
+  "achievement.FirstCapital.description": "Raise a city to Capital (+5% harvested resources).",
+  "achievement.MaxSeaport.name": "Master of the seas",
+  "achievement.MaxSeaport.description": "Upgrade a seaport to level 4 (constructions 5% faster).",
+  "achievement.FiveCities.name": "Builder",
+  "achievement.FiveCities.description": "Own five cities (+5% harvested resources).",
+  "achievement.FullAutomation.name": "Autopilot",
+  "achievement.FullAutomation.description": "Enable every automation.",
+  "achievement.FirstPrestige.name": "Legacy",
+  "achievement.FirstPrestige.description": "Earn prestige points (+10% civilization points).",
+  "error.eventHandlerFailed": "A subscriber to event {event} failed:",
 };
 
 export default en;
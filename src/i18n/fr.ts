@@ -49,6 +49,7 @@ const fr: Record<string, string> = {
   "resource.wheat": "Blé",
   "resource.sheep": "Mouton",
   "resource.ore": "Minerai",
+  "resource.tools": "Outils",
   "trade.title.offered": "Vous donnez",
   "trade.title.requested": "Vous recevez",
   "port.specialization.blocked": "Cette ressource est déjà spécialisée par un autre port de votre civilisation",
@@ -60,11 +61,14 @@ const fr: Record<string, string> = {
   "error.specializationFailed": "Erreur lors de la spécialisation:",
   "error.specializationFailedDetail": "Erreur lors de la spécialisation: {detail}",
   "island.hexNotExist": "L'hexagone à la coordonnée {coord} n'existe pas dans la grille.",
+  "island.invalidHexYield": "Rendement invalide pour l'hexagone {coord} : {value}.",
   "island.civNotRegistered": "La civilisation {civ} n'est pas enregistrée.",
   "island.cityExists": "Une ville existe déjà sur le sommet {vertex}.",
   "island.vertexInvalid": "Le sommet {vertex} n'est pas valide dans la grille.",
   "island.routeExists": "Une route existe déjà sur l'arête {edge}.",
   "island.edgeInvalid": "L'arête {edge} n'est pas valide dans la grille.",
+  "island.cityNotFound": "Aucune ville sur le sommet {vertex}.",
+  "island.routeNotFound": "Aucune route sur l'arête {edge}.",
   "edge.distanceNotOne": "Les hexagones doivent être adjacents pour former une arête. Distance: {distance}",
   "edge.hexNotConnected": "L'hexagone fourni n'est pas connecté à cette arête.",
   "edge.verticesNotShared": "Les hexagones ne partagent pas exactement deux vertex.",
@@ -98,6 +102,7 @@ const fr: Record<string, string> = {
   "building.forge": "Forge",
   "building.library": "Bibliothèque",
   "building.temple": "Temple",
+  "building.excavation": "Chantier de fouilles",
   "building.buildersGuild": "Guilde des batisseurs",
   "building.desc.townHall": "Permet d'améliorer le niveau de la ville et débloque des capacités supplémentaires.",
   "building.desc.market": "Permet d'échanger des ressources entre vos villes et débloque le commerce.",
@@ -107,10 +112,11 @@ const fr: Record<string, string> = {
   "building.desc.sheepfold": "Augmente la production de mouton pour cette ville.",
   "building.desc.mine": "Augmente la production de minerai pour cette ville.",
   "building.desc.seaport": "Permet le commerce maritime et actions spéciales du port (spécialisation, prestige).",
-  "building.desc.warehouse": "Augmente la capacité de stockage des ressources pour votre civilisation.",
-  "building.desc.forge": "Améliore la transformation du minerai et débloque des améliorations spécifiques.",
-  "building.desc.library": "Augmente la production de connaissances et débloque certaines améliorations.",
-  "building.desc.temple": "Apporte des points de civilisation à votre civilisation.",
+  "building.desc.warehouse": "Augmente la capacité de stockage des ressources pour votre civilisation et protège une partie du stock des raids de bandits.",
+  "building.desc.forge": "Transforme minerai et bois en outils et accélère la mine de la ville. Les outils sont requis pour les améliorations de haut niveau.",
+  "building.desc.library": "Produit de la connaissance au fil du temps, à dépenser dans l'arbre de recherche. Chaque niveau accélère la production.",
+  "building.desc.temple": "Apporte des points de civilisation et produit de la foi, à dépenser en bénédictions temporaires. Chaque niveau produit plus de foi. Un temple au bord du désert (oasis) produit davantage.",
+  "building.desc.excavation": "Fouille un désert adjacent et exhume régulièrement des trouvailles : ressources, outils ou reliques (points de civilisation jusqu'au prochain prestige). Chaque niveau fouille plus vite et rapporte davantage.",
   "building.desc.buildersGuild": "Débloque des options d'automatisation pour construire et améliorer automatiquement.",
   "building.upgrade.tooltip": "Améliore le bâtiment. Coût: {cost}",
   "buildingAction.trade": "Commerce",
@@ -127,6 +133,8 @@ const fr: Record<string, string> = {
   "inventory.civilizationPoints": "Points de civilisation",
   "city.levelFallback": "Niveau {level}",
   "label.auto": "auto",
+  "label.excavation": "fouilles",
+  "label.oasis": "oasis",
   "label.levelShort": "Niv.",
   "automation.name.road": "Auto routes",
   "automation.name.outpost": "Auto outposts",
@@ -160,6 +168,7 @@ const fr: Record<string, string> = {
   "building.error.maxLevel": "Le bâtiment {building} est déjà au niveau maximum ({level}).",
   "building.error.capitalExists": "Une Capitale existe déjà. Seule une Capitale est autorisée par civilisation.",
   "building.error.insufficientResources": "Ressources insuffisantes. Coût requis: {cost}.",
+  "building.error.limitReached": "Limite de bâtiments atteinte pour le niveau de cette ville.",
   "mapGenerator.error.atLeastOneCiv": "Au moins une civilisation est requise.",
   "mapGenerator.error.negativeResourceDistribution": "La distribution de ressources ne peut pas contenir de valeurs négatives.",
   "mapGenerator.error.atLeastOneHex": "Au moins un hexagone est requis (distribution de ressources vide).",
@@ -171,7 +180,253 @@ const fr: Record<string, string> = {
   "error.mapOrCivUnavailable": "Carte de jeu ou civilisation non disponible",
   "error.buildingConstructionFailed": "Erreur lors de la construction du bâtiment:",
   "mapGenerator.error.initialCityFailed": "Impossible de créer la ville initiale sur le vertex Bois({woodQ},{woodR})-Argile({brickQ},{brickR})-Eau",
+  "mapGenerator.error.rivalCityFailed": "Aucun emplacement disponible pour la ville initiale de la civilisation {civ}.",
   "error.loadSaveFailed": "Échec du chargement de la sauvegarde:",
+  "offline.title": "Pendant votre absence",
+  "offline.duration": "Vous avez été absent pendant {duration}.",
+  "offline.capped": "La progression hors-ligne est limitée à {duration}.",
+  "offline.durationSeconds": "{seconds} s",
+  "offline.durationMinutes": "{minutes} min",
+  "offline.durationHours": "{hours} h {minutes} min",
+  "offline.resourcesTitle": "Ressources",
+  "offline.constructionsTitle": "Constructions",
+  "offline.noResources": "Aucune variation de ressources.",
+  "offline.noConstructions": "Aucune construction.",
+  "offline.roadsBuilt": "Routes construites : {count}",
+  "offline.outpostsBuilt": "Avant-postes construits : {count}",
+  "offline.buildingsBuilt": "Bâtiments construits : {count}",
+  "offline.buildingLevelsGained": "Améliorations de bâtiments : {count}",
+  "offline.close": "Continuer",
+  "divine.title": "Divin",
+  "divine.panelTitle": "Couche divine",
+  "divine.godPoints": "Points divins : {points}",
+  "divine.ascensions": "Ascensions : {count}",
+  "divine.ascendTitle": "Ascension",
+  "divine.ascendDescription": "Votre civilisation à son apogée peut s'élever : son prestige est converti en points divins, puis tout est réinitialisé sauf vos pouvoirs divins.",
+  "divine.ascendGain": "Points divins à gagner : +{points}",
+  "divine.ascendBtn": "S'élever",
+  "divine.ascendConfirm": "Confirmez-vous l'ascension ? Vous gagnerez {points} points divins, mais le prestige et la carte Prestige seront perdus.",
+  "divine.ascended": "Ascension réussie ! {points} points divins obtenus.",
+  "divine.reason.notEnoughPrestige": "{needed} points de prestige supplémentaires requis (actuellement : {current}).",
+  "divine.powersTitle": "Pouvoirs divins",
+  "divine.powerLevel": "Niveau {level}/{max}",
+  "divine.powerCost": "{cost} pts divins",
+  "divine.powerMaxed": "Maximum",
+  "divine.buy": "Acheter",
+  "divine.close": "Fermer",
+  "divine.power.StartingResources.label": "Offrandes",
+  "divine.power.StartingResources.description": "Chaque niveau ajoute {amount} de chaque ressource au début de la partie.",
+  "divine.power.StartingCityLevel.label": "Fondation bénie",
+  "divine.power.StartingCityLevel.description": "La ville initiale commence un niveau plus haut par niveau (jusqu'à Ville).",
+  "divine.power.AutomationUnlock.label": "Bâtisseurs divins",
+  "divine.power.AutomationUnlock.description": "Active des automatisations dès le départ : routes, puis avant-postes et villes, puis bâtiments de production.",
+  "construction.error.alreadyInProgress": "Une construction est déjà en cours à cet emplacement.",
+  "construction.error.roadNotBuildable": "La route ne peut pas être construite sur cette arête.",
+  "construction.error.outpostNotBuildable": "L'avant-poste ne peut pas être construit sur ce sommet.",
+  "construction.error.outpostTooClose": "Un avant-poste est déjà en construction trop près de ce sommet.",
+  "construction.error.buildingNotBuildable": "Le bâtiment {building} ne peut pas être mis en chantier dans cette ville.",
+  "construction.error.upgradeNotPossible": "Le bâtiment {building} ne peut pas être amélioré pour le moment.",
+  "construction.error.insufficientResources": "Pas assez de ressources pour lancer ce chantier.",
+  "construction.error.cityNotFound": "La ville du chantier est introuvable.",
+  "menu.saveSlots": "Emplacements de sauvegarde",
+  "saveSlots.title": "Emplacements de sauvegarde",
+  "saveSlots.defaultName": "Partie {n}",
+  "saveSlots.active": "en cours",
+  "saveSlots.empty": "Emplacement vide",
+  "saveSlots.details": "Seed {seed} · Temps de jeu {playTime} · {civPoints} points de civilisation · Prestige {prestige} · Sauvegardé le {savedAt} · v{version}",
+  "saveSlots.playTime": "{hours} h {minutes} min",
+  "saveSlots.load": "Charger",
+  "saveSlots.export": "Exporter",
+  "saveSlots.import": "Importer",
+  "saveSlots.delete": "Supprimer",
+  "saveSlots.new": "Nouvel emplacement",
+  "saveSlots.close": "Fermer",
+  "saveSlots.prompt.name": "Nom du nouvel emplacement :",
+  "saveSlots.confirm.delete": "Supprimer l'emplacement \"{name}\" ? Cette action est irréversible.",
+  "saveSlots.error.empty": "Cet emplacement ne contient aucune sauvegarde.",
+  "saveSlots.error.missing": "Cet emplacement n'existe plus.",
+  "error.save.invalidField": "Données de sauvegarde invalides: {path} devrait être de type {expected}",
+  "error.save.newerSchema": "Sauvegarde créée par une version plus récente du jeu (schéma {version}, maximum supporté {max})",
+  "error.save.missingMigration": "Aucune migration de sauvegarde depuis le schéma {version}",
+  "simulation.error.invalidOptions": "Options de simulation invalides : la durée, le pas et l'intervalle d'échantillonnage doivent être positifs, et le pas un multiple de 0.1 s.",
+  "simulation.error.loadFailed": "Impossible de charger la sauvegarde de départ de la simulation.",
+  "simulation.error.invalidArgument": "Argument invalide : {arg}",
+  "simulation.error.unknownStrategy": "Stratégie inconnue : {name} (disponibles : {available})",
+  "simulation.summary": "Simulation {strategy} (seed {seed}, {hours} h) — capitale : {capital}, prestige : {prestige}",
+  "menu.rivals": "Rivaux (nouvelle carte) : {difficulty}",
+  "rivals.none": "aucun",
+  "rivals.Easy": "facile",
+  "rivals.Normal": "normal",
+  "rivals.Hard": "difficile",
+  "error.buildings.invalidField": "Définitions de bâtiments invalides: {path} devrait être {expected}",
+  "error.buildings.missing": "Définitions de bâtiments invalides: aucune définition pour {building}",
+  "error.buildings.unknown": "Définitions de bâtiments invalides: type de bâtiment inconnu {building}",
+  "inventory.knowledge": "Connaissance",
+  "research.title": "Recherche",
+  "research.hint": "Dépensez la connaissance produite par vos bibliothèques.",
+  "research.panelTitle": "Recherche",
+  "research.description": "Vos bibliothèques produisent de la connaissance. Dépensez-la pour débloquer des recherches ; chaque recherche nécessite d'avoir débloqué les précédentes.",
+  "research.close": "Fermer",
+  "research.knowledge": "{knowledge} connaissance",
+  "research.production": "Production des bibliothèques : {amount} / min",
+  "research.cost": "{cost} connaissance",
+  "research.unlocked": "Débloquée",
+  "research.unlock": "Rechercher",
+  "research.requires": "Nécessite : {nodes}",
+  "research.error.notEnoughKnowledge": "Connaissance insuffisante : {current} disponible, {required} requise",
+  "error.research.invalidField": "Arbre de recherche invalide: {path} devrait être {expected}",
+  "error.research.unknownNode": "Arbre de recherche invalide: nœud inconnu {node}",
+  "research.paving.name": "Pavage",
+  "research.paving.description": "Les routes coûtent 20% moins cher.",
+  "research.agronomy.name": "Agronomie",
+  "research.agronomy.description": "Le délai entre deux récoltes manuelles est réduit de 25%.",
+  "research.urbanPlanning.name": "Urbanisme",
+  "research.urbanPlanning.description": "Chaque ville peut construire un bâtiment supplémentaire.",
+  "research.accounting.name": "Comptabilité",
+  "research.accounting.description": "Les échanges demandent une ressource de moins (minimum 2:1).",
+  "research.engineering.name": "Ingénierie",
+  "research.engineering.description": "Les routes coûtent encore 20% moins cher.",
+  "research.irrigation.name": "Irrigation",
+  "research.irrigation.description": "Le délai entre deux récoltes manuelles est encore réduit de 25%.",
+  "research.architecture.name": "Architecture",
+  "research.architecture.description": "Chaque ville peut construire un autre bâtiment supplémentaire.",
+  "inventory.faith": "Foi",
+  "faith.title": "Temple",
+  "faith.hint": "Dépensez la foi produite par vos temples en bénédictions temporaires.",
+  "faith.panelTitle": "Temple",
+  "faith.description": "Vos temples produisent de la foi. Dépensez-la en bénédictions temporaires ; une bénédiction ne peut pas être renouvelée tant qu'elle est active.",
+  "faith.close": "Fermer",
+  "faith.amount": "{faith} foi",
+  "faith.production": "Production des temples : {amount} / min",
+  "faith.cost": "{cost} foi · {seconds} s",
+  "faith.active": "Active : {seconds} s restantes",
+  "faith.activate": "Invoquer",
+  "faith.error.notEnoughFaith": "Foi insuffisante : {current} disponible, {required} requise",
+  "blessing.BountifulHarvest.name": "Récolte abondante",
+  "blessing.BountifulHarvest.description": "Double les récoltes du type d'hexagone choisi, manuelles comme celles des bâtiments de production.",
+  "blessing.BoundlessStorage.name": "Greniers sans fond",
+  "blessing.BoundlessStorage.description": "Suspend les plafonds d'inventaire. Le surplus accumulé est conservé à la fin de la bénédiction.",
+  "blessing.SwiftConstruction.name": "Bâtisseurs inspirés",
+  "blessing.SwiftConstruction.description": "La prochaine construction ou amélioration lancée par une automatisation est achevée instantanément.",
+  "islandEvent.AbundantHarvest.name": "Récoltes abondantes",
+  "islandEvent.AbundantHarvest.description": "Les récoltes d'un type d'hexagone sont doublées, manuelles comme celles des bâtiments de production.",
+  "islandEvent.Storm.name": "Tempête",
+  "islandEvent.Storm.description": "Une tempête bloque un port maritime : il ne permet plus de commercer tant qu'elle dure.",
+  "islandEvent.WanderingTrader.name": "Marchand itinérant",
+  "islandEvent.WanderingTrader.description": "Un marchand propose un échange unique, sans port ni marché, jusqu'à son départ.",
+  "islandEvent.BanditRaid.name": "Raid de bandits",
+  "islandEvent.BanditRaid.description": "Des bandits volent une part d'une ressource. Chaque niveau d'entrepôt protège une partie du stock.",
+  "islandEvent.trader.offer": "{giveAmount} {give} → {receiveAmount} {receive}",
+  "islandEvent.trader.accept": "Accepter",
+  "islandEvent.toast.AbundantHarvest": "Récoltes abondantes ! Les récoltes de {resource} sont doublées pendant {seconds} s.",
+  "islandEvent.toast.Storm": "Une tempête bloque un de vos ports maritimes pendant {seconds} s.",
+  "islandEvent.toast.WanderingTrader": "Un marchand itinérant propose {receiveAmount} {receive} contre {giveAmount} {give} pendant {seconds} s.",
+  "islandEvent.toast.BanditRaid": "Des bandits ont volé {amount} {resource} !",
+  "islandEvent.toast.BanditRaidRepelled": "Des bandits ont été repoussés : vos entrepôts protègent votre stock de {resource}.",
+  "mapGenerator.error.unknownShape": "Forme d'île inconnue : {shape}.",
+  "mapGenerator.error.shapeTooSmall": "La forme {shape} nécessite au moins {min} hexagones terrestres.",
+  "newGame.title": "Nouvelle carte",
+  "newGame.description": "Choisissez la taille, les ressources et la forme de la prochaine île.",
+  "newGame.presetLabel": "Préréglage",
+  "newGame.shapeLabel": "Forme de l'île",
+  "newGame.start": "Générer",
+  "newGame.cancel": "Annuler",
+  "newGame.preset.Small": "Petite île",
+  "newGame.preset.Medium": "Île moyenne",
+  "newGame.preset.Large": "Grande île",
+  "newGame.preset.ResourceScarce": "Ressources rares",
+  "newGame.preset.OreRich": "Riche en minerai",
+  "newGame.shape.Blob": "Irrégulière",
+  "newGame.shape.Round": "Ronde",
+  "newGame.shape.Elongated": "Allongée",
+  "newGame.shape.Archipelago": "Archipel",
+  "newGame.shape.Lake": "Lac central",
+  "seedCode.error.invalidSeed": "Seed invalide pour un code de partage : {seed}.",
+  "seedCode.error.invalidRivals": "Nombre de rivaux invalide pour un code de partage : {count}.",
+  "seedCode.error.invalidFormat": "Code de partage invalide.",
+  "seedCode.error.checksum": "Code de partage erroné : vérifiez la saisie.",
+  "seedCode.error.distributionMismatch": "Ce code a été créé avec un autre équilibrage des préréglages et ne peut pas être rejoué.",
+  "newGame.currentCodeLabel": "Code de cette île",
+  "newGame.copyCode": "Copier",
+  "newGame.codeCopied": "Copié !",
+  "newGame.codeLabel": "Code à rejouer",
+  "newGame.codePlaceholder": "Optionnel",
+  "undo.blocked.nothing": "Aucune action à annuler.",
+  "undo.blocked.nothingToRedo": "Aucune action à rétablir.",
+  "undo.blocked.expired": "Une action ne peut être annulée que dans les {seconds} secondes qui la suivent.",
+  "undo.blocked.resourcesSpent": "Les ressources reçues lors de l'échange ont déjà été dépensées.",
+  "undo.blocked.constructionGone": "Cette construction n'existe plus sur la carte.",
+  "undo.blocked.roadInUse": "Une route ou un avant-poste a été construit à partir de cette route.",
+  "undo.blocked.outpostInUse": "Des routes ou des bâtiments dépendent de cet avant-poste.",
+  "undo.blocked.buildingInUse": "Une amélioration de ce bâtiment est en cours.",
+  "undo.blocked.cityLevelInUse": "La ville a trop de bâtiments pour revenir au niveau inférieur.",
+  "history.title": "Historique des actions",
+  "history.undoTitle": "Annuler la dernière action (Ctrl+Z)",
+  "history.redoTitle": "Rétablir l'action annulée (Ctrl+Y)",
+  "history.undo": "Annuler",
+  "history.redo": "Rétablir",
+  "history.close": "Fermer",
+  "history.empty": "Aucune action récente.",
+  "history.undoAvailable": "La dernière action peut encore être annulée pendant {seconds} s.",
+  "history.undoneTitle": "Action annulée, peut être rétablie",
+  "history.shortcuts": "Raccourcis : Ctrl+Z pour annuler, Ctrl+Y ou Ctrl+Maj+Z pour rétablir.",
+  "history.action.Road": "Route",
+  "history.action.Outpost": "Avant-poste",
+  "history.action.Building": "Construction : {building}",
+  "history.action.BuildingUpgrade": "Amélioration : {building} niveau {level}",
+  "history.action.Trade": "Échange : {given} → {received}",
+  "command.title": "Commandes",
+  "command.placeholder": "Rechercher une commande…",
+  "command.shortcuts": "Ctrl+K ou / : palette · B : construire · C / Maj+C : changer de ville · H : tout récolter · T : commerce · A : automatisation · P : prestige",
+  "command.noResult": "Aucune commande ne correspond.",
+  "command.buildQuery": "Construire",
+  "command.key.shift": "Maj",
+  "command.NextCity": "Ville suivante",
+  "command.PreviousCity": "Ville précédente",
+  "command.HarvestAll": "Récolter autour de la ville",
+  "command.OpenTrade": "Ouvrir le commerce",
+  "command.OpenAutomation": "Ouvrir l'automatisation",
+  "command.OpenPrestige": "Activer le Prestige",
+  "command.Undo": "Annuler la dernière action",
+  "command.Redo": "Rétablir l'action annulée",
+  "command.Build": "Construire : {building}",
+  "command.reason.noOtherCity": "Vous ne possédez pas d'autre ville.",
+  "command.reason.nothingToHarvest": "Aucun hexagone n'est prêt à être récolté autour de cette ville.",
+  "statistics.title": "Statistiques",
+  "statistics.incomeTitle": "Revenus par minute (5 dernières minutes)",
+  "statistics.historyTitle": "Historique des revenus",
+  "statistics.totalsTitle": "Totaux",
+  "statistics.levelsTitle": "Niveaux de ville atteints",
+  "statistics.close": "Fermer",
+  "statistics.resource": "Ressource",
+  "statistics.total": "Total",
+  "statistics.source.ManualHarvest": "Récolte",
+  "statistics.source.Building": "Bâtiments",
+  "statistics.source.Market": "Marché",
+  "statistics.source.AutoTrade": "Commerce auto",
+  "statistics.noHistory": "L'historique se remplit toutes les {seconds} secondes de jeu.",
+  "statistics.chartLabel": "{resource} ({stock})",
+  "statistics.total.roads": "Routes : {count}",
+  "statistics.total.cities": "Villes : {count}",
+  "statistics.total.buildings": "Bâtiments : {count}",
+  "statistics.counter.TradesMade": "Échanges : {count}",
+  "statistics.counter.AutoTrades": "Échanges automatiques : {count}",
+  "statistics.counter.ManualHarvests": "Récoltes manuelles : {count}",
+  "statistics.counter.ConstructionsCompleted": "Chantiers achevés : {count}",
+  "statistics.levelReached": "{level} : {time}",
+  "statistics.notReached": "pas encore atteint",
+  "achievement.toast": "Succès débloqué : {name} — {description}",
+  "achievement.FirstCapital.name": "Capitale",
+  "achievement.FirstCapital.description": "Élever une ville au rang de Capitale (+5 % de ressources récoltées).",
+  "achievement.MaxSeaport.name": "Maître des mers",
+  "achievement.MaxSeaport.description": "Améliorer un port maritime au niveau 4 (constructions 5 % plus rapides).",
+  "achievement.FiveCities.name": "Bâtisseur",
+  "achievement.FiveCities.description": "Posséder cinq villes (+5 % de ressources récoltées).",
+  "achievement.FullAutomation.name": "Pilote automatique",
+  "achievement.FullAutomation.description": "Activer toutes les automatisations.",
+  "achievement.FirstPrestige.name": "Héritage",
+  "achievement.FirstPrestige.description": "Gagner des points de prestige (+10 % de points de civilisation).",
+  "error.eventHandlerFailed": "Un abonné à l'événement {event} a échoué :",
 };
 
 export default fr;
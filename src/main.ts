@@ -4,6 +4,7 @@ import { CityPanelView } from './view/CityPanelView';
 import { TradePanelView } from './view/TradePanelView';
 import { PortSpecializationPanelView } from './view/PortSpecializationPanelView';
 import { AutomationPanelView, AutomationType } from './view/AutomationPanelView';
+import { CommandPaletteView } from './view/CommandPaletteView';
 import { PrestigeConfirmationPanel } from './view/PrestigePanelView';
 import { ResourceSprites } from './view/ResourceSprites';
 import { InventoryView } from './view/InventoryView';
@@ -20,6 +21,19 @@ import { TradeController } from './controller/TradeController';
 import { BuildingProductionController } from './controller/BuildingProductionController';
 import { AutomationController } from './controller/AutomationController';
 import { PrestigeController } from './controller/PrestigeController';
+import { DivineController } from './controller/DivineController';
+import { StatisticsController } from './controller/StatisticsController';
+import { GameEventBus, GameEventType } from './controller/GameEventBus';
+import { ResearchController } from './controller/ResearchController';
+import { OfflineProgressController } from './controller/OfflineProgressController';
+import { RivalController } from './controller/RivalController';
+import { IslandEventController, IslandEventResult } from './controller/IslandEventController';
+import { CommandController, CommandId, CommandStatus } from './controller/CommandController';
+import { IslandEventType, ISLAND_EVENT_DEFINITIONS } from './model/events/types';
+import { AchievementId, ACHIEVEMENT_DEFINITIONS } from './model/achievements/types';
+import { RivalDifficulty, RivalSettings } from './model/game/RivalCivilization';
+import { MapSettings } from './model/map/MapSettings';
+import { CivilizationId } from './model/map/CivilizationId';
 import { ResourceType } from './model/map/ResourceType';
 import { HexCoord } from './model/hex/HexCoord';
 import { Edge } from './model/hex/Edge';
@@ -55,9 +69,11 @@ function main(): void {
   const settingsBtn = document.getElementById('settings-btn') as HTMLButtonElement;
   const settingsMenu = document.getElementById('settings-menu') as HTMLElement;
   const regenerateBtn = document.getElementById('regenerate-btn') as HTMLButtonElement;
+  const rivalsBtn = document.getElementById('rivals-btn') as HTMLButtonElement;
   const hardResetBtn = document.getElementById('hard-reset-btn') as HTMLButtonElement;
   const exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
   const importBtn = document.getElementById('import-btn') as HTMLButtonElement;
+  const saveSlotsBtn = document.getElementById('save-slots-btn') as HTMLButtonElement;
   const cheatBtn = document.getElementById('cheat-btn') as HTMLButtonElement;
   const showHexCoordsBtn = document.getElementById('show-hex-coords-btn') as HTMLButtonElement;
   const langFrBtn = document.getElementById('lang-fr-btn') as HTMLButtonElement | null;
@@ -65,6 +81,7 @@ function main(): void {
   const gameTabs = document.getElementById('game-tabs') as HTMLElement | null;
   const classicTabBtn = document.getElementById('tab-classic') as HTMLButtonElement | null;
   const prestigeTabBtn = document.getElementById('tab-prestige') as HTMLButtonElement | null;
+  const divineTabBtn = document.getElementById('tab-divine') as HTMLButtonElement | null;
   // Les vues seront initialisées plus bas après création de `game`, `renderer` et `resourceLoader`.
 
   if (!canvas) {
@@ -83,6 +100,10 @@ function main(): void {
     throw new Error(localize('error.elementNotFound', { id: 'regenerate-btn' }));
   }
 
+  if (!rivalsBtn) {
+    throw new Error(localize('error.elementNotFound', { id: 'rivals-btn' }));
+  }
+
   if (!hardResetBtn) {
     throw new Error(localize('error.elementNotFound', { id: 'hard-reset-btn' }));
   }
@@ -95,6 +116,10 @@ function main(): void {
     throw new Error(localize('error.elementNotFound', { id: 'import-btn' }));
   }
 
+  if (!saveSlotsBtn) {
+    throw new Error(localize('error.elementNotFound', { id: 'save-slots-btn' }));
+  }
+
   if (!cheatBtn) {
     throw new Error(localize('error.elementNotFound', { id: 'cheat-btn' }));
   }
@@ -132,6 +157,18 @@ function main(): void {
   const portSpecializationPanelView = views.portSpecializationPanelView;
   const automationPanelView = views.automationPanelView;
   const prestigeConfirmationPanel = views.prestigeConfirmationPanel;
+  const divinePanelView = views.divinePanelView;
+  const researchPanelView = views.researchPanelView;
+  const faithPanelView = views.faithPanelView;
+  const blessingBarView = views.blessingBarView;
+  const islandEventBarView = views.islandEventBarView;
+  const actionHistoryView = views.actionHistoryView;
+  const commandPaletteView = views.commandPaletteView;
+  const statisticsPanelView = views.statisticsPanelView;
+  const toastView = views.toastView;
+  const newGamePanelView = views.newGamePanelView;
+  const offlineProgressPanelView = views.offlineProgressPanelView;
+  const saveSlotsPanelView = views.saveSlotsPanelView;
   // civilization upgrade panel removed; purchases handled elsewhere
   const inventoryView = views.inventoryView;
 
@@ -160,13 +197,92 @@ function main(): void {
     const playerResources = game.getPlayerResources();
     const islandMap = game.getIslandMap();
     const civId = game.getPlayerCivilizationId();
-    inventoryView.updateDisplay(playerResources, islandMap, civId);
+    const civState = game.getController().getCivilizationState();
+    const faith = civState.getIslandState().getFaith();
+    inventoryView.updateDisplay(
+      playerResources,
+      islandMap,
+      civId,
+      game.getGameModifiers(),
+      civState.getResearch().getKnowledge(),
+      faith.getFaith()
+    );
+    blessingBarView.updateDisplay(faith, game.getGameClock().getCurrentTime());
+    islandEventBarView.updateDisplay(
+      civState.getIslandState().getEvents(),
+      game.getGameClock().getCurrentTime(),
+      IslandEventController.canAcceptTraderOffer(civState.getIslandState())
+    );
+    actionHistoryView.updateDisplay(
+      civState.getIslandState().getActionHistory(),
+      game.getGameClock().getCurrentTime(),
+      () => coordinator.getUndoBlocker()
+    );
+    // La connaissance et la foi évoluent avec la production des bibliothèques et des temples
+    if (researchPanelView.isShown()) {
+      researchPanelView.refresh(civState);
+    }
+    if (faithPanelView.isShown()) {
+      faithPanelView.refresh(civState);
+    }
+    statisticsPanelView.updateDisplay(civState.getIslandState());
     // Mettre à jour les boutons du footer
     if (islandMap) {
       cityPanelView.updateFooter();
     }
   }
 
+  /**
+   * Notifie le joueur d'un événement aléatoire de l'île.
+   */
+  function showIslandEventToast(result: IslandEventResult): void {
+    const resourceName = (resource: ResourceType) => localize(`resource.${resource.toLowerCase()}`);
+    const event = result.event;
+    const seconds = event ? String(Math.ceil(event.endTime - game.getGameClock().getCurrentTime())) : '0';
+    let message: string;
+    switch (result.type) {
+      case IslandEventType.AbundantHarvest: {
+        const resource = event?.hexType ? ResourceHarvest.hexTypeToResourceType(event.hexType) : null;
+        message = localize('islandEvent.toast.AbundantHarvest', {
+          resource: resource ? resourceName(resource) : '',
+          seconds,
+        });
+        break;
+      }
+      case IslandEventType.Storm:
+        message = localize('islandEvent.toast.Storm', { seconds });
+        break;
+      case IslandEventType.WanderingTrader:
+        message = localize('islandEvent.toast.WanderingTrader', {
+          giveAmount: String(event?.offer?.giveAmount ?? 0),
+          give: event?.offer ? resourceName(event.offer.give) : '',
+          receiveAmount: String(event?.offer?.receiveAmount ?? 0),
+          receive: event?.offer ? resourceName(event.offer.receive) : '',
+          seconds,
+        });
+        break;
+      case IslandEventType.BanditRaid:
+        message = result.raid && result.raid.stolen > 0
+          ? localize('islandEvent.toast.BanditRaid', { amount: String(result.raid.stolen), resource: resourceName(result.raid.resource) })
+          : localize('islandEvent.toast.BanditRaidRepelled', { resource: result.raid ? resourceName(result.raid.resource) : '' });
+        break;
+    }
+    toastView.show(message, ISLAND_EVENT_DEFINITIONS[result.type].icon);
+    updateResourcesDisplay();
+    cityPanelView.scheduleRefresh();
+  }
+
+  // Notification des succès débloqués
+  function showAchievementToasts(achievements: AchievementId[]): void {
+    for (const id of achievements) {
+      const definition = ACHIEVEMENT_DEFINITIONS[id];
+      toastView.show(localize('achievement.toast', {
+        name: localize(definition.nameKey),
+        description: localize(definition.descriptionKey),
+      }), definition.icon);
+    }
+  }
+
   // Appliquer les traductions sur les éléments marqués par `data-i18n`.
   function localizePage(): void {
     const nodes = document.querySelectorAll<HTMLElement>('[data-i18n]');
@@ -190,8 +306,37 @@ function main(): void {
   // Game coordinator centralise les appels aux controllers
   const coordinator = new GameCoordinator(game, renderer, saveManager);
 
-  // Boucle principale d'animation encapsulée
-  const gameLoop = new GameLoop(game, renderer, cityPanelView, coordinator, updateResourcesDisplay);
+  // Les statistiques comptent les échanges signalés par le bus d'événements
+  StatisticsController.subscribe(() => game.getIslandState());
+
+  // L'inventaire et les barres d'état se rafraîchissent (une fois par frame au plus) sur les événements
+  // du joueur : les contrôleurs sont partagés avec les rivaux, dont les événements sont ignorés
+  let resourcesDisplayScheduled = false;
+  const refreshForPlayer = (civId: CivilizationId): void => {
+    if (resourcesDisplayScheduled || !civId.equals(game.getPlayerCivilizationId())) {
+      return;
+    }
+    resourcesDisplayScheduled = true;
+    requestAnimationFrame(() => {
+      resourcesDisplayScheduled = false;
+      updateResourcesDisplay();
+    });
+  };
+  GameEventBus.on(GameEventType.ResourceChanged, ({ civId }) => refreshForPlayer(civId));
+  GameEventBus.on(GameEventType.BuildingBuilt, ({ civId }) => refreshForPlayer(civId));
+  GameEventBus.on(GameEventType.CityUpgraded, ({ civId }) => refreshForPlayer(civId));
+  GameEventBus.on(GameEventType.OutpostBuilt, ({ civId }) => refreshForPlayer(civId));
+  GameEventBus.on(GameEventType.ConstructionUndone, ({ civId }) => refreshForPlayer(civId));
+
+  // Boucle principale d'animation encapsulée ; elle rafraîchit aussi les comptes à rebours chaque seconde
+  const gameLoop = new GameLoop(
+    game,
+    renderer,
+    coordinator,
+    updateResourcesDisplay,
+    showIslandEventToast,
+    showAchievementToasts
+  );
 
   // Mode d'affichage courant (affecte le comportement du render callback)
   let currentViewMode: 'classic' | 'prestige' = 'classic';
@@ -253,8 +398,13 @@ function main(): void {
 
   function updatePrestigeTabsVisibility(): void {
     const unlocked = game.getController().getCivilizationState().hasPrestige();
-    gameTabs!.classList.toggle('hidden', !unlocked);
+    // La couche divine reste accessible après une ascension, même sans prestige
+    const divineUnlocked = unlocked || game.getController().getGodState().hasAscended();
+    gameTabs!.classList.toggle('hidden', !divineUnlocked);
     prestigeTabBtn!.disabled = !unlocked;
+    if (divineTabBtn) {
+      divineTabBtn.disabled = !divineUnlocked;
+    }
   }
 
   function unlockPrestigeAccess(): void {
@@ -263,6 +413,24 @@ function main(): void {
 
   // Civilization upgrade UI removed: upgrades are applied elsewhere on prestige activation.
 
+  /**
+   * Simule le temps réel écoulé depuis la dernière sauvegarde et affiche le résumé.
+   * Utilise un coordinateur sans SaveManager pour ne pas sauvegarder à chaque construction automatique.
+   */
+  function applyOfflineProgress(): void {
+    if (!game.getIslandMap()) {
+      return;
+    }
+    const elapsedSeconds = OfflineProgressController.computeElapsedSeconds(game.getLastSavedAt(), Date.now());
+    if (elapsedSeconds <= 0) {
+      return;
+    }
+    const summary = OfflineProgressController.simulate(game, new GameCoordinator(game, renderer), elapsedSeconds);
+    if (OfflineProgressController.shouldShowSummary(summary)) {
+      offlineProgressPanelView.show(summary);
+    }
+  }
+
   // Charger automatiquement la sauvegarde si elle existe, sinon créer une nouvelle partie
   const loaded = saveManager.loadFromLocal();
   if (!loaded) {
@@ -271,6 +439,8 @@ function main(): void {
     // Réappliquer les traductions et l'attribut lang après chargement
     localizePage();
     document.documentElement.lang = getAll() === en ? 'en' : 'fr';
+    // Rattraper la progression effectuée pendant l'absence du joueur
+    applyOfflineProgress();
     // Réinitialiser le temps de référence pour la boucle d'animation après le chargement
     // Cela permettra à la boucle de repartir correctement
     gameLoop.resetStartTime();
@@ -279,6 +449,17 @@ function main(): void {
     // Mettre à jour la civilisation du joueur dans le panneau de ville (peut avoir changé lors du chargement)
     cityPanelView.setPlayerCivilizationId(game.getPlayerCivilizationId());
   }
+
+  // Rivaux de la prochaine carte générée (par défaut : ceux de la partie en cours)
+  let nextRivalSettings: RivalSettings = RivalController.getRivalSettings(game.getIslandState());
+  const updateRivalsButton = (): void => {
+    const difficulty = nextRivalSettings.count > 0 ? nextRivalSettings.difficulty : 'none';
+    rivalsBtn.textContent = localize('menu.rivals', { difficulty: localize(`rivals.${difficulty}`) });
+  };
+  updateRivalsButton();
+
+  // Préréglage et forme de la prochaine carte générée (par défaut : ceux de la partie en cours)
+  let nextMapSettings: MapSettings = game.getIslandState().getMapSettings();
   
   const islandMap = game.getIslandMap();
       if (islandMap) {
@@ -306,6 +487,65 @@ function main(): void {
     setActiveTab('prestige');
   });
 
+  divineTabBtn?.addEventListener('click', () => {
+    if (divineTabBtn.disabled) {
+      return;
+    }
+    divinePanelView.show(game.getController().getGodState());
+  });
+
+  /**
+   * Ouvre le panneau de commerce avec le contexte de jeu actuel.
+   */
+  function openTradePanel(): void {
+    const currentIslandMap = game.getIslandMap();
+    if (!currentIslandMap) {
+      return;
+    }
+    const civId = game.getPlayerCivilizationId();
+    tradePanelView.setGameContext(currentIslandMap, civId, game.getGameModifiers());
+    tradePanelView.show(game.getPlayerResources());
+  }
+
+  /**
+   * Calcule le gain de Prestige et ouvre le panneau de confirmation, ou explique pourquoi
+   * le Prestige ne peut pas être activé.
+   */
+  function openPrestigeConfirmation(): void {
+    const currentIslandMap = game.getIslandMap();
+    const civId = game.getPlayerCivilizationId();
+
+    if (!currentIslandMap || !civId) {
+      console.error(localize('error.mapOrCivUnavailable'));
+      return;
+    }
+
+    // Vérifier si l'action peut être activée
+    const gameModifiers = game.getGameModifiers();
+    if (!PrestigeController.canActivatePrestige(civId, currentIslandMap, gameModifiers)) {
+      const reason = PrestigeController.getPrestigeRestrictionReason(civId, currentIslandMap, gameModifiers);
+      if (reason !== undefined) {
+        alert(localize('prestige.unavailable', { reason }));
+      }
+      return;
+    }
+
+    // Activer l'action Prestige
+    const civState = game.getController().getCivilizationState();
+    const result = PrestigeController.calculatePrestigeGain(civState);
+
+    if (result.success && result.civilizationPointsGained !== undefined) {
+      // Stocker le gain en attente de confirmation
+      pendingPrestigeGain = result.civilizationPointsGained;
+
+      // Afficher le panneau de confirmation de prestige
+      const currentPoints = civState.getPrestigePointsTotal();
+      prestigeConfirmationPanel.show(currentPoints, result.civilizationPointsGained);
+    } else {
+      alert(result.message);
+    }
+  }
+
   // Configurer les callbacks du panneau de ville
   cityPanelView.setCallbacks({
     onPanelUpdated: (city: City | null) => {
@@ -341,16 +581,7 @@ function main(): void {
             safeRender(currentIslandMap, civId);
           }
         } else if (action === BuildingAction.Trade) {
-          // Mettre à jour le contexte de jeu pour le panneau de commerce
-          const currentIslandMap = game.getIslandMap();
-          if (currentIslandMap) {
-            const civId = game.getPlayerCivilizationId();
-            tradePanelView.setGameContext(currentIslandMap, civId);
-          }
-          
-          // Ouvrir le panneau de commerce
-          const playerResources = game.getPlayerResources();
-          tradePanelView.show(playerResources);
+          openTradePanel();
           return; // Ne pas mettre à jour le panneau de ville ni re-rendre
         } else if (action === BuildingAction.Specialization) {
           // Ouvrir le panneau de spécialisation avec les ressources déjà utilisées
@@ -371,37 +602,7 @@ function main(): void {
           return; // Ne pas mettre à jour le panneau de ville ni re-rendre
         } else if (action === BuildingAction.Prestige) {
           // Activer l'action Prestige du port maritime niveau 4
-          const currentIslandMap = game.getIslandMap();
-          const civId = game.getPlayerCivilizationId();
-
-          if (!currentIslandMap || !civId) {
-            console.error(localize('error.mapOrCivUnavailable'));
-            return;
-          }
-
-          // Vérifier si l'action peut être activée
-          if (!PrestigeController.canActivatePrestige(civId, currentIslandMap)) {
-            const reason = PrestigeController.getPrestigeRestrictionReason(civId, currentIslandMap);
-            if (reason !== undefined) {
-              alert(localize('prestige.unavailable', { reason }));
-            }
-            return;
-          }
-
-          // Activer l'action Prestige
-          const civState = game.getController().getCivilizationState();
-          const result = PrestigeController.calculatePrestigeGain(civState);
-          
-          if (result.success && result.civilizationPointsGained !== undefined) {
-            // Stocker le gain en attente de confirmation
-            pendingPrestigeGain = result.civilizationPointsGained;
-            
-            // Afficher le panneau de confirmation de prestige
-            const currentPoints = civState.getPrestigePointsTotal();
-            prestigeConfirmationPanel.show(currentPoints, result.civilizationPointsGained);
-          } else {
-            alert(result.message);
-          }
+          openPrestigeConfirmation();
           return;
         }
         cityPanelView.refreshNow();
@@ -414,6 +615,28 @@ function main(): void {
         console.error(localize('error.actionFailed', { action }), error);
       }
     },
+    onAutoTradeToggled: (buildingType: BuildingType, city: City, enabled: boolean) => {
+      try {
+        const seaport = city.getBuilding(buildingType);
+        const currentIslandMap = game.getIslandMap();
+        if (seaport && currentIslandMap) {
+          seaport.setAutoTradeEnabled(enabled);
+
+          // Mettre à jour l'affichage et sauvegarder
+          const civId = game.getPlayerCivilizationId();
+          updateResourcesDisplay();
+          cityPanelView.refreshNow();
+          safeRender(currentIslandMap, civId);
+          saveManager.saveToLocal();
+        }
+      } catch (error) {
+        console.error(localize('error.actionFailed', { action: BuildingAction.Auto }), error);
+      }
+    },
+    // Boutons globaux (footer du panneau de ville)
+    onOpenTrade: () => openTradePanel(),
+    onOpenResearch: () => researchPanelView.show(game.getController().getCivilizationState()),
+    onOpenFaith: () => faithPanelView.show(game.getController().getCivilizationState()),
   });
 
   // Configurer les callbacks du panneau de commerce
@@ -519,117 +742,259 @@ function main(): void {
     autoSave: () => saveManager.saveToLocal(),
   });
 
-  // Configurer les callbacks du panneau de confirmation de prestige
-  prestigeConfirmationPanel.setCallbacks({
-    onConfirm: () => {
-      if (pendingPrestigeGain > 0) {
-        const civState = game.getController().getCivilizationState();
-        // Activer réellement le prestige (ajoute les points et détruit l'IslandState)
-        const result = PrestigeController.activatePrestige(civState);
+  /**
+   * Démarre une nouvelle partie après un prestige ou une ascension,
+   * puis rafraîchit l'affichage sur la vue classique.
+   */
+  function startNewCivilization(): void {
+    game.newGame(undefined, nextRivalSettings, nextMapSettings);
+    gameLoop.resetStartTime();
+    saveManager.saveToLocal();
 
-        if (result.success) {
-          updatePrestigeTabsVisibility();
+    cityPanelView.setPlayerCivilizationId(game.getPlayerCivilizationId());
 
-          // Démarrer directement une nouvelle partie après activation du prestige
-          game.newGame();
-          gameLoop.resetStartTime();
-          saveManager.saveToLocal();
+    const newIslandMap = game.getIslandMap();
+    if (newIslandMap) {
+      const civId = game.getPlayerCivilizationId();
+      safeRender(newIslandMap, civId);
+      updateResourcesDisplay();
+      cityPanelView.refreshNow();
+      cityPanelView.updateFooter();
+    }
 
-          cityPanelView.setPlayerCivilizationId(game.getPlayerCivilizationId());
+    setActiveTab('classic');
+  }
 
-          const newIslandMap = game.getIslandMap();
-          if (newIslandMap) {
-            const civId = game.getPlayerCivilizationId();
-            safeRender(newIslandMap, civId);
-            updateResourcesDisplay();
-            cityPanelView.refreshNow();
-            cityPanelView.updateFooter();
-          }
+  // Configurer les callbacks du panneau divin
+  divinePanelView.setCallbacks({
+    onAscend: () => {
+      const godState = game.getController().getGodState();
+      const gain = DivineController.calculateAscensionGain(godState.getCivilizationState());
+      if (!gain.success || !confirm(localize('divine.ascendConfirm', { points: String(gain.godPointsGained) }))) {
+        return;
+      }
 
-          pendingPrestigeGain = 0;
-          setActiveTab('classic');
-        } else {
-          // En cas d'erreur, annuler
-          alert(result.message);
-          pendingPrestigeGain = 0;
-        }
+      const result = DivineController.ascend(godState);
+      if (!result.success) {
+        alert(result.message);
+        return;
       }
+
+      startNewCivilization();
+      updatePrestigeTabsVisibility();
+      divinePanelView.refresh(game.getController().getGodState());
     },
-    onCancel: () => {
-      pendingPrestigeGain = 0;
-      const currentIslandMap = game.getIslandMap();
-      const civId = game.getPlayerCivilizationId();
-      if (currentIslandMap && civId) {
-        safeRender(currentIslandMap, civId);
+    onPurchasePower: (type) => {
+      const godState = game.getController().getGodState();
+      if (DivineController.purchasePower(godState, type)) {
+        saveManager.saveToLocal();
       }
-      setActiveTab('classic');
+      divinePanelView.refresh(godState);
     },
   });
 
+  // Configurer les callbacks du panneau de recherche
+  researchPanelView.setCallbacks({
+    onUnlock: (nodeId) => {
+      const civState = game.getController().getCivilizationState();
+      if (ResearchController.unlock(civState.getResearch(), nodeId)) {
+        saveManager.saveToLocal();
+        updateResourcesDisplay();
+        cityPanelView.refreshNow();
+      }
+      researchPanelView.refresh(civState);
+    },
+  });
 
-  // Gérer les événements personnalisés du panneau de ville
-  const panelElement = cityPanelView.getPanelElement();
-  
-  panelElement.addEventListener('buildBuilding', ((e: CustomEvent) => {
-    const selectedVertex = renderer.getSelectedVertex();
-    const currentIslandMap = game.getIslandMap();
-    if (!selectedVertex || !currentIslandMap || !currentIslandMap.hasCity(selectedVertex)) {
+  // Configurer les callbacks du panneau du Temple
+  faithPanelView.setCallbacks({
+    onActivate: (type, hexType) => {
+      if (coordinator.activateBlessing(type, hexType).success) {
+        updateResourcesDisplay();
+      }
+      faithPanelView.refresh(game.getController().getCivilizationState());
+    },
+  });
+
+  // Configurer les callbacks de la barre des événements
+  /**
+   * Rafraîchit la carte, l'inventaire et le panneau de ville après une annulation ou un rétablissement.
+   */
+  function refreshAfterHistoryChange(success: boolean): void {
+    if (!success) {
       return;
     }
-    const city = currentIslandMap.getCity(selectedVertex);
-    if (!city) {
+    const currentIslandMap = game.getIslandMap();
+    if (currentIslandMap) {
+      safeRender(currentIslandMap, game.getPlayerCivilizationId());
+    }
+    updateResourcesDisplay();
+    cityPanelView.refreshNow();
+  }
+
+  actionHistoryView.setCallbacks({
+    onUndo: () => refreshAfterHistoryChange(coordinator.undo().success),
+    onRedo: () => refreshAfterHistoryChange(coordinator.redo().success),
+  });
+
+  // Raccourcis clavier : Ctrl+Z pour annuler, Ctrl+Y ou Ctrl+Maj+Z pour rétablir (hors champs de saisie)
+  document.addEventListener('keydown', (e) => {
+    const target = e.target as HTMLElement | null;
+    if (!(e.ctrlKey || e.metaKey) || target?.closest('input, textarea, select')) {
       return;
     }
-    cityPanelView.handleBuildBuilding(e.detail.buildingType, city, currentIslandMap, selectedVertex);
-  }) as EventListener);
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      refreshAfterHistoryChange(coordinator.undo().success);
+    } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+      e.preventDefault();
+      refreshAfterHistoryChange(coordinator.redo().success);
+    }
+  });
 
-  // Bouton Commerce global (footer du panneau de ville)
-  panelElement.addEventListener('openTrade', (() => {
+  /**
+   * Commandes disponibles dans l'état de jeu actuel (raccourcis et palette).
+   */
+  function getCommands(): CommandStatus[] {
+    return CommandController.getCommands(game.getIslandState(), renderer.getSelectedVertex(), game.getGameModifiers());
+  }
+
+  /**
+   * Lance une commande de la palette ou d'un raccourci clavier.
+   * Une commande indisponible affiche la raison du blocage dans un toast.
+   */
+  function runCommand(command: CommandStatus): void {
+    if (command.disabledReason !== null) {
+      toastView.show(command.disabledReason, '⚠️');
+      return;
+    }
     const currentIslandMap = game.getIslandMap();
     if (!currentIslandMap) {
       return;
     }
     const civId = game.getPlayerCivilizationId();
-    tradePanelView.setGameContext(currentIslandMap, civId);
-    tradePanelView.show(game.getPlayerResources());
-  }) as EventListener);
+    const selectedVertex = renderer.getSelectedVertex();
+    switch (command.id) {
+      case CommandId.NextCity:
+      case CommandId.PreviousCity: {
+        const step = command.id === CommandId.NextCity ? 1 : -1;
+        renderer.setSelectedVertex(CommandController.getNextCityVertex(currentIslandMap, civId, selectedVertex, step));
+        safeRender(currentIslandMap, civId);
+        break;
+      }
+      case CommandId.HarvestAll: {
+        if (!selectedVertex) {
+          return;
+        }
+        const result = coordinator.harvestAround(selectedVertex);
+        for (const { hexCoord, cityVertex } of result.harvested) {
+          playHarvestEffects(currentIslandMap, hexCoord, cityVertex);
+        }
+        if (result.success) {
+          updateResourcesDisplay();
+          cityPanelView.scheduleRefresh();
+        }
+        break;
+      }
+      case CommandId.OpenTrade:
+        openTradePanel();
+        break;
+      case CommandId.OpenAutomation:
+        automationPanelView.openForSelectedCity();
+        break;
+      case CommandId.OpenPrestige:
+        openPrestigeConfirmation();
+        break;
+      case CommandId.Undo:
+        refreshAfterHistoryChange(coordinator.undo().success);
+        break;
+      case CommandId.Redo:
+        refreshAfterHistoryChange(coordinator.redo().success);
+        break;
+      case CommandId.Build: {
+        const city = selectedVertex ? currentIslandMap.getCity(selectedVertex) : undefined;
+        if (city && command.buildingType) {
+          cityPanelView.handleBuildBuilding(command.buildingType, city, currentIslandMap, city.vertex);
+        }
+        break;
+      }
+    }
+  }
 
+  commandPaletteView.setCallbacks({
+    onRun: (command: CommandStatus) => runCommand(command),
+  });
 
-  panelElement.addEventListener('buildingAction', ((e: CustomEvent) => {
-    const selectedVertex = renderer.getSelectedVertex();
-    const currentIslandMap = game.getIslandMap();
-    if (!selectedVertex || !currentIslandMap || !currentIslandMap.hasCity(selectedVertex)) {
+  // Raccourcis de la vue classique (hors champs de saisie) : Ctrl+K ou / pour la palette,
+  // B pour la palette filtrée sur les constructions, puis les raccourcis des commandes
+  document.addEventListener('keydown', (e) => {
+    const target = e.target as HTMLElement | null;
+    if (currentViewMode !== 'classic' || commandPaletteView.isShown() || target?.closest('input, textarea, select')) {
       return;
     }
-    const city = currentIslandMap.getCity(selectedVertex);
-    if (!city) {
+    const key = e.key.toLowerCase();
+    const noModifier = !e.ctrlKey && !e.metaKey && !e.altKey;
+    if (((e.ctrlKey || e.metaKey) && key === 'k') || (noModifier && e.key === '/')) {
+      e.preventDefault();
+      commandPaletteView.show(getCommands());
       return;
     }
-    const action = e.detail.buildingAction as BuildingAction;
-    const buildingType = e.detail.buildingType as BuildingType;
-    const checked = e.detail.checked as boolean | undefined;
-    // Si l'action est l'activation/désactivation de l'auto-trade, l'état "checked" est fourni
-    if (action === BuildingAction.Auto && checked !== undefined) {
-      try {
-        const seaport = city.getBuilding(buildingType);
-        if (seaport) {
-          seaport.setAutoTradeEnabled(checked);
+    if (noModifier && !e.shiftKey && key === 'b') {
+      e.preventDefault();
+      commandPaletteView.show(getCommands(), localize('command.buildQuery'));
+      return;
+    }
+    const commandId = CommandPaletteView.getShortcutCommand(e);
+    const command = commandId ? getCommands().find(c => c.id === commandId) : undefined;
+    if (command) {
+      e.preventDefault();
+      runCommand(command);
+    }
+  });
 
-          // Mettre à jour l'affichage et sauvegarder
-          const civId = game.getPlayerCivilizationId();
-          updateResourcesDisplay();
-          cityPanelView.refreshNow();
-          safeRender(currentIslandMap, civId);
-          saveManager.saveToLocal();
+  islandEventBarView.setCallbacks({
+    onAcceptTrader: () => {
+      if (coordinator.acceptTraderOffer().success) {
+        updateResourcesDisplay();
+        cityPanelView.scheduleRefresh();
+      }
+    },
+  });
+
+  // Configurer les callbacks du panneau de confirmation de prestige
+  prestigeConfirmationPanel.setCallbacks({
+    onConfirm: () => {
+      if (pendingPrestigeGain > 0) {
+        const civState = game.getController().getCivilizationState();
+        // Activer réellement le prestige (ajoute les points et détruit l'IslandState)
+        const result = PrestigeController.activatePrestige(civState);
+
+        if (result.success) {
+          updatePrestigeTabsVisibility();
+
+          // Démarrer directement une nouvelle partie après activation du prestige
+          startNewCivilization();
+
+          pendingPrestigeGain = 0;
+        } else {
+          // En cas d'erreur, annuler
+          alert(result.message);
+          pendingPrestigeGain = 0;
         }
-      } catch (error) {
-        console.error(localize('error.actionFailed', { action }), error);
       }
-      return;
-    }
+    },
+    onCancel: () => {
+      pendingPrestigeGain = 0;
+      const currentIslandMap = game.getIslandMap();
+      const civId = game.getPlayerCivilizationId();
+      if (currentIslandMap && civId) {
+        safeRender(currentIslandMap, civId);
+      }
+      setActiveTab('classic');
+    },
+  });
 
-    cityPanelView.handleBuildingAction(action, buildingType, city);
-  }) as EventListener);
 
   // Configurer le callback de rendu pour la surbrillance au survol et la mise à jour du panneau
   renderer.setRenderCallback(() => {
@@ -684,6 +1049,24 @@ function main(): void {
     }
   });
 
+  /**
+   * Joue l'effet de récolte manuelle d'un hexagone et l'animation de la ressource vers la ville.
+   */
+  function playHarvestEffects(islandMap: IslandMap, hexCoord: HexCoord, cityVertex: Vertex): void {
+    // Déclencher l'effet visuel de récolte (manuel, donc avec effet de réduction)
+    renderer.triggerHarvestEffect(hexCoord, false);
+
+    // Obtenir le type de ressource récoltée pour l'animation
+    const hexType = islandMap.getHexType(hexCoord);
+    if (hexType) {
+      const resourceType = ResourceHarvest.hexTypeToResourceType(hexType);
+      if (resourceType) {
+        // Déclencher l'animation de la particule de ressource vers la ville
+        renderer.triggerResourceHarvestAnimation(hexCoord, resourceType, cityVertex);
+      }
+    }
+  }
+
   // Gérer le clic sur les hexagones pour récolter les ressources
   renderer.setOnHexClick((hexCoord: HexCoord) => {
     const currentIslandMap = game.getIslandMap();
@@ -692,19 +1075,8 @@ function main(): void {
     }
     const result = coordinator.harvestHex(hexCoord);
     if (result.success && result.cityVertex) {
-      // Déclencher l'effet visuel de récolte (manuel, donc avec effet de réduction)
-      renderer.triggerHarvestEffect(hexCoord, false);
-      
-      // Obtenir le type de ressource récoltée pour l'animation
-      const hexType = currentIslandMap.getHexType(hexCoord);
-      if (hexType) {
-        const resourceType = ResourceHarvest.hexTypeToResourceType(hexType);
-        if (resourceType) {
-          // Déclencher l'animation de la particule de ressource vers la ville
-          renderer.triggerResourceHarvestAnimation(hexCoord, resourceType, result.cityVertex);
-        }
-      }
-      
+      playHarvestEffects(currentIslandMap, hexCoord, result.cityVertex);
+
       // Mettre à jour l'affichage des ressources
       updateResourcesDisplay();
       cityPanelView.scheduleRefresh();
@@ -726,9 +1098,31 @@ function main(): void {
     }
   });
 
-  // Gérer le bouton de régénération dans le menu
+  // Gérer le bouton de régénération dans le menu : choix du préréglage et de la forme avant génération
   regenerateBtn.addEventListener('click', () => {
-    game.newGame();
+    newGamePanelView.show(nextMapSettings, game.getIslandState().getShareCode());
+    // Fermer le menu pendant le choix
+    settingsMenu.classList.add('hidden');
+  });
+
+  newGamePanelView.setCallbacks({
+    onStart: (settings: MapSettings, seed?: number, rivals?: RivalSettings) => {
+      nextMapSettings = settings;
+      if (rivals) {
+        // Les rivaux du code de partage placent leurs villes sur la carte : ils remplacent ceux du menu
+        nextRivalSettings = rivals;
+        updateRivalsButton();
+      }
+      regenerateMap(seed);
+    },
+  });
+
+  /**
+   * Génère une nouvelle carte avec les rivaux et paramètres de carte choisis.
+   * @param seed - La seed d'un code de partage (par défaut : aléatoire)
+   */
+  function regenerateMap(seed?: number): void {
+    game.newGame(seed, nextRivalSettings, nextMapSettings);
     // Réinitialiser le temps de référence pour la boucle d'animation
     gameLoop.resetStartTime();
     
@@ -742,8 +1136,17 @@ function main(): void {
       updateResourcesDisplay(); // Réinitialiser l'affichage des ressources
       cityPanelView.refreshNow(); // Mettre à jour le panneau de la ville
     }
-    // Fermer le menu après l'action
-    settingsMenu.classList.add('hidden');
+  }
+
+  // Gérer le choix des rivaux : aucun -> facile -> normal -> difficile -> aucun
+  rivalsBtn.addEventListener('click', () => {
+    const cycle: (RivalDifficulty | null)[] = [null, RivalDifficulty.Easy, RivalDifficulty.Normal, RivalDifficulty.Hard];
+    const current = nextRivalSettings.count > 0 ? nextRivalSettings.difficulty : null;
+    const next = cycle[(cycle.indexOf(current) + 1) % cycle.length];
+    nextRivalSettings = next === null
+      ? { count: 0, difficulty: RivalDifficulty.Normal }
+      : { count: RivalController.DEFAULT_RIVAL_COUNT, difficulty: next };
+    updateRivalsButton();
   });
 
   // Gérer le bouton de hard reset dans le menu
@@ -788,19 +1191,30 @@ function main(): void {
     settingsMenu.classList.add('hidden');
   });
 
-  // Gérer le bouton d'import dans le menu
-  importBtn.addEventListener('click', () => {
+  /**
+   * Ouvre le sélecteur de fichier et appelle le callback avec le fichier JSON choisi.
+   */
+  function pickSaveFile(onFile: (file: File, input: HTMLInputElement) => void): void {
     const input = document.createElement('input');
     input.type = 'file';
     input.accept = '.json';
     input.style.display = 'none';
-    
-    input.addEventListener('change', async (e) => {
+
+    input.addEventListener('change', (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) {
         return;
       }
+      onFile(file, input);
+    });
 
+    document.body.appendChild(input);
+    input.click();
+  }
+
+  // Gérer le bouton d'import dans le menu
+  importBtn.addEventListener('click', () => {
+    pickSaveFile(async (file, input) => {
       const result = await saveManager.importFromFile(file);
       if (!result.success) {
         alert(localize('alert.importError'));
@@ -824,13 +1238,116 @@ function main(): void {
       document.body.removeChild(input);
     });
     
-    document.body.appendChild(input);
-    input.click();
-    
     // Fermer le menu après l'action
     settingsMenu.classList.add('hidden');
   });
 
+  // Gérer le sélecteur de slots de sauvegarde
+  const refreshSaveSlotsPanel = () => {
+    saveSlotsPanelView.refresh(saveManager.listSlots(), saveManager.getActiveSlotId());
+  };
+
+  /**
+   * Démarre une partie vierge (sans acquis Prestige ni divins) dans le slot actif.
+   */
+  function startFreshGameInActiveSlot(): void {
+    game.clearSave();
+    pendingPrestigeGain = 0;
+    prestigeConfirmationPanel.hide();
+    startNewCivilization();
+    updatePrestigeTabsVisibility();
+  }
+
+  saveSlotsPanelView.setCallbacks({
+    onLoadSlot: (slotId) => {
+      if (!saveManager.hasSlot(slotId)) {
+        // Slot introuvable : ne pas toucher au slot actif
+        alert(localize('saveSlots.error.missing'));
+        refreshSaveSlotsPanel();
+        return;
+      }
+      if (!saveManager.switchSlot(slotId)) {
+        // Slot vide ou illisible : y démarrer une nouvelle partie
+        startFreshGameInActiveSlot();
+        refreshSaveSlotsPanel();
+        return;
+      }
+
+      localizePage();
+      document.documentElement.lang = getAll() === en ? 'en' : 'fr';
+      applyOfflineProgress();
+      gameLoop.resetStartTime();
+      saveManager.saveToLocal();
+
+      pendingPrestigeGain = 0;
+      prestigeConfirmationPanel.hide();
+      setActiveTab('classic');
+      updatePrestigeTabsVisibility();
+      cityPanelView.setPlayerCivilizationId(game.getPlayerCivilizationId());
+      const loadedIslandMap = game.getIslandMap();
+      if (loadedIslandMap) {
+        safeRender(loadedIslandMap, game.getPlayerCivilizationId());
+        updateResourcesDisplay();
+        cityPanelView.refreshNow();
+        cityPanelView.updateFooter();
+      }
+      refreshSaveSlotsPanel();
+    },
+    onCreateSlot: () => {
+      const name = prompt(localize('saveSlots.prompt.name'));
+      if (name === null) {
+        return;
+      }
+      // Sauvegarder la partie en cours avant de quitter son slot
+      saveManager.saveToLocal();
+      saveManager.createSlot(name);
+      startFreshGameInActiveSlot();
+      refreshSaveSlotsPanel();
+    },
+    onDeleteSlot: (slotId) => {
+      const slot = saveManager.listSlots().find(s => s.id === slotId);
+      if (!slot || !confirm(localize('saveSlots.confirm.delete', { name: slot.name }))) {
+        return;
+      }
+      saveManager.deleteSlot(slotId);
+      refreshSaveSlotsPanel();
+    },
+    onExportSlot: (slotId) => {
+      saveManager.exportSave(slotId);
+    },
+    onImportSlot: (slotId) => {
+      const isActiveSlot = slotId === saveManager.getActiveSlotId();
+      pickSaveFile(async (file, input) => {
+        const result = await saveManager.importFromFile(file, slotId);
+        document.body.removeChild(input);
+        if (!result.success) {
+          alert(localize('alert.importError'));
+          return;
+        }
+
+        if (isActiveSlot) {
+          cityPanelView.setPlayerCivilizationId(game.getPlayerCivilizationId());
+          updatePrestigeTabsVisibility();
+          const newIslandMap = game.getIslandMap();
+          if (newIslandMap) {
+            safeRender(newIslandMap, game.getPlayerCivilizationId());
+            updateResourcesDisplay();
+            cityPanelView.refreshNow();
+            cityPanelView.updateFooter();
+          }
+        }
+        refreshSaveSlotsPanel();
+      });
+    },
+  });
+
+  saveSlotsBtn.addEventListener('click', () => {
+    // Sauvegarder d'abord pour afficher des métadonnées à jour pour le slot actif
+    saveManager.saveToLocal();
+    saveSlotsPanelView.show(saveManager.listSlots(), saveManager.getActiveSlotId());
+    settingsMenu.classList.add('hidden');
+  });
+
   // Gérer le bouton cheat dans le menu
   cheatBtn.addEventListener('click', () => {
     const playerResources = game.getPlayerResources();
@@ -874,6 +1391,7 @@ function main(): void {
 
     // Appliquer la traduction sur la page
     localizePage();
+    updateRivalsButton();
 
     // Rafraîchir les vues dépendantes de la locale
     updateResourcesDisplay();
@@ -0,0 +1,60 @@
+import { AchievementId, ACHIEVEMENT_DEFINITIONS } from './types';
+
+/**
+ * Format sérialisé des succès.
+ */
+export interface AchievementsSerialized {
+  unlocked: string[];
+}
+
+/**
+ * Succès débloqués par le joueur, dans l'ordre de déblocage.
+ * Modèle pur : les conditions et les bonus sont gérés par AchievementController.
+ */
+export class Achievements {
+  private readonly unlocked: Set<AchievementId> = new Set();
+
+  /**
+   * Vérifie si un succès est débloqué.
+   * @param id - Le succès
+   */
+  isUnlocked(id: AchievementId): boolean {
+    return this.unlocked.has(id);
+  }
+
+  /**
+   * Débloque un succès.
+   * @param id - Le succès
+   * @returns true si le succès n'était pas encore débloqué
+   */
+  unlock(id: AchievementId): boolean {
+    if (this.unlocked.has(id)) {
+      return false;
+    }
+    this.unlocked.add(id);
+    return true;
+  }
+
+  /** Succès débloqués, dans l'ordre de déblocage. */
+  getUnlocked(): AchievementId[] {
+    return [...this.unlocked];
+  }
+
+  serialize(): AchievementsSerialized {
+    return { unlocked: this.getUnlocked() };
+  }
+
+  static deserialize(data: AchievementsSerialized | undefined): Achievements {
+    const achievements = new Achievements();
+    if (!data || !Array.isArray(data.unlocked)) {
+      return achievements;
+    }
+    for (const id of data.unlocked) {
+      // Ignorer les succès inconnus (ex: retirés du jeu)
+      if (id in ACHIEVEMENT_DEFINITIONS) {
+        achievements.unlocked.add(id as AchievementId);
+      }
+    }
+    return achievements;
+  }
+}
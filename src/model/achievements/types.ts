@@ -0,0 +1,120 @@
+import { BuildingType } from '../city/BuildingType';
+import { CityLevel } from '../city/CityLevel';
+
+/**
+ * Succès débloqués par les étapes marquantes d'une partie.
+ * Ils sont conservés entre les prestiges dans le PlayerSave.
+ */
+export enum AchievementId {
+  FirstCapital = 'FirstCapital',
+  MaxSeaport = 'MaxSeaport',
+  FiveCities = 'FiveCities',
+  FullAutomation = 'FullAutomation',
+  FirstPrestige = 'FirstPrestige',
+}
+
+/**
+ * Types de conditions de déblocage, évaluées par AchievementController.
+ */
+export enum AchievementConditionType {
+  /** Une ville du joueur atteint un niveau */
+  CityLevel = 'CityLevel',
+  /** Un bâtiment atteint un niveau dans une ville du joueur */
+  BuildingLevel = 'BuildingLevel',
+  /** Le joueur possède un nombre minimal de villes */
+  CityCount = 'CityCount',
+  /** Toutes les automatisations de la civilisation sont actives */
+  AllAutomations = 'AllAutomations',
+  /** Des points de prestige ont déjà été gagnés */
+  Prestige = 'Prestige',
+}
+
+/**
+ * Condition de déblocage d'un succès.
+ */
+export type AchievementCondition =
+  | { type: AchievementConditionType.CityLevel; level: CityLevel }
+  | { type: AchievementConditionType.BuildingLevel; buildingType: BuildingType; level: number }
+  | { type: AchievementConditionType.CityCount; count: number }
+  | { type: AchievementConditionType.AllAutomations }
+  | { type: AchievementConditionType.Prestige };
+
+/**
+ * Bonus permanents accordés par certains succès, ajoutés aux multiplicateurs de Civilization.
+ */
+export enum AchievementBonusType {
+  /** Gain de ressources des récoltes (fraction, ex: 0.05 = +5%) */
+  ResourceGain = 'ResourceGain',
+  /** Gain de points de civilisation au prestige (fraction) */
+  CivPointGain = 'CivPointGain',
+  /** Réduction des durées de construction (fraction) */
+  ConstructionTime = 'ConstructionTime',
+}
+
+/**
+ * Bonus cumulés des succès débloqués.
+ */
+export type AchievementBonuses = Record<AchievementBonusType, number>;
+
+/**
+ * Bonus neutres (aucun succès).
+ */
+export const NO_ACHIEVEMENT_BONUSES: Readonly<AchievementBonuses> = {
+  [AchievementBonusType.ResourceGain]: 0,
+  [AchievementBonusType.CivPointGain]: 0,
+  [AchievementBonusType.ConstructionTime]: 0,
+};
+
+/**
+ * Caractéristiques d'un succès.
+ */
+export interface AchievementDefinition {
+  condition: AchievementCondition;
+  /** Bonus permanent accordé (null si aucun) */
+  bonus: { type: AchievementBonusType; value: number } | null;
+  /** Icône affichée dans la notification */
+  icon: string;
+  nameKey: string;
+  descriptionKey: string;
+}
+
+/**
+ * Définitions des succès, dans l'ordre d'affichage.
+ */
+export const ACHIEVEMENT_DEFINITIONS: Readonly<Record<AchievementId, AchievementDefinition>> = {
+  [AchievementId.FirstCapital]: {
+    condition: { type: AchievementConditionType.CityLevel, level: CityLevel.Capital },
+    bonus: { type: AchievementBonusType.ResourceGain, value: 0.05 },
+    icon: '🏰',
+    nameKey: 'achievement.FirstCapital.name',
+    descriptionKey: 'achievement.FirstCapital.description',
+  },
+  [AchievementId.MaxSeaport]: {
+    condition: { type: AchievementConditionType.BuildingLevel, buildingType: BuildingType.Seaport, level: 4 },
+    bonus: { type: AchievementBonusType.ConstructionTime, value: 0.05 },
+    icon: '⚓',
+    nameKey: 'achievement.MaxSeaport.name',
+    descriptionKey: 'achievement.MaxSeaport.description',
+  },
+  [AchievementId.FiveCities]: {
+    condition: { type: AchievementConditionType.CityCount, count: 5 },
+    bonus: { type: AchievementBonusType.ResourceGain, value: 0.05 },
+    icon: '🏘️',
+    nameKey: 'achievement.FiveCities.name',
+    descriptionKey: 'achievement.FiveCities.description',
+  },
+  [AchievementId.FullAutomation]: {
+    condition: { type: AchievementConditionType.AllAutomations },
+    bonus: null,
+    icon: '⚙️',
+    nameKey: 'achievement.FullAutomation.name',
+    descriptionKey: 'achievement.FullAutomation.description',
+  },
+  [AchievementId.FirstPrestige]: {
+    condition: { type: AchievementConditionType.Prestige },
+    bonus: { type: AchievementBonusType.CivPointGain, value: 0.1 },
+    icon: '👑',
+    nameKey: 'achievement.FirstPrestige.name',
+    descriptionKey: 'achievement.FirstPrestige.description',
+  },
+};
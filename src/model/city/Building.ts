@@ -1,4 +1,5 @@
-import { BuildingType, getBuildingUpgradeCost, getResourceProductionBuildings } from './BuildingType';
+import { BuildingType, getBuildingUpgradeCost } from './BuildingType';
+import { BuildingRegistry } from './BuildingRegistry';
 import { ResourceType } from '../map/ResourceType';
 
 /** Format sérialisé d'un bâtiment (généré par `Building.serialize()`). */
@@ -8,6 +9,8 @@ export interface BuildingSerialized {
   productionTimeSeconds?: number;
   specialization?: string;
   autoTradeEnabled?: boolean;
+  relics?: number;
+  rngState?: number;
 }
 
 /**
@@ -21,12 +24,8 @@ export class Building {
   private _productionTimeSeconds: number | undefined;
   private _specialization: ResourceType | undefined;
   private _autoTradeEnabled: boolean;
-  private static readonly DEFAULT_MAX_LEVEL = 1;
-  private static readonly PRODUCTION_MAX_LEVEL = 5;
-  private static readonly TOWN_HALL_MAX_LEVEL = 4;
-  private static readonly MARKET_MAX_LEVEL = 2;
-  private static readonly SEAPORT_MAX_LEVEL = 4;
-  private static readonly BUILDERS_GUILD_MAX_LEVEL = 3;
+  private _relics: number;
+  private _rngState: number | undefined;
 
   /**
    * Crée un nouveau bâtiment.
@@ -46,6 +45,7 @@ export class Building {
     }
     this._level = level;
     this._autoTradeEnabled = false;
+    this._relics = 0;
   }
 
   /**
@@ -56,29 +56,14 @@ export class Building {
   }
 
   /**
-   * Niveau maximum autorisé pour ce bâtiment.
-   * Par défaut: 1. Bâtiments de production: 5.
+   * Niveau maximum autorisé pour ce bâtiment, défini dans le registre des bâtiments.
    */
   getMaxLevel(): number {
     return Building.getMaxLevel(this.type);
   }
 
   private static getMaxLevel(type: BuildingType): number {
-    if (type === BuildingType.TownHall) {
-      return Building.TOWN_HALL_MAX_LEVEL;
-    }
-    if (type === BuildingType.Market) {
-      return Building.MARKET_MAX_LEVEL;
-    }
-    if (type === BuildingType.Seaport) {
-      return Building.SEAPORT_MAX_LEVEL;
-    }
-    if (type === BuildingType.BuildersGuild) {
-      return Building.BUILDERS_GUILD_MAX_LEVEL;
-    }
-    return getResourceProductionBuildings().includes(type)
-      ? Building.PRODUCTION_MAX_LEVEL
-      : Building.DEFAULT_MAX_LEVEL;
+    return BuildingRegistry.get(type).maxLevel;
   }
 
   /**
@@ -208,6 +193,42 @@ export class Building {
     return this._autoTradeEnabled;
   }
 
+  /**
+   * Retourne le nombre de reliques exhumées (pour les chantiers de fouilles).
+   */
+  getRelicCount(): number {
+    return this._relics;
+  }
+
+  /**
+   * Définit le nombre de reliques exhumées (pour les chantiers de fouilles).
+   * @param count - Le nombre de reliques
+   * @throws Error si le bâtiment n'est pas un chantier de fouilles ou si le nombre est négatif
+   */
+  setRelicCount(count: number): void {
+    if (this.type !== BuildingType.Excavation) {
+      throw new Error(`Seul le chantier de fouilles peut exhumer des reliques.`);
+    }
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`Le nombre de reliques doit être un entier positif.`);
+    }
+    this._relics = count;
+  }
+
+  /**
+   * Retourne l'état du générateur aléatoire du bâtiment (tirages du marché), ou undefined s'il n'a jamais tiré.
+   */
+  getRngState(): number | undefined {
+    return this._rngState;
+  }
+
+  /**
+   * Définit l'état du générateur aléatoire du bâtiment (tirages du marché).
+   */
+  setRngState(state: number): void {
+    this._rngState = state;
+  }
+
   /**
    * Vérifie si la construction automatique de routes peut être activée (Guilde des batisseurs niveau 1+).
    * @returns true si l'automatisation peut être activée
@@ -268,6 +289,12 @@ export class Building {
     if (this._autoTradeEnabled) {
       result.autoTradeEnabled = this._autoTradeEnabled;
     }
+    if (this._relics > 0) {
+      result.relics = this._relics;
+    }
+    if (this._rngState !== undefined) {
+      result.rngState = this._rngState;
+    }
     return result;
   }
 }
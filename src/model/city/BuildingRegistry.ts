@@ -0,0 +1,257 @@
+import { ResourceType } from '../map/ResourceType';
+import { HexType } from '../map/HexType';
+import { CityLevel } from './CityLevel';
+import { BuildingAction, BuildingType } from './BuildingType';
+import { localize } from '../../i18n';
+import buildingsData from './buildings.json';
+
+/**
+ * Courbe de coût d'amélioration d'un bâtiment.
+ * - linear : coût de base × niveau actuel
+ * - exponential : coût de base × facteur^(niveau actuel - 1), arrondi
+ */
+export type BuildingCostCurve = 'linear' | 'exponential';
+
+/**
+ * Définition d'un bâtiment, issue du fichier de données `buildings.json`.
+ */
+export interface BuildingDefinition {
+  type: BuildingType;
+  /** Coût de construction */
+  buildCost: Map<ResourceType, number>;
+  /** Coût d'amélioration de base, appliqué selon la courbe */
+  upgradeCost: {
+    curve: BuildingCostCurve;
+    base: Map<ResourceType, number>;
+    /** Facteur de la courbe exponentielle */
+    factor?: number;
+    /** Coût supplémentaire des améliorations de haut niveau (ex: outils), appliqué selon la même courbe */
+    highTier?: {
+      /** Niveau actuel à partir duquel le coût supplémentaire s'applique */
+      fromLevel: number;
+      base: Map<ResourceType, number>;
+    };
+  };
+  /** Niveau maximum du bâtiment */
+  maxLevel: number;
+  /** Type d'hex adjacent requis pour construire le bâtiment, ou null si aucun */
+  requiredHexType: HexType | null;
+  /** Niveau de ville minimum pour construire le bâtiment */
+  minCityLevel: CityLevel;
+  /** Action débloquée par le bâtiment, ou null si aucune */
+  action: BuildingAction | null;
+  /** Bâtiment de production de ressources */
+  production: boolean;
+  /** Clé de traduction du nom */
+  nameKey: string;
+  /** Clé de traduction de la description */
+  descriptionKey: string;
+}
+
+/**
+ * Registre des bâtiments du jeu.
+ *
+ * Les définitions sont chargées et validées à la première utilisation
+ * (chargement paresseux : BuildingType et le registre s'importent mutuellement).
+ * `load()` permet de remplacer les données, par exemple pour rééquilibrer les bâtiments.
+ * Ajouter un bâtiment ne demande qu'une entrée dans BuildingType et dans le fichier de données,
+ * sans toucher aux contrôleurs.
+ */
+export class BuildingRegistry {
+  private static definitions: Map<BuildingType, BuildingDefinition> | null = null;
+
+  /**
+   * Retourne la définition d'un bâtiment.
+   * @param buildingType - Le type de bâtiment
+   * @throws Error si le bâtiment n'est pas défini
+   */
+  static get(buildingType: BuildingType): BuildingDefinition {
+    const definition = this.getDefinitions().get(buildingType);
+    if (!definition) {
+      throw new Error(localize('error.buildings.missing', { building: String(buildingType) }));
+    }
+    return definition;
+  }
+
+  /**
+   * Retourne toutes les définitions, dans l'ordre du fichier de données.
+   */
+  static getAll(): BuildingDefinition[] {
+    return [...this.getDefinitions().values()];
+  }
+
+  /**
+   * Remplace les définitions par des données validées.
+   * @param data - Les données brutes (même format que `buildings.json`)
+   * @throws Error indiquant le chemin du champ invalide
+   */
+  static load(data: unknown): void {
+    this.definitions = parseBuildingDefinitions(data);
+  }
+
+  /**
+   * Revient aux définitions par défaut du jeu.
+   */
+  static reset(): void {
+    this.definitions = null;
+  }
+
+  private static getDefinitions(): Map<BuildingType, BuildingDefinition> {
+    if (!this.definitions) {
+      this.definitions = parseBuildingDefinitions(buildingsData);
+    }
+    return this.definitions;
+  }
+}
+
+/**
+ * Calcule le coût d'amélioration d'un bâtiment pour passer au niveau suivant.
+ * @param definition - La définition du bâtiment
+ * @param currentLevel - Le niveau actuel du bâtiment
+ */
+export function computeUpgradeCost(definition: BuildingDefinition, currentLevel: number): Map<ResourceType, number> {
+  const { curve, base, factor, highTier } = definition.upgradeCost;
+  const multiplier = curve === 'exponential' ? Math.pow(factor ?? 1, currentLevel - 1) : currentLevel;
+  const result = new Map<ResourceType, number>();
+  for (const [resource, amount] of base) {
+    result.set(resource, Math.round(amount * multiplier));
+  }
+  if (highTier && currentLevel >= highTier.fromLevel) {
+    for (const [resource, amount] of highTier.base) {
+      result.set(resource, (result.get(resource) ?? 0) + Math.round(amount * multiplier));
+    }
+  }
+  return result;
+}
+
+/**
+ * Valide et convertit les données brutes des bâtiments.
+ * Chaque type de BuildingType doit être défini, et aucun type inconnu n'est accepté.
+ * @param data - Les données brutes
+ * @returns Les définitions, indexées par type de bâtiment
+ * @throws Error indiquant le chemin du champ invalide
+ */
+export function parseBuildingDefinitions(data: unknown): Map<BuildingType, BuildingDefinition> {
+  const root = expectObject(data, 'buildings');
+  const knownTypes = Object.values(BuildingType) as string[];
+  for (const key of Object.keys(root)) {
+    if (!knownTypes.includes(key)) {
+      throw new Error(localize('error.buildings.unknown', { building: key }));
+    }
+  }
+
+  const definitions = new Map<BuildingType, BuildingDefinition>();
+  for (const [key, value] of Object.entries(root)) {
+    const type = key as BuildingType;
+    definitions.set(type, parseDefinition(type, value, key));
+  }
+  for (const type of Object.values(BuildingType)) {
+    if (!definitions.has(type)) {
+      throw new Error(localize('error.buildings.missing', { building: type }));
+    }
+  }
+  return definitions;
+}
+
+function parseDefinition(type: BuildingType, value: unknown, path: string): BuildingDefinition {
+  const raw = expectObject(value, path);
+
+  const upgradeCost = expectObject(raw.upgradeCost, `${path}.upgradeCost`);
+  const curve = expectOneOf(upgradeCost.curve, `${path}.upgradeCost.curve`, ['linear', 'exponential']) as BuildingCostCurve;
+  let factor: number | undefined;
+  if (curve === 'exponential') {
+    factor = expectNumber(upgradeCost.factor, `${path}.upgradeCost.factor`);
+    if (factor <= 0) {
+      throw invalid(`${path}.upgradeCost.factor`, '> 0');
+    }
+  }
+
+  let highTier: BuildingDefinition['upgradeCost']['highTier'];
+  if (upgradeCost.highTier !== undefined) {
+    const rawHighTier = expectObject(upgradeCost.highTier, `${path}.upgradeCost.highTier`);
+    highTier = {
+      fromLevel: expectNumber(rawHighTier.fromLevel, `${path}.upgradeCost.highTier.fromLevel`),
+      base: expectCost(rawHighTier.base, `${path}.upgradeCost.highTier.base`),
+    };
+  }
+
+  const maxLevel = expectNumber(raw.maxLevel, `${path}.maxLevel`);
+  if (!Number.isInteger(maxLevel) || maxLevel < 1) {
+    throw invalid(`${path}.maxLevel`, 'integer >= 1');
+  }
+
+  const cityLevelNames = Object.keys(CityLevel).filter(name => isNaN(Number(name)));
+  const minCityLevel = expectOneOf(raw.minCityLevel, `${path}.minCityLevel`, cityLevelNames);
+
+  if (typeof raw.production !== 'boolean') {
+    throw invalid(`${path}.production`, 'boolean');
+  }
+
+  return {
+    type,
+    buildCost: expectCost(raw.buildCost, `${path}.buildCost`),
+    upgradeCost: { curve, base: expectCost(upgradeCost.base, `${path}.upgradeCost.base`), factor, highTier },
+    maxLevel,
+    requiredHexType: raw.requiredHexType === null
+      ? null
+      : expectOneOf(raw.requiredHexType, `${path}.requiredHexType`, Object.values(HexType)) as HexType,
+    minCityLevel: CityLevel[minCityLevel as keyof typeof CityLevel],
+    action: raw.action === null
+      ? null
+      : expectOneOf(raw.action, `${path}.action`, Object.values(BuildingAction)) as BuildingAction,
+    production: raw.production,
+    nameKey: expectString(raw.nameKey, `${path}.nameKey`),
+    descriptionKey: expectString(raw.descriptionKey, `${path}.descriptionKey`),
+  };
+}
+
+// ——— Vérifications élémentaires ———
+
+function invalid(path: string, expected: string): Error {
+  return new Error(localize('error.buildings.invalidField', { path, expected }));
+}
+
+function expectObject(value: unknown, path: string): Record<string, any> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw invalid(path, 'object');
+  }
+  return value as Record<string, any>;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw invalid(path, 'number');
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw invalid(path, 'string');
+  }
+  return value;
+}
+
+function expectOneOf(value: unknown, path: string, allowed: string[]): string {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw invalid(path, allowed.join(' | '));
+  }
+  return value;
+}
+
+/** Coût : ressource → quantité positive. */
+function expectCost(value: unknown, path: string): Map<ResourceType, number> {
+  const raw = expectObject(value, path);
+  const resourceTypes = Object.values(ResourceType) as string[];
+  const cost = new Map<ResourceType, number>();
+  for (const [resource, amount] of Object.entries(raw)) {
+    if (!resourceTypes.includes(resource)) {
+      throw invalid(`${path}.${resource}`, resourceTypes.join(' | '));
+    }
+    if (expectNumber(amount, `${path}.${resource}`) < 0) {
+      throw invalid(`${path}.${resource}`, '>= 0');
+    }
+    cost.set(resource as ResourceType, amount as number);
+  }
+  return cost;
+}
@@ -2,6 +2,7 @@ import { Vertex } from '../hex/Vertex';
 import { CivilizationId } from '../map/CivilizationId';
 import { CityLevel, isValidCityLevel } from './CityLevel';
 import { BuildingType, getAllBuildingTypes, getResourceProductionBuildings } from './BuildingType';
+import { BuildingRegistry } from './BuildingRegistry';
 import { Building, type BuildingSerialized } from './Building';
 import { ResourceType } from '../map/ResourceType';
 
@@ -59,16 +60,26 @@ export class City {
 
   /**
    * Retourne le nombre maximum de bâtiments qu'une ville de ce niveau peut construire.
+   * @param extraSlots - Emplacements supplémentaires débloqués par la recherche (optionnel)
    * @returns Le nombre maximum de bâtiments
    */
-  getMaxBuildings(): number {
+  getMaxBuildings(extraSlots: number = 0): number {
+    return City.getMaxBuildingsForLevel(this.level, extraSlots);
+  }
+
+  /**
+   * Retourne le nombre maximum de bâtiments d'une ville d'un niveau donné.
+   * @param level - Le niveau de ville
+   * @param extraSlots - Emplacements supplémentaires débloqués par la recherche (optionnel)
+   */
+  static getMaxBuildingsForLevel(level: CityLevel, extraSlots: number = 0): number {
     // Limite de bâtiments par niveau :
     // Outpost (0): 1 bâtiment
     // Colony (1): 2 bâtiments
     // Town (2): 3 bâtiments
     // Metropolis (3): 4 bâtiments
     // Capital (4): 5 bâtiments
-    return (this.level + 1) * 2;
+    return (level + 1) * 2 + extraSlots;
   }
 
   /**
@@ -81,27 +92,29 @@ export class City {
 
   /**
    * Vérifie si la ville peut construire un bâtiment supplémentaire.
+   * @param extraSlots - Emplacements supplémentaires débloqués par la recherche (optionnel)
    * @returns true si la ville peut construire un nouveau bâtiment
    */
-  canBuildBuilding(): boolean {
-    return this.getBuildingCount() < this.getMaxBuildings();
+  canBuildBuilding(extraSlots: number = 0): boolean {
+    return this.getBuildingCount() < this.getMaxBuildings(extraSlots);
   }
 
   /**
    * Ajoute un bâtiment à la ville.
    * @param buildingType - Le type de bâtiment à ajouter
+   * @param extraSlots - Emplacements supplémentaires débloqués par la recherche (optionnel)
    * @throws Error si la ville ne peut pas construire de bâtiment supplémentaire
    * @throws Error si le bâtiment n'est pas constructible dans cette ville
    * @throws Error si le bâtiment est déjà construit
    */
-  addBuilding(buildingType: BuildingType): void {
-    if (!this.canBuildBuilding()) {
+  addBuilding(buildingType: BuildingType, extraSlots: number = 0): void {
+    if (!this.canBuildBuilding(extraSlots)) {
       throw new Error(
-        `La ville ne peut pas construire plus de ${this.getMaxBuildings()} bâtiments (niveau ${this.level}).`
+        `La ville ne peut pas construire plus de ${this.getMaxBuildings(extraSlots)} bâtiments (niveau ${this.level}).`
       );
     }
 
-    if (!this.canBuildBuildingType(buildingType)) {
+    if (!this.canBuildBuildingType(buildingType, extraSlots)) {
       throw new Error(
         `Le bâtiment ${buildingType} n'est pas constructible dans cette ville (niveau ${this.level}).`
       );
@@ -143,6 +156,17 @@ export class City {
     this.buildings.set(buildingType, building);
   }
 
+  /**
+   * Retire un bâtiment de la ville (annulation d'une construction).
+   * @param buildingType - Le type de bâtiment à retirer
+   * @throws Error si le bâtiment n'est pas construit
+   */
+  removeBuilding(buildingType: BuildingType): void {
+    if (!this.buildings.delete(buildingType)) {
+      throw new Error(`Le bâtiment ${buildingType} n'est pas construit dans cette ville.`);
+    }
+  }
+
   /**
    * Retourne la liste des types de bâtiments construits.
    * @returns Un tableau des types de bâtiments construits
@@ -209,45 +233,22 @@ export class City {
   /**
    * Vérifie si un type de bâtiment peut être construit dans cette ville.
    * @param buildingType - Le type de bâtiment à vérifier
+   * @param extraSlots - Emplacements supplémentaires débloqués par la recherche (optionnel)
    * @returns true si le bâtiment peut être construit
    */
-  canBuildBuildingType(buildingType: BuildingType): boolean {
+  canBuildBuildingType(buildingType: BuildingType, extraSlots: number = 0): boolean {
     // Vérifier si le bâtiment est déjà construit
     if (this.hasBuilding(buildingType)) {
       return false;
     }
 
     // Vérifier si on a encore de la place
-    if (!this.canBuildBuilding()) {
+    if (!this.canBuildBuilding(extraSlots)) {
       return false;
     }
 
-    // Règles de disponibilité selon le niveau de la ville
-    switch (buildingType) {
-      case BuildingType.Seaport:
-      case BuildingType.Warehouse:
-      case BuildingType.Forge:
-      case BuildingType.Library:
-        return this.level >= CityLevel.Town; // Niveau 2 (Ville)
-      case BuildingType.Temple:
-        return this.level >= CityLevel.Metropolis; // Niveau 3 (Métropole)
-      case BuildingType.BuildersGuild:
-        return this.level >= CityLevel.Capital; // Niveau 4 (Capitale)
-      case BuildingType.Market:
-      case BuildingType.TownHall:
-        return this.level >= CityLevel.Outpost;
-
-      case BuildingType.Sawmill:
-      case BuildingType.Brickworks:
-      case BuildingType.Mill:
-      case BuildingType.Sheepfold:
-      case BuildingType.Mine:
-        // Bâtiments de production de ressources disponibles à partir du niveau Colony (1)
-        return this.level >= CityLevel.Colony;
-
-      default:
-        return false;
-    }
+    // Disponibilité selon le niveau de la ville (registre des bâtiments)
+    return this.level >= BuildingRegistry.get(buildingType).minCityLevel;
   }
 
   /**
@@ -1,15 +0,0 @@
-import { BaseBuildingSpec } from './BaseBuilding';
-import { ResourceType } from '../../map/ResourceType';
-
-export class ForgeSpec extends BaseBuildingSpec {
-  getBuildCost(): Map<ResourceType, number> {
-    return new Map([[ResourceType.Wood, 5], [ResourceType.Brick, 12], [ResourceType.Ore, 20]]);
-  }
-
-  getUpgradeCost(currentLevel: number): Map<ResourceType, number> {
-    const base = new Map([[ResourceType.Wood, 20], [ResourceType.Brick, 10], [ResourceType.Ore, 50]]);
-    const result = new Map<ResourceType, number>();
-    for (const [r, c] of base) result.set(r, c * currentLevel);
-    return result;
-  }
-}
@@ -1,15 +0,0 @@
-import { BaseBuildingSpec } from './BaseBuilding';
-import { ResourceType } from '../../map/ResourceType';
-
-export class MarketSpec extends BaseBuildingSpec {
-  getBuildCost(): Map<ResourceType, number> {
-    return new Map([[ResourceType.Wood, 6]]);
-  }
-
-  getUpgradeCost(currentLevel: number): Map<ResourceType, number> {
-    const base = new Map([[ResourceType.Wood, 5], [ResourceType.Brick, 5], [ResourceType.Sheep, 10], [ResourceType.Wheat, 10]]);
-    const result = new Map<ResourceType, number>();
-    for (const [r, c] of base) result.set(r, c * currentLevel);
-    return result;
-  }
-}
@@ -5,4 +5,6 @@
 export { CityLevel, CITY_LEVEL_NAMES, getCityLevelName, getNextCityLevel, isValidCityLevel } from './CityLevel';
 export { City } from './City';
 export { Building } from './Building';
+export { BuildingRegistry, computeUpgradeCost, parseBuildingDefinitions } from './BuildingRegistry';
+export type { BuildingDefinition, BuildingCostCurve } from './BuildingRegistry';
 export { BuildingType, getBuildingTypeName, getBuildingActionName, getAllBuildingTypes, getBuildingCost, getBuildingUpgradeCost, getResourceProductionBuildings } from './BuildingType';
@@ -0,0 +1,226 @@
+import { HexType } from '../map/HexType';
+import { ResourceType } from '../map/ResourceType';
+import { IslandEventType, IslandEventEffects, NO_ISLAND_EVENT_EFFECTS } from './types';
+
+/**
+ * Échange unique proposé par un marchand itinérant.
+ */
+export interface TraderOffer {
+  /** Ressource donnée par le joueur */
+  readonly give: ResourceType;
+  readonly giveAmount: number;
+  /** Ressource reçue par le joueur */
+  readonly receive: ResourceType;
+  readonly receiveAmount: number;
+}
+
+/**
+ * Événement actif : type, fin (temps de jeu) et cible éventuelle.
+ */
+export interface ActiveIslandEvent {
+  readonly type: IslandEventType;
+  /** Temps de jeu de fin (en secondes) */
+  readonly endTime: number;
+  /** Type d'hexagone ciblé (AbundantHarvest uniquement) */
+  readonly hexType?: HexType;
+  /** Sommet (hashCode) de la ville dont le port est bloqué (Storm uniquement) */
+  readonly seaport?: string;
+  /** Échange proposé (WanderingTrader uniquement) */
+  readonly offer?: TraderOffer;
+}
+
+/**
+ * Format sérialisé d'un événement actif.
+ */
+export interface ActiveIslandEventSerialized {
+  type: string;
+  endTime: number;
+  hexType?: string;
+  seaport?: string;
+  offer?: { give: string; giveAmount: number; receive: string; receiveAmount: number };
+}
+
+/**
+ * Format sérialisé de l'état des événements.
+ */
+export interface IslandEventStateSerialized {
+  rngState: number;
+  nextEventTime: number | null;
+  events: ActiveIslandEventSerialized[];
+}
+
+/**
+ * État des événements aléatoires d'une île : générateur seedé, prochain tirage et événements actifs.
+ * Modèle pur : le tirage et la résolution des événements sont gérés par IslandEventController.
+ * Les durées sont exprimées en temps de jeu (GameClock).
+ */
+export class IslandEventState {
+  /** Temps de jeu du prochain tirage (null tant que le planificateur n'a pas démarré). */
+  private nextEventTime: number | null = null;
+  private readonly events: Map<IslandEventType, ActiveIslandEvent> = new Map();
+
+  /**
+   * @param rngState - L'état du générateur aléatoire (seed initiale pour une nouvelle île)
+   */
+  constructor(private rngState: number = 0) {}
+
+  /**
+   * État initial du générateur des événements d'une île, dérivé de la seed de la carte
+   * (mélangé pour ne pas rejouer les tirages du générateur de carte).
+   * @param seed - La seed de la carte
+   */
+  static initialRngState(seed: number): number {
+    return (seed ^ 0x85ebca6b) >>> 0;
+  }
+
+  /** État courant du générateur aléatoire des événements. */
+  getRngState(): number {
+    return this.rngState;
+  }
+
+  /** Met à jour l'état du générateur aléatoire après un tirage. */
+  setRngState(state: number): void {
+    this.rngState = state;
+  }
+
+  /** Temps de jeu du prochain tirage, ou null si non planifié. */
+  getNextEventTime(): number | null {
+    return this.nextEventTime;
+  }
+
+  /** Programme le prochain tirage. */
+  setNextEventTime(time: number): void {
+    this.nextEventTime = time;
+  }
+
+  /**
+   * Enregistre un événement actif (remplace un éventuel événement du même type).
+   * @param event - L'événement
+   */
+  start(event: ActiveIslandEvent): void {
+    this.events.set(event.type, event);
+  }
+
+  /**
+   * Retourne l'événement actif d'un type, ou undefined.
+   * @param type - Le type d'événement
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   */
+  getActive(type: IslandEventType, currentTime: number): ActiveIslandEvent | undefined {
+    const event = this.events.get(type);
+    return event !== undefined && event.endTime > currentTime ? event : undefined;
+  }
+
+  /**
+   * Met fin à un événement (ex: offre du marchand acceptée).
+   * @param type - Le type d'événement
+   */
+  end(type: IslandEventType): void {
+    this.events.delete(type);
+  }
+
+  /**
+   * Retourne les événements actifs, triés par fin.
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   */
+  getActiveEvents(currentTime: number): ActiveIslandEvent[] {
+    return [...this.events.values()]
+      .filter(event => event.endTime > currentTime)
+      .sort((a, b) => a.endTime - b.endTime);
+  }
+
+  /**
+   * Retire les événements expirés.
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   */
+  removeExpired(currentTime: number): void {
+    for (const [type, event] of this.events) {
+      if (event.endTime <= currentTime) {
+        this.events.delete(type);
+      }
+    }
+  }
+
+  /**
+   * Calcule les effets des événements actifs.
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   */
+  getEffects(currentTime: number): IslandEventEffects {
+    if (this.events.size === 0) {
+      return NO_ISLAND_EVENT_EFFECTS;
+    }
+    const storm = this.getActive(IslandEventType.Storm, currentTime);
+    return {
+      abundantHarvestHexType: this.getActive(IslandEventType.AbundantHarvest, currentTime)?.hexType ?? null,
+      blockedSeaports: storm?.seaport !== undefined ? [storm.seaport] : [],
+    };
+  }
+
+  serialize(): IslandEventStateSerialized {
+    return {
+      rngState: this.rngState,
+      nextEventTime: this.nextEventTime,
+      events: [...this.events.values()].map(event => ({
+        type: event.type,
+        endTime: event.endTime,
+        ...(event.hexType !== undefined ? { hexType: event.hexType } : {}),
+        ...(event.seaport !== undefined ? { seaport: event.seaport } : {}),
+        ...(event.offer !== undefined ? { offer: { ...event.offer } } : {}),
+      })),
+    };
+  }
+
+  /**
+   * @param data - Les données sérialisées (absentes des anciennes sauvegardes)
+   * @param mapSeed - Seed de la carte, dont est dérivé le générateur si aucun état n'est sauvegardé
+   */
+  static deserialize(data: IslandEventStateSerialized | undefined, mapSeed: number = 0): IslandEventState {
+    if (!data) {
+      return new IslandEventState(IslandEventState.initialRngState(mapSeed));
+    }
+    const state = new IslandEventState(
+      typeof data.rngState === 'number' ? data.rngState : IslandEventState.initialRngState(mapSeed)
+    );
+    if (typeof data.nextEventTime === 'number') {
+      state.nextEventTime = data.nextEventTime;
+    }
+    if (Array.isArray(data.events)) {
+      for (const eventData of data.events) {
+        // Ignorer les événements inconnus (ex: retirés du jeu)
+        if (!Object.values(IslandEventType).includes(eventData.type as IslandEventType)) {
+          continue;
+        }
+        const type = eventData.type as IslandEventType;
+        const hexType = Object.values(HexType).includes(eventData.hexType as HexType)
+          ? eventData.hexType as HexType
+          : undefined;
+        const offer = this.deserializeOffer(eventData.offer);
+        // Un marchand sans offre valide n'a plus rien à proposer
+        if (type === IslandEventType.WanderingTrader && !offer) {
+          continue;
+        }
+        state.events.set(type, {
+          type,
+          endTime: eventData.endTime,
+          ...(hexType !== undefined ? { hexType } : {}),
+          ...(typeof eventData.seaport === 'string' ? { seaport: eventData.seaport } : {}),
+          ...(offer ? { offer } : {}),
+        });
+      }
+    }
+    return state;
+  }
+
+  private static deserializeOffer(data: ActiveIslandEventSerialized['offer']): TraderOffer | undefined {
+    const resources = Object.values(ResourceType) as string[];
+    if (!data || !resources.includes(data.give) || !resources.includes(data.receive)) {
+      return undefined;
+    }
+    return {
+      give: data.give as ResourceType,
+      giveAmount: data.giveAmount,
+      receive: data.receive as ResourceType,
+      receiveAmount: data.receiveAmount,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { HexType } from '../map/HexType';
+
+/**
+ * Événements aléatoires pouvant survenir sur l'île du joueur.
+ */
+export enum IslandEventType {
+  /** Récoltes abondantes : double les récoltes d'un type d'hexagone */
+  AbundantHarvest = 'AbundantHarvest',
+  /** Tempête : bloque un port maritime (Seaport) du joueur */
+  Storm = 'Storm',
+  /** Marchand itinérant : propose un échange unique à taux avantageux */
+  WanderingTrader = 'WanderingTrader',
+  /** Raid de bandits : vole une part d'une ressource non protégée par les entrepôts (instantané) */
+  BanditRaid = 'BanditRaid',
+}
+
+/**
+ * Caractéristiques d'un événement.
+ */
+export interface IslandEventDefinition {
+  /** Durée de l'événement (en secondes de jeu, 0 pour un événement instantané) */
+  durationSeconds: number;
+  /** Poids relatif lors du tirage */
+  weight: number;
+  /** Icône affichée dans la barre des événements et les notifications */
+  icon: string;
+  nameKey: string;
+  descriptionKey: string;
+}
+
+/**
+ * Définitions des événements, dans l'ordre d'affichage.
+ */
+export const ISLAND_EVENT_DEFINITIONS: Readonly<Record<IslandEventType, IslandEventDefinition>> = {
+  [IslandEventType.AbundantHarvest]: {
+    durationSeconds: 90,
+    weight: 3,
+    icon: '🌻',
+    nameKey: 'islandEvent.AbundantHarvest.name',
+    descriptionKey: 'islandEvent.AbundantHarvest.description',
+  },
+  [IslandEventType.Storm]: {
+    durationSeconds: 120,
+    weight: 2,
+    icon: '⛈️',
+    nameKey: 'islandEvent.Storm.name',
+    descriptionKey: 'islandEvent.Storm.description',
+  },
+  [IslandEventType.WanderingTrader]: {
+    durationSeconds: 180,
+    weight: 2,
+    icon: '🐪',
+    nameKey: 'islandEvent.WanderingTrader.name',
+    descriptionKey: 'islandEvent.WanderingTrader.description',
+  },
+  [IslandEventType.BanditRaid]: {
+    durationSeconds: 0,
+    weight: 2,
+    icon: '🗡️',
+    nameKey: 'islandEvent.BanditRaid.name',
+    descriptionKey: 'islandEvent.BanditRaid.description',
+  },
+};
+
+/**
+ * Effets des événements actifs, appliqués par GameModifiers.
+ */
+export interface IslandEventEffects {
+  /** Type d'hexagone dont les récoltes sont doublées (null si aucun) */
+  abundantHarvestHexType: HexType | null;
+  /** Sommets (hashCode) des villes dont le port maritime est bloqué par une tempête */
+  blockedSeaports: readonly string[];
+}
+
+/**
+ * Effets neutres (aucun événement actif).
+ */
+export const NO_ISLAND_EVENT_EFFECTS: Readonly<IslandEventEffects> = {
+  abundantHarvestHexType: null,
+  blockedSeaports: [],
+};
@@ -0,0 +1,181 @@
+import { HexType } from '../map/HexType';
+import { BlessingType, BlessingEffects, BLESSING_DEFINITIONS, NO_BLESSING_EFFECTS } from './types';
+import { localize } from '../../i18n';
+
+/**
+ * Bénédiction active : type, fin (temps de jeu) et cible éventuelle.
+ */
+export interface ActiveBlessing {
+  readonly type: BlessingType;
+  /** Temps de jeu de fin (en secondes) */
+  readonly endTime: number;
+  /** Type d'hexagone ciblé (BountifulHarvest uniquement) */
+  readonly hexType?: HexType;
+}
+
+/**
+ * Format sérialisé d'une bénédiction active.
+ */
+export interface ActiveBlessingSerialized {
+  type: string;
+  endTime: number;
+  hexType?: string;
+}
+
+/**
+ * Format sérialisé de l'état de la foi.
+ */
+export interface FaithStateSerialized {
+  faith: number;
+  blessings: ActiveBlessingSerialized[];
+}
+
+/**
+ * État de la foi d'une île : foi accumulée et bénédictions actives.
+ * Modèle pur : la production de foi et l'achat des bénédictions sont gérés par FaithController.
+ * Les durées sont exprimées en temps de jeu (GameClock).
+ */
+export class FaithState {
+  private faith: number = 0;
+  private readonly blessings: Map<BlessingType, ActiveBlessing> = new Map();
+
+  /** Retourne la foi disponible. */
+  getFaith(): number {
+    return this.faith;
+  }
+
+  /**
+   * Ajoute de la foi.
+   * @param amount - La quantité à ajouter
+   */
+  addFaith(amount: number): void {
+    this.faith += amount;
+  }
+
+  /**
+   * Retire de la foi.
+   * @param amount - La quantité à retirer
+   * @throws Error si la foi disponible est insuffisante
+   */
+  spendFaith(amount: number): void {
+    if (amount > this.faith) {
+      throw new Error(localize('faith.error.notEnoughFaith', {
+        current: String(this.faith),
+        required: String(amount),
+      }));
+    }
+    this.faith -= amount;
+  }
+
+  /**
+   * Active une bénédiction pour sa durée, à partir du temps donné.
+   * @param type - Le type de bénédiction
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   * @param hexType - Le type d'hexagone ciblé (BountifulHarvest uniquement)
+   * @returns La bénédiction activée
+   */
+  activate(type: BlessingType, currentTime: number, hexType?: HexType): ActiveBlessing {
+    const blessing: ActiveBlessing = {
+      type,
+      endTime: currentTime + BLESSING_DEFINITIONS[type].durationSeconds,
+      hexType,
+    };
+    this.blessings.set(type, blessing);
+    return blessing;
+  }
+
+  /**
+   * Vérifie si une bénédiction est active.
+   * @param type - Le type de bénédiction
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   */
+  isActive(type: BlessingType, currentTime: number): boolean {
+    const blessing = this.blessings.get(type);
+    return blessing !== undefined && blessing.endTime > currentTime;
+  }
+
+  /**
+   * Met fin à une bénédiction (ex: bénédiction à usage unique consommée).
+   * @param type - Le type de bénédiction
+   */
+  consume(type: BlessingType): void {
+    this.blessings.delete(type);
+  }
+
+  /**
+   * Retourne les bénédictions actives, triées par fin.
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   */
+  getActiveBlessings(currentTime: number): ActiveBlessing[] {
+    return [...this.blessings.values()]
+      .filter(blessing => blessing.endTime > currentTime)
+      .sort((a, b) => a.endTime - b.endTime);
+  }
+
+  /**
+   * Retire les bénédictions expirées.
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   */
+  removeExpired(currentTime: number): void {
+    for (const [type, blessing] of this.blessings) {
+      if (blessing.endTime <= currentTime) {
+        this.blessings.delete(type);
+      }
+    }
+  }
+
+  /**
+   * Calcule les effets des bénédictions actives.
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   */
+  getEffects(currentTime: number): BlessingEffects {
+    if (this.blessings.size === 0) {
+      return NO_BLESSING_EFFECTS;
+    }
+    const harvest = this.isActive(BlessingType.BountifulHarvest, currentTime)
+      ? this.blessings.get(BlessingType.BountifulHarvest)!.hexType ?? null
+      : null;
+    return {
+      doubledHarvestHexType: harvest,
+      inventoryCapsSuspended: this.isActive(BlessingType.BoundlessStorage, currentTime),
+    };
+  }
+
+  serialize(): FaithStateSerialized {
+    return {
+      faith: this.faith,
+      blessings: [...this.blessings.values()].map(blessing => ({
+        type: blessing.type,
+        endTime: blessing.endTime,
+        ...(blessing.hexType !== undefined ? { hexType: blessing.hexType } : {}),
+      })),
+    };
+  }
+
+  static deserialize(data: FaithStateSerialized | undefined): FaithState {
+    const state = new FaithState();
+    if (!data) {
+      return state;
+    }
+    if (typeof data.faith === 'number' && Number.isFinite(data.faith) && data.faith > 0) {
+      state.faith = data.faith;
+    }
+    if (Array.isArray(data.blessings)) {
+      for (const blessingData of data.blessings) {
+        // Ignorer les bénédictions inconnues (ex: retirées du jeu)
+        if (!Object.values(BlessingType).includes(blessingData.type as BlessingType)) {
+          continue;
+        }
+        const hexType = Object.values(HexType).includes(blessingData.hexType as HexType)
+          ? blessingData.hexType as HexType
+          : undefined;
+        state.blessings.set(blessingData.type as BlessingType, {
+          type: blessingData.type as BlessingType,
+          endTime: blessingData.endTime,
+          hexType,
+        });
+      }
+    }
+    return state;
+  }
+}
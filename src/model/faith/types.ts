@@ -0,0 +1,72 @@
+import { HexType } from '../map/HexType';
+
+/**
+ * Bénédictions temporaires achetées avec la foi produite par les temples.
+ */
+export enum BlessingType {
+  /** Double les récoltes d'un type d'hexagone (manuelles et bâtiments de production) */
+  BountifulHarvest = 'BountifulHarvest',
+  /** Suspend les plafonds d'inventaire */
+  BoundlessStorage = 'BoundlessStorage',
+  /** Achève instantanément la prochaine construction lancée par une automatisation */
+  SwiftConstruction = 'SwiftConstruction',
+}
+
+/**
+ * Caractéristiques d'une bénédiction.
+ */
+export interface BlessingDefinition {
+  /** Coût en foi */
+  cost: number;
+  /** Durée de la bénédiction (en secondes de jeu) */
+  durationSeconds: number;
+  /** Icône affichée dans la barre des bénédictions actives */
+  icon: string;
+  nameKey: string;
+  descriptionKey: string;
+}
+
+/**
+ * Définitions des bénédictions, dans l'ordre d'affichage.
+ */
+export const BLESSING_DEFINITIONS: Readonly<Record<BlessingType, BlessingDefinition>> = {
+  [BlessingType.BountifulHarvest]: {
+    cost: 20,
+    durationSeconds: 120,
+    icon: '🌾',
+    nameKey: 'blessing.BountifulHarvest.name',
+    descriptionKey: 'blessing.BountifulHarvest.description',
+  },
+  [BlessingType.BoundlessStorage]: {
+    cost: 30,
+    durationSeconds: 60,
+    icon: '📦',
+    nameKey: 'blessing.BoundlessStorage.name',
+    descriptionKey: 'blessing.BoundlessStorage.description',
+  },
+  [BlessingType.SwiftConstruction]: {
+    cost: 25,
+    durationSeconds: 300,
+    icon: '⚡',
+    nameKey: 'blessing.SwiftConstruction.name',
+    descriptionKey: 'blessing.SwiftConstruction.description',
+  },
+};
+
+/**
+ * Effets des bénédictions actives, appliqués par GameModifiers.
+ */
+export interface BlessingEffects {
+  /** Type d'hexagone dont les récoltes sont doublées (null si aucun) */
+  doubledHarvestHexType: HexType | null;
+  /** Plafonds d'inventaire suspendus */
+  inventoryCapsSuspended: boolean;
+}
+
+/**
+ * Effets neutres (aucune bénédiction active).
+ */
+export const NO_BLESSING_EFFECTS: Readonly<BlessingEffects> = {
+  doubledHarvestHexType: null,
+  inventoryCapsSuspended: false,
+};
@@ -0,0 +1,103 @@
+import { ConstructionSite } from './ConstructionQueue';
+import { ResourceType } from '../map/ResourceType';
+
+/**
+ * Types d'actions du joueur enregistrées dans l'historique.
+ */
+export enum PlayerActionKind {
+  Road = 'Road',
+  Outpost = 'Outpost',
+  Building = 'Building',
+  BuildingUpgrade = 'BuildingUpgrade',
+  Trade = 'Trade',
+}
+
+/**
+ * Action du joueur pouvant être annulée puis rétablie.
+ */
+export interface PlayerAction {
+  kind: PlayerActionKind;
+  /** Temps de jeu de l'action (en secondes), point de départ du délai d'annulation */
+  time: number;
+  /** Chantier créé par l'action (constructions uniquement) */
+  site?: ConstructionSite;
+  /** Niveau visé par l'amélioration (BuildingUpgrade uniquement) */
+  targetLevel?: number;
+  /** Ressources offertes et demandées (Trade uniquement, pour rétablir l'échange) */
+  offered?: Map<ResourceType, number>;
+  requested?: Map<ResourceType, number>;
+  /** Variation effective des ressources du joueur (Trade uniquement, pour l'annuler) */
+  delta?: Map<ResourceType, number>;
+}
+
+/**
+ * Historique des actions du joueur : pile des actions faites et pile des actions annulées.
+ * L'historique n'est pas sauvegardé : il ne sert qu'à corriger une erreur de clic récente.
+ */
+export class ActionHistory {
+  /** Nombre maximal d'actions conservées. */
+  static readonly MAX_ENTRIES = 20;
+
+  private done: PlayerAction[] = [];
+  private undone: PlayerAction[] = [];
+
+  /**
+   * Enregistre une nouvelle action. Les actions annulées ne peuvent plus être rétablies.
+   */
+  record(action: PlayerAction): void {
+    this.push(action);
+    this.undone = [];
+  }
+
+  /** Dernière action faite (la prochaine à annuler). */
+  peekUndo(): PlayerAction | undefined {
+    return this.done[this.done.length - 1];
+  }
+
+  /** Dernière action annulée (la prochaine à rétablir). */
+  peekRedo(): PlayerAction | undefined {
+    return this.undone[this.undone.length - 1];
+  }
+
+  /**
+   * Déplace la dernière action faite vers la pile des actions annulées.
+   */
+  markUndone(): void {
+    const action = this.done.pop();
+    if (action) {
+      this.undone.push(action);
+    }
+  }
+
+  /**
+   * Retire la dernière action annulée, remplacée par l'action rétablie (nouveau chantier, nouvel horaire).
+   * @param redone - L'action telle que rejouée
+   */
+  markRedone(redone: PlayerAction): void {
+    this.undone.pop();
+    this.push(redone);
+  }
+
+  /** Actions faites, de la plus récente à la plus ancienne. */
+  getDone(): readonly PlayerAction[] {
+    return [...this.done].reverse();
+  }
+
+  /** Actions annulées, de la prochaine à rétablir à la plus ancienne. */
+  getUndone(): readonly PlayerAction[] {
+    return [...this.undone].reverse();
+  }
+
+  /** Vide l'historique. */
+  clear(): void {
+    this.done = [];
+    this.undone = [];
+  }
+
+  private push(action: PlayerAction): void {
+    this.done.push(action);
+    if (this.done.length > ActionHistory.MAX_ENTRIES) {
+      this.done.shift();
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { IslandMap } from '../map/IslandMap';
 import { CivilizationId } from '../map/CivilizationId';
 import { BuildingType } from '../city/BuildingType';
+import { GameModifiers } from './GameModifiers';
 
 /**
  * Calcule les points de civilisation pour une civilisation.
@@ -8,14 +9,19 @@ import { BuildingType } from '../city/BuildingType';
  * Points de civilisation :
  * - Chaque ville rapporte 1 point par niveau (Outpost = 0, Colony = 1, Town = 2, Metropolis = 3, Capital = 4)
  * - Chaque bibliothèque (Library) rapporte 1 point supplémentaire
+ * - Chaque temple (Temple) rapporte 1 point supplémentaire
+ * - Chaque relique exhumée par un chantier de fouilles (Excavation) rapporte 1 point
+ * - Les bonus CivilizationPoint de la carte Prestige s'ajoutent au total
  * 
  * @param map - La carte de jeu
  * @param civId - L'identifiant de la civilisation
+ * @param modifiers - Les modificateurs de jeu (optionnel)
  * @returns Le nombre total de points de civilisation
  */
 export function calculateCivilizationPoints(
   map: IslandMap,
-  civId: CivilizationId
+  civId: CivilizationId,
+  modifiers: GameModifiers = GameModifiers.NONE
 ): number {
   const cities = map.getCitiesByCivilization(civId);
   let points = 0;
@@ -33,9 +39,12 @@ export function calculateCivilizationPoints(
     if (city.hasBuilding(BuildingType.Temple)) {
       points += 1;
     }
+
+    // Points pour les reliques exhumées (perdues avec l'île au prestige)
+    points += city.getBuilding(BuildingType.Excavation)?.getRelicCount() ?? 0;
   }
 
-  return points;
+  return modifiers.applyToCivilizationPoints(points);
 }
 
 /**
@@ -56,3 +65,14 @@ export function hasLibrary(map: IslandMap, civId: CivilizationId): boolean {
   
   return false;
 }
+
+/**
+ * Vérifie si une civilisation a au moins un temple construit.
+ * 
+ * @param map - La carte de jeu
+ * @param civId - L'identifiant de la civilisation
+ * @returns true si la civilisation a au moins un temple
+ */
+export function hasTemple(map: IslandMap, civId: CivilizationId): boolean {
+  return map.getCitiesByCivilization(civId).some(city => city.hasBuilding(BuildingType.Temple));
+}
@@ -5,13 +5,18 @@ import { CivilizationId } from '../map/CivilizationId';
 import { calculateCivilizationPoints } from './CivilizationPoints';
 import { IslandMap } from '../map/IslandMap';
 import { PrestigeMap } from '../prestige/PrestigeMap';
+import { PrestigeModifiers } from '../prestige/PrestigeModifiers';
+import { GameModifiers } from './GameModifiers';
 import { Hex } from '../hex/Hex';
 import { HexCoord } from '../hex/HexCoord';
 import { HexGrid } from '../hex/HexGrid';
 import { SecondaryHexDirection } from '../hex/SecondaryHexDirection';
+import { Edge } from '../hex/Edge';
 import { PrestigeBonusType } from '../prestige/types';
 import { PrestigeCity } from '../prestige/PrestigeCity';
 import { CityLevel } from '../city/CityLevel';
+import { ResearchState } from '../research/ResearchState';
+import { computeResearchEffects } from '../research/ResearchTree';
 
 /**
  * État d'une civilisation : contient IslandState, horloge de jeu et points de civilisation.
@@ -21,6 +26,7 @@ import { CityLevel } from '../city/CityLevel';
  * - islandState: contient les ressources du joueur, la civilisation, la carte et les données civiles
  * - gameClock: l'horloge de jeu (temps écoulé) - aussi accessible via islandState
  * - civilizationPoints: points de civilisation basés sur les villes et les bâtiments
+ * - research: connaissance produite par les bibliothèques et recherches débloquées
  * 
  * Responsabilités:
  * - Créer une nouvelle partie
@@ -32,6 +38,7 @@ export class CivilizationState {
   private civilizationPoints: number = 0;
   private prestigePointsTotal: number = 0;
   private prestigeMap?: PrestigeMap;
+  private research: ResearchState = new ResearchState();
 
   constructor(
     private readonly islandState: IslandState,
@@ -68,7 +75,7 @@ export class CivilizationState {
         cities.set(northVertex.hashCode(), city);
       }
 
-      const roads = new Set<string>();
+      const roads = new Map<string, Edge>();
       const prestigeMap = new PrestigeMap(grid, bonuses, cities, roads);
       civState.setPrestigeMap(prestigeMap);
     } catch (e) {
@@ -135,6 +142,31 @@ export class CivilizationState {
     this.prestigeMap = map;
   }
 
+  /** Accès à l'état de la recherche (connaissance et nœuds débloqués). */
+  getResearch(): ResearchState {
+    return this.research;
+  }
+
+  /**
+   * Modificateurs dérivés des seuls bonus de la carte Prestige.
+   * La carte Prestige de départ (créée par createNew) ne donne aucun bonus tant que le joueur n'a pas fait de prestige.
+   */
+  getPrestigeModifiers(): PrestigeModifiers {
+    return PrestigeModifiers.fromPrestigeMap(this.hasPrestige() ? this.prestigeMap : undefined);
+  }
+
+  /**
+   * Modificateurs de la partie en cours : carte Prestige, recherches débloquées, bénédictions et événements actifs.
+   */
+  getGameModifiers(): GameModifiers {
+    return new GameModifiers(
+      this.getPrestigeModifiers(),
+      computeResearchEffects(this.research.getUnlocked()),
+      this.islandState.getFaith().getEffects(this.gameClock.getCurrentTime()),
+      this.islandState.getEvents().getEffects(this.gameClock.getCurrentTime())
+    );
+  }
+
   /** Vérifie si la civilisation a obtenu du prestige (a plus de 0 points de prestige). */
   hasPrestige(): boolean {
     return this.prestigePointsTotal > 0;
@@ -149,13 +181,13 @@ export class CivilizationState {
     const civId = this.islandState.getPlayerCivilizationId();
     
     if (islandMap && civId) {
-      this.civilizationPoints = calculateCivilizationPoints(islandMap, civId);
+      this.civilizationPoints = calculateCivilizationPoints(islandMap, civId, this.getGameModifiers());
     }
   }
 
   /**
    * Sérialise l'état en une chaîne JSON.
-   * Sérialise IslandState et les points de civilisation.
+   * Sérialise IslandState, les points de civilisation et la recherche.
    */
   serialize(): string {
     const obj = {
@@ -163,6 +195,7 @@ export class CivilizationState {
       civilizationPoints: this.civilizationPoints,
       prestigePointsTotal: this.prestigePointsTotal,
       prestigeMap: this.prestigeMap ? this.prestigeMap.serialize() : undefined,
+      research: this.research.serialize(),
     };
     return JSON.stringify(obj);
   }
@@ -192,6 +225,7 @@ export class CivilizationState {
         // ignore invalid prestige map data
       }
     }
+    civState.research = ResearchState.deserialize(obj.research);
     
     return civState;
   }
@@ -0,0 +1,206 @@
+import { Edge } from '../hex/Edge';
+import { Vertex } from '../hex/Vertex';
+import { BuildingType } from '../city/BuildingType';
+import { ResourceType } from '../map/ResourceType';
+
+/**
+ * Types de chantiers.
+ */
+export enum ConstructionKind {
+  /** Route sur une arête */
+  Road = 'Road',
+  /** Avant-poste sur un sommet */
+  Outpost = 'Outpost',
+  /** Nouveau bâtiment dans une ville */
+  Building = 'Building',
+  /** Amélioration d'un bâtiment existant */
+  BuildingUpgrade = 'BuildingUpgrade',
+}
+
+/**
+ * Format sérialisé d'un chantier.
+ */
+export interface ConstructionSiteSerialized {
+  kind: ConstructionKind;
+  edge?: [[number, number], [number, number]];
+  vertex?: [number, number][];
+  buildingType?: string;
+  startTime: number;
+  endTime: number;
+  cost: [string, number][];
+}
+
+/**
+ * Chantier en cours : une construction payée qui sera placée sur la carte
+ * lorsque le GameClock atteindra endTime.
+ */
+export class ConstructionSite {
+  /**
+   * @param kind - Le type de chantier
+   * @param startTime - Temps de jeu de début (en secondes)
+   * @param endTime - Temps de jeu de fin (en secondes)
+   * @param cost - Coût payé (remboursé si la construction ne peut pas être achevée)
+   * @param edge - L'arête (routes uniquement)
+   * @param vertex - Le sommet (avant-postes, bâtiments et améliorations)
+   * @param buildingType - Le type de bâtiment (bâtiments et améliorations)
+   */
+  constructor(
+    public readonly kind: ConstructionKind,
+    public readonly startTime: number,
+    public readonly endTime: number,
+    public readonly cost: Map<ResourceType, number>,
+    public readonly edge?: Edge,
+    public readonly vertex?: Vertex,
+    public readonly buildingType?: BuildingType
+  ) {}
+
+  /**
+   * Progression du chantier entre 0 et 1.
+   * @param currentTime - Temps de jeu actuel (en secondes)
+   */
+  getProgress(currentTime: number): number {
+    const duration = this.endTime - this.startTime;
+    if (duration <= 0) {
+      return 1;
+    }
+    return Math.min(1, Math.max(0, (currentTime - this.startTime) / duration));
+  }
+
+  /**
+   * Vérifie si le chantier est terminé.
+   * @param currentTime - Temps de jeu actuel (en secondes)
+   */
+  isComplete(currentTime: number): boolean {
+    return currentTime >= this.endTime;
+  }
+
+  serialize(): ConstructionSiteSerialized {
+    const result: ConstructionSiteSerialized = {
+      kind: this.kind,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      cost: [...this.cost.entries()],
+    };
+    if (this.edge) {
+      result.edge = this.edge.serialize();
+    }
+    if (this.vertex) {
+      result.vertex = this.vertex.serialize();
+    }
+    if (this.buildingType) {
+      result.buildingType = this.buildingType;
+    }
+    return result;
+  }
+
+  static deserialize(data: ConstructionSiteSerialized): ConstructionSite {
+    return new ConstructionSite(
+      data.kind,
+      data.startTime,
+      data.endTime,
+      new Map(data.cost as [ResourceType, number][]),
+      data.edge ? Edge.deserialize(data.edge) : undefined,
+      data.vertex ? Vertex.deserialize(data.vertex) : undefined,
+      data.buildingType as BuildingType | undefined
+    );
+  }
+}
+
+/**
+ * File des chantiers en cours d'une partie.
+ */
+export class ConstructionQueue {
+  private sites: ConstructionSite[] = [];
+
+  /** Ajoute un chantier à la file. */
+  add(site: ConstructionSite): void {
+    this.sites.push(site);
+  }
+
+  /** Retourne tous les chantiers en cours. */
+  getSites(): readonly ConstructionSite[] {
+    return this.sites;
+  }
+
+  /**
+   * Retire un chantier de la file (annulation par le joueur).
+   * @returns true si le chantier était dans la file
+   */
+  remove(site: ConstructionSite): boolean {
+    const index = this.sites.indexOf(site);
+    if (index === -1) {
+      return false;
+    }
+    this.sites.splice(index, 1);
+    return true;
+  }
+
+  /** Vérifie si la file est vide. */
+  isEmpty(): boolean {
+    return this.sites.length === 0;
+  }
+
+  /** Vérifie si un chantier du type donné est en cours. */
+  hasSiteOfKind(kind: ConstructionKind): boolean {
+    return this.sites.some(s => s.kind === kind);
+  }
+
+  /** Vérifie si une route est en construction sur l'arête. */
+  hasRoadSite(edge: Edge): boolean {
+    return this.sites.some(s => s.kind === ConstructionKind.Road && s.edge!.equals(edge));
+  }
+
+  /** Vérifie si un avant-poste est en construction sur le sommet. */
+  hasOutpostSite(vertex: Vertex): boolean {
+    return this.sites.some(s => s.kind === ConstructionKind.Outpost && s.vertex!.equals(vertex));
+  }
+
+  /** Nombre d'avant-postes en construction. */
+  countOutpostSites(): number {
+    return this.sites.filter(s => s.kind === ConstructionKind.Outpost).length;
+  }
+
+  /**
+   * Vérifie si un chantier de bâtiment (construction ou amélioration) est en cours dans la ville.
+   * @param vertex - Le sommet de la ville
+   * @param buildingType - Le type de bâtiment
+   * @param kind - Building ou BuildingUpgrade
+   */
+  hasBuildingSite(vertex: Vertex, buildingType: BuildingType, kind: ConstructionKind): boolean {
+    return this.sites.some(
+      s => s.kind === kind && s.buildingType === buildingType && s.vertex!.equals(vertex)
+    );
+  }
+
+  /** Nombre de nouveaux bâtiments en construction dans la ville. */
+  countBuildingSites(vertex: Vertex): number {
+    return this.sites.filter(s => s.kind === ConstructionKind.Building && s.vertex!.equals(vertex)).length;
+  }
+
+  /**
+   * Retire et retourne les chantiers terminés, dans l'ordre de fin.
+   * @param currentTime - Temps de jeu actuel (en secondes)
+   */
+  takeCompleted(currentTime: number): ConstructionSite[] {
+    const completed = this.sites.filter(s => s.isComplete(currentTime));
+    if (completed.length === 0) {
+      return completed;
+    }
+    this.sites = this.sites.filter(s => !s.isComplete(currentTime));
+    return completed.sort((a, b) => a.endTime - b.endTime);
+  }
+
+  serialize(): ConstructionSiteSerialized[] {
+    return this.sites.map(s => s.serialize());
+  }
+
+  static deserialize(data: ConstructionSiteSerialized[] | undefined): ConstructionQueue {
+    const queue = new ConstructionQueue();
+    if (Array.isArray(data)) {
+      for (const siteData of data) {
+        queue.add(ConstructionSite.deserialize(siteData));
+      }
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,151 @@
+import { ResourceType } from '../map/ResourceType';
+import { HexType } from '../map/HexType';
+import { Vertex } from '../hex/Vertex';
+import { PrestigeModifiers } from '../prestige/PrestigeModifiers';
+import { ResearchEffectType, ResearchEffects, NO_RESEARCH_EFFECTS } from '../research/types';
+import { BlessingEffects, NO_BLESSING_EFFECTS } from '../faith/types';
+import { IslandEventEffects, NO_ISLAND_EVENT_EFFECTS } from '../events/types';
+
+/**
+ * Modificateurs de la partie en cours : bonus de la carte Prestige, effets des recherches débloquées,
+ * des bénédictions actives et des événements actifs de l'île.
+ *
+ * Point central d'application des bonus :
+ * - Prestige : production accélérée, points de civilisation, coûts réduits (PrestigeModifiers)
+ * - Recherche : routes moins chères, emplacements de bâtiment, récoltes plus rapides, meilleurs taux d'échange
+ * - Bénédictions actives : récoltes doublées sur un type d'hexagone, plafonds d'inventaire suspendus
+ * - Événements actifs : récoltes abondantes sur un type d'hexagone, ports bloqués par une tempête
+ *
+ * Les modificateurs sont dérivés de l'état de la civilisation au moment du calcul
+ * (CivilizationState.getGameModifiers) et ne sont pas sérialisés.
+ */
+export class GameModifiers {
+  /** Modificateurs neutres (aucun bonus). */
+  static readonly NONE = new GameModifiers();
+
+  /** Réduction maximale du délai de récolte manuelle. */
+  private static readonly MAX_HARVEST_INTERVAL_REDUCTION = 0.75;
+
+  /** Taux d'échange minimal (ressources données pour 1 reçue). */
+  private static readonly MIN_TRADE_RATE = 2;
+
+  /** Multiplicateur des récoltes bénies. */
+  private static readonly BLESSED_HARVEST_MULTIPLIER = 2;
+
+  /** Multiplicateur des récoltes abondantes (événement). */
+  private static readonly ABUNDANT_HARVEST_MULTIPLIER = 2;
+
+  constructor(
+    /** Bonus de la carte Prestige */
+    public readonly prestige: PrestigeModifiers = PrestigeModifiers.NONE,
+    /** Effets cumulés des recherches débloquées */
+    public readonly research: Readonly<ResearchEffects> = NO_RESEARCH_EFFECTS,
+    /** Effets des bénédictions actives */
+    public readonly blessings: Readonly<BlessingEffects> = NO_BLESSING_EFFECTS,
+    /** Effets des événements actifs de l'île */
+    public readonly events: Readonly<IslandEventEffects> = NO_ISLAND_EVENT_EFFECTS
+  ) {}
+
+  /**
+   * Applique la réduction de coût de la carte Prestige.
+   * @param cost - Le coût de base
+   * @returns Un nouveau coût réduit
+   */
+  applyToCost(cost: Map<ResourceType, number>): Map<ResourceType, number> {
+    return this.prestige.applyToCost(cost);
+  }
+
+  /**
+   * Applique la réduction de coût des routes : réduction Prestige et recherches,
+   * cumulées sous le même plafond.
+   * @param cost - Le coût de base de la route
+   * @returns Un nouveau coût réduit
+   */
+  applyToRoadCost(cost: Map<ResourceType, number>): Map<ResourceType, number> {
+    return this.prestige.applyToCost(cost, Math.max(this.research[ResearchEffectType.RoadCostReduction], 0));
+  }
+
+  /**
+   * Applique le bonus de production de la carte Prestige à un intervalle de production.
+   * @param intervalSeconds - L'intervalle de base (en secondes)
+   * @returns L'intervalle accéléré (en secondes)
+   */
+  applyToProductionInterval(intervalSeconds: number): number {
+    return this.prestige.applyToProductionInterval(intervalSeconds);
+  }
+
+  /**
+   * Applique le bonus de points de civilisation de la carte Prestige.
+   * @param points - Les points de civilisation de base
+   * @returns Les points avec bonus
+   */
+  applyToCivilizationPoints(points: number): number {
+    return this.prestige.applyToCivilizationPoints(points);
+  }
+
+  /**
+   * Applique la réduction de recherche au délai entre deux récoltes manuelles.
+   * @param intervalSeconds - Le délai de base (en secondes)
+   * @returns Le délai réduit (en secondes)
+   */
+  applyToHarvestInterval(intervalSeconds: number): number {
+    const reduction = Math.min(
+      Math.max(this.research[ResearchEffectType.HarvestIntervalReduction], 0),
+      GameModifiers.MAX_HARVEST_INTERVAL_REDUCTION
+    );
+    return intervalSeconds * (1 - reduction);
+  }
+
+  /**
+   * Applique les recherches commerciales à un taux d'échange, sans descendre sous 2:1.
+   * @param rate - Le taux de base (ressources données pour 1 reçue)
+   * @returns Le taux amélioré
+   */
+  applyToTradeRate(rate: number): number {
+    const improved = rate - Math.max(Math.floor(this.research[ResearchEffectType.TradeRateReduction]), 0);
+    return Math.max(improved, Math.min(rate, GameModifiers.MIN_TRADE_RATE));
+  }
+
+  /**
+   * Nombre d'emplacements de bâtiment supplémentaires par ville débloqués par la recherche.
+   */
+  getExtraBuildingSlots(): number {
+    return Math.max(Math.floor(this.research[ResearchEffectType.ExtraBuildingSlot]), 0);
+  }
+
+  /**
+   * Multiplicateur des récoltes d'un type d'hexagone (bénédiction BountifulHarvest et
+   * événement AbundantHarvest, cumulables).
+   * @param hexType - Le type d'hexagone récolté
+   */
+  getHarvestMultiplier(hexType: HexType): number {
+    const blessed = this.blessings.doubledHarvestHexType === hexType ? GameModifiers.BLESSED_HARVEST_MULTIPLIER : 1;
+    const abundant = this.events.abundantHarvestHexType === hexType ? GameModifiers.ABUNDANT_HARVEST_MULTIPLIER : 1;
+    return blessed * abundant;
+  }
+
+  /**
+   * Vérifie si le port maritime d'une ville est bloqué (événement Storm).
+   * @param cityVertex - Le sommet de la ville
+   */
+  isSeaportBlocked(cityVertex: Vertex): boolean {
+    return this.events.blockedSeaports.includes(cityVertex.hashCode());
+  }
+
+  /**
+   * Vérifie si les plafonds d'inventaire sont suspendus (bénédiction BoundlessStorage).
+   */
+  areInventoryCapsSuspended(): boolean {
+    return this.blessings.inventoryCapsSuspended;
+  }
+
+  /**
+   * Applique la suspension des plafonds à une capacité d'inventaire.
+   * La capacité reste finie pour rester compatible avec PlayerResources.addResourceCapped.
+   * @param capacity - La capacité de base
+   * @returns La capacité effective
+   */
+  applyToInventoryCapacity(capacity: number): number {
+    return this.blessings.inventoryCapsSuspended ? Number.MAX_SAFE_INTEGER : capacity;
+  }
+}
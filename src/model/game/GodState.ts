@@ -1,28 +1,70 @@
 // Modèle GodState
-// Contient GodPoints et CivilizationState
+// Contient GodPoints, les pouvoirs divins et CivilizationState
 
 import { CivilizationState } from './CivilizationState';
+import { DivinePowers } from '../god/DivinePowers';
 
 export class GodState {
-  private readonly godPoints: number;
+  private godPoints: number;
   private readonly civilizationState: CivilizationState;
+  private readonly divinePowers: DivinePowers;
+  /** Nombre d'ascensions effectuées */
+  private ascensionCount: number;
 
-  constructor(godPoints: number, civilizationState: CivilizationState) {
+  constructor(
+    godPoints: number,
+    civilizationState: CivilizationState,
+    divinePowers: DivinePowers = new DivinePowers(),
+    ascensionCount: number = 0
+  ) {
     this.godPoints = godPoints;
     this.civilizationState = civilizationState;
+    this.divinePowers = divinePowers;
+    this.ascensionCount = ascensionCount;
   }
 
   getGodPoints(): number {
     return this.godPoints;
   }
 
+  /** Ajoute des points divins (gagnés lors d'une ascension). */
+  addGodPoints(points: number): void {
+    this.godPoints += points;
+  }
+
+  /** Définit les points divins. */
+  setGodPoints(points: number): void {
+    this.godPoints = points;
+  }
+
   getCivilizationState(): CivilizationState {
     return this.civilizationState;
   }
 
+  /** Pouvoirs divins acquis, conservés entre les civilisations. */
+  getDivinePowers(): DivinePowers {
+    return this.divinePowers;
+  }
+
+  getAscensionCount(): number {
+    return this.ascensionCount;
+  }
+
+  /** Enregistre une ascension supplémentaire. */
+  incrementAscensionCount(): void {
+    this.ascensionCount++;
+  }
+
+  /** Vérifie si la couche divine a été atteinte (au moins une ascension). */
+  hasAscended(): boolean {
+    return this.ascensionCount > 0;
+  }
+
   serialize(): any {
     return {
       godPoints: this.godPoints,
+      divinePowers: this.divinePowers.serialize(),
+      ascensionCount: this.ascensionCount,
       civilizationState: this.civilizationState.serialize()
     };
   }
@@ -30,6 +72,9 @@ export class GodState {
   static deserialize(data: any): GodState {
     const godPoints = typeof data.godPoints === 'number' ? data.godPoints : 0;
     const civilizationState = CivilizationState.deserialize(data.civilizationState);
-    return new GodState(godPoints, civilizationState);
+    // Les anciennes sauvegardes n'ont ni pouvoirs divins ni ascensions
+    const divinePowers = DivinePowers.deserialize(data.divinePowers);
+    const ascensionCount = typeof data.ascensionCount === 'number' ? data.ascensionCount : 0;
+    return new GodState(godPoints, civilizationState, divinePowers, ascensionCount);
   }
 }
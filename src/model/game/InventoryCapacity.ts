@@ -2,6 +2,7 @@ import { IslandMap } from '../map/IslandMap';
 import { CivilizationId } from '../map/CivilizationId';
 import { CityLevel } from '../city/CityLevel';
 import { BuildingType } from '../city/BuildingType';
+import { GameModifiers } from './GameModifiers';
 
 /**
  * Calcule la capacité d'inventaire maximale pour une civilisation.
@@ -16,20 +17,23 @@ import { BuildingType } from '../city/BuildingType';
  * - Capital (niveau 4) : 10 * (4+1)² = 250
  * 
  * Chaque entrepôt (Warehouse) ajoute +500 à cette capacité.
+ * La bénédiction BoundlessStorage suspend ce plafond (voir GameModifiers.applyToInventoryCapacity).
  * 
  * @param map - La carte de jeu
  * @param civId - L'identifiant de la civilisation
+ * @param modifiers - Les modificateurs de jeu (optionnel, pour les bénédictions actives)
  * @returns La capacité maximale d'inventaire par ressource
  */
 export function calculateInventoryCapacity(
   map: IslandMap,
-  civId: CivilizationId
+  civId: CivilizationId,
+  modifiers: GameModifiers = GameModifiers.NONE
 ): number {
   const cities = map.getCitiesByCivilization(civId);
   
   if (cities.length === 0) {
     // Si aucune ville, capacité de base pour un outpost (niveau 0)
-    return 10 * Math.pow(0 + 1, 2); // 10
+    return modifiers.applyToInventoryCapacity(10 * Math.pow(0 + 1, 2)); // 10
   }
   
   // Trouver le niveau de ville le plus élevé
@@ -52,5 +56,5 @@ export function calculateInventoryCapacity(
   const baseCapacity = 10 * Math.pow(maxCityLevel + 1, 2);
   const warehouseBonus = 500 * warehouseCount;
   
-  return baseCapacity + warehouseBonus;
+  return modifiers.applyToInventoryCapacity(baseCapacity + warehouseBonus);
 }
@@ -3,6 +3,14 @@ import { CivilizationId } from '../map/CivilizationId';
 import { Civilization, CivilizationSerialized } from '../map/Civilization';
 import { PlayerResources } from './PlayerResources';
 import { GameClock } from './GameClock';
+import { ConstructionQueue, ConstructionSiteSerialized } from './ConstructionQueue';
+import { RivalCivilization, RivalCivilizationSerialized, RivalDifficulty, RivalSettings } from './RivalCivilization';
+import { FaithState, FaithStateSerialized } from '../faith/FaithState';
+import { IslandEventState, IslandEventStateSerialized } from '../events/IslandEventState';
+import { MapSettings, DEFAULT_MAP_SETTINGS, deserializeMapSettings } from '../map/MapSettings';
+import { encodeSeedCode, isShareableSeed } from '../map/SeedCode';
+import { ActionHistory } from './ActionHistory';
+import { IslandStatistics, IslandStatisticsSerialized } from '../statistics/IslandStatistics';
 
 /**
  * État de la partie : ressources, civilisations, carte et horloge de jeu.
@@ -15,6 +23,20 @@ export class IslandState {
   private civilizationData: Map<string, Civilization> = new Map();
   /** Seed utilisé pour la génération de la carte (null si non initialisée). */
   private seed: number | null = null;
+  /** Préréglage et forme utilisés pour la génération de la carte. */
+  private mapSettings: MapSettings = { ...DEFAULT_MAP_SETTINGS };
+  /** Chantiers en cours (routes, avant-postes, bâtiments). */
+  private constructionQueue: ConstructionQueue = new ConstructionQueue();
+  /** Civilisations rivales contrôlées par l'ordinateur, indexées par hashCode. */
+  private rivals: Map<string, RivalCivilization> = new Map();
+  /** Foi produite par les temples et bénédictions actives. */
+  private faith: FaithState = new FaithState();
+  /** Événements aléatoires actifs et planification du prochain tirage. */
+  private events: IslandEventState = new IslandEventState();
+  /** Revenus par origine, historique et compteurs du tableau de statistiques. */
+  private statistics: IslandStatistics = new IslandStatistics();
+  /** Historique des actions du joueur pour annuler/rétablir (non sauvegardé). */
+  private actionHistory: ActionHistory = new ActionHistory();
 
   constructor(
     private readonly playerResources: PlayerResources,
@@ -81,6 +103,88 @@ export class IslandState {
     return this.civilizationData.get(key)!;
   }
 
+  /**
+   * File des chantiers en cours du joueur, ou d'une civilisation rivale.
+   * @param civId - La civilisation (le joueur par défaut)
+   */
+  getConstructionQueue(civId: CivilizationId = this.playerCivilizationId): ConstructionQueue {
+    return this.getRival(civId)?.getConstructionQueue() ?? this.constructionQueue;
+  }
+
+  /**
+   * Ressources du joueur, ou d'une civilisation rivale.
+   * @param civId - La civilisation
+   */
+  getResources(civId: CivilizationId): PlayerResources {
+    return this.getRival(civId)?.getResources() ?? this.playerResources;
+  }
+
+  /** Historique des actions du joueur (vidé à chaque nouvelle partie ou chargement). */
+  getActionHistory(): ActionHistory {
+    return this.actionHistory;
+  }
+
+  /** Civilisations rivales de la partie. */
+  getRivals(): RivalCivilization[] {
+    return [...this.rivals.values()];
+  }
+
+  /** Retourne le rival correspondant à une civilisation, ou undefined s'il s'agit du joueur. */
+  getRival(civId: CivilizationId): RivalCivilization | undefined {
+    return this.rivals.get(civId.hashCode());
+  }
+
+  /** Paramètres des rivaux de la partie (nombre et difficulté commune). */
+  getRivalSettings(): RivalSettings {
+    const rivals = this.getRivals();
+    return {
+      count: rivals.length,
+      difficulty: rivals[0]?.difficulty ?? RivalDifficulty.Normal,
+    };
+  }
+
+  /** Ajoute une civilisation rivale (lors d'une nouvelle partie). */
+  addRival(rival: RivalCivilization): void {
+    this.rivals.set(rival.id.hashCode(), rival);
+  }
+
+  /** Foi et bénédictions actives de l'île. */
+  getFaith(): FaithState {
+    return this.faith;
+  }
+
+  /** Événements aléatoires de l'île. */
+  getEvents(): IslandEventState {
+    return this.events;
+  }
+
+  /** Statistiques de l'île (revenus, historique et compteurs). */
+  getStatistics(): IslandStatistics {
+    return this.statistics;
+  }
+
+  /** Paramètres de génération de la carte (préréglage et forme). */
+  getMapSettings(): MapSettings {
+    return { ...this.mapSettings };
+  }
+
+  /**
+   * Code de partage de l'île (seed, paramètres de génération et rivaux), ou null si non initialisée
+   * ou si sa seed ne peut pas être partagée (ancienne sauvegarde).
+   * Saisi dans le dialogue de nouvelle carte, il régénère exactement la même île.
+   */
+  getShareCode(): string | null {
+    if (this.seed === null || !isShareableSeed(this.seed)) {
+      return null;
+    }
+    return encodeSeedCode(this.seed, this.mapSettings, this.getRivalSettings());
+  }
+
+  /** Définit les paramètres de génération (lors d'une nouvelle partie). */
+  setMapSettings(settings: MapSettings): void {
+    this.mapSettings = { ...settings };
+  }
+
   /** Définit le seed de génération (lors d'une nouvelle partie ou régénération). */
   setSeed(seed: number | null): void {
     this.seed = seed;
@@ -97,6 +201,12 @@ export class IslandState {
     civilizations: string[];
     civilizationsData: CivilizationSerialized[];
     seed: number | null;
+    mapSettings: MapSettings;
+    constructionQueue: ConstructionSiteSerialized[];
+    rivals: RivalCivilizationSerialized[];
+    faith: FaithStateSerialized;
+    events: IslandEventStateSerialized;
+    statistics: IslandStatisticsSerialized;
   } {
     const civilizationsData: CivilizationSerialized[] = [];
     for (const civId of this.civilizations) {
@@ -115,6 +225,12 @@ export class IslandState {
       civilizations: this.civilizations.map((c) => c.serialize()),
       civilizationsData: civilizationsData,
       seed: this.seed,
+      mapSettings: this.getMapSettings(),
+      constructionQueue: this.constructionQueue.serialize(),
+      rivals: this.getRivals().map((rival) => rival.serialize()),
+      faith: this.faith.serialize(),
+      events: this.events.serialize(),
+      statistics: this.statistics.serialize(),
     };
   }
 
@@ -129,6 +245,12 @@ export class IslandState {
     civilizations: string[];
     civilizationsData: CivilizationSerialized[];
     seed: number | null;
+    mapSettings?: MapSettings;
+    constructionQueue?: ConstructionSiteSerialized[];
+    rivals?: RivalCivilizationSerialized[];
+    faith?: FaithStateSerialized;
+    events?: IslandEventStateSerialized;
+    statistics?: IslandStatisticsSerialized;
   }): IslandState {
     const pr = PlayerResources.deserialize(obj.playerResources);
     const civId = CivilizationId.deserialize(obj.playerCivilizationId);
@@ -146,9 +268,15 @@ export class IslandState {
     }
     
     gs.setSeed(obj.seed);
+    gs.mapSettings = deserializeMapSettings(obj.mapSettings);
     if (obj.islandMap != null) {
       gs.setIslandMap(IslandMap.deserialize(obj.islandMap));
     }
+    gs.constructionQueue = ConstructionQueue.deserialize(obj.constructionQueue);
+    gs.deserializeRivals(obj.rivals);
+    gs.faith = FaithState.deserialize(obj.faith);
+    gs.events = IslandEventState.deserialize(obj.events, obj.seed ?? 0);
+    gs.statistics = IslandStatistics.deserialize(obj.statistics);
     return gs;
   }
 
@@ -175,6 +303,12 @@ export class IslandState {
       civilizations: this.civilizations.map((c) => c.serialize()),
       civilizationsData: civilizationsData,
       seed: this.seed,
+      mapSettings: this.getMapSettings(),
+      constructionQueue: this.constructionQueue.serialize(),
+      rivals: this.getRivals().map((rival) => rival.serialize()),
+      faith: this.faith.serialize(),
+      events: this.events.serialize(),
+      statistics: this.statistics.serialize(),
     };
     return JSON.stringify(obj);
   }
@@ -201,9 +335,26 @@ export class IslandState {
     }
     
     gs.setSeed(obj.seed);
+    gs.mapSettings = deserializeMapSettings(obj.mapSettings);
     if (obj.islandMap != null) {
       gs.setIslandMap(IslandMap.deserialize(obj.islandMap));
     }
+    // Les anciennes sauvegardes n'ont pas de chantiers
+    gs.constructionQueue = ConstructionQueue.deserialize(obj.constructionQueue);
+    gs.deserializeRivals(obj.rivals);
+    // Les anciennes sauvegardes n'ont pas de foi
+    gs.faith = FaithState.deserialize(obj.faith);
+    // Les anciennes sauvegardes n'ont pas d'événements : le générateur repart de la seed de la carte
+    gs.events = IslandEventState.deserialize(obj.events, obj.seed ?? 0);
+    // Les anciennes sauvegardes n'ont pas de statistiques : l'historique démarre au chargement
+    gs.statistics = IslandStatistics.deserialize(obj.statistics);
     return gs;
   }
+
+  /** Restaure les rivaux (absents des anciennes sauvegardes). */
+  private deserializeRivals(rivals: RivalCivilizationSerialized[] | undefined): void {
+    for (const rivalData of rivals ?? []) {
+      this.addRival(RivalCivilization.deserialize(rivalData));
+    }
+  }
 }
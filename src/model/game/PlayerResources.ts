@@ -4,7 +4,8 @@ import { localize } from '../../i18n';
 /**
  * Gère l'inventaire des ressources du joueur.
  * 
- * Les ressources récoltables sont : Wood, Brick, Wheat, Sheep, Ore.
+ * Les ressources gérées sont : Wood, Brick, Wheat, Sheep, Ore, ainsi que les outils (Tools)
+ * fabriqués par la Forge.
  * Les ressources non récoltables (Desert, Water) ne sont pas gérées ici.
  */
 export class PlayerResources {
@@ -21,6 +22,7 @@ export class PlayerResources {
     this.resources.set(ResourceType.Wheat, 0);
     this.resources.set(ResourceType.Sheep, 0);
     this.resources.set(ResourceType.Ore, 0);
+    this.resources.set(ResourceType.Tools, 0);
   }
 
   /**
@@ -45,6 +47,7 @@ export class PlayerResources {
   /**
    * Ajoute une quantité de ressource à l'inventaire, avec une limite max par ressource.
    * Retourne la quantité réellement ajoutée (peut être 0 si déjà au cap).
+   * Un stock déjà au-delà du cap (accumulé pendant une bénédiction BoundlessStorage) est conservé.
    *
    * @param resource - Le type de ressource
    * @param amount - La quantité à ajouter (doit être positive)
@@ -63,7 +66,7 @@ export class PlayerResources {
     }
 
     const current = this.resources.get(resource) || 0;
-    const next = Math.min(maxPerResource, current + amount);
+    const next = Math.max(current, Math.min(maxPerResource, current + amount));
     const added = next - current;
     this.resources.set(resource, next);
     return added;
@@ -188,12 +191,13 @@ export class PlayerResources {
     this.resources.set(ResourceType.Wheat, 0);
     this.resources.set(ResourceType.Sheep, 0);
     this.resources.set(ResourceType.Ore, 0);
+    this.resources.set(ResourceType.Tools, 0);
   }
 
   /**
-   * Vérifie si une ressource est récoltable.
+   * Vérifie si une ressource est gérée par l'inventaire.
    * @param resource - Le type de ressource
-   * @returns true si la ressource peut être récoltée (Wood, Brick, Wheat, Sheep, Ore)
+   * @returns true si la ressource peut être stockée (Wood, Brick, Wheat, Sheep, Ore, Tools)
    */
   private isHarvestable(resource: ResourceType): boolean {
     return (
@@ -201,7 +205,8 @@ export class PlayerResources {
       resource === ResourceType.Brick ||
       resource === ResourceType.Wheat ||
       resource === ResourceType.Sheep ||
-      resource === ResourceType.Ore
+      resource === ResourceType.Ore ||
+      resource === ResourceType.Tools
     );
   }
 
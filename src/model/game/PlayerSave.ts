@@ -1,18 +1,31 @@
 // Modèle PlayerSave
-// Contient un GodState unique (pas de slots)
+// Contient un GodState unique et les succès (les slots de sauvegarde sont gérés par SaveManager)
 
 import { GodState } from './GodState';
 import { CivilizationState } from './CivilizationState';
 import { IslandState } from './IslandState';
+import { Achievements } from '../achievements/Achievements';
+import { CURRENT_SAVE_SCHEMA_VERSION, migrateSave, validateSave } from './SaveSchema';
 import { localize } from '../../i18n';
 
 export class PlayerSave {
   private readonly godState: GodState;
   private readonly language: string;
+  /** Horodatage réel (ms depuis epoch) de la dernière sauvegarde, null si jamais sauvegardé. */
+  private lastSavedAt: number | null;
+  /** Succès débloqués, conservés entre les prestiges et les ascensions. */
+  private readonly achievements: Achievements;
 
-  constructor(godState: GodState, language = 'fr') {
+  constructor(
+    godState: GodState,
+    language = 'fr',
+    lastSavedAt: number | null = null,
+    achievements: Achievements = new Achievements()
+  ) {
     this.godState = godState;
     this.language = language;
+    this.lastSavedAt = lastSavedAt;
+    this.achievements = achievements;
   }
 
   getGodState(): GodState {
@@ -23,10 +36,30 @@ export class PlayerSave {
     return this.language;
   }
 
+  /**
+   * Retourne l'horodatage réel de la dernière sauvegarde (ms depuis epoch).
+   * Utilisé pour calculer la progression hors-ligne au chargement.
+   */
+  getLastSavedAt(): number | null {
+    return this.lastSavedAt;
+  }
+
+  /** Met à jour l'horodatage réel de la dernière sauvegarde. */
+  setLastSavedAt(timestamp: number): void {
+    this.lastSavedAt = timestamp;
+  }
+
+  getAchievements(): Achievements {
+    return this.achievements;
+  }
+
   serialize(): any {
     return {
+      schemaVersion: CURRENT_SAVE_SCHEMA_VERSION,
       godState: this.godState.serialize(),
       language: this.language,
+      lastSavedAt: this.lastSavedAt,
+      achievements: this.achievements.serialize(),
     };
   }
 
@@ -36,12 +69,19 @@ export class PlayerSave {
     }
 
     // Format nouveau: PlayerSave -> GodState -> CivilizationState -> IslandState
-    if ('godState' in data) {
-      const godState = GodState.deserialize((data as any).godState);
-      const language = typeof (data as any).language === 'string' ? (data as any).language : 'fr';
-      return new PlayerSave(godState, language);
+    if (!('godState' in data)) {
+      throw new Error(localize('error.save.unrecognizedFormat'));
     }
 
-    throw new Error(localize('error.save.unrecognizedFormat'));
+    // Mise au format courant puis validation stricte avant toute reconstruction
+    const migrated = migrateSave(data);
+    validateSave(migrated);
+
+    const godState = GodState.deserialize(migrated.godState);
+    const language = typeof migrated.language === 'string' ? migrated.language : 'fr';
+    // Les anciennes sauvegardes n'ont pas d'horodatage : pas de progression hors-ligne
+    const lastSavedAt = typeof migrated.lastSavedAt === 'number' ? migrated.lastSavedAt : null;
+    const achievements = Achievements.deserialize(migrated.achievements);
+    return new PlayerSave(godState, language, lastSavedAt, achievements);
   }
 }
@@ -6,6 +6,8 @@ import { IslandMap } from '../map/IslandMap';
 import { CivilizationId } from '../map/CivilizationId';
 import { PlayerResources } from './PlayerResources';
 import { calculateInventoryCapacity } from './InventoryCapacity';
+import { GameModifiers } from './GameModifiers';
+import { STANDARD_HEX_YIELD } from '../map/HexYield';
 import { localize } from '../../i18n';
 
 /**
@@ -40,15 +42,14 @@ export class ResourceHarvest {
   }
 
   /**
-   * Calcule le gain de ressource pour un hexagone donné.
-   * Le gain de base est de 1 par hexagone, mais peut être modifié par des bonus futurs.
+   * Calcule le gain de ressource pour un hexagone donné, avant multiplicateurs.
+   * Le gain est le rendement de l'hexagone (voir HexYield).
    * @param hexType - Le type d'hexagone
+   * @param hexYield - Le rendement de l'hexagone (par défaut : rendement standard)
    * @returns La quantité de ressource gagnée (0 si non récoltable)
    */
-  static calculateGain(hexType: HexType): number {
-    // Pour l'instant, gain de base de 1 par hexagone
-    // Peut être étendu avec des bonus de bâtiments plus tard
-    return this.hexTypeToResourceType(hexType) !== null ? 1 : 0;
+  static calculateGain(hexType: HexType, hexYield: number = STANDARD_HEX_YIELD): number {
+    return this.hexTypeToResourceType(hexType) !== null ? hexYield : 0;
   }
 
   /**
@@ -143,6 +144,10 @@ export class ResourceHarvest {
    * @param civId - L'identifiant de la civilisation du joueur
    * @param playerResources - L'inventaire du joueur
    * @param cityVertex - Optionnel: le vertex de la ville qui récolte. Si fourni, cette ville sera utilisée au lieu de chercher automatiquement.
+   * @param resourceMultiplier - Optionnel: multiplicateur de gain (amélioration de civilisation)
+   * @param modifiers - Optionnel: modificateurs de jeu (bénédictions de récolte et de capacité)
+   * @param currentTime - Optionnel: temps de jeu de la récolte (en secondes). Sans lui, la réserve de richesse
+   *                      de l'hexagone ne peut être décomptée et la récolte se fait au rendement standard.
    * @returns Un objet contenant la quantité récoltée, la ville qui a permis la récolte, la ressource récoltée et si la capacité max a été atteinte
    * @throws Error si l'hexagone ne peut pas être récolté
    */
@@ -152,7 +157,9 @@ export class ResourceHarvest {
     civId: CivilizationId,
     playerResources: PlayerResources,
     cityVertex?: Vertex,
-    resourceMultiplier?: number
+    resourceMultiplier?: number,
+    modifiers: GameModifiers = GameModifiers.NONE,
+    currentTime?: number
   ): { gain: number; cityVertex: Vertex; resourceType: ResourceType | null; capacityReached: boolean } {
     // Si un vertex est fourni, vérifier qu'il est valide et adjacent à l'hex
     let actualCityVertex: Vertex | null = null;
@@ -213,18 +220,31 @@ export class ResourceHarvest {
       throw new Error(localize('resourceHarvest.notResource', { coord: hexCoord.toString() }));
     }
 
-    // Calculer le gain de base
-    const baseGain = this.calculateGain(hexType);
-    const multiplier = resourceMultiplier ?? 1;
+    // Calculer le gain de base : le rendement au-delà du standard est puisé dans la réserve de richesse
+    const hexYield = currentTime !== undefined
+      ? islandMap.getEffectiveHexYield(hexCoord, currentTime)
+      : STANDARD_HEX_YIELD;
+    const baseGain = this.calculateGain(hexType, hexYield);
+    const multiplier = (resourceMultiplier ?? 1) * modifiers.getHarvestMultiplier(hexType);
     const gain = Math.floor(baseGain * multiplier);
 
     if (gain > 0) {
       // Calculer la capacité d'inventaire maximale
-      const maxCapacity = calculateInventoryCapacity(islandMap, civId);
+      const maxCapacity = calculateInventoryCapacity(islandMap, civId, modifiers);
       
       // Ajouter la ressource à l'inventaire avec limitation de capacité
       const actualGain = playerResources.addResourceCapped(resourceType, gain, maxCapacity);
       const capacityReached = actualGain < gain;
+
+      // La réserve ne fournit que la part du rendement réellement stockée (le standard est stocké en premier)
+      if (currentTime !== undefined) {
+        const bonus = hexYield - STANDARD_HEX_YIELD;
+        const standardGain = Math.floor(this.calculateGain(hexType) * multiplier);
+        const storedBonus = capacityReached
+          ? Math.min(bonus, Math.max(0, actualGain - standardGain) / multiplier)
+          : bonus;
+        islandMap.consumeHexReserve(hexCoord, storedBonus, currentTime);
+      }
       
       return {
         gain: actualGain,
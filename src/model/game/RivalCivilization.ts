@@ -0,0 +1,114 @@
+import { CivilizationId } from '../map/CivilizationId';
+import { PlayerResources } from './PlayerResources';
+import { ConstructionQueue, ConstructionSiteSerialized } from './ConstructionQueue';
+
+/**
+ * Niveau de difficulté d'une civilisation rivale contrôlée par l'ordinateur.
+ */
+export enum RivalDifficulty {
+  Easy = 'Easy',
+  Normal = 'Normal',
+  Hard = 'Hard',
+}
+
+/**
+ * Paramètres des rivaux d'une nouvelle partie.
+ */
+export interface RivalSettings {
+  /** Nombre de civilisations rivales (0 pour aucune) */
+  count: number;
+  /** Difficulté commune à tous les rivaux */
+  difficulty: RivalDifficulty;
+}
+
+/**
+ * Format sérialisé d'une civilisation rivale.
+ */
+export interface RivalCivilizationSerialized {
+  id: string;
+  difficulty: RivalDifficulty;
+  resources: Record<string, number>;
+  rngState: number;
+  nextActionTime: number;
+  constructionQueue?: ConstructionSiteSerialized[];
+}
+
+/**
+ * Civilisation rivale contrôlée par l'ordinateur.
+ *
+ * Possède ses propres ressources, ses chantiers en cours et l'état de son générateur aléatoire,
+ * afin que ses décisions restent déterministes d'une session à l'autre.
+ */
+export class RivalCivilization {
+  /**
+   * @param id - L'identifiant de la civilisation rivale
+   * @param difficulty - Le niveau de difficulté
+   * @param rngState - L'état du générateur aléatoire (seed initiale pour un nouveau rival)
+   * @param resources - Les ressources du rival
+   * @param nextActionTime - Temps de jeu (en secondes) de la prochaine action
+   * @param constructionQueue - Les chantiers en cours du rival
+   */
+  constructor(
+    public readonly id: CivilizationId,
+    public readonly difficulty: RivalDifficulty,
+    private rngState: number,
+    private readonly resources: PlayerResources = new PlayerResources(),
+    private nextActionTime: number = 0,
+    private readonly constructionQueue: ConstructionQueue = new ConstructionQueue()
+  ) {}
+
+  /** Ressources du rival. */
+  getResources(): PlayerResources {
+    return this.resources;
+  }
+
+  /** Chantiers en cours du rival. */
+  getConstructionQueue(): ConstructionQueue {
+    return this.constructionQueue;
+  }
+
+  /** État courant du générateur aléatoire du rival. */
+  getRngState(): number {
+    return this.rngState;
+  }
+
+  /** Met à jour l'état du générateur aléatoire après une action. */
+  setRngState(state: number): void {
+    this.rngState = state;
+  }
+
+  /** Temps de jeu (en secondes) à partir duquel le rival peut agir. */
+  getNextActionTime(): number {
+    return this.nextActionTime;
+  }
+
+  /** Programme la prochaine action du rival. */
+  setNextActionTime(time: number): void {
+    this.nextActionTime = time;
+  }
+
+  serialize(): RivalCivilizationSerialized {
+    return {
+      id: this.id.serialize(),
+      difficulty: this.difficulty,
+      resources: this.resources.serialize(),
+      rngState: this.rngState,
+      nextActionTime: this.nextActionTime,
+      constructionQueue: this.constructionQueue.serialize(),
+    };
+  }
+
+  static deserialize(data: RivalCivilizationSerialized): RivalCivilization {
+    const difficulty = Object.values(RivalDifficulty).includes(data.difficulty)
+      ? data.difficulty
+      : RivalDifficulty.Normal;
+    return new RivalCivilization(
+      CivilizationId.deserialize(data.id),
+      difficulty,
+      data.rngState,
+      PlayerResources.deserialize(data.resources),
+      data.nextActionTime ?? 0,
+      ConstructionQueue.deserialize(data.constructionQueue)
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { IslandMap } from '../map/IslandMap';
 import { CivilizationId } from '../map/CivilizationId';
 import { ResourceType } from '../map/ResourceType';
 import { PlayerResources } from './PlayerResources';
+import { GameModifiers } from './GameModifiers';
 
 /**
  * Gère la logique de construction de routes.
@@ -66,20 +67,23 @@ export class RoadConstruction {
    * Vérifie si le joueur a assez de ressources pour construire une route.
    * @param resources - Les ressources du joueur
    * @param distance - La distance à la ville (optionnel, pour vérifier le coût réel)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns true si le joueur a assez de ressources
    */
-  static canAfford(resources: PlayerResources, distance?: number): boolean {
-    const cost = RoadConstruction.getCost(distance);
+  static canAfford(resources: PlayerResources, distance?: number, modifiers: GameModifiers = GameModifiers.NONE): boolean {
+    const cost = RoadConstruction.getCost(distance, modifiers);
     return resources.canAfford(cost);
   }
 
   /**
    * Retourne le coût de construction d'une route.
-   * Le coût de base est multiplié par 2^distance.
+   * Le coût de base est multiplié par 2^distance, puis réduit par les modificateurs de jeu
+   * (réduction générale et recherches sur les routes).
    * @param distance - La distance à la ville la plus proche (optionnel, défaut = 0 pour coût de base)
+   * @param modifiers - Les modificateurs de jeu (optionnel)
    * @returns Le coût sous forme de Map
    */
-  static getCost(distance?: number): Map<ResourceType, number> {
+  static getCost(distance?: number, modifiers: GameModifiers = GameModifiers.NONE): Map<ResourceType, number> {
     const multiplier = distance !== undefined ? Math.pow(2, distance) : 1;
     const cost = new Map<ResourceType, number>();
     
@@ -87,7 +91,7 @@ export class RoadConstruction {
       cost.set(resourceType, baseAmount * multiplier);
     }
     
-    return cost;
+    return modifiers.applyToRoadCost(cost);
   }
 
   /**
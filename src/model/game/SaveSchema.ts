@@ -0,0 +1,385 @@
+import { localize } from '../../i18n';
+
+/**
+ * Version courante du schéma de sauvegarde (champ `schemaVersion` du PlayerSave).
+ * Toute modification du format sérialisé doit incrémenter cette version et ajouter
+ * la migration correspondante dans SAVE_MIGRATIONS.
+ */
+export const CURRENT_SAVE_SCHEMA_VERSION = 13;
+
+/**
+ * Migration d'une sauvegarde de la version N vers la version N+1.
+ * Reçoit et retourne l'objet JSON brut du PlayerSave.
+ */
+export type SaveMigration = (data: any) => any;
+
+/**
+ * Registre des migrations, indexé par la version de départ.
+ */
+export const SAVE_MIGRATIONS: Readonly<Record<number, SaveMigration>> = {
+  // v1 : sauvegardes antérieures au versionnement du schéma (pas de `schemaVersion`)
+  1: (data) => ({
+    ...data,
+    language: typeof data.language === 'string' ? data.language : 'fr',
+    lastSavedAt: typeof data.lastSavedAt === 'number' ? data.lastSavedAt : null,
+    schemaVersion: 2,
+  }),
+  // v2 : pas de civilisations rivales (champ `rivals` de l'IslandState absent, équivalent à aucun rival)
+  2: (data) => ({
+    ...data,
+    schemaVersion: 3,
+  }),
+  // v3 : pas de recherche (champ `research` du CivilizationState absent, équivalent à aucune connaissance)
+  3: (data) => ({
+    ...data,
+    schemaVersion: 4,
+  }),
+  // v4 : pas de foi (champ `faith` de l'IslandState absent, équivalent à aucune foi ni bénédiction)
+  4: (data) => ({
+    ...data,
+    schemaVersion: 5,
+  }),
+  // v5 : pas d'événements aléatoires (champ `events` de l'IslandState absent, générateur dérivé de la seed)
+  5: (data) => ({
+    ...data,
+    schemaVersion: 6,
+  }),
+  // v6 : pas de paramètres de carte (champ `mapSettings` de l'IslandState absent, carte moyenne de forme libre)
+  6: (data) => ({
+    ...data,
+    schemaVersion: 7,
+  }),
+  // v7 : pas de statistiques (champ `statistics` de l'IslandState absent, historique vide)
+  7: (data) => ({
+    ...data,
+    schemaVersion: 8,
+  }),
+  // v8 : pas de succès (champ `achievements` du PlayerSave absent, aucun succès débloqué)
+  8: (data) => ({
+    ...data,
+    schemaVersion: 9,
+  }),
+  // v9 : délais de récolte non sauvegardés (champ `harvestTimes` de l'IslandMap absent, tous les hexagones prêts)
+  9: (data) => ({
+    ...data,
+    schemaVersion: 10,
+  }),
+  // v10 : rendements par hexagone non sauvegardés (champs `hexYields` et `hexReserves` de l'IslandMap absents,
+  // tous les hexagones au rendement standard)
+  10: (data) => ({
+    ...data,
+    schemaVersion: 11,
+  }),
+  // v11 : pas de chantier de fouilles (champ `relics` des bâtiments absent, aucune relique)
+  11: (data) => ({
+    ...data,
+    schemaVersion: 12,
+  }),
+  // v12 : générateur aléatoire des marchés non sauvegardé (champ `rngState` des bâtiments absent, seedé par la ville)
+  12: (data) => ({
+    ...data,
+    schemaVersion: 13,
+  }),
+};
+
+/**
+ * Retourne la version de schéma d'une sauvegarde brute (1 si absente).
+ */
+export function getSaveSchemaVersion(data: any): number {
+  return typeof data?.schemaVersion === 'number' ? data.schemaVersion : 1;
+}
+
+/**
+ * Applique la chaîne de migrations jusqu'à la version courante.
+ * @param data - L'objet JSON brut du PlayerSave
+ * @returns La sauvegarde au format de CURRENT_SAVE_SCHEMA_VERSION
+ * @throws Error si la sauvegarde provient d'une version plus récente ou si une migration manque
+ */
+export function migrateSave(data: any): any {
+  let version = getSaveSchemaVersion(data);
+  if (version > CURRENT_SAVE_SCHEMA_VERSION) {
+    throw new Error(localize('error.save.newerSchema', {
+      version,
+      max: CURRENT_SAVE_SCHEMA_VERSION,
+    }));
+  }
+
+  let migrated = data;
+  while (version < CURRENT_SAVE_SCHEMA_VERSION) {
+    const migration = SAVE_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(localize('error.save.missingMigration', { version }));
+    }
+    migrated = migration(migrated);
+    version++;
+  }
+  return migrated;
+}
+
+/**
+ * Valide strictement la structure d'une sauvegarde au format courant.
+ * Les champs ajoutés au fil des versions restent optionnels, mais lorsqu'ils sont présents
+ * leur type est vérifié. Les états imbriqués sérialisés en chaîne JSON
+ * (civilizationState, islandState) sont analysés puis validés.
+ * @param data - L'objet JSON brut du PlayerSave (après migration)
+ * @throws Error indiquant le chemin du champ invalide,
+ *   ex: godState.civilizationState.islandState.islandMap.cities[3].buildings
+ */
+export function validateSave(data: any): void {
+  const root = expectObject(data, 'save');
+  expectNumber(root.schemaVersion, 'schemaVersion');
+  optional(root.language, 'language', expectString);
+  optional(root.lastSavedAt, 'lastSavedAt', expectNumber);
+  optional(root.achievements, 'achievements', (achievements, path) => {
+    expectArray(expectObject(achievements, path).unlocked, `${path}.unlocked`).forEach((id, i) => {
+      expectString(id, `${path}.unlocked[${i}]`);
+    });
+  });
+
+  const godState = expectObject(root.godState, 'godState');
+  optional(godState.godPoints, 'godState.godPoints', expectNumber);
+  optional(godState.ascensionCount, 'godState.ascensionCount', expectNumber);
+  optional(godState.divinePowers, 'godState.divinePowers', (powers, path) => {
+    expectArray(expectObject(powers, path).levels, `${path}.levels`).forEach((entry, i) => {
+      const entryPath = `${path}.levels[${i}]`;
+      const pair = expectArray(entry, entryPath);
+      expectString(pair[0], `${entryPath}[0]`);
+      expectNumber(pair[1], `${entryPath}[1]`);
+    });
+  });
+
+  validateCivilizationState(godState.civilizationState, 'godState.civilizationState');
+}
+
+function validateCivilizationState(value: unknown, path: string): void {
+  const civState = expectNested(value, path);
+  optional(civState.civilizationPoints, `${path}.civilizationPoints`, expectNumber);
+  optional(civState.prestigePointsTotal, `${path}.prestigePointsTotal`, expectNumber);
+  optional(civState.prestigeMap, `${path}.prestigeMap`, expectObject);
+  optional(civState.research, `${path}.research`, (research, researchPath) => {
+    const researchObj = expectObject(research, researchPath);
+    expectNumber(researchObj.knowledge, `${researchPath}.knowledge`);
+    expectArray(researchObj.unlocked, `${researchPath}.unlocked`).forEach((nodeId, i) => {
+      expectString(nodeId, `${researchPath}.unlocked[${i}]`);
+    });
+  });
+  validateIslandState(civState.islandState, `${path}.islandState`);
+}
+
+function validateIslandState(value: unknown, path: string): void {
+  const islandState = expectNested(value, path);
+
+  const resources = expectObject(islandState.playerResources, `${path}.playerResources`);
+  for (const [resourceType, amount] of Object.entries(resources)) {
+    expectNumber(amount, `${path}.playerResources.${resourceType}`);
+  }
+  expectString(islandState.playerCivilizationId, `${path}.playerCivilizationId`);
+  optional(islandState.gameClock, `${path}.gameClock`, (clock, clockPath) => {
+    expectNumber(expectObject(clock, clockPath).currentTime, `${clockPath}.currentTime`);
+  });
+  expectArray(islandState.civilizations, `${path}.civilizations`).forEach((civ, i) => {
+    expectString(civ, `${path}.civilizations[${i}]`);
+  });
+  optional(islandState.civilizationsData, `${path}.civilizationsData`, (list, listPath) => {
+    expectArray(list, listPath).forEach((civ, i) => {
+      expectString(expectObject(civ, `${listPath}[${i}]`).id, `${listPath}[${i}].id`);
+    });
+  });
+  optional(islandState.seed, `${path}.seed`, expectNumber);
+  optional(islandState.mapSettings, `${path}.mapSettings`, (settings, settingsPath) => {
+    const settingsObj = expectObject(settings, settingsPath);
+    expectString(settingsObj.preset, `${settingsPath}.preset`);
+    expectString(settingsObj.shape, `${settingsPath}.shape`);
+  });
+  optional(islandState.constructionQueue, `${path}.constructionQueue`, (queue, queuePath) => {
+    expectArray(queue, queuePath).forEach((site, i) => {
+      const sitePath = `${queuePath}[${i}]`;
+      const siteObj = expectObject(site, sitePath);
+      expectString(siteObj.kind, `${sitePath}.kind`);
+      expectNumber(siteObj.startTime, `${sitePath}.startTime`);
+      expectNumber(siteObj.endTime, `${sitePath}.endTime`);
+      expectArray(siteObj.cost, `${sitePath}.cost`);
+    });
+  });
+  optional(islandState.rivals, `${path}.rivals`, (rivals, rivalsPath) => {
+    expectArray(rivals, rivalsPath).forEach((rival, i) => {
+      const rivalPath = `${rivalsPath}[${i}]`;
+      const rivalObj = expectObject(rival, rivalPath);
+      expectString(rivalObj.id, `${rivalPath}.id`);
+      expectString(rivalObj.difficulty, `${rivalPath}.difficulty`);
+      expectObject(rivalObj.resources, `${rivalPath}.resources`);
+      expectNumber(rivalObj.rngState, `${rivalPath}.rngState`);
+      expectNumber(rivalObj.nextActionTime, `${rivalPath}.nextActionTime`);
+    });
+  });
+  optional(islandState.faith, `${path}.faith`, (faith, faithPath) => {
+    const faithObj = expectObject(faith, faithPath);
+    expectNumber(faithObj.faith, `${faithPath}.faith`);
+    expectArray(faithObj.blessings, `${faithPath}.blessings`).forEach((blessing, i) => {
+      const blessingPath = `${faithPath}.blessings[${i}]`;
+      const blessingObj = expectObject(blessing, blessingPath);
+      expectString(blessingObj.type, `${blessingPath}.type`);
+      expectNumber(blessingObj.endTime, `${blessingPath}.endTime`);
+      optional(blessingObj.hexType, `${blessingPath}.hexType`, expectString);
+    });
+  });
+  optional(islandState.events, `${path}.events`, (events, eventsPath) => {
+    const eventsObj = expectObject(events, eventsPath);
+    expectNumber(eventsObj.rngState, `${eventsPath}.rngState`);
+    optional(eventsObj.nextEventTime, `${eventsPath}.nextEventTime`, expectNumber);
+    expectArray(eventsObj.events, `${eventsPath}.events`).forEach((event, i) => {
+      const eventPath = `${eventsPath}.events[${i}]`;
+      const eventObj = expectObject(event, eventPath);
+      expectString(eventObj.type, `${eventPath}.type`);
+      expectNumber(eventObj.endTime, `${eventPath}.endTime`);
+      optional(eventObj.hexType, `${eventPath}.hexType`, expectString);
+      optional(eventObj.seaport, `${eventPath}.seaport`, expectString);
+      optional(eventObj.offer, `${eventPath}.offer`, (offer, offerPath) => {
+        const offerObj = expectObject(offer, offerPath);
+        expectString(offerObj.give, `${offerPath}.give`);
+        expectNumber(offerObj.giveAmount, `${offerPath}.giveAmount`);
+        expectString(offerObj.receive, `${offerPath}.receive`);
+        expectNumber(offerObj.receiveAmount, `${offerPath}.receiveAmount`);
+      });
+    });
+  });
+  optional(islandState.statistics, `${path}.statistics`, (statistics, statisticsPath) => {
+    const statisticsObj = expectObject(statistics, statisticsPath);
+    optional(statisticsObj.sampleStart, `${statisticsPath}.sampleStart`, expectNumber);
+    expectObject(statisticsObj.current, `${statisticsPath}.current`);
+    expectArray(statisticsObj.samples, `${statisticsPath}.samples`).forEach((sample, i) => {
+      const samplePath = `${statisticsPath}.samples[${i}]`;
+      const sampleObj = expectObject(sample, samplePath);
+      expectNumber(sampleObj.startTime, `${samplePath}.startTime`);
+      expectNumber(sampleObj.endTime, `${samplePath}.endTime`);
+      expectObject(sampleObj.income, `${samplePath}.income`);
+      expectObject(sampleObj.stock, `${samplePath}.stock`);
+    });
+    expectObject(statisticsObj.counters, `${statisticsPath}.counters`);
+    expectObject(statisticsObj.cityLevelTimes, `${statisticsPath}.cityLevelTimes`);
+  });
+  optional(islandState.islandMap, `${path}.islandMap`, validateIslandMap);
+}
+
+function validateIslandMap(value: unknown, path: string): void {
+  const map = expectObject(value, path);
+
+  const grid = expectObject(map.grid, `${path}.grid`);
+  expectArray(grid.hexes, `${path}.grid.hexes`).forEach((hex, i) => {
+    expectCoord(hex, `${path}.grid.hexes[${i}]`);
+  });
+  const hexTypes = expectObject(map.hexTypes, `${path}.hexTypes`);
+  for (const [key, type] of Object.entries(hexTypes)) {
+    expectString(type, `${path}.hexTypes.${key}`);
+  }
+  optional(map.harvestTimes, `${path}.harvestTimes`, (times, timesPath) => {
+    for (const [key, time] of Object.entries(expectObject(times, timesPath))) {
+      expectNumber(time, `${timesPath}.${key}`);
+    }
+  });
+  optional(map.hexYields, `${path}.hexYields`, (yields, yieldsPath) => {
+    for (const [key, hexYield] of Object.entries(expectObject(yields, yieldsPath))) {
+      expectNumber(hexYield, `${yieldsPath}.${key}`);
+    }
+  });
+  optional(map.hexReserves, `${path}.hexReserves`, (reserves, reservesPath) => {
+    for (const [key, reserve] of Object.entries(expectObject(reserves, reservesPath))) {
+      const reserveObj = expectObject(reserve, `${reservesPath}.${key}`);
+      expectNumber(reserveObj.amount, `${reservesPath}.${key}.amount`);
+      expectNumber(reserveObj.timeSeconds, `${reservesPath}.${key}.timeSeconds`);
+    }
+  });
+  expectArray(map.civilizations, `${path}.civilizations`).forEach((civ, i) => {
+    expectString(civ, `${path}.civilizations[${i}]`);
+  });
+
+  expectArray(map.cities, `${path}.cities`).forEach((city, i) => {
+    const cityPath = `${path}.cities[${i}]`;
+    const cityObj = expectObject(city, cityPath);
+    expectArray(cityObj.vertex, `${cityPath}.vertex`).forEach((coord, j) => {
+      expectCoord(coord, `${cityPath}.vertex[${j}]`);
+    });
+    expectString(cityObj.owner, `${cityPath}.owner`);
+    expectArray(cityObj.buildings, `${cityPath}.buildings`).forEach((building, j) => {
+      const buildingPath = `${cityPath}.buildings[${j}]`;
+      const buildingObj = expectObject(building, buildingPath);
+      expectString(buildingObj.type, `${buildingPath}.type`);
+      expectNumber(buildingObj.level, `${buildingPath}.level`);
+      optional(buildingObj.productionTimeSeconds, `${buildingPath}.productionTimeSeconds`, expectNumber);
+      optional(buildingObj.relics, `${buildingPath}.relics`, expectNumber);
+      optional(buildingObj.rngState, `${buildingPath}.rngState`, expectNumber);
+    });
+  });
+
+  expectArray(map.roads, `${path}.roads`).forEach((road, i) => {
+    const roadPath = `${path}.roads[${i}]`;
+    const roadObj = expectObject(road, roadPath);
+    expectArray(roadObj.edge, `${roadPath}.edge`).forEach((coord, j) => {
+      expectCoord(coord, `${roadPath}.edge[${j}]`);
+    });
+    expectString(roadObj.owner, `${roadPath}.owner`);
+  });
+}
+
+// ——— Vérifications élémentaires ———
+
+function invalid(path: string, expected: string): Error {
+  return new Error(localize('error.save.invalidField', { path, expected }));
+}
+
+function optional(value: unknown, path: string, validate: (value: any, path: string) => unknown): void {
+  if (value !== undefined && value !== null) {
+    validate(value, path);
+  }
+}
+
+function expectObject(value: unknown, path: string): Record<string, any> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw invalid(path, 'object');
+  }
+  return value as Record<string, any>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw invalid(path, 'array');
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw invalid(path, 'number');
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw invalid(path, 'string');
+  }
+  return value;
+}
+
+/** Coordonnées hexagonales sérialisées : [q, r]. */
+function expectCoord(value: unknown, path: string): void {
+  const coord = expectArray(value, path);
+  if (coord.length !== 2) {
+    throw invalid(path, '[q, r]');
+  }
+  expectNumber(coord[0], `${path}[0]`);
+  expectNumber(coord[1], `${path}[1]`);
+}
+
+/**
+ * État imbriqué, sérialisé en chaîne JSON par CivilizationState et IslandState.
+ */
+function expectNested(value: unknown, path: string): Record<string, any> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(expectString(value, path));
+  } catch (e) {
+    throw invalid(path, 'JSON');
+  }
+  return expectObject(parsed, path);
+}
@@ -2,4 +2,7 @@ export { PlayerResources } from './PlayerResources';
 export { ResourceHarvest } from './ResourceHarvest';
 export { RoadConstruction } from './RoadConstruction';
 export { GameClock } from './GameClock';
-export { IslandState } from './IslandState';export { CivilizationState } from './CivilizationState';
\ No newline at end of file
+export { IslandState } from './IslandState';export { CivilizationState } from './CivilizationState';
+export { RivalCivilization, RivalDifficulty, type RivalSettings } from './RivalCivilization';
+export { CURRENT_SAVE_SCHEMA_VERSION, SAVE_MIGRATIONS, migrateSave, validateSave } from './SaveSchema';
+export { ActionHistory, PlayerActionKind, type PlayerAction } from './ActionHistory';
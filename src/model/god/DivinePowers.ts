@@ -0,0 +1,62 @@
+import { ALL_DIVINE_POWER_TYPES, DivinePowerType } from './types';
+
+/**
+ * Format sérialisé des pouvoirs divins.
+ */
+export interface DivinePowersSerialized {
+  levels: [string, number][];
+}
+
+/**
+ * Niveaux des pouvoirs divins acquis par le dieu.
+ * Modèle pur : les coûts et les effets sont gérés par DivineController.
+ */
+export class DivinePowers {
+  private readonly levels: Map<DivinePowerType, number> = new Map();
+
+  /**
+   * Retourne le niveau d'un pouvoir divin (0 si jamais acheté).
+   * @param type - Le type de pouvoir
+   */
+  getLevel(type: DivinePowerType): number {
+    return this.levels.get(type) ?? 0;
+  }
+
+  /**
+   * Augmente d'un niveau un pouvoir divin.
+   * @param type - Le type de pouvoir
+   */
+  incrementLevel(type: DivinePowerType): void {
+    this.levels.set(type, this.getLevel(type) + 1);
+  }
+
+  /**
+   * Vérifie si au moins un pouvoir divin a été acquis.
+   */
+  hasAnyPower(): boolean {
+    return [...this.levels.values()].some(level => level > 0);
+  }
+
+  serialize(): DivinePowersSerialized {
+    return {
+      levels: [...this.levels.entries()].filter(([, level]) => level > 0),
+    };
+  }
+
+  static deserialize(data: DivinePowersSerialized | undefined): DivinePowers {
+    const powers = new DivinePowers();
+    if (!data || !Array.isArray(data.levels)) {
+      return powers;
+    }
+    for (const [type, level] of data.levels) {
+      // Ignorer les pouvoirs inconnus (ex: retirés du jeu)
+      if (!ALL_DIVINE_POWER_TYPES.includes(type as DivinePowerType)) {
+        continue;
+      }
+      if (typeof level === 'number' && Number.isFinite(level) && level > 0) {
+        powers.levels.set(type as DivinePowerType, Math.floor(level));
+      }
+    }
+    return powers;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Pouvoirs divins achetables avec les points divins.
+ * Ils persistent entre les civilisations et s'appliquent au début de chaque nouvelle partie.
+ */
+export enum DivinePowerType {
+  /** Ressources de départ supplémentaires */
+  StartingResources = 'StartingResources',
+  /** Niveau de départ de la ville initiale */
+  StartingCityLevel = 'StartingCityLevel',
+  /** Automatisations actives dès le début de la partie */
+  AutomationUnlock = 'AutomationUnlock',
+}
+
+/**
+ * Ordre d'affichage des pouvoirs divins.
+ */
+export const ALL_DIVINE_POWER_TYPES: readonly DivinePowerType[] = [
+  DivinePowerType.StartingResources,
+  DivinePowerType.StartingCityLevel,
+  DivinePowerType.AutomationUnlock,
+];
@@ -1,5 +1,6 @@
 import { CivilizationId } from './CivilizationId';
 import { IslandMap } from './IslandMap';
+import { AchievementBonuses, AchievementBonusType, NO_ACHIEVEMENT_BONUSES } from '../achievements/types';
 
 /**
  * Format sérialisé d'une civilisation.
@@ -30,6 +31,8 @@ export class Civilization {
   private _resourceGainLevel: number = 0; // 0..100
   private _civPointGainLevel: number = 0; // 0..10
   private _constructionTimeLevel: number = 0; // 0..10
+  /** Bonus des succès (non sérialisés : réappliqués depuis le PlayerSave par AchievementController) */
+  private _achievementBonuses: Readonly<AchievementBonuses> = NO_ACHIEVEMENT_BONUSES;
 
   /**
    * Crée une nouvelle civilisation.
@@ -228,7 +231,7 @@ export class Civilization {
   }
 
   getResourceGainMultiplier(): number {
-    return 1 + 0.1 * this._resourceGainLevel;
+    return 1 + 0.1 * this._resourceGainLevel + this._achievementBonuses[AchievementBonusType.ResourceGain];
   }
 
   getCivPointGainLevel(): number {
@@ -244,7 +247,7 @@ export class Civilization {
   }
 
   getCivPointGainMultiplier(): number {
-    return 1 + 0.1 * this._civPointGainLevel;
+    return 1 + 0.1 * this._civPointGainLevel + this._achievementBonuses[AchievementBonusType.CivPointGain];
   }
 
   getConstructionTimeLevel(): number {
@@ -259,8 +262,19 @@ export class Civilization {
     this.setConstructionTimeLevel(this._constructionTimeLevel + 1);
   }
 
-  // Placeholder: no effect yet
+  /**
+   * Multiplicateur appliqué aux durées de construction : -5% par niveau (jusqu'à -50% au niveau 10),
+   * réduit en plus par les bonus des succès.
+   */
   getConstructionTimeMultiplier(): number {
-    return 1;
+    return 1 - 0.05 * this._constructionTimeLevel - this._achievementBonuses[AchievementBonusType.ConstructionTime];
+  }
+
+  getAchievementBonuses(): Readonly<AchievementBonuses> {
+    return this._achievementBonuses;
+  }
+
+  setAchievementBonuses(bonuses: Readonly<AchievementBonuses>): void {
+    this._achievementBonuses = bonuses;
   }
 }
@@ -0,0 +1,49 @@
+/**
+ * Rendement d'un hexagone : quantité récoltée à chaque récolte (manuelle, bâtiment ou rival).
+ *
+ * Comme les jetons numérotés de Catane, le générateur de carte attribue à chaque hexagone de ressource
+ * un rendement entre STANDARD_HEX_YIELD et MAX_HEX_YIELD. Un hexagone riche (rendement supérieur au
+ * standard) dispose d'une réserve de richesse : chaque récolte y puise les unités au-delà du rendement
+ * standard, et une réserve vide ramène l'hexagone au rendement standard. La réserve se régénère avec
+ * le temps de jeu. Un hexagone standard est inépuisable.
+ */
+
+/** Rendement par défaut (cartes construites à la main, sauvegardes antérieures, hexagones de départ) */
+export const STANDARD_HEX_YIELD = 1;
+
+/** Rendement maximal d'un hexagone */
+export const MAX_HEX_YIELD = 3;
+
+/** Taille de la réserve de richesse par point de rendement au-delà du standard */
+export const HEX_RESERVE_PER_BONUS_YIELD = 20;
+
+/** Régénération de la réserve de richesse (unités par seconde de jeu) */
+export const HEX_RESERVE_REGENERATION_PER_SECOND = 0.2;
+
+/**
+ * État d'une réserve de richesse entamée (une réserve pleine n'est pas stockée).
+ */
+export interface HexReserve {
+  /** Quantité restante au moment du dernier prélèvement */
+  amount: number;
+  /** Temps de jeu du dernier prélèvement (en secondes) */
+  timeSeconds: number;
+}
+
+/**
+ * Retourne la taille de la réserve de richesse d'un hexagone.
+ * @param hexYield - Le rendement de l'hexagone
+ * @returns La réserve maximale (0 pour un hexagone standard)
+ */
+export function getMaxHexReserve(hexYield: number): number {
+  return Math.max(0, hexYield - STANDARD_HEX_YIELD) * HEX_RESERVE_PER_BONUS_YIELD;
+}
+
+/**
+ * Vérifie qu'une valeur est un rendement valide.
+ * @param value - La valeur à vérifier
+ * @returns true si la valeur est un entier entre STANDARD_HEX_YIELD et MAX_HEX_YIELD
+ */
+export function isValidHexYield(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= STANDARD_HEX_YIELD && (value as number) <= MAX_HEX_YIELD;
+}
@@ -9,6 +9,7 @@ import { City, CitySerialized } from '../city/City';
 import { CityLevel } from '../city/CityLevel';
 import { BuildingType } from '../city/BuildingType';
 import { ResourceType } from './ResourceType';
+import { STANDARD_HEX_YIELD, HexReserve, getMaxHexReserve, isValidHexYield, HEX_RESERVE_REGENERATION_PER_SECOND } from './HexYield';
 import { localize } from '../../i18n';
 
 /**
@@ -27,6 +28,9 @@ export class IslandMap {
   private readonly registeredCivilizations: Set<string>;
   private readonly roadOwner: Map<string, CivilizationId>;
   private readonly roadDistanceToCity: Map<string, number>; // Map<edgeKey, distance>
+  private readonly lastHarvestTimes: Map<string, number>; // Map<hexKey, temps de jeu de la dernière récolte manuelle>
+  private readonly hexYields: Map<string, number>; // Map<hexKey, rendement> (absent = rendement standard)
+  private readonly hexReserves: Map<string, HexReserve>; // Map<hexKey, réserve entamée> (absent = réserve pleine)
 
   /**
    * Crée une nouvelle carte de jeu à partir d'une grille hexagonale.
@@ -39,6 +43,9 @@ export class IslandMap {
     this.registeredCivilizations = new Set();
     this.roadOwner = new Map();
     this.roadDistanceToCity = new Map();
+    this.lastHarvestTimes = new Map();
+    this.hexYields = new Map();
+    this.hexReserves = new Map();
 
     // Initialiser tous les hexagones à Desert par défaut
     for (const hex of grid.getAllHexes()) {
@@ -80,6 +87,98 @@ export class IslandMap {
     return this.hexTypeMap.get(coord.hashCode());
   }
 
+  /**
+   * Retourne le temps de jeu de la dernière récolte manuelle d'un hexagone.
+   * @param hexCoord - La coordonnée de l'hexagone
+   * @returns Le temps de jeu (en secondes), ou undefined si l'hexagone n'a jamais été récolté
+   */
+  getLastHarvestTime(hexCoord: HexCoord): number | undefined {
+    return this.lastHarvestTimes.get(hexCoord.hashCode());
+  }
+
+  /**
+   * Enregistre la récolte manuelle d'un hexagone (point de départ de son délai de récolte).
+   * @param hexCoord - La coordonnée de l'hexagone
+   * @param timeSeconds - Le temps de jeu de la récolte (en secondes)
+   */
+  setLastHarvestTime(hexCoord: HexCoord, timeSeconds: number): void {
+    this.lastHarvestTimes.set(hexCoord.hashCode(), timeSeconds);
+  }
+
+  /**
+   * Retourne le rendement d'un hexagone (voir HexYield).
+   * @param hex - L'hexagone ou sa coordonnée
+   * @returns Le rendement, STANDARD_HEX_YIELD s'il n'a pas été défini
+   */
+  getHexYield(hex: Hex | HexCoord): number {
+    const coord = hex instanceof Hex ? hex.coord : hex;
+    return this.hexYields.get(coord.hashCode()) ?? STANDARD_HEX_YIELD;
+  }
+
+  /**
+   * Définit le rendement d'un hexagone. Sa réserve de richesse repart pleine.
+   * @param hex - L'hexagone ou sa coordonnée
+   * @param hexYield - Le rendement (entier entre STANDARD_HEX_YIELD et MAX_HEX_YIELD)
+   * @throws Error si l'hexagone n'existe pas dans la grille ou si le rendement est invalide
+   */
+  setHexYield(hex: Hex | HexCoord, hexYield: number): void {
+    const coord = hex instanceof Hex ? hex.coord : hex;
+    if (!this.grid.hasHex(coord)) {
+      throw new Error(localize('island.hexNotExist', { coord: coord.toString() }));
+    }
+    if (!isValidHexYield(hexYield)) {
+      throw new Error(localize('island.invalidHexYield', { coord: coord.toString(), value: String(hexYield) }));
+    }
+    if (hexYield === STANDARD_HEX_YIELD) {
+      this.hexYields.delete(coord.hashCode());
+    } else {
+      this.hexYields.set(coord.hashCode(), hexYield);
+    }
+    this.hexReserves.delete(coord.hashCode());
+  }
+
+  /**
+   * Retourne la réserve de richesse d'un hexagone, régénérée jusqu'au temps donné.
+   * @param hexCoord - La coordonnée de l'hexagone
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   * @returns La réserve disponible (0 pour un hexagone standard)
+   */
+  getHexReserve(hexCoord: HexCoord, currentTime: number): number {
+    const maxReserve = getMaxHexReserve(this.getHexYield(hexCoord));
+    const reserve = this.hexReserves.get(hexCoord.hashCode());
+    if (!reserve) {
+      return maxReserve;
+    }
+    const regenerated = Math.max(0, currentTime - reserve.timeSeconds) * HEX_RESERVE_REGENERATION_PER_SECOND;
+    return Math.min(maxReserve, reserve.amount + regenerated);
+  }
+
+  /**
+   * Retourne le rendement actuel d'un hexagone : le rendement au-delà du standard
+   * n'est disponible que dans la limite de sa réserve de richesse.
+   * @param hexCoord - La coordonnée de l'hexagone
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   * @returns Le rendement utilisable pour une récolte
+   */
+  getEffectiveHexYield(hexCoord: HexCoord, currentTime: number): number {
+    const bonus = this.getHexYield(hexCoord) - STANDARD_HEX_YIELD;
+    return STANDARD_HEX_YIELD + Math.min(bonus, Math.floor(this.getHexReserve(hexCoord, currentTime)));
+  }
+
+  /**
+   * Prélève des unités dans la réserve de richesse d'un hexagone.
+   * @param hexCoord - La coordonnée de l'hexagone
+   * @param amount - Les unités prélevées
+   * @param currentTime - Le temps de jeu du prélèvement (en secondes)
+   */
+  consumeHexReserve(hexCoord: HexCoord, amount: number, currentTime: number): void {
+    if (amount <= 0 || getMaxHexReserve(this.getHexYield(hexCoord)) === 0) {
+      return;
+    }
+    const remaining = Math.max(0, this.getHexReserve(hexCoord, currentTime) - amount);
+    this.hexReserves.set(hexCoord.hashCode(), { amount: remaining, timeSeconds: currentTime });
+  }
+
   /**
    * Enregistre une civilisation dans la carte.
    * @param civId - L'identifiant de la civilisation
@@ -199,6 +298,37 @@ export class IslandMap {
     this.updateRoadDistances(civId);
   }
 
+  /**
+   * Retire la ville d'un sommet (annulation d'un avant-poste).
+   * @param vertex - Le sommet de la ville
+   * @throws Error s'il n'y a pas de ville sur ce sommet
+   */
+  removeCity(vertex: Vertex): void {
+    const city = this.cityMap.get(vertex.hashCode());
+    if (!city) {
+      throw new Error(localize('island.cityNotFound', { vertex: vertex.toString() }));
+    }
+    this.cityMap.delete(vertex.hashCode());
+    this.updateRoadDistances(city.owner);
+  }
+
+  /**
+   * Retire la route d'une arête (annulation d'une construction).
+   * @param edge - L'arête de la route
+   * @throws Error s'il n'y a pas de route sur cette arête
+   */
+  removeRoad(edge: Edge): void {
+    const edgeKey = edge.hashCode();
+    const owner = this.roadOwner.get(edgeKey);
+    if (!owner) {
+      throw new Error(localize('island.routeNotFound', { edge: edge.toString() }));
+    }
+    this.roads.delete(edgeKey);
+    this.roadOwner.delete(edgeKey);
+    this.roadDistanceToCity.delete(edgeKey);
+    this.updateRoadDistances(owner);
+  }
+
   /**
    * Retourne le propriétaire d'une ville sur un sommet.
    * @param vertex - Le sommet à vérifier
@@ -820,19 +950,45 @@ export class IslandMap {
     return buildableVertices;
   }
 
+  /**
+   * Vérifie que toutes les routes d'une civilisation resteraient reliées à l'une de ses villes si une route
+   * et/ou une ville étaient retirées, sans modifier la carte (vérification d'une annulation).
+   * @param civId - L'identifiant de la civilisation
+   * @param removed - La route et/ou la ville retirée
+   * @returns true si chaque route restante a encore une distance à une ville
+   */
+  isRoadNetworkConnectedWithout(civId: CivilizationId, removed: { edge?: Edge; vertex?: Vertex }): boolean {
+    const distances = this.computeRoadDistances(civId, removed);
+    const removedKey = removed.edge?.hashCode();
+    return this.getRoadsForCivilization(civId).every(road => road.hashCode() === removedKey || distances.has(road.hashCode()));
+  }
+
   /**
    * Met à jour les distances de toutes les routes à la ville la plus proche pour une civilisation donnée.
-   * Utilise un algorithme BFS pour calculer les distances depuis les villes.
    * @param civId - L'identifiant de la civilisation
    */
   private updateRoadDistances(civId: CivilizationId): void {
-    const civKey = civId.hashCode();
-    
-    // Réinitialiser les distances pour toutes les routes de cette civilisation
-    const civRoads = this.getRoadsForCivilization(civId);
-    for (const road of civRoads) {
+    for (const road of this.getRoadsForCivilization(civId)) {
       this.roadDistanceToCity.delete(road.hashCode());
     }
+    for (const [roadKey, distance] of this.computeRoadDistances(civId)) {
+      this.roadDistanceToCity.set(roadKey, distance);
+    }
+  }
+
+  /**
+   * Calcule les distances des routes d'une civilisation à la ville la plus proche.
+   * Utilise un algorithme BFS depuis les villes.
+   * @param civId - L'identifiant de la civilisation
+   * @param removed - Route et/ou ville ignorées (optionnel, pour simuler leur retrait)
+   * @returns Les distances par clé de route (absentes pour les routes isolées)
+   */
+  private computeRoadDistances(civId: CivilizationId, removed: { edge?: Edge; vertex?: Vertex } = {}): Map<string, number> {
+    const civKey = civId.hashCode();
+    const removedEdgeKey = removed.edge?.hashCode();
+    const removedVertexKey = removed.vertex?.hashCode();
+    const distances = new Map<string, number>();
+    const civRoads = this.getRoadsForCivilization(civId).filter(road => road.hashCode() !== removedEdgeKey);
 
     // Étape 1: Trouver toutes les routes qui touchent directement une ville de la civilisation (distance = 1)
     const queue: Array<{ edge: Edge; distance: number }> = [];
@@ -850,7 +1006,7 @@ export class IslandMap {
           continue;
         }
         
-        if (this.hasCity(vertex)) {
+        if (this.hasCity(vertex) && vertex.hashCode() !== removedVertexKey) {
           const owner = this.getCityOwner(vertex);
           if (owner && owner.hashCode() === civKey) {
             touchesCity = true;
@@ -861,7 +1017,7 @@ export class IslandMap {
       
       if (touchesCity) {
         const roadKey = road.hashCode();
-        this.roadDistanceToCity.set(roadKey, 1);
+        distances.set(roadKey, 1);
         queue.push({ edge: road, distance: 1 });
         processed.add(roadKey);
       }
@@ -876,8 +1032,8 @@ export class IslandMap {
         const adjRoadKey = adjacentEdge.hashCode();
         const adjOwner = this.getRoadOwner(adjacentEdge);
         
-        // Ignorer les routes qui ne sont pas de la même civilisation ou déjà traitées
-        if (!adjOwner || adjOwner.hashCode() !== civKey || processed.has(adjRoadKey)) {
+        // Ignorer les routes qui ne sont pas de la même civilisation, retirées ou déjà traitées
+        if (!adjOwner || adjOwner.hashCode() !== civKey || adjRoadKey === removedEdgeKey || processed.has(adjRoadKey)) {
           continue;
         }
         
@@ -895,16 +1051,17 @@ export class IslandMap {
         }
         
         const newDistance = currentDistance + 1;
-        const existingDistance = this.roadDistanceToCity.get(adjRoadKey);
+        const existingDistance = distances.get(adjRoadKey);
         
         // Mettre à jour seulement si la nouvelle distance est meilleure (plus petite)
         if (existingDistance === undefined || newDistance < existingDistance) {
-          this.roadDistanceToCity.set(adjRoadKey, newDistance);
+          distances.set(adjRoadKey, newDistance);
           queue.push({ edge: adjacentEdge, distance: newDistance });
         }
         processed.add(adjRoadKey);
       }
     }
+    return distances;
   }
 
   /** Format sérialisé de la carte (pour IslandMap.serialize). */
@@ -914,6 +1071,9 @@ export class IslandMap {
     civilizations: string[];
     cities: CitySerialized[];
     roads: { edge: [[number, number], [number, number]]; owner: string }[];
+    harvestTimes?: Record<string, number>;
+    hexYields?: Record<string, number>;
+    hexReserves?: Record<string, HexReserve>;
   } {
     const roads: { edge: [[number, number], [number, number]]; owner: string }[] = [];
     for (const s of this.getRegisteredCivilizationValues()) {
@@ -928,6 +1088,10 @@ export class IslandMap {
       civilizations: this.getRegisteredCivilizationValues(),
       cities: [...this.cityMap.values()].map((c) => c.serialize()),
       roads,
+      // Omis tant qu'aucun hexagone n'a été récolté : une carte générée se sérialise toujours à l'identique
+      ...(this.lastHarvestTimes.size > 0 ? { harvestTimes: Object.fromEntries(this.lastHarvestTimes) } : {}),
+      ...(this.hexYields.size > 0 ? { hexYields: Object.fromEntries(this.hexYields) } : {}),
+      ...(this.hexReserves.size > 0 ? { hexReserves: Object.fromEntries(this.hexReserves) } : {}),
     };
   }
 
@@ -939,6 +1103,11 @@ export class IslandMap {
       civilizations: string[];
       cities: CitySerialized[];
       roads: { edge: [[number, number], [number, number]]; owner: string }[];
+      /** Absent des sauvegardes antérieures : tous les hexagones sont prêts à être récoltés */
+      harvestTimes?: Record<string, number>;
+      /** Absents des sauvegardes antérieures : rendement standard et réserves pleines */
+      hexYields?: Record<string, number>;
+      hexReserves?: Record<string, HexReserve>;
     }
   ): IslandMap {
     const grid = HexGrid.deserialize(data.grid);
@@ -969,11 +1138,37 @@ export class IslandMap {
         if (b.productionTimeSeconds !== undefined) {
           city.getBuilding(b.type as BuildingType)?.setProductionTimeSeconds(b.productionTimeSeconds);
         }
+        if (b.relics !== undefined) {
+          city.getBuilding(b.type as BuildingType)?.setRelicCount(b.relics);
+        }
+        if (b.rngState !== undefined) {
+          city.getBuilding(b.type as BuildingType)?.setRngState(b.rngState);
+        }
       }
     }
     for (const r of data.roads) {
       map.addRoad(Edge.deserialize(r.edge), CivilizationId.deserialize(r.owner));
     }
+    for (const [key, time] of Object.entries(data.harvestTimes ?? {})) {
+      const [q, r] = key.split(',').map(Number);
+      if (Number.isFinite(time)) {
+        map.setLastHarvestTime(HexCoord.deserialize([q, r]), time);
+      }
+    }
+    for (const [key, hexYield] of Object.entries(data.hexYields ?? {})) {
+      const [q, r] = key.split(',').map(Number);
+      const coord = HexCoord.deserialize([q, r]);
+      if (grid.hasHex(coord) && isValidHexYield(hexYield)) {
+        map.setHexYield(coord, hexYield);
+      }
+    }
+    // Après les rendements, qui remettent les réserves à plein
+    for (const [key, reserve] of Object.entries(data.hexReserves ?? {})) {
+      const maxReserve = getMaxHexReserve(map.hexYields.get(key) ?? STANDARD_HEX_YIELD);
+      if (maxReserve > 0 && Number.isFinite(reserve?.amount) && Number.isFinite(reserve?.timeSeconds)) {
+        map.hexReserves.set(key, { amount: Math.min(maxReserve, Math.max(0, reserve.amount)), timeSeconds: reserve.timeSeconds });
+      }
+    }
     return map;
   }
 }
\ No newline at end of file
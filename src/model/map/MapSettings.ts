@@ -0,0 +1,91 @@
+import { HexType } from './HexType';
+
+/**
+ * Préréglages de génération : taille de l'île et répartition des ressources.
+ */
+export enum MapPreset {
+  Small = 'Small',
+  Medium = 'Medium',
+  Large = 'Large',
+  /** Ressources rares : peu d'hexagones récoltables, beaucoup de désert */
+  ResourceScarce = 'ResourceScarce',
+  /** Riche en minerai */
+  OreRich = 'OreRich',
+}
+
+/**
+ * Formes d'île proposées par le générateur de carte.
+ */
+export enum IslandShape {
+  /** Forme libre (croissance aléatoire, forme historique) */
+  Blob = 'Blob',
+  /** Île compacte et arrondie */
+  Round = 'Round',
+  /** Île étirée d'est en ouest */
+  Elongated = 'Elongated',
+  /** Plusieurs îles séparées par l'eau */
+  Archipelago = 'Archipelago',
+  /** Île en anneau autour d'un lac central */
+  Lake = 'Lake',
+}
+
+/**
+ * Paramètres de génération de la carte d'une partie.
+ */
+export interface MapSettings {
+  preset: MapPreset;
+  shape: IslandShape;
+}
+
+/**
+ * Paramètres par défaut (carte historique : 5 hexagones par ressource et un désert).
+ */
+export const DEFAULT_MAP_SETTINGS: Readonly<MapSettings> = {
+  preset: MapPreset.Medium,
+  shape: IslandShape.Blob,
+};
+
+/**
+ * Nombre d'hexagones par type pour chaque préréglage.
+ * L'ordre des types est significatif : il conditionne le tirage des ressources pour une seed donnée.
+ */
+const PRESET_DISTRIBUTIONS: Readonly<Record<MapPreset, ReadonlyArray<[HexType, number]>>> = {
+  [MapPreset.Small]: [
+    [HexType.Wood, 3], [HexType.Brick, 3], [HexType.Wheat, 3], [HexType.Sheep, 3], [HexType.Ore, 3], [HexType.Desert, 1],
+  ],
+  [MapPreset.Medium]: [
+    [HexType.Wood, 5], [HexType.Brick, 5], [HexType.Wheat, 5], [HexType.Sheep, 5], [HexType.Ore, 5], [HexType.Desert, 1],
+  ],
+  [MapPreset.Large]: [
+    [HexType.Wood, 8], [HexType.Brick, 8], [HexType.Wheat, 8], [HexType.Sheep, 8], [HexType.Ore, 8], [HexType.Desert, 2],
+  ],
+  [MapPreset.ResourceScarce]: [
+    [HexType.Wood, 3], [HexType.Brick, 3], [HexType.Wheat, 3], [HexType.Sheep, 3], [HexType.Ore, 2], [HexType.Desert, 6],
+  ],
+  [MapPreset.OreRich]: [
+    [HexType.Wood, 4], [HexType.Brick, 4], [HexType.Wheat, 4], [HexType.Sheep, 4], [HexType.Ore, 9], [HexType.Desert, 1],
+  ],
+};
+
+/**
+ * Retourne la distribution des hexagones d'un préréglage (nouvelle Map à chaque appel).
+ * @param preset - Le préréglage
+ */
+export function getPresetDistribution(preset: MapPreset): Map<HexType, number> {
+  return new Map(PRESET_DISTRIBUTIONS[preset]);
+}
+
+/**
+ * Restaure des paramètres de carte sérialisés ; les valeurs inconnues ou absentes
+ * (anciennes sauvegardes) reprennent les valeurs par défaut.
+ * @param data - Les données sérialisées
+ */
+export function deserializeMapSettings(data: Partial<Record<keyof MapSettings, string>> | undefined): MapSettings {
+  const preset = Object.values(MapPreset).includes(data?.preset as MapPreset)
+    ? data!.preset as MapPreset
+    : DEFAULT_MAP_SETTINGS.preset;
+  const shape = Object.values(IslandShape).includes(data?.shape as IslandShape)
+    ? data!.shape as IslandShape
+    : DEFAULT_MAP_SETTINGS.shape;
+  return { preset, shape };
+}
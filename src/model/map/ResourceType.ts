@@ -13,4 +13,17 @@ export enum ResourceType {
   Sheep = 'Sheep',
   /** Minerai */
   Ore = 'Ore',
-}
\ No newline at end of file
+  /** Outils - Fabriqués par la Forge à partir de minerai et de bois */
+  Tools = 'Tools',
+}
+
+/**
+ * Ressources de base, récoltées sur les hexagones (les outils sont fabriqués).
+ */
+export const BASIC_RESOURCES: readonly ResourceType[] = [
+  ResourceType.Wood,
+  ResourceType.Brick,
+  ResourceType.Wheat,
+  ResourceType.Sheep,
+  ResourceType.Ore,
+];
\ No newline at end of file
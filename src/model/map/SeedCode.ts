@@ -0,0 +1,138 @@
+import { HexType } from './HexType';
+import { IslandShape, MapPreset, MapSettings, getPresetDistribution } from './MapSettings';
+import { RivalDifficulty, RivalSettings } from '../game/RivalCivilization';
+import { localize } from '../../i18n';
+
+/**
+ * Île partageable : seed, paramètres de génération et rivaux décodés d'un code de partage.
+ * Les rivaux en font partie : leurs villes de départ sont placées par le générateur de carte.
+ */
+export interface IslandShareConfig {
+  seed: number;
+  settings: MapSettings;
+  rivals: RivalSettings;
+}
+
+/** Lettre de chaque préréglage dans le code (une lettre par valeur, jamais réattribuée). */
+const PRESET_LETTERS: Readonly<Record<MapPreset, string>> = {
+  [MapPreset.Small]: 'S',
+  [MapPreset.Medium]: 'M',
+  [MapPreset.Large]: 'L',
+  [MapPreset.ResourceScarce]: 'R',
+  [MapPreset.OreRich]: 'O',
+};
+
+/** Lettre de chaque forme d'île dans le code. */
+const SHAPE_LETTERS: Readonly<Record<IslandShape, string>> = {
+  [IslandShape.Blob]: 'B',
+  [IslandShape.Round]: 'R',
+  [IslandShape.Elongated]: 'E',
+  [IslandShape.Archipelago]: 'A',
+  [IslandShape.Lake]: 'L',
+};
+
+/** Lettre de chaque difficulté des rivaux dans le code. */
+const DIFFICULTY_LETTERS: Readonly<Record<RivalDifficulty, string>> = {
+  [RivalDifficulty.Easy]: 'E',
+  [RivalDifficulty.Normal]: 'N',
+  [RivalDifficulty.Hard]: 'H',
+};
+
+/** Nombre maximal de rivaux dans un code (un chiffre base 36). */
+const MAX_CODE_RIVALS = 35;
+
+/** Types d'hexagone de la répartition, dans l'ordre où leurs nombres sont écrits. */
+const DISTRIBUTION_ORDER: readonly HexType[] = [
+  HexType.Wood, HexType.Brick, HexType.Wheat, HexType.Sheep, HexType.Ore, HexType.Desert,
+];
+
+/**
+ * Format : seed en base 36, tiret, préréglage, forme, répartition (un chiffre base 36 par type),
+ * nombre de rivaux (un chiffre base 36), difficulté des rivaux et clé de contrôle.
+ */
+const CODE_PATTERN = /^([0-9A-Z]+)-([A-Z])([A-Z])([0-9A-Z]{6})([0-9A-Z])([A-Z])([0-9A-Z])$/;
+
+/**
+ * Clé de contrôle d'un code (ISO 7064 MOD 37,36 sur les caractères base 36, tiret exclu) :
+ * détecte tout caractère erroné et toute inversion de deux caractères voisins.
+ */
+function checksum(payload: string): string {
+  let product = 36;
+  for (const char of payload.replace('-', '')) {
+    const sum = (product + parseInt(char, 36)) % 36 || 36;
+    product = (sum * 2) % 37;
+  }
+  return ((37 - product) % 36).toString(36).toUpperCase();
+}
+
+/**
+ * Vérifie qu'une seed peut être écrite dans un code de partage.
+ * @param seed - La seed de génération
+ * @returns true si la seed est un entier positif exact
+ */
+export function isShareableSeed(seed: number): boolean {
+  return Number.isSafeInteger(seed) && seed >= 0;
+}
+
+function findKey<K extends string>(letters: Readonly<Record<K, string>>, letter: string): K | undefined {
+  return (Object.keys(letters) as K[]).find(key => letters[key] === letter);
+}
+
+/**
+ * Encode la seed, les paramètres de génération et les rivaux d'une île en un code de partage compact
+ * (ex. « 9IX-MB5555510N7 » pour la seed 12345 sur l'île moyenne de forme libre, sans rivaux).
+ * La répartition des ressources du préréglage y figure aussi, pour refuser un code créé avec
+ * un autre équilibrage des préréglages.
+ * @param seed - La seed de génération (entier positif)
+ * @param settings - Le préréglage et la forme de l'île
+ * @param rivals - Les rivaux de la partie
+ * @throws Error si la seed ou le nombre de rivaux ne peut pas être écrit dans un code
+ */
+export function encodeSeedCode(seed: number, settings: MapSettings, rivals: RivalSettings): string {
+  if (!isShareableSeed(seed)) {
+    throw new Error(localize('seedCode.error.invalidSeed', { seed: String(seed) }));
+  }
+  if (!Number.isInteger(rivals.count) || rivals.count < 0 || rivals.count > MAX_CODE_RIVALS) {
+    throw new Error(localize('seedCode.error.invalidRivals', { count: String(rivals.count) }));
+  }
+  const distribution = getPresetDistribution(settings.preset);
+  const counts = DISTRIBUTION_ORDER.map(hexType => (distribution.get(hexType) ?? 0).toString(36)).join('');
+  const payload = (
+    `${seed.toString(36)}-${PRESET_LETTERS[settings.preset]}${SHAPE_LETTERS[settings.shape]}${counts}`
+    + `${rivals.count.toString(36)}${DIFFICULTY_LETTERS[rivals.difficulty]}`
+  ).toUpperCase();
+  return payload + checksum(payload);
+}
+
+/**
+ * Décode un code de partage (casse et espaces ignorés).
+ * @param code - Le code saisi par le joueur
+ * @returns La seed, les paramètres de génération et les rivaux de l'île
+ * @throws Error si le code est mal formé, corrompu ou incompatible avec les préréglages actuels
+ */
+export function decodeSeedCode(code: string): IslandShareConfig {
+  const normalized = code.replace(/\s+/g, '').toUpperCase();
+  const match = CODE_PATTERN.exec(normalized);
+  if (!match) {
+    throw new Error(localize('seedCode.error.invalidFormat'));
+  }
+  const [, seedPart, presetLetter, shapeLetter, counts, rivalCount, difficultyLetter, key] = match;
+  if (checksum(normalized.slice(0, -1)) !== key) {
+    throw new Error(localize('seedCode.error.checksum'));
+  }
+
+  const preset = findKey(PRESET_LETTERS, presetLetter);
+  const shape = findKey(SHAPE_LETTERS, shapeLetter);
+  const difficulty = findKey(DIFFICULTY_LETTERS, difficultyLetter);
+  const seed = parseInt(seedPart, 36);
+  if (preset === undefined || shape === undefined || difficulty === undefined || !isShareableSeed(seed)) {
+    throw new Error(localize('seedCode.error.invalidFormat'));
+  }
+
+  const distribution = getPresetDistribution(preset);
+  const expected = DISTRIBUTION_ORDER.map(hexType => (distribution.get(hexType) ?? 0).toString(36)).join('').toUpperCase();
+  if (counts !== expected) {
+    throw new Error(localize('seedCode.error.distributionMismatch'));
+  }
+  return { seed, settings: { preset, shape }, rivals: { count: parseInt(rivalCount, 36), difficulty } };
+}
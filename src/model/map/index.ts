@@ -7,5 +7,8 @@
 export { HexType } from './HexType';
 export { ResourceType } from './ResourceType';
 export { IslandMap } from './IslandMap';
+export { STANDARD_HEX_YIELD, MAX_HEX_YIELD, type HexReserve, getMaxHexReserve } from './HexYield';
 export { CivilizationId } from './CivilizationId';
-export { Civilization } from './Civilization';
\ No newline at end of file
+export { Civilization } from './Civilization';
+export { MapPreset, IslandShape, type MapSettings, DEFAULT_MAP_SETTINGS, getPresetDistribution, deserializeMapSettings } from './MapSettings';
+export { type IslandShareConfig, encodeSeedCode, decodeSeedCode } from './SeedCode';
\ No newline at end of file
@@ -4,6 +4,8 @@ import { PrestigeCity, PrestigeCitySerialized } from "./PrestigeCity";
 import { Edge } from "../hex/Edge";
 
 export interface PrestigeMapSerialized {
+  /** Version du format (absente pour les sauvegardes antérieures à la version 2). */
+  version?: number;
   grid: ReturnType<HexGrid['serialize']>;
   bonuses: [string, PrestigeBonus][];
   cities: PrestigeCitySerialized[];
@@ -12,23 +14,67 @@ export interface PrestigeMapSerialized {
 
 /** Modèle pur représentant la mini-carte Prestige. */
 export class PrestigeMap {
+  /**
+   * Version courante du format sérialisé.
+   * - 1 (implicite) : les routes étaient écrites sous la forme [[0,0],[0,0]], donc perdues.
+   * - 2 : les routes sont écrites avec leurs deux hexagones.
+   */
+  static readonly SERIALIZATION_VERSION = 2;
+
   constructor(
     public readonly grid: HexGrid,
     public readonly bonuses: Map<string, PrestigeBonus>,
     public readonly cities: Map<string, PrestigeCity>,
-    public readonly roads: Set<string>
+    /** Routes indexées par Edge.hashCode() */
+    public readonly roads: Map<string, Edge>
   ) {}
 
+  /** Ajoute une route à la carte Prestige. */
+  addRoad(edge: Edge): void {
+    this.roads.set(edge.hashCode(), edge);
+  }
+
+  /** Vérifie si une route existe sur l'arête donnée. */
+  hasRoad(edge: Edge): boolean {
+    return this.roads.has(edge.hashCode());
+  }
+
+  /** Agrège les bonus pour une ville: bonus propre + (niveau * bonus des hexagones adjacents). */
+  getCityBonuses(city: PrestigeCity): Map<PrestigeBonusType, number> {
+    const totals = new Map<PrestigeBonusType, number>();
+    // city own bonus
+    if (city.bonus) {
+      totals.set(city.bonus.type, (totals.get(city.bonus.type) ?? 0) + city.bonus.value);
+    }
+    // surrounding hexes
+    const hexes = city.vertex.getHexes();
+    for (const hexCoord of hexes) {
+      const b = this.bonuses.get(hexCoord.hashCode());
+      if (!b) continue;
+      const prev = totals.get(b.type) ?? 0;
+      totals.set(b.type, prev + b.value * city.level);
+    }
+    return totals;
+  }
+
+  /** Agrège les bonus de toutes les villes de la carte Prestige. */
+  getTotalBonuses(): Map<PrestigeBonusType, number> {
+    const totals = new Map<PrestigeBonusType, number>();
+    for (const city of this.cities.values()) {
+      for (const [type, value] of this.getCityBonuses(city)) {
+        totals.set(type, (totals.get(type) ?? 0) + value);
+      }
+    }
+    return totals;
+  }
+
   serialize(): PrestigeMapSerialized {
     return {
+      version: PrestigeMap.SERIALIZATION_VERSION,
       grid: this.grid.serialize(),
       bonuses: [...this.bonuses.entries()],
       cities: [...this.cities.values()].map(c => c.serialize()),
-      roads: [...this.roads].map(r => {
-        // roads stored by Edge.hashCode; we cannot recover serialized form from hash,
-        // so store as empty array for compatibility if needed. Prefer storing serialized edges in controller.
-        return [[0,0],[0,0]] as ReturnType<Edge['serialize']>;
-      })
+      roads: [...this.roads.values()].map(edge => edge.serialize()),
     };
   }
 
@@ -40,15 +86,17 @@ export class PrestigeMap {
       const city = PrestigeCity.deserialize(c);
       cities.set(city.vertex.hashCode(), city);
     }
-    const roads = new Set<string>();
-    // We cannot reconstruct edge hashCodes reliably from serialized edges without HexCoord instances;
-    // attempt to create Edge and add its hashCode when possible.
-    for (const e of data.roads) {
+    const roads = new Map<string, Edge>();
+    const version = data.version ?? 1;
+    // Version 1 : toutes les routes ont été écrites comme des placeholders [[0,0],[0,0]].
+    // Elles ne sont pas récupérables, on les abandonne.
+    const serializedRoads = version < 2 ? [] : (data.roads ?? []);
+    for (const serializedEdge of serializedRoads) {
       try {
-        const edge = Edge.deserialize(e as any);
-        roads.add(edge.hashCode());
+        const edge = Edge.deserialize(serializedEdge);
+        roads.set(edge.hashCode(), edge);
       } catch (e) {
-        // ignore
+        // Arête invalide (hexagones non adjacents) : on l'ignore sans perdre le reste de la carte
       }
     }
     return new PrestigeMap(grid, bonuses, cities, roads);
@@ -0,0 +1,84 @@
+import { ResourceType } from '../map/ResourceType';
+import { PrestigeMap } from './PrestigeMap';
+import { PrestigeBonusType } from './types';
+
+/**
+ * Modificateurs de jeu issus de la carte Prestige.
+ *
+ * Bonus Prestige appliqués à la partie en cours (via GameModifiers) :
+ * - Production : chaque point accélère la production des bâtiments de 10%
+ * - CivilizationPoint : points de civilisation ajoutés au total calculé
+ * - CostReduction : fraction retirée des coûts de construction (plafonnée)
+ *
+ * Les modificateurs sont dérivés du PrestigeMap et ne sont pas sérialisés.
+ */
+export class PrestigeModifiers {
+  /** Modificateurs neutres (aucun bonus). */
+  static readonly NONE = new PrestigeModifiers(0, 0, 0);
+
+  /** Gain de vitesse de production par point de bonus Production. */
+  private static readonly PRODUCTION_SPEED_PER_POINT = 0.1;
+
+  /** Réduction de coût maximale applicable. */
+  private static readonly MAX_COST_REDUCTION = 0.75;
+
+  constructor(
+    /** Somme des bonus Production */
+    public readonly productionBonus: number,
+    /** Somme des bonus CivilizationPoint */
+    public readonly civilizationPointBonus: number,
+    /** Somme des bonus CostReduction (fraction, ex: 0.1 = -10%) */
+    public readonly costReduction: number
+  ) {}
+
+  /**
+   * Construit les modificateurs à partir des bonus de toutes les villes du PrestigeMap.
+   * @param prestigeMap - La carte Prestige (ou undefined si absente)
+   */
+  static fromPrestigeMap(prestigeMap: PrestigeMap | undefined): PrestigeModifiers {
+    if (!prestigeMap) {
+      return PrestigeModifiers.NONE;
+    }
+    const totals = prestigeMap.getTotalBonuses();
+    return new PrestigeModifiers(
+      totals.get(PrestigeBonusType.Production) ?? 0,
+      totals.get(PrestigeBonusType.CivilizationPoint) ?? 0,
+      totals.get(PrestigeBonusType.CostReduction) ?? 0
+    );
+  }
+
+  /**
+   * Applique la réduction de coût. Chaque montant est arrondi à l'entier supérieur
+   * pour qu'un coût non nul ne devienne jamais gratuit.
+   * @param cost - Le coût de base
+   * @param extraReduction - Réduction supplémentaire (ex: recherches), cumulée sous le même plafond
+   * @returns Un nouveau coût réduit
+   */
+  applyToCost(cost: Map<ResourceType, number>, extraReduction: number = 0): Map<ResourceType, number> {
+    const reduction = Math.min(Math.max(this.costReduction, 0) + extraReduction, PrestigeModifiers.MAX_COST_REDUCTION);
+    const reduced = new Map<ResourceType, number>();
+    for (const [resourceType, amount] of cost.entries()) {
+      reduced.set(resourceType, Math.ceil(amount * (1 - reduction)));
+    }
+    return reduced;
+  }
+
+  /**
+   * Applique le bonus de production à un intervalle de production.
+   * @param intervalSeconds - L'intervalle de base (en secondes)
+   * @returns L'intervalle accéléré (en secondes)
+   */
+  applyToProductionInterval(intervalSeconds: number): number {
+    const speed = 1 + Math.max(this.productionBonus, 0) * PrestigeModifiers.PRODUCTION_SPEED_PER_POINT;
+    return intervalSeconds / speed;
+  }
+
+  /**
+   * Applique le bonus de points de civilisation.
+   * @param points - Les points de civilisation de base
+   * @returns Les points avec bonus
+   */
+  applyToCivilizationPoints(points: number): number {
+    return points + this.civilizationPointBonus;
+  }
+}
@@ -0,0 +1,95 @@
+import { ResearchTree } from './ResearchTree';
+import { localize } from '../../i18n';
+
+/**
+ * Format sérialisé de l'état de la recherche.
+ */
+export interface ResearchStateSerialized {
+  knowledge: number;
+  unlocked: string[];
+}
+
+/**
+ * État de la recherche d'une civilisation : connaissance accumulée et nœuds débloqués.
+ * Modèle pur : la production de connaissance, les coûts et les effets sont gérés
+ * par ResearchController et GameModifiers.
+ */
+export class ResearchState {
+  private knowledge: number = 0;
+  private readonly unlocked: Set<string> = new Set();
+
+  /** Retourne la connaissance disponible. */
+  getKnowledge(): number {
+    return this.knowledge;
+  }
+
+  /**
+   * Ajoute de la connaissance.
+   * @param amount - La quantité à ajouter
+   */
+  addKnowledge(amount: number): void {
+    this.knowledge += amount;
+  }
+
+  /**
+   * Retire de la connaissance.
+   * @param amount - La quantité à retirer
+   * @throws Error si la connaissance disponible est insuffisante
+   */
+  spendKnowledge(amount: number): void {
+    if (amount > this.knowledge) {
+      throw new Error(localize('research.error.notEnoughKnowledge', {
+        current: String(this.knowledge),
+        required: String(amount),
+      }));
+    }
+    this.knowledge -= amount;
+  }
+
+  /**
+   * Vérifie si un nœud de recherche est débloqué.
+   * @param nodeId - L'identifiant du nœud
+   */
+  isUnlocked(nodeId: string): boolean {
+    return this.unlocked.has(nodeId);
+  }
+
+  /**
+   * Marque un nœud de recherche comme débloqué.
+   * @param nodeId - L'identifiant du nœud
+   */
+  unlock(nodeId: string): void {
+    this.unlocked.add(nodeId);
+  }
+
+  /** Retourne les identifiants des nœuds débloqués, dans l'ordre de déblocage. */
+  getUnlocked(): string[] {
+    return [...this.unlocked];
+  }
+
+  serialize(): ResearchStateSerialized {
+    return {
+      knowledge: this.knowledge,
+      unlocked: this.getUnlocked(),
+    };
+  }
+
+  static deserialize(data: ResearchStateSerialized | undefined): ResearchState {
+    const research = new ResearchState();
+    if (!data) {
+      return research;
+    }
+    if (typeof data.knowledge === 'number' && Number.isFinite(data.knowledge) && data.knowledge > 0) {
+      research.knowledge = data.knowledge;
+    }
+    if (Array.isArray(data.unlocked)) {
+      for (const nodeId of data.unlocked) {
+        // Ignorer les nœuds inconnus (ex: retirés de l'arbre)
+        if (typeof nodeId === 'string' && ResearchTree.has(nodeId)) {
+          research.unlocked.add(nodeId);
+        }
+      }
+    }
+    return research;
+  }
+}
@@ -0,0 +1,176 @@
+import { ResearchEffectType, ResearchEffects, NO_RESEARCH_EFFECTS } from './types';
+import { localize } from '../../i18n';
+import researchData from './research.json';
+
+/**
+ * Nœud de l'arbre de recherche, issu du fichier de données `research.json`.
+ */
+export interface ResearchNodeDefinition {
+  id: string;
+  /** Coût en connaissance */
+  cost: number;
+  /** Nœuds à débloquer avant celui-ci */
+  requires: string[];
+  /** Effet débloqué */
+  effect: {
+    type: ResearchEffectType;
+    value: number;
+  };
+  /** Clé de traduction du nom */
+  nameKey: string;
+  /** Clé de traduction de la description */
+  descriptionKey: string;
+}
+
+/**
+ * Arbre de recherche du jeu.
+ *
+ * Comme pour BuildingRegistry, les nœuds sont chargés et validés à la première utilisation,
+ * et `load()` permet de remplacer les données pour rééquilibrer l'arbre.
+ * Un nœud ne peut dépendre que de nœuds définis avant lui, ce qui exclut les cycles.
+ */
+export class ResearchTree {
+  private static nodes: Map<string, ResearchNodeDefinition> | null = null;
+
+  /**
+   * Retourne la définition d'un nœud.
+   * @param nodeId - L'identifiant du nœud
+   * @throws Error si le nœud n'est pas défini
+   */
+  static get(nodeId: string): ResearchNodeDefinition {
+    const node = this.getNodes().get(nodeId);
+    if (!node) {
+      throw new Error(localize('error.research.unknownNode', { node: nodeId }));
+    }
+    return node;
+  }
+
+  /**
+   * Vérifie si un nœud est défini.
+   * @param nodeId - L'identifiant du nœud
+   */
+  static has(nodeId: string): boolean {
+    return this.getNodes().has(nodeId);
+  }
+
+  /**
+   * Retourne tous les nœuds, dans l'ordre du fichier de données (les prérequis d'abord).
+   */
+  static getAll(): ResearchNodeDefinition[] {
+    return [...this.getNodes().values()];
+  }
+
+  /**
+   * Remplace l'arbre par des données validées.
+   * @param data - Les données brutes (même format que `research.json`)
+   * @throws Error indiquant le chemin du champ invalide
+   */
+  static load(data: unknown): void {
+    this.nodes = parseResearchTree(data);
+  }
+
+  /**
+   * Revient à l'arbre par défaut du jeu.
+   */
+  static reset(): void {
+    this.nodes = null;
+  }
+
+  private static getNodes(): Map<string, ResearchNodeDefinition> {
+    if (!this.nodes) {
+      this.nodes = parseResearchTree(researchData);
+    }
+    return this.nodes;
+  }
+}
+
+/**
+ * Cumule les effets d'un ensemble de nœuds débloqués.
+ * Les nœuds absents de l'arbre sont ignorés.
+ * @param unlockedIds - Les identifiants des nœuds débloqués
+ */
+export function computeResearchEffects(unlockedIds: Iterable<string>): ResearchEffects {
+  const effects: ResearchEffects = { ...NO_RESEARCH_EFFECTS };
+  for (const nodeId of unlockedIds) {
+    if (!ResearchTree.has(nodeId)) {
+      continue;
+    }
+    const { type, value } = ResearchTree.get(nodeId).effect;
+    effects[type] += value;
+  }
+  return effects;
+}
+
+/**
+ * Valide et convertit les données brutes de l'arbre de recherche.
+ * @param data - Les données brutes
+ * @returns Les nœuds, indexés par identifiant
+ * @throws Error indiquant le chemin du champ invalide
+ */
+export function parseResearchTree(data: unknown): Map<string, ResearchNodeDefinition> {
+  const root = expectObject(data, 'research');
+  const nodes = new Map<string, ResearchNodeDefinition>();
+  for (const [id, value] of Object.entries(root)) {
+    const raw = expectObject(value, id);
+
+    const cost = expectNumber(raw.cost, `${id}.cost`);
+    if (cost < 0) {
+      throw invalid(`${id}.cost`, '>= 0');
+    }
+
+    if (!Array.isArray(raw.requires)) {
+      throw invalid(`${id}.requires`, 'array');
+    }
+    const requires = raw.requires.map((required: unknown, i: number) => {
+      const requiredId = expectString(required, `${id}.requires[${i}]`);
+      // Les prérequis doivent être définis plus haut dans le fichier
+      if (!nodes.has(requiredId)) {
+        throw new Error(localize('error.research.unknownNode', { node: `${id}.requires[${i}] = ${requiredId}` }));
+      }
+      return requiredId;
+    });
+
+    const effect = expectObject(raw.effect, `${id}.effect`);
+    const effectTypes = Object.values(ResearchEffectType) as string[];
+    if (typeof effect.type !== 'string' || !effectTypes.includes(effect.type)) {
+      throw invalid(`${id}.effect.type`, effectTypes.join(' | '));
+    }
+
+    nodes.set(id, {
+      id,
+      cost,
+      requires,
+      effect: { type: effect.type as ResearchEffectType, value: expectNumber(effect.value, `${id}.effect.value`) },
+      nameKey: expectString(raw.nameKey, `${id}.nameKey`),
+      descriptionKey: expectString(raw.descriptionKey, `${id}.descriptionKey`),
+    });
+  }
+  return nodes;
+}
+
+// ——— Vérifications élémentaires ———
+
+function invalid(path: string, expected: string): Error {
+  return new Error(localize('error.research.invalidField', { path, expected }));
+}
+
+function expectObject(value: unknown, path: string): Record<string, any> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw invalid(path, 'object');
+  }
+  return value as Record<string, any>;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw invalid(path, 'number');
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw invalid(path, 'string');
+  }
+  return value;
+}
@@ -0,0 +1,28 @@
+/**
+ * Effets que peut débloquer un nœud de l'arbre de recherche.
+ */
+export enum ResearchEffectType {
+  /** Réduction du coût des routes (fraction, ex: 0.2 = -20%) */
+  RoadCostReduction = 'RoadCostReduction',
+  /** Emplacements de bâtiment supplémentaires dans chaque ville */
+  ExtraBuildingSlot = 'ExtraBuildingSlot',
+  /** Réduction du délai entre deux récoltes manuelles (fraction) */
+  HarvestIntervalReduction = 'HarvestIntervalReduction',
+  /** Ressources en moins à donner lors d'un échange */
+  TradeRateReduction = 'TradeRateReduction',
+}
+
+/**
+ * Effets cumulés des recherches débloquées, appliqués par GameModifiers.
+ */
+export type ResearchEffects = Record<ResearchEffectType, number>;
+
+/**
+ * Effets neutres (aucune recherche).
+ */
+export const NO_RESEARCH_EFFECTS: Readonly<ResearchEffects> = {
+  [ResearchEffectType.RoadCostReduction]: 0,
+  [ResearchEffectType.ExtraBuildingSlot]: 0,
+  [ResearchEffectType.HarvestIntervalReduction]: 0,
+  [ResearchEffectType.TradeRateReduction]: 0,
+};
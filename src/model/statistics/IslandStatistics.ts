@@ -0,0 +1,202 @@
+import { ResourceType } from '../map/ResourceType';
+import { CityLevel } from '../city/CityLevel';
+import { IncomeSource, IncomeTable, StatisticCounter, StatisticsSample } from './types';
+
+/**
+ * Format sérialisé des statistiques d'une île.
+ */
+export interface IslandStatisticsSerialized {
+  sampleStart: number | null;
+  current: IncomeTable;
+  samples: StatisticsSample[];
+  counters: Record<string, number>;
+  /** Temps de jeu auquel une ville du joueur a atteint chaque niveau (clé : CityLevel) */
+  cityLevelTimes: Record<string, number>;
+}
+
+/**
+ * Statistiques d'une île : revenus par origine, historique glissant des échantillons,
+ * compteurs cumulés et temps d'atteinte de chaque niveau de ville.
+ * Modèle pur : l'enregistrement et l'échantillonnage sont gérés par StatisticsController.
+ * Les temps sont exprimés en temps de jeu (GameClock).
+ */
+export class IslandStatistics {
+  /** Nombre maximal d'échantillons conservés (les plus anciens sont oubliés). */
+  static readonly MAX_SAMPLES = 60;
+
+  /** Début de l'échantillon en cours (null tant que l'échantillonnage n'a pas démarré). */
+  private sampleStart: number | null = null;
+  /** Revenus reçus depuis le début de l'échantillon en cours. */
+  private current: IncomeTable = {};
+  private samples: StatisticsSample[] = [];
+  private readonly counters: Map<StatisticCounter, number> = new Map();
+  private readonly cityLevelTimes: Map<CityLevel, number> = new Map();
+
+  /**
+   * Ajoute des ressources reçues à l'échantillon en cours.
+   * @param source - L'origine des ressources
+   * @param resourceType - La ressource reçue
+   * @param amount - La quantité reçue (ignorée si nulle ou négative)
+   */
+  addIncome(source: IncomeSource, resourceType: ResourceType, amount: number): void {
+    if (amount <= 0) {
+      return;
+    }
+    const bySource = this.current[source] ?? (this.current[source] = {});
+    bySource[resourceType] = (bySource[resourceType] ?? 0) + amount;
+  }
+
+  /** Revenus reçus depuis le début de l'échantillon en cours. */
+  getCurrentIncome(): IncomeTable {
+    return this.current;
+  }
+
+  /** Début de l'échantillon en cours, ou null si l'échantillonnage n'a pas démarré. */
+  getSampleStart(): number | null {
+    return this.sampleStart;
+  }
+
+  /**
+   * Démarre l'échantillonnage au temps donné (sans effet s'il a déjà démarré).
+   * @param time - Le temps de jeu actuel (en secondes)
+   */
+  startSampling(time: number): void {
+    if (this.sampleStart === null) {
+      this.sampleStart = time;
+    }
+  }
+
+  /**
+   * Termine l'échantillon en cours, l'ajoute à l'historique et en démarre un nouveau.
+   * @param endTime - Le temps de jeu de fin (en secondes)
+   * @param stock - Le stock du joueur à la fin de l'échantillon
+   * @param nextStart - Le début du nouvel échantillon (endTime par défaut)
+   * @returns L'échantillon ajouté
+   */
+  closeSample(endTime: number, stock: Map<ResourceType, number>, nextStart: number = endTime): StatisticsSample {
+    const sample: StatisticsSample = {
+      startTime: this.sampleStart ?? endTime,
+      endTime,
+      income: this.current,
+      stock: Object.fromEntries(stock),
+    };
+    this.samples.push(sample);
+    if (this.samples.length > IslandStatistics.MAX_SAMPLES) {
+      this.samples.splice(0, this.samples.length - IslandStatistics.MAX_SAMPLES);
+    }
+    this.current = {};
+    this.sampleStart = nextStart;
+    return sample;
+  }
+
+  /** Historique des échantillons, du plus ancien au plus récent. */
+  getSamples(): readonly StatisticsSample[] {
+    return this.samples;
+  }
+
+  /**
+   * Incrémente un compteur.
+   * @param counter - Le compteur
+   * @param amount - La valeur à ajouter (1 par défaut)
+   */
+  increment(counter: StatisticCounter, amount: number = 1): void {
+    this.counters.set(counter, this.getCounter(counter) + amount);
+  }
+
+  /** Valeur d'un compteur. */
+  getCounter(counter: StatisticCounter): number {
+    return this.counters.get(counter) ?? 0;
+  }
+
+  /**
+   * Enregistre le temps auquel un niveau de ville est atteint pour la première fois.
+   * @param level - Le niveau de ville
+   * @param time - Le temps de jeu actuel (en secondes)
+   * @returns true si le niveau n'avait pas encore été atteint
+   */
+  recordCityLevel(level: CityLevel, time: number): boolean {
+    if (this.cityLevelTimes.has(level)) {
+      return false;
+    }
+    this.cityLevelTimes.set(level, time);
+    return true;
+  }
+
+  /** Temps de jeu auquel un niveau de ville a été atteint, ou undefined s'il ne l'a pas été. */
+  getCityLevelTime(level: CityLevel): number | undefined {
+    return this.cityLevelTimes.get(level);
+  }
+
+  serialize(): IslandStatisticsSerialized {
+    return {
+      sampleStart: this.sampleStart,
+      current: this.current,
+      samples: this.samples,
+      counters: Object.fromEntries(this.counters),
+      cityLevelTimes: Object.fromEntries(this.cityLevelTimes),
+    };
+  }
+
+  static deserialize(data: IslandStatisticsSerialized | undefined): IslandStatistics {
+    const statistics = new IslandStatistics();
+    if (!data) {
+      return statistics;
+    }
+    if (this.isNonNegative(data.sampleStart)) {
+      statistics.sampleStart = data.sampleStart;
+    }
+    statistics.current = this.deserializeIncome(data.current);
+    if (Array.isArray(data.samples)) {
+      statistics.samples = data.samples
+        .filter(sample => this.isNonNegative(sample?.startTime) && this.isNonNegative(sample.endTime))
+        .slice(-IslandStatistics.MAX_SAMPLES)
+        .map(sample => ({
+          startTime: sample.startTime,
+          endTime: sample.endTime,
+          income: this.deserializeIncome(sample.income),
+          stock: this.deserializeAmounts(sample.stock),
+        }));
+    }
+    for (const counter of Object.values(StatisticCounter)) {
+      const value = data.counters?.[counter];
+      if (this.isNonNegative(value)) {
+        statistics.counters.set(counter, value);
+      }
+    }
+    for (const [level, time] of Object.entries(data.cityLevelTimes ?? {})) {
+      // Ignorer les niveaux inconnus
+      if (CityLevel[Number(level)] !== undefined && this.isNonNegative(time)) {
+        statistics.cityLevelTimes.set(Number(level) as CityLevel, time);
+      }
+    }
+    return statistics;
+  }
+
+  /** Nombre fini et positif ou nul (temps de jeu, quantité ou compteur). */
+  private static isNonNegative(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  }
+
+  /** Ne conserve que les ressources connues et les quantités valides. */
+  private static deserializeAmounts(data: Partial<Record<string, number>> | undefined): Partial<Record<ResourceType, number>> {
+    const amounts: Partial<Record<ResourceType, number>> = {};
+    for (const resourceType of Object.values(ResourceType)) {
+      const value = data?.[resourceType];
+      if (this.isNonNegative(value)) {
+        amounts[resourceType] = value;
+      }
+    }
+    return amounts;
+  }
+
+  /** Ne conserve que les origines connues. */
+  private static deserializeIncome(data: IncomeTable | undefined): IncomeTable {
+    const income: IncomeTable = {};
+    for (const source of Object.values(IncomeSource)) {
+      if (data?.[source]) {
+        income[source] = this.deserializeAmounts(data[source]);
+      }
+    }
+    return income;
+  }
+}
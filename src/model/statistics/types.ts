@@ -0,0 +1,47 @@
+import { ResourceType } from '../map/ResourceType';
+
+/**
+ * Origine des ressources reçues par le joueur.
+ */
+export enum IncomeSource {
+  /** Récolte manuelle d'un hexagone */
+  ManualHarvest = 'ManualHarvest',
+  /** Production automatique des bâtiments de ressources (et de la Forge) */
+  Building = 'Building',
+  /** Production aléatoire du marché niveau 2 */
+  Market = 'Market',
+  /** Ressource reçue par le commerce automatique d'un port */
+  AutoTrade = 'AutoTrade',
+}
+
+/**
+ * Compteurs cumulés depuis le début de l'île.
+ * Les routes, villes et bâtiments se comptent directement sur la carte.
+ */
+export enum StatisticCounter {
+  /** Échanges manuels (panneau de commerce et marchand itinérant) */
+  TradesMade = 'TradesMade',
+  AutoTrades = 'AutoTrades',
+  ManualHarvests = 'ManualHarvests',
+  /** Chantiers achevés (constructions et améliorations) */
+  ConstructionsCompleted = 'ConstructionsCompleted',
+}
+
+/**
+ * Ressources reçues par origine.
+ */
+export type IncomeTable = Partial<Record<IncomeSource, Partial<Record<ResourceType, number>>>>;
+
+/**
+ * Échantillon de l'historique : revenus reçus pendant l'intervalle et stock à sa fin.
+ */
+export interface StatisticsSample {
+  /** Temps de jeu de début de l'intervalle (en secondes) */
+  readonly startTime: number;
+  /** Temps de jeu de fin de l'intervalle (en secondes) */
+  readonly endTime: number;
+  readonly income: IncomeTable;
+  /** Stock de PlayerResources à la fin de l'intervalle */
+  readonly stock: Partial<Record<ResourceType, number>>;
+}
+
@@ -0,0 +1,204 @@
+import { MainGame } from '../application/MainGame';
+import { SimulationEngine } from '../application/SimulationEngine';
+import { CityLevel } from '../model/city/CityLevel';
+import { ResourceType } from '../model/map/ResourceType';
+import { GameCoordinator } from '../controller/GameCoordinator';
+import { PrestigeController } from '../controller/PrestigeController';
+import { HexMapRenderer } from '../view/HexMapRenderer';
+import { localize } from '../i18n';
+import { SIMULATION_STRATEGIES, SimulationStrategy } from './SimulationStrategy';
+
+/**
+ * Options d'une simulation sans interface.
+ */
+export interface HeadlessSimulationOptions {
+  /** Seed de l'île générée (ignorée si `save` est fourni) */
+  seed?: number;
+  /** Sauvegarde sérialisée (JSON d'un PlayerSave) servant de point de départ */
+  save?: string;
+  /** Stratégie de jeu. Par défaut: 'greedy'. */
+  strategy?: SimulationStrategy;
+  /** Durée simulée (en heures de jeu). Par défaut: 1. */
+  hours?: number;
+  /**
+   * Pas de simulation (en secondes, multiple de 0.1). Par défaut: 0.5.
+   * La stratégie, les rivaux et les automatisations agissent au plus une fois par pas.
+   */
+  tickSeconds?: number;
+  /** Intervalle entre deux échantillons de la timeline (en secondes). Par défaut: 60. */
+  sampleIntervalSeconds?: number;
+}
+
+/**
+ * Échantillon de la timeline de simulation.
+ */
+export interface SimulationSample {
+  /** Temps de jeu écoulé depuis le début de la simulation (en secondes) */
+  timeSeconds: number;
+  /** Quantité de chaque ressource */
+  resources: Record<ResourceType, number>;
+  civilizationPoints: number;
+  /** Nombre de villes par niveau (index = CityLevel) */
+  citiesByLevel: number[];
+  /** Nombre total de bâtiments */
+  buildingCount: number;
+  /** Nombre de chantiers en cours */
+  constructionSites: number;
+}
+
+/**
+ * Résultat d'une simulation sans interface.
+ */
+export interface SimulationResult {
+  strategy: string;
+  seed: number | null;
+  tickSeconds: number;
+  simulatedSeconds: number;
+  /** Temps (en secondes) pour obtenir une première capitale, ou null si non atteint */
+  timeToCapitalSeconds: number | null;
+  /** Temps (en secondes) pour pouvoir activer le Prestige, ou null si non atteint */
+  timeToPrestigeSeconds: number | null;
+  timeline: SimulationSample[];
+}
+
+/**
+ * Simulation sans interface pour l'équilibrage.
+ *
+ * Fait tourner une partie à pas fixe avec le SimulationEngine de la boucle de jeu, sans rendu ni sauvegarde,
+ * puis fait jouer la stratégie après chaque pas. La simulation (production, chantiers, rivaux, recherche,
+ * foi, fouilles, événements, statistiques, succès et automatisations) est donc celle du jeu :
+ * les résultats reflètent l'équilibrage réel.
+ */
+export class HeadlessSimulator {
+  static readonly DEFAULT_TICK_SECONDS = 0.5;
+  static readonly DEFAULT_SAMPLE_INTERVAL_SECONDS = 60;
+
+  /**
+   * Exécute une simulation.
+   * @param options - Options de la simulation
+   * @returns La timeline et les jalons atteints
+   * @throws Error si la sauvegarde fournie ne peut pas être chargée ou si les options sont invalides
+   */
+  static run(options: HeadlessSimulationOptions = {}): SimulationResult {
+    const tickSeconds = options.tickSeconds ?? this.DEFAULT_TICK_SECONDS;
+    const sampleInterval = options.sampleIntervalSeconds ?? this.DEFAULT_SAMPLE_INTERVAL_SECONDS;
+    const totalSeconds = (options.hours ?? 1) * 3600;
+    const ticksPerStep = tickSeconds * SimulationEngine.TICKS_PER_SECOND;
+    if (!(tickSeconds > 0) || Math.abs(ticksPerStep - Math.round(ticksPerStep)) > 1e-9
+      || !(sampleInterval > 0) || !(totalSeconds >= 0)) {
+      throw new Error(localize('simulation.error.invalidOptions'));
+    }
+    const strategy = options.strategy ?? SIMULATION_STRATEGIES.greedy();
+
+    const game = new MainGame();
+    if (options.save !== undefined) {
+      if (!game.loadGame(options.save)) {
+        throw new Error(localize('simulation.error.loadFailed'));
+      }
+    } else {
+      game.newGame(options.seed);
+    }
+    const civState = game.getController().getCivilizationState();
+    const islandState = game.getIslandState();
+    const map = islandState.getIslandMap()!;
+    const civId = game.getPlayerCivilizationId();
+    // Le renderer n'est pas utilisé par les actions du coordinateur
+    const coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+    const engine = new SimulationEngine(game, coordinator, { tickSeconds, maxCatchUpTicks: null });
+
+    const timeline: SimulationSample[] = [];
+    let timeToCapitalSeconds: number | null = null;
+    let timeToPrestigeSeconds: number | null = null;
+    let nextSampleTime = 0;
+
+    let elapsed = 0;
+    while (true) {
+      civState.updateCivilizationPoints();
+      if (timeToCapitalSeconds === null
+        && map.getCitiesByCivilization(civId).some(city => city.level === CityLevel.Capital)) {
+        timeToCapitalSeconds = elapsed;
+      }
+      // Les modificateurs évoluent avec la recherche et les bénédictions
+      const modifiers = game.getGameModifiers();
+      if (timeToPrestigeSeconds === null && PrestigeController.canActivatePrestige(civId, map, modifiers)) {
+        timeToPrestigeSeconds = elapsed;
+      }
+      if (elapsed >= nextSampleTime || elapsed >= totalSeconds) {
+        timeline.push(this.takeSample(game, elapsed));
+        nextSampleTime += sampleInterval;
+      }
+      if (elapsed >= totalSeconds) {
+        break;
+      }
+
+      engine.advance(tickSeconds);
+      elapsed = Math.min(elapsed + tickSeconds, totalSeconds);
+      strategy.onTick({ game, islandState, map, civId, modifiers: game.getGameModifiers(), timeSeconds: elapsed });
+    }
+
+    return {
+      strategy: strategy.name,
+      seed: game.getSeed(),
+      tickSeconds,
+      simulatedSeconds: totalSeconds,
+      timeToCapitalSeconds,
+      timeToPrestigeSeconds,
+      timeline,
+    };
+  }
+
+  /**
+   * Convertit une timeline en CSV (une ligne par échantillon).
+   * @param timeline - Les échantillons de la simulation
+   * @returns Le contenu CSV, avec une ligne d'en-tête
+   */
+  static toCsv(timeline: SimulationSample[]): string {
+    const resourceTypes = Object.values(ResourceType);
+    const cityLevels = Object.values(CityLevel).filter((level): level is CityLevel => typeof level === 'number');
+    const header = [
+      'timeSeconds',
+      ...resourceTypes,
+      'civilizationPoints',
+      ...cityLevels.map(level => `cities_${CityLevel[level]}`),
+      'buildingCount',
+      'constructionSites',
+    ];
+
+    const rows = timeline.map(sample => [
+      sample.timeSeconds,
+      ...resourceTypes.map(resourceType => sample.resources[resourceType]),
+      sample.civilizationPoints,
+      ...cityLevels.map(level => sample.citiesByLevel[level]),
+      sample.buildingCount,
+      sample.constructionSites,
+    ].join(','));
+
+    return [header.join(','), ...rows].join('\n') + '\n';
+  }
+
+  private static takeSample(game: MainGame, timeSeconds: number): SimulationSample {
+    const map = game.getIslandMap()!;
+    const cities = map.getCitiesByCivilization(game.getPlayerCivilizationId());
+
+    const resources = {} as Record<ResourceType, number>;
+    for (const resourceType of Object.values(ResourceType)) {
+      resources[resourceType] = game.getPlayerResources().getResource(resourceType);
+    }
+
+    const citiesByLevel = new Array<number>(CityLevel.Capital + 1).fill(0);
+    let buildingCount = 0;
+    for (const city of cities) {
+      citiesByLevel[city.level]++;
+      buildingCount += city.getBuildingCount();
+    }
+
+    return {
+      timeSeconds,
+      resources,
+      civilizationPoints: game.getController().getCivilizationState().getCivilizationPoints(),
+      citiesByLevel,
+      buildingCount,
+      constructionSites: game.getIslandState().getConstructionQueue().getSites().length,
+    };
+  }
+}
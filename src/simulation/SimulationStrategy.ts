@@ -0,0 +1,270 @@
+import { MainGame } from '../application/MainGame';
+import { IslandState } from '../model/game/IslandState';
+import { IslandMap } from '../model/map/IslandMap';
+import { CivilizationId } from '../model/map/CivilizationId';
+import { BuildingType, getResourceProductionBuildings } from '../model/city/BuildingType';
+import { City } from '../model/city/City';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { RoadConstruction } from '../model/game/RoadConstruction';
+import { ConstructionKind } from '../model/game/ConstructionQueue';
+import { CityLevel } from '../model/city/CityLevel';
+import { ResourceType, BASIC_RESOURCES } from '../model/map/ResourceType';
+import { Edge } from '../model/hex/Edge';
+import { ResourceHarvestController } from '../controller/ResourceHarvestController';
+import { ConstructionController } from '../controller/ConstructionController';
+import { BuildingController } from '../controller/BuildingController';
+import { TradeController } from '../controller/TradeController';
+
+/**
+ * Contexte fourni à une stratégie à chaque tick de simulation.
+ */
+export interface SimulationContext {
+  game: MainGame;
+  islandState: IslandState;
+  map: IslandMap;
+  civId: CivilizationId;
+  modifiers: GameModifiers;
+  /** Temps de jeu courant (en secondes) */
+  timeSeconds: number;
+}
+
+/**
+ * Stratégie de jeu pilotant la simulation sans interface.
+ * Une stratégie joue les actions d'un joueur (récolte, constructions) ; la production
+ * automatique et l'achèvement des chantiers sont gérés par le simulateur.
+ */
+export interface SimulationStrategy {
+  /** Nom de la stratégie (reporté dans la timeline) */
+  readonly name: string;
+  /** Appelé à chaque tick, après la production et l'achèvement des chantiers. */
+  onTick(context: SimulationContext): void;
+}
+
+/**
+ * Stratégie passive : ne fait rien, seule la production automatique progresse.
+ * Sert de référence pour mesurer l'apport d'une stratégie active.
+ */
+export class IdleStrategy implements SimulationStrategy {
+  readonly name = 'idle';
+
+  onTick(): void {
+    // Aucune action
+  }
+}
+
+/**
+ * Objectif de construction envisagé par la stratégie gloutonne.
+ */
+interface ConstructionGoal {
+  /** Coût du chantier (après modificateurs de jeu) */
+  cost: Map<ResourceType, number>;
+  /** Démarre le chantier (lève une erreur si impossible) */
+  start: () => unknown;
+}
+
+/**
+ * Stratégie gloutonne : récolte tous les hexagones disponibles puis parcourt les objectifs
+ * par priorité (marché, hôtels de ville, bâtiments de production, avant-poste, améliorations
+ * de production, route la moins chère). Les objectifs abordables sont mis en chantier ;
+ * au premier objectif trop cher, la stratégie commerce vers son coût et économise.
+ */
+export class GreedyStrategy implements SimulationStrategy {
+  readonly name = 'greedy';
+
+  onTick(context: SimulationContext): void {
+    this.harvest(context);
+
+    const resources = context.islandState.getPlayerResources();
+    for (const goal of this.listGoals(context)) {
+      if (!resources.canAfford(goal.cost)) {
+        this.tradeTowards(goal.cost, context);
+        if (!resources.canAfford(goal.cost)) {
+          return;
+        }
+      }
+      try {
+        goal.start();
+      } catch (e) {
+        // Objectif devenu impossible : passer au suivant
+      }
+    }
+  }
+
+  private harvest(context: SimulationContext): void {
+    const { map, civId, islandState, game, modifiers } = context;
+    const resourceMultiplier = islandState.getCivilization(civId).getResourceGainMultiplier();
+    const harvested = new Set<string>();
+    for (const city of map.getCitiesByCivilization(civId)) {
+      for (const hexCoord of city.vertex.getHexes()) {
+        // Un hexagone partagé par plusieurs villes n'est récolté qu'une fois (cooldown)
+        if (harvested.has(hexCoord.hashCode())) {
+          continue;
+        }
+        harvested.add(hexCoord.hashCode());
+        ResourceHarvestController.harvest(hexCoord, civId, map, islandState.getPlayerResources(), {
+          gameClock: game.getGameClock(),
+          resourceMultiplier,
+          modifiers,
+        });
+      }
+    }
+  }
+
+  /**
+   * Liste les objectifs réalisables (hors ressources), par ordre de priorité.
+   */
+  private listGoals(context: SimulationContext): ConstructionGoal[] {
+    const { map, civId, modifiers } = context;
+    const cities = map.getCitiesByCivilization(civId);
+    const productionBuildings = getResourceProductionBuildings();
+
+    const goals: ConstructionGoal[] = [];
+    if (!TradeController.canTrade(civId, map, modifiers)) {
+      const marketGoal = cities
+        .map(city => this.buildGoal(BuildingType.Market, city, context))
+        .find(goal => goal !== null);
+      if (marketGoal) {
+        goals.push(marketGoal);
+      }
+    }
+    for (const city of cities) {
+      this.pushGoal(goals, city.hasBuilding(BuildingType.TownHall)
+        ? this.upgradeGoal(BuildingType.TownHall, city, context)
+        : this.buildGoal(BuildingType.TownHall, city, context));
+    }
+    for (const city of cities) {
+      for (const buildingType of productionBuildings) {
+        this.pushGoal(goals, this.buildGoal(buildingType, city, context));
+      }
+    }
+    const outpostGoal = this.outpostGoal(context);
+    this.pushGoal(goals, outpostGoal);
+    for (const city of cities) {
+      for (const buildingType of productionBuildings) {
+        this.pushGoal(goals, this.upgradeGoal(buildingType, city, context));
+      }
+    }
+    // Les routes ne servent qu'à atteindre de nouveaux emplacements d'avant-poste
+    if (!outpostGoal) {
+      this.pushGoal(goals, this.roadGoal(context));
+    }
+    return goals;
+  }
+
+  private pushGoal(goals: ConstructionGoal[], goal: ConstructionGoal | null): void {
+    if (goal) {
+      goals.push(goal);
+    }
+  }
+
+  private buildGoal(buildingType: BuildingType, city: City, context: SimulationContext): ConstructionGoal | null {
+    const { map, islandState, modifiers } = context;
+    const queue = islandState.getConstructionQueue();
+    const extraSlots = modifiers.getExtraBuildingSlots();
+    if (!city.canBuildBuildingType(buildingType, extraSlots)
+      || queue.hasBuildingSite(city.vertex, buildingType, ConstructionKind.Building)
+      || city.getBuildingCount() + queue.countBuildingSites(city.vertex) >= city.getMaxBuildings(extraSlots)) {
+      return null;
+    }
+    const status = BuildingController.getBuildableBuildingsWithStatus(
+      city, map, city.vertex, islandState.getPlayerResources(), modifiers
+    ).find(s => s.buildingType === buildingType);
+    if (!status) {
+      // Hexagone requis absent autour de la ville
+      return null;
+    }
+    return {
+      cost: status.cost,
+      start: () => ConstructionController.startBuilding(buildingType, city, islandState, modifiers),
+    };
+  }
+
+  private upgradeGoal(buildingType: BuildingType, city: City, context: SimulationContext): ConstructionGoal | null {
+    const { map, islandState, modifiers } = context;
+    const building = city.getBuilding(buildingType);
+    if (!building || !building.canUpgrade()
+      || islandState.getConstructionQueue().hasBuildingSite(city.vertex, buildingType, ConstructionKind.BuildingUpgrade)) {
+      return null;
+    }
+    if (buildingType === BuildingType.TownHall && city.level + 1 === CityLevel.Capital
+      && map.getCitiesByCivilization(city.owner).some(c => c.level === CityLevel.Capital)) {
+      // Une seule capitale par civilisation
+      return null;
+    }
+    return {
+      cost: modifiers.applyToCost(building.getUpgradeCost()),
+      start: () => ConstructionController.startUpgrade(buildingType, city, islandState, modifiers),
+    };
+  }
+
+  private outpostGoal(context: SimulationContext): ConstructionGoal | null {
+    const { map, civId, islandState, modifiers } = context;
+    const queue = islandState.getConstructionQueue();
+    if (queue.getSites().some(site => site.kind === ConstructionKind.Outpost)) {
+      // Le coût dépend du nombre de villes : un avant-poste à la fois
+      return null;
+    }
+    const vertex = map.getBuildableOutpostVertices(civId)[0];
+    if (!vertex) {
+      return null;
+    }
+    return {
+      cost: ConstructionController.getOutpostCost(islandState, modifiers),
+      start: () => ConstructionController.startOutpost(vertex, islandState, modifiers),
+    };
+  }
+
+  private roadGoal(context: SimulationContext): ConstructionGoal | null {
+    const { map, civId, islandState, modifiers } = context;
+    const queue = islandState.getConstructionQueue();
+    let bestEdge: Edge | null = null;
+    let bestDistance = Infinity;
+    for (const edge of map.getBuildableRoadsForCivilization(civId)) {
+      const distance = map.calculateBuildableRoadDistance(edge, civId);
+      if (distance !== undefined && distance < bestDistance && !queue.hasRoadSite(edge)) {
+        bestEdge = edge;
+        bestDistance = distance;
+      }
+    }
+    if (!bestEdge) {
+      return null;
+    }
+    const edge = bestEdge;
+    return {
+      cost: RoadConstruction.getCost(bestDistance, modifiers),
+      start: () => ConstructionController.startRoad(edge, islandState, modifiers),
+    };
+  }
+
+  /**
+   * Commerce vers le coût d'un objectif, en puisant dans les ressources excédentaires
+   * (celles dont la quantité dépasse ce que l'objectif requiert).
+   */
+  private tradeTowards(cost: Map<ResourceType, number>, context: SimulationContext): void {
+    const { map, civId, islandState, modifiers } = context;
+    if (!TradeController.canTrade(civId, map, modifiers)) {
+      return;
+    }
+    const resources = islandState.getPlayerResources();
+    for (const [targetResource, amount] of cost) {
+      while (resources.getResource(targetResource) < amount) {
+        const source = BASIC_RESOURCES
+          .filter(r => r !== targetResource && TradeController.canPerformTrade(r, targetResource, civId, map, resources, modifiers))
+          .filter(r => resources.getResource(r) - TradeController.getTradeRateForResource(civId, map, r, modifiers) >= (cost.get(r) ?? 0))
+          .sort((a, b) => (resources.getResource(b) - (cost.get(b) ?? 0)) - (resources.getResource(a) - (cost.get(a) ?? 0)))[0];
+        if (!source) {
+          break;
+        }
+        TradeController.performTrade(source, targetResource, civId, map, resources, modifiers);
+      }
+    }
+  }
+}
+
+/**
+ * Stratégies disponibles par nom (option --strategy de la CLI).
+ */
+export const SIMULATION_STRATEGIES: Readonly<Record<string, () => SimulationStrategy>> = {
+  idle: () => new IdleStrategy(),
+  greedy: () => new GreedyStrategy(),
+};
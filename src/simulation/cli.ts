@@ -0,0 +1,96 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { localize } from '../i18n';
+import { HeadlessSimulator, SimulationResult } from './HeadlessSimulator';
+import { SIMULATION_STRATEGIES } from './SimulationStrategy';
+
+/**
+ * Point d'entrée de la simulation sans interface (npm run simulate -- [options]).
+ *
+ * Options :
+ *   --seed <n>        Seed de l'île générée
+ *   --load <fichier>  Sauvegarde exportée servant de point de départ (prioritaire sur --seed)
+ *   --strategy <nom>  Stratégie de jeu (idle, greedy)
+ *   --hours <n>       Durée simulée en heures de jeu
+ *   --tick <s>        Pas de simulation en secondes (multiple de 0.1)
+ *   --sample <s>      Intervalle entre deux échantillons de la timeline en secondes
+ *   --out <fichier>   Fichier de sortie (sinon sortie standard)
+ *   --format <fmt>    json ou csv (par défaut : déduit de l'extension de --out, sinon json)
+ */
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--') || i + 1 >= argv.length) {
+      throw new Error(localize('simulation.error.invalidArgument', { arg }));
+    }
+    args.set(arg.slice(2), argv[++i]);
+  }
+  return args;
+}
+
+function parseNumber(args: Map<string, string>, name: string): number | undefined {
+  const value = args.get(name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(localize('simulation.error.invalidArgument', { arg: `--${name} ${value}` }));
+  }
+  return parsed;
+}
+
+function formatMilestone(seconds: number | null): string {
+  return seconds === null ? '-' : `${(seconds / 60).toFixed(1)} min`;
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+
+  const strategyName = args.get('strategy') ?? 'greedy';
+  const createStrategy = SIMULATION_STRATEGIES[strategyName];
+  if (!createStrategy) {
+    throw new Error(localize('simulation.error.unknownStrategy', {
+      name: strategyName,
+      available: Object.keys(SIMULATION_STRATEGIES).join(', '),
+    }));
+  }
+
+  const loadPath = args.get('load');
+  const result: SimulationResult = HeadlessSimulator.run({
+    seed: parseNumber(args, 'seed'),
+    save: loadPath !== undefined ? readFileSync(loadPath, 'utf-8') : undefined,
+    strategy: createStrategy(),
+    hours: parseNumber(args, 'hours'),
+    tickSeconds: parseNumber(args, 'tick'),
+    sampleIntervalSeconds: parseNumber(args, 'sample'),
+  });
+
+  const outPath = args.get('out');
+  const format = args.get('format') ?? (outPath?.endsWith('.csv') ? 'csv' : 'json');
+  const output = format === 'csv'
+    ? HeadlessSimulator.toCsv(result.timeline)
+    : JSON.stringify(result, null, 2) + '\n';
+
+  if (outPath !== undefined) {
+    writeFileSync(outPath, output);
+    // Résumé sur la sortie d'erreur pour ne pas polluer une sortie redirigée
+    console.error(localize('simulation.summary', {
+      strategy: result.strategy,
+      seed: String(result.seed),
+      hours: (result.simulatedSeconds / 3600).toFixed(1),
+      capital: formatMilestone(result.timeToCapitalSeconds),
+      prestige: formatMilestone(result.timeToPrestigeSeconds),
+    }));
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+try {
+  main();
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+}
@@ -0,0 +1,192 @@
+import { ActionHistory, PlayerAction, PlayerActionKind } from '../model/game/ActionHistory';
+import { getBuildingTypeName } from '../model/city/BuildingType';
+import { UndoController } from '../controller/UndoController';
+import { localize } from '../i18n';
+
+/**
+ * Callbacks pour les actions de l'historique.
+ */
+export interface ActionHistoryCallbacks {
+  /** Callback appelé lorsque l'utilisateur annule la dernière action */
+  onUndo?: () => void;
+  /** Callback appelé lorsque l'utilisateur rétablit la dernière action annulée */
+  onRedo?: () => void;
+}
+
+/**
+ * Boutons annuler/rétablir de la barre du haut et panneau de l'historique des actions.
+ * Le panneau liste les actions faites (la plus récente en premier, avec le délai d'annulation
+ * restant ou la raison du refus) puis les actions annulées pouvant être rétablies.
+ */
+export class ActionHistoryView {
+  private panel: HTMLElement;
+  private undoBtn: HTMLButtonElement | null = null;
+  private redoBtn: HTMLButtonElement | null = null;
+  private historyBtn: HTMLButtonElement | null = null;
+  private panelUndoBtn: HTMLButtonElement | null = null;
+  private panelRedoBtn: HTMLButtonElement | null = null;
+  private closeBtn: HTMLButtonElement | null = null;
+  private statusDisplay: HTMLElement | null = null;
+  private list: HTMLUListElement | null = null;
+
+  private callbacks: ActionHistoryCallbacks = {};
+  private isVisible: boolean = false;
+  /** Dernier état affiché, pour ne recalculer la raison de refus qu'en cas de changement */
+  private lastRenderKey: string | null = null;
+
+  constructor(panelId: string = 'history-panel') {
+    const panelEl = document.getElementById(panelId);
+    if (!panelEl) {
+      throw new Error(localize('error.elementNotFound', { id: panelId }));
+    }
+
+    this.panel = panelEl;
+    this.undoBtn = document.getElementById('undo-btn') as HTMLButtonElement | null;
+    this.redoBtn = document.getElementById('redo-btn') as HTMLButtonElement | null;
+    this.historyBtn = document.getElementById('history-btn') as HTMLButtonElement | null;
+    this.panelUndoBtn = document.getElementById('history-undo-btn') as HTMLButtonElement | null;
+    this.panelRedoBtn = document.getElementById('history-redo-btn') as HTMLButtonElement | null;
+    this.closeBtn = document.getElementById('history-close-btn') as HTMLButtonElement | null;
+    this.statusDisplay = document.getElementById('history-status');
+    this.list = document.getElementById('history-list') as HTMLUListElement | null;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Configure les gestionnaires d'événements.
+   */
+  private setupEventListeners(): void {
+    for (const button of [this.undoBtn, this.panelUndoBtn]) {
+      button?.addEventListener('click', () => this.callbacks.onUndo?.());
+    }
+    for (const button of [this.redoBtn, this.panelRedoBtn]) {
+      button?.addEventListener('click', () => this.callbacks.onRedo?.());
+    }
+    this.historyBtn?.addEventListener('click', () => (this.isVisible ? this.hide() : this.show()));
+    this.closeBtn?.addEventListener('click', () => this.hide());
+
+    // Touche Escape pour fermer le panneau
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isVisible) {
+        this.hide();
+      }
+    });
+  }
+
+  /**
+   * Définit les callbacks pour les actions de l'historique.
+   */
+  setCallbacks(callbacks: ActionHistoryCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Affiche le panneau de l'historique.
+   */
+  show(): void {
+    this.lastRenderKey = null;
+    this.panel.classList.remove('hidden');
+    this.isVisible = true;
+  }
+
+  /**
+   * Masque le panneau.
+   */
+  hide(): void {
+    this.panel.classList.add('hidden');
+    this.isVisible = false;
+  }
+
+  /**
+   * Vérifie si le panneau est actuellement visible.
+   */
+  isShown(): boolean {
+    return this.isVisible;
+  }
+
+  /**
+   * Met à jour les boutons et la liste.
+   * @param history - L'historique des actions de l'île
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   * @param getUndoBlocker - Calcule la raison pour laquelle la dernière action ne peut pas être annulée
+   */
+  updateDisplay(history: ActionHistory, currentTime: number, getUndoBlocker: () => string | null): void {
+    const done = history.getDone();
+    const undone = history.getUndone();
+    const remaining = done.length > 0 ? this.getRemainingSeconds(done[0], currentTime) : 0;
+    // La liste change avec l'historique, le délai restant et l'état des chantiers
+    const renderKey = `${this.isVisible}|${done.map(a => a.time).join(',')}|${undone.length}|${remaining}`
+      + `|${done.length > 0 && done[0].site ? done[0].site.isComplete(currentTime) : ''}`;
+    if (renderKey === this.lastRenderKey) {
+      return;
+    }
+    this.lastRenderKey = renderKey;
+
+    const blocker = getUndoBlocker();
+    for (const button of [this.undoBtn, this.panelUndoBtn]) {
+      if (button) {
+        button.disabled = blocker !== null;
+        button.title = blocker ?? localize('history.undoTitle');
+      }
+    }
+    for (const button of [this.redoBtn, this.panelRedoBtn]) {
+      if (button) {
+        button.disabled = undone.length === 0;
+      }
+    }
+
+    if (!this.isVisible) {
+      return;
+    }
+    if (this.statusDisplay) {
+      this.statusDisplay.textContent = done.length === 0
+        ? localize('history.empty')
+        : blocker ?? localize('history.undoAvailable', { seconds: String(remaining) });
+    }
+    if (this.list) {
+      this.list.innerHTML = '';
+      done.forEach((action, index) => this.list!.appendChild(this.createItem(action, index === 0 ? 'next-undo' : '')));
+      undone.forEach(action => this.list!.appendChild(this.createItem(action, 'undone')));
+    }
+  }
+
+  private getRemainingSeconds(action: PlayerAction, currentTime: number): number {
+    return Math.max(0, Math.ceil(UndoController.UNDO_GRACE_SECONDS - (currentTime - action.time)));
+  }
+
+  private createItem(action: PlayerAction, state: string): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = state ? `history-item ${state}` : 'history-item';
+    item.textContent = this.describe(action);
+    if (state === 'undone') {
+      item.title = localize('history.undoneTitle');
+    }
+    return item;
+  }
+
+  /**
+   * Décrit une action (libellé de la liste).
+   */
+  private describe(action: PlayerAction): string {
+    switch (action.kind) {
+      case PlayerActionKind.Road:
+      case PlayerActionKind.Outpost:
+        return localize(`history.action.${action.kind}`);
+      case PlayerActionKind.Building:
+        return localize('history.action.Building', { building: getBuildingTypeName(action.site!.buildingType!) });
+      case PlayerActionKind.BuildingUpgrade:
+        return localize('history.action.BuildingUpgrade', {
+          building: getBuildingTypeName(action.site!.buildingType!),
+          level: String(action.targetLevel),
+        });
+      case PlayerActionKind.Trade: {
+        const format = (sign: number) => [...action.delta!.entries()]
+          .filter(([, amount]) => amount * sign > 0)
+          .map(([resource, amount]) => `${Math.abs(amount)} ${localize(`resource.${resource.toLowerCase()}`)}`)
+          .join(', ');
+        return localize('history.action.Trade', { given: format(-1), received: format(1) });
+      }
+    }
+  }
+}
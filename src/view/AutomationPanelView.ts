@@ -114,6 +114,15 @@ export class AutomationPanelView {
     this.callbacks = callbacks;
   }
 
+  /**
+   * Ouvre le panneau pour la ville sélectionnée, comme un clic sur le bouton d'automatisation.
+   */
+  openForSelectedCity(): void {
+    if (this.callbacks.onOpenAutomation) {
+      this.callbacks.onOpenAutomation();
+    }
+  }
+
   /**
    * Configure les callbacks du panneau d'automatisation avec les dépendances nécessaires.
    * @param dependencies - Les dépendances nécessaires pour configurer les callbacks
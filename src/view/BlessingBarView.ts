@@ -0,0 +1,48 @@
+import { FaithState } from '../model/faith/FaithState';
+import { BLESSING_DEFINITIONS } from '../model/faith/types';
+import { localize } from '../i18n';
+
+/**
+ * Barre des bénédictions actives.
+ * Affiche une icône par bénédiction en cours avec son temps restant.
+ */
+export class BlessingBarView {
+  private bar: HTMLElement;
+  /** Dernier état affiché, pour ne reconstruire la barre qu'en cas de changement */
+  private lastRenderKey: string | null = null;
+
+  constructor(barId: string = 'blessings-bar') {
+    const barEl = document.getElementById(barId);
+    if (!barEl) {
+      throw new Error(localize('error.elementNotFound', { id: barId }));
+    }
+    this.bar = barEl;
+  }
+
+  /**
+   * Met à jour la barre avec les bénédictions actives.
+   * @param faith - L'état de la foi de l'île
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   */
+  updateDisplay(faith: FaithState, currentTime: number): void {
+    const active = faith.getActiveBlessings(currentTime);
+    const renderKey = active.map(b => `${b.type}:${b.hexType ?? ''}:${Math.ceil(b.endTime - currentTime)}`).join(',');
+    if (renderKey === this.lastRenderKey) {
+      return;
+    }
+    this.lastRenderKey = renderKey;
+
+    this.bar.innerHTML = '';
+    this.bar.classList.toggle('hidden', active.length === 0);
+    for (const blessing of active) {
+      const definition = BLESSING_DEFINITIONS[blessing.type];
+      const seconds = Math.ceil(blessing.endTime - currentTime);
+
+      const icon = document.createElement('span');
+      icon.className = 'blessing-icon';
+      icon.textContent = `${definition.icon} ${seconds}s`;
+      icon.title = `${localize(definition.nameKey)} — ${localize('faith.active', { seconds: String(seconds) })}`;
+      this.bar.appendChild(icon);
+    }
+  }
+}
@@ -6,8 +6,11 @@ import { Vertex } from '../model/hex/Vertex';
 import { IslandMap } from '../model/map/IslandMap';
 import { CivilizationId } from '../model/map/CivilizationId';
 import { PlayerResources } from '../model/game/PlayerResources';
+import { hasLibrary, hasTemple } from '../model/game/CivilizationPoints';
+import { GameModifiers } from '../model/game/GameModifiers';
 import { BuildingController } from '../controller/BuildingController';
 import { TradeController } from '../controller/TradeController';
+import { GameEventBus, GameEventType } from '../controller/GameEventBus';
 import { HexMapRenderer } from './HexMapRenderer';
 import { Console } from 'console';
 import { localize } from '../i18n';
@@ -20,6 +23,14 @@ export interface CityPanelCallbacks {
   onBuildBuilding?: (buildingType: BuildingType, city: City, islandMap: IslandMap, vertex: Vertex) => void;
   /** Callback appelé lors d'une action sur un bâtiment construit */
   onBuildingAction?: (action: BuildingAction, buildingType: BuildingType, city: City) => void;
+  /** Callback appelé quand le commerce automatique d'un bâtiment est activé ou désactivé */
+  onAutoTradeToggled?: (buildingType: BuildingType, city: City, enabled: boolean) => void;
+  /** Callback appelé par le bouton Commerce global (footer) */
+  onOpenTrade?: () => void;
+  /** Callback appelé par le bouton Recherche global (footer) */
+  onOpenResearch?: () => void;
+  /** Callback appelé par le bouton Temple global (footer) */
+  onOpenFaith?: () => void;
   /** Callback appelé après chaque mise à jour du panneau (pour mettre à jour d'autres panneaux dépendants) */
   onPanelUpdated?: (city: City | null) => void;
 }
@@ -31,6 +42,8 @@ export interface CityPanelCallbacks {
 export interface CityPanelStateProvider {
   getIslandMap: () => IslandMap | null;
   getPlayerResources: () => PlayerResources;
+  /** Modificateurs de jeu appliqués aux coûts affichés (optionnel) */
+  getGameModifiers?: () => GameModifiers;
 }
 
 /**
@@ -45,6 +58,8 @@ export class CityPanelView {
   private cityBuildingsTitle: HTMLHeadingElement;
   private tradeBtn: HTMLButtonElement | null = null;
   private automationBtn: HTMLButtonElement | null = null;
+  private researchBtn: HTMLButtonElement | null = null;
+  private faithBtn: HTMLButtonElement | null = null;
   private callbacks: CityPanelCallbacks = {};
   private renderer: HexMapRenderer | null = null;
   private playerCivId: CivilizationId | null = null;
@@ -57,7 +72,10 @@ export class CityPanelView {
   // Cache de l'état précédent pour éviter les rendus inutiles
   private lastSelectedVertexHash: string | null = null;
   private lastNoSelectionRendered: boolean = false;
-  private lastResourcesHash: string | null = null;
+  /** Les ressources du joueur ont changé depuis le dernier rendu (événement ResourceChanged) */
+  private resourcesChanged: boolean = true;
+  /** Désabonnements du bus d'événements (bind) */
+  private unsubscribers: Array<() => void> = [];
   /** Liste des types de bâtiments construits (structure) */
   private lastCityBuildings: string[] | null = null;
   /** Niveau de la ville (structure) */
@@ -77,6 +95,8 @@ export class CityPanelView {
         return localize('resource.sheep');
       case ResourceType.Ore:
         return localize('resource.ore');
+      case ResourceType.Tools:
+        return localize('resource.tools');
       default:
         return String(resource);
     }
@@ -89,6 +109,8 @@ export class CityPanelView {
     const buildingsTitle = document.querySelector('#city-buildings-section h3') as HTMLHeadingElement;
     const tradeBtn = document.getElementById('city-trade-btn') as HTMLButtonElement;
     const automationBtn = document.getElementById('city-automation-btn') as HTMLButtonElement;
+    const researchBtn = document.getElementById('city-research-btn') as HTMLButtonElement;
+    const faithBtn = document.getElementById('city-faith-btn') as HTMLButtonElement;
 
     if (!panel) {
       throw new Error(localize('error.elementNotFound', { id: cityPanelId }));
@@ -109,6 +131,8 @@ export class CityPanelView {
     this.cityBuildingsTitle = buildingsTitle;
     this.tradeBtn = tradeBtn ?? null;
     this.automationBtn = automationBtn ?? null;
+    this.researchBtn = researchBtn ?? null;
+    this.faithBtn = faithBtn ?? null;
 
     // Configurer les gestionnaires d'événements
     this.setupEventListeners();
@@ -123,13 +147,27 @@ export class CityPanelView {
 
   /**
    * Connecte le panneau à un renderer + un provider d'état.
-   * Le panneau se mettra à jour automatiquement quand la sélection change, et pourra
-   * être rafraîchi à la demande quand les ressources changent.
+   * Le panneau se mettra à jour automatiquement quand la sélection change, et quand le bus
+   * d'événements signale un changement des ressources, bâtiments ou villes du joueur.
    */
   bind(renderer: HexMapRenderer, stateProvider: CityPanelStateProvider): void {
     this.setRenderer(renderer);
     this.stateProvider = stateProvider;
 
+    // Seuls les événements du joueur concernent le panneau (les rivaux partagent les contrôleurs)
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [
+      GameEventBus.on(GameEventType.ResourceChanged, ({ civId }) => {
+        if (this.isPlayerCivilization(civId)) {
+          this.resourcesChanged = true;
+          this.scheduleRefresh();
+        }
+      }),
+      GameEventBus.on(GameEventType.BuildingBuilt, ({ civId }) => this.refreshForCivilization(civId)),
+      GameEventBus.on(GameEventType.CityUpgraded, ({ civId }) => this.refreshForCivilization(civId)),
+      GameEventBus.on(GameEventType.ConstructionUndone, ({ civId }) => this.refreshForCivilization(civId)),
+    ];
+
     // La sélection change: c'est un événement "rare" → update immédiat.
     renderer.setOnSelectionChangeCallback(() => {
       this.refreshNow();
@@ -141,9 +179,32 @@ export class CityPanelView {
     });
   }
 
+  /**
+   * Vérifie si un événement concerne la civilisation du joueur.
+   */
+  private isPlayerCivilization(civId: CivilizationId): boolean {
+    return this.playerCivId !== null && civId.equals(this.playerCivId);
+  }
+
+  /**
+   * Planifie un rafraîchissement si l'événement concerne la civilisation du joueur.
+   */
+  private refreshForCivilization(civId: CivilizationId): void {
+    if (this.isPlayerCivilization(civId)) {
+      this.scheduleRefresh();
+    }
+  }
+
+  /**
+   * Retourne les modificateurs de jeu fournis par le provider (aucun par défaut).
+   */
+  private getGameModifiers(): GameModifiers {
+    return this.stateProvider?.getGameModifiers?.() ?? GameModifiers.NONE;
+  }
+
   /**
    * Demande un rafraîchissement du panneau (coalescé sur une frame).
-   * À appeler quand les ressources changent (récolte auto, trade, cheat, etc.).
+   * Appelé sur les événements du joueur ; à appeler aussi après un changement non signalé (cheat, etc.).
    */
   scheduleRefresh(): void {
     if (this.pendingScheduledUpdate) {
@@ -188,7 +249,7 @@ export class CityPanelView {
   }
 
   /**
-   * Met à jour uniquement les boutons du footer (Commerce et Automatisation).
+   * Met à jour uniquement les boutons du footer (Commerce, Automatisation, Recherche et Temple).
    * Utile pour forcer la mise à jour indépendamment de la sélection de ville.
    * IMPORTANT: Cette méthode est le seul point d'appel pour les boutons du footer.
    */
@@ -200,6 +261,8 @@ export class CityPanelView {
     if (islandMap) {
       this.updateTradeFooter(islandMap);
       this.updateAutomationFooter(islandMap);
+      this.updateResearchFooter(islandMap);
+      this.updateFaithFooter(islandMap);
     }
   }
 
@@ -254,12 +317,11 @@ export class CityPanelView {
           return;
         }
 
-        // Émettre un événement personnalisé
-        const event = new CustomEvent('buildBuilding', {
-          detail: { buildingType },
-          bubbles: true,
-        });
-        this.cityPanel.dispatchEvent(event);
+        const city = this.getCurrentCity();
+        const islandMap = this.stateProvider?.getIslandMap();
+        if (city && islandMap) {
+          this.handleBuildBuilding(buildingType, city, islandMap, city.vertex);
+        }
       }
 
       // Gérer les actions des bâtiments construits (Améliorer, Commerce)
@@ -275,12 +337,10 @@ export class CityPanelView {
           return;
         }
 
-        // Émettre un événement personnalisé
-        const event = new CustomEvent('buildingAction', {
-          detail: { buildingAction, buildingType },
-          bubbles: true,
-        });
-        this.cityPanel.dispatchEvent(event);
+        const city = this.getCurrentCity();
+        if (city) {
+          this.handleBuildingAction(buildingAction, buildingType, city);
+        }
       }
     });
 
@@ -290,18 +350,11 @@ export class CityPanelView {
       
       if (target.classList.contains('building-auto-trade-checkbox')) {
         const checkbox = target as HTMLInputElement;
-        const buildingAction = checkbox.dataset.buildingAction as BuildingAction;
         const buildingType = checkbox.dataset.buildingType as BuildingType;
-        if (!buildingAction || !buildingType) {
-          return;
+        const city = this.getCurrentCity();
+        if (buildingType && city && this.callbacks.onAutoTradeToggled) {
+          this.callbacks.onAutoTradeToggled(buildingType, city, checkbox.checked);
         }
-
-        // Émettre un événement personnalisé avec l'état de la checkbox
-        const event = new CustomEvent('buildingAction', {
-          detail: { buildingAction, buildingType, checked: checkbox.checked },
-          bubbles: true,
-        });
-        this.cityPanel.dispatchEvent(event);
       }
     });
 
@@ -311,10 +364,27 @@ export class CityPanelView {
         if (this.tradeBtn?.disabled) {
           return;
         }
-        const event = new CustomEvent('openTrade', {
-          bubbles: true,
-        });
-        this.cityPanel.dispatchEvent(event);
+        this.callbacks.onOpenTrade?.();
+      });
+    }
+
+    // Bouton Recherche global (footer du panneau)
+    if (this.researchBtn) {
+      this.researchBtn.addEventListener('click', () => {
+        if (this.researchBtn?.disabled) {
+          return;
+        }
+        this.callbacks.onOpenResearch?.();
+      });
+    }
+
+    // Bouton Temple global (footer du panneau)
+    if (this.faithBtn) {
+      this.faithBtn.addEventListener('click', () => {
+        if (this.faithBtn?.disabled) {
+          return;
+        }
+        this.callbacks.onOpenFaith?.();
       });
     }
 
@@ -328,9 +398,9 @@ export class CityPanelView {
       return false;
     }
 
-    const canTrade = Boolean(islandMap && this.playerCivId && TradeController.canTrade(this.playerCivId, islandMap));
+    const canTrade = Boolean(islandMap && this.playerCivId && TradeController.canTrade(this.playerCivId, islandMap, this.getGameModifiers()));
     const rate = (canTrade && islandMap && this.playerCivId)
-      ? TradeController.getTradeRateForCivilization(this.playerCivId, islandMap)
+      ? TradeController.getTradeRateForCivilization(this.playerCivId, islandMap, this.getGameModifiers())
       : null;
 
     // Mettre à jour le bouton du footer
@@ -379,6 +449,40 @@ export class CityPanelView {
     return true;
   }
 
+  /**
+   * Met à jour le bouton Recherche global (footer), visible dès qu'une Bibliothèque est construite.
+   */
+  private updateResearchFooter(islandMap: IslandMap | null): void {
+    if (!this.researchBtn) {
+      return;
+    }
+
+    const canResearch = Boolean(islandMap && this.playerCivId && hasLibrary(islandMap, this.playerCivId));
+    this.researchBtn.hidden = !canResearch;
+    this.researchBtn.disabled = !canResearch;
+    if (canResearch) {
+      this.researchBtn.textContent = localize('research.title');
+      this.researchBtn.title = localize('research.hint');
+    }
+  }
+
+  /**
+   * Met à jour le bouton Temple global (footer), visible dès qu'un Temple est construit.
+   */
+  private updateFaithFooter(islandMap: IslandMap | null): void {
+    if (!this.faithBtn) {
+      return;
+    }
+
+    const canPray = Boolean(islandMap && this.playerCivId && hasTemple(islandMap, this.playerCivId));
+    this.faithBtn.hidden = !canPray;
+    this.faithBtn.disabled = !canPray;
+    if (canPray) {
+      this.faithBtn.textContent = localize('faith.title');
+      this.faithBtn.title = localize('faith.hint');
+    }
+  }
+
   /**
    * Vérifie si une civilisation a accès à l'automatisation (Guilde des batisseurs).
    */
@@ -393,13 +497,6 @@ export class CityPanelView {
   }
 
 
-  /**
-   * Retourne l'élément DOM du panneau pour permettre l'écoute d'événements personnalisés.
-   */
-  getPanelElement(): HTMLElement {
-    return this.cityPanel;
-  }
-
   /**
    * Retourne la ville actuellement sélectionnée, ou null si aucune.
    * Utile pour mettre à jour d'autres panneaux dépendants.
@@ -449,7 +546,6 @@ export class CityPanelView {
 
       // Réinitialiser le cache lié à une ville
       this.lastSelectedVertexHash = null;
-      this.lastResourcesHash = null;
       this.lastCityBuildings = null;
       this.lastCityLevel = null;
       this.lastCityBuildingLevelsKey = null;
@@ -464,7 +560,6 @@ export class CityPanelView {
 
     // Calculer les hash pour comparer avec l'état précédent
     const currentVertexHash = selectedVertex.hashCode();
-    const currentResourcesHash = this.getResourcesHash(playerResources);
     // Structure: uniquement les types de bâtiments construits
     const currentBuiltBuildingTypes = [...city.getBuildings()].sort();
     // Dynamique: niveaux des bâtiments construits (upgrade) et spécialisations
@@ -487,7 +582,7 @@ export class CityPanelView {
     const cityLevelChanged = this.lastCityLevel !== currentCityLevel;
     const structureChanged = isFirstRender || vertexChanged || builtTypesChanged || cityLevelChanged || this.lastNoSelectionRendered;
 
-    const resourcesChanged = this.lastResourcesHash !== currentResourcesHash;
+    const resourcesChanged = this.resourcesChanged;
     const buildingLevelsChanged = this.lastCityBuildingLevelsKey !== currentCityBuildingLevelsKey;
 
     // Rien à faire si aucun changement pertinent
@@ -497,7 +592,7 @@ export class CityPanelView {
 
     // Mise à jour des caches
     this.lastSelectedVertexHash = currentVertexHash;
-    this.lastResourcesHash = currentResourcesHash;
+    this.resourcesChanged = false;
     this.lastCityBuildings = currentBuiltBuildingTypes;
     this.lastCityLevel = currentCityLevel;
     this.lastCityBuildingLevelsKey = currentCityBuildingLevelsKey;
@@ -561,7 +656,7 @@ export class CityPanelView {
 
     // Obtenir les bâtiments constructibles avec leur statut pour vérifier si on peut les construire
     const buildableBuildingsMap = new Map<BuildingType, { canBuild: boolean; blockedByBuildingLimit: boolean; cost: Map<ResourceType, number> }>();
-    const buildableBuildings = BuildingController.getBuildableBuildingsWithStatus(city, islandMap, vertex, playerResources);
+    const buildableBuildings = BuildingController.getBuildableBuildingsWithStatus(city, islandMap, vertex, playerResources, this.getGameModifiers());
     for (const status of buildableBuildings) {
       buildableBuildingsMap.set(status.buildingType, { canBuild: status.canBuild, blockedByBuildingLimit: status.blockedByBuildingLimit, cost: status.cost });
     }
@@ -705,11 +800,11 @@ export class CityPanelView {
   private updateBuildingsListDynamic(city: City, islandMap: IslandMap, vertex: Vertex, playerResources: PlayerResources): void {
     // Titre avec le nombre de bâtiments construits / maximum
     const buildingCount = city.getBuildingCount();
-    const maxBuildings = city.getMaxBuildings();
+    const maxBuildings = city.getMaxBuildings(this.getGameModifiers().getExtraBuildingSlots());
     this.cityBuildingsTitle.textContent = localize('city.buildingsTitle', { count: String(buildingCount), max: String(maxBuildings) });
 
     const builtBuildings = new Set(city.getBuildings());
-    const buildableBuildings = BuildingController.getBuildableBuildingsWithStatus(city, islandMap, vertex, playerResources);
+    const buildableBuildings = BuildingController.getBuildableBuildingsWithStatus(city, islandMap, vertex, playerResources, this.getGameModifiers());
     const buildableBuildingsMap = new Map<BuildingType, { canBuild: boolean; blockedByBuildingLimit: boolean; cost: Map<ResourceType, number> }>();
     for (const status of buildableBuildings) {
       buildableBuildingsMap.set(status.buildingType, { canBuild: status.canBuild, blockedByBuildingLimit: status.blockedByBuildingLimit, cost: status.cost });
@@ -783,7 +878,7 @@ export class CityPanelView {
       const upgradeCostEl = li.querySelector('[data-role="cost-upgrade"]') as HTMLSpanElement | null;
       if (upgradeCostEl) {
         if (building && canUpgrade) {
-          const upgradeCost = building.getUpgradeCost();
+          const upgradeCost = this.getGameModifiers().applyToCost(building.getUpgradeCost());
           const costParts: string[] = [];
           for (const [resource, amount] of upgradeCost.entries()) {
             costParts.push(`${amount} ${CityPanelView.getResourceName(resource)}`);
@@ -805,7 +900,7 @@ export class CityPanelView {
         if (!canUpgrade) {
           upgradeBtn.disabled = true;
         } else {
-          upgradeBtn.disabled = !BuildingController.canUpgrade(buildingType, city, islandMap, playerResources);
+          upgradeBtn.disabled = !BuildingController.canUpgrade(buildingType, city, islandMap, playerResources, this.getGameModifiers());
         }
       }
 
@@ -873,18 +968,6 @@ export class CityPanelView {
     }
   }
 
-  /**
-   * Génère un hash des ressources pour la comparaison.
-   */
-  private getResourcesHash(playerResources: PlayerResources): string {
-    const resources = playerResources.getAllResources();
-    const parts: string[] = [];
-    for (const [resource, amount] of resources.entries()) {
-      parts.push(`${resource}:${amount}`);
-    }
-    return parts.sort().join(',');
-  }
-
   /**
    * Compare deux tableaux pour l'égalité.
    */
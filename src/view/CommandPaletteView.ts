@@ -0,0 +1,234 @@
+import { CommandId, CommandStatus } from '../controller/CommandController';
+import { getBuildingTypeName } from '../model/city/BuildingType';
+import { localize } from '../i18n';
+
+/**
+ * Callbacks pour les actions de la palette de commandes.
+ */
+export interface CommandPaletteCallbacks {
+  /** Callback appelé lorsque l'utilisateur lance une commande disponible */
+  onRun?: (command: CommandStatus) => void;
+}
+
+/**
+ * Palette de commandes.
+ * Liste les commandes de l'état de jeu actuel, filtrées par une recherche (sans tenir compte
+ * des accents ni de la casse). Les commandes indisponibles restent listées avec leur raison.
+ */
+export class CommandPaletteView {
+  /** Touche de raccourci de chaque commande (Maj pour la ville précédente). */
+  private static readonly SHORTCUT_KEYS: Partial<Record<CommandId, string>> = {
+    [CommandId.NextCity]: 'c',
+    [CommandId.HarvestAll]: 'h',
+    [CommandId.OpenTrade]: 't',
+    [CommandId.OpenAutomation]: 'a',
+    [CommandId.OpenPrestige]: 'p',
+  };
+
+  private panel: HTMLElement;
+  private input: HTMLInputElement | null = null;
+  private list: HTMLUListElement | null = null;
+
+  private callbacks: CommandPaletteCallbacks = {};
+  private isVisible: boolean = false;
+  private commands: CommandStatus[] = [];
+  /** Commandes affichées après filtrage */
+  private filtered: CommandStatus[] = [];
+  private selectedIndex: number = 0;
+
+  constructor(panelId: string = 'command-palette') {
+    const panelEl = document.getElementById(panelId);
+    if (!panelEl) {
+      throw new Error(localize('error.elementNotFound', { id: panelId }));
+    }
+
+    this.panel = panelEl;
+    this.input = document.getElementById('command-palette-input') as HTMLInputElement | null;
+    this.list = document.getElementById('command-palette-list') as HTMLUListElement | null;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Retourne la commande associée à une touche hors champ de saisie (C, Maj+C, H, T, A, P),
+   * ou null si la touche n'est pas un raccourci.
+   */
+  static getShortcutCommand(e: KeyboardEvent): CommandId | null {
+    const target = e.target as HTMLElement | null;
+    if (e.ctrlKey || e.metaKey || e.altKey || target?.closest('input, textarea, select')) {
+      return null;
+    }
+    const key = e.key.toLowerCase();
+    if (key === 'c' && e.shiftKey) {
+      return CommandId.PreviousCity;
+    }
+    const entry = Object.entries(CommandPaletteView.SHORTCUT_KEYS).find(([, shortcut]) => shortcut === key);
+    return entry && !e.shiftKey ? (entry[0] as CommandId) : null;
+  }
+
+  /**
+   * Retourne le libellé localisé d'une commande.
+   */
+  static getLabel(command: CommandStatus): string {
+    if (command.id === CommandId.Build && command.buildingType) {
+      return localize('command.Build', { building: getBuildingTypeName(command.buildingType) });
+    }
+    return localize(`command.${command.id}`);
+  }
+
+  /**
+   * Configure les gestionnaires d'événements.
+   */
+  private setupEventListeners(): void {
+    this.input?.addEventListener('input', () => {
+      this.selectedIndex = 0;
+      this.render();
+    });
+
+    this.input?.addEventListener('keydown', (e) => {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        if (this.filtered.length > 0) {
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          this.selectedIndex = (this.selectedIndex + step + this.filtered.length) % this.filtered.length;
+          this.render();
+        }
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        const command = this.filtered[this.selectedIndex];
+        if (command) {
+          this.run(command);
+        }
+      }
+    });
+
+    // Touche Escape pour fermer la palette
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isVisible) {
+        this.hide();
+      }
+    });
+  }
+
+  /**
+   * Définit les callbacks pour les actions de la palette.
+   */
+  setCallbacks(callbacks: CommandPaletteCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Affiche la palette avec les commandes de l'état de jeu actuel.
+   * @param commands - Les commandes et leur statut (CommandController.getCommands)
+   * @param query - Recherche initiale (optionnel)
+   */
+  show(commands: CommandStatus[], query: string = ''): void {
+    this.commands = commands;
+    this.selectedIndex = 0;
+    if (this.input) {
+      this.input.value = query;
+    }
+    this.render();
+    this.panel.classList.remove('hidden');
+    this.isVisible = true;
+    this.input?.focus();
+  }
+
+  /**
+   * Masque la palette.
+   */
+  hide(): void {
+    this.panel.classList.add('hidden');
+    this.isVisible = false;
+    this.input?.blur();
+  }
+
+  /**
+   * Vérifie si la palette est actuellement visible.
+   */
+  isShown(): boolean {
+    return this.isVisible;
+  }
+
+  private run(command: CommandStatus): void {
+    if (command.disabledReason !== null) {
+      return;
+    }
+    this.hide();
+    if (this.callbacks.onRun) {
+      this.callbacks.onRun(command);
+    }
+  }
+
+  private render(): void {
+    if (!this.list) {
+      return;
+    }
+    const terms = CommandPaletteView.normalize(this.input?.value ?? '').split(/\s+/).filter(term => term.length > 0);
+    this.filtered = this.commands.filter(command => {
+      const label = CommandPaletteView.normalize(CommandPaletteView.getLabel(command));
+      return terms.every(term => label.includes(term));
+    });
+
+    this.list.innerHTML = '';
+    if (this.filtered.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'command-item disabled';
+      empty.textContent = localize('command.noResult');
+      this.list.appendChild(empty);
+      return;
+    }
+
+    this.filtered.forEach((command, index) => {
+      const item = document.createElement('li');
+      item.className = 'command-item';
+      item.classList.toggle('selected', index === this.selectedIndex);
+      item.classList.toggle('disabled', command.disabledReason !== null);
+
+      const label = document.createElement('span');
+      label.textContent = CommandPaletteView.getLabel(command);
+      item.appendChild(label);
+
+      const shortcut = this.formatShortcut(command.id);
+      if (shortcut) {
+        const kbd = document.createElement('kbd');
+        kbd.textContent = shortcut;
+        item.appendChild(kbd);
+      }
+
+      if (command.disabledReason !== null) {
+        const reason = document.createElement('small');
+        reason.className = 'command-reason';
+        reason.textContent = command.disabledReason;
+        item.appendChild(reason);
+      }
+
+      item.addEventListener('click', () => this.run(command));
+      this.list!.appendChild(item);
+    });
+    this.list.children[this.selectedIndex]?.scrollIntoView({ block: 'nearest' });
+  }
+
+  /**
+   * Décrit le raccourci clavier d'une commande (vide si elle n'en a pas).
+   */
+  private formatShortcut(id: CommandId): string {
+    switch (id) {
+      case CommandId.PreviousCity:
+        return `${localize('command.key.shift')}+C`;
+      case CommandId.Undo:
+        return 'Ctrl+Z';
+      case CommandId.Redo:
+        return 'Ctrl+Y';
+      default:
+        return CommandPaletteView.SHORTCUT_KEYS[id]?.toUpperCase() ?? '';
+    }
+  }
+
+  /**
+   * Met un texte en minuscules sans accents pour la recherche.
+   */
+  private static normalize(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  }
+}
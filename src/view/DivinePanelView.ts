@@ -0,0 +1,195 @@
+import { GodState } from '../model/game/GodState';
+import { ALL_DIVINE_POWER_TYPES, DivinePowerType } from '../model/god/types';
+import { DivineController } from '../controller/DivineController';
+import { localize } from '../i18n';
+
+/**
+ * Callbacks pour les actions du panneau divin.
+ */
+export interface DivinePanelCallbacks {
+  /** Callback appelé lorsque l'utilisateur demande l'ascension */
+  onAscend?: () => void;
+  /** Callback appelé lorsque l'utilisateur achète un pouvoir divin */
+  onPurchasePower?: (type: DivinePowerType) => void;
+}
+
+/**
+ * Panneau de la couche divine.
+ * Affiche les points divins, le gain d'ascension et la boutique des pouvoirs divins.
+ */
+export class DivinePanelView {
+  private panel: HTMLElement;
+  private godPointsDisplay: HTMLElement | null = null;
+  private ascensionsDisplay: HTMLElement | null = null;
+  private ascendInfo: HTMLElement | null = null;
+  private ascendBtn: HTMLButtonElement | null = null;
+  private powersList: HTMLUListElement | null = null;
+  private closeBtn: HTMLButtonElement | null = null;
+
+  private callbacks: DivinePanelCallbacks = {};
+  private isVisible: boolean = false;
+  private godState: GodState | null = null;
+
+  constructor(panelId: string = 'divine-panel') {
+    const panelEl = document.getElementById(panelId);
+    if (!panelEl) {
+      throw new Error(localize('error.elementNotFound', { id: panelId }));
+    }
+
+    this.panel = panelEl;
+    this.godPointsDisplay = document.getElementById('divine-god-points');
+    this.ascensionsDisplay = document.getElementById('divine-ascensions');
+    this.ascendInfo = document.getElementById('divine-ascend-info');
+    this.ascendBtn = document.getElementById('divine-ascend-btn') as HTMLButtonElement | null;
+    this.powersList = document.getElementById('divine-powers-list') as HTMLUListElement | null;
+    this.closeBtn = document.getElementById('divine-close-btn') as HTMLButtonElement | null;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Configure les gestionnaires d'événements.
+   */
+  private setupEventListeners(): void {
+    if (this.closeBtn) {
+      this.closeBtn.addEventListener('click', () => this.hide());
+    }
+
+    if (this.ascendBtn) {
+      this.ascendBtn.addEventListener('click', () => {
+        if (this.ascendBtn?.disabled) {
+          return;
+        }
+        if (this.callbacks.onAscend) {
+          this.callbacks.onAscend();
+        }
+      });
+    }
+
+    // Touche Escape pour fermer le panneau
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isVisible) {
+        this.hide();
+      }
+    });
+  }
+
+  /**
+   * Définit les callbacks pour les actions du panneau.
+   */
+  setCallbacks(callbacks: DivinePanelCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Affiche le panneau pour l'état divin donné.
+   * @param godState - L'état divin (points, pouvoirs et civilisation courante)
+   */
+  show(godState: GodState): void {
+    this.godState = godState;
+    this.refresh();
+    this.panel.classList.remove('hidden');
+    this.isVisible = true;
+  }
+
+  /**
+   * Met à jour le contenu du panneau (après un achat ou une ascension).
+   * @param godState - Le nouvel état divin, si l'état a été recréé
+   */
+  refresh(godState?: GodState): void {
+    if (godState) {
+      this.godState = godState;
+    }
+    if (this.godState) {
+      this.updateDisplay(this.godState);
+    }
+  }
+
+  /**
+   * Masque le panneau.
+   */
+  hide(): void {
+    this.panel.classList.add('hidden');
+    this.isVisible = false;
+  }
+
+  /**
+   * Vérifie si le panneau est actuellement visible.
+   */
+  isShown(): boolean {
+    return this.isVisible;
+  }
+
+  private updateDisplay(godState: GodState): void {
+    if (this.godPointsDisplay) {
+      this.godPointsDisplay.textContent = localize('divine.godPoints', { points: String(godState.getGodPoints()) });
+    }
+    if (this.ascensionsDisplay) {
+      this.ascensionsDisplay.textContent = localize('divine.ascensions', { count: String(godState.getAscensionCount()) });
+    }
+
+    const gain = DivineController.calculateAscensionGain(godState.getCivilizationState());
+    if (this.ascendInfo) {
+      this.ascendInfo.textContent = gain.success
+        ? localize('divine.ascendGain', { points: String(gain.godPointsGained) })
+        : gain.message;
+    }
+    if (this.ascendBtn) {
+      this.ascendBtn.disabled = !gain.success;
+    }
+
+    if (this.powersList) {
+      this.powersList.innerHTML = '';
+      for (const type of ALL_DIVINE_POWER_TYPES) {
+        this.powersList.appendChild(this.createPowerItem(godState, type));
+      }
+    }
+  }
+
+  /**
+   * Crée l'élément de liste d'un pouvoir divin (nom, niveau, coût, description et bouton d'achat).
+   */
+  private createPowerItem(godState: GodState, type: DivinePowerType): HTMLLIElement {
+    const level = godState.getDivinePowers().getLevel(type);
+    const maxLevel = DivineController.getMaxLevel(type);
+    const isMaxed = level >= maxLevel;
+
+    const item = document.createElement('li');
+    item.className = 'upgrade-item';
+
+    const header = document.createElement('div');
+    header.className = 'upgrade-header';
+
+    const title = document.createElement('strong');
+    title.textContent = `${localize(`divine.power.${type}.label`)} — ${localize('divine.powerLevel', { level: String(level), max: String(maxLevel) })}`;
+    header.appendChild(title);
+
+    const cost = document.createElement('span');
+    cost.className = 'upgrade-cost';
+    cost.textContent = isMaxed
+      ? localize('divine.powerMaxed')
+      : localize('divine.powerCost', { cost: String(DivineController.getPowerCost(type, level)) });
+    header.appendChild(cost);
+
+    const buyBtn = document.createElement('button');
+    buyBtn.className = 'upgrade-buy-btn';
+    buyBtn.textContent = localize('divine.buy');
+    buyBtn.disabled = !DivineController.canPurchasePower(godState, type);
+    buyBtn.addEventListener('click', () => {
+      if (this.callbacks.onPurchasePower) {
+        this.callbacks.onPurchasePower(type);
+      }
+    });
+    header.appendChild(buyBtn);
+
+    const description = document.createElement('p');
+    description.className = 'upgrade-description';
+    description.textContent = localize(`divine.power.${type}.description`, {
+      amount: String(DivineController.STARTING_RESOURCES_PER_LEVEL),
+    });
+
+    item.appendChild(header);
+    item.appendChild(description);
+    return item;
+  }
+}
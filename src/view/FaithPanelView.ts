@@ -0,0 +1,227 @@
+import { CivilizationState } from '../model/game/CivilizationState';
+import { ResourceHarvest } from '../model/game/ResourceHarvest';
+import { BuildingType } from '../model/city/BuildingType';
+import { HexType } from '../model/map/HexType';
+import { BlessingType, BLESSING_DEFINITIONS } from '../model/faith/types';
+import { FaithController } from '../controller/FaithController';
+import { localize } from '../i18n';
+
+/**
+ * Callbacks pour les actions du panneau du Temple.
+ */
+export interface FaithPanelCallbacks {
+  /** Callback appelé lorsque l'utilisateur achète une bénédiction */
+  onActivate?: (type: BlessingType, hexType?: HexType) => void;
+}
+
+/**
+ * Panneau du Temple.
+ * Affiche la foi accumulée, sa production et les bénédictions achetables ou actives.
+ */
+export class FaithPanelView {
+  /** Types d'hexagone pouvant être ciblés par BountifulHarvest. */
+  private static readonly HARVEST_HEX_TYPES: readonly HexType[] = Object.values(HexType)
+    .filter(hexType => ResourceHarvest.hexTypeToResourceType(hexType) !== null);
+
+  private panel: HTMLElement;
+  private faithDisplay: HTMLElement | null = null;
+  private productionDisplay: HTMLElement | null = null;
+  private blessingsList: HTMLUListElement | null = null;
+  private closeBtn: HTMLButtonElement | null = null;
+
+  private callbacks: FaithPanelCallbacks = {};
+  private isVisible: boolean = false;
+  private civState: CivilizationState | null = null;
+  /** Dernier état affiché, pour ne reconstruire la liste qu'en cas de changement */
+  private lastRenderKey: string | null = null;
+
+  constructor(panelId: string = 'faith-panel') {
+    const panelEl = document.getElementById(panelId);
+    if (!panelEl) {
+      throw new Error(localize('error.elementNotFound', { id: panelId }));
+    }
+
+    this.panel = panelEl;
+    this.faithDisplay = document.getElementById('faith-amount');
+    this.productionDisplay = document.getElementById('faith-production');
+    this.blessingsList = document.getElementById('faith-blessings-list') as HTMLUListElement | null;
+    this.closeBtn = document.getElementById('faith-close-btn') as HTMLButtonElement | null;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Configure les gestionnaires d'événements.
+   */
+  private setupEventListeners(): void {
+    if (this.closeBtn) {
+      this.closeBtn.addEventListener('click', () => this.hide());
+    }
+
+    // Touche Escape pour fermer le panneau
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isVisible) {
+        this.hide();
+      }
+    });
+  }
+
+  /**
+   * Définit les callbacks pour les actions du panneau.
+   */
+  setCallbacks(callbacks: FaithPanelCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Affiche le panneau pour la civilisation donnée.
+   * @param civState - L'état de la civilisation (foi, carte et horloge)
+   */
+  show(civState: CivilizationState): void {
+    this.civState = civState;
+    this.lastRenderKey = null;
+    this.refresh();
+    this.panel.classList.remove('hidden');
+    this.isVisible = true;
+  }
+
+  /**
+   * Met à jour le contenu du panneau (production de foi, bénédictions qui expirent ou nouvelle partie).
+   * @param civState - Le nouvel état de civilisation, si l'état a été recréé
+   */
+  refresh(civState?: CivilizationState): void {
+    if (civState) {
+      this.civState = civState;
+    }
+    if (this.civState) {
+      this.updateDisplay(this.civState);
+    }
+  }
+
+  /**
+   * Masque le panneau.
+   */
+  hide(): void {
+    this.panel.classList.add('hidden');
+    this.isVisible = false;
+  }
+
+  /**
+   * Vérifie si le panneau est actuellement visible.
+   */
+  isShown(): boolean {
+    return this.isVisible;
+  }
+
+  private updateDisplay(civState: CivilizationState): void {
+    const islandState = civState.getIslandState();
+    const faith = islandState.getFaith();
+    const currentTime = islandState.getGameClock().getCurrentTime();
+    const active = faith.getActiveBlessings(currentTime);
+    const renderKey = `${faith.getFaith()}|${active.map(b => `${b.type}:${Math.ceil(b.endTime - currentTime)}`).join(',')}`;
+    if (renderKey === this.lastRenderKey) {
+      return;
+    }
+    this.lastRenderKey = renderKey;
+
+    if (this.faithDisplay) {
+      this.faithDisplay.textContent = localize('faith.amount', { faith: String(faith.getFaith()) });
+    }
+    if (this.productionDisplay) {
+      this.productionDisplay.textContent = this.formatProduction(civState);
+    }
+
+    if (this.blessingsList) {
+      this.blessingsList.innerHTML = '';
+      for (const type of Object.values(BlessingType)) {
+        this.blessingsList.appendChild(this.createBlessingItem(civState, type, currentTime));
+      }
+    }
+  }
+
+  /**
+   * Décrit la production de foi des temples (par minute).
+   */
+  private formatProduction(civState: CivilizationState): string {
+    const map = civState.getIslandState().getIslandMap();
+    const cyclesPerMinute = 60 / FaithController.getFaithInterval(civState.getGameModifiers());
+    let perMinute = 0;
+    if (map) {
+      for (const city of map.getCitiesByCivilization(civState.getPlayerCivilizationId())) {
+        const temple = city.getBuilding(BuildingType.Temple);
+        if (temple) {
+          perMinute += FaithController.getFaithPerCycle(temple.level, FaithController.isOasisCity(city, map)) * cyclesPerMinute;
+        }
+      }
+    }
+    return localize('faith.production', { amount: perMinute.toFixed(1) });
+  }
+
+  /**
+   * Crée l'élément de liste d'une bénédiction (nom, coût ou temps restant, description et boutons).
+   */
+  private createBlessingItem(civState: CivilizationState, type: BlessingType, currentTime: number): HTMLLIElement {
+    const islandState = civState.getIslandState();
+    const definition = BLESSING_DEFINITIONS[type];
+    const blessing = islandState.getFaith().getActiveBlessings(currentTime).find(b => b.type === type);
+
+    const item = document.createElement('li');
+    item.className = 'upgrade-item';
+
+    const header = document.createElement('div');
+    header.className = 'upgrade-header';
+
+    const title = document.createElement('strong');
+    title.textContent = `${definition.icon} ${localize(definition.nameKey)}`;
+    header.appendChild(title);
+
+    const cost = document.createElement('span');
+    cost.className = 'upgrade-cost';
+    cost.textContent = blessing
+      ? localize('faith.active', { seconds: String(Math.ceil(blessing.endTime - currentTime)) })
+      : localize('faith.cost', { cost: String(definition.cost), seconds: String(definition.durationSeconds) });
+    header.appendChild(cost);
+
+    if (!blessing && type !== BlessingType.BountifulHarvest) {
+      header.appendChild(this.createActivateButton(civState, type, localize('faith.activate')));
+    }
+
+    const description = document.createElement('p');
+    description.className = 'upgrade-description';
+    description.textContent = localize(definition.descriptionKey);
+
+    item.appendChild(header);
+    item.appendChild(description);
+
+    // Récolte bénie : un bouton par type d'hexagone récoltable
+    if (!blessing && type === BlessingType.BountifulHarvest) {
+      const targets = document.createElement('div');
+      targets.className = 'upgrade-header';
+      for (const hexType of FaithPanelView.HARVEST_HEX_TYPES) {
+        const resourceType = ResourceHarvest.hexTypeToResourceType(hexType)!;
+        const label = localize(`resource.${resourceType.toLowerCase()}`);
+        targets.appendChild(this.createActivateButton(civState, type, label, hexType));
+      }
+      item.appendChild(targets);
+    }
+    return item;
+  }
+
+  private createActivateButton(
+    civState: CivilizationState,
+    type: BlessingType,
+    label: string,
+    hexType?: HexType
+  ): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'upgrade-buy-btn';
+    button.textContent = label;
+    button.disabled = !FaithController.canActivateBlessing(civState.getIslandState(), type, hexType);
+    button.addEventListener('click', () => {
+      if (this.callbacks.onActivate) {
+        this.callbacks.onActivate(type, hexType);
+      }
+    });
+    return button;
+  }
+}
@@ -11,10 +11,14 @@ import { CityLevel } from '../model/city/CityLevel';
 import { ResourceHarvestController } from '../controller/ResourceHarvestController';
 import { ResourceHarvest } from '../model/game/ResourceHarvest';
 import { BuildingProductionController } from '../controller/BuildingProductionController';
+import { ExcavationController } from '../controller/ExcavationController';
+import { FaithController } from '../controller/FaithController';
 import { RoadConstruction } from '../model/game/RoadConstruction';
 import { OutpostController } from '../controller/OutpostController';
 import { localize } from '../i18n';
 import { PrestigeMap } from '../model/prestige/PrestigeMap';
+import { GameModifiers } from '../model/game/GameModifiers';
+import { ConstructionKind, ConstructionSite } from '../model/game/ConstructionQueue';
 
 /**
  * Configuration pour le rendu des hexagones.
@@ -109,6 +113,10 @@ export class HexMapRenderer {
   private tooltipElement: HTMLDivElement | null = null;
   private tooltipEdge: Edge | null = null;
   private tooltipOutpostVertex: Vertex | null = null;
+  private gameModifiers: GameModifiers = GameModifiers.NONE;
+  private constructionSites: readonly ConstructionSite[] = [];
+  /** Temps de jeu actuel (progression des chantiers et délais de récolte) */
+  private gameTime: number = 0;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -272,6 +280,23 @@ export class HexMapRenderer {
     this.showCoordinates = show;
   }
 
+  /**
+   * Définit les modificateurs de jeu utilisés pour afficher les coûts dans les tooltips.
+   */
+  setGameModifiers(modifiers: GameModifiers): void {
+    this.gameModifiers = modifiers;
+  }
+
+  /**
+   * Définit les chantiers en cours à afficher avec leur progression.
+   * @param sites - Les chantiers en cours
+   * @param currentTime - Le temps de jeu actuel (en secondes), utilisé aussi pour les délais de récolte
+   */
+  setConstructionSites(sites: readonly ConstructionSite[], currentTime: number): void {
+    this.constructionSites = sites;
+    this.gameTime = currentTime;
+  }
+
   /**
    * Dessine la carte complète sur le canvas.
    * @param islandMap - La carte à dessiner
@@ -361,6 +386,9 @@ export class HexMapRenderer {
     // Dessiner les villes sur leurs sommets (en dernier pour qu'elles soient par-dessus les routes)
     this.drawCities(islandMap, config);
 
+    // Dessiner la progression des chantiers (par-dessus les villes)
+    this.drawConstructionSites(islandMap, config);
+
     // Dessiner les particules de ressources animées (par-dessus tout le reste)
     this.drawResourceParticles();
     
@@ -465,7 +493,9 @@ export class HexMapRenderer {
     const visibleHexes = allHexes.filter(hex => islandMap.isHexVisible(hex.coord));
     
     const hasActiveCooldown = visibleHexes.some(hex => {
-      const remainingCooldown = ResourceHarvestController.getRemainingCooldown(hex.coord);
+      const remainingCooldown = ResourceHarvestController.getRemainingCooldown(
+        hex.coord, islandMap, this.gameTime, this.gameModifiers
+      );
       return remainingCooldown > 0;
     });
     
@@ -495,7 +525,9 @@ export class HexMapRenderer {
           
           // Vérifier s'il y a encore des cooldowns actifs après le rendu
           const stillHasActiveCooldown = currentVisibleHexes.some(hex => {
-            const remainingCooldown = ResourceHarvestController.getRemainingCooldown(hex.coord);
+            const remainingCooldown = ResourceHarvestController.getRemainingCooldown(
+              hex.coord, this.currentIslandMap!, this.gameTime, this.gameModifiers
+            );
             return remainingCooldown > 0;
           });
           
@@ -551,6 +583,22 @@ export class HexMapRenderer {
     return this.selectedVertex;
   }
 
+  /**
+   * Sélectionne une ville sans passer par un clic (raccourcis clavier) et notifie
+   * le callback de changement de sélection si elle change.
+   * @param vertex - Le sommet de la ville à sélectionner, ou null pour désélectionner
+   */
+  setSelectedVertex(vertex: Vertex | null): void {
+    const previousSelection = this.selectedVertex;
+    this.selectedVertex = vertex;
+    const selectionChanged = previousSelection === null || vertex === null
+      ? previousSelection !== vertex
+      : !previousSelection.equals(vertex);
+    if (selectionChanged && this.onSelectionChangeCallback) {
+      this.onSelectionChangeCallback(vertex);
+    }
+  }
+
   /**
    * Retourne le sprite (image) d'une ville selon son niveau.
    * @param level - Le niveau de la ville
@@ -608,6 +656,7 @@ export class HexMapRenderer {
     [ResourceType.Wheat]: '#FFD700',
     [ResourceType.Sheep]: '#90EE90',
     [ResourceType.Ore]: '#708090',
+    [ResourceType.Tools]: '#5A5A5A',
   };
 
   /**
@@ -868,8 +917,13 @@ export class HexMapRenderer {
     this.ctx.lineWidth = 1;
     this.ctx.stroke();
 
+    // Dessiner le rendement de l'hex (points sous le centre)
+    if (ResourceHarvest.hexTypeToResourceType(hexType) !== null) {
+      this.drawYieldPips(coord, islandMap, x, y, currentHexSize);
+    }
+
     // Dessiner le timer de cooldown si l'hex est en cooldown
-    this.drawCooldownTimer(coord, x, y, currentHexSize);
+    this.drawCooldownTimer(coord, islandMap, x, y, currentHexSize);
     
     // Dessiner un cadenas si l'hex est terrestre mais non récoltable
     if (civId && hexType !== HexType.Water) {
@@ -881,10 +935,45 @@ export class HexMapRenderer {
 
     // Dessiner le texte "auto" si l'hex est récolté automatiquement
     if (civId && BuildingProductionController.isHexAutoHarvested(coord, civId, islandMap)) {
-      this.drawAutoIcon(x, y, currentHexSize);
+      this.drawHexLabel(localize('label.auto'), x, y, currentHexSize);
+    }
+
+    // Signaler les déserts mis en valeur : fouilles (sous le cadenas) et oasis d'un temple (au-dessus)
+    if (civId && hexType === HexType.Desert) {
+      if (ExcavationController.isHexExcavated(coord, civId, islandMap)) {
+        this.drawHexLabel(localize('label.excavation'), x, y + currentHexSize * 0.5, currentHexSize);
+      }
+      if (FaithController.isOasisHex(coord, civId, islandMap)) {
+        this.drawHexLabel(localize('label.oasis'), x, y - currentHexSize * 0.5, currentHexSize);
+      }
     }
   }
 
+  /**
+   * Dessine le rendement d'un hexagone sous forme de points, comme les jetons de Catane.
+   * Les points au-delà du rendement actuel (réserve de richesse épuisée) sont dessinés vides.
+   */
+  private drawYieldPips(hexCoord: HexCoord, islandMap: IslandMap, centerX: number, centerY: number, hexSize: number): void {
+    const hexYield = islandMap.getHexYield(hexCoord);
+    const effectiveYield = islandMap.getEffectiveHexYield(hexCoord, this.gameTime);
+    const radius = hexSize * 0.06;
+    const spacing = radius * 3;
+    const pipsY = centerY + hexSize * 0.6;
+    const firstX = centerX - (spacing * (hexYield - 1)) / 2;
+
+    this.ctx.save();
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeStyle = '#000000';
+    for (let i = 0; i < hexYield; i++) {
+      this.ctx.beginPath();
+      this.ctx.arc(firstX + i * spacing, pipsY, radius, 0, Math.PI * 2);
+      this.ctx.fillStyle = i < effectiveYield ? '#FFFFFF' : 'rgba(255, 255, 255, 0.25)';
+      this.ctx.fill();
+      this.ctx.stroke();
+    }
+    this.ctx.restore();
+  }
+
   /**
    * Dessine une icône de cadenas au centre d'un hexagone pour indiquer qu'il n'est pas récoltable.
    * Utilise le sprite SVG chargé depuis les assets.
@@ -913,13 +1002,13 @@ export class HexMapRenderer {
   }
 
   /**
-   * Dessine le texte "auto" au centre d'un hexagone pour indiquer qu'il est récolté automatiquement.
+   * Dessine un court texte sur un hexagone ("auto" au centre d'un hexagone récolté automatiquement,
+   * fouilles ou oasis sur un désert).
    */
-  private drawAutoIcon(centerX: number, centerY: number, hexSize: number): void {
+  private drawHexLabel(text: string, centerX: number, centerY: number, hexSize: number): void {
     this.ctx.save();
     
     const fontSize = hexSize * 0.25;
-    const text = localize('label.auto');
     
     // Configurer la police
     this.ctx.font = `bold ${fontSize}px Arial, sans-serif`;
@@ -943,14 +1032,16 @@ export class HexMapRenderer {
   /**
    * Dessine un timer circulaire pour indiquer le temps restant avant de pouvoir récolter à nouveau.
    */
-  private drawCooldownTimer(hexCoord: HexCoord, centerX: number, centerY: number, hexSize: number): void {
-    const remainingCooldown = ResourceHarvestController.getRemainingCooldown(hexCoord);
+  private drawCooldownTimer(hexCoord: HexCoord, islandMap: IslandMap, centerX: number, centerY: number, hexSize: number): void {
+    const remainingCooldown = ResourceHarvestController.getRemainingCooldown(
+      hexCoord, islandMap, this.gameTime, this.gameModifiers
+    );
     
     if (remainingCooldown <= 0) {
       return; // Pas de cooldown, ne rien afficher
     }
 
-    const harvestIntervalMs = ResourceHarvestController.getHarvestIntervalMs();
+    const harvestIntervalMs = ResourceHarvestController.getHarvestIntervalMs(this.gameModifiers, { hexCoord, map: islandMap });
     if (harvestIntervalMs <= 0) {
       return; // Sécurité (évite division par 0)
     }
@@ -1044,7 +1135,7 @@ export class HexMapRenderer {
         const isHovered = this.hoveredVertex !== null && this.hoveredVertex.equals(vertex);
         const isSelected = this.selectedVertex !== null && this.selectedVertex.equals(vertex);
         if (city) {
-          this.drawCity(vertex, city, config, isHovered, isSelected);
+          this.drawCity(vertex, city, config, isHovered, isSelected, this.isRivalOwner(city.owner));
         }
       }
     }
@@ -1057,8 +1148,9 @@ export class HexMapRenderer {
    * @param config - La configuration de rendu
    * @param isHovered - true si la ville est survolée par la souris
    * @param isSelected - true si la ville est sélectionnée
+   * @param isRival - true si la ville appartient à une civilisation rivale (aura rouge)
    */
-  private drawCity(vertex: Vertex, city: City, config: RenderConfig, isHovered: boolean = false, isSelected: boolean = false): void {
+  private drawCity(vertex: Vertex, city: City, config: RenderConfig, isHovered: boolean = false, isSelected: boolean = false, isRival: boolean = false): void {
     const { hexSize, offsetX, offsetY } = config;
     const hexes = vertex.getHexes();
 
@@ -1107,9 +1199,15 @@ export class HexMapRenderer {
       // Dessiner l'aura jaune autour du sprite pour améliorer le contraste
       const auraRadius = baseSize / 2 + 3; // Rayon de l'aura (légèrement plus grand que le sprite)
       const gradient = this.ctx.createRadialGradient(0, 0, baseSize / 2, 0, 0, auraRadius);
-      gradient.addColorStop(0, 'rgba(255, 255, 0, 0.0)'); // Transparent au centre
-      gradient.addColorStop(0.7, 'rgba(255, 255, 200, 0.6)'); // Jaune clair
-      gradient.addColorStop(1, 'rgba(255, 255, 0, 0.3)'); // Jaune plus foncé à l'extérieur
+      if (isRival) {
+        gradient.addColorStop(0, 'rgba(200, 0, 0, 0.0)'); // Transparent au centre
+        gradient.addColorStop(0.7, 'rgba(255, 120, 120, 0.6)'); // Rouge clair
+        gradient.addColorStop(1, 'rgba(200, 0, 0, 0.4)'); // Rouge plus foncé à l'extérieur
+      } else {
+        gradient.addColorStop(0, 'rgba(255, 255, 0, 0.0)'); // Transparent au centre
+        gradient.addColorStop(0.7, 'rgba(255, 255, 200, 0.6)'); // Jaune clair
+        gradient.addColorStop(1, 'rgba(255, 255, 0, 0.3)'); // Jaune plus foncé à l'extérieur
+      }
       
       this.ctx.fillStyle = gradient;
       this.ctx.beginPath();
@@ -1142,7 +1240,7 @@ export class HexMapRenderer {
     } else {
       // Fallback : dessiner un carré simple si les sprites ne sont pas encore chargés
       const fallbackSize = baseSize * scale;
-      let baseColor = '#2C2C2C';
+      let baseColor = isRival ? '#B22222' : '#2C2C2C';
       if (isSelected) {
         baseColor = '#FFA500';
       } else if (isHovered) {
@@ -1166,6 +1264,13 @@ export class HexMapRenderer {
   }
 
 
+  /**
+   * Indique si une civilisation est rivale de celle affichée.
+   */
+  private isRivalOwner(owner: CivilizationId): boolean {
+    return this.currentCivilizationId !== null && !owner.equals(this.currentCivilizationId);
+  }
+
   /**
    * Dessine les routes construites sur la carte.
    */
@@ -1198,6 +1303,10 @@ export class HexMapRenderer {
     const buildableRoads = islandMap.getBuildableRoadsForCivilization(civId);
 
     for (const edge of buildableRoads) {
+      // Une route en chantier est dessinée avec sa progression
+      if (this.constructionSites.some(s => s.kind === ConstructionKind.Road && s.edge!.equals(edge))) {
+        continue;
+      }
       const isHighlighted = this.hoveredEdge !== null && this.hoveredEdge.equals(edge);
       this.drawRoad(edge, config, true, islandMap, isHighlighted); // true = trait pointillé
     }
@@ -1214,11 +1323,71 @@ export class HexMapRenderer {
     const buildableVertices = islandMap.getBuildableOutpostVertices(civId);
 
     for (const vertex of buildableVertices) {
+      // Un avant-poste en chantier est dessiné avec sa progression
+      if (this.constructionSites.some(s => s.kind === ConstructionKind.Outpost && s.vertex!.equals(vertex))) {
+        continue;
+      }
       const isHighlighted = this.hoveredOutpostVertex !== null && this.hoveredOutpostVertex.equals(vertex);
       this.drawBuildableOutpostVertex(vertex, config, isHighlighted);
     }
   }
 
+  /**
+   * Dessine la progression des chantiers en cours.
+   * Routes : trait plein partiel le long de l'arête.
+   * Avant-postes, bâtiments et améliorations : arc de cercle autour du sommet.
+   */
+  private drawConstructionSites(islandMap: IslandMap, config: RenderConfig): void {
+    for (const site of this.constructionSites) {
+      const progress = site.getProgress(this.gameTime);
+
+      if (site.kind === ConstructionKind.Road) {
+        const vertices = islandMap.getVerticesForEdge(site.edge!);
+        if (vertices.length < 2) {
+          continue;
+        }
+        const pos1 = this.getVertexPosition(vertices[0], config);
+        const pos2 = this.getVertexPosition(vertices[1], config);
+
+        this.ctx.save();
+        // Tracé complet en pointillé, puis partie construite en trait plein
+        this.ctx.beginPath();
+        this.ctx.moveTo(pos1.x, pos1.y);
+        this.ctx.lineTo(pos2.x, pos2.y);
+        this.ctx.strokeStyle = '#8B4513';
+        this.ctx.lineWidth = 2;
+        this.ctx.setLineDash([3, 3]);
+        this.ctx.stroke();
+
+        this.ctx.beginPath();
+        this.ctx.moveTo(pos1.x, pos1.y);
+        this.ctx.lineTo(pos1.x + (pos2.x - pos1.x) * progress, pos1.y + (pos2.y - pos1.y) * progress);
+        this.ctx.lineWidth = 4;
+        this.ctx.setLineDash([]);
+        this.ctx.stroke();
+        this.ctx.restore();
+        continue;
+      }
+
+      const center = this.getVertexPosition(site.vertex!, config);
+      // Avant-poste : autour du marqueur constructible ; bâtiment : autour de la ville
+      const radius = site.kind === ConstructionKind.Outpost ? 8 : 20;
+
+      this.ctx.save();
+      this.ctx.beginPath();
+      this.ctx.arc(center.x, center.y, radius, 0, 2 * Math.PI);
+      this.ctx.strokeStyle = 'rgba(0, 0, 0, 0.4)';
+      this.ctx.lineWidth = 3;
+      this.ctx.stroke();
+
+      this.ctx.beginPath();
+      this.ctx.arc(center.x, center.y, radius, -Math.PI / 2, -Math.PI / 2 + 2 * Math.PI * progress);
+      this.ctx.strokeStyle = '#FFD700';
+      this.ctx.stroke();
+      this.ctx.restore();
+    }
+  }
+
   /**
    * Dessine un vertex constructible pour un avant-poste (rond en pointillé).
    * @param vertex - Le vertex à dessiner
@@ -1303,7 +1472,9 @@ export class HexMapRenderer {
       this.ctx.strokeStyle = '#FFA500'; // Orange
       this.ctx.lineWidth = 6;
     } else {
-      this.ctx.strokeStyle = '#000000';
+      // Les routes des civilisations rivales sont dessinées en rouge
+      const owner = islandMap.getRoadOwner(edge);
+      this.ctx.strokeStyle = owner && this.isRivalOwner(owner) ? '#B22222' : '#000000';
       this.ctx.lineWidth = 4;
     }
 
@@ -1827,7 +1998,7 @@ export class HexMapRenderer {
     }
 
     // Calculer le coût
-    const cost = RoadConstruction.getCost(distance);
+    const cost = RoadConstruction.getCost(distance, this.gameModifiers);
     const brickCost = cost.get(ResourceType.Brick) || 0;
     const woodCost = cost.get(ResourceType.Wood) || 0;
 
@@ -1853,9 +2024,10 @@ export class HexMapRenderer {
     // S'assurer que le tooltip de route est masqué
     this.tooltipEdge = null;
 
-    // Calculer le coût
-    const cityCount = this.currentIslandMap.getCityCount();
-    const cost = OutpostController.getBuildableOutpostCost(cityCount);
+    // Calculer le coût (les avant-postes en chantier comptent comme des villes)
+    const cityCount = this.currentIslandMap.getCitiesByCivilization(this.currentCivilizationId).length
+      + this.constructionSites.filter(s => s.kind === ConstructionKind.Outpost).length;
+    const cost = OutpostController.getBuildableOutpostCost(cityCount, this.gameModifiers);
     const woodCost = cost.get(ResourceType.Wood) || 0;
     const brickCost = cost.get(ResourceType.Brick) || 0;
     const wheatCost = cost.get(ResourceType.Wheat) || 0;
@@ -2115,9 +2287,10 @@ export class HexMapRenderer {
     const pixelX = (event.clientX - rect.left) * scaleX;
     const pixelY = (event.clientY - rect.top) * scaleY;
 
-    // PRIORITÉ 1: Vérifier d'abord si on a cliqué sur une ville (vertex avec ville)
+    // PRIORITÉ 1: Vérifier d'abord si on a cliqué sur une ville du joueur (les villes rivales ne sont pas sélectionnables)
     const vertex = this.pixelToVertex(pixelX, pixelY);
-    if (vertex && this.currentIslandMap && this.currentIslandMap.hasCity(vertex)) {
+    const clickedCity = vertex && this.currentIslandMap ? this.currentIslandMap.getCity(vertex) : undefined;
+    if (vertex && clickedCity && !this.isRivalOwner(clickedCity.owner)) {
       const previousSelection = this.selectedVertex;
       // Sélectionner/désélectionner la ville
       if (this.selectedVertex && this.selectedVertex.equals(vertex)) {
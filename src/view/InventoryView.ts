@@ -3,8 +3,9 @@ import { ResourceType } from '../model/map/ResourceType';
 import { IslandMap } from '../model/map/IslandMap';
 import { CivilizationId } from '../model/map/CivilizationId';
 import { calculateInventoryCapacity } from '../model/game/InventoryCapacity';
-import { calculateCivilizationPoints, hasLibrary } from '../model/game/CivilizationPoints';
+import { calculateCivilizationPoints, hasLibrary, hasTemple } from '../model/game/CivilizationPoints';
 import { ResourceSprites } from './ResourceSprites';
+import { GameModifiers } from '../model/game/GameModifiers';
 import { localize } from '../i18n';
 
 /**
@@ -26,6 +27,8 @@ export class InventoryView {
         return localize('resource.sheep');
       case ResourceType.Ore:
         return localize('resource.ore');
+      case ResourceType.Tools:
+        return localize('resource.tools');
       default:
         return String(resource);
     }
@@ -38,6 +41,7 @@ export class InventoryView {
     ResourceType.Wheat,
     ResourceType.Sheep,
     ResourceType.Ore,
+    ResourceType.Tools,
   ];
 
   // Couleurs de fallback pour les ressources
@@ -47,6 +51,7 @@ export class InventoryView {
     [ResourceType.Wheat]: '#FFD700',
     [ResourceType.Sheep]: '#90EE90',
     [ResourceType.Ore]: '#708090',
+    [ResourceType.Tools]: '#5A5A5A',
   };
 
   /**
@@ -68,14 +73,20 @@ export class InventoryView {
    * @param playerResources - Les ressources du joueur
    * @param islandMap - La carte de jeu (peut être null si pas encore initialisée)
    * @param civId - L'identifiant de la civilisation du joueur
+   * @param modifiers - Les modificateurs de jeu (optionnel, pour les points de civilisation)
+   * @param knowledge - La connaissance accumulée (optionnel)
+   * @param faith - La foi accumulée (optionnel)
    */
   updateDisplay(
     playerResources: PlayerResources,
     islandMap: IslandMap | null,
-    civId: CivilizationId
+    civId: CivilizationId,
+    modifiers: GameModifiers = GameModifiers.NONE,
+    knowledge: number = 0,
+    faith: number = 0
   ): void {
-    // Calculer la capacité maximale d'inventaire
-    const maxCapacity = islandMap ? calculateInventoryCapacity(islandMap, civId) : 10;
+    // Calculer la capacité maximale d'inventaire (suspendue par la bénédiction BoundlessStorage)
+    const maxCapacity = islandMap ? calculateInventoryCapacity(islandMap, civId, modifiers) : 10;
 
     // Vider la liste
     this.resourcesListElement.innerHTML = '';
@@ -83,30 +94,39 @@ export class InventoryView {
     // Ajouter toutes les ressources (même à 0)
     for (const resourceType of InventoryView.RESOURCE_ORDER) {
       const count = playerResources.getResource(resourceType);
-      const item = this.createResourceItem(resourceType, count, maxCapacity);
+      const item = this.createResourceItem(resourceType, count, modifiers.areInventoryCapsSuspended() ? '∞' : String(maxCapacity));
       this.resourcesListElement.appendChild(item);
     }
 
-    // Afficher les points de civilisation seulement si une bibliothèque existe
+    // Afficher les points de civilisation et la connaissance seulement si une bibliothèque existe
     if (islandMap && hasLibrary(islandMap, civId)) {
-      const points = calculateCivilizationPoints(islandMap, civId);
-      const pointsElement = this.createCivilizationPointsElement(points);
+      const points = calculateCivilizationPoints(islandMap, civId, modifiers);
+      const pointsElement = this.createCivilizationPointsElement(localize('inventory.civilizationPoints'), points);
       this.resourcesListElement.appendChild(pointsElement);
+      const knowledgeElement = this.createCivilizationPointsElement(localize('inventory.knowledge'), knowledge);
+      this.resourcesListElement.appendChild(knowledgeElement);
+    }
+
+    // Afficher la foi seulement si un temple existe
+    if (islandMap && hasTemple(islandMap, civId)) {
+      const faithElement = this.createCivilizationPointsElement(localize('inventory.faith'), faith);
+      this.resourcesListElement.appendChild(faithElement);
     }
   }
 
   /**
-   * Crée un élément DOM pour afficher les points de civilisation.
-   * @param points - Le nombre de points de civilisation
+   * Crée un élément DOM pour afficher un compteur de civilisation (points de civilisation, connaissance, foi).
+   * @param label - Le libellé affiché
+   * @param points - La valeur du compteur
    * @returns L'élément DOM créé
    */
-  private createCivilizationPointsElement(points: number): HTMLElement {
+  private createCivilizationPointsElement(label: string, points: number): HTMLElement {
     const pointsContainer = document.createElement('div');
     pointsContainer.className = 'civilization-points';
 
     const pointsLabel = document.createElement('span');
     pointsLabel.className = 'civilization-points-label';
-    pointsLabel.textContent = localize('inventory.civilizationPoints');
+    pointsLabel.textContent = label;
 
     const pointsValue = document.createElement('span');
     pointsValue.className = 'civilization-points-value';
@@ -121,13 +141,13 @@ export class InventoryView {
    * Crée un élément DOM pour une ressource.
    * @param resourceType - Le type de ressource
    * @param count - La quantité actuelle
-   * @param maxCapacity - La capacité maximale
+   * @param maxCapacity - La capacité maximale affichée (∞ si les plafonds sont suspendus)
    * @returns L'élément DOM créé
    */
   private createResourceItem(
     resourceType: ResourceType,
     count: number,
-    maxCapacity: number
+    maxCapacity: string
   ): HTMLElement {
     const item = document.createElement('div');
     item.className = 'resource-item';
@@ -0,0 +1,88 @@
+import { IslandEventState } from '../model/events/IslandEventState';
+import { IslandEventType, ISLAND_EVENT_DEFINITIONS } from '../model/events/types';
+import { localize } from '../i18n';
+
+/**
+ * Callbacks pour les actions de la barre des événements.
+ */
+export interface IslandEventBarCallbacks {
+  /** Callback appelé lorsque l'utilisateur accepte l'offre du marchand itinérant */
+  onAcceptTrader?: () => void;
+}
+
+/**
+ * Barre des événements actifs de l'île.
+ * Affiche une icône par événement en cours avec son temps restant, et l'offre du marchand itinérant.
+ */
+export class IslandEventBarView {
+  private bar: HTMLElement;
+  private callbacks: IslandEventBarCallbacks = {};
+  /** Dernier état affiché, pour ne reconstruire la barre qu'en cas de changement */
+  private lastRenderKey: string | null = null;
+
+  constructor(barId: string = 'events-bar') {
+    const barEl = document.getElementById(barId);
+    if (!barEl) {
+      throw new Error(localize('error.elementNotFound', { id: barId }));
+    }
+    this.bar = barEl;
+  }
+
+  /**
+   * Définit les callbacks pour les actions de la barre.
+   */
+  setCallbacks(callbacks: IslandEventBarCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Met à jour la barre avec les événements actifs.
+   * @param events - Les événements de l'île
+   * @param currentTime - Le temps de jeu actuel (en secondes)
+   * @param canAcceptOffer - true si le joueur peut payer l'offre du marchand
+   */
+  updateDisplay(events: IslandEventState, currentTime: number, canAcceptOffer: boolean): void {
+    const active = events.getActiveEvents(currentTime);
+    const renderKey = `${canAcceptOffer}|${active.map(e => `${e.type}:${Math.ceil(e.endTime - currentTime)}`).join(',')}`;
+    if (renderKey === this.lastRenderKey) {
+      return;
+    }
+    this.lastRenderKey = renderKey;
+
+    this.bar.innerHTML = '';
+    this.bar.classList.toggle('hidden', active.length === 0);
+    for (const event of active) {
+      const definition = ISLAND_EVENT_DEFINITIONS[event.type];
+      const seconds = Math.ceil(event.endTime - currentTime);
+
+      const item = document.createElement('span');
+      item.className = 'island-event';
+      item.textContent = `${definition.icon} ${seconds}s`;
+      item.title = `${localize(definition.nameKey)} — ${localize(definition.descriptionKey)}`;
+
+      if (event.type === IslandEventType.WanderingTrader && event.offer) {
+        const offer = document.createElement('span');
+        offer.className = 'island-event-offer';
+        offer.textContent = localize('islandEvent.trader.offer', {
+          giveAmount: String(event.offer.giveAmount),
+          give: localize(`resource.${event.offer.give.toLowerCase()}`),
+          receiveAmount: String(event.offer.receiveAmount),
+          receive: localize(`resource.${event.offer.receive.toLowerCase()}`),
+        });
+        item.appendChild(offer);
+
+        const acceptBtn = document.createElement('button');
+        acceptBtn.className = 'island-event-accept';
+        acceptBtn.textContent = localize('islandEvent.trader.accept');
+        acceptBtn.disabled = !canAcceptOffer;
+        acceptBtn.addEventListener('click', () => {
+          if (this.callbacks.onAcceptTrader) {
+            this.callbacks.onAcceptTrader();
+          }
+        });
+        item.appendChild(acceptBtn);
+      }
+      this.bar.appendChild(item);
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { MapPreset, IslandShape, MapSettings } from '../model/map/MapSettings';
+import { decodeSeedCode } from '../model/map/SeedCode';
+import { RivalSettings } from '../model/game/RivalCivilization';
+import { localize } from '../i18n';
+
+/**
+ * Callbacks pour les actions du panneau de nouvelle partie.
+ */
+export interface NewGamePanelCallbacks {
+  /**
+   * Callback appelé lorsque l'utilisateur lance la génération d'une nouvelle carte.
+   * La seed et les rivaux ne sont fournis que si un code de partage a été saisi.
+   */
+  onStart?: (settings: MapSettings, seed?: number, rivals?: RivalSettings) => void;
+}
+
+/**
+ * Panneau de nouvelle partie.
+ * Permet de choisir le préréglage (taille, ressources) et la forme de l'île avant de générer la carte,
+ * ou de saisir le code de partage d'une île pour la rejouer à l'identique.
+ */
+export class NewGamePanelView {
+  private panel: HTMLElement;
+  private presetSelect: HTMLSelectElement | null = null;
+  private shapeSelect: HTMLSelectElement | null = null;
+  private currentCodeInput: HTMLInputElement | null = null;
+  private copyCodeBtn: HTMLButtonElement | null = null;
+  private codeInput: HTMLInputElement | null = null;
+  private codeError: HTMLElement | null = null;
+  private startBtn: HTMLButtonElement | null = null;
+  private cancelBtn: HTMLButtonElement | null = null;
+
+  private callbacks: NewGamePanelCallbacks = {};
+  private isVisible: boolean = false;
+
+  constructor(panelId: string = 'new-game-panel') {
+    const panelEl = document.getElementById(panelId);
+    if (!panelEl) {
+      throw new Error(localize('error.elementNotFound', { id: panelId }));
+    }
+
+    this.panel = panelEl;
+    this.presetSelect = document.getElementById('new-game-preset') as HTMLSelectElement | null;
+    this.shapeSelect = document.getElementById('new-game-shape') as HTMLSelectElement | null;
+    this.currentCodeInput = document.getElementById('new-game-current-code') as HTMLInputElement | null;
+    this.copyCodeBtn = document.getElementById('new-game-copy-code-btn') as HTMLButtonElement | null;
+    this.codeInput = document.getElementById('new-game-code') as HTMLInputElement | null;
+    this.codeError = document.getElementById('new-game-code-error');
+    this.startBtn = document.getElementById('new-game-start-btn') as HTMLButtonElement | null;
+    this.cancelBtn = document.getElementById('new-game-cancel-btn') as HTMLButtonElement | null;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Configure les gestionnaires d'événements.
+   */
+  private setupEventListeners(): void {
+    if (this.cancelBtn) {
+      this.cancelBtn.addEventListener('click', () => this.hide());
+    }
+
+    if (this.startBtn) {
+      this.startBtn.addEventListener('click', () => this.start());
+    }
+
+    if (this.copyCodeBtn) {
+      this.copyCodeBtn.addEventListener('click', () => this.copyCurrentCode());
+    }
+
+    // Un code saisi impose la forme et le préréglage : les listes sont désactivées
+    if (this.codeInput) {
+      this.codeInput.addEventListener('input', () => {
+        const hasCode = this.codeInput!.value.trim() !== '';
+        if (this.presetSelect) this.presetSelect.disabled = hasCode;
+        if (this.shapeSelect) this.shapeSelect.disabled = hasCode;
+        this.setCodeError(null);
+      });
+    }
+
+    // Touche Escape pour fermer le panneau
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isVisible) {
+        this.hide();
+      }
+    });
+  }
+
+  /**
+   * Définit les callbacks pour les actions du panneau.
+   */
+  setCallbacks(callbacks: NewGamePanelCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Affiche le panneau, avec les paramètres donnés présélectionnés.
+   * @param settings - Les paramètres de la prochaine carte
+   * @param currentCode - Le code de partage de l'île en cours (null si aucune)
+   */
+  show(settings: MapSettings, currentCode: string | null): void {
+    // Les libellés sont reconstruits à chaque ouverture pour suivre la langue courante
+    this.fillSelect(this.presetSelect, Object.values(MapPreset), 'newGame.preset', settings.preset);
+    this.fillSelect(this.shapeSelect, Object.values(IslandShape), 'newGame.shape', settings.shape);
+    if (this.presetSelect) this.presetSelect.disabled = false;
+    if (this.shapeSelect) this.shapeSelect.disabled = false;
+    if (this.currentCodeInput) {
+      this.currentCodeInput.value = currentCode ?? '';
+    }
+    if (this.copyCodeBtn) {
+      this.copyCodeBtn.disabled = currentCode === null;
+      this.copyCodeBtn.textContent = localize('newGame.copyCode');
+    }
+    if (this.codeInput) {
+      this.codeInput.value = '';
+    }
+    this.setCodeError(null);
+    this.panel.classList.remove('hidden');
+    this.isVisible = true;
+  }
+
+  /**
+   * Masque le panneau.
+   */
+  hide(): void {
+    this.panel.classList.add('hidden');
+    this.isVisible = false;
+  }
+
+  /**
+   * Vérifie si le panneau est actuellement visible.
+   */
+  isShown(): boolean {
+    return this.isVisible;
+  }
+
+  /**
+   * Lance la génération : avec le code saisi s'il y en a un (le panneau reste ouvert
+   * avec un message d'erreur si le code est invalide), sinon avec les listes.
+   */
+  private start(): void {
+    const code = this.codeInput?.value.trim() ?? '';
+    let settings = this.getSelectedSettings();
+    let seed: number | undefined;
+    let rivals: RivalSettings | undefined;
+    if (code !== '') {
+      try {
+        ({ seed, settings, rivals } = decodeSeedCode(code));
+      } catch (error) {
+        this.setCodeError(error instanceof Error ? error.message : String(error));
+        return;
+      }
+    }
+
+    this.hide();
+    if (settings && this.callbacks.onStart) {
+      this.callbacks.onStart(settings, seed, rivals);
+    }
+  }
+
+  private copyCurrentCode(): void {
+    if (!this.currentCodeInput || this.currentCodeInput.value === '') {
+      return;
+    }
+    const code = this.currentCodeInput.value;
+    const confirmCopy = () => {
+      if (this.copyCodeBtn) {
+        this.copyCodeBtn.textContent = localize('newGame.codeCopied');
+      }
+    };
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(code).then(confirmCopy, () => this.currentCodeInput?.select());
+    } else {
+      // Presse-papiers indisponible (contexte non sécurisé) : sélection pour copie manuelle
+      this.currentCodeInput.select();
+    }
+  }
+
+  private setCodeError(message: string | null): void {
+    if (this.codeError) {
+      this.codeError.textContent = message ?? '';
+      this.codeError.classList.toggle('hidden', message === null);
+    }
+  }
+
+  private getSelectedSettings(): MapSettings | null {
+    if (!this.presetSelect || !this.shapeSelect) {
+      return null;
+    }
+    return {
+      preset: this.presetSelect.value as MapPreset,
+      shape: this.shapeSelect.value as IslandShape,
+    };
+  }
+
+  private fillSelect(select: HTMLSelectElement | null, values: string[], keyPrefix: string, selected: string): void {
+    if (!select) {
+      return;
+    }
+    select.innerHTML = '';
+    for (const value of values) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = localize(`${keyPrefix}.${value}`);
+      option.selected = value === selected;
+      select.appendChild(option);
+    }
+  }
+}
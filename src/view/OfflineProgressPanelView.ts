@@ -0,0 +1,190 @@
+import { ResourceType } from '../model/map/ResourceType';
+import { OfflineProgressSummary } from '../controller/OfflineProgressController';
+import { localize } from '../i18n';
+
+/**
+ * Panneau "Pendant votre absence".
+ * Affiche le résumé de la progression hors-ligne : durée, ressources gagnées et constructions.
+ */
+export class OfflineProgressPanelView {
+  private panel: HTMLElement;
+  private durationDisplay: HTMLElement | null = null;
+  private cappedDisplay: HTMLElement | null = null;
+  private resourcesList: HTMLUListElement | null = null;
+  private constructionsList: HTMLUListElement | null = null;
+  private closeBtn: HTMLButtonElement | null = null;
+
+  private onClose: (() => void) | null = null;
+  private isVisible: boolean = false;
+
+  // Ordre d'affichage des ressources
+  private static readonly RESOURCE_ORDER: ResourceType[] = [
+    ResourceType.Wood,
+    ResourceType.Brick,
+    ResourceType.Wheat,
+    ResourceType.Sheep,
+    ResourceType.Ore,
+    ResourceType.Tools,
+  ];
+
+  private static getResourceName(resource: ResourceType): string {
+    switch (resource) {
+      case ResourceType.Wood:
+        return localize('resource.wood');
+      case ResourceType.Brick:
+        return localize('resource.brick');
+      case ResourceType.Wheat:
+        return localize('resource.wheat');
+      case ResourceType.Sheep:
+        return localize('resource.sheep');
+      case ResourceType.Ore:
+        return localize('resource.ore');
+      case ResourceType.Tools:
+        return localize('resource.tools');
+      default:
+        return String(resource);
+    }
+  }
+
+  constructor(panelId: string = 'offline-progress-panel') {
+    const panelEl = document.getElementById(panelId);
+    if (!panelEl) {
+      throw new Error(localize('error.elementNotFound', { id: panelId }));
+    }
+
+    this.panel = panelEl;
+    this.durationDisplay = document.getElementById('offline-progress-duration');
+    this.cappedDisplay = document.getElementById('offline-progress-capped');
+    this.resourcesList = document.getElementById('offline-progress-resources') as HTMLUListElement | null;
+    this.constructionsList = document.getElementById('offline-progress-constructions') as HTMLUListElement | null;
+    this.closeBtn = document.getElementById('offline-progress-close-btn') as HTMLButtonElement | null;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Configure les gestionnaires d'événements.
+   */
+  private setupEventListeners(): void {
+    if (this.closeBtn) {
+      this.closeBtn.addEventListener('click', () => this.hide());
+    }
+
+    // Touche Escape pour fermer le panneau
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isVisible) {
+        this.hide();
+      }
+    });
+  }
+
+  /**
+   * Définit le callback appelé à la fermeture du panneau.
+   */
+  setOnClose(callback: () => void): void {
+    this.onClose = callback;
+  }
+
+  /**
+   * Affiche le panneau avec le résumé de la progression hors-ligne.
+   * @param summary Résumé retourné par OfflineProgressController.simulate
+   */
+  show(summary: OfflineProgressSummary): void {
+    this.updateDisplay(summary);
+    this.panel.classList.remove('hidden');
+    this.isVisible = true;
+  }
+
+  /**
+   * Masque le panneau.
+   */
+  hide(): void {
+    const wasVisible = this.isVisible;
+    this.panel.classList.add('hidden');
+    this.isVisible = false;
+    if (wasVisible && this.onClose) {
+      this.onClose();
+    }
+  }
+
+  /**
+   * Vérifie si le panneau est actuellement visible.
+   */
+  isShown(): boolean {
+    return this.isVisible;
+  }
+
+  /**
+   * Met à jour le contenu du panneau.
+   */
+  private updateDisplay(summary: OfflineProgressSummary): void {
+    if (this.durationDisplay) {
+      this.durationDisplay.textContent = localize('offline.duration', {
+        duration: OfflineProgressPanelView.formatDuration(summary.elapsedSeconds),
+      });
+    }
+
+    if (this.cappedDisplay) {
+      const capped = summary.simulatedSeconds < summary.elapsedSeconds;
+      this.cappedDisplay.classList.toggle('hidden', !capped);
+      this.cappedDisplay.textContent = capped
+        ? localize('offline.capped', { duration: OfflineProgressPanelView.formatDuration(summary.simulatedSeconds) })
+        : '';
+    }
+
+    if (this.resourcesList) {
+      this.resourcesList.innerHTML = '';
+      for (const resourceType of OfflineProgressPanelView.RESOURCE_ORDER) {
+        const delta = summary.resourcesGained.get(resourceType);
+        if (!delta) {
+          continue;
+        }
+        const sign = delta > 0 ? '+' : '';
+        this.appendItem(this.resourcesList, `${sign}${delta} ${OfflineProgressPanelView.getResourceName(resourceType)}`);
+      }
+      if (this.resourcesList.childElementCount === 0) {
+        this.appendItem(this.resourcesList, localize('offline.noResources'));
+      }
+    }
+
+    if (this.constructionsList) {
+      this.constructionsList.innerHTML = '';
+      const constructions: Array<[string, number]> = [
+        ['offline.roadsBuilt', summary.roadsBuilt],
+        ['offline.outpostsBuilt', summary.outpostsBuilt],
+        ['offline.buildingsBuilt', summary.buildingsBuilt],
+        ['offline.buildingLevelsGained', summary.buildingLevelsGained],
+      ];
+      for (const [key, count] of constructions) {
+        if (count > 0) {
+          this.appendItem(this.constructionsList, localize(key, { count }));
+        }
+      }
+      if (this.constructionsList.childElementCount === 0) {
+        this.appendItem(this.constructionsList, localize('offline.noConstructions'));
+      }
+    }
+  }
+
+  private appendItem(list: HTMLUListElement, text: string): void {
+    const li = document.createElement('li');
+    li.textContent = text;
+    list.appendChild(li);
+  }
+
+  /**
+   * Formate une durée en heures/minutes (ou secondes si moins d'une minute).
+   */
+  static formatDuration(totalSeconds: number): string {
+    const seconds = Math.floor(totalSeconds);
+    if (seconds < 60) {
+      return localize('offline.durationSeconds', { seconds });
+    }
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours === 0) {
+      return localize('offline.durationMinutes', { minutes });
+    }
+    return localize('offline.durationHours', { hours, minutes });
+  }
+}
@@ -39,6 +39,8 @@ export class PortSpecializationPanelView {
         return localize('resource.sheep');
       case ResourceType.Ore:
         return localize('resource.ore');
+      case ResourceType.Tools:
+        return localize('resource.tools');
       default:
         return String(resource);
     }
@@ -203,6 +205,7 @@ export class PortSpecializationPanelView {
             [ResourceType.Wheat]: '#FFD700',
             [ResourceType.Sheep]: '#90EE90',
             [ResourceType.Ore]: '#708090',
+            [ResourceType.Tools]: '#5A5A5A',
           };
           color.style.backgroundColor = resourceColors[resourceType];
           resourceInfo.appendChild(color);
@@ -0,0 +1,206 @@
+import { CivilizationState } from '../model/game/CivilizationState';
+import { ResearchTree, ResearchNodeDefinition } from '../model/research/ResearchTree';
+import { ResearchState } from '../model/research/ResearchState';
+import { BuildingType } from '../model/city/BuildingType';
+import { ResearchController } from '../controller/ResearchController';
+import { localize } from '../i18n';
+
+/**
+ * Callbacks pour les actions du panneau de recherche.
+ */
+export interface ResearchPanelCallbacks {
+  /** Callback appelé lorsque l'utilisateur débloque un nœud de recherche */
+  onUnlock?: (nodeId: string) => void;
+}
+
+/**
+ * Panneau de recherche.
+ * Affiche la connaissance accumulée, sa production et l'arbre de recherche
+ * (nœuds débloqués, disponibles ou verrouillés par leurs prérequis).
+ */
+export class ResearchPanelView {
+  private panel: HTMLElement;
+  private knowledgeDisplay: HTMLElement | null = null;
+  private productionDisplay: HTMLElement | null = null;
+  private nodesList: HTMLUListElement | null = null;
+  private closeBtn: HTMLButtonElement | null = null;
+
+  private callbacks: ResearchPanelCallbacks = {};
+  private isVisible: boolean = false;
+  private civState: CivilizationState | null = null;
+  /** Dernier état affiché, pour ne reconstruire la liste qu'en cas de changement */
+  private lastRenderKey: string | null = null;
+
+  constructor(panelId: string = 'research-panel') {
+    const panelEl = document.getElementById(panelId);
+    if (!panelEl) {
+      throw new Error(localize('error.elementNotFound', { id: panelId }));
+    }
+
+    this.panel = panelEl;
+    this.knowledgeDisplay = document.getElementById('research-knowledge');
+    this.productionDisplay = document.getElementById('research-production');
+    this.nodesList = document.getElementById('research-nodes-list') as HTMLUListElement | null;
+    this.closeBtn = document.getElementById('research-close-btn') as HTMLButtonElement | null;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Configure les gestionnaires d'événements.
+   */
+  private setupEventListeners(): void {
+    if (this.closeBtn) {
+      this.closeBtn.addEventListener('click', () => this.hide());
+    }
+
+    // Touche Escape pour fermer le panneau
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isVisible) {
+        this.hide();
+      }
+    });
+  }
+
+  /**
+   * Définit les callbacks pour les actions du panneau.
+   */
+  setCallbacks(callbacks: ResearchPanelCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Affiche le panneau pour la civilisation donnée.
+   * @param civState - L'état de la civilisation (recherche et carte)
+   */
+  show(civState: CivilizationState): void {
+    this.civState = civState;
+    this.lastRenderKey = null;
+    this.refresh();
+    this.panel.classList.remove('hidden');
+    this.isVisible = true;
+  }
+
+  /**
+   * Met à jour le contenu du panneau (production de connaissance, déblocage ou nouvelle partie).
+   * @param civState - Le nouvel état de civilisation, si l'état a été recréé
+   */
+  refresh(civState?: CivilizationState): void {
+    if (civState) {
+      this.civState = civState;
+    }
+    if (this.civState) {
+      this.updateDisplay(this.civState);
+    }
+  }
+
+  /**
+   * Masque le panneau.
+   */
+  hide(): void {
+    this.panel.classList.add('hidden');
+    this.isVisible = false;
+  }
+
+  /**
+   * Vérifie si le panneau est actuellement visible.
+   */
+  isShown(): boolean {
+    return this.isVisible;
+  }
+
+  private updateDisplay(civState: CivilizationState): void {
+    const research = civState.getResearch();
+    const renderKey = `${research.getKnowledge()}|${research.getUnlocked().join(',')}`;
+    if (renderKey === this.lastRenderKey) {
+      return;
+    }
+    this.lastRenderKey = renderKey;
+
+    if (this.knowledgeDisplay) {
+      this.knowledgeDisplay.textContent = localize('research.knowledge', { knowledge: String(research.getKnowledge()) });
+    }
+    if (this.productionDisplay) {
+      this.productionDisplay.textContent = this.formatProduction(civState);
+    }
+
+    if (this.nodesList) {
+      this.nodesList.innerHTML = '';
+      for (const node of ResearchTree.getAll()) {
+        this.nodesList.appendChild(this.createNodeItem(research, node));
+      }
+    }
+  }
+
+  /**
+   * Décrit la production de connaissance des bibliothèques (par minute).
+   */
+  private formatProduction(civState: CivilizationState): string {
+    const map = civState.getIslandState().getIslandMap();
+    const modifiers = civState.getGameModifiers();
+    let perMinute = 0;
+    if (map) {
+      for (const city of map.getCitiesByCivilization(civState.getPlayerCivilizationId())) {
+        const library = city.getBuilding(BuildingType.Library);
+        if (library) {
+          perMinute += 60 / ResearchController.getKnowledgeInterval(library.level, modifiers);
+        }
+      }
+    }
+    return localize('research.production', { amount: perMinute.toFixed(1) });
+  }
+
+  /**
+   * Crée l'élément de liste d'un nœud (nom, coût ou statut, prérequis, description et bouton).
+   */
+  private createNodeItem(research: ResearchState, node: ResearchNodeDefinition): HTMLLIElement {
+    const isUnlocked = research.isUnlocked(node.id);
+
+    const item = document.createElement('li');
+    item.className = 'upgrade-item';
+
+    const header = document.createElement('div');
+    header.className = 'upgrade-header';
+
+    const title = document.createElement('strong');
+    title.textContent = localize(node.nameKey);
+    header.appendChild(title);
+
+    const cost = document.createElement('span');
+    cost.className = 'upgrade-cost';
+    cost.textContent = isUnlocked
+      ? localize('research.unlocked')
+      : localize('research.cost', { cost: String(node.cost) });
+    header.appendChild(cost);
+
+    if (!isUnlocked) {
+      const unlockBtn = document.createElement('button');
+      unlockBtn.className = 'upgrade-buy-btn';
+      unlockBtn.textContent = localize('research.unlock');
+      unlockBtn.disabled = !ResearchController.canUnlock(research, node.id);
+      unlockBtn.addEventListener('click', () => {
+        if (this.callbacks.onUnlock) {
+          this.callbacks.onUnlock(node.id);
+        }
+      });
+      header.appendChild(unlockBtn);
+    }
+
+    const description = document.createElement('p');
+    description.className = 'upgrade-description';
+    description.textContent = localize(node.descriptionKey);
+
+    item.appendChild(header);
+    item.appendChild(description);
+
+    if (!isUnlocked && !ResearchController.hasPrerequisites(research, node.id)) {
+      const requires = document.createElement('p');
+      requires.className = 'upgrade-description';
+      requires.textContent = localize('research.requires', {
+        nodes: node.requires.map(requiredId => localize(ResearchTree.get(requiredId).nameKey)).join(', '),
+      });
+      item.appendChild(requires);
+    }
+    return item;
+  }
+}
@@ -6,7 +6,7 @@ import { ResourceType } from '../model/map/ResourceType';
 export class ResourceSprites {
   private resourceSprites: Map<ResourceType, HTMLImageElement> = new Map();
   private loadedCount: number = 0;
-  private totalSprites: number = 5; // Nombre de types de ressources
+  private totalSprites: number = 6; // Nombre de types de ressources
   private onAllLoadedCallback: (() => void) | null = null;
 
   /**
@@ -19,6 +19,7 @@ export class ResourceSprites {
       [ResourceType.Wheat]: 'resource-wheat.svg',
       [ResourceType.Sheep]: 'resource-sheep.svg',
       [ResourceType.Ore]: 'resource-ore.svg',
+      [ResourceType.Tools]: 'resource-tools.svg',
     };
 
     const checkAllLoaded = (): void => {
@@ -0,0 +1,176 @@
+import { SaveSlotMetadata } from '../application/SaveManager';
+import { localize } from '../i18n';
+
+/**
+ * Callbacks pour les actions du sélecteur de slots.
+ */
+export interface SaveSlotsPanelCallbacks {
+  /** Callback appelé pour charger un slot (devient le slot actif) */
+  onLoadSlot?: (slotId: string) => void;
+  /** Callback appelé pour créer un nouveau slot */
+  onCreateSlot?: () => void;
+  /** Callback appelé pour supprimer un slot */
+  onDeleteSlot?: (slotId: string) => void;
+  /** Callback appelé pour exporter un slot dans un fichier */
+  onExportSlot?: (slotId: string) => void;
+  /** Callback appelé pour importer un fichier dans un slot */
+  onImportSlot?: (slotId: string) => void;
+}
+
+/**
+ * Panneau de sélection des slots de sauvegarde.
+ * Affiche les métadonnées de chaque slot et les actions par slot (charger, exporter, importer, supprimer).
+ */
+export class SaveSlotsPanelView {
+  private panel: HTMLElement;
+  private slotsList: HTMLUListElement | null = null;
+  private newSlotBtn: HTMLButtonElement | null = null;
+  private closeBtn: HTMLButtonElement | null = null;
+
+  private callbacks: SaveSlotsPanelCallbacks = {};
+  private isVisible: boolean = false;
+
+  constructor(panelId: string = 'save-slots-panel') {
+    const panelEl = document.getElementById(panelId);
+    if (!panelEl) {
+      throw new Error(localize('error.elementNotFound', { id: panelId }));
+    }
+
+    this.panel = panelEl;
+    this.slotsList = document.getElementById('save-slots-list') as HTMLUListElement | null;
+    this.newSlotBtn = document.getElementById('save-slots-new-btn') as HTMLButtonElement | null;
+    this.closeBtn = document.getElementById('save-slots-close-btn') as HTMLButtonElement | null;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Configure les gestionnaires d'événements.
+   */
+  private setupEventListeners(): void {
+    if (this.closeBtn) {
+      this.closeBtn.addEventListener('click', () => this.hide());
+    }
+
+    if (this.newSlotBtn) {
+      this.newSlotBtn.addEventListener('click', () => {
+        if (this.callbacks.onCreateSlot) {
+          this.callbacks.onCreateSlot();
+        }
+      });
+    }
+
+    // Touche Escape pour fermer le panneau
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isVisible) {
+        this.hide();
+      }
+    });
+  }
+
+  /**
+   * Définit les callbacks pour les actions du panneau.
+   */
+  setCallbacks(callbacks: SaveSlotsPanelCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Affiche le panneau avec la liste des slots.
+   * @param slots - Les métadonnées des slots
+   * @param activeSlotId - Le slot actif
+   */
+  show(slots: SaveSlotMetadata[], activeSlotId: string): void {
+    this.refresh(slots, activeSlotId);
+    this.panel.classList.remove('hidden');
+    this.isVisible = true;
+  }
+
+  /**
+   * Met à jour la liste des slots (après une création, un import ou une suppression).
+   */
+  refresh(slots: SaveSlotMetadata[], activeSlotId: string): void {
+    if (!this.slotsList) {
+      return;
+    }
+    this.slotsList.innerHTML = '';
+    for (const slot of slots) {
+      this.slotsList.appendChild(this.createSlotItem(slot, slot.id === activeSlotId));
+    }
+  }
+
+  /**
+   * Masque le panneau.
+   */
+  hide(): void {
+    this.panel.classList.add('hidden');
+    this.isVisible = false;
+  }
+
+  /**
+   * Vérifie si le panneau est actuellement visible.
+   */
+  isShown(): boolean {
+    return this.isVisible;
+  }
+
+  /**
+   * Crée l'élément de liste d'un slot (nom, métadonnées et boutons d'action).
+   */
+  private createSlotItem(slot: SaveSlotMetadata, isActive: boolean): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = 'upgrade-item';
+
+    const header = document.createElement('div');
+    header.className = 'upgrade-header';
+
+    const title = document.createElement('strong');
+    title.textContent = isActive ? `${slot.name} — ${localize('saveSlots.active')}` : slot.name;
+    header.appendChild(title);
+
+    const details = document.createElement('p');
+    details.className = 'upgrade-description';
+    details.textContent = slot.lastSavedAt === null
+      ? localize('saveSlots.empty')
+      : localize('saveSlots.details', {
+          seed: slot.seed === null ? '-' : String(slot.seed),
+          playTime: SaveSlotsPanelView.formatPlayTime(slot.playTimeSeconds),
+          civPoints: String(slot.civilizationPoints),
+          prestige: String(slot.prestigePointsTotal),
+          savedAt: new Date(slot.lastSavedAt).toLocaleString(),
+          version: slot.appVersion,
+        });
+
+    const actions = document.createElement('div');
+    actions.className = 'trade-actions';
+    if (!isActive) {
+      actions.appendChild(this.createActionButton('saveSlots.load', () => this.callbacks.onLoadSlot?.(slot.id)));
+    }
+    actions.appendChild(this.createActionButton('saveSlots.export', () => this.callbacks.onExportSlot?.(slot.id)));
+    actions.appendChild(this.createActionButton('saveSlots.import', () => this.callbacks.onImportSlot?.(slot.id)));
+    if (!isActive) {
+      actions.appendChild(this.createActionButton('saveSlots.delete', () => this.callbacks.onDeleteSlot?.(slot.id)));
+    }
+
+    item.appendChild(header);
+    item.appendChild(details);
+    item.appendChild(actions);
+    return item;
+  }
+
+  private createActionButton(labelKey: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'upgrade-buy-btn';
+    button.textContent = localize(labelKey);
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Formate un temps de jeu en heures/minutes.
+   */
+  private static formatPlayTime(totalSeconds: number): string {
+    const minutes = Math.floor(totalSeconds / 60);
+    return localize('saveSlots.playTime', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+  }
+}
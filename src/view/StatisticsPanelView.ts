@@ -0,0 +1,297 @@
+import { IslandState } from '../model/game/IslandState';
+import { ResourceType } from '../model/map/ResourceType';
+import { CityLevel, getCityLevelName } from '../model/city/CityLevel';
+import { IncomeSource, StatisticCounter, StatisticsSample } from '../model/statistics/types';
+import { StatisticsController } from '../controller/StatisticsController';
+import { OfflineProgressPanelView } from './OfflineProgressPanelView';
+import { localize } from '../i18n';
+
+/**
+ * Panneau des statistiques de l'île : revenus par minute de chaque ressource par origine,
+ * historique des échantillons sous forme de petits graphiques, totaux et temps d'atteinte
+ * de chaque niveau de ville.
+ */
+export class StatisticsPanelView {
+  private panel: HTMLElement;
+  private statsBtn: HTMLButtonElement | null = null;
+  private closeBtn: HTMLButtonElement | null = null;
+  private incomeTable: HTMLTableElement | null = null;
+  private chartsContainer: HTMLElement | null = null;
+  private totalsList: HTMLUListElement | null = null;
+  private levelsList: HTMLUListElement | null = null;
+
+  private isVisible: boolean = false;
+  /** Dernière seconde de jeu affichée, pour ne reconstruire le tableau qu'une fois par seconde */
+  private lastRenderKey: string | null = null;
+  /** Fin du dernier échantillon dessiné, pour ne redessiner les graphiques qu'à chaque nouvel échantillon */
+  private lastChartKey: string | null = null;
+
+  // Ordre d'affichage des ressources
+  private static readonly RESOURCE_ORDER: ResourceType[] = [
+    ResourceType.Wood,
+    ResourceType.Brick,
+    ResourceType.Wheat,
+    ResourceType.Sheep,
+    ResourceType.Ore,
+    ResourceType.Tools,
+  ];
+
+  // Couleur de chaque origine dans les graphiques
+  private static readonly SOURCE_COLORS: Record<IncomeSource, string> = {
+    [IncomeSource.ManualHarvest]: '#e6a23c',
+    [IncomeSource.Building]: '#67c23a',
+    [IncomeSource.Market]: '#409eff',
+    [IncomeSource.AutoTrade]: '#9b59b6',
+  };
+
+  private static readonly CHART_WIDTH = 240;
+  private static readonly CHART_HEIGHT = 40;
+
+  constructor(panelId: string = 'statistics-panel') {
+    const panelEl = document.getElementById(panelId);
+    if (!panelEl) {
+      throw new Error(localize('error.elementNotFound', { id: panelId }));
+    }
+
+    this.panel = panelEl;
+    this.statsBtn = document.getElementById('stats-btn') as HTMLButtonElement | null;
+    this.closeBtn = document.getElementById('statistics-close-btn') as HTMLButtonElement | null;
+    this.incomeTable = document.getElementById('statistics-income') as HTMLTableElement | null;
+    this.chartsContainer = document.getElementById('statistics-charts');
+    this.totalsList = document.getElementById('statistics-totals') as HTMLUListElement | null;
+    this.levelsList = document.getElementById('statistics-levels') as HTMLUListElement | null;
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Configure les gestionnaires d'événements.
+   */
+  private setupEventListeners(): void {
+    this.statsBtn?.addEventListener('click', () => (this.isVisible ? this.hide() : this.show()));
+    this.closeBtn?.addEventListener('click', () => this.hide());
+
+    // Touche Escape pour fermer le panneau
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.isVisible) {
+        this.hide();
+      }
+    });
+  }
+
+  /**
+   * Affiche le panneau des statistiques.
+   */
+  show(): void {
+    this.lastRenderKey = null;
+    this.lastChartKey = null;
+    this.panel.classList.remove('hidden');
+    this.isVisible = true;
+  }
+
+  /**
+   * Masque le panneau.
+   */
+  hide(): void {
+    this.panel.classList.add('hidden');
+    this.isVisible = false;
+  }
+
+  /**
+   * Vérifie si le panneau est actuellement visible.
+   */
+  isShown(): boolean {
+    return this.isVisible;
+  }
+
+  /**
+   * Met à jour le panneau (sans effet s'il est masqué).
+   * @param islandState - L'état de l'île
+   */
+  updateDisplay(islandState: IslandState): void {
+    if (!this.isVisible) {
+      return;
+    }
+    const statistics = islandState.getStatistics();
+    const currentTime = islandState.getGameClock().getCurrentTime();
+    const renderKey = String(Math.floor(currentTime));
+    if (renderKey === this.lastRenderKey) {
+      return;
+    }
+    this.lastRenderKey = renderKey;
+
+    this.renderIncome(StatisticsController.getIncomePerMinute(statistics, currentTime));
+    this.renderTotals(islandState);
+    this.renderLevels(islandState);
+
+    const samples = statistics.getSamples();
+    const chartKey = `${samples.length}|${samples.length > 0 ? samples[samples.length - 1].endTime : ''}`;
+    if (chartKey !== this.lastChartKey) {
+      this.lastChartKey = chartKey;
+      this.renderCharts(samples);
+    }
+  }
+
+  /**
+   * Tableau des revenus par minute : une ligne par ressource, une colonne par origine.
+   */
+  private renderIncome(rates: Map<ResourceType, Map<IncomeSource, number>>): void {
+    if (!this.incomeTable) {
+      return;
+    }
+    this.incomeTable.innerHTML = '';
+    const sources = Object.values(IncomeSource);
+
+    const header = this.incomeTable.insertRow();
+    for (const label of [localize('statistics.resource'), ...sources.map(s => localize(`statistics.source.${s}`)), localize('statistics.total')]) {
+      const cell = document.createElement('th');
+      cell.textContent = label;
+      header.appendChild(cell);
+    }
+
+    for (const resourceType of StatisticsPanelView.RESOURCE_ORDER) {
+      const bySource = rates.get(resourceType);
+      const row = this.incomeTable.insertRow();
+      row.insertCell().textContent = this.getResourceName(resourceType);
+      let total = 0;
+      for (const source of sources) {
+        const rate = bySource?.get(source) ?? 0;
+        total += rate;
+        row.insertCell().textContent = this.formatRate(rate);
+      }
+      row.insertCell().textContent = this.formatRate(total);
+    }
+  }
+
+  /**
+   * Petits graphiques de l'historique : une barre empilée par échantillon et par ressource.
+   * L'échelle verticale est commune à toutes les ressources pour pouvoir les comparer.
+   */
+  private renderCharts(samples: readonly StatisticsSample[]): void {
+    if (!this.chartsContainer) {
+      return;
+    }
+    this.chartsContainer.innerHTML = '';
+    if (samples.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'statistics-empty';
+      empty.textContent = localize('statistics.noHistory', { seconds: StatisticsController.SAMPLE_INTERVAL_SECONDS });
+      this.chartsContainer.appendChild(empty);
+      return;
+    }
+
+    const rates = samples.map(sample =>
+      StatisticsController.getSampleIncomePerMinute(sample.income, sample.endTime - sample.startTime)
+    );
+    let max = 0;
+    for (const sampleRates of rates) {
+      for (const bySource of sampleRates.values()) {
+        max = Math.max(max, [...bySource.values()].reduce((a, b) => a + b, 0));
+      }
+    }
+
+    for (const resourceType of StatisticsPanelView.RESOURCE_ORDER) {
+      const row = document.createElement('div');
+      row.className = 'statistics-chart';
+      const label = document.createElement('span');
+      const stock = samples[samples.length - 1].stock[resourceType] ?? 0;
+      label.textContent = localize('statistics.chartLabel', { resource: this.getResourceName(resourceType), stock });
+      const canvas = document.createElement('canvas');
+      canvas.width = StatisticsPanelView.CHART_WIDTH;
+      canvas.height = StatisticsPanelView.CHART_HEIGHT;
+      this.drawChart(canvas, rates.map(sampleRates => sampleRates.get(resourceType)), max);
+      row.append(label, canvas);
+      this.chartsContainer.appendChild(row);
+    }
+
+    const legend = document.createElement('div');
+    legend.className = 'statistics-legend';
+    for (const source of Object.values(IncomeSource)) {
+      const item = document.createElement('span');
+      const swatch = document.createElement('i');
+      swatch.style.background = StatisticsPanelView.SOURCE_COLORS[source];
+      item.append(swatch, localize(`statistics.source.${source}`));
+      legend.appendChild(item);
+    }
+    this.chartsContainer.appendChild(legend);
+  }
+
+  private drawChart(canvas: HTMLCanvasElement, bars: Array<Map<IncomeSource, number> | undefined>, max: number): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return;
+    }
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = 'rgba(102, 126, 234, 0.08)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (max <= 0) {
+      return;
+    }
+    // Les échantillons les plus récents sont à droite
+    const barWidth = canvas.width / Math.max(bars.length, 20);
+    const offset = canvas.width - barWidth * bars.length;
+    bars.forEach((bySource, index) => {
+      let y = canvas.height;
+      for (const source of Object.values(IncomeSource)) {
+        const height = ((bySource?.get(source) ?? 0) / max) * canvas.height;
+        if (height <= 0) {
+          continue;
+        }
+        y -= height;
+        ctx.fillStyle = StatisticsPanelView.SOURCE_COLORS[source];
+        ctx.fillRect(offset + index * barWidth, y, Math.max(1, barWidth - 1), height);
+      }
+    });
+  }
+
+  /**
+   * Totaux : constructions lues sur la carte et compteurs cumulés.
+   */
+  private renderTotals(islandState: IslandState): void {
+    if (!this.totalsList) {
+      return;
+    }
+    const statistics = islandState.getStatistics();
+    const totals = StatisticsController.getMapTotals(islandState);
+    const entries: Array<[string, number]> = [
+      ['statistics.total.roads', totals.roads],
+      ['statistics.total.cities', totals.cities],
+      ['statistics.total.buildings', totals.buildings],
+      ...Object.values(StatisticCounter).map((counter): [string, number] => [`statistics.counter.${counter}`, statistics.getCounter(counter)]),
+    ];
+    this.totalsList.innerHTML = '';
+    for (const [key, count] of entries) {
+      const li = document.createElement('li');
+      li.textContent = localize(key, { count });
+      this.totalsList.appendChild(li);
+    }
+  }
+
+  /**
+   * Temps de jeu écoulé avant d'atteindre chaque niveau de ville.
+   */
+  private renderLevels(islandState: IslandState): void {
+    if (!this.levelsList) {
+      return;
+    }
+    const statistics = islandState.getStatistics();
+    this.levelsList.innerHTML = '';
+    for (const level of [CityLevel.Colony, CityLevel.Town, CityLevel.Metropolis, CityLevel.Capital]) {
+      const time = statistics.getCityLevelTime(level);
+      const li = document.createElement('li');
+      li.textContent = localize('statistics.levelReached', {
+        level: getCityLevelName(level),
+        time: time === undefined ? localize('statistics.notReached') : OfflineProgressPanelView.formatDuration(time),
+      });
+      this.levelsList.appendChild(li);
+    }
+  }
+
+  private formatRate(rate: number): string {
+    return rate === 0 ? '–' : rate.toFixed(1);
+  }
+
+  private getResourceName(resourceType: ResourceType): string {
+    return localize(`resource.${resourceType.toLowerCase()}`);
+  }
+}
@@ -0,0 +1,40 @@
+import { localize } from '../i18n';
+
+/**
+ * Notifications éphémères (toasts) affichées en bas de l'écran.
+ * Chaque notification disparaît d'elle-même après quelques secondes.
+ */
+export class ToastView {
+  /** Durée d'affichage d'une notification (en millisecondes). */
+  private static readonly DURATION_MS = 6000;
+  /** Nombre maximal de notifications affichées simultanément. */
+  private static readonly MAX_TOASTS = 3;
+
+  private container: HTMLElement;
+
+  constructor(containerId: string = 'toast-container') {
+    const containerEl = document.getElementById(containerId);
+    if (!containerEl) {
+      throw new Error(localize('error.elementNotFound', { id: containerId }));
+    }
+    this.container = containerEl;
+  }
+
+  /**
+   * Affiche une notification.
+   * @param message - Le texte de la notification
+   * @param icon - Icône affichée avant le texte (optionnel)
+   */
+  show(message: string, icon?: string): void {
+    const toast = document.createElement('div');
+    toast.className = 'toast';
+    toast.textContent = icon ? `${icon} ${message}` : message;
+    this.container.appendChild(toast);
+
+    // Retirer les plus anciennes notifications au-delà de la limite
+    while (this.container.children.length > ToastView.MAX_TOASTS) {
+      this.container.firstElementChild?.remove();
+    }
+    window.setTimeout(() => toast.remove(), ToastView.DURATION_MS);
+  }
+}
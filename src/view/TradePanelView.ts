@@ -8,6 +8,7 @@ import { BuildingType } from '../model/city/BuildingType';
 import { City } from '../model/city/City';
 import { Vertex } from '../model/hex/Vertex';
 import { Building } from '../model/city/Building';
+import { GameModifiers } from '../model/game/GameModifiers';
 import { localize } from '../i18n';
 
 /**
@@ -43,6 +44,7 @@ export class TradePanelView {
   private callbacks: TradePanelCallbacks = {};
   private islandMap: IslandMap | null = null;
   private civId: CivilizationId | null = null;
+  private modifiers: GameModifiers = GameModifiers.NONE;
 
   private getResourceName(resource: ResourceType): string {
     switch (resource) {
@@ -56,6 +58,8 @@ export class TradePanelView {
         return localize('resource.sheep');
       case ResourceType.Ore:
         return localize('resource.ore');
+      case ResourceType.Tools:
+        return localize('resource.tools');
       default:
         return String(resource);
     }
@@ -68,6 +72,7 @@ export class TradePanelView {
     ResourceType.Wheat,
     ResourceType.Sheep,
     ResourceType.Ore,
+    ResourceType.Tools,
   ];
 
   constructor(tradePanelId: string = 'trade-panel') {
@@ -167,10 +172,12 @@ export class TradePanelView {
 
   /**
    * Configure la carte de jeu et la civilisation pour vérifier l'accès au commerce.
+   * @param modifiers - Les modificateurs de jeu (optionnel, pour les taux améliorés par la recherche)
    */
-  setGameContext(islandMap: IslandMap, civId: CivilizationId): void {
+  setGameContext(islandMap: IslandMap, civId: CivilizationId, modifiers: GameModifiers = GameModifiers.NONE): void {
     this.islandMap = islandMap;
     this.civId = civId;
+    this.modifiers = modifiers;
   }
 
   /**
@@ -244,7 +251,7 @@ export class TradePanelView {
       // Pour la liste offerte, désactiver visuellement si on n'a pas assez pour un échange minimum
       if (isOffered) {
         const rate = (this.civId && this.islandMap)
-          ? TradeController.getTradeRateForResource(this.civId, this.islandMap, resourceType)
+          ? TradeController.getTradeRateForResource(this.civId, this.islandMap, resourceType, this.modifiers)
           : 4;
         if (available < rate) {
           item.classList.add('disabled');
@@ -279,6 +286,7 @@ export class TradePanelView {
             [ResourceType.Wheat]: '#FFD700',
             [ResourceType.Sheep]: '#90EE90',
             [ResourceType.Ore]: '#708090',
+            [ResourceType.Tools]: '#5A5A5A',
           };
           color.style.backgroundColor = resourceColors[resourceType];
           resourceInfo.appendChild(color);
@@ -337,7 +345,7 @@ export class TradePanelView {
     }
 
     const rate = (this.civId && this.islandMap)
-      ? TradeController.getTradeRateForResource(this.civId, this.islandMap, resourceType)
+      ? TradeController.getTradeRateForResource(this.civId, this.islandMap, resourceType, this.modifiers)
       : 4;
     
     // Déterminer le nombre de batches à ajouter selon les modificateurs
@@ -391,7 +399,7 @@ export class TradePanelView {
     const current = this.offeredResources.get(resourceType) || 0;
     if (current > 0) {
       const rate = (this.civId && this.islandMap)
-        ? TradeController.getTradeRateForResource(this.civId, this.islandMap, resourceType)
+        ? TradeController.getTradeRateForResource(this.civId, this.islandMap, resourceType, this.modifiers)
         : 4;
       
       // Déterminer le nombre de batches à retirer selon les modificateurs
@@ -439,7 +447,7 @@ export class TradePanelView {
     let totalBatches = 0;
     for (const [resourceType, quantity] of this.offeredResources.entries()) {
       if (quantity > 0) {
-        const rate = TradeController.getTradeRateForResource(this.civId, this.islandMap, resourceType);
+        const rate = TradeController.getTradeRateForResource(this.civId, this.islandMap, resourceType, this.modifiers);
         totalBatches += quantity / rate;
       }
     }
@@ -487,7 +495,7 @@ export class TradePanelView {
     // Vérifier l'accès au commerce
     let canTrade = true;
     if (this.islandMap && this.civId) {
-      canTrade = TradeController.canTrade(this.civId, this.islandMap);
+      canTrade = TradeController.canTrade(this.civId, this.islandMap, this.modifiers);
     }
 
     // Vérifier que le joueur a assez de ressources pour toutes les offres
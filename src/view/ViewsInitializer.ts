@@ -5,6 +5,18 @@ import { TradePanelView } from './TradePanelView';
 import { PortSpecializationPanelView } from './PortSpecializationPanelView';
 import { AutomationPanelView } from './AutomationPanelView';
 import { PrestigeConfirmationPanel } from './PrestigePanelView';
+import { DivinePanelView } from './DivinePanelView';
+import { ResearchPanelView } from './ResearchPanelView';
+import { FaithPanelView } from './FaithPanelView';
+import { BlessingBarView } from './BlessingBarView';
+import { IslandEventBarView } from './IslandEventBarView';
+import { ToastView } from './ToastView';
+import { ActionHistoryView } from './ActionHistoryView';
+import { CommandPaletteView } from './CommandPaletteView';
+import { StatisticsPanelView } from './StatisticsPanelView';
+import { NewGamePanelView } from './NewGamePanelView';
+import { OfflineProgressPanelView } from './OfflineProgressPanelView';
+import { SaveSlotsPanelView } from './SaveSlotsPanelView';
 import { ResourceLoader } from './ResourceLoader';
 
 export interface ViewsCollection {
@@ -13,6 +25,18 @@ export interface ViewsCollection {
   portSpecializationPanelView: PortSpecializationPanelView;
   automationPanelView: AutomationPanelView;
   prestigeConfirmationPanel: PrestigeConfirmationPanel;
+  divinePanelView: DivinePanelView;
+  researchPanelView: ResearchPanelView;
+  faithPanelView: FaithPanelView;
+  blessingBarView: BlessingBarView;
+  islandEventBarView: IslandEventBarView;
+  toastView: ToastView;
+  actionHistoryView: ActionHistoryView;
+  commandPaletteView: CommandPaletteView;
+  statisticsPanelView: StatisticsPanelView;
+  newGamePanelView: NewGamePanelView;
+  offlineProgressPanelView: OfflineProgressPanelView;
+  saveSlotsPanelView: SaveSlotsPanelView;
   inventoryView: import('./InventoryView').InventoryView;
 }
 
@@ -30,12 +54,25 @@ export function initializeViews(
   const portSpecializationPanelView = new PortSpecializationPanelView('port-specialization-panel');
   const automationPanelView = new AutomationPanelView('automation-panel');
   const prestigeConfirmationPanel = new PrestigeConfirmationPanel('prestige-panel');
+  const divinePanelView = new DivinePanelView('divine-panel');
+  const researchPanelView = new ResearchPanelView('research-panel');
+  const faithPanelView = new FaithPanelView('faith-panel');
+  const blessingBarView = new BlessingBarView('blessings-bar');
+  const islandEventBarView = new IslandEventBarView('events-bar');
+  const toastView = new ToastView('toast-container');
+  const actionHistoryView = new ActionHistoryView('history-panel');
+  const commandPaletteView = new CommandPaletteView('command-palette');
+  const statisticsPanelView = new StatisticsPanelView('statistics-panel');
+  const newGamePanelView = new NewGamePanelView('new-game-panel');
+  const offlineProgressPanelView = new OfflineProgressPanelView('offline-progress-panel');
+  const saveSlotsPanelView = new SaveSlotsPanelView('save-slots-panel');
 
   // Bind renderer and game context where appropriate
   cityPanelView.setRenderer(renderer);
   cityPanelView.bind(renderer, {
     getIslandMap: () => game.getIslandMap(),
     getPlayerResources: () => game.getPlayerResources(),
+    getGameModifiers: () => game.getGameModifiers(),
   });
 
   // Wire resource sprites to trade/port panels and return inventory view from loader
@@ -49,6 +86,18 @@ export function initializeViews(
     portSpecializationPanelView,
     automationPanelView,
     prestigeConfirmationPanel,
+    divinePanelView,
+    researchPanelView,
+    faithPanelView,
+    blessingBarView,
+    islandEventBarView,
+    toastView,
+    actionHistoryView,
+    commandPaletteView,
+    statisticsPanelView,
+    newGamePanelView,
+    offlineProgressPanelView,
+    saveSlotsPanelView,
     inventoryView: resourceLoader.getInventoryView(),
   };
 }
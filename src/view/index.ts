@@ -6,6 +6,18 @@ export { HexMapRenderer } from './HexMapRenderer';
 export { CityPanelView, CityPanelCallbacks, CityPanelStateProvider } from './CityPanelView';
 export { TradePanelView, TradePanelCallbacks } from './TradePanelView';
 export { PortSpecializationPanelView, PortSpecializationPanelCallbacks } from './PortSpecializationPanelView';
+export { DivinePanelView, DivinePanelCallbacks } from './DivinePanelView';
+export { ResearchPanelView, ResearchPanelCallbacks } from './ResearchPanelView';
+export { FaithPanelView, FaithPanelCallbacks } from './FaithPanelView';
+export { BlessingBarView } from './BlessingBarView';
+export { IslandEventBarView, IslandEventBarCallbacks } from './IslandEventBarView';
+export { ToastView } from './ToastView';
+export { ActionHistoryView, ActionHistoryCallbacks } from './ActionHistoryView';
+export { CommandPaletteView, CommandPaletteCallbacks } from './CommandPaletteView';
+export { StatisticsPanelView } from './StatisticsPanelView';
+export { NewGamePanelView, NewGamePanelCallbacks } from './NewGamePanelView';
+export { OfflineProgressPanelView } from './OfflineProgressPanelView';
+export { SaveSlotsPanelView, SaveSlotsPanelCallbacks } from './SaveSlotsPanelView';
 export { InventoryView } from './InventoryView';
 export { ResourceSprites } from './ResourceSprites';
 // CivilizationUpgradePanelView removed: import handled in codebase cleanup.
@@ -1,11 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { readFileSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import { Make7HexesMapWith5CitiesAndLibraries } from '../utils/GameProgressionTest';
 import { CityLevel } from '../../src/model/city/CityLevel';
 import { BuildingType } from '../../src/model/city/BuildingType';
-import { ResourceHarvestController } from '../../src/controller/ResourceHarvestController';
 import { PrestigeController } from '../../src/controller/PrestigeController';
 import { MainGame } from '../../src/application/MainGame';
 
@@ -13,10 +12,6 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 describe('FiveCitiesLibrariesScenario', () => {
-  beforeEach(() => {
-    ResourceHarvestController.resetCooldowns();
-  });
-
   it('crée 5 villes avec bibliothèques et un port niveau 4 (4 métropoles + 1 capitale)', () => {
     const gs = Make7HexesMapWith5CitiesAndLibraries();
     const map = gs.getIslandMap()!;
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { Make7HexesMap, saveIslandState } from '../utils/IslandStateGenerator';
 import { Make7HexesMapWithPortAndCapital } from '../utils/GameProgressionTest';
 import { HexCoord } from '../../src/model/hex/HexCoord';
@@ -9,7 +9,6 @@ import { BuildingType } from '../../src/model/city/BuildingType';
 import { CityLevel } from '../../src/model/city/CityLevel';
 import { ResourceType } from '../../src/model/map/ResourceType';
 import { IslandState } from '../../src/model/game/IslandState';
-import { ResourceHarvestController } from '../../src/controller/ResourceHarvestController';
 import { BuildingController } from '../../src/controller/BuildingController';
 import { RoadController } from '../../src/controller/RoadController';
 import { OutpostController } from '../../src/controller/OutpostController';
@@ -22,10 +21,6 @@ const cityVertex = center.vertex(SecondaryHexDirection.N);
 const outpostVertex = center.vertex(SecondaryHexDirection.WS);
 
 describe('Map7HexesScenario', () => {
-  beforeEach(() => {
-    ResourceHarvestController.resetCooldowns();
-  });
-
   it('récolte sur hex adjacents, construit Market+Sawmill+Brickworks, 2 routes, outpost au SE (model+controller, GameClock)', () => {
     const gs = Make7HexesMap();
     
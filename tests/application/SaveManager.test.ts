@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SaveManager } from '../../src/application/SaveManager';
+import { MainGame } from '../../src/application/MainGame';
+import { APP_VERSION } from '../../src/config/version';
+
+/**
+ * Stockage en mémoire remplaçant localStorage (environnement de test node).
+ */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+describe('SaveManager', () => {
+  let storage: MemoryStorage;
+  let game: MainGame;
+  let saveManager: SaveManager;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    game = new MainGame();
+    game.newGame(12345);
+    saveManager = new SaveManager(game, storage);
+  });
+
+  it('écrit l\'autosave dans le slot actif avec ses métadonnées', () => {
+    game.getGameClock().updateTime(90);
+    game.getController().getCivilizationState().setPrestigePointsTotal(7);
+
+    saveManager.saveToLocal();
+
+    const [slot] = saveManager.listSlots();
+    expect(slot.id).toBe(saveManager.getActiveSlotId());
+    expect(slot.seed).toBe(12345);
+    expect(slot.playTimeSeconds).toBe(90);
+    expect(slot.prestigePointsTotal).toBe(7);
+    expect(slot.lastSavedAt).not.toBeNull();
+    expect(slot.appVersion).toBe(APP_VERSION);
+  });
+
+  it('migre l\'ancienne sauvegarde unique dans le premier slot', () => {
+    storage.setItem('colons-of-idlestan-autosave', game.saveGame());
+
+    const otherGame = new MainGame();
+    const manager = new SaveManager(otherGame, storage);
+
+    expect(manager.loadFromLocal()).toBe(true);
+    expect(otherGame.getSeed()).toBe(12345);
+    expect(manager.listSlots()[0].seed).toBe(12345);
+    expect(storage.getItem('colons-of-idlestan-autosave')).toBeNull();
+  });
+
+  it('conserve plusieurs parties indépendantes dans des slots différents', () => {
+    saveManager.saveToLocal();
+    const firstSlotId = saveManager.getActiveSlotId();
+
+    const secondSlot = saveManager.createSlot('Essai');
+    game.clearSave();
+    game.newGame(999);
+    saveManager.saveToLocal();
+
+    expect(saveManager.listSlots().map(s => s.name)).toContain('Essai');
+    expect(saveManager.switchSlot(firstSlotId)).toBe(true);
+    expect(game.getSeed()).toBe(12345);
+    expect(saveManager.switchSlot(secondSlot.id)).toBe(true);
+    expect(game.getSeed()).toBe(999);
+  });
+
+  it('reconstruit un index illisible à partir des sauvegardes des slots', () => {
+    saveManager.saveToLocal();
+    saveManager.createSlot('Essai');
+    game.clearSave();
+    game.newGame(999);
+    saveManager.saveToLocal();
+    storage.setItem('colons-of-idlestan-slots', '{corrompu');
+
+    const otherGame = new MainGame();
+    const manager = new SaveManager(otherGame, storage);
+
+    expect(manager.listSlots().map(s => s.seed)).toEqual([12345, 999]);
+    expect(manager.loadFromLocal()).toBe(true);
+    expect(otherGame.getSeed()).toBe(12345);
+  });
+
+  it('ne touche pas au slot actif pour un slot introuvable', () => {
+    saveManager.saveToLocal();
+    const activeSlotId = saveManager.getActiveSlotId();
+
+    expect(saveManager.hasSlot('slot-42')).toBe(false);
+    expect(saveManager.switchSlot('slot-42')).toBe(false);
+    expect(saveManager.getActiveSlotId()).toBe(activeSlotId);
+    expect(storage.getItem(`colons-of-idlestan-slot-${activeSlotId}`)).not.toBeNull();
+  });
+
+  it('refuse de supprimer le slot actif', () => {
+    const firstSlotId = saveManager.getActiveSlotId();
+    const secondSlot = saveManager.createSlot('Essai');
+
+    expect(saveManager.deleteSlot(secondSlot.id)).toBe(false);
+    expect(saveManager.deleteSlot(firstSlotId)).toBe(true);
+    expect(saveManager.listSlots()).toHaveLength(1);
+  });
+
+  it('importe une sauvegarde dans un slot inactif sans changer la partie en cours', () => {
+    const exported = game.saveGame();
+    const firstSlotId = saveManager.getActiveSlotId();
+    saveManager.createSlot('Essai');
+    game.clearSave();
+    game.newGame(999);
+
+    expect(saveManager.importIntoSlot('{"invalid": true}', firstSlotId)).toBe(false);
+    expect(saveManager.importIntoSlot(exported, firstSlotId)).toBe(true);
+
+    expect(game.getSeed()).toBe(999);
+    expect(saveManager.listSlots().find(s => s.id === firstSlotId)!.seed).toBe(12345);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimulationEngine } from '../../src/application/SimulationEngine';
+import { MainGame } from '../../src/application/MainGame';
+import { GameCoordinator } from '../../src/controller/GameCoordinator';
+import { GameEventBus } from '../../src/controller/GameEventBus';
+import { HexMapRenderer } from '../../src/view/HexMapRenderer';
+import { ResourceType } from '../../src/model/map/ResourceType';
+
+describe('SimulationEngine', () => {
+  beforeEach(() => {
+    GameEventBus.clear();
+  });
+
+  function createEngine(seed: number): { game: MainGame; engine: SimulationEngine } {
+    const game = new MainGame();
+    game.newGame(seed);
+    return { game, engine: new SimulationEngine(game, new GameCoordinator(game, {} as HexMapRenderer)) };
+  }
+
+  it('accumule le temps réel et n\'exécute que des ticks entiers', () => {
+    const { game, engine } = createEngine(12345);
+    const start = game.getGameClock().getCurrentTime();
+
+    expect(engine.advance(0.05).ticks).toBe(0);
+    expect(engine.advance(0.05).ticks).toBe(1);
+    expect(engine.advance(0.3).ticks).toBe(3);
+    expect(game.getGameClock().getCurrentTime()).toBeCloseTo(start + 0.4, 9);
+  });
+
+  it('limite le rattrapage et abandonne le temps en trop', () => {
+    const { game, engine } = createEngine(12345);
+    const start = game.getGameClock().getCurrentTime();
+
+    expect(engine.advance(3600).ticks).toBe(SimulationEngine.MAX_CATCH_UP_TICKS);
+    expect(engine.advance(0).ticks).toBe(0);
+    expect(game.getGameClock().getCurrentTime()).toBeCloseTo(
+      start + SimulationEngine.MAX_CATCH_UP_TICKS * SimulationEngine.TICK_SECONDS,
+      9
+    );
+  });
+
+  it('rattrape tout le temps sans plafond, par ticks plus longs', () => {
+    const game = new MainGame();
+    game.newGame(12345);
+    const engine = new SimulationEngine(game, new GameCoordinator(game, {} as HexMapRenderer), {
+      tickSeconds: 2,
+      maxCatchUpTicks: null,
+    });
+    const start = game.getGameClock().getCurrentTime();
+
+    expect(engine.advance(3601).ticks).toBe(1800);
+    expect(game.getGameClock().getCurrentTime()).toBeCloseTo(start + 3600, 9);
+    expect(engine.advance(1).ticks).toBe(1);
+  });
+
+  it('donne le même état quelle que soit la fréquence d\'affichage', () => {
+    const runAt = (framesPerSecond: number): { roads: number; state: string } => {
+      const { game, engine } = createEngine(42);
+      const civilization = game.getIslandState().getCivilization(game.getPlayerCivilizationId());
+      civilization.setAutoRoadConstruction(true);
+      civilization.setAutoOutpostConstruction(true);
+      for (const resourceType of [ResourceType.Wood, ResourceType.Brick, ResourceType.Wheat, ResourceType.Sheep]) {
+        game.getPlayerResources().addResource(resourceType, 50);
+      }
+      const roads = game.getIslandMap()!.getRoadsForCivilization(game.getPlayerCivilizationId()).length;
+      while (game.getGameClock().getCurrentTime() < 20) {
+        engine.advance(1 / framesPerSecond);
+      }
+      const map = game.getIslandMap()!;
+      return {
+        roads: map.getRoadsForCivilization(game.getPlayerCivilizationId()).length - roads,
+        state: JSON.stringify(game.getIslandState().serialize()),
+      };
+    };
+
+    const reference = runAt(60);
+    expect(reference.roads).toBeGreaterThan(0);
+    expect(runAt(144)).toEqual(reference);
+    expect(runAt(7)).toEqual(reference);
+  });
+});
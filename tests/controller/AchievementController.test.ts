@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AchievementController } from '../../src/controller/AchievementController';
+import { GameCoordinator } from '../../src/controller/GameCoordinator';
+import { MainGame } from '../../src/application/MainGame';
+import { HexMapRenderer } from '../../src/view/HexMapRenderer';
+import { AchievementBonusType, AchievementId } from '../../src/model/achievements/types';
+import { BuildingType } from '../../src/model/city/BuildingType';
+import { CityLevel } from '../../src/model/city/CityLevel';
+import { City } from '../../src/model/city/City';
+
+describe('AchievementController', () => {
+  let game: MainGame;
+  let city: City;
+
+  beforeEach(() => {
+    game = new MainGame();
+    game.newGame(12345);
+    city = game.getIslandMap()!.getCitiesByCivilization(game.getPlayerCivilizationId())[0];
+  });
+
+  function check(): AchievementId[] {
+    return AchievementController.checkAchievements(game.getAchievements(), game.getController().getGodState());
+  }
+
+  function playerCivilization() {
+    return game.getIslandState().getCivilization(game.getPlayerCivilizationId());
+  }
+
+  it('débloque les succès une seule fois quand leur condition est remplie', () => {
+    expect(check()).toEqual([]);
+
+    city.addBuildingWithLevel(BuildingType.TownHall, CityLevel.Capital);
+    expect(check()).toEqual([AchievementId.FirstCapital]);
+    expect(check()).toEqual([]);
+
+    const civilization = playerCivilization();
+    civilization.setAutoRoadConstruction(true);
+    civilization.setAutoOutpostConstruction(true);
+    civilization.setAutoCityUpgrade(true);
+    expect(check()).toEqual([]);
+    civilization.setAutoProductionBuildingConstruction(true);
+    expect(check()).toEqual([AchievementId.FullAutomation]);
+  });
+
+  it('ajoute les bonus des succès aux multiplicateurs de la civilisation', () => {
+    const before = playerCivilization().getResourceGainMultiplier();
+    city.addBuildingWithLevel(BuildingType.TownHall, CityLevel.Capital);
+    check();
+
+    expect(AchievementController.getBonuses(game.getAchievements())[AchievementBonusType.ResourceGain]).toBeCloseTo(0.05);
+    expect(playerCivilization().getResourceGainMultiplier()).toBeCloseTo(before + 0.05);
+  });
+
+  it('conserve les succès et leurs bonus après un prestige et au chargement', () => {
+    city.addBuildingWithLevel(BuildingType.TownHall, CityLevel.Capital);
+    game.getController().getCivilizationState().addPrestigePoints(3);
+    expect(check()).toEqual([AchievementId.FirstCapital, AchievementId.FirstPrestige]);
+
+    game.newGame(54321);
+    expect(game.getAchievements().getUnlocked()).toEqual([AchievementId.FirstCapital, AchievementId.FirstPrestige]);
+    expect(playerCivilization().getCivPointGainMultiplier()).toBeCloseTo(1.1);
+
+    const loaded = new MainGame();
+    expect(loaded.loadGame(game.saveGame())).toBe(true);
+    expect(loaded.getAchievements().isUnlocked(AchievementId.FirstPrestige)).toBe(true);
+    const civilization = loaded.getIslandState().getCivilization(loaded.getPlayerCivilizationId());
+    expect(civilization.getResourceGainMultiplier()).toBeCloseTo(1.05);
+  });
+
+  it('est vérifié par le coordinateur de jeu', () => {
+    const coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+    city.addBuildingWithLevel(BuildingType.TownHall, CityLevel.Capital);
+    expect(coordinator.processAchievements()).toEqual([AchievementId.FirstCapital]);
+    expect(coordinator.processAchievements()).toEqual([]);
+  });
+});
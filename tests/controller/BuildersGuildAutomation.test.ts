@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { Make7HexesMapWithPortAndCapital } from '../utils/GameProgressionTest';
 import { HexCoord } from '../../src/model/hex/HexCoord';
 import { HexDirection } from '../../../src/model/hex/HexDirection';
@@ -8,14 +8,9 @@ import { BuildingType } from '../../src/model/city/BuildingType';
 import { CityLevel } from '../../src/model/city/CityLevel';
 import { GameAutoPlayer } from '../utils/GameAutoPlayer';
 import { BuildingController } from '../../src/controller/BuildingController';
-import { ResourceHarvestController } from '../../src/controller/ResourceHarvestController';
 import { Civilization } from '../../src/model/map/Civilization';
 
 describe('BuildersGuild Automation', () => {
-  beforeEach(() => {
-    ResourceHarvestController.resetCooldowns();
-  });
-
   describe('Construction et amélioration de la Guilde des batisseurs', () => {
     it('devrait construire la Guilde des batisseurs niveau 1 dans la capitale', () => {
       const gs = Make7HexesMapWithPortAndCapital();
@@ -358,6 +358,19 @@ describe('BuildingProductionController', () => {
       expect(resources.getResource(ResourceType.Wood)).toBe(2);
     });
 
+    it('devrait produire le rendement de l\'hex et puiser dans sa réserve de richesse', () => {
+      map.setHexYield(center, 3);
+      gameClock.updateTime(3.0);
+      map.getCity(vertex1)!.getBuilding(BuildingType.Sawmill)!.setProductionTimeSeconds(0.5);
+      map.getCity(vertex2)!.getBuilding(BuildingType.Sawmill)!.setProductionTimeSeconds(0.5);
+
+      const results = BuildingProductionController.processAutomaticProduction(civId, map, resources, gameClock);
+
+      expect(results.map(r => r.amount)).toEqual([3, 3]);
+      // La récolte a lieu à la fin du cycle (0.5 + 2.0), la réserve se reconstitue ensuite
+      expect(map.getHexReserve(center, 2.5)).toBe(36);
+    });
+
     it('devrait produire plus vite avec un bâtiment de niveau supérieur', () => {
       const city1 = map.getCity(vertex1)!;
       const city2 = map.getCity(vertex2)!;
@@ -457,6 +470,20 @@ describe('BuildingProductionController', () => {
       expect(results[0].cityVertex.equals(vertex2)).toBe(true);
       expect(resources.getResource(ResourceType.Wood)).toBe(2);
     });
+
+    it('devrait rattraper tous les cycles écoulés en un seul appel', () => {
+      const sawmill = map.getCity(vertex1)!.getBuilding(BuildingType.Sawmill)!;
+      map.removeCity(vertex2);
+      sawmill.setProductionTimeSeconds(0.0);
+      gameClock.updateTime(7.0);
+
+      const results = BuildingProductionController.processAutomaticProduction(civId, map, resources, gameClock);
+
+      // Trois cycles de 2 s écoulés, le quatrième n'est pas encore terminé
+      expect(results).toHaveLength(3);
+      expect(resources.getResource(ResourceType.Wood)).toBe(3);
+      expect(sawmill.getProductionTimeSeconds()).toBe(6.0);
+    });
   });
 
   describe('processAutomaticProduction - plusieurs hexs adjacents de même ressource', () => {
@@ -506,4 +533,133 @@ describe('BuildingProductionController', () => {
       expect(resources.getResource(ResourceType.Wood)).toBe(2);
     });
   });
+
+  describe('Forge', () => {
+    let map: IslandMap;
+    let civId: CivilizationId;
+    let city: City;
+    let oreHex: HexCoord;
+
+    beforeEach(() => {
+      const center = new HexCoord(0, 0);
+      const sw = center.neighbor(HexDirection.SW);
+      const se = center.neighbor(HexDirection.SE);
+      map = new IslandMap(new HexGrid([new Hex(center), new Hex(sw), new Hex(se)]));
+      civId = CivilizationId.create('civ1');
+      map.registerCivilization(civId);
+
+      const vertex = Vertex.create(center, sw, se);
+      map.addCity(vertex, civId, CityLevel.Town);
+      city = map.getCity(vertex)!;
+      map.setHexType(center, HexType.Ore);
+      map.setHexType(sw, HexType.Wood);
+      map.setHexType(se, HexType.Wood);
+      oreHex = center;
+    });
+
+    it('fabrique un outil à partir de minerai et de bois une fois l\'intervalle écoulé', () => {
+      city.addBuilding(BuildingType.Forge);
+      const resources = new PlayerResources();
+      resources.addResource(ResourceType.Ore, 5);
+      resources.addResource(ResourceType.Wood, 5);
+      const gameClock = new GameClock();
+
+      // Première passe : initialisation du timer, pas de fabrication immédiate
+      expect(BuildingProductionController.processAutomaticProduction(civId, map, resources, gameClock)).toEqual([]);
+
+      gameClock.updateTime(BuildingProductionController.getForgeProductionInterval(1));
+      const results = BuildingProductionController.processAutomaticProduction(civId, map, resources, gameClock);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].buildingType).toBe(BuildingType.Forge);
+      expect(results[0].resourceType).toBe(ResourceType.Tools);
+      expect(resources.getResource(ResourceType.Tools)).toBe(1);
+      expect(resources.getResource(ResourceType.Ore)).toBe(3);
+      expect(resources.getResource(ResourceType.Wood)).toBe(4);
+    });
+
+    it('ne fabrique rien sans les ressources de la recette mais avance le timer', () => {
+      city.addBuilding(BuildingType.Forge);
+      const forge = city.getBuilding(BuildingType.Forge)!;
+      forge.setProductionTimeSeconds(0);
+      const resources = new PlayerResources();
+      resources.addResource(ResourceType.Ore, 1);
+      const gameClock = new GameClock();
+      gameClock.updateTime(10);
+
+      const results = BuildingProductionController.processAutomaticProduction(civId, map, resources, gameClock);
+
+      expect(results).toEqual([]);
+      expect(resources.getResource(ResourceType.Tools)).toBe(0);
+      expect(forge.getProductionTimeSeconds()).toBe(10);
+    });
+
+    it('fabrique plus vite avec le niveau de la Forge', () => {
+      expect(BuildingProductionController.getForgeProductionInterval(3))
+        .toBeLessThan(BuildingProductionController.getForgeProductionInterval(1));
+    });
+
+    it('accélère la Mine de la même ville selon son niveau', () => {
+      city.addBuilding(BuildingType.Mine);
+      city.addBuildingWithLevel(BuildingType.Forge, 2);
+      city.getBuilding(BuildingType.Mine)!.setProductionTimeSeconds(0);
+      city.getBuilding(BuildingType.Forge)!.setProductionTimeSeconds(0);
+      expect(BuildingProductionController.getMineIntervalMultiplier(city)).toBeCloseTo(0.8);
+
+      const resources = new PlayerResources();
+      const gameClock = new GameClock();
+      // Intervalle de base de la Mine : 2s, réduit à 1.6s par la Forge niveau 2
+      gameClock.updateTime(1.7);
+      const results = BuildingProductionController.processAutomaticProduction(civId, map, resources, gameClock);
+
+      expect(results.map(r => r.hexCoord)).toEqual([oreHex]);
+      expect(resources.getResource(ResourceType.Ore)).toBe(1);
+    });
+  });
+
+  describe('Marché niveau 2', () => {
+    let map: IslandMap;
+    let civId: CivilizationId;
+    let city: City;
+
+    beforeEach(() => {
+      const center = new HexCoord(0, 0);
+      const sw = center.neighbor(HexDirection.SW);
+      const se = center.neighbor(HexDirection.SE);
+      map = new IslandMap(new HexGrid([new Hex(center), new Hex(sw), new Hex(se)]));
+      civId = CivilizationId.create('civ1');
+      map.registerCivilization(civId);
+
+      const vertex = Vertex.create(center, sw, se);
+      map.addCity(vertex, civId, CityLevel.Town);
+      city = map.getCity(vertex)!;
+      city.addBuildingWithLevel(BuildingType.Market, 2);
+      city.getBuilding(BuildingType.Market)!.setProductionTimeSeconds(0);
+    });
+
+    it('varie les ressources produites d\'un cycle à l\'autre', () => {
+      const resources = new PlayerResources();
+      const gameClock = new GameClock();
+      gameClock.updateTime(300);
+
+      const results = BuildingProductionController.processAutomaticProduction(civId, map, resources, gameClock);
+
+      expect(results).toHaveLength(30);
+      expect(new Set(results.map(r => r.resourceType)).size).toBeGreaterThan(1);
+    });
+
+    it('conserve l\'état de son générateur aléatoire à la sauvegarde', () => {
+      const gameClock = new GameClock();
+      gameClock.updateTime(10);
+      BuildingProductionController.processAutomaticProduction(civId, map, new PlayerResources(), gameClock);
+      expect(city.getBuilding(BuildingType.Market)!.getRngState()).toBeDefined();
+
+      const restored = IslandMap.deserialize(JSON.parse(JSON.stringify(map.serialize())));
+      gameClock.updateTime(50);
+      const next = BuildingProductionController.processAutomaticProduction(civId, map, new PlayerResources(), gameClock);
+      const restoredNext = BuildingProductionController.processAutomaticProduction(civId, restored, new PlayerResources(), gameClock);
+
+      expect(restoredNext.map(r => r.resourceType)).toEqual(next.map(r => r.resourceType));
+    });
+  });
 });
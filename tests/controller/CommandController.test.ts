@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CommandController, CommandId } from '../../src/controller/CommandController';
+import { GameCoordinator } from '../../src/controller/GameCoordinator';
+import { BuildingController } from '../../src/controller/BuildingController';
+import { MainGame } from '../../src/application/MainGame';
+import { HexMapRenderer } from '../../src/view/HexMapRenderer';
+import { IslandState } from '../../src/model/game/IslandState';
+import { BuildingType, getBuildingCost } from '../../src/model/city/BuildingType';
+import { City } from '../../src/model/city/City';
+import { IslandMap } from '../../src/model/map/IslandMap';
+import { ResourceType } from '../../src/model/map/ResourceType';
+import { localize } from '../../src/i18n';
+
+describe('CommandController', () => {
+  let game: MainGame;
+  let islandState: IslandState;
+  let map: IslandMap;
+  let city: City;
+
+  beforeEach(() => {
+    game = new MainGame();
+    game.newGame(12345);
+    islandState = game.getIslandState();
+    map = game.getIslandMap()!;
+    city = map.getCitiesByCivilization(game.getPlayerCivilizationId())[0];
+  });
+
+  function findCommand(id: CommandId, buildingType?: BuildingType) {
+    return CommandController.getCommands(islandState, city.vertex)
+      .find(command => command.id === id && command.buildingType === buildingType);
+  }
+
+  it('fait défiler les villes du joueur dans les deux sens', () => {
+    const civId = game.getPlayerCivilizationId();
+    expect(findCommand(CommandId.NextCity)!.disabledReason).toBe(localize('command.reason.noOtherCity'));
+
+    const other = map.getBuildableRoadsForCivilization(civId)[0].otherVertex(city.vertex);
+    map.addCity(other, civId);
+
+    expect(CommandController.getNextCityVertex(map, civId, null)).toEqual(city.vertex);
+    expect(CommandController.getNextCityVertex(map, civId, null, -1)).toEqual(other);
+    expect(CommandController.getNextCityVertex(map, civId, city.vertex)).toEqual(other);
+    expect(CommandController.getNextCityVertex(map, civId, other)).toEqual(city.vertex);
+    expect(CommandController.getNextCityVertex(map, civId, other, -1)).toEqual(city.vertex);
+    expect(findCommand(CommandId.NextCity)!.disabledReason).toBeNull();
+  });
+
+  it('bloque les commandes liées à une ville sans sélection', () => {
+    const commands = CommandController.getCommands(islandState, null);
+    const harvest = commands.find(command => command.id === CommandId.HarvestAll)!;
+    const automation = commands.find(command => command.id === CommandId.OpenAutomation)!;
+
+    expect(harvest.disabledReason).toBe(localize('city.noneSelected'));
+    expect(automation.disabledReason).toBe(localize('city.noneSelected'));
+    expect(commands.some(command => command.id === CommandId.Build)).toBe(false);
+    // Les commandes globales restent listées même sans ville sélectionnée
+    expect(commands.some(command => command.id === CommandId.NextCity && command.disabledReason === null)).toBe(true);
+  });
+
+  it('reprend la raison de BuildingController pour les constructions', () => {
+    const resources = game.getPlayerResources();
+    for (const resourceType of [ResourceType.Wood, ResourceType.Brick, ResourceType.Wheat, ResourceType.Sheep, ResourceType.Ore]) {
+      resources.removeResource(resourceType, resources.getResource(resourceType));
+    }
+    const cost = BuildingController.formatCost(getBuildingCost(BuildingType.Market));
+    expect(findCommand(CommandId.Build, BuildingType.Market)!.disabledReason)
+      .toBe(localize('building.error.insufficientResources', { cost }));
+
+    for (const resourceType of [ResourceType.Wood, ResourceType.Brick, ResourceType.Wheat, ResourceType.Sheep, ResourceType.Ore]) {
+      resources.addResource(resourceType, 50);
+    }
+    expect(findCommand(CommandId.Build, BuildingType.Market)!.disabledReason).toBeNull();
+
+    const coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+    expect(coordinator.buildBuilding(BuildingType.Market, city, city.vertex).success).toBe(true);
+    expect(findCommand(CommandId.Build, BuildingType.Market)!.disabledReason).toBe(localize('construction.error.alreadyInProgress'));
+  });
+
+  it('récolte en une fois les hexagones prêts autour de la ville', () => {
+    const civId = game.getPlayerCivilizationId();
+    const now = game.getGameClock().getCurrentTime();
+    const ready = CommandController.getReadyHarvestHexes(city.vertex, map, civId, now);
+    expect(ready.length).toBeGreaterThan(0);
+    expect(findCommand(CommandId.HarvestAll)!.disabledReason).toBeNull();
+
+    const coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+    const result = coordinator.harvestAround(city.vertex);
+    expect(result.success).toBe(true);
+    expect(result.harvested.map(h => h.hexCoord)).toEqual(ready);
+
+    // Tous les hexagones sont en délai de récolte
+    expect(CommandController.getReadyHarvestHexes(city.vertex, map, civId, now)).toEqual([]);
+    expect(findCommand(CommandId.HarvestAll)!.disabledReason).toBe(localize('command.reason.nothingToHarvest'));
+    expect(coordinator.harvestAround(city.vertex).success).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConstructionController } from '../../src/controller/ConstructionController';
+import { MainGame } from '../../src/application/MainGame';
+import { IslandState } from '../../src/model/game/IslandState';
+import { ConstructionKind } from '../../src/model/game/ConstructionQueue';
+import { BuildingType } from '../../src/model/city/BuildingType';
+import { ResourceType } from '../../src/model/map/ResourceType';
+import { CityLevel } from '../../src/model/city/CityLevel';
+import { OutpostController } from '../../src/controller/OutpostController';
+import { RoadConstruction } from '../../src/model/game/RoadConstruction';
+
+describe('ConstructionController', () => {
+  let game: MainGame;
+  let islandState: IslandState;
+
+  beforeEach(() => {
+    game = new MainGame();
+    game.newGame(12345);
+    islandState = game.getIslandState();
+    for (const resourceType of Object.values(ResourceType)) {
+      islandState.getPlayerResources().addResource(resourceType, 20);
+    }
+  });
+
+  /** Ville initiale, passée au niveau Colonie pour débloquer les bâtiments de production. */
+  function colonyCity() {
+    const city = game.getIslandMap()!.getCitiesByCivilization(game.getPlayerCivilizationId())[0];
+    city.addBuildingWithLevel(BuildingType.TownHall, CityLevel.Colony);
+    return city;
+  }
+
+  function advanceTo(time: number): void {
+    game.getGameClock().updateTime(time);
+  }
+
+  it('place la route seulement à la fin du chantier', () => {
+    const map = game.getIslandMap()!;
+    const civId = game.getPlayerCivilizationId();
+    const edge = map.getBuildableRoadsForCivilization(civId)[0];
+    const woodBefore = islandState.getPlayerResources().getResource(ResourceType.Wood);
+
+    const site = ConstructionController.startRoad(edge, islandState);
+
+    // Coût payé au démarrage, route pas encore placée
+    expect(islandState.getPlayerResources().getResource(ResourceType.Wood)).toBeLessThan(woodBefore);
+    expect(map.hasRoad(edge)).toBe(false);
+    expect(() => ConstructionController.startRoad(edge, islandState)).toThrow();
+
+    advanceTo(site.endTime / 2);
+    expect(ConstructionController.processConstructions(islandState)).toHaveLength(0);
+    expect(site.getProgress(site.endTime / 2)).toBeCloseTo(0.5);
+
+    advanceTo(site.endTime);
+    const completed = ConstructionController.processConstructions(islandState);
+    expect(completed).toHaveLength(1);
+    expect(map.hasRoad(edge)).toBe(true);
+    expect(islandState.getConstructionQueue().isEmpty()).toBe(true);
+  });
+
+  it('réduit les durées avec le niveau de temps de construction', () => {
+    const civilization = islandState.getCivilization(game.getPlayerCivilizationId());
+    const baseDuration = ConstructionController.getBuildingDuration(civilization);
+
+    civilization.setConstructionTimeLevel(10);
+
+    expect(ConstructionController.getBuildingDuration(civilization)).toBeCloseTo(baseDuration / 2);
+  });
+
+  it('initialise la production d\'un bâtiment de ressources à la fin du chantier', () => {
+    const city = colonyCity();
+    advanceTo(5);
+
+    const site = ConstructionController.startBuilding(BuildingType.Sawmill, city, islandState);
+    expect(site.kind).toBe(ConstructionKind.Building);
+    expect(city.hasBuilding(BuildingType.Sawmill)).toBe(false);
+    // Un seul chantier par bâtiment
+    expect(ConstructionController.canStartBuilding(BuildingType.Sawmill, city, islandState)).toBe(false);
+
+    advanceTo(site.endTime);
+    ConstructionController.processConstructions(islandState);
+
+    expect(city.hasBuilding(BuildingType.Sawmill)).toBe(true);
+    expect(city.getBuilding(BuildingType.Sawmill)!.getProductionTimeSeconds()).toBe(site.endTime);
+  });
+
+  it('rembourse le chantier si l\'emplacement n\'est plus valide à la fin', () => {
+    const map = game.getIslandMap()!;
+    const civId = game.getPlayerCivilizationId();
+    const edge = map.getBuildableRoadsForCivilization(civId)[0];
+    const woodBefore = islandState.getPlayerResources().getResource(ResourceType.Wood);
+
+    const site = ConstructionController.startRoad(edge, islandState);
+    // L'arête est occupée entre-temps
+    map.addRoad(edge, civId);
+
+    advanceTo(site.endTime);
+    expect(ConstructionController.processConstructions(islandState)).toHaveLength(0);
+    expect(islandState.getPlayerResources().getResource(ResourceType.Wood)).toBe(woodBefore);
+  });
+
+  it('compte et espace les avant-postes en chantier', () => {
+    const map = game.getIslandMap()!;
+    const civId = game.getPlayerCivilizationId();
+    for (const resourceType of Object.values(ResourceType)) {
+      islandState.getPlayerResources().addResource(resourceType, 100);
+    }
+    // Prolonger le réseau jusqu'à un sommet constructible
+    while (map.getBuildableOutpostVertices(civId).length === 0) {
+      map.addRoad(map.getBuildableRoadsForCivilization(civId)[0], civId);
+    }
+    const vertex = map.getBuildableOutpostVertices(civId)[0];
+    // Une route de plus depuis ce sommet : son autre extrémité est aussi constructible
+    const nextRoad = map.getEdgesForVertex(vertex).find(edge => RoadConstruction.canBuildRoad(edge, civId, map))!;
+    map.addRoad(nextRoad, civId);
+    const nextVertex = map.getVerticesForEdge(nextRoad).find(v => !v.equals(vertex))!;
+    expect(ConstructionController.canStartOutpost(nextVertex, islandState)).toBe(true);
+
+    const cityCount = map.getCitiesByCivilization(civId).length;
+    ConstructionController.startOutpost(vertex, islandState);
+
+    // Le chantier compte dans le prix du suivant, et son voisin n'est plus constructible
+    expect(ConstructionController.getOutpostCost(islandState).get(ResourceType.Wood))
+      .toBe(OutpostController.getBuildableOutpostCost(cityCount + 1).get(ResourceType.Wood));
+    expect(ConstructionController.canStartOutpost(nextVertex, islandState)).toBe(false);
+    expect(() => ConstructionController.startOutpost(nextVertex, islandState)).toThrow();
+  });
+
+  it('sérialise les chantiers en cours dans l\'IslandState', () => {
+    const city = colonyCity();
+    ConstructionController.startBuilding(BuildingType.Sawmill, city, islandState);
+
+    const loaded = IslandState.deserialize(islandState.serialize());
+    const sites = loaded.getConstructionQueue().getSites();
+
+    expect(sites).toHaveLength(1);
+    expect(sites[0].buildingType).toBe(BuildingType.Sawmill);
+    expect(sites[0].vertex!.equals(city.vertex)).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DivineController } from '../../src/controller/DivineController';
+import { MainGame } from '../../src/application/MainGame';
+import { GodState } from '../../src/model/game/GodState';
+import { PlayerSave } from '../../src/model/game/PlayerSave';
+import { DivinePowerType } from '../../src/model/god/types';
+import { CityLevel } from '../../src/model/city/CityLevel';
+import { ResourceType } from '../../src/model/map/ResourceType';
+
+describe('DivineController', () => {
+  let game: MainGame;
+
+  beforeEach(() => {
+    game = new MainGame();
+    game.newGame(12345);
+  });
+
+  function godState(): GodState {
+    return game.getController().getGodState();
+  }
+
+  describe('ascension', () => {
+    it('refuse l\'ascension tant que la civilisation n\'a pas atteint son apogée', () => {
+      godState().getCivilizationState().setPrestigePointsTotal(DivineController.ASCENSION_PRESTIGE_THRESHOLD - 1);
+
+      const result = DivineController.ascend(godState());
+
+      expect(result.success).toBe(false);
+      expect(godState().getGodPoints()).toBe(0);
+    });
+
+    it('convertit le prestige en points divins et réinitialise la civilisation', () => {
+      const civState = godState().getCivilizationState();
+      civState.setPrestigePointsTotal(250);
+
+      const result = DivineController.ascend(godState());
+
+      expect(result.success).toBe(true);
+      expect(result.godPointsGained).toBe(5);
+      expect(godState().getGodPoints()).toBe(5);
+      expect(godState().getAscensionCount()).toBe(1);
+      expect(civState.getPrestigePointsTotal()).toBe(0);
+      expect(civState.getIslandState().getIslandMap()).toBeNull();
+
+      // La nouvelle partie conserve les acquis divins mais pas le prestige
+      game.newGame(54321);
+      expect(godState().getGodPoints()).toBe(5);
+      expect(godState().hasAscended()).toBe(true);
+      expect(godState().getCivilizationState().hasPrestige()).toBe(false);
+    });
+  });
+
+  describe('pouvoirs divins', () => {
+    it('achète un pouvoir en débitant les points divins, dans la limite du niveau maximal', () => {
+      godState().setGodPoints(100);
+
+      const maxLevel = DivineController.getMaxLevel(DivinePowerType.StartingCityLevel);
+      let spent = 0;
+      for (let level = 0; level < maxLevel; level++) {
+        spent += DivineController.getPowerCost(DivinePowerType.StartingCityLevel, level);
+        expect(DivineController.purchasePower(godState(), DivinePowerType.StartingCityLevel)).toBe(true);
+      }
+
+      expect(DivineController.purchasePower(godState(), DivinePowerType.StartingCityLevel)).toBe(false);
+      expect(godState().getDivinePowers().getLevel(DivinePowerType.StartingCityLevel)).toBe(maxLevel);
+      expect(godState().getGodPoints()).toBe(100 - spent);
+    });
+
+    it('refuse l\'achat sans points divins suffisants', () => {
+      expect(DivineController.purchasePower(godState(), DivinePowerType.StartingResources)).toBe(false);
+      expect(godState().getDivinePowers().getLevel(DivinePowerType.StartingResources)).toBe(0);
+    });
+
+    it('applique les pouvoirs au démarrage d\'une nouvelle partie', () => {
+      const powers = godState().getDivinePowers();
+      powers.incrementLevel(DivinePowerType.StartingCityLevel);
+      powers.incrementLevel(DivinePowerType.StartingResources);
+      powers.incrementLevel(DivinePowerType.StartingResources);
+      powers.incrementLevel(DivinePowerType.AutomationUnlock);
+
+      game.newGame(54321);
+
+      const civId = game.getPlayerCivilizationId();
+      const city = game.getIslandMap()!.getCitiesByCivilization(civId)[0];
+      expect(city.level).toBe(CityLevel.Colony);
+      // Capacité d'une colonie : 40, donc 2 niveaux x 10 ressources
+      expect(game.getPlayerResources().getResource(ResourceType.Ore)).toBe(20);
+      expect(game.getPlayerResources().getResource(ResourceType.Tools)).toBe(0);
+      const civilization = game.getIslandState().getCivilization(civId);
+      expect(civilization.isAutoRoadConstructionEnabled()).toBe(true);
+      expect(civilization.isAutoOutpostConstructionEnabled()).toBe(false);
+    });
+  });
+
+  it('sérialise les points divins, les pouvoirs et les ascensions dans le PlayerSave', () => {
+    godState().setGodPoints(7);
+    godState().incrementAscensionCount();
+    godState().getDivinePowers().incrementLevel(DivinePowerType.AutomationUnlock);
+
+    const loaded = PlayerSave.deserialize(JSON.parse(game.saveGame())).getGodState();
+
+    expect(loaded.getGodPoints()).toBe(7);
+    expect(loaded.getAscensionCount()).toBe(1);
+    expect(loaded.getDivinePowers().getLevel(DivinePowerType.AutomationUnlock)).toBe(1);
+
+    // Les anciennes sauvegardes sans couche divine restent chargeables
+    const legacy = JSON.parse(game.saveGame());
+    delete legacy.godState.divinePowers;
+    delete legacy.godState.ascensionCount;
+    const legacyGodState = PlayerSave.deserialize(legacy).getGodState();
+    expect(legacyGodState.getDivinePowers().hasAnyPower()).toBe(false);
+    expect(legacyGodState.getAscensionCount()).toBe(0);
+  });
+});
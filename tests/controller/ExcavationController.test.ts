@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExcavationController, ExcavationFind, ExcavationResult } from '../../src/controller/ExcavationController';
+import { GameEventBus } from '../../src/controller/GameEventBus';
+import { Make7HexesMap } from '../utils/IslandStateGenerator';
+import { IslandState } from '../../src/model/game/IslandState';
+import { IslandMap } from '../../src/model/map/IslandMap';
+import { City } from '../../src/model/city/City';
+import { BuildingType } from '../../src/model/city/BuildingType';
+import { HexType } from '../../src/model/map/HexType';
+import { HexCoord } from '../../src/model/hex/HexCoord';
+import { HexDirection } from '../../src/model/hex/HexDirection';
+import { calculateCivilizationPoints } from '../../src/model/game/CivilizationPoints';
+
+describe('ExcavationController', () => {
+  let islandState: IslandState;
+  let map: IslandMap;
+  let city: City;
+  // Hexagone nord-est du centre : voisin de la ville de Make7HexesMap
+  const desertHex = new HexCoord(0, 0).neighbor(HexDirection.NE);
+
+  beforeEach(() => {
+    GameEventBus.clear();
+    islandState = Make7HexesMap();
+    map = islandState.getIslandMap()!;
+    city = map.getCitiesByCivilization(islandState.getPlayerCivilizationId())[0];
+    map.setHexType(desertHex, HexType.Desert);
+  });
+
+  /** Avance l'horloge de jeu. */
+  function advance(seconds: number): void {
+    const clock = islandState.getGameClock();
+    clock.updateTime(clock.getCurrentTime() + seconds);
+  }
+
+  /** Enchaîne des cycles de fouilles et retourne toutes les trouvailles. */
+  function excavate(cycles: number): ExcavationResult[] {
+    const results: ExcavationResult[] = [];
+    ExcavationController.processExcavations(islandState);
+    for (let i = 0; i < cycles; i++) {
+      advance(ExcavationController.getExcavationInterval(city.getBuildingLevel(BuildingType.Excavation) ?? 1));
+      results.push(...ExcavationController.processExcavations(islandState));
+    }
+    return results;
+  }
+
+  it('réduit l\'intervalle avec le niveau du chantier', () => {
+    expect(ExcavationController.getExcavationInterval(1)).toBe(ExcavationController.EXCAVATION_INTERVAL_SECONDS);
+    expect(ExcavationController.getExcavationInterval(2)).toBeLessThan(ExcavationController.getExcavationInterval(1));
+  });
+
+  it('ne fouille pas à la construction, puis fouille le désert à chaque cycle', () => {
+    city.addBuilding(BuildingType.Excavation);
+
+    expect(ExcavationController.processExcavations(islandState)).toEqual([]);
+    advance(ExcavationController.getExcavationInterval(1));
+    const results = ExcavationController.processExcavations(islandState);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].hexCoord.equals(desertHex)).toBe(true);
+    expect(ExcavationController.isHexExcavated(desertHex, islandState.getPlayerCivilizationId(), map)).toBe(true);
+  });
+
+  it('ne fouille rien sans désert voisin', () => {
+    city.addBuilding(BuildingType.Excavation);
+    map.setHexType(desertHex, HexType.Wood);
+
+    expect(excavate(3)).toEqual([]);
+  });
+
+  it('donne les mêmes trouvailles pour la même partie', () => {
+    city.addBuilding(BuildingType.Excavation);
+    const first = excavate(20);
+
+    islandState = Make7HexesMap();
+    map = islandState.getIslandMap()!;
+    city = map.getCitiesByCivilization(islandState.getPlayerCivilizationId())[0];
+    map.setHexType(desertHex, HexType.Desert);
+    city.addBuilding(BuildingType.Excavation);
+
+    expect(excavate(20)).toEqual(first);
+    expect(new Set(first.map(result => result.find)).size).toBeGreaterThan(1);
+  });
+
+  it('conserve les reliques sur le chantier et les compte en points de civilisation', () => {
+    city.addBuilding(BuildingType.Excavation);
+    const civId = islandState.getPlayerCivilizationId();
+    const pointsBefore = calculateCivilizationPoints(map, civId);
+
+    const relics = excavate(30).filter(result => result.find === ExcavationFind.Relic).length;
+
+    expect(relics).toBeGreaterThan(0);
+    expect(city.getBuilding(BuildingType.Excavation)!.getRelicCount()).toBe(relics);
+    expect(calculateCivilizationPoints(map, civId)).toBe(pointsBefore + relics);
+
+    const restored = IslandMap.deserialize(JSON.parse(JSON.stringify(map.serialize())));
+    expect(restored.getCity(city.vertex)!.getBuilding(BuildingType.Excavation)!.getRelicCount()).toBe(relics);
+  });
+
+  it('limite les reliques selon le niveau du chantier', () => {
+    city.addBuilding(BuildingType.Excavation);
+
+    const results = excavate(100);
+
+    expect(city.getBuilding(BuildingType.Excavation)!.getRelicCount()).toBe(ExcavationController.getMaxRelics(1));
+    expect(results.filter(result => result.find === ExcavationFind.Relic)).toHaveLength(ExcavationController.getMaxRelics(1));
+  });
+});
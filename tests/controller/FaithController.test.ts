@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FaithController } from '../../src/controller/FaithController';
+import { GameCoordinator } from '../../src/controller/GameCoordinator';
+import { MainGame } from '../../src/application/MainGame';
+import { HexMapRenderer } from '../../src/view/HexMapRenderer';
+import { IslandState } from '../../src/model/game/IslandState';
+import { ResourceHarvest } from '../../src/model/game/ResourceHarvest';
+import { calculateInventoryCapacity } from '../../src/model/game/InventoryCapacity';
+import { BlessingType, BLESSING_DEFINITIONS } from '../../src/model/faith/types';
+import { BuildingType } from '../../src/model/city/BuildingType';
+import { City } from '../../src/model/city/City';
+import { HexType } from '../../src/model/map/HexType';
+import { ResourceType } from '../../src/model/map/ResourceType';
+
+describe('FaithController', () => {
+  let game: MainGame;
+  let islandState: IslandState;
+  let city: City;
+
+  beforeEach(() => {
+    game = new MainGame();
+    game.newGame(12345);
+    islandState = game.getIslandState();
+    city = game.getIslandMap()!.getCitiesByCivilization(game.getPlayerCivilizationId())[0];
+  });
+
+  /** Avance l'horloge de jeu. */
+  function advance(seconds: number): void {
+    const clock = game.getGameClock();
+    clock.updateTime(clock.getCurrentTime() + seconds);
+  }
+
+  describe('production de foi', () => {
+    it('produit autant de foi que le niveau du Temple à chaque cycle', () => {
+      city.addBuildingWithLevel(BuildingType.Temple, 2);
+
+      // Première passe : initialisation du timer, pas de production immédiate
+      expect(FaithController.processFaithProduction(islandState)).toBe(0);
+
+      advance(FaithController.getFaithInterval());
+      expect(FaithController.processFaithProduction(islandState)).toBe(2);
+      expect(islandState.getFaith().getFaith()).toBe(2);
+    });
+
+    it('ajoute le bonus d\'oasis à un Temple voisin d\'un désert', () => {
+      const map = game.getIslandMap()!;
+      city.addBuildingWithLevel(BuildingType.Temple, 2);
+      map.setHexType(city.vertex.getHexes()[0], HexType.Desert);
+
+      expect(FaithController.isOasisCity(city, map)).toBe(true);
+      expect(FaithController.isOasisHex(city.vertex.getHexes()[0], game.getPlayerCivilizationId(), map)).toBe(true);
+      FaithController.processFaithProduction(islandState);
+      advance(FaithController.getFaithInterval());
+      expect(FaithController.processFaithProduction(islandState)).toBe(2 + FaithController.OASIS_FAITH_BONUS);
+    });
+
+    it('ne produit rien sans Temple', () => {
+      advance(1000);
+      expect(FaithController.processFaithProduction(islandState)).toBe(0);
+    });
+
+    it('retire les bénédictions expirées', () => {
+      islandState.getFaith().activate(BlessingType.BoundlessStorage, 0);
+      advance(BLESSING_DEFINITIONS[BlessingType.BoundlessStorage].durationSeconds);
+      FaithController.processFaithProduction(islandState);
+      expect(islandState.getFaith().getActiveBlessings(0)).toEqual([]);
+    });
+  });
+
+  describe('bénédictions', () => {
+    it('dépense la foi et refuse une bénédiction déjà active', () => {
+      islandState.getFaith().addFaith(100);
+
+      expect(FaithController.activateBlessing(islandState, BlessingType.BoundlessStorage)).toBe(true);
+      expect(islandState.getFaith().getFaith()).toBe(100 - BLESSING_DEFINITIONS[BlessingType.BoundlessStorage].cost);
+      expect(FaithController.activateBlessing(islandState, BlessingType.BoundlessStorage)).toBe(false);
+
+      // La durée court sur le GameClock
+      advance(BLESSING_DEFINITIONS[BlessingType.BoundlessStorage].durationSeconds);
+      expect(FaithController.canActivateBlessing(islandState, BlessingType.BoundlessStorage)).toBe(true);
+    });
+
+    it('refuse une bénédiction trop chère', () => {
+      islandState.getFaith().addFaith(BLESSING_DEFINITIONS[BlessingType.SwiftConstruction].cost - 1);
+      expect(FaithController.activateBlessing(islandState, BlessingType.SwiftConstruction)).toBe(false);
+    });
+
+    it('exige un type d\'hexagone récoltable pour la récolte abondante', () => {
+      islandState.getFaith().addFaith(100);
+      expect(FaithController.canActivateBlessing(islandState, BlessingType.BountifulHarvest)).toBe(false);
+      expect(FaithController.canActivateBlessing(islandState, BlessingType.BountifulHarvest, HexType.Desert)).toBe(false);
+      expect(FaithController.canActivateBlessing(islandState, BlessingType.BountifulHarvest, HexType.Wood)).toBe(true);
+    });
+
+    it('double les récoltes du type d\'hexagone béni', () => {
+      const map = game.getIslandMap()!;
+      const civId = game.getPlayerCivilizationId();
+      const hex = city.vertex.getHexes().find(h => ResourceHarvest.canHarvest(h, map, civId))!;
+      const hexType = map.getHexType(hex)!;
+
+      const before = ResourceHarvest.harvest(hex, map, civId, game.getPlayerResources(), city.vertex, undefined, game.getGameModifiers());
+      islandState.getFaith().addFaith(100);
+      FaithController.activateBlessing(islandState, BlessingType.BountifulHarvest, hexType);
+      const blessed = ResourceHarvest.harvest(hex, map, civId, game.getPlayerResources(), city.vertex, undefined, game.getGameModifiers());
+
+      expect(blessed.gain).toBe(before.gain * 2);
+    });
+
+    it('suspend les plafonds d\'inventaire et conserve le surplus à l\'expiration', () => {
+      const map = game.getIslandMap()!;
+      const civId = game.getPlayerCivilizationId();
+      const resources = game.getPlayerResources();
+      const capacity = calculateInventoryCapacity(map, civId);
+
+      islandState.getFaith().addFaith(100);
+      FaithController.activateBlessing(islandState, BlessingType.BoundlessStorage);
+      const modifiers = game.getGameModifiers();
+      expect(modifiers.areInventoryCapsSuspended()).toBe(true);
+      resources.addResourceCapped(ResourceType.Wood, capacity * 2, calculateInventoryCapacity(map, civId, modifiers));
+      expect(resources.getResource(ResourceType.Wood)).toBeGreaterThan(capacity);
+
+      advance(BLESSING_DEFINITIONS[BlessingType.BoundlessStorage].durationSeconds);
+      const stock = resources.getResource(ResourceType.Wood);
+      expect(resources.addResourceCapped(ResourceType.Wood, 1, calculateInventoryCapacity(map, civId, game.getGameModifiers()))).toBe(0);
+      expect(resources.getResource(ResourceType.Wood)).toBe(stock);
+    });
+
+    it('achève instantanément la prochaine construction automatique', () => {
+      const coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+      const resources = game.getPlayerResources();
+      for (const resourceType of [ResourceType.Wood, ResourceType.Brick, ResourceType.Wheat, ResourceType.Sheep, ResourceType.Ore]) {
+        resources.addResource(resourceType, 50);
+      }
+      islandState.getFaith().addFaith(100);
+      expect(coordinator.activateBlessing(BlessingType.SwiftConstruction).success).toBe(true);
+
+      // Une construction manuelle ne consomme pas la bénédiction
+      expect(coordinator.buildBuilding(BuildingType.Market, city, city.vertex).success).toBe(true);
+      expect(coordinator.processConstructions()).toHaveLength(0);
+
+      expect(coordinator.buildBuilding(BuildingType.TownHall, city, city.vertex, true).success).toBe(true);
+      expect(coordinator.processConstructions()).toHaveLength(1);
+      expect(city.hasBuilding(BuildingType.TownHall)).toBe(true);
+      expect(city.hasBuilding(BuildingType.Market)).toBe(false);
+
+      const now = game.getGameClock().getCurrentTime();
+      expect(islandState.getFaith().isActive(BlessingType.SwiftConstruction, now)).toBe(false);
+    });
+
+    it('achève aussi instantanément une route automatique', () => {
+      const coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+      const civId = game.getPlayerCivilizationId();
+      const map = game.getIslandMap()!;
+      game.getPlayerResources().addResource(ResourceType.Wood, 10);
+      game.getPlayerResources().addResource(ResourceType.Brick, 10);
+      islandState.getFaith().addFaith(100);
+      expect(coordinator.activateBlessing(BlessingType.SwiftConstruction).success).toBe(true);
+
+      const [first, second] = map.getBuildableRoadsForCivilization(civId);
+      expect(coordinator.buildRoad(first, true).success).toBe(true);
+      // Une seule route automatique en chantier à la fois
+      expect(coordinator.buildRoad(second, true).success).toBe(false);
+      expect(coordinator.processConstructions()).toHaveLength(1);
+      expect(map.hasRoad(first)).toBe(true);
+      expect(islandState.getFaith().isActive(BlessingType.SwiftConstruction, game.getGameClock().getCurrentTime())).toBe(false);
+
+      // La bénédiction consommée, la route suivante a une durée normale
+      expect(coordinator.buildRoad(second, true).success).toBe(true);
+      expect(coordinator.processConstructions()).toHaveLength(0);
+      expect(map.hasRoad(second)).toBe(false);
+    });
+  });
+
+  it('conserve la foi et les bénédictions actives à la sauvegarde', () => {
+    islandState.getFaith().addFaith(50);
+    FaithController.activateBlessing(islandState, BlessingType.BountifulHarvest, HexType.Ore);
+
+    const loaded = new MainGame();
+    expect(loaded.loadGame(game.saveGame())).toBe(true);
+
+    const faith = loaded.getIslandState().getFaith();
+    const now = loaded.getGameClock().getCurrentTime();
+    expect(faith.getFaith()).toBe(50 - BLESSING_DEFINITIONS[BlessingType.BountifulHarvest].cost);
+    expect(faith.isActive(BlessingType.BountifulHarvest, now)).toBe(true);
+    expect(loaded.getGameModifiers().getHarvestMultiplier(HexType.Ore)).toBe(2);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { Make7HexesMapWithPortAndCapital } from '../utils/GameProgressionTest';
 import { HexCoord } from '../../src/model/hex/HexCoord';
 import { HexDirection } from '../../src/model/hex/HexDirection';
@@ -9,16 +9,33 @@ import { CityLevel } from '../../src/model/city/CityLevel';
 import { GameAutoPlayer } from '../utils/GameAutoPlayer';
 import { AutomationController } from '../../src/controller/AutomationController';
 import { BuildingProductionController } from '../../src/controller/BuildingProductionController';
-import { ResourceHarvestController } from '../../src/controller/ResourceHarvestController';
 import { IslandMap } from '../../src/model/map/IslandMap';
 import { Edge } from '../../src/model/hex/Edge';
 import { OutpostController } from '../../src/controller/OutpostController';
+import { GameCoordinator } from '../../src/controller/GameCoordinator';
+import { MainGame } from '../../src/application/MainGame';
+import { HexMapRenderer } from '../../src/view/HexMapRenderer';
+import { IslandState } from '../../src/model/game/IslandState';
+import { GameModifiers } from '../../src/model/game/GameModifiers';
+import { ConstructionKind } from '../../src/model/game/ConstructionQueue';
+import { ResourceType } from '../../src/model/map/ResourceType';
+import { SaveManager } from '../../src/application/SaveManager';
+
+/**
+ * Coordinateur branché sur un état d'île de test : les automatisations mettent leurs constructions en chantier.
+ */
+function createCoordinator(gs: IslandState): GameCoordinator {
+  const game = {
+    getIslandState: () => gs,
+    getIslandMap: () => gs.getIslandMap(),
+    getPlayerCivilizationId: () => gs.getPlayerCivilizationId(),
+    getPlayerResources: () => gs.getPlayerResources(),
+    getGameModifiers: () => GameModifiers.NONE,
+  } as unknown as MainGame;
+  return new GameCoordinator(game, {} as HexMapRenderer);
+}
 
 describe('GameAutomation', () => {
-  beforeEach(() => {
-    ResourceHarvestController.resetCooldowns();
-  });
-
   describe('Automations de la Guilde des batisseurs niveau 3', () => {
     it('devrait construire automatiquement des routes (niveau 1)', () => {
       const gs = Make7HexesMapWithPortAndCapital();
@@ -73,6 +90,8 @@ describe('GameAutomation', () => {
       const civilization = gs.getCivilization(civId);
       civilization.setAutoRoadConstruction(true);
 
+      const coordinator = createCoordinator(gs);
+
       // Compter le nombre de routes initiales
       const initialRoadCount = civilization.getRoadCount(islandMap);
 
@@ -86,8 +105,9 @@ describe('GameAutomation', () => {
         // Avancer le temps et récolter
         GameAutoPlayer.advanceTimeAndHarvest(civId, islandMap, resources, gameClock);
         
-        // Traiter les automations
-        AutomationController.processAllAutomations(civId, civilization, islandMap, resources);
+        // Traiter les automations, puis achever les chantiers terminés
+        AutomationController.processAllAutomations(civId, civilization, islandMap, resources, coordinator);
+        coordinator.processConstructions();
         
         // Vérifier le nouveau nombre de routes
         roadCount = civilization.getRoadCount(islandMap);
@@ -480,6 +500,7 @@ describe('GameAutomation', () => {
       // Activer l'automation de construction de routes
       const civilization = gs.getCivilization(civId);
       civilization.setAutoRoadConstruction(true);
+      const coordinator = createCoordinator(gs);
 
       // Faire dérouler la gameloop pour permettre à l'automation de fonctionner longtemps
       const maxIterations = 500;
@@ -491,8 +512,9 @@ describe('GameAutomation', () => {
           GameAutoPlayer.advanceTimeAndHarvest(civId, islandMap, resources, gameClock);
         }
         
-        // Traiter les automations
-        AutomationController.processAllAutomations(civId, civilization, islandMap, resources);
+        // Traiter les automations, puis achever les chantiers terminés
+        AutomationController.processAllAutomations(civId, civilization, islandMap, resources, coordinator);
+        coordinator.processConstructions();
         
         // Avancer le temps
         gameClock.updateTime(gameClock.getCurrentTime() + 1);
@@ -772,4 +794,47 @@ describe('GameAutomation', () => {
       expect(townHallUpgraded).toBe(true);
     });
   });
+
+  it('met les routes automatiques en chantier, sans les rendre annulables', () => {
+    const game = new MainGame();
+    game.newGame(12345);
+    const coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+    const civId = game.getPlayerCivilizationId();
+    const islandMap = game.getIslandMap()!;
+    const islandState = game.getIslandState();
+    const civilization = islandState.getCivilization(civId);
+    civilization.setAutoRoadConstruction(true);
+    game.getPlayerResources().addResource(ResourceType.Wood, 10);
+    game.getPlayerResources().addResource(ResourceType.Brick, 10);
+
+    AutomationController.processAllAutomations(civId, civilization, islandMap, game.getPlayerResources(), coordinator);
+
+    const sites = islandState.getConstructionQueue().getSites();
+    expect(sites.map(site => site.kind)).toEqual([ConstructionKind.Road]);
+    expect(sites[0].endTime).toBeGreaterThan(sites[0].startTime);
+    expect(islandMap.getRoadsForCivilization(civId)).toHaveLength(0);
+    expect(islandState.getActionHistory().getDone()).toHaveLength(0);
+  });
+
+  it('ne met qu\'une route automatique en chantier à la fois, sans sauvegarder', () => {
+    const game = new MainGame();
+    game.newGame(12345);
+    const saveManager = { saveToLocal: vi.fn() } as unknown as SaveManager;
+    const coordinator = new GameCoordinator(game, {} as HexMapRenderer, saveManager);
+    const civId = game.getPlayerCivilizationId();
+    const islandMap = game.getIslandMap()!;
+    const islandState = game.getIslandState();
+    const civilization = islandState.getCivilization(civId);
+    civilization.setAutoRoadConstruction(true);
+    game.getPlayerResources().addResource(ResourceType.Wood, 100);
+    game.getPlayerResources().addResource(ResourceType.Brick, 100);
+
+    // Plusieurs ticks avant la fin du premier chantier
+    for (let tick = 0; tick < 5; tick++) {
+      AutomationController.processAllAutomations(civId, civilization, islandMap, game.getPlayerResources(), coordinator);
+    }
+
+    expect(islandState.getConstructionQueue().getSites()).toHaveLength(1);
+    expect(saveManager.saveToLocal).not.toHaveBeenCalled();
+  });
 });
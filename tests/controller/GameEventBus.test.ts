@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameEventBus, GameEventType, GameEventPayloads } from '../../src/controller/GameEventBus';
+import { RoadController } from '../../src/controller/RoadController';
+import { BuildingController } from '../../src/controller/BuildingController';
+import { TradeController } from '../../src/controller/TradeController';
+import { StatisticsController } from '../../src/controller/StatisticsController';
+import { Make7HexesMap } from '../utils/IslandStateGenerator';
+import { RoadConstruction } from '../../src/model/game/RoadConstruction';
+import { HexCoord } from '../../src/model/hex/HexCoord';
+import { SecondaryHexDirection } from '../../src/model/hex/SecondaryHexDirection';
+import { BuildingType } from '../../src/model/city/BuildingType';
+import { ResourceType } from '../../src/model/map/ResourceType';
+import { IslandState } from '../../src/model/game/IslandState';
+import { StatisticCounter } from '../../src/model/statistics/types';
+
+describe('GameEventBus', () => {
+  let islandState: IslandState;
+  const cityVertex = new HexCoord(0, 0).vertex(SecondaryHexDirection.N);
+
+  beforeEach(() => {
+    GameEventBus.clear();
+    islandState = Make7HexesMap();
+  });
+
+  function record<T extends GameEventType>(type: T): GameEventPayloads[T][] {
+    const received: GameEventPayloads[T][] = [];
+    GameEventBus.on(type, payload => received.push(payload));
+    return received;
+  }
+
+  it('appelle les abonnés du type émis jusqu\'à leur désabonnement', () => {
+    const handler = vi.fn();
+    const unsubscribe = GameEventBus.on(GameEventType.PrestigeActivated, handler);
+
+    GameEventBus.emit(GameEventType.PrestigeActivated, { civilizationPointsGained: 3 });
+    GameEventBus.emit(GameEventType.ResourceChanged, { civId: islandState.getPlayerCivilizationId(), resources: islandState.getPlayerResources() });
+    unsubscribe();
+    GameEventBus.emit(GameEventType.PrestigeActivated, { civilizationPointsGained: 5 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ civilizationPointsGained: 3 });
+  });
+
+  it('isole les abonnés en erreur', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = vi.fn();
+    GameEventBus.on(GameEventType.PrestigeActivated, () => {
+      throw new Error('boom');
+    });
+    GameEventBus.on(GameEventType.PrestigeActivated, handler);
+
+    expect(() => GameEventBus.emit(GameEventType.PrestigeActivated, { civilizationPointsGained: 1 })).not.toThrow();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+
+  it('émet RoadBuilt et ResourceChanged à la construction d\'une route', () => {
+    const map = islandState.getIslandMap()!;
+    const civId = islandState.getPlayerCivilizationId();
+    const resources = islandState.getPlayerResources();
+    const edge = map.getEdgesForVertex(cityVertex).find(e => RoadConstruction.canBuildRoad(e, civId, map))!;
+    resources.addResource(ResourceType.Wood, 10);
+    resources.addResource(ResourceType.Brick, 10);
+    const roads = record(GameEventType.RoadBuilt);
+    const changes = record(GameEventType.ResourceChanged);
+
+    RoadController.buildRoad(edge, civId, map, resources);
+
+    expect(roads).toEqual([{ civId, edge }]);
+    expect(changes).toEqual([{ civId, resources }]);
+  });
+
+  it('émet BuildingBuilt, puis TradePerformed pour un échange', () => {
+    const map = islandState.getIslandMap()!;
+    const civId = islandState.getPlayerCivilizationId();
+    const resources = islandState.getPlayerResources();
+    const city = map.getCity(cityVertex)!;
+    const buildings = record(GameEventType.BuildingBuilt);
+    const trades = record(GameEventType.TradePerformed);
+
+    resources.addResource(ResourceType.Wood, 10);
+    BuildingController.buildBuilding(BuildingType.Market, city, map, cityVertex, resources);
+    TradeController.performBatchTrade(
+      new Map([[ResourceType.Wood, 4]]),
+      new Map([[ResourceType.Brick, 1]]),
+      civId,
+      map,
+      resources
+    );
+
+    expect(buildings).toEqual([{ civId, vertex: cityVertex, buildingType: BuildingType.Market, level: 1 }]);
+    expect(trades).toHaveLength(1);
+    expect(trades[0].given.get(ResourceType.Wood)).toBe(4);
+    expect(trades[0].received.get(ResourceType.Brick)).toBe(1);
+    expect(trades[0].automatic).toBe(false);
+  });
+
+  it('émet CityUpgraded quand l\'hôtel de ville change de niveau', () => {
+    const city = islandState.getIslandMap()!.getCity(cityVertex)!;
+    const upgrades = record(GameEventType.CityUpgraded);
+
+    BuildingController.emitBuildingBuilt(city, BuildingType.TownHall);
+
+    expect(upgrades).toEqual([{ civId: city.owner, vertex: cityVertex, level: city.level }]);
+  });
+
+  it('compte dans les statistiques les échanges manuels du joueur uniquement', () => {
+    const unsubscribe = StatisticsController.subscribe(() => islandState);
+    const civId = islandState.getPlayerCivilizationId();
+    const trade = { civId, given: new Map(), received: new Map() };
+
+    GameEventBus.emit(GameEventType.TradePerformed, { ...trade, automatic: false });
+    GameEventBus.emit(GameEventType.TradePerformed, { ...trade, automatic: true });
+    unsubscribe();
+    GameEventBus.emit(GameEventType.TradePerformed, { ...trade, automatic: false });
+
+    expect(islandState.getStatistics().getCounter(StatisticCounter.TradesMade)).toBe(1);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IslandEventController, IslandEventResult } from '../../src/controller/IslandEventController';
+import { TradeController } from '../../src/controller/TradeController';
+import { MainGame } from '../../src/application/MainGame';
+import { IslandState } from '../../src/model/game/IslandState';
+import { ResourceHarvest } from '../../src/model/game/ResourceHarvest';
+import { IslandEventType, ISLAND_EVENT_DEFINITIONS } from '../../src/model/events/types';
+import { BuildingType } from '../../src/model/city/BuildingType';
+import { City } from '../../src/model/city/City';
+import { ResourceType } from '../../src/model/map/ResourceType';
+
+describe('IslandEventController', () => {
+  let game: MainGame;
+  let islandState: IslandState;
+  let city: City;
+
+  beforeEach(() => {
+    game = new MainGame();
+    game.newGame(12345);
+    islandState = game.getIslandState();
+    city = game.getIslandMap()!.getCitiesByCivilization(game.getPlayerCivilizationId())[0];
+  });
+
+  /** Avance l'horloge jusqu'au prochain tirage et le déclenche. */
+  function fireNextEvent(state: IslandState = islandState): IslandEventResult | null {
+    IslandEventController.processEvents(state);
+    const clock = state.getGameClock();
+    clock.updateTime(state.getEvents().getNextEventTime()!);
+    return IslandEventController.processEvents(state);
+  }
+
+  describe('planification', () => {
+    it('planifie le premier tirage sans déclencher d\'événement', () => {
+      expect(IslandEventController.processEvents(islandState)).toBeNull();
+      const next = islandState.getEvents().getNextEventTime()!;
+      expect(next).toBeGreaterThanOrEqual(IslandEventController.MIN_EVENT_INTERVAL_SECONDS);
+      expect(next).toBeLessThanOrEqual(IslandEventController.MAX_EVENT_INTERVAL_SECONDS);
+
+      game.getGameClock().updateTime(next - 1);
+      expect(IslandEventController.processEvents(islandState)).toBeNull();
+    });
+
+    it('tire les mêmes événements pour une même seed', () => {
+      const other = new MainGame();
+      other.newGame(12345);
+
+      for (let i = 0; i < 5; i++) {
+        expect(fireNextEvent(other.getIslandState())).toEqual(fireNextEvent());
+      }
+    });
+
+    it('tire les mêmes événements pour une sauvegarde sans générateur que pour une nouvelle partie', () => {
+      const data = islandState.serializeToObject();
+      delete (data as { events?: unknown }).events;
+      const restored = IslandState.deserializeFromObject(data);
+
+      for (let i = 0; i < 5; i++) {
+        expect(fireNextEvent(restored)).toEqual(fireNextEvent());
+      }
+    });
+  });
+
+  describe('tempête', () => {
+    it('bloque le commerce du port ciblé', () => {
+      city.addBuildingWithLevel(BuildingType.Seaport, 1);
+      const map = game.getIslandMap()!;
+      const civId = game.getPlayerCivilizationId();
+      expect(TradeController.canTrade(civId, map, game.getGameModifiers())).toBe(true);
+
+      islandState.getEvents().start({
+        type: IslandEventType.Storm,
+        endTime: ISLAND_EVENT_DEFINITIONS[IslandEventType.Storm].durationSeconds,
+        seaport: city.vertex.hashCode(),
+      });
+      expect(TradeController.canTrade(civId, map, game.getGameModifiers())).toBe(false);
+
+      // Un marché reste utilisable pendant la tempête
+      city.addBuildingWithLevel(BuildingType.Market, 1);
+      expect(TradeController.getTradeRateForCivilization(civId, map, game.getGameModifiers())).toBe(4);
+    });
+  });
+
+  describe('raid de bandits', () => {
+    it('vole une part du stock non protégé par les entrepôts', () => {
+      const resources = game.getPlayerResources();
+      city.addBuildingWithLevel(BuildingType.Warehouse, 1);
+      const protection = IslandEventController.getRaidProtection(game.getIslandMap()!, game.getPlayerCivilizationId());
+      expect(protection).toBe(IslandEventController.WAREHOUSE_RAID_PROTECTION_PER_LEVEL);
+
+      let raid: IslandEventResult['raid'] = null;
+      for (let i = 0; i < 50 && !raid; i++) {
+        resources.clear();
+        for (const resourceType of [ResourceType.Wood, ResourceType.Brick, ResourceType.Wheat, ResourceType.Sheep, ResourceType.Ore]) {
+          resources.addResource(resourceType, protection + 40);
+        }
+        raid = fireNextEvent()?.raid ?? null;
+      }
+
+      expect(raid).not.toBeNull();
+      expect(raid!.stolen).toBe(40 * IslandEventController.RAID_SHARE);
+      expect(resources.getResource(raid!.resource)).toBe(protection + 40 - raid!.stolen);
+    });
+  });
+
+  describe('marchand itinérant', () => {
+    it('effectue l\'échange une seule fois', () => {
+      const resources = game.getPlayerResources();
+      const now = game.getGameClock().getCurrentTime();
+      islandState.getEvents().start({
+        type: IslandEventType.WanderingTrader,
+        endTime: now + ISLAND_EVENT_DEFINITIONS[IslandEventType.WanderingTrader].durationSeconds,
+        offer: { give: ResourceType.Wood, giveAmount: 5, receive: ResourceType.Ore, receiveAmount: 5 },
+      });
+      expect(IslandEventController.canAcceptTraderOffer(islandState)).toBe(false);
+
+      resources.addResource(ResourceType.Wood, 8);
+      expect(IslandEventController.acceptTraderOffer(islandState)).toBe(true);
+      expect(resources.getResource(ResourceType.Wood)).toBe(3);
+      expect(resources.getResource(ResourceType.Ore)).toBe(5);
+
+      expect(IslandEventController.acceptTraderOffer(islandState)).toBe(false);
+      expect(islandState.getEvents().getActiveEvents(now)).toEqual([]);
+    });
+  });
+
+  it('double les récoltes pendant des récoltes abondantes', () => {
+    const map = game.getIslandMap()!;
+    const civId = game.getPlayerCivilizationId();
+    const hex = city.vertex.getHexes().find(h => ResourceHarvest.canHarvest(h, map, civId))!;
+    const hexType = map.getHexType(hex)!;
+
+    const before = ResourceHarvest.harvest(hex, map, civId, game.getPlayerResources(), city.vertex, undefined, game.getGameModifiers());
+    islandState.getEvents().start({ type: IslandEventType.AbundantHarvest, endTime: 90, hexType });
+    const abundant = ResourceHarvest.harvest(hex, map, civId, game.getPlayerResources(), city.vertex, undefined, game.getGameModifiers());
+
+    expect(abundant.gain).toBe(before.gain * 2);
+  });
+
+  it('conserve les événements actifs et le générateur à la sauvegarde', () => {
+    IslandEventController.processEvents(islandState);
+    islandState.getEvents().start({ type: IslandEventType.Storm, endTime: 120, seaport: city.vertex.hashCode() });
+
+    const loaded = new MainGame();
+    expect(loaded.loadGame(game.saveGame())).toBe(true);
+
+    const events = loaded.getIslandState().getEvents();
+    expect(events.getActive(IslandEventType.Storm, 0)?.seaport).toBe(city.vertex.hashCode());
+    expect(loaded.getGameModifiers().isSeaportBlocked(city.vertex)).toBe(true);
+    expect(fireNextEvent(loaded.getIslandState())).toEqual(fireNextEvent());
+  });
+});
@@ -3,6 +3,8 @@ import { MapGenerator, MapGeneratorConfig } from '../../src/controller/MapGenera
 import { HexType } from '../../src/model/map/HexType';
 import { CivilizationId } from '../../src/model/map/CivilizationId';
 import { HexCoord } from '../../src/model/hex/HexCoord';
+import { IslandMap } from '../../src/model/map/IslandMap';
+import { IslandShape, MapPreset, getPresetDistribution } from '../../src/model/map/MapSettings';
 
 describe('MapGenerator', () => {
   describe('validation de la configuration', () => {
@@ -220,6 +222,33 @@ describe('MapGenerator', () => {
         expect(resource).toBeDefined();
       }
     });
+
+    it('devrait tirer un rendement pour les hexagones de ressource, sauf ceux de la ville de départ', () => {
+      const config: MapGeneratorConfig = {
+        resourceDistribution: getPresetDistribution(MapPreset.Medium),
+        civilizations: [CivilizationId.create('civ1')],
+        seed: 789,
+      };
+      const map = new MapGenerator().generate(config);
+      const yields = new Map<number, number>();
+
+      for (const hex of map.getGrid().getAllHexes()) {
+        const hexType = map.getHexType(hex.coord);
+        const hexYield = map.getHexYield(hex.coord);
+        if (hexType === HexType.Water || hexType === HexType.Desert) {
+          expect(hexYield).toBe(1);
+        }
+        yields.set(hexYield, (yields.get(hexYield) ?? 0) + 1);
+      }
+      for (const coord of map.getCitiesByCivilization(config.civilizations[0])[0].vertex.getHexes()) {
+        expect(map.getHexYield(coord)).toBe(1);
+      }
+      expect(yields.get(2)).toBeGreaterThan(0);
+      expect(yields.get(3)).toBeGreaterThan(0);
+
+      // Même seed, mêmes rendements
+      expect(new MapGenerator().generate(config).serialize().hexYields).toEqual(map.serialize().hexYields);
+    });
   });
 
   describe('structure de la grille', () => {
@@ -539,5 +568,103 @@ describe('MapGenerator', () => {
       }
     });
   });
+
+  describe('formes d\'île', () => {
+    const civId = CivilizationId.create('civ1');
+
+    function generateShape(shape: IslandShape, seed: number, preset: MapPreset = MapPreset.Medium): IslandMap {
+      return new MapGenerator().generate({
+        resourceDistribution: getPresetDistribution(preset),
+        civilizations: [civId],
+        seed,
+        shape,
+      });
+    }
+
+    /** Signature de la carte (coordonnées et types) pour comparer deux générations. */
+    function signature(map: IslandMap): string {
+      return map.getGrid().getAllHexes()
+        .map(hex => `${hex.coord.q},${hex.coord.r}:${map.getHexType(hex.coord)}`)
+        .sort()
+        .join('|');
+    }
+
+    function landCoords(map: IslandMap): HexCoord[] {
+      return map.getGrid().getAllHexes()
+        .map(hex => hex.coord)
+        .filter(coord => map.getHexType(coord) !== HexType.Water);
+    }
+
+    /** Compte les masses terrestres (composantes connexes de terre). */
+    function countLandMasses(map: IslandMap): number {
+      const land = new Set(landCoords(map).map(coord => coord.hashCode()));
+      const visited = new Set<string>();
+      let masses = 0;
+      for (const start of landCoords(map)) {
+        if (visited.has(start.hashCode())) {
+          continue;
+        }
+        masses++;
+        const stack = [start];
+        visited.add(start.hashCode());
+        while (stack.length > 0) {
+          const coord = stack.pop()!;
+          for (const neighbor of coord.neighbors()) {
+            if (land.has(neighbor.hashCode()) && !visited.has(neighbor.hashCode())) {
+              visited.add(neighbor.hashCode());
+              stack.push(neighbor);
+            }
+          }
+        }
+      }
+      return masses;
+    }
+
+    for (const shape of Object.values(IslandShape)) {
+      it(`devrait générer la forme ${shape} de façon déterministe, sur un vertex Bois-Argile-Eau`, () => {
+        for (const seed of [1, 42, 2024]) {
+          const map = generateShape(shape, seed);
+          expect(signature(generateShape(shape, seed))).toBe(signature(map));
+          expect(landCoords(map)).toHaveLength(26);
+
+          const city = map.getCitiesByCivilization(civId)[0];
+          const types = city.vertex.getHexes().map(hex => map.getHexType(hex)).sort();
+          expect(types).toEqual([HexType.Brick, HexType.Water, HexType.Wood].sort());
+
+          // Toute case terrestre garde ses 6 voisins dans la grille
+          for (const coord of landCoords(map)) {
+            expect(map.getGrid().getNeighbors(coord)).toHaveLength(6);
+          }
+        }
+      });
+    }
+
+    it('devrait séparer l\'archipel en plusieurs îles', () => {
+      for (const seed of [1, 42, 2024]) {
+        expect(countLandMasses(generateShape(IslandShape.Archipelago, seed))).toBeGreaterThanOrEqual(2);
+        expect(countLandMasses(generateShape(IslandShape.Archipelago, seed, MapPreset.Small))).toBe(2);
+      }
+      expect(countLandMasses(generateShape(IslandShape.Blob, 42))).toBe(1);
+    });
+
+    it('devrait entourer le lac de terre', () => {
+      for (const seed of [1, 42, 2024]) {
+        const map = generateShape(IslandShape.Lake, seed);
+        const lake = new HexCoord(0, 0);
+        expect(map.getHexType(lake)).toBe(HexType.Water);
+        expect(lake.neighbors().every(coord => map.getHexType(coord) !== HexType.Water)).toBe(true);
+        expect(countLandMasses(map)).toBe(1);
+      }
+    });
+
+    it('devrait refuser une forme sans assez de terre', () => {
+      expect(() => new MapGenerator().generate({
+        resourceDistribution: new Map([[HexType.Wood, 2], [HexType.Brick, 2]]),
+        civilizations: [civId],
+        seed: 1,
+        shape: IslandShape.Archipelago,
+      })).toThrow('au moins 6 hexagones terrestres');
+    });
+  });
 });
 
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OfflineProgressController } from '../../src/controller/OfflineProgressController';
+import { GameCoordinator } from '../../src/controller/GameCoordinator';
+import { MainGame } from '../../src/application/MainGame';
+import { HexMapRenderer } from '../../src/view/HexMapRenderer';
+import { BuildingType } from '../../src/model/city/BuildingType';
+import { ResourceType } from '../../src/model/map/ResourceType';
+import { calculateInventoryCapacity } from '../../src/model/game/InventoryCapacity';
+import { PlayerSave } from '../../src/model/game/PlayerSave';
+
+describe('OfflineProgressController', () => {
+  let game: MainGame;
+  let coordinator: GameCoordinator;
+
+  beforeEach(() => {
+    game = new MainGame();
+    game.newGame(12345);
+    // Le renderer n'est pas utilisé par les actions du coordinateur
+    coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+  });
+
+  function simulate(elapsedSeconds: number, maxOfflineSeconds?: number) {
+    return OfflineProgressController.simulate(game, coordinator, elapsedSeconds, { maxOfflineSeconds });
+  }
+
+  describe('computeElapsedSeconds', () => {
+    it('retourne 0 sans horodatage de sauvegarde', () => {
+      expect(OfflineProgressController.computeElapsedSeconds(null, 1_000_000)).toBe(0);
+    });
+
+    it('retourne 0 si l\'horloge système a reculé', () => {
+      expect(OfflineProgressController.computeElapsedSeconds(2_000_000, 1_000_000)).toBe(0);
+    });
+
+    it('convertit la différence en secondes', () => {
+      expect(OfflineProgressController.computeElapsedSeconds(1_000_000, 1_090_000)).toBe(90);
+    });
+  });
+
+  it('avance le GameClock du temps écoulé, plafonné par la durée maximale', () => {
+    const summary = simulate(120, 30);
+
+    expect(summary.elapsedSeconds).toBe(120);
+    expect(summary.simulatedSeconds).toBe(30);
+    expect(game.getGameClock().getCurrentTime()).toBe(30);
+  });
+
+  it('produit des ressources via les bâtiments en respectant la capacité d\'inventaire', () => {
+    const map = game.getIslandMap()!;
+    const civId = game.getPlayerCivilizationId();
+    const city = map.getCitiesByCivilization(civId)[0];
+    // La ville initiale est placée sur un vertex Bois-Argile-Eau
+    city.addBuildingWithLevel(BuildingType.Sawmill, 1);
+
+    const summary = simulate(10 * 60);
+    const capacity = calculateInventoryCapacity(map, civId);
+
+    expect(game.getPlayerResources().getResource(ResourceType.Wood)).toBe(capacity);
+    expect(summary.resourcesGained.get(ResourceType.Wood)).toBe(capacity);
+    expect(summary.resourcesGained.has(ResourceType.Ore)).toBe(false);
+    expect(OfflineProgressController.shouldShowSummary(summary)).toBe(true);
+  });
+
+  it('produit autant avec des pas plus longs que l\'intervalle de production', () => {
+    const civId = game.getPlayerCivilizationId();
+    const produce = (stepSeconds: number): number | undefined => {
+      game = new MainGame();
+      game.newGame(12345);
+      coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+      const city = game.getIslandMap()!.getCitiesByCivilization(civId)[0];
+      city.addBuildingWithLevel(BuildingType.Sawmill, 1);
+      // Comme dans une sauvegarde, le bâtiment a déjà démarré son cycle de production
+      city.getBuilding(BuildingType.Sawmill)!.setProductionTimeSeconds(game.getGameClock().getCurrentTime());
+      return OfflineProgressController.simulate(game, coordinator, 20, { stepSeconds }).resourcesGained.get(ResourceType.Wood);
+    };
+
+    const reference = produce(0.1);
+    expect(reference).toBeGreaterThan(0);
+    expect(produce(10)).toBe(reference);
+  });
+
+  it('compte les routes construites par les automatisations', () => {
+    const civId = game.getPlayerCivilizationId();
+    game.getIslandState().getCivilization(civId).setAutoRoadConstruction(true);
+    game.getPlayerResources().addResource(ResourceType.Wood, 10);
+    game.getPlayerResources().addResource(ResourceType.Brick, 10);
+
+    // Les routes automatiques sont des chantiers : laisser le temps au premier de s'achever
+    const summary = simulate(30);
+
+    expect(summary.roadsBuilt).toBeGreaterThan(0);
+    expect(summary.resourcesGained.get(ResourceType.Wood)).toBeLessThan(0);
+    expect(OfflineProgressController.shouldShowSummary(summary)).toBe(false);
+  });
+
+  it('conserve l\'horodatage de sauvegarde dans PlayerSave', () => {
+    const before = Date.now();
+    const loaded = PlayerSave.deserialize(JSON.parse(game.saveGame()));
+
+    expect(loaded.getLastSavedAt()).toBeGreaterThanOrEqual(before);
+
+    // Les anciennes sauvegardes sans horodatage restent chargeables
+    const legacy = JSON.parse(game.saveGame());
+    delete legacy.lastSavedAt;
+    expect(PlayerSave.deserialize(legacy).getLastSavedAt()).toBeNull();
+  });
+});
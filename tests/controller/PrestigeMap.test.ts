@@ -3,6 +3,7 @@ import { PrestigeMapGenerator } from '../../src/controller/PrestigeMapGenerator'
 import { CivilizationState } from '../../src/model/game/CivilizationState';
 import { CivilizationId } from '../../src/model/map/CivilizationId';
 import { HexDirection } from '../../src/model/hex/HexDirection';
+import { PrestigeMap } from '../../src/model/prestige/PrestigeMap';
 
 describe('PrestigeMapGenerator', () => {
   let civState: CivilizationState;
@@ -76,6 +77,35 @@ describe('PrestigeMapGenerator', () => {
     // bonuses and cities should be present after deserialization
     expect(restoredMap!.bonuses.size).toBe(prestige.bonuses.size);
     expect(restoredMap!.cities.size).toBe(prestige.cities.size);
-    // roads may be empty due to serialization placeholder behavior
+  });
+
+  it('conserve les roads achetées après sérialisation', () => {
+    const prestige = PrestigeMapGenerator.generate(civState);
+    civState.setCivilizationPoints(100);
+
+    const center = prestige.grid.getAllHexes().find(h => h.coord.q === 0 && h.coord.r === 0)!;
+    const edge = prestige.grid.getEdgeByMainDirection(center.coord, HexDirection.E)!;
+    PrestigeMapGenerator.buyRoad(edge, civState);
+
+    const serialized = prestige.serialize();
+    expect(serialized.version).toBe(PrestigeMap.SERIALIZATION_VERSION);
+
+    const restored = CivilizationState.deserialize(JSON.parse(JSON.stringify(civState.serialize())));
+    const restoredMap = restored.getPrestigeMap()!;
+    expect(restoredMap.roads.size).toBe(1);
+    expect(restoredMap.hasRoad(edge)).toBe(true);
+  });
+
+  it('abandonne les roads placeholder des sauvegardes sans version', () => {
+    const prestige = PrestigeMapGenerator.generate(civState);
+    const legacy = prestige.serialize();
+    delete legacy.version;
+    legacy.roads = [[[0, 0], [0, 0]], [[0, 0], [0, 0]]];
+
+    const restored = PrestigeMap.deserialize(legacy);
+
+    expect(restored.roads.size).toBe(0);
+    expect(restored.cities.size).toBe(prestige.cities.size);
+    expect(restored.bonuses.size).toBe(prestige.bonuses.size);
   });
 });
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ResearchController } from '../../src/controller/ResearchController';
+import { TradeController } from '../../src/controller/TradeController';
+import { ResourceHarvestController } from '../../src/controller/ResourceHarvestController';
+import { MainGame } from '../../src/application/MainGame';
+import { CivilizationState } from '../../src/model/game/CivilizationState';
+import { RoadConstruction } from '../../src/model/game/RoadConstruction';
+import { ResearchState } from '../../src/model/research/ResearchState';
+import { ResearchTree } from '../../src/model/research/ResearchTree';
+import { BuildingType } from '../../src/model/city/BuildingType';
+import { City } from '../../src/model/city/City';
+import { ResourceType } from '../../src/model/map/ResourceType';
+
+describe('ResearchController', () => {
+  let game: MainGame;
+  let civState: CivilizationState;
+  let city: City;
+
+  beforeEach(() => {
+    game = new MainGame();
+    game.newGame(12345);
+    civState = game.getController().getCivilizationState();
+    city = game.getIslandMap()!.getCitiesByCivilization(game.getPlayerCivilizationId())[0];
+  });
+
+  afterEach(() => {
+    ResearchTree.reset();
+  });
+
+  /** Débloque des nœuds sans contrainte de coût ni de prérequis. */
+  function unlockAll(...nodeIds: string[]): void {
+    for (const nodeId of nodeIds) {
+      civState.getResearch().unlock(nodeId);
+    }
+  }
+
+  describe('production de connaissance', () => {
+    it('produit de la connaissance avec une Bibliothèque une fois l\'intervalle écoulé', () => {
+      city.addBuildingWithLevel(BuildingType.Library, 1);
+      const clock = game.getGameClock();
+      const start = clock.getCurrentTime();
+
+      // Première passe : initialisation du timer, pas de production immédiate
+      expect(ResearchController.processKnowledgeProduction(civState)).toBe(0);
+
+      clock.updateTime(start + ResearchController.getKnowledgeInterval(1));
+      expect(ResearchController.processKnowledgeProduction(civState)).toBe(1);
+      expect(civState.getResearch().getKnowledge()).toBe(1);
+    });
+
+    it('ne produit rien sans Bibliothèque', () => {
+      game.getGameClock().updateTime(1000);
+      expect(ResearchController.processKnowledgeProduction(civState)).toBe(0);
+      expect(civState.getResearch().getKnowledge()).toBe(0);
+    });
+
+    it('produit plus vite avec le niveau de la Bibliothèque', () => {
+      expect(ResearchController.getKnowledgeInterval(3)).toBeLessThan(ResearchController.getKnowledgeInterval(1));
+    });
+  });
+
+  describe('déblocage', () => {
+    it('dépense la connaissance et respecte les prérequis', () => {
+      const research = new ResearchState();
+      research.addKnowledge(100);
+
+      expect(ResearchController.canUnlock(research, 'urbanPlanning')).toBe(false);
+      expect(ResearchController.unlock(research, 'paving')).toBe(true);
+      expect(research.getKnowledge()).toBe(100 - ResearchTree.get('paving').cost);
+      expect(ResearchController.canUnlock(research, 'urbanPlanning')).toBe(true);
+
+      // Un nœud ne se débloque qu'une fois
+      expect(ResearchController.unlock(research, 'paving')).toBe(false);
+    });
+
+    it('refuse un nœud trop cher ou inconnu', () => {
+      const research = new ResearchState();
+      research.addKnowledge(ResearchTree.get('paving').cost - 1);
+      expect(ResearchController.unlock(research, 'paving')).toBe(false);
+      expect(ResearchController.canUnlock(research, 'alchemy')).toBe(false);
+      expect(research.isUnlocked('paving')).toBe(false);
+    });
+  });
+
+  describe('effets', () => {
+    it('réduit le coût des routes', () => {
+      const baseCost = RoadConstruction.getCost(4, game.getGameModifiers());
+      unlockAll('paving');
+      const reducedCost = RoadConstruction.getCost(4, game.getGameModifiers());
+      expect(reducedCost.get(ResourceType.Wood)!).toBeLessThan(baseCost.get(ResourceType.Wood)!);
+    });
+
+    it('ajoute un emplacement de bâtiment par ville', () => {
+      const baseMax = city.getMaxBuildings(game.getGameModifiers().getExtraBuildingSlots());
+      unlockAll('paving', 'urbanPlanning');
+      expect(city.getMaxBuildings(game.getGameModifiers().getExtraBuildingSlots())).toBe(baseMax + 1);
+    });
+
+    it('accélère les récoltes manuelles', () => {
+      unlockAll('agronomy');
+      expect(ResourceHarvestController.getHarvestIntervalSeconds(game.getGameModifiers()))
+        .toBeCloseTo(ResourceHarvestController.getHarvestIntervalSeconds() * 0.75);
+    });
+
+    it('améliore les taux d\'échange sans descendre sous 2:1', () => {
+      city.addBuildingWithLevel(BuildingType.Market, 1);
+      const map = game.getIslandMap()!;
+      const civId = game.getPlayerCivilizationId();
+      expect(TradeController.getTradeRateForCivilization(civId, map, game.getGameModifiers())).toBe(4);
+
+      unlockAll('agronomy', 'accounting');
+      expect(TradeController.getTradeRateForCivilization(civId, map, game.getGameModifiers())).toBe(3);
+      expect(game.getGameModifiers().applyToTradeRate(2)).toBe(2);
+    });
+  });
+
+  it('conserve la recherche à la sauvegarde', () => {
+    civState.getResearch().addKnowledge(7);
+    unlockAll('paving');
+
+    const loaded = new MainGame();
+    expect(loaded.loadGame(game.saveGame())).toBe(true);
+
+    const research = loaded.getController().getCivilizationState().getResearch();
+    expect(research.getKnowledge()).toBe(7);
+    expect(research.getUnlocked()).toEqual(['paving']);
+  });
+});
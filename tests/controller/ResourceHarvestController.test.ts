@@ -21,9 +21,6 @@ describe('ResourceHarvestController', () => {
   let gameClock: GameClock;
 
   beforeEach(() => {
-    // Réinitialiser les cooldowns avant chaque test
-    ResourceHarvestController.resetCooldowns();
-
     const center = new HexCoord(0, 0);
     const north = center.neighbor(HexDirection.SW);
     const northeast = center.neighbor(HexDirection.SE);
@@ -140,7 +137,7 @@ describe('ResourceHarvestController', () => {
       ResourceHarvestController.harvest(hexCoord, civId, map, resources, { gameClock });
 
       // Vérifier le temps restant
-      const remaining = ResourceHarvestController.getRemainingCooldown(hexCoord, { gameClock });
+      const remaining = ResourceHarvestController.getRemainingCooldown(hexCoord, map, gameClock.getCurrentTime());
       expect(remaining).toBeGreaterThan(0);
       expect(remaining).toBeLessThanOrEqual(ResourceHarvestController.getHarvestIntervalMs());
     });
@@ -148,7 +145,7 @@ describe('ResourceHarvestController', () => {
     it('devrait retourner 0 pour un hexagone qui n\'a jamais été récolté', () => {
       // Utiliser un hexagone différent qui n'a jamais été récolté
       const unusedHex = new HexCoord(100, 100);
-      const remaining = ResourceHarvestController.getRemainingCooldown(unusedHex);
+      const remaining = ResourceHarvestController.getRemainingCooldown(unusedHex, map, 0);
       expect(remaining).toBe(0);
     });
   });
@@ -157,21 +154,21 @@ describe('ResourceHarvestController', () => {
     it('devrait retourner 0 si l\'hexagone n\'a jamais été récolté', () => {
       // Utiliser un hexagone différent qui n'a jamais été récolté
       const unusedHex = new HexCoord(200, 200);
-      const remaining = ResourceHarvestController.getRemainingCooldown(unusedHex, { gameClock });
+      const remaining = ResourceHarvestController.getRemainingCooldown(unusedHex, map, gameClock.getCurrentTime());
       expect(remaining).toBe(0);
     });
 
     it('devrait retourner le temps restant correctement', () => {
       ResourceHarvestController.harvest(hexCoord, civId, map, resources, { gameClock });
       
-      const remaining1 = ResourceHarvestController.getRemainingCooldown(hexCoord, { gameClock });
+      const remaining1 = ResourceHarvestController.getRemainingCooldown(hexCoord, map, gameClock.getCurrentTime());
       expect(remaining1).toBeGreaterThan(0);
       expect(remaining1).toBeLessThanOrEqual(ResourceHarvestController.getHarvestIntervalMs());
 
       // Avancer un peu (0.2s)
       gameClock.updateTime(gameClock.getCurrentTime() + 0.2);
       
-      const remaining2 = ResourceHarvestController.getRemainingCooldown(hexCoord, { gameClock });
+      const remaining2 = ResourceHarvestController.getRemainingCooldown(hexCoord, map, gameClock.getCurrentTime());
       expect(remaining2).toBeLessThan(remaining1);
       expect(remaining2).toBeGreaterThan(0);
     });
@@ -182,8 +179,27 @@ describe('ResourceHarvestController', () => {
       // Avancer juste après l'expiration du cooldown (epsilon)
       gameClock.updateTime(gameClock.getCurrentTime() + ResourceHarvestController.getHarvestIntervalSeconds() + 0.001);
       
-      const remaining = ResourceHarvestController.getRemainingCooldown(hexCoord, { gameClock });
+      const remaining = ResourceHarvestController.getRemainingCooldown(hexCoord, map, gameClock.getCurrentTime());
       expect(remaining).toBe(0);
     });
+
+    it('devrait conserver le cooldown après sauvegarde et rechargement de la carte', () => {
+      gameClock.updateTime(12.5);
+      ResourceHarvestController.harvest(hexCoord, civId, map, resources, { gameClock });
+      const before = ResourceHarvestController.getRemainingCooldown(hexCoord, map, 12.7);
+
+      const restored = IslandMap.deserialize(JSON.parse(JSON.stringify(map.serialize())));
+
+      expect(restored.getLastHarvestTime(hexCoord)).toBe(12.5);
+      expect(ResourceHarvestController.getRemainingCooldown(hexCoord, restored, 12.7)).toBe(before);
+      expect(before).toBeGreaterThan(0);
+    });
+
+    it('ne devrait pas partager les cooldowns entre deux cartes', () => {
+      ResourceHarvestController.harvest(hexCoord, civId, map, resources, { gameClock });
+
+      const otherMap = new IslandMap(new HexGrid([new Hex(hexCoord)]));
+      expect(ResourceHarvestController.getRemainingCooldown(hexCoord, otherMap, gameClock.getCurrentTime())).toBe(0);
+    });
   });
 });
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { RivalController } from '../../src/controller/RivalController';
+import { ConstructionController } from '../../src/controller/ConstructionController';
+import { MainGame } from '../../src/application/MainGame';
+import { RivalDifficulty } from '../../src/model/game/RivalCivilization';
+import { ResourceType } from '../../src/model/map/ResourceType';
+
+describe('RivalController', () => {
+  function newGameWithRivals(seed: number, difficulty: RivalDifficulty = RivalDifficulty.Normal): MainGame {
+    const game = new MainGame();
+    game.newGame(seed, { count: 2, difficulty });
+    return game;
+  }
+
+  /** Avance l'horloge de jeu seconde par seconde en faisant agir les rivaux et en achevant leurs chantiers. */
+  function runRivals(game: MainGame, seconds: number): void {
+    const clock = game.getGameClock();
+    const start = clock.getCurrentTime();
+    for (let t = 1; t <= seconds; t++) {
+      clock.updateTime(start + t);
+      ConstructionController.processConstructions(game.getIslandState());
+      RivalController.processRivals(game.getIslandState());
+    }
+  }
+
+  function citySignature(game: MainGame): string[] {
+    const map = game.getIslandMap()!;
+    return game.getIslandState().getRivals()
+      .flatMap(rival => map.getCitiesByCivilization(rival.id).map(city => `${rival.id.toString()}@${city.vertex.hashCode()}`))
+      .sort();
+  }
+
+  it('place une ville initiale pour chaque rival', () => {
+    const game = newGameWithRivals(12345);
+    const map = game.getIslandMap()!;
+    const rivals = game.getIslandState().getRivals();
+
+    expect(rivals).toHaveLength(2);
+    for (const rival of rivals) {
+      expect(map.getCitiesByCivilization(rival.id)).toHaveLength(1);
+    }
+    expect(map.getCitiesByCivilization(game.getPlayerCivilizationId())).toHaveLength(1);
+  });
+
+  it('ne modifie pas la carte du joueur', () => {
+    const withRivals = newGameWithRivals(12345);
+    const withoutRivals = new MainGame();
+    withoutRivals.newGame(12345, { count: 0, difficulty: RivalDifficulty.Normal });
+
+    const playerCity = (game: MainGame) =>
+      game.getIslandMap()!.getCitiesByCivilization(game.getPlayerCivilizationId())[0].vertex.hashCode();
+    expect(playerCity(withRivals)).toBe(playerCity(withoutRivals));
+    expect(withoutRivals.getIslandState().getRivals()).toHaveLength(0);
+  });
+
+  it('fait progresser les rivaux avec leurs propres ressources', () => {
+    const game = newGameWithRivals(12345, RivalDifficulty.Hard);
+    const map = game.getIslandMap()!;
+    const playerWood = game.getPlayerResources().getResource(ResourceType.Wood);
+
+    runRivals(game, 600);
+
+    const rivals = game.getIslandState().getRivals();
+    const rivalRoads = rivals.reduce((sum, rival) => sum + map.getRoadsForCivilization(rival.id).length, 0);
+    const rivalBuildings = rivals.reduce((sum, rival) =>
+      sum + map.getCitiesByCivilization(rival.id).reduce((count, city) => count + city.getBuildingCount(), 0), 0);
+    expect(rivalRoads + rivalBuildings).toBeGreaterThan(0);
+    expect(game.getPlayerResources().getResource(ResourceType.Wood)).toBe(playerWood);
+  });
+
+  it('est déterministe pour une même seed', () => {
+    const first = newGameWithRivals(42);
+    const second = newGameWithRivals(42);
+
+    runRivals(first, 300);
+    runRivals(second, 300);
+
+    expect(citySignature(first)).toEqual(citySignature(second));
+    expect(first.getIslandState().getRivals().map(rival => rival.getResources().serialize()))
+      .toEqual(second.getIslandState().getRivals().map(rival => rival.getResources().serialize()));
+  });
+
+  it('conserve les rivaux à la sauvegarde', () => {
+    const game = newGameWithRivals(12345, RivalDifficulty.Easy);
+    runRivals(game, 120);
+
+    const loaded = new MainGame();
+    expect(loaded.loadGame(game.saveGame())).toBe(true);
+
+    const rivals = loaded.getIslandState().getRivals();
+    expect(rivals.map(rival => rival.serialize()))
+      .toEqual(game.getIslandState().getRivals().map(rival => rival.serialize()));
+    expect(RivalController.getRivalSettings(loaded.getIslandState()))
+      .toEqual({ count: 2, difficulty: RivalDifficulty.Easy });
+    expect(citySignature(loaded)).toEqual(citySignature(game));
+  });
+
+  it('met les constructions des rivaux en chantier dans leur propre file', () => {
+    const game = newGameWithRivals(12345, RivalDifficulty.Hard);
+    const map = game.getIslandMap()!;
+    const rivalRoads = () => game.getIslandState().getRivals()
+      .reduce((sum, rival) => sum + map.getRoadsForCivilization(rival.id).length, 0);
+    const roadsBefore = rivalRoads();
+    const clock = game.getGameClock();
+
+    // Sans achever les chantiers, rien n'apparaît sur la carte
+    for (let t = 1; t <= 120; t++) {
+      clock.updateTime(t);
+      RivalController.processRivals(game.getIslandState());
+    }
+    const sites = game.getIslandState().getRivals().flatMap(rival => rival.getConstructionQueue().getSites());
+    expect(sites.length).toBeGreaterThan(0);
+    expect(rivalRoads()).toBe(roadsBefore);
+    expect(game.getIslandState().getConstructionQueue().isEmpty()).toBe(true);
+
+    // Les chantiers des rivaux sont sauvegardés
+    const loaded = new MainGame();
+    expect(loaded.loadGame(game.saveGame())).toBe(true);
+    expect(loaded.getIslandState().getRivals().flatMap(rival => rival.getConstructionQueue().getSites())).toHaveLength(sites.length);
+  });
+});
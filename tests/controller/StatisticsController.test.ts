@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StatisticsController } from '../../src/controller/StatisticsController';
+import { GameCoordinator } from '../../src/controller/GameCoordinator';
+import { BuildingProductionResult } from '../../src/controller/BuildingProductionController';
+import { MainGame } from '../../src/application/MainGame';
+import { HexMapRenderer } from '../../src/view/HexMapRenderer';
+import { IslandState } from '../../src/model/game/IslandState';
+import { IncomeSource, StatisticCounter } from '../../src/model/statistics/types';
+import { BuildingType } from '../../src/model/city/BuildingType';
+import { CityLevel } from '../../src/model/city/CityLevel';
+import { ResourceType } from '../../src/model/map/ResourceType';
+
+describe('StatisticsController', () => {
+  let game: MainGame;
+  let islandState: IslandState;
+
+  beforeEach(() => {
+    game = new MainGame();
+    game.newGame(12345);
+    islandState = game.getIslandState();
+  });
+
+  function advanceBy(seconds: number): void {
+    const clock = game.getGameClock();
+    clock.updateTime(clock.getCurrentTime() + seconds);
+  }
+
+  function productionResult(buildingType: BuildingType, resourceType: ResourceType, amount: number): BuildingProductionResult {
+    const city = game.getIslandMap()!.getCitiesByCivilization(game.getPlayerCivilizationId())[0];
+    return { cityVertex: city.vertex, buildingType, hexCoord: city.vertex.getHexes()[0], resourceType, amount };
+  }
+
+  it('compte les récoltes manuelles et leurs revenus', () => {
+    const city = game.getIslandMap()!.getCitiesByCivilization(game.getPlayerCivilizationId())[0];
+    const coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+    const before = game.getPlayerResources().getAllResources();
+
+    const result = coordinator.harvestAround(city.vertex);
+    expect(result.success).toBe(true);
+
+    const statistics = islandState.getStatistics();
+    expect(statistics.getCounter(StatisticCounter.ManualHarvests)).toBe(result.harvested.length);
+    const harvestIncome = statistics.getCurrentIncome()[IncomeSource.ManualHarvest] ?? {};
+    for (const [resourceType, amount] of game.getPlayerResources().getAllResources()) {
+      expect(harvestIncome[resourceType] ?? 0).toBe(amount - (before.get(resourceType) ?? 0));
+    }
+  });
+
+  it('sépare la production du marché de celle des bâtiments et du commerce automatique', () => {
+    StatisticsController.recordProduction(islandState, [
+      productionResult(BuildingType.Sawmill, ResourceType.Wood, 2),
+      productionResult(BuildingType.Market, ResourceType.Ore, 1),
+      {
+        ...productionResult(BuildingType.Brickworks, ResourceType.Brick, 0),
+        autoTrade: { given: ResourceType.Brick, received: ResourceType.Sheep, receivedAmount: 1 },
+      },
+    ]);
+
+    const statistics = islandState.getStatistics();
+    expect(statistics.getCurrentIncome()).toEqual({
+      [IncomeSource.Building]: { [ResourceType.Wood]: 2 },
+      [IncomeSource.Market]: { [ResourceType.Ore]: 1 },
+      [IncomeSource.AutoTrade]: { [ResourceType.Sheep]: 1 },
+    });
+    expect(statistics.getCounter(StatisticCounter.AutoTrades)).toBe(1);
+  });
+
+  it('échantillonne les revenus et les ramène à la minute', () => {
+    const statistics = islandState.getStatistics();
+    expect(StatisticsController.processStatistics(islandState)).toBe(false);
+    expect(statistics.getSampleStart()).toBe(0);
+
+    StatisticsController.recordProduction(islandState, [productionResult(BuildingType.Sawmill, ResourceType.Wood, 10)]);
+    advanceBy(StatisticsController.SAMPLE_INTERVAL_SECONDS);
+    expect(StatisticsController.processStatistics(islandState)).toBe(true);
+    expect(statistics.getSamples()).toHaveLength(1);
+    expect(statistics.getSamples()[0].stock[ResourceType.Wood]).toBe(game.getPlayerResources().getResource(ResourceType.Wood));
+
+    // 10 bois en 30 s, puis 5 bois dans les 30 s suivantes
+    StatisticsController.recordProduction(islandState, [productionResult(BuildingType.Sawmill, ResourceType.Wood, 5)]);
+    advanceBy(StatisticsController.SAMPLE_INTERVAL_SECONDS);
+    const rates = StatisticsController.getIncomePerMinute(statistics, game.getGameClock().getCurrentTime());
+    expect(rates.get(ResourceType.Wood)!.get(IncomeSource.Building)).toBeCloseTo(15);
+
+    // Hors de la fenêtre, seul l'échantillon en cours compte
+    const windowed = StatisticsController.getIncomePerMinute(statistics, game.getGameClock().getCurrentTime(), 10);
+    expect(windowed.get(ResourceType.Wood)!.get(IncomeSource.Building)).toBeCloseTo(10);
+  });
+
+  it("repart du temps actuel après une longue absence", () => {
+    const statistics = islandState.getStatistics();
+    StatisticsController.processStatistics(islandState);
+    advanceBy(3600);
+
+    expect(StatisticsController.processStatistics(islandState)).toBe(true);
+    expect(statistics.getSamples()[0].endTime).toBe(StatisticsController.SAMPLE_INTERVAL_SECONDS);
+    expect(statistics.getSampleStart()).toBe(3600);
+    expect(StatisticsController.processStatistics(islandState)).toBe(false);
+  });
+
+  it('enregistre le temps d\'atteinte de chaque niveau de ville', () => {
+    const statistics = islandState.getStatistics();
+    StatisticsController.processStatistics(islandState);
+    expect(statistics.getCityLevelTime(CityLevel.Outpost)).toBe(0);
+    expect(statistics.getCityLevelTime(CityLevel.Colony)).toBeUndefined();
+
+    advanceBy(90);
+    const city = game.getIslandMap()!.getCitiesByCivilization(game.getPlayerCivilizationId())[0];
+    city.addBuildingWithLevel(BuildingType.TownHall, CityLevel.Town);
+    StatisticsController.processStatistics(islandState);
+    expect(statistics.getCityLevelTime(CityLevel.Colony)).toBe(90);
+    expect(statistics.getCityLevelTime(CityLevel.Town)).toBe(90);
+    expect(statistics.getCityLevelTime(CityLevel.Metropolis)).toBeUndefined();
+  });
+
+  it('compte les routes, villes et bâtiments sur la carte', () => {
+    const totals = StatisticsController.getMapTotals(islandState);
+    const map = game.getIslandMap()!;
+    const civId = game.getPlayerCivilizationId();
+    expect(totals).toEqual({
+      roads: map.getRoadsForCivilization(civId).length,
+      cities: 1,
+      buildings: map.getCitiesByCivilization(civId)[0].getBuildingCount(),
+    });
+  });
+
+  it('conserve les statistiques dans la sauvegarde', () => {
+    StatisticsController.recordTrade(islandState);
+    StatisticsController.processStatistics(islandState);
+
+    const restored = IslandState.deserialize(islandState.serialize());
+    expect(restored.getStatistics().getCounter(StatisticCounter.TradesMade)).toBe(1);
+    expect(restored.getStatistics().getCityLevelTime(CityLevel.Outpost)).toBe(0);
+  });
+});
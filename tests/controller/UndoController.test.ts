@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UndoController } from '../../src/controller/UndoController';
+import { GameCoordinator } from '../../src/controller/GameCoordinator';
+import { TradeController } from '../../src/controller/TradeController';
+import { ConstructionController } from '../../src/controller/ConstructionController';
+import { StatisticsController } from '../../src/controller/StatisticsController';
+import { GameEventBus, GameEventType } from '../../src/controller/GameEventBus';
+import { MainGame } from '../../src/application/MainGame';
+import { HexMapRenderer } from '../../src/view/HexMapRenderer';
+import { IslandState } from '../../src/model/game/IslandState';
+import { PlayerActionKind } from '../../src/model/game/ActionHistory';
+import { BuildingType } from '../../src/model/city/BuildingType';
+import { City } from '../../src/model/city/City';
+import { IslandMap } from '../../src/model/map/IslandMap';
+import { ResourceType } from '../../src/model/map/ResourceType';
+import { StatisticCounter } from '../../src/model/statistics/types';
+import { calculateCivilizationPoints } from '../../src/model/game/CivilizationPoints';
+
+const ALL_RESOURCES = [ResourceType.Wood, ResourceType.Brick, ResourceType.Wheat, ResourceType.Sheep, ResourceType.Ore];
+
+describe('UndoController', () => {
+  let game: MainGame;
+  let coordinator: GameCoordinator;
+  let islandState: IslandState;
+  let map: IslandMap;
+  let city: City;
+
+  beforeEach(() => {
+    GameEventBus.clear();
+    game = new MainGame();
+    game.newGame(12345);
+    coordinator = new GameCoordinator(game, {} as HexMapRenderer);
+    islandState = game.getIslandState();
+    map = game.getIslandMap()!;
+    city = map.getCitiesByCivilization(game.getPlayerCivilizationId())[0];
+    for (const resourceType of ALL_RESOURCES) {
+      game.getPlayerResources().addResource(resourceType, 100);
+    }
+  });
+
+  /** Avance l'horloge de jeu. */
+  function advance(seconds: number): void {
+    const clock = game.getGameClock();
+    clock.updateTime(clock.getCurrentTime() + seconds);
+  }
+
+  function stock(): Map<ResourceType, number> {
+    return game.getPlayerResources().getAllResources();
+  }
+
+  function buildFirstRoad() {
+    const edge = map.getBuildableRoadsForCivilization(game.getPlayerCivilizationId())[0];
+    expect(coordinator.buildRoad(edge).success).toBe(true);
+    return edge;
+  }
+
+  it('annule un chantier en cours et rembourse son coût, puis le rétablit', () => {
+    const before = stock();
+    const edge = buildFirstRoad();
+    const paid = stock();
+
+    expect(coordinator.undo().success).toBe(true);
+    expect(islandState.getConstructionQueue().isEmpty()).toBe(true);
+    expect(stock()).toEqual(before);
+
+    expect(coordinator.redo().success).toBe(true);
+    expect(islandState.getConstructionQueue().hasRoadSite(edge)).toBe(true);
+    expect(stock()).toEqual(paid);
+    expect(UndoController.canRedo(islandState)).toBe(false);
+  });
+
+  it('retire de la carte une construction achevée pendant le délai d\'annulation', () => {
+    const before = stock();
+    const edge = buildFirstRoad();
+    const site = islandState.getConstructionQueue().getSites()[0];
+    advance(site.endTime - site.startTime);
+    expect(coordinator.processConstructions()).toHaveLength(1);
+    expect(map.hasRoad(edge)).toBe(true);
+
+    expect(coordinator.undo().success).toBe(true);
+    expect(map.hasRoad(edge)).toBe(false);
+    expect(stock()).toEqual(before);
+  });
+
+  it('refuse d\'annuler une route dont dépend une autre route', () => {
+    const civId = game.getPlayerCivilizationId();
+    const edge = buildFirstRoad();
+    const site = islandState.getConstructionQueue().getSites()[0];
+    advance(site.endTime - site.startTime);
+    coordinator.processConstructions();
+
+    // Route prolongée par une automatisation (hors historique)
+    const extension = map.getBuildableRoadsForCivilization(civId)
+      .find(candidate => map.calculateBuildableRoadDistance(candidate, civId) === 2)!;
+    map.addRoad(extension, civId);
+
+    expect(coordinator.getUndoBlocker()).toContain('à partir de cette route');
+    expect(coordinator.undo().success).toBe(false);
+    expect(map.hasRoad(edge)).toBe(true);
+  });
+
+  it('refuse d\'annuler une route dont dépend un chantier de route, sans copier la carte', () => {
+    const civId = game.getPlayerCivilizationId();
+    buildFirstRoad();
+    const site = islandState.getConstructionQueue().getSites()[0];
+    advance(site.endTime - site.startTime);
+    coordinator.processConstructions();
+
+    // Chantier de prolongement démarré par une automatisation (hors historique)
+    const extension = map.getBuildableRoadsForCivilization(civId)
+      .find(candidate => map.calculateBuildableRoadDistance(candidate, civId) === 2)!;
+    ConstructionController.startRoad(extension, islandState);
+
+    const deserialize = vi.spyOn(IslandMap, 'deserialize');
+    expect(coordinator.getUndoBlocker()).toContain('à partir de cette route');
+    expect(deserialize).not.toHaveBeenCalled();
+    deserialize.mockRestore();
+  });
+
+  it('signale l\'annulation d\'une construction achevée et met à jour statistiques et points de civilisation', () => {
+    const civId = game.getPlayerCivilizationId();
+    const unsubscribe = StatisticsController.subscribe(() => game.getIslandState());
+    const undone: boolean[] = [];
+    const levels: number[] = [];
+    GameEventBus.on(GameEventType.ConstructionUndone, ({ completed }) => undone.push(completed));
+    GameEventBus.on(GameEventType.CityUpgraded, ({ level }) => levels.push(level));
+
+    expect(coordinator.buildBuilding(BuildingType.TownHall, city, city.vertex).success).toBe(true);
+    const site = islandState.getConstructionQueue().getSites()[0];
+    advance(site.endTime - site.startTime);
+    coordinator.processConstructions();
+    const levelBefore = city.level;
+    levels.length = 0;
+
+    expect(coordinator.undo().success).toBe(true);
+
+    expect(undone).toEqual([true]);
+    expect(levels).toEqual([levelBefore - 1]);
+    expect(islandState.getStatistics().getCounter(StatisticCounter.ConstructionsCompleted)).toBe(0);
+    expect(game.getController().getCivilizationState().getCivilizationPoints())
+      .toBe(calculateCivilizationPoints(map, civId, game.getGameModifiers()));
+    unsubscribe();
+  });
+
+  it('refuse d\'annuler après le délai de grâce', () => {
+    buildFirstRoad();
+    advance(UndoController.UNDO_GRACE_SECONDS + 1);
+    expect(UndoController.canUndo(islandState)).toBe(false);
+    expect(coordinator.getUndoBlocker()).toContain(String(UndoController.UNDO_GRACE_SECONDS));
+  });
+
+  it('annule un échange tant que les ressources reçues n\'ont pas été dépensées', () => {
+    city.addBuildingWithLevel(BuildingType.Market, 1);
+    const civId = game.getPlayerCivilizationId();
+    const rate = TradeController.getTradeRateForResource(civId, map, ResourceType.Wood);
+    // Le minerai reçu doit tenir dans l'inventaire
+    game.getPlayerResources().removeResource(ResourceType.Ore, 100);
+    const before = stock();
+
+    expect(coordinator.performBatchTrade(new Map([[ResourceType.Wood, rate]]), new Map([[ResourceType.Ore, 1]])).success).toBe(true);
+    expect(coordinator.undo().success).toBe(true);
+    expect(stock()).toEqual(before);
+
+    // Rétabli puis minerai dépensé : l'échange ne peut plus être annulé
+    expect(coordinator.redo().success).toBe(true);
+    game.getPlayerResources().removeResource(ResourceType.Ore, game.getPlayerResources().getResource(ResourceType.Ore));
+    expect(coordinator.getUndoBlocker()).toContain('déjà été dépensées');
+  });
+
+  it('n\'enregistre pas les constructions des automatisations et vide le rétablissement sur une nouvelle action', () => {
+    expect(coordinator.buildBuilding(BuildingType.TownHall, city, city.vertex, true).success).toBe(true);
+    expect(islandState.getActionHistory().getDone()).toHaveLength(0);
+
+    expect(coordinator.buildBuilding(BuildingType.Market, city, city.vertex).success).toBe(true);
+    expect(coordinator.undo().success).toBe(true);
+    buildFirstRoad();
+    expect(UndoController.canRedo(islandState)).toBe(false);
+    expect(islandState.getActionHistory().getDone().map(a => a.kind)).toEqual([PlayerActionKind.Road]);
+  });
+});
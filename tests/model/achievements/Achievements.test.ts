@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { Achievements } from '../../../src/model/achievements/Achievements';
+import { AchievementId } from '../../../src/model/achievements/types';
+
+describe('Achievements', () => {
+  it('ne débloque un succès qu\'une fois, dans l\'ordre de déblocage', () => {
+    const achievements = new Achievements();
+    expect(achievements.unlock(AchievementId.FiveCities)).toBe(true);
+    expect(achievements.unlock(AchievementId.FirstCapital)).toBe(true);
+    expect(achievements.unlock(AchievementId.FiveCities)).toBe(false);
+
+    expect(achievements.getUnlocked()).toEqual([AchievementId.FiveCities, AchievementId.FirstCapital]);
+    expect(achievements.isUnlocked(AchievementId.FirstPrestige)).toBe(false);
+  });
+
+  it('ignore les succès inconnus à la désérialisation', () => {
+    const achievements = Achievements.deserialize({ unlocked: ['FirstCapital', 'Unknown'] });
+    expect(achievements.getUnlocked()).toEqual([AchievementId.FirstCapital]);
+    expect(Achievements.deserialize(undefined).getUnlocked()).toEqual([]);
+  });
+});
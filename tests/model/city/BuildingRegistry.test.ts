@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { BuildingRegistry, computeUpgradeCost, parseBuildingDefinitions } from '../../../src/model/city/BuildingRegistry';
+import { BuildingType, BuildingAction, getBuildingCost, getBuildingUpgradeCost, getResourceProductionBuildings } from '../../../src/model/city/BuildingType';
+import { Building } from '../../../src/model/city/Building';
+import { City } from '../../../src/model/city/City';
+import { CityLevel } from '../../../src/model/city/CityLevel';
+import { Vertex } from '../../../src/model/hex/Vertex';
+import { HexCoord } from '../../../src/model/hex/HexCoord';
+import { CivilizationId } from '../../../src/model/map/CivilizationId';
+import { HexType } from '../../../src/model/map/HexType';
+import { ResourceType } from '../../../src/model/map/ResourceType';
+import buildingsData from '../../../src/model/city/buildings.json';
+
+/** Copie modifiable des données par défaut. */
+function defaultData(): Record<string, any> {
+  return JSON.parse(JSON.stringify(buildingsData));
+}
+
+describe('BuildingRegistry', () => {
+  afterEach(() => {
+    BuildingRegistry.reset();
+  });
+
+  it('définit chaque type de bâtiment', () => {
+    const types = BuildingRegistry.getAll().map(definition => definition.type);
+    expect(types.sort()).toEqual(Object.values(BuildingType).sort());
+  });
+
+  it('expose les règles des bâtiments depuis les données', () => {
+    const townHall = BuildingRegistry.get(BuildingType.TownHall);
+    expect(townHall.maxLevel).toBe(4);
+    expect(townHall.minCityLevel).toBe(CityLevel.Outpost);
+    expect(townHall.action).toBe(BuildingAction.Upgrade);
+
+    const seaport = BuildingRegistry.get(BuildingType.Seaport);
+    expect(seaport.requiredHexType).toBe(HexType.Water);
+    expect(seaport.minCityLevel).toBe(CityLevel.Town);
+
+    expect(getResourceProductionBuildings()).toEqual([
+      BuildingType.Sawmill,
+      BuildingType.Brickworks,
+      BuildingType.Mill,
+      BuildingType.Sheepfold,
+      BuildingType.Mine,
+    ]);
+  });
+
+  it('permet de rééquilibrer un bâtiment sans toucher au code', () => {
+    const data = defaultData();
+    data.Temple.buildCost = { Wood: 1 };
+    data.Temple.maxLevel = 5;
+    data.Temple.minCityLevel = 'Colony';
+    data.Temple.upgradeCost = { curve: 'exponential', factor: 2, base: { Wheat: 10 } };
+    BuildingRegistry.load(data);
+
+    expect(getBuildingCost(BuildingType.Temple)).toEqual(new Map([[ResourceType.Wood, 1]]));
+    expect(getBuildingUpgradeCost(BuildingType.Temple, 3)).toEqual(new Map([[ResourceType.Wheat, 40]]));
+    expect(new Building(BuildingType.Temple).getMaxLevel()).toBe(5);
+
+    const vertex = Vertex.create(new HexCoord(0, 0), new HexCoord(1, 0), new HexCoord(0, 1));
+    const city = new City(vertex, CivilizationId.create('player1'), CityLevel.Colony);
+    expect(city.canBuildBuildingType(BuildingType.Temple)).toBe(true);
+  });
+
+  it('ne partage pas les coûts du registre avec les appelants', () => {
+    getBuildingCost(BuildingType.Market).set(ResourceType.Wood, 999);
+    expect(getBuildingCost(BuildingType.Market).get(ResourceType.Wood)).toBe(6);
+  });
+
+  it('calcule les courbes de coût d\'amélioration', () => {
+    const definition = BuildingRegistry.get(BuildingType.Sawmill);
+    expect(computeUpgradeCost(definition, 3).get(ResourceType.Wood)).toBe(30);
+    expect(computeUpgradeCost(
+      { ...definition, upgradeCost: { curve: 'exponential', factor: 1.5, base: new Map([[ResourceType.Ore, 10]]) } },
+      3
+    ).get(ResourceType.Ore)).toBe(23);
+  });
+
+  it('ajoute le coût en outils des améliorations de haut niveau', () => {
+    expect(getBuildingUpgradeCost(BuildingType.Mine, 2).has(ResourceType.Tools)).toBe(false);
+    expect(getBuildingUpgradeCost(BuildingType.Mine, 3).get(ResourceType.Tools)).toBe(6);
+    expect(getBuildingUpgradeCost(BuildingType.Mine, 4).get(ResourceType.Tools)).toBe(8);
+  });
+
+  describe('validation', () => {
+    it('indique le chemin du champ invalide', () => {
+      const data = defaultData();
+      data.Mine.buildCost.Wood = 'four';
+      expect(() => parseBuildingDefinitions(data)).toThrow('Mine.buildCost.Wood');
+
+      const badHex = defaultData();
+      badHex.Sawmill.requiredHexType = 'Forest';
+      expect(() => parseBuildingDefinitions(badHex)).toThrow('Sawmill.requiredHexType');
+
+      const badCurve = defaultData();
+      badCurve.Forge.upgradeCost = { curve: 'exponential', base: { Ore: 1 } };
+      expect(() => parseBuildingDefinitions(badCurve)).toThrow('Forge.upgradeCost.factor');
+    });
+
+    it('refuse un niveau maximum invalide', () => {
+      const data = defaultData();
+      data.Market.maxLevel = 0;
+      expect(() => parseBuildingDefinitions(data)).toThrow('Market.maxLevel');
+    });
+
+    it('refuse un bâtiment manquant ou inconnu', () => {
+      const missing = defaultData();
+      delete missing.Library;
+      expect(() => parseBuildingDefinitions(missing)).toThrow('Library');
+
+      const unknown = defaultData();
+      unknown.Granary = unknown.Mill;
+      expect(() => parseBuildingDefinitions(unknown)).toThrow('Granary');
+    });
+
+    it('conserve les définitions en cas de chargement invalide', () => {
+      expect(() => BuildingRegistry.load({ TownHall: {} })).toThrow();
+      expect(BuildingRegistry.get(BuildingType.TownHall).maxLevel).toBe(4);
+    });
+  });
+});
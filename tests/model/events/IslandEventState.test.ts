@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { IslandEventState } from '../../../src/model/events/IslandEventState';
+import { IslandEventType, NO_ISLAND_EVENT_EFFECTS } from '../../../src/model/events/types';
+import { HexType } from '../../../src/model/map/HexType';
+import { ResourceType } from '../../../src/model/map/ResourceType';
+
+describe('IslandEventState', () => {
+  it('calcule les effets des seuls événements actifs', () => {
+    const events = new IslandEventState();
+    expect(events.getEffects(0)).toBe(NO_ISLAND_EVENT_EFFECTS);
+
+    events.start({ type: IslandEventType.AbundantHarvest, endTime: 50, hexType: HexType.Sheep });
+    events.start({ type: IslandEventType.Storm, endTime: 100, seaport: 'port' });
+    expect(events.getEffects(10)).toEqual({ abundantHarvestHexType: HexType.Sheep, blockedSeaports: ['port'] });
+    expect(events.getEffects(50)).toEqual({ abundantHarvestHexType: null, blockedSeaports: ['port'] });
+
+    events.removeExpired(50);
+    expect(events.getActiveEvents(0).map(e => e.type)).toEqual([IslandEventType.Storm]);
+  });
+
+  it('restaure les événements et le générateur', () => {
+    const events = new IslandEventState(42);
+    events.setNextEventTime(300);
+    events.start({
+      type: IslandEventType.WanderingTrader,
+      endTime: 200,
+      offer: { give: ResourceType.Wood, giveAmount: 10, receive: ResourceType.Ore, receiveAmount: 5 },
+    });
+
+    const restored = IslandEventState.deserialize(events.serialize());
+    expect(restored.getRngState()).toBe(42);
+    expect(restored.getNextEventTime()).toBe(300);
+    expect(restored.getActiveEvents(0)).toEqual(events.getActiveEvents(0));
+  });
+
+  it('ignore les événements inconnus ou invalides à la désérialisation', () => {
+    const events = IslandEventState.deserialize({
+      rngState: 7,
+      nextEventTime: null,
+      events: [
+        { type: 'Earthquake', endTime: 100 },
+        { type: IslandEventType.WanderingTrader, endTime: 100, offer: { give: 'Gold', giveAmount: 1, receive: 'Wood', receiveAmount: 1 } },
+        { type: IslandEventType.AbundantHarvest, endTime: 100, hexType: 'Lava' },
+      ],
+    });
+    expect(events.getActiveEvents(0)).toEqual([{ type: IslandEventType.AbundantHarvest, endTime: 100 }]);
+    expect(IslandEventState.deserialize(undefined, 99).getRngState()).toBe(IslandEventState.initialRngState(99));
+  });
+});
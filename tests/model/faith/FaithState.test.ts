@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { FaithState } from '../../../src/model/faith/FaithState';
+import { BlessingType, BLESSING_DEFINITIONS, NO_BLESSING_EFFECTS } from '../../../src/model/faith/types';
+import { HexType } from '../../../src/model/map/HexType';
+
+describe('FaithState', () => {
+  it('calcule les effets des seules bénédictions actives', () => {
+    const faith = new FaithState();
+    expect(faith.getEffects(0)).toBe(NO_BLESSING_EFFECTS);
+
+    faith.activate(BlessingType.BountifulHarvest, 10, HexType.Wheat);
+    faith.activate(BlessingType.BoundlessStorage, 10);
+    expect(faith.getEffects(11)).toEqual({ doubledHarvestHexType: HexType.Wheat, inventoryCapsSuspended: true });
+
+    const storageEnd = 10 + BLESSING_DEFINITIONS[BlessingType.BoundlessStorage].durationSeconds;
+    expect(faith.getEffects(storageEnd)).toEqual({ doubledHarvestHexType: HexType.Wheat, inventoryCapsSuspended: false });
+  });
+
+  it('trie les bénédictions actives par fin', () => {
+    const faith = new FaithState();
+    faith.activate(BlessingType.SwiftConstruction, 0);
+    faith.activate(BlessingType.BoundlessStorage, 0);
+    expect(faith.getActiveBlessings(0).map(b => b.type)).toEqual([
+      BlessingType.BoundlessStorage,
+      BlessingType.SwiftConstruction,
+    ]);
+  });
+
+  it('ignore les bénédictions inconnues et les valeurs invalides à la désérialisation', () => {
+    const faith = FaithState.deserialize({
+      faith: Number.NaN,
+      blessings: [
+        { type: 'Plague', endTime: 100 },
+        { type: BlessingType.BountifulHarvest, endTime: 100, hexType: 'Lava' },
+      ],
+    });
+    expect(faith.getFaith()).toBe(0);
+    expect(faith.getActiveBlessings(0)).toEqual([{ type: BlessingType.BountifulHarvest, endTime: 100, hexType: undefined }]);
+    expect(FaithState.deserialize(undefined).getActiveBlessings(0)).toEqual([]);
+  });
+
+  it('refuse de dépenser plus que la foi disponible', () => {
+    const faith = new FaithState();
+    faith.addFaith(5);
+    expect(() => faith.spendFaith(6)).toThrow();
+    expect(faith.getFaith()).toBe(5);
+  });
+});
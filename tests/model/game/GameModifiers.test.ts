@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { GameModifiers } from '../../../src/model/game/GameModifiers';
+import { PrestigeModifiers } from '../../../src/model/prestige/PrestigeModifiers';
+import { NO_RESEARCH_EFFECTS, ResearchEffectType } from '../../../src/model/research/types';
+import { NO_BLESSING_EFFECTS } from '../../../src/model/faith/types';
+import { NO_ISLAND_EVENT_EFFECTS } from '../../../src/model/events/types';
+import { HexType } from '../../../src/model/map/HexType';
+import { ResourceType } from '../../../src/model/map/ResourceType';
+import { MainGame } from '../../../src/application/MainGame';
+
+describe('GameModifiers', () => {
+  it('est neutre par défaut', () => {
+    const modifiers = GameModifiers.NONE;
+    expect(modifiers.prestige).toBe(PrestigeModifiers.NONE);
+    expect(modifiers.applyToCost(new Map([[ResourceType.Wood, 10]])).get(ResourceType.Wood)).toBe(10);
+    expect(modifiers.getExtraBuildingSlots()).toBe(0);
+    expect(modifiers.getHarvestMultiplier(HexType.Wood)).toBe(1);
+  });
+
+  it('cumule la réduction Prestige et la recherche sur les routes, sous le même plafond', () => {
+    const research = { ...NO_RESEARCH_EFFECTS, [ResearchEffectType.RoadCostReduction]: 0.2 };
+    const modifiers = new GameModifiers(new PrestigeModifiers(0, 0, 0.3), research);
+    const cost = new Map([[ResourceType.Brick, 100]]);
+
+    expect(modifiers.applyToCost(cost).get(ResourceType.Brick)).toBe(70);
+    expect(modifiers.applyToRoadCost(cost).get(ResourceType.Brick)).toBe(50);
+    expect(new GameModifiers(new PrestigeModifiers(0, 0, 0.7), research).applyToRoadCost(cost).get(ResourceType.Brick)).toBe(25);
+  });
+
+  it('cumule les multiplicateurs de récolte des bénédictions et des événements', () => {
+    const modifiers = new GameModifiers(
+      PrestigeModifiers.NONE,
+      NO_RESEARCH_EFFECTS,
+      { ...NO_BLESSING_EFFECTS, doubledHarvestHexType: HexType.Ore },
+      { ...NO_ISLAND_EVENT_EFFECTS, abundantHarvestHexType: HexType.Ore }
+    );
+    expect(modifiers.getHarvestMultiplier(HexType.Ore)).toBe(4);
+    expect(modifiers.getHarvestMultiplier(HexType.Wood)).toBe(1);
+  });
+
+  it('est construit par la civilisation à partir de ses seuls bonus Prestige', () => {
+    const game = new MainGame();
+    game.newGame(12345);
+    const civState = game.getController().getCivilizationState();
+
+    expect(game.getGameModifiers().prestige).toBe(civState.getPrestigeModifiers());
+  });
+});
@@ -29,6 +29,11 @@ describe('ResourceHarvest', () => {
       expect(ResourceHarvest.calculateGain(HexType.Desert)).toBe(0);
       expect(ResourceHarvest.calculateGain(HexType.Water)).toBe(0);
     });
+
+    it('devrait retourner le rendement de l\'hexagone', () => {
+      expect(ResourceHarvest.calculateGain(HexType.Ore, 3)).toBe(3);
+      expect(ResourceHarvest.calculateGain(HexType.Desert, 3)).toBe(0);
+    });
   });
 
   describe('isAdjacentToPlayerCity', () => {
@@ -644,6 +649,60 @@ describe('ResourceHarvest', () => {
       expect(result591.gain).toBe(0);
       expect(playerResources.getResource(ResourceType.Wood)).toBe(590); // Toujours à 590
     });
+
+    it('devrait récolter le rendement d\'un hexagone riche jusqu\'à épuisement de sa réserve', () => {
+      const center = new HexCoord(0, 0);
+      const north = center.neighbor(HexDirection.SW);
+      const northeast = center.neighbor(HexDirection.SE);
+      const map = new IslandMap(new HexGrid([new Hex(center), new Hex(north), new Hex(northeast)]));
+      const civId = CivilizationId.create('civ1');
+      map.registerCivilization(civId);
+      map.addCity(Vertex.create(center, north, northeast), civId, CityLevel.Capital);
+      map.setHexType(center, HexType.Wood);
+      map.setHexYield(center, 2);
+      const playerResources = new PlayerResources();
+
+      // Sans temps de jeu, la réserve ne peut être décomptée : rendement standard
+      expect(ResourceHarvest.harvest(center, map, civId, playerResources).gain).toBe(1);
+
+      // La réserve (20 unités pour un point de rendement en plus) finance 20 récoltes doubles
+      for (let i = 0; i < 20; i++) {
+        expect(ResourceHarvest.harvest(center, map, civId, playerResources, undefined, undefined, undefined, 0).gain).toBe(2);
+      }
+      expect(ResourceHarvest.harvest(center, map, civId, playerResources, undefined, undefined, undefined, 0).gain).toBe(1);
+
+      // La réserve se régénère avec le temps de jeu
+      expect(ResourceHarvest.harvest(center, map, civId, playerResources, undefined, undefined, undefined, 5).gain).toBe(2);
+    });
+
+    it('ne devrait puiser dans la réserve que la part de la récolte réellement stockée', () => {
+      const center = new HexCoord(0, 0);
+      const north = center.neighbor(HexDirection.SW);
+      const northeast = center.neighbor(HexDirection.SE);
+      const map = new IslandMap(new HexGrid([new Hex(center), new Hex(north), new Hex(northeast)]));
+      const civId = CivilizationId.create('civ1');
+      map.registerCivilization(civId);
+      map.addCity(Vertex.create(center, north, northeast), civId); // Outpost (niveau 0) = capacité 10
+      map.setHexType(center, HexType.Wood);
+      map.setHexYield(center, 3);
+      const playerResources = new PlayerResources();
+      const reserve = map.getHexReserve(center, 0);
+
+      // Inventaire plein : rien n'est stocké, la réserve est intacte
+      playerResources.addResource(ResourceType.Wood, 10);
+      expect(ResourceHarvest.harvest(center, map, civId, playerResources, undefined, undefined, undefined, 0).gain).toBe(0);
+      expect(map.getHexReserve(center, 0)).toBe(reserve);
+
+      // Seulement le rendement standard stocké : la réserve est intacte
+      playerResources.removeResource(ResourceType.Wood, 1);
+      expect(ResourceHarvest.harvest(center, map, civId, playerResources, undefined, undefined, undefined, 0).gain).toBe(1);
+      expect(map.getHexReserve(center, 0)).toBe(reserve);
+
+      // Un point de bonus stocké sur deux : une seule unité de réserve prélevée
+      playerResources.removeResource(ResourceType.Wood, 2);
+      expect(ResourceHarvest.harvest(center, map, civId, playerResources, undefined, undefined, undefined, 0).gain).toBe(2);
+      expect(map.getHexReserve(center, 0)).toBe(reserve - 1);
+    });
   });
 });
 
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MainGame } from '../../../src/application/MainGame';
+import { PlayerSave } from '../../../src/model/game/PlayerSave';
+import {
+  CURRENT_SAVE_SCHEMA_VERSION,
+  SAVE_MIGRATIONS,
+  migrateSave,
+  validateSave,
+} from '../../../src/model/game/SaveSchema';
+
+describe('SaveSchema', () => {
+  let game: MainGame;
+
+  beforeEach(() => {
+    game = new MainGame();
+    game.newGame(12345);
+  });
+
+  function savedData(): any {
+    return JSON.parse(game.saveGame());
+  }
+
+  it('écrit la version courante du schéma dans la sauvegarde', () => {
+    const data = savedData();
+
+    expect(data.schemaVersion).toBe(CURRENT_SAVE_SCHEMA_VERSION);
+    expect(() => validateSave(data)).not.toThrow();
+  });
+
+  it('dispose d\'une migration pour chaque version antérieure', () => {
+    for (let version = 1; version < CURRENT_SAVE_SCHEMA_VERSION; version++) {
+      expect(SAVE_MIGRATIONS[version]).toBeDefined();
+    }
+  });
+
+  it('migre une sauvegarde non versionnée vers le schéma courant', () => {
+    const legacy = savedData();
+    delete legacy.schemaVersion;
+    delete legacy.language;
+
+    const migrated = migrateSave(legacy);
+
+    expect(migrated.schemaVersion).toBe(CURRENT_SAVE_SCHEMA_VERSION);
+    expect(migrated.language).toBe('fr');
+    expect(PlayerSave.deserialize(legacy).getGodState().getCivilizationState().getIslandState().getSeed()).toBe(12345);
+  });
+
+  it('refuse une sauvegarde d\'une version plus récente', () => {
+    const data = savedData();
+    data.schemaVersion = CURRENT_SAVE_SCHEMA_VERSION + 1;
+
+    expect(() => PlayerSave.deserialize(data)).toThrow(String(CURRENT_SAVE_SCHEMA_VERSION + 1));
+  });
+
+  it('indique le chemin du champ invalide dans les états imbriqués', () => {
+    const data = savedData();
+    const civState = JSON.parse(data.godState.civilizationState);
+    const islandState = JSON.parse(civState.islandState);
+    islandState.islandMap.cities[0].buildings = 'corrompu';
+    civState.islandState = JSON.stringify(islandState);
+    data.godState.civilizationState = JSON.stringify(civState);
+
+    expect(() => PlayerSave.deserialize(data)).toThrow(
+      'godState.civilizationState.islandState.islandMap.cities[0].buildings'
+    );
+  });
+
+  it('signale un état imbriqué qui n\'est pas du JSON', () => {
+    const data = savedData();
+    data.godState.civilizationState = '{pas du json';
+
+    expect(() => PlayerSave.deserialize(data)).toThrow('godState.civilizationState');
+  });
+});
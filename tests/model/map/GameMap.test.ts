@@ -92,6 +92,52 @@ describe('IslandMap', () => {
     });
   });
 
+  describe('rendement des hexagones', () => {
+    const coord = new HexCoord(0, 0);
+
+    it('devrait avoir un rendement standard et une réserve vide par défaut', () => {
+      const map = new IslandMap(new HexGrid([new Hex(coord)]));
+
+      expect(map.getHexYield(coord)).toBe(1);
+      expect(map.getHexReserve(coord, 0)).toBe(0);
+      expect(map.getEffectiveHexYield(coord, 0)).toBe(1);
+    });
+
+    it('devrait refuser un rendement invalide ou un hexagone inexistant', () => {
+      const map = new IslandMap(new HexGrid([new Hex(coord)]));
+
+      expect(() => map.setHexYield(coord, 0)).toThrow();
+      expect(() => map.setHexYield(coord, 1.5)).toThrow();
+      expect(() => map.setHexYield(coord, 4)).toThrow();
+      expect(() => map.setHexYield(new HexCoord(10, 10), 2)).toThrow();
+    });
+
+    it('devrait épuiser la réserve de richesse puis la régénérer avec le temps', () => {
+      const map = new IslandMap(new HexGrid([new Hex(coord)]));
+      map.setHexYield(coord, 3);
+      expect(map.getHexReserve(coord, 0)).toBe(40);
+
+      map.consumeHexReserve(coord, 39.5, 10);
+      expect(map.getEffectiveHexYield(coord, 10)).toBe(1);
+      // 0.5 + 0.2/s : une unité de plus au bout de 2.5 s, la réserve pleine au bout de 197.5 s
+      expect(map.getEffectiveHexYield(coord, 12.5)).toBe(2);
+      expect(map.getHexReserve(coord, 1000)).toBe(40);
+    });
+
+    it('devrait conserver rendements et réserves à la sérialisation', () => {
+      const map = new IslandMap(new HexGrid([new Hex(coord), new Hex(new HexCoord(1, 0))]));
+      map.setHexYield(coord, 2);
+      map.consumeHexReserve(coord, 15, 30);
+
+      const restored = IslandMap.deserialize(JSON.parse(JSON.stringify(map.serialize())));
+
+      expect(restored.getHexYield(coord)).toBe(2);
+      expect(restored.getHexYield(new HexCoord(1, 0))).toBe(1);
+      expect(restored.getHexReserve(coord, 30)).toBe(5);
+      expect(new IslandMap(new HexGrid([new Hex(coord)])).serialize()).not.toHaveProperty('hexYields');
+    });
+  });
+
   describe('gestion des villes', () => {
     it('devrait ajouter une ville sur un sommet', () => {
       const center = new HexCoord(0, 0);
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { MainGame } from '../../../src/application/MainGame';
+import { HexType } from '../../../src/model/map/HexType';
+import {
+  DEFAULT_MAP_SETTINGS,
+  IslandShape,
+  MapPreset,
+  deserializeMapSettings,
+  getPresetDistribution,
+} from '../../../src/model/map/MapSettings';
+
+function total(preset: MapPreset): number {
+  return [...getPresetDistribution(preset).values()].reduce((sum, count) => sum + count, 0);
+}
+
+describe('MapSettings', () => {
+  it('définit des préréglages de tailles et de ressources différentes', () => {
+    // Le préréglage par défaut reprend la carte historique
+    expect(total(MapPreset.Medium)).toBe(26);
+    expect(total(MapPreset.Small)).toBeLessThan(total(MapPreset.Medium));
+    expect(total(MapPreset.Large)).toBeGreaterThan(total(MapPreset.Medium));
+
+    const scarce = getPresetDistribution(MapPreset.ResourceScarce);
+    expect(scarce.get(HexType.Desert)).toBeGreaterThan(getPresetDistribution(MapPreset.Medium).get(HexType.Desert)!);
+    const oreRich = getPresetDistribution(MapPreset.OreRich);
+    expect(oreRich.get(HexType.Ore)).toBeGreaterThan(oreRich.get(HexType.Wood)!);
+
+    // Chaque préréglage garde du Bois et de l'Argile pour la ville de départ
+    for (const preset of Object.values(MapPreset)) {
+      expect(getPresetDistribution(preset).get(HexType.Wood)).toBeGreaterThan(0);
+      expect(getPresetDistribution(preset).get(HexType.Brick)).toBeGreaterThan(0);
+    }
+  });
+
+  it('reprend les valeurs par défaut pour des paramètres absents ou inconnus', () => {
+    expect(deserializeMapSettings(undefined)).toEqual(DEFAULT_MAP_SETTINGS);
+    expect(deserializeMapSettings({ preset: 'Huge', shape: IslandShape.Lake })).toEqual({
+      preset: DEFAULT_MAP_SETTINGS.preset,
+      shape: IslandShape.Lake,
+    });
+  });
+
+  it('génère la partie avec les paramètres choisis et les conserve à la sauvegarde', () => {
+    const game = new MainGame();
+    const settings = { preset: MapPreset.Small, shape: IslandShape.Archipelago };
+    game.newGame(7, undefined, settings);
+
+    const landHexes = () => game.getIslandMap()!.getGrid().getAllHexes()
+      .filter(hex => game.getIslandMap()!.getHexType(hex.coord) !== HexType.Water);
+    expect(landHexes()).toHaveLength(total(MapPreset.Small));
+
+    const loaded = new MainGame();
+    expect(loaded.loadGame(game.saveGame())).toBe(true);
+    expect(loaded.getIslandState().getMapSettings()).toEqual(settings);
+
+    // Une nouvelle partie sans paramètres réutilise ceux de la partie en cours
+    game.newGame(8);
+    expect(game.getIslandState().getMapSettings()).toEqual(settings);
+    expect(landHexes()).toHaveLength(total(MapPreset.Small));
+  });
+});
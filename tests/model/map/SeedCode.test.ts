@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { MainGame } from '../../../src/application/MainGame';
+import { RivalDifficulty, RivalSettings } from '../../../src/model/game/RivalCivilization';
+import { IslandShape, MapPreset } from '../../../src/model/map/MapSettings';
+import { decodeSeedCode, encodeSeedCode } from '../../../src/model/map/SeedCode';
+
+const NO_RIVALS: RivalSettings = { count: 0, difficulty: RivalDifficulty.Normal };
+
+/** Génère la carte d'un code de partage et retourne son IslandMap.serialize() en JSON. */
+function generateFromCode(code: string): string {
+  const { seed, settings, rivals } = decodeSeedCode(code);
+  const game = new MainGame();
+  game.newGame(seed, rivals, settings);
+  return JSON.stringify(game.getIslandMap()!.serialize());
+}
+
+/** Empreinte FNV-1a 32 bits, pour épingler une carte sans stocker tout son JSON. */
+function fingerprint(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+describe('SeedCode', () => {
+  it('encode et décode la seed, le préréglage, la forme et les rivaux', () => {
+    for (const preset of Object.values(MapPreset)) {
+      for (const shape of Object.values(IslandShape)) {
+        const code = encodeSeedCode(1718000000000, { preset, shape }, NO_RIVALS);
+        expect(decodeSeedCode(code)).toEqual({ seed: 1718000000000, settings: { preset, shape }, rivals: NO_RIVALS });
+      }
+    }
+    for (const difficulty of Object.values(RivalDifficulty)) {
+      const rivals = { count: 3, difficulty };
+      expect(decodeSeedCode(encodeSeedCode(7, { preset: MapPreset.Small, shape: IslandShape.Blob }, rivals)).rivals)
+        .toEqual(rivals);
+    }
+  });
+
+  it('accepte un code saisi en minuscules ou avec des espaces', () => {
+    const code = encodeSeedCode(42, { preset: MapPreset.OreRich, shape: IslandShape.Lake }, NO_RIVALS);
+    expect(decodeSeedCode(` ${code.toLowerCase().replace('-', ' - ')} `).seed).toBe(42);
+  });
+
+  it('refuse les codes mal formés, mal recopiés ou d\'un autre équilibrage', () => {
+    const settings = { preset: MapPreset.Medium, shape: IslandShape.Blob };
+    const code = encodeSeedCode(12345, settings, NO_RIVALS);
+    expect(() => decodeSeedCode('bonjour')).toThrow('Code de partage invalide');
+
+    // Un caractère erroné est détecté par la clé de contrôle
+    const typo = code.replace(/^./, c => (c === '1' ? '2' : '1'));
+    expect(() => decodeSeedCode(typo)).toThrow('vérifiez la saisie');
+
+    // Répartition différente de celle du préréglage : un code valide d'une autre version
+    const otherBalance = code.slice(0, -1).replace(/-MB5/, '-MB6');
+    const key = [...'0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ']
+      .map(k => otherBalance + k)
+      .find(candidate => {
+        try {
+          decodeSeedCode(candidate);
+          return true;
+        } catch (error) {
+          return !String(error).includes('vérifiez la saisie');
+        }
+      })!;
+    expect(() => decodeSeedCode(key)).toThrow('autre équilibrage');
+
+    expect(() => encodeSeedCode(-1, settings, NO_RIVALS)).toThrow();
+    expect(() => encodeSeedCode(1.5, settings, NO_RIVALS)).toThrow();
+    expect(() => encodeSeedCode(1, settings, { count: 36, difficulty: RivalDifficulty.Normal })).toThrow();
+  });
+
+  it('détecte toute inversion de deux caractères voisins', () => {
+    // '0' et 'T' ont des codes de caractère distants de 36
+    const code = encodeSeedCode(parseInt('T0T0', 36), { preset: MapPreset.Medium, shape: IslandShape.Blob }, NO_RIVALS);
+    const body = code.replace('-', '');
+    for (let i = 0; i < body.length - 1; i++) {
+      if (body[i] === body[i + 1]) {
+        continue;
+      }
+      const swapped = body.slice(0, i) + body[i + 1] + body[i] + body.slice(i + 2);
+      const seedLength = code.indexOf('-');
+      const candidate = `${swapped.slice(0, seedLength)}-${swapped.slice(seedLength)}`;
+      expect(() => decodeSeedCode(candidate)).toThrow();
+    }
+  });
+
+  it('expose le code de l\'île en cours, qui régénère la même carte avec les mêmes rivaux', () => {
+    const game = new MainGame();
+    game.newGame(987654321, { count: 2, difficulty: RivalDifficulty.Hard }, { preset: MapPreset.Large, shape: IslandShape.Round });
+    const code = game.getIslandState().getShareCode()!;
+
+    expect(decodeSeedCode(code).rivals).toEqual({ count: 2, difficulty: RivalDifficulty.Hard });
+    expect(generateFromCode(code)).toBe(JSON.stringify(game.getIslandMap()!.serialize()));
+  });
+
+  it('n\'expose pas de code pour une seed non partageable', () => {
+    const game = new MainGame();
+    game.newGame(12345, NO_RIVALS);
+    game.getIslandState().setSeed(-3);
+
+    expect(game.getIslandState().getShareCode()).toBeNull();
+  });
+
+  // Harnais de déterminisme : un code doit toujours produire la même carte. Une empreinte
+  // qui change signale une modification de la génération qui casse les codes déjà partagés.
+  const PINNED_MAPS: ReadonlyArray<[string, string]> = [
+    ['9IX-MB5555510N7', '94fd6d88'],
+    ['1K8-SA3333310N6', '93cfe005'],
+    ['LL-LL8888820NV', 'bd80bee2'],
+    ['O6H-OE4444910N0', 'd9648a59'],
+    ['2R-RR3333260ND', '1cceca0b'],
+    ['9IX-MB5555512HB', '6e3cc871'],
+  ];
+
+  for (const [code, expected] of PINNED_MAPS) {
+    it(`produit toujours la même carte pour le code ${code}`, () => {
+      const serialized = generateFromCode(code);
+      expect(generateFromCode(code)).toBe(serialized);
+      expect(fingerprint(serialized)).toBe(expected);
+    });
+  }
+});
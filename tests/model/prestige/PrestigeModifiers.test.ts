@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { PrestigeModifiers } from '../../../src/model/prestige/PrestigeModifiers';
+import { GameModifiers } from '../../../src/model/game/GameModifiers';
+import { PrestigeMap } from '../../../src/model/prestige/PrestigeMap';
+import { PrestigeCity } from '../../../src/model/prestige/PrestigeCity';
+import { PrestigeBonus, PrestigeBonusType } from '../../../src/model/prestige/types';
+import { Hex } from '../../../src/model/hex/Hex';
+import { HexCoord } from '../../../src/model/hex/HexCoord';
+import { HexGrid } from '../../../src/model/hex/HexGrid';
+import { Vertex } from '../../../src/model/hex/Vertex';
+import { Edge } from '../../../src/model/hex/Edge';
+import { CityLevel } from '../../../src/model/city/CityLevel';
+import { ResourceType } from '../../../src/model/map/ResourceType';
+import { RoadConstruction } from '../../../src/model/game/RoadConstruction';
+import { calculateCivilizationPoints } from '../../../src/model/game/CivilizationPoints';
+import { OutpostController } from '../../../src/controller/OutpostController';
+import { BuildingProductionController } from '../../../src/controller/BuildingProductionController';
+import { MainGame } from '../../../src/application/MainGame';
+
+/**
+ * Carte Prestige triangulaire (mêmes bonus que le générateur) avec une ville
+ * au centre du triangle, touchant les 3 hexagones.
+ */
+function makePrestigeMap(level: CityLevel): PrestigeMap {
+  const center = new HexCoord(0, 0);
+  const a = new HexCoord(-1, 1);
+  const b = new HexCoord(0, 1);
+  const grid = new HexGrid([new Hex(center), new Hex(a), new Hex(b)]);
+
+  const bonuses = new Map<string, PrestigeBonus>();
+  bonuses.set(center.hashCode(), { type: PrestigeBonusType.Production, value: 2 });
+  bonuses.set(a.hashCode(), { type: PrestigeBonusType.CivilizationPoint, value: 5 });
+  bonuses.set(b.hashCode(), { type: PrestigeBonusType.CostReduction, value: 0.1 });
+
+  const vertex = Vertex.create(center, a, b);
+  const cities = new Map<string, PrestigeCity>();
+  cities.set(vertex.hashCode(), new PrestigeCity(vertex, level));
+
+  return new PrestigeMap(grid, bonuses, cities, new Map<string, Edge>());
+}
+
+describe('PrestigeModifiers', () => {
+  it('est neutre sans carte Prestige', () => {
+    const modifiers = PrestigeModifiers.fromPrestigeMap(undefined);
+    expect(modifiers).toBe(PrestigeModifiers.NONE);
+    expect(RoadConstruction.getCost(1, new GameModifiers(modifiers)).get(ResourceType.Wood)).toBe(2);
+  });
+
+  it('agrège les bonus de toutes les villes, pondérés par leur niveau', () => {
+    const modifiers = PrestigeModifiers.fromPrestigeMap(makePrestigeMap(CityLevel.Town));
+
+    expect(modifiers.productionBonus).toBe(4);
+    expect(modifiers.civilizationPointBonus).toBe(10);
+    expect(modifiers.costReduction).toBeCloseTo(0.2, 5);
+  });
+
+  it('réduit les coûts en arrondissant à l\'entier supérieur', () => {
+    const modifiers = new GameModifiers(new PrestigeModifiers(0, 0, 0.2));
+
+    // Avant-poste avec 1 ville : 10 de chaque -> 8
+    const outpostCost = OutpostController.getBuildableOutpostCost(1, modifiers);
+    expect(outpostCost.get(ResourceType.Wood)).toBe(8);
+
+    // Route distance 0 : 1 de chaque reste à 1
+    const roadCost = RoadConstruction.getCost(0, modifiers);
+    expect(roadCost.get(ResourceType.Brick)).toBe(1);
+  });
+
+  it('plafonne la réduction de coût', () => {
+    const modifiers = new PrestigeModifiers(0, 0, 5);
+    const cost = modifiers.applyToCost(new Map([[ResourceType.Ore, 100]]));
+    expect(cost.get(ResourceType.Ore)).toBe(25);
+  });
+
+  it('accélère la production de 10% par point de bonus Production', () => {
+    const modifiers = new GameModifiers(new PrestigeModifiers(5, 0, 0));
+    const base = BuildingProductionController.getProductionInterval(1);
+    expect(BuildingProductionController.getProductionInterval(1, modifiers)).toBeCloseTo(base / 1.5, 5);
+  });
+
+  it('ajoute les bonus CivilizationPoint aux points de civilisation', () => {
+    const game = new MainGame();
+    game.newGame(12345);
+    const map = game.getIslandMap()!;
+    const civId = game.getPlayerCivilizationId();
+
+    const base = calculateCivilizationPoints(map, civId);
+    expect(calculateCivilizationPoints(map, civId, new GameModifiers(new PrestigeModifiers(0, 7, 0)))).toBe(base + 7);
+  });
+
+  it('conserve la carte Prestige lors d\'une nouvelle partie', () => {
+    const game = new MainGame();
+    game.newGame(12345);
+    const prestigeMap = makePrestigeMap(CityLevel.Colony);
+    game.getController().getCivilizationState().setPrestigeMap(prestigeMap);
+    game.getController().getCivilizationState().addPrestigePoints(20);
+
+    game.newGame(54321);
+
+    expect(game.getController().getCivilizationState().getPrestigeMap()).toBe(prestigeMap);
+    expect(game.getController().getCivilizationState().getPrestigeModifiers().productionBonus).toBe(2);
+    expect(game.getGameModifiers().prestige.productionBonus).toBe(2);
+  });
+
+  it('n\'applique pas la carte Prestige de départ avant le premier prestige', () => {
+    const game = new MainGame();
+    game.newGame(12345);
+    const civState = game.getController().getCivilizationState();
+
+    expect(civState.getPrestigeMap()).toBeDefined();
+    expect(civState.getPrestigeModifiers()).toBe(PrestigeModifiers.NONE);
+    expect(game.getGameModifiers().prestige).toBe(PrestigeModifiers.NONE);
+    civState.updateCivilizationPoints();
+    expect(civState.getCivilizationPoints()).toBe(
+      calculateCivilizationPoints(game.getIslandMap()!, game.getPlayerCivilizationId())
+    );
+  });
+});
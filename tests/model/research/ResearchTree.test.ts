@@ -0,0 +1,73 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ResearchTree, computeResearchEffects, parseResearchTree } from '../../../src/model/research/ResearchTree';
+import { ResearchState } from '../../../src/model/research/ResearchState';
+import { ResearchEffectType } from '../../../src/model/research/types';
+import researchData from '../../../src/model/research/research.json';
+
+/** Copie modifiable des données par défaut. */
+function defaultData(): Record<string, any> {
+  return JSON.parse(JSON.stringify(researchData));
+}
+
+describe('ResearchTree', () => {
+  afterEach(() => {
+    ResearchTree.reset();
+  });
+
+  it('définit au moins un nœud pour chaque effet', () => {
+    const effectTypes = new Set(ResearchTree.getAll().map(node => node.effect.type));
+    expect([...effectTypes].sort()).toEqual(Object.values(ResearchEffectType).sort());
+  });
+
+  it('cumule les effets des nœuds débloqués', () => {
+    const effects = computeResearchEffects(['paving', 'engineering', 'urbanPlanning', 'removedNode']);
+    expect(effects[ResearchEffectType.RoadCostReduction]).toBeCloseTo(0.4);
+    expect(effects[ResearchEffectType.ExtraBuildingSlot]).toBe(1);
+    expect(effects[ResearchEffectType.TradeRateReduction]).toBe(0);
+  });
+
+  it('permet de rééquilibrer l\'arbre sans toucher au code', () => {
+    const data = defaultData();
+    data.paving.cost = 1;
+    ResearchTree.load(data);
+    expect(ResearchTree.get('paving').cost).toBe(1);
+  });
+
+  describe('validation', () => {
+    it('indique le chemin du champ invalide', () => {
+      const data = defaultData();
+      data.agronomy.effect.type = 'Magic';
+      expect(() => parseResearchTree(data)).toThrow('agronomy.effect.type');
+
+      const badCost = defaultData();
+      badCost.paving.cost = 'ten';
+      expect(() => parseResearchTree(badCost)).toThrow('paving.cost');
+    });
+
+    it('refuse un prérequis inconnu ou défini plus bas', () => {
+      const unknown = defaultData();
+      unknown.paving.requires = ['alchemy'];
+      expect(() => parseResearchTree(unknown)).toThrow('alchemy');
+
+      const cycle = defaultData();
+      cycle.paving.requires = ['urbanPlanning'];
+      expect(() => parseResearchTree(cycle)).toThrow('paving.requires[0]');
+    });
+  });
+});
+
+describe('ResearchState', () => {
+  it('ignore les nœuds inconnus et les valeurs invalides à la désérialisation', () => {
+    const research = ResearchState.deserialize({ knowledge: -3, unlocked: ['paving', 'removedNode'] });
+    expect(research.getKnowledge()).toBe(0);
+    expect(research.getUnlocked()).toEqual(['paving']);
+    expect(ResearchState.deserialize(undefined).getUnlocked()).toEqual([]);
+  });
+
+  it('refuse de dépenser plus que la connaissance disponible', () => {
+    const research = new ResearchState();
+    research.addKnowledge(5);
+    expect(() => research.spendKnowledge(6)).toThrow();
+    expect(research.getKnowledge()).toBe(5);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { IslandStatistics } from '../../../src/model/statistics/IslandStatistics';
+import { IncomeSource, StatisticCounter } from '../../../src/model/statistics/types';
+import { ResourceType } from '../../../src/model/map/ResourceType';
+import { CityLevel } from '../../../src/model/city/CityLevel';
+
+describe('IslandStatistics', () => {
+  it('range les revenus par origine et ignore les gains nuls', () => {
+    const statistics = new IslandStatistics();
+    statistics.addIncome(IncomeSource.ManualHarvest, ResourceType.Wood, 2);
+    statistics.addIncome(IncomeSource.ManualHarvest, ResourceType.Wood, 1);
+    statistics.addIncome(IncomeSource.Market, ResourceType.Ore, 1);
+    statistics.addIncome(IncomeSource.Building, ResourceType.Brick, 0);
+
+    expect(statistics.getCurrentIncome()).toEqual({
+      [IncomeSource.ManualHarvest]: { [ResourceType.Wood]: 3 },
+      [IncomeSource.Market]: { [ResourceType.Ore]: 1 },
+    });
+  });
+
+  it('ne conserve que les derniers échantillons', () => {
+    const statistics = new IslandStatistics();
+    statistics.startSampling(0);
+    for (let i = 1; i <= IslandStatistics.MAX_SAMPLES + 5; i++) {
+      statistics.addIncome(IncomeSource.Building, ResourceType.Wheat, i);
+      statistics.closeSample(i * 30, new Map([[ResourceType.Wheat, i]]));
+    }
+
+    const samples = statistics.getSamples();
+    expect(samples).toHaveLength(IslandStatistics.MAX_SAMPLES);
+    expect(samples[0].startTime).toBe(5 * 30);
+    expect(samples[samples.length - 1].stock).toEqual({ [ResourceType.Wheat]: IslandStatistics.MAX_SAMPLES + 5 });
+    expect(statistics.getCurrentIncome()).toEqual({});
+    expect(statistics.getSampleStart()).toBe((IslandStatistics.MAX_SAMPLES + 5) * 30);
+  });
+
+  it("n'enregistre que la première atteinte d'un niveau de ville", () => {
+    const statistics = new IslandStatistics();
+    expect(statistics.recordCityLevel(CityLevel.Colony, 120)).toBe(true);
+    expect(statistics.recordCityLevel(CityLevel.Colony, 300)).toBe(false);
+    expect(statistics.getCityLevelTime(CityLevel.Colony)).toBe(120);
+    expect(statistics.getCityLevelTime(CityLevel.Town)).toBeUndefined();
+  });
+
+  it('se sérialise et ignore les valeurs invalides à la désérialisation', () => {
+    const statistics = new IslandStatistics();
+    statistics.startSampling(10);
+    statistics.addIncome(IncomeSource.AutoTrade, ResourceType.Sheep, 2);
+    statistics.closeSample(40, new Map([[ResourceType.Sheep, 7]]));
+    statistics.increment(StatisticCounter.TradesMade, 3);
+    statistics.recordCityLevel(CityLevel.Outpost, 0);
+
+    const restored = IslandStatistics.deserialize(JSON.parse(JSON.stringify(statistics.serialize())));
+    expect(restored.serialize()).toEqual(statistics.serialize());
+
+    const invalid = IslandStatistics.deserialize({
+      sampleStart: -1,
+      current: { Plague: { Wood: 1 }, [IncomeSource.Building]: { Wood: Number.NaN, Gold: 4 } } as any,
+      samples: [{ startTime: 0, endTime: Number.NaN, income: {}, stock: {} }],
+      counters: { TradesMade: -2, Unknown: 4 },
+      cityLevelTimes: { '9': 10, [String(CityLevel.Town)]: 50 },
+    });
+    expect(invalid.getSampleStart()).toBeNull();
+    expect(invalid.getCurrentIncome()).toEqual({ [IncomeSource.Building]: {} });
+    expect(invalid.getSamples()).toEqual([]);
+    expect(invalid.getCounter(StatisticCounter.TradesMade)).toBe(0);
+    expect(invalid.getCityLevelTime(CityLevel.Town)).toBe(50);
+    expect(IslandStatistics.deserialize(undefined).getSamples()).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { HeadlessSimulator } from '../../src/simulation/HeadlessSimulator';
+import { IdleStrategy, GreedyStrategy } from '../../src/simulation/SimulationStrategy';
+import { MainGame } from '../../src/application/MainGame';
+
+describe('HeadlessSimulator', () => {
+  it('échantillonne la timeline à intervalle fixe jusqu\'à la durée demandée', () => {
+    const result = HeadlessSimulator.run({
+      seed: 12345,
+      strategy: new IdleStrategy(),
+      hours: 0.05,
+      sampleIntervalSeconds: 60,
+    });
+
+    expect(result.strategy).toBe('idle');
+    expect(result.seed).toBe(12345);
+    expect(result.timeline.map(s => s.timeSeconds)).toEqual([0, 60, 120, 180]);
+    expect(result.timeline[0].citiesByLevel).toEqual([1, 0, 0, 0, 0]);
+    expect(result.timeToCapitalSeconds).toBeNull();
+  });
+
+  it('fait progresser la partie avec la stratégie gloutonne', () => {
+    const result = HeadlessSimulator.run({
+      seed: 12345,
+      strategy: new GreedyStrategy(),
+      hours: 0.1,
+      sampleIntervalSeconds: 120,
+    });
+
+    const first = result.timeline[0];
+    const last = result.timeline[result.timeline.length - 1];
+    expect(last.timeSeconds).toBe(360);
+    expect(last.buildingCount).toBeGreaterThan(first.buildingCount);
+    expect(last.civilizationPoints).toBeGreaterThan(first.civilizationPoints);
+  });
+
+  it('est déterministe pour une même seed et une même stratégie', () => {
+    const run = () => HeadlessSimulator.run({ seed: 42, strategy: new GreedyStrategy(), hours: 0.05 });
+
+    expect(run().timeline).toEqual(run().timeline);
+  });
+
+  it('démarre depuis une sauvegarde', () => {
+    const game = new MainGame();
+    game.newGame(777);
+
+    const result = HeadlessSimulator.run({ save: game.saveGame(), strategy: new IdleStrategy(), hours: 0.01 });
+
+    expect(result.seed).toBe(777);
+    expect(() => HeadlessSimulator.run({ save: '{"invalid": true}', hours: 0.01 })).toThrow();
+  });
+
+  it('exporte la timeline en CSV avec une ligne par échantillon', () => {
+    const result = HeadlessSimulator.run({ seed: 12345, strategy: new IdleStrategy(), hours: 0.05 });
+
+    const lines = HeadlessSimulator.toCsv(result.timeline).trim().split('\n');
+    expect(lines[0]).toBe(
+      'timeSeconds,Wood,Brick,Wheat,Sheep,Ore,Tools,civilizationPoints,'
+      + 'cities_Outpost,cities_Colony,cities_Town,cities_Metropolis,cities_Capital,buildingCount,constructionSites'
+    );
+    expect(lines).toHaveLength(result.timeline.length + 1);
+  });
+});
@@ -30,14 +30,14 @@ export class GameAutoPlayer {
    * @param civId - L'identifiant de la civilisation
    * @param map - La carte de jeu
    * @param resources - Les ressources du joueur
-   * @param gameClock - L'horloge de jeu (optionnel, pour gérer le temps)
+   * @param gameClock - L'horloge de jeu (temps des délais de récolte)
    * @returns Le nombre d'hexagones récoltés avec succès
    */
   static harvestAllHexesAroundCities(
     civId: CivilizationId,
     map: IslandMap,
     resources: PlayerResources,
-    gameClock?: GameClock
+    gameClock: GameClock
   ): number {
     const cities = map.getCitiesByCivilization(civId);
     const harvestedHexes = new Set<string>(); // Pour éviter de récolter deux fois le même hex
@@ -73,7 +73,7 @@ export class GameAutoPlayer {
             civId,
             map,
             resources,
-            gameClock ? { gameClock } : undefined
+            { gameClock }
           );
 
           if (result.success) {
@@ -105,8 +105,8 @@ export class GameAutoPlayer {
     civId: CivilizationId,
     map: IslandMap
   ): boolean {
-    // Convertir ResourceType en HexType
-    const hexTypeMap: Record<ResourceType, HexType> = {
+    // Convertir ResourceType en HexType (les outils ne sont pas récoltés)
+    const hexTypeMap: Partial<Record<ResourceType, HexType>> = {
       [ResourceType.Wood]: HexType.Wood,
       [ResourceType.Brick]: HexType.Brick,
       [ResourceType.Wheat]: HexType.Wheat,
@@ -9,7 +9,6 @@ import { CityLevel } from '../../src/model/city/CityLevel';
 import { BuildingType } from '../../src/model/city/BuildingType';
 import { ResourceType } from '../../src/model/map/ResourceType';
 import { IslandState } from '../../src/model/game/IslandState';
-import { ResourceHarvestController } from '../../src/controller/ResourceHarvestController';
 import { OutpostController } from '../../src/controller/OutpostController';
 import { RoadConstruction } from '../../src/model/game/RoadConstruction';
 import { GameAutoPlayer } from './GameAutoPlayer';
@@ -34,9 +33,6 @@ export function Make7HexesMapWithPortCity(): IslandState {
   const gameClock = gs.getGameClock();
   const center = new HexCoord(0, 0);
   
-  // Réinitialiser les cooldowns de récolte pour la simulation
-  ResourceHarvestController.resetCooldowns();
-  
   // Ville initiale créée par Make7HexesMap (niveau Colony avec TownHall niveau 1)
   const initialCityVertex = center.vertex(SecondaryHexDirection.N);
   const initialCity = islandMap.getCity(initialCityVertex);
@@ -237,9 +233,6 @@ export function Make7HexesMapWithPortAndCapital(): IslandState {
   const gameClock = gs.getGameClock();
   const center = new HexCoord(0, 0);
   
-  // Réinitialiser les cooldowns de récolte pour la simulation
-  ResourceHarvestController.resetCooldowns();
-  
   // Ville initiale créée par Make7HexesMap (niveau Colony avec TownHall niveau 1)
   // Après Make7HexesMapWithPortCity(), elle devrait être au niveau Town (2) avec TownHall niveau 2
   const initialCityVertex = center.vertex(SecondaryHexDirection.N);
@@ -328,9 +321,6 @@ export function Make7HexesMapWith5CitiesAndLibraries(): IslandState {
   const gameClock = gs.getGameClock();
   const center = new HexCoord(0, 0);
   
-  // Réinitialiser les cooldowns de récolte pour la simulation
-  ResourceHarvestController.resetCooldowns();
-  
   // À ce stade, on a 2 villes:
   // - Ville initiale au centre (niveau Capital/4) au vertex N
   // - Ville portuaire (niveau Metropolis/3) au vertex EN